@@ -15,8 +15,11 @@ import Dashboard from "./pages/Dashboard";
 import Employees from "./pages/Employees";
 import EmployeeProfile from "./pages/EmployeeProfile";
 import Attendance from "./pages/Attendance";
+import Timesheets from "./pages/Timesheets";
+import Onboarding from "./pages/Onboarding";
 import Leaves from "./pages/Leaves";
 import Payroll from "./pages/Payroll";
+import Payslips from "./pages/Payslips";
 import Billing from "./pages/Billing";
 import OrgChart from "./pages/OrgChart";
 import Profile from "./pages/Profile";
@@ -91,8 +94,11 @@ function AppRoutes() {
       <Route path="/employees" element={<ProtectedRoute><Employees /></ProtectedRoute>} />
       <Route path="/employees/:id" element={<ProtectedRoute><EmployeeProfile /></ProtectedRoute>} />
       <Route path="/attendance" element={<ProtectedRoute><Attendance /></ProtectedRoute>} />
+      <Route path="/timesheets" element={<ProtectedRoute><Timesheets /></ProtectedRoute>} />
+      <Route path="/onboarding" element={<ProtectedRoute><Onboarding /></ProtectedRoute>} />
       <Route path="/leaves" element={<ProtectedRoute><Leaves /></ProtectedRoute>} />
       <Route path="/payroll" element={<ProtectedRoute><Payroll /></ProtectedRoute>} />
+      <Route path="/payslips" element={<ProtectedRoute><Payslips /></ProtectedRoute>} />
       <Route path="/billing" element={<ProtectedRoute><Billing /></ProtectedRoute>} />
       <Route path="/org-chart" element={<ProtectedRoute><OrgChart /></ProtectedRoute>} />
       <Route path="/profile" element={<ProtectedRoute><Profile /></ProtectedRoute>} />
@@ -0,0 +1,199 @@
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { toast } from 'sonner';
+import { useAuth } from '@/contexts/AuthContext';
+import { useAssignShift } from '@/hooks/useShiftRoster';
+import { WEEKDAY_NAMES } from '@/lib/businessCalendar';
+import { formatShiftTime } from '@/lib/shiftRoster';
+import { Profile, ShiftRotation, WorkSession } from '@/types/hrms';
+import { mapDatabaseError } from '@/utils/errorMapper';
+
+interface AssignShiftDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  companyId: string;
+  employees: Profile[];
+  workSessions: WorkSession[];
+  rotations: ShiftRotation[];
+}
+
+// Monday first, as on the roster
+const ROSTER_WEEKDAYS = [...WEEKDAY_NAMES.slice(1), WEEKDAY_NAMES[0]];
+
+export function AssignShiftDialog({ open, onOpenChange, companyId, employees, workSessions, rotations }: AssignShiftDialogProps) {
+  const { user } = useAuth();
+  const assignShift = useAssignShift();
+  const [userIds, setUserIds] = useState<string[]>([]);
+  const [kind, setKind] = useState<'fixed' | 'rotation'>('fixed');
+  const [shiftId, setShiftId] = useState('');
+  const [rotationId, setRotationId] = useState('');
+  const [weeklyOffs, setWeeklyOffs] = useState<string[]>(['saturday', 'sunday']);
+  const [startDate, setStartDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [endDate, setEndDate] = useState('');
+
+  useEffect(() => {
+    if (open) {
+      setUserIds([]);
+      setEndDate('');
+    }
+  }, [open]);
+
+  const toggleEmployee = (userId: string, checked: boolean) => {
+    setUserIds(prev => checked ? [...prev, userId] : prev.filter(id => id !== userId));
+  };
+
+  const toggleWeeklyOff = (weekday: string, checked: boolean) => {
+    setWeeklyOffs(prev => checked ? [...prev, weekday] : prev.filter(d => d !== weekday));
+  };
+
+  const handleSubmit = async () => {
+    if (userIds.length === 0) {
+      toast.error('Select at least one employee');
+      return;
+    }
+    if (kind === 'fixed' ? !shiftId : !rotationId) {
+      toast.error(kind === 'fixed' ? 'Select a shift' : 'Select a rotation');
+      return;
+    }
+
+    try {
+      for (const userId of userIds) {
+        await assignShift.mutateAsync({
+          company_id: companyId,
+          user_id: userId,
+          start_date: startDate,
+          end_date: endDate || null,
+          work_session_id: kind === 'fixed' ? shiftId : null,
+          rotation_id: kind === 'rotation' ? rotationId : null,
+          weekly_offs: kind === 'fixed' ? weeklyOffs : [],
+          created_by: user?.id || null,
+        });
+      }
+      toast.success(`Shift assigned to ${userIds.length} employee(s)`);
+      onOpenChange(false);
+    } catch (error) {
+      toast.error(mapDatabaseError(error));
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Assign Shift</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Employees</Label>
+            <ScrollArea className="h-40 rounded-md border border-border p-2">
+              {employees.map(employee => (
+                <label key={employee.user_id} className="flex items-center gap-2 py-1 text-sm">
+                  <Checkbox
+                    checked={userIds.includes(employee.user_id)}
+                    onCheckedChange={(checked) => toggleEmployee(employee.user_id, checked === true)}
+                  />
+                  {employee.first_name} {employee.last_name}
+                </label>
+              ))}
+            </ScrollArea>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label>Schedule</Label>
+              <Select value={kind} onValueChange={(v) => setKind(v as 'fixed' | 'rotation')}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="fixed">Fixed shift</SelectItem>
+                  <SelectItem value="rotation" disabled={rotations.length === 0}>Rotation</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>{kind === 'fixed' ? 'Shift' : 'Rotation'}</Label>
+              {kind === 'fixed' ? (
+                <Select value={shiftId} onValueChange={setShiftId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select shift" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {workSessions.map(session => (
+                      <SelectItem key={session.id} value={session.id}>
+                        {session.name} ({formatShiftTime(session)})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              ) : (
+                <Select value={rotationId} onValueChange={setRotationId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select rotation" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {rotations.map(rotation => (
+                      <SelectItem key={rotation.id} value={rotation.id}>{rotation.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+          </div>
+
+          {kind === 'fixed' ? (
+            <div className="space-y-2">
+              <Label>Weekly offs</Label>
+              <div className="flex flex-wrap gap-3">
+                {ROSTER_WEEKDAYS.map(weekday => (
+                  <label key={weekday} className="flex items-center gap-1.5 text-sm capitalize">
+                    <Checkbox
+                      checked={weeklyOffs.includes(weekday)}
+                      onCheckedChange={(checked) => toggleWeeklyOff(weekday, checked === true)}
+                    />
+                    {weekday.slice(0, 3)}
+                  </label>
+                ))}
+              </div>
+            </div>
+          ) : (
+            <p className="text-xs text-muted-foreground">The rotation's first day falls on the start date.</p>
+          )}
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label>From</Label>
+              <Input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label>Until (optional)</Label>
+              <Input type="date" value={endDate} min={startDate} onChange={(e) => setEndDate(e.target.value)} />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Overrides any earlier assignment for these dates; the previous one resumes afterwards.
+          </p>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSubmit} disabled={assignShift.isPending}>
+            {assignShift.isPending ? 'Assigning...' : 'Assign'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
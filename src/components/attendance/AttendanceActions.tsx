@@ -1,26 +1,66 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { LogIn, LogOut, Clock, Timer, Zap } from 'lucide-react';
-import { AttendanceSession } from '@/types/hrms';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { LogIn, LogOut, Clock, Coffee, Timer, Zap, CloudOff, AlertTriangle, X } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { BreakType, OfflinePunchKind } from '@/types/hrms';
 import { format } from 'date-fns';
 import { toast } from 'sonner';
-import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
+import { compOffService } from '@/services/compOffService';
+import {
+  useAttendanceTimeZone,
+  useDismissPunchConflict,
+  usePendingPunches,
+  useQueuePunch,
+  useRecentSegments,
+  useSignIn,
+  useSignOut,
+  useStartBreak,
+} from '@/hooks/useAttendance';
+import { useCompanySettings } from '@/hooks/useSettings';
+import { useRosterDay, useWorkSessions } from '@/hooks/useShiftRoster';
+import { formatShiftTime, isCurrentSession } from '@/lib/shiftRoster';
+import { BREAK_TYPE_LABELS, formatElapsed, getWorkDayProgress } from '@/lib/attendanceBreaks';
+import { Coordinates, formatDistance, getCurrentPosition } from '@/lib/geofence';
+import { OFFLINE_PUNCH_LABELS, applyPendingPunches, isNetworkError } from '@/lib/offlinePunches';
+import { getZonedDate } from '@/lib/timezone';
+import { mapDatabaseError } from '@/utils/errorMapper';
 
 interface AttendanceActionsProps {
-  currentSession: AttendanceSession | null;
   onSessionUpdate: () => void;
 }
 
-export function AttendanceActions({ currentSession, onSessionUpdate }: AttendanceActionsProps) {
+export function AttendanceActions({ onSessionUpdate }: AttendanceActionsProps) {
   const { user, profile } = useAuth();
   const [loading, setLoading] = useState(false);
-  const [elapsedTime, setElapsedTime] = useState('0h 0m 0s');
   const [currentTime, setCurrentTime] = useState(new Date());
+  const companyId = profile?.company_id || null;
+  // Days are counted in the employee's timezone; the browser's stands in while it loads
+  const { data: timeZone } = useAttendanceTimeZone(user?.id || null, companyId);
+  const today = timeZone ? getZonedDate(currentTime, timeZone) : format(currentTime, 'yyyy-MM-dd');
+  const { data: workSessions = [] } = useWorkSessions(companyId);
+  const { data: rosterDay } = useRosterDay(user?.id || null, companyId, today);
+  const rosteredShift = workSessions.find(s => s.id === rosterDay?.shiftId);
+  const { data: settings } = useCompanySettings(companyId);
+  const { data: recentSegments = [] } = useRecentSegments(user?.id || null);
+  const signIn = useSignIn();
+  const startBreak = useStartBreak();
+  const signOut = useSignOut();
+  const { data: offlinePunches = [] } = usePendingPunches(user?.id || null);
+  const queuePunch = useQueuePunch();
+  const dismissConflict = useDismissPunchConflict();
+  const pendingPunches = offlinePunches.filter(p => p.status === 'pending');
+  const conflicts = offlinePunches.filter(p => p.status === 'conflict');
 
-  // Update current time every second
+  // Update current time every second, which also drives the live timers
   useEffect(() => {
     const interval = setInterval(() => {
       setCurrentTime(new Date());
@@ -28,93 +68,154 @@ export function AttendanceActions({ currentSession, onSessionUpdate }: Attendanc
     return () => clearInterval(interval);
   }, []);
 
-  // Live timer effect for session
-  useEffect(() => {
-    if (!currentSession) {
-      setElapsedTime('0h 0m 0s');
-      return;
+  // The day in progress, including an overnight shift started yesterday, with
+  // punches still waiting to sync shown as made
+  const progress = useMemo(() => {
+    const segments = applyPendingPunches(
+      recentSegments,
+      offlinePunches,
+      timeZone || Intl.DateTimeFormat().resolvedOptions().timeZone
+    );
+    const day = getWorkDayProgress(segments, currentTime);
+    const open = day?.openSegment;
+    const shift = open ? workSessions.find(w => w.id === open.session_id) || null : null;
+    if (open && !isCurrentSession(new Date(open.sign_in_time), shift, currentTime, timeZone)) {
+      return null;
     }
-
-    const updateTimer = () => {
-      const start = new Date(currentSession.sign_in_time);
-      const now = new Date();
-      const diff = now.getTime() - start.getTime();
-      const hours = Math.floor(diff / (1000 * 60 * 60));
-      const minutes = Math.floor((diff % (1000 * 60 * 60)) / (1000 * 60));
-      const seconds = Math.floor((diff % (1000 * 60)) / 1000);
-      setElapsedTime(`${hours}h ${minutes}m ${seconds}s`);
-    };
-
-    updateTimer();
-    const interval = setInterval(updateTimer, 1000);
-    return () => clearInterval(interval);
-  }, [currentSession]);
+    return day;
+  }, [recentSegments, offlinePunches, workSessions, currentTime, timeZone]);
+  const currentSession = progress?.openSegment || null;
+  const currentBreak = progress?.currentBreak || null;
+  const firstSegment = progress?.segments[0] || null;
 
   const getSessionType = () => {
-    if (!currentSession) return null;
-    const hour = new Date(currentSession.sign_in_time).getHours();
+    if (!firstSegment) return null;
+    const shift = workSessions.find(s => s.id === firstSegment.session_id);
+    if (shift) return { label: shift.name, color: 'bg-primary/10 text-primary border-primary/20' };
+    const hour = new Date(firstSegment.sign_in_time).getHours();
     if (hour < 12) return { label: 'Morning', color: 'bg-amber-500/10 text-amber-600 border-amber-500/20' };
     if (hour < 17) return { label: 'Afternoon', color: 'bg-primary/10 text-primary border-primary/20' };
     return { label: 'Evening', color: 'bg-purple-500/10 text-purple-600 border-purple-500/20' };
   };
 
+  // Punches carry the device's location only when the company checks it
+  const getPunchPosition = async () =>
+    settings?.geofencing_enabled ? await getCurrentPosition() : null;
+
+  /**
+   * Punch live, or keep the punch on the device when offline. Once one punch
+   * is waiting the rest queue behind it so they reach the server in order.
+   * Resolves to null when the punch was queued.
+   */
+  const punch = async <T,>(
+    kind: OfflinePunchKind,
+    breakType: BreakType | null,
+    live: (position: Coordinates | null) => Promise<T>
+  ): Promise<{ result: T } | null> => {
+    const punchedAt = new Date().toISOString();
+    const position = await getPunchPosition();
+    const queue = async () => {
+      await queuePunch.mutateAsync({
+        user_id: user!.id,
+        company_id: companyId,
+        kind,
+        break_type: breakType,
+        punched_at: punchedAt,
+        lat: position?.lat ?? null,
+        lng: position?.lng ?? null,
+      });
+      toast.info(`You're offline. ${OFFLINE_PUNCH_LABELS[kind]} saved at ${format(new Date(punchedAt), 'h:mm a')} and will sync when you reconnect`);
+      onSessionUpdate();
+      return null;
+    };
+
+    if (!navigator.onLine || pendingPunches.length > 0) return queue();
+    try {
+      return { result: await live(position) };
+    } catch (error) {
+      if (isNetworkError(error)) return queue();
+      throw error;
+    }
+  };
+
   const handleSignIn = async () => {
     if (!user) return;
+    const returningFrom = currentBreak?.type || null;
     setLoading(true);
     
     try {
-      const { data, error } = await supabase
-        .from('attendance_sessions')
-        .insert({
-          user_id: user.id,
-          company_id: profile?.company_id || null,
-          sign_in_time: new Date().toISOString(),
-          status: 'present'
-        })
-        .select()
-        .single();
-
-      if (error) throw error;
-      toast.success('🚀 Session started! Have a productive day!');
+      // Judged against the rostered shift, or office hours without one
+      const punched = await punch('sign_in', null, position =>
+        signIn.mutateAsync({ userId: user.id, companyId, lat: position?.lat, lng: position?.lng })
+      );
+      if (!punched) return;
+      const data = punched.result;
+
+      // Signing in on a holiday or weekly off opens a comp-off credit
+      const credit = returningFrom ? null : await compOffService.getCreditForSession(data.id).catch(() => null);
+      if (credit) {
+        toast.success(`Session started. ${credit.reason} is a day off, so a comp-off has been sent to your manager for approval`);
+      } else if (data.geofence_status === 'flagged') {
+        toast.warning(data.sign_in_distance_m !== null
+          ? `Session started ${formatDistance(Number(data.sign_in_distance_m))} from the nearest office and sent for review`
+          : 'Session started without your location and sent for review');
+      } else if (returningFrom) {
+        toast.success(`Welcome back! Your ${BREAK_TYPE_LABELS[returningFrom].toLowerCase()} break has ended`);
+      } else {
+        toast.success(data.status === 'late'
+          ? `Session started, ${data.late_minutes} minutes after your shift began`
+          : '🚀 Session started! Have a productive day!');
+      }
       onSessionUpdate();
     } catch (error) {
       console.error('Error signing in:', error);
-      toast.error('Failed to start session');
+      toast.error(mapDatabaseError(error));
     } finally {
       setLoading(false);
     }
   };
 
-  const handleSignOut = async () => {
-    if (!currentSession) return;
+  const handleStartBreak = async (breakType: BreakType) => {
+    if (!user || !currentSession) return;
     setLoading(true);
 
     try {
-      const signOutTime = new Date();
-      const signInTime = new Date(currentSession.sign_in_time);
-      const hoursWorked = (signOutTime.getTime() - signInTime.getTime()) / (1000 * 60 * 60);
-      
-      let status: 'present' | 'half_day' | 'late' = 'present';
-      if (hoursWorked < 4) {
-        status = 'half_day';
-      } else if (signInTime.getHours() > 10) {
-        status = 'late';
-      }
+      const punched = await punch('break', breakType, position =>
+        startBreak.mutateAsync({ attendanceId: currentSession.id, breakType, lat: position?.lat, lng: position?.lng })
+      );
+      if (!punched) return;
+      toast.success(breakType === 'official'
+        ? 'Official break started. It counts towards your hours'
+        : `${BREAK_TYPE_LABELS[breakType]} break started`);
+      onSessionUpdate();
+    } catch (error) {
+      console.error('Error starting break:', error);
+      toast.error(mapDatabaseError(error));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSignOut = async () => {
+    if (!user || !currentSession) return;
+    setLoading(true);
 
-      const { error } = await supabase
-        .from('attendance_sessions')
-        .update({
-          sign_out_time: signOutTime.toISOString(),
-          status
-        })
-        .eq('id', currentSession.id);
+    try {
+      const punched = await punch('sign_out', null, position =>
+        signOut.mutateAsync({ attendanceId: currentSession.id, lat: position?.lat, lng: position?.lng })
+      );
+      if (!punched) return;
+      const summary = punched.result;
+      const workedHours = summary ? summary.worked_minutes / 60 : progress!.workedMs / (1000 * 60 * 60);
+      const overtimeHours = Number(summary?.overtime_hours || 0);
 
-      if (error) throw error;
-      toast.success(`Great work! You logged ${hoursWorked.toFixed(1)} hours today 💪`);
+      toast.success(overtimeHours > 0
+        ? `Great work! You logged ${workedHours.toFixed(1)} hours, ${overtimeHours.toFixed(1)} beyond your shift 💪`
+        : `Great work! You logged ${workedHours.toFixed(1)} hours today 💪`);
       onSessionUpdate();
     } catch (error) {
       console.error('Error signing out:', error);
-      toast.error('Failed to end session');
+      toast.error(mapDatabaseError(error));
     } finally {
       setLoading(false);
     }
@@ -130,13 +231,41 @@ export function AttendanceActions({ currentSession, onSessionUpdate }: Attendanc
             <Zap className="h-5 w-5 text-primary" />
             Today's Session
           </CardTitle>
-          {currentSession && sessionType && (
-            <Badge variant="outline" className={sessionType.color}>{sessionType.label}</Badge>
-          )}
+          <div className="flex items-center gap-2">
+            {pendingPunches.length > 0 && (
+              <Badge variant="outline" className="bg-amber-500/10 text-amber-600 border-amber-500/20">
+                <CloudOff className="h-3 w-3 mr-1" />
+                {pendingPunches.length} waiting to sync
+              </Badge>
+            )}
+            {progress && sessionType && (
+              <Badge variant="outline" className={sessionType.color}>{sessionType.label}</Badge>
+            )}
+          </div>
         </div>
       </CardHeader>
       <CardContent className="space-y-4 pt-4">
-        {currentSession ? (
+        {conflicts.map(conflict => (
+          <Alert key={conflict.id} variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle className="flex items-center justify-between">
+              {OFFLINE_PUNCH_LABELS[conflict.kind]} at {format(new Date(conflict.punched_at), 'MMM d, h:mm a')} was not recorded
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                onClick={() => dismissConflict.mutate(conflict)}
+                aria-label="Dismiss"
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </AlertTitle>
+            <AlertDescription>
+              {conflict.error}. Request a regularization if the day needs correcting.
+            </AlertDescription>
+          </Alert>
+        ))}
+        {currentSession && progress ? (
           <>
             <div className="flex items-center gap-3 p-4 rounded-xl bg-gradient-to-r from-green-500/10 to-emerald-500/10 border border-green-500/20">
               <div className="p-2.5 rounded-full bg-green-500/20 animate-pulse">
@@ -145,7 +274,8 @@ export function AttendanceActions({ currentSession, onSessionUpdate }: Attendanc
               <div className="flex-1">
                 <p className="text-sm font-semibold text-green-700">Session Active</p>
                 <p className="text-xs text-green-600/80">
-                  Started at {format(new Date(currentSession.sign_in_time), 'h:mm a')}
+                  Started at {format(new Date(firstSegment!.sign_in_time), 'h:mm a')}
+                  {progress.segments.length > 1 && `, back since ${format(new Date(currentSession.sign_in_time), 'h:mm a')}`}
                 </p>
               </div>
             </div>
@@ -153,21 +283,75 @@ export function AttendanceActions({ currentSession, onSessionUpdate }: Attendanc
             <div className="text-center py-8 bg-gradient-to-br from-primary/5 via-primary/10 to-primary/5 rounded-xl border border-primary/10">
               <div className="flex items-center justify-center gap-2 mb-3">
                 <Clock className="h-5 w-5 text-primary" />
-                <span className="text-sm font-medium text-muted-foreground">Time Elapsed</span>
+                <span className="text-sm font-medium text-muted-foreground">Worked Today</span>
               </div>
               <p className="text-4xl font-bold text-foreground font-mono tracking-wider">
-                {elapsedTime}
+                {formatElapsed(progress.workedMs)}
               </p>
+              {progress.breakMs > 0 && (
+                <p className="text-xs text-muted-foreground mt-2">Breaks: {formatElapsed(progress.breakMs)}</p>
+              )}
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button className="h-12 text-base font-semibold" variant="outline" disabled={loading}>
+                    <Coffee className="h-5 w-5 mr-2" />
+                    Take a Break
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="start">
+                  {(Object.keys(BREAK_TYPE_LABELS) as BreakType[]).map(type => (
+                    <DropdownMenuItem key={type} onClick={() => handleStartBreak(type)}>
+                      {BREAK_TYPE_LABELS[type]}
+                    </DropdownMenuItem>
+                  ))}
+                </DropdownMenuContent>
+              </DropdownMenu>
+              <Button 
+                className="h-12 text-base font-semibold" 
+                variant="destructive" 
+                onClick={handleSignOut}
+                disabled={loading}
+              >
+                <LogOut className="h-5 w-5 mr-2" />
+                {loading ? 'Ending...' : 'End Day'}
+              </Button>
+            </div>
+          </>
+        ) : currentBreak && progress ? (
+          <>
+            <div className="flex items-center gap-3 p-4 rounded-xl bg-gradient-to-r from-amber-500/10 to-orange-500/10 border border-amber-500/20">
+              <div className="p-2.5 rounded-full bg-amber-500/20 animate-pulse">
+                <Coffee className="h-5 w-5 text-amber-600" />
+              </div>
+              <div className="flex-1">
+                <p className="text-sm font-semibold text-amber-700">{BREAK_TYPE_LABELS[currentBreak.type]} Break</p>
+                <p className="text-xs text-amber-600/80">
+                  Since {format(currentBreak.since, 'h:mm a')}
+                </p>
+              </div>
+            </div>
+
+            <div className="text-center py-8 bg-gradient-to-br from-amber-500/5 via-amber-500/10 to-amber-500/5 rounded-xl border border-amber-500/10">
+              <div className="flex items-center justify-center gap-2 mb-3">
+                <Timer className="h-5 w-5 text-amber-600" />
+                <span className="text-sm font-medium text-muted-foreground">On Break</span>
+              </div>
+              <p className="text-4xl font-bold text-foreground font-mono tracking-wider">
+                {formatElapsed(currentTime.getTime() - currentBreak.since.getTime())}
+              </p>
+              <p className="text-xs text-muted-foreground mt-2">Worked today: {formatElapsed(progress.workedMs)}</p>
             </div>
 
             <Button 
               className="w-full h-12 text-base font-semibold" 
-              variant="destructive" 
-              onClick={handleSignOut}
+              onClick={handleSignIn}
               disabled={loading}
             >
-              <LogOut className="h-5 w-5 mr-2" />
-              {loading ? 'Ending Session...' : 'End Session'}
+              <LogIn className="h-5 w-5 mr-2" />
+              {loading ? 'Resuming...' : 'Back to Work'}
             </Button>
           </>
         ) : (
@@ -178,7 +362,13 @@ export function AttendanceActions({ currentSession, onSessionUpdate }: Attendanc
               </div>
               <div>
                 <p className="text-sm font-semibold text-foreground">No Active Session</p>
-                <p className="text-xs text-muted-foreground">Click below to start working</p>
+                <p className="text-xs text-muted-foreground">
+                  {rosterDay?.isOff
+                    ? 'Rostered off today'
+                    : rosteredShift
+                      ? `Today's shift: ${rosteredShift.name}, ${formatShiftTime(rosteredShift)}`
+                      : 'Click below to start working'}
+                </p>
               </div>
             </div>
             
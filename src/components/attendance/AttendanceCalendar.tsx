@@ -2,11 +2,13 @@ import { useState, useEffect } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { ChevronLeft, ChevronRight, PartyPopper } from 'lucide-react';
-import { AttendanceSession } from '@/types/hrms';
+import { ChevronLeft, ChevronRight, Coffee, PartyPopper } from 'lucide-react';
+import { AttendanceDailySummary } from '@/types/hrms';
 import { format, startOfMonth, endOfMonth, eachDayOfInterval, isSameDay, isToday } from 'date-fns';
 import { cn } from '@/lib/utils';
 import { supabase } from '@/integrations/supabase/client';
+import { useDailySummaries, useDaySegments } from '@/hooks/useAttendance';
+import { BREAK_TYPE_LABELS, formatWorkedMinutes } from '@/lib/attendanceBreaks';
 import {
   Dialog,
   DialogContent,
@@ -22,10 +24,14 @@ interface Holiday {
 }
 
 interface AttendanceCalendarProps {
-  sessions: AttendanceSession[];
+  userId: string | null;
 }
 
-export function AttendanceCalendar({ sessions }: AttendanceCalendarProps) {
+/**
+ * A month of the user's days, each coloured by its status. A day worked in
+ * several segments shows the hours across them.
+ */
+export function AttendanceCalendar({ userId }: AttendanceCalendarProps) {
   const [currentMonth, setCurrentMonth] = useState(new Date());
   const [selectedDay, setSelectedDay] = useState<Date | null>(null);
   const [holidays, setHolidays] = useState<Holiday[]>([]);
@@ -33,6 +39,8 @@ export function AttendanceCalendar({ sessions }: AttendanceCalendarProps) {
   const monthStart = startOfMonth(currentMonth);
   const monthEnd = endOfMonth(currentMonth);
   const days = eachDayOfInterval({ start: monthStart, end: monthEnd });
+  const { data: summaries = [] } = useDailySummaries(userId, format(monthStart, 'yyyy-MM-dd'), format(monthEnd, 'yyyy-MM-dd'));
+  const { data: selectedSegments = [] } = useDaySegments(userId, selectedDay ? format(selectedDay, 'yyyy-MM-dd') : null);
 
   useEffect(() => {
     fetchHolidays();
@@ -58,15 +66,13 @@ export function AttendanceCalendar({ sessions }: AttendanceCalendarProps) {
     return holidays.find(h => isSameDay(new Date(h.date), day));
   };
 
-  const getStatusForDay = (day: Date) => {
-    const daySession = sessions.find(s => 
-      isSameDay(new Date(s.sign_in_time), day)
-    );
-    return daySession?.status || null;
+  const getSummaryForDay = (day: Date): AttendanceDailySummary | undefined => {
+    const date = format(day, 'yyyy-MM-dd');
+    return summaries.find(s => s.work_date === date);
   };
 
-  const getSessionForDay = (day: Date) => {
-    return sessions.find(s => isSameDay(new Date(s.sign_in_time), day));
+  const getStatusForDay = (day: Date) => {
+    return getSummaryForDay(day)?.status || null;
   };
 
   const getStatusColor = (status: string | null, holiday: Holiday | undefined) => {
@@ -81,17 +87,17 @@ export function AttendanceCalendar({ sessions }: AttendanceCalendarProps) {
     }
   };
 
-  const selectedSession = selectedDay ? getSessionForDay(selectedDay) : null;
+  const selectedSummary = selectedDay ? getSummaryForDay(selectedDay) : null;
   const selectedHoliday = selectedDay ? getHolidayForDay(selectedDay) : null;
 
-  const calculateWorkingHours = (session: AttendanceSession) => {
-    if (!session.sign_out_time) return 'In progress';
-    const start = new Date(session.sign_in_time);
-    const end = new Date(session.sign_out_time);
-    const hours = (end.getTime() - start.getTime()) / (1000 * 60 * 60);
-    return `${hours.toFixed(1)} hours`;
+  const calculateWorkingHours = (summary: AttendanceDailySummary) => {
+    if (summary.is_open) return `${formatWorkedMinutes(summary.worked_minutes)} so far`;
+    return `${(summary.worked_minutes / 60).toFixed(1)} hours`;
   };
 
+  const breakMinutes = (summary: AttendanceDailySummary) =>
+    summary.lunch_break_minutes + summary.personal_break_minutes + summary.official_break_minutes;
+
   // Get upcoming holidays for the sidebar
   const upcomingHolidays = holidays.filter(h => new Date(h.date) >= new Date());
 
@@ -218,34 +224,70 @@ export function AttendanceCalendar({ sessions }: AttendanceCalendarProps) {
                 <p className="text-sm text-purple-600 capitalize">{selectedHoliday.type} Holiday</p>
               </div>
             </div>
-          ) : selectedSession ? (
+          ) : selectedSummary ? (
             <div className="space-y-4">
               <div className="grid grid-cols-2 gap-4">
                 <div>
                   <p className="text-sm text-muted-foreground">Sign In</p>
-                  <p className="font-medium">{format(new Date(selectedSession.sign_in_time), 'h:mm a')}</p>
+                  <p className="font-medium">
+                    {selectedSummary.first_sign_in ? format(new Date(selectedSummary.first_sign_in), 'h:mm a') : '-'}
+                  </p>
                 </div>
                 <div>
                   <p className="text-sm text-muted-foreground">Sign Out</p>
                   <p className="font-medium">
-                    {selectedSession.sign_out_time 
-                      ? format(new Date(selectedSession.sign_out_time), 'h:mm a')
-                      : 'Not signed out'}
+                    {selectedSummary.last_sign_out
+                      ? format(new Date(selectedSummary.last_sign_out), 'h:mm a')
+                      : selectedSummary.segment_count > 0 ? 'Not signed out' : '-'}
                   </p>
                 </div>
                 <div>
                   <p className="text-sm text-muted-foreground">Total Hours</p>
-                  <p className="font-medium">{calculateWorkingHours(selectedSession)}</p>
+                  <p className="font-medium">{calculateWorkingHours(selectedSummary)}</p>
                 </div>
                 <div>
                   <p className="text-sm text-muted-foreground">Status</p>
-                  <p className="font-medium capitalize">{selectedSession.status.replace('_', ' ')}</p>
+                  <p className="font-medium capitalize">{selectedSummary.status?.replace('_', ' ') || '-'}</p>
                 </div>
+                {breakMinutes(selectedSummary) > 0 && (
+                  <div className="col-span-2">
+                    <p className="text-sm text-muted-foreground">Breaks</p>
+                    <p className="font-medium">
+                      {[
+                        selectedSummary.lunch_break_minutes > 0 && `Lunch ${formatWorkedMinutes(selectedSummary.lunch_break_minutes)}`,
+                        selectedSummary.personal_break_minutes > 0 && `Personal ${formatWorkedMinutes(selectedSummary.personal_break_minutes)}`,
+                        selectedSummary.official_break_minutes > 0 && `Official ${formatWorkedMinutes(selectedSummary.official_break_minutes)}`,
+                      ].filter(Boolean).join(' · ')}
+                    </p>
+                  </div>
+                )}
               </div>
-              {selectedSession.notes && (
+              {selectedSegments.length > 1 && (
+                <div className="space-y-1">
+                  <p className="text-sm text-muted-foreground">Segments</p>
+                  {selectedSegments.map(segment => (
+                    <div key={segment.id} className="flex items-center justify-between text-sm">
+                      <span>
+                        {format(new Date(segment.sign_in_time), 'h:mm a')}
+                        {' – '}
+                        {segment.sign_out_time ? format(new Date(segment.sign_out_time), 'h:mm a') : 'now'}
+                      </span>
+                      {segment.break_type && (
+                        <Badge variant="outline" className="text-xs">
+                          <Coffee className="h-3 w-3 mr-1" />
+                          {BREAK_TYPE_LABELS[segment.break_type]}
+                        </Badge>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+              {selectedSegments.some(segment => segment.notes) && (
                 <div>
                   <p className="text-sm text-muted-foreground">Notes</p>
-                  <p className="text-sm">{selectedSession.notes}</p>
+                  {selectedSegments.filter(segment => segment.notes).map(segment => (
+                    <p key={segment.id} className="text-sm">{segment.notes}</p>
+                  ))}
                 </div>
               )}
             </div>
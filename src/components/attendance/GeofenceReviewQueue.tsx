@@ -0,0 +1,109 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Check, MapPinOff, X } from 'lucide-react';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import { useAuth } from '@/contexts/AuthContext';
+import { useCompany } from '@/contexts/CompanyContext';
+import { useEmployees } from '@/hooks/useEmployees';
+import { useFlaggedPunches, useOfficeLocations, useReviewPunch } from '@/hooks/useGeofence';
+import { formatDistance } from '@/lib/geofence';
+import { AttendanceSession, Profile } from '@/types/hrms';
+import { mapDatabaseError } from '@/utils/errorMapper';
+
+/**
+ * Sessions with a punch outside every office fence, for an admin to approve
+ * or reject. A rejected session counts as absent.
+ */
+export function GeofenceReviewQueue() {
+  const { user } = useAuth();
+  const { company } = useCompany();
+  const companyId = company?.id || null;
+  const { data: flagged = [], isLoading } = useFlaggedPunches(companyId);
+  const { data: offices = [] } = useOfficeLocations(companyId);
+  const { data: employeesData } = useEmployees({ companyId: companyId || undefined, pageSize: 100 });
+  const reviewPunch = useReviewPunch();
+
+  const employees = (employeesData?.data || []) as Profile[];
+  const employeeName = (userId: string) => {
+    const employee = employees.find(e => e.user_id === userId);
+    return employee ? `${employee.first_name} ${employee.last_name}` : 'Employee';
+  };
+
+  const describePunch = (officeId: string | null, distance: number | null, lat: number | null, lng: number | null) => {
+    if (officeId) return offices.find(o => o.id === officeId)?.name || 'Office';
+    if (lat === null || lng === null) return 'No location shared';
+    return distance !== null ? `${formatDistance(Number(distance))} from the nearest office` : 'Outside every office';
+  };
+
+  const handleReview = async (session: AttendanceSession, decision: 'approved' | 'rejected') => {
+    if (!user) return;
+    try {
+      await reviewPunch.mutateAsync({ session, reviewedBy: user.id, decision });
+      toast.success(decision === 'approved' ? 'Punch approved' : 'Punch rejected; the day is marked absent');
+    } catch (error) {
+      toast.error(mapDatabaseError(error));
+    }
+  };
+
+  if (!isLoading && flagged.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg font-semibold flex items-center gap-2">
+          <MapPinOff className="h-5 w-5 text-primary" />
+          Punches to Review
+          <Badge variant="secondary">{flagged.length}</Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-muted-foreground text-center py-4">Loading...</p>
+        ) : (
+          <div className="space-y-2">
+            {flagged.map(session => (
+              <div key={session.id} className="flex items-center justify-between gap-3 p-3 rounded-lg border border-border">
+                <div className="space-y-0.5">
+                  <p className="font-medium text-foreground">
+                    {employeeName(session.user_id)} · {format(new Date(session.sign_in_time), 'MMM d, yyyy')}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    In {format(new Date(session.sign_in_time), 'h:mm a')}:{' '}
+                    {describePunch(session.sign_in_office_id, session.sign_in_distance_m, session.sign_in_lat, session.sign_in_lng)}
+                  </p>
+                  {session.sign_out_time && (
+                    <p className="text-xs text-muted-foreground">
+                      Out {format(new Date(session.sign_out_time), 'h:mm a')}:{' '}
+                      {describePunch(session.sign_out_office_id, session.sign_out_distance_m, session.sign_out_lat, session.sign_out_lng)}
+                    </p>
+                  )}
+                </div>
+                <div className="flex items-center gap-2">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleReview(session, 'rejected')}
+                    disabled={reviewPunch.isPending || session.user_id === user?.id}
+                  >
+                    <X className="h-4 w-4 mr-1" />
+                    Reject
+                  </Button>
+                  <Button
+                    size="sm"
+                    onClick={() => handleReview(session, 'approved')}
+                    disabled={reviewPunch.isPending || session.user_id === user?.id}
+                  >
+                    <Check className="h-4 w-4 mr-1" />
+                    Approve
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
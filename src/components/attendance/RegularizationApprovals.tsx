@@ -0,0 +1,91 @@
+import { format } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Check, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { useApproveRegularization, usePendingRegularizations, useRejectRegularization } from '@/hooks/useRegularization';
+import { formatPunchTime, REGULARIZATION_KIND_LABELS } from '@/lib/regularization';
+import { AttendanceRegularization } from '@/types/hrms';
+import { mapDatabaseError } from '@/utils/errorMapper';
+
+interface RegularizationApprovalsProps {
+  userId: string;
+  companyId: string;
+}
+
+/**
+ * Attendance corrections waiting for the approver's decision.
+ * Renders nothing while there are none.
+ */
+export function RegularizationApprovals({ userId, companyId }: RegularizationApprovalsProps) {
+  const { data: requests = [] } = usePendingRegularizations(userId, companyId);
+  const approveRequest = useApproveRegularization();
+  const rejectRequest = useRejectRegularization();
+  const busy = approveRequest.isPending || rejectRequest.isPending;
+
+  const handleApprove = async (request: AttendanceRegularization) => {
+    try {
+      await approveRequest.mutateAsync({ request, approvedBy: userId });
+      toast.success('Correction approved and attendance updated');
+    } catch (error) {
+      toast.error(mapDatabaseError(error));
+    }
+  };
+
+  const handleReject = async (request: AttendanceRegularization) => {
+    try {
+      await rejectRequest.mutateAsync({ request, rejectedBy: userId });
+      toast.success('Correction rejected');
+    } catch (error) {
+      toast.error(mapDatabaseError(error));
+    }
+  };
+
+  if (requests.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg font-semibold">Attendance Corrections</CardTitle>
+        <CardDescription>Approving replaces the day's punches; the original punch is kept on the request.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {requests.map(request => (
+          <div key={request.id} className="flex items-center justify-between gap-3 p-4 rounded-lg border border-border">
+            <div className="space-y-0.5">
+              <p className="font-medium text-foreground">
+                {request.profile ? `${request.profile.first_name} ${request.profile.last_name}` : 'Unknown'}
+              </p>
+              <p className="text-sm text-muted-foreground">
+                {format(new Date(request.work_date), 'EEE, MMM d, yyyy')} · {formatPunchTime(request.requested_sign_in)} - {formatPunchTime(request.requested_sign_out)}
+              </p>
+              <p className="text-xs text-muted-foreground">{request.reason}</p>
+            </div>
+            <div className="flex items-center gap-2">
+              <Badge variant="outline">{REGULARIZATION_KIND_LABELS[request.kind]}</Badge>
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-8 w-8 p-0 text-green-600 hover:text-green-700 hover:bg-green-100"
+                onClick={() => handleApprove(request)}
+                disabled={busy}
+              >
+                <Check className="h-4 w-4" />
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-8 w-8 p-0 text-destructive hover:text-destructive hover:bg-red-100"
+                onClick={() => handleReject(request)}
+                disabled={busy}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,180 @@
+import { useEffect, useMemo, useState } from 'react';
+import { format, subDays } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { toast } from 'sonner';
+import { useAuth } from '@/contexts/AuthContext';
+import { useUserAttendance } from '@/hooks/useAttendance';
+import { useSubmitRegularization } from '@/hooks/useRegularization';
+import { formatPunchTime, REGULARIZATION_KIND_LABELS, toRequestedPunches } from '@/lib/regularization';
+import { RegularizationKind } from '@/types/hrms';
+import { mapDatabaseError } from '@/utils/errorMapper';
+
+interface RegularizationDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const toTime = (value: string | null) => (value ? format(new Date(value), 'HH:mm') : '');
+
+/**
+ * Ask to correct a past day's punches. The times start from the day's
+ * session, if there is one.
+ */
+export function RegularizationDialog({ open, onOpenChange }: RegularizationDialogProps) {
+  const { user, profile } = useAuth();
+  const submit = useSubmitRegularization();
+  const { data: recentSessions = [] } = useUserAttendance(open ? user?.id || null : null, 62);
+  const [workDate, setWorkDate] = useState(format(subDays(new Date(), 1), 'yyyy-MM-dd'));
+  const [kind, setKind] = useState<RegularizationKind>('missed_punch');
+  const [signIn, setSignIn] = useState('');
+  const [signOut, setSignOut] = useState('');
+  const [reason, setReason] = useState('');
+
+  const [segmentId, setSegmentId] = useState<string | null>(null);
+
+  // A day worked in segments is corrected one segment at a time
+  const daySegments = useMemo(
+    () => recentSessions
+      .filter(s => s.work_date === workDate)
+      .sort((a, b) => new Date(a.sign_in_time).getTime() - new Date(b.sign_in_time).getTime()),
+    [recentSessions, workDate]
+  );
+  const session = daySegments.find(s => s.id === segmentId) || daySegments[0] || null;
+
+  useEffect(() => {
+    if (open) setReason('');
+  }, [open]);
+
+  useEffect(() => {
+    setSegmentId(null);
+  }, [workDate]);
+
+  useEffect(() => {
+    setSignIn(toTime(session?.sign_in_time ?? null));
+    setSignOut(toTime(session?.sign_out_time ?? null));
+  }, [session]);
+
+  const handleSubmit = async () => {
+    if (!user || !profile?.company_id) return;
+    if (!signIn || !signOut) {
+      toast.error('Enter both the sign-in and sign-out times');
+      return;
+    }
+
+    const punches = toRequestedPunches(workDate, signIn, signOut);
+    try {
+      await submit.mutateAsync({
+        companyId: profile.company_id,
+        userId: user.id,
+        attendanceSessionId: session?.id ?? null,
+        workDate,
+        kind,
+        signIn: punches.signIn,
+        signOut: punches.signOut,
+        reason,
+      });
+      toast.success('Correction sent to your manager for approval');
+      onOpenChange(false);
+    } catch (error) {
+      toast.error(mapDatabaseError(error));
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Request Attendance Correction</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label>Date</Label>
+              <Input
+                type="date"
+                value={workDate}
+                max={format(new Date(), 'yyyy-MM-dd')}
+                onChange={(e) => setWorkDate(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Type</Label>
+              <Select value={kind} onValueChange={(v) => setKind(v as RegularizationKind)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(REGULARIZATION_KIND_LABELS) as RegularizationKind[]).map(k => (
+                    <SelectItem key={k} value={k}>{REGULARIZATION_KIND_LABELS[k]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {daySegments.length > 1 && (
+            <div className="space-y-2">
+              <Label>Segment</Label>
+              <Select value={session?.id} onValueChange={setSegmentId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {daySegments.map(segment => (
+                    <SelectItem key={segment.id} value={segment.id}>
+                      {formatPunchTime(segment.sign_in_time)} – {formatPunchTime(segment.sign_out_time)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <p className="text-xs text-muted-foreground">
+            {session
+              ? `Recorded: in ${formatPunchTime(session.sign_in_time)}, out ${formatPunchTime(session.sign_out_time)}`
+              : 'No punch recorded on this day'}
+          </p>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label>Sign in</Label>
+              <Input type="time" value={signIn} onChange={(e) => setSignIn(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label>Sign out</Label>
+              <Input type="time" value={signOut} onChange={(e) => setSignOut(e.target.value)} />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Reason</Label>
+            <Textarea
+              placeholder="e.g. Client visit at the customer's site"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              rows={3}
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSubmit} disabled={submit.isPending}>
+            {submit.isPending ? 'Sending...' : 'Send for Approval'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
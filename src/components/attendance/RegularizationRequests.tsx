@@ -0,0 +1,96 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ClipboardEdit, Plus } from 'lucide-react';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+import { useAuth } from '@/contexts/AuthContext';
+import { useCancelRegularization, useRegularizationRequests } from '@/hooks/useRegularization';
+import { formatPunchTime, REGULARIZATION_KIND_LABELS, REGULARIZATION_STATUS_LABELS } from '@/lib/regularization';
+import { AttendanceRegularization, RegularizationStatus } from '@/types/hrms';
+import { mapDatabaseError } from '@/utils/errorMapper';
+import { RegularizationDialog } from './RegularizationDialog';
+
+const STATUS_COLORS: Record<RegularizationStatus, string> = {
+  pending: 'bg-amber-500/10 text-amber-600 border-amber-500/20',
+  approved: 'bg-green-500/10 text-green-600 border-green-500/20',
+  rejected: 'bg-destructive/10 text-destructive border-destructive/20',
+  cancelled: 'bg-muted text-muted-foreground border-border',
+};
+
+/**
+ * The employee's own correction requests, with a way to raise a new one
+ */
+export function RegularizationRequests() {
+  const { user } = useAuth();
+  const { data: requests = [] } = useRegularizationRequests(user?.id || null);
+  const cancelRequest = useCancelRegularization();
+  const [dialogOpen, setDialogOpen] = useState(false);
+
+  const handleCancel = async (request: AttendanceRegularization) => {
+    try {
+      await cancelRequest.mutateAsync(request);
+      toast.success('Request cancelled');
+    } catch (error) {
+      toast.error(mapDatabaseError(error));
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-lg font-semibold flex items-center gap-2">
+            <ClipboardEdit className="h-5 w-5 text-primary" />
+            Corrections
+          </CardTitle>
+          <Button size="sm" variant="outline" onClick={() => setDialogOpen(true)}>
+            <Plus className="h-4 w-4 mr-1" />
+            Request
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {requests.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">
+            Forgot to punch or were out on duty? Ask your manager to correct the day.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {requests.slice(0, 5).map(request => (
+              <div key={request.id} className="p-3 rounded-lg border border-border space-y-1">
+                <div className="flex items-center justify-between gap-2">
+                  <p className="text-sm font-medium text-foreground">
+                    {format(new Date(request.work_date), 'EEE, MMM d')} · {REGULARIZATION_KIND_LABELS[request.kind]}
+                  </p>
+                  <Badge variant="outline" className={cn('font-normal', STATUS_COLORS[request.status])}>
+                    {REGULARIZATION_STATUS_LABELS[request.status]}
+                  </Badge>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {formatPunchTime(request.requested_sign_in)} - {formatPunchTime(request.requested_sign_out)}
+                  {request.rejection_reason && ` · ${request.rejection_reason}`}
+                </p>
+                {request.status === 'pending' && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="h-7 px-2 text-xs"
+                    onClick={() => handleCancel(request)}
+                    disabled={cancelRequest.isPending}
+                  >
+                    Cancel request
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <RegularizationDialog open={dialogOpen} onOpenChange={setDialogOpen} />
+    </Card>
+  );
+}
@@ -0,0 +1,236 @@
+import { useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { CalendarClock, ChevronLeft, ChevronRight, Repeat, Trash2, UserPlus } from 'lucide-react';
+import { addDays, addWeeks, format, isToday, startOfWeek } from 'date-fns';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+import { useAuth } from '@/contexts/AuthContext';
+import { useCompany } from '@/contexts/CompanyContext';
+import { useEmployees } from '@/hooks/useEmployees';
+import { useDeleteShiftAssignment, useShiftAssignments, useShiftRotations, useWorkSessions } from '@/hooks/useShiftRoster';
+import { crossesMidnight, formatShiftTime, resolveRosterDay } from '@/lib/shiftRoster';
+import { Profile } from '@/types/hrms';
+import { mapDatabaseError } from '@/utils/errorMapper';
+import { AssignShiftDialog } from './AssignShiftDialog';
+import { ShiftRotationDialog } from './ShiftRotationDialog';
+
+/**
+ * Week view of who works which shift. Admins see and edit the whole
+ * company's roster; managers see their direct reports'.
+ */
+export function ShiftRoster() {
+  const { profile, isAdmin } = useAuth();
+  const { company } = useCompany();
+  const companyId = company?.id || null;
+  const [weekStart, setWeekStart] = useState(() => startOfWeek(new Date(), { weekStartsOn: 1 }));
+  const [assignOpen, setAssignOpen] = useState(false);
+  const [rotationsOpen, setRotationsOpen] = useState(false);
+  const [selectedEmployee, setSelectedEmployee] = useState<Profile | null>(null);
+
+  const days = Array.from({ length: 7 }, (_, i) => addDays(weekStart, i));
+  const startDate = format(days[0], 'yyyy-MM-dd');
+  const endDate = format(days[6], 'yyyy-MM-dd');
+
+  const { data: employeesData } = useEmployees({ companyId: companyId || undefined, pageSize: 100 });
+  const { data: workSessions = [] } = useWorkSessions(companyId);
+  const { data: rotations = [] } = useShiftRotations(companyId);
+  const { data: assignments = [] } = useShiftAssignments(companyId, startDate, endDate);
+  const deleteAssignment = useDeleteShiftAssignment();
+
+  const employees = useMemo(() => {
+    const all = (employeesData?.data || []) as Profile[];
+    return isAdmin ? all : all.filter(e => profile && e.reporting_manager_id === profile.id);
+  }, [employeesData, isAdmin, profile]);
+  const sessionMap = new Map(workSessions.map(s => [s.id, s]));
+
+  const employeeAssignments = selectedEmployee
+    ? assignments.filter(a => a.user_id === selectedEmployee.user_id)
+    : [];
+
+  const describeAssignment = (workSessionId: string | null, rotationId: string | null) => {
+    if (rotationId) return rotations.find(r => r.id === rotationId)?.name || 'Rotation';
+    const shift = workSessionId ? sessionMap.get(workSessionId) : undefined;
+    return shift ? `${shift.name} (${formatShiftTime(shift)})` : 'Shift';
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteAssignment.mutateAsync(id);
+      toast.success('Assignment removed');
+    } catch (error) {
+      toast.error(mapDatabaseError(error));
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <CardTitle className="text-lg font-semibold flex items-center gap-2">
+            <CalendarClock className="h-5 w-5 text-primary" />
+            Shift Roster
+          </CardTitle>
+          <div className="flex items-center gap-2">
+            {isAdmin && companyId && (
+              <>
+                <Button variant="outline" size="sm" onClick={() => setRotationsOpen(true)}>
+                  <Repeat className="h-4 w-4 mr-1" />
+                  Rotations
+                </Button>
+                <Button size="sm" onClick={() => setAssignOpen(true)} disabled={workSessions.length === 0}>
+                  <UserPlus className="h-4 w-4 mr-1" />
+                  Assign Shift
+                </Button>
+              </>
+            )}
+            <Button variant="ghost" size="icon" onClick={() => setWeekStart(prev => addWeeks(prev, -1))}>
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <span className="text-sm font-medium min-w-[150px] text-center">
+              {format(days[0], 'MMM d')} - {format(days[6], 'MMM d, yyyy')}
+            </span>
+            <Button variant="ghost" size="icon" onClick={() => setWeekStart(prev => addWeeks(prev, 1))}>
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {employees.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">No employees to roster</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr>
+                  <th className="text-left font-medium text-muted-foreground py-2 pr-2">Employee</th>
+                  {days.map(day => (
+                    <th
+                      key={day.toISOString()}
+                      className={cn(
+                        'font-medium text-muted-foreground py-2 px-1 text-center',
+                        isToday(day) && 'text-primary'
+                      )}
+                    >
+                      {format(day, 'EEE d')}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {employees.map(employee => (
+                  <tr key={employee.user_id} className="border-t border-border">
+                    <td className="py-2 pr-2">
+                      <button
+                        className="text-left font-medium text-foreground hover:text-primary"
+                        onClick={() => setSelectedEmployee(employee)}
+                      >
+                        {employee.first_name} {employee.last_name}
+                      </button>
+                    </td>
+                    {days.map(day => {
+                      const rosterDay = resolveRosterDay(assignments, rotations, employee.user_id, format(day, 'yyyy-MM-dd'));
+                      const shift = rosterDay?.shiftId ? sessionMap.get(rosterDay.shiftId) : undefined;
+                      return (
+                        <td key={day.toISOString()} className="py-2 px-1 text-center">
+                          {rosterDay?.isOff ? (
+                            <span className="text-xs text-muted-foreground">Off</span>
+                          ) : shift ? (
+                            <Badge
+                              variant="outline"
+                              title={formatShiftTime(shift)}
+                              className={cn(
+                                'font-normal',
+                                crossesMidnight(shift)
+                                  ? 'bg-purple-500/10 text-purple-600 border-purple-500/20'
+                                  : 'bg-primary/10 text-primary border-primary/20'
+                              )}
+                            >
+                              {shift.name}
+                            </Badge>
+                          ) : (
+                            <span className="text-xs text-muted-foreground">-</span>
+                          )}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+
+      {companyId && (
+        <>
+          <AssignShiftDialog
+            open={assignOpen}
+            onOpenChange={setAssignOpen}
+            companyId={companyId}
+            employees={employees}
+            workSessions={workSessions}
+            rotations={rotations}
+          />
+          <ShiftRotationDialog
+            open={rotationsOpen}
+            onOpenChange={setRotationsOpen}
+            companyId={companyId}
+            workSessions={workSessions}
+            rotations={rotations}
+          />
+        </>
+      )}
+
+      <Dialog open={!!selectedEmployee} onOpenChange={(open) => !open && setSelectedEmployee(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>
+              {selectedEmployee?.first_name} {selectedEmployee?.last_name}
+            </DialogTitle>
+          </DialogHeader>
+          {employeeAssignments.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">No shift assigned this week</p>
+          ) : (
+            <div className="space-y-2">
+              {employeeAssignments.map(assignment => (
+                <div key={assignment.id} className="flex items-center justify-between p-3 rounded-lg border border-border">
+                  <div>
+                    <p className="font-medium text-foreground">
+                      {describeAssignment(assignment.work_session_id, assignment.rotation_id)}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {format(new Date(assignment.start_date), 'MMM d, yyyy')}
+                      {assignment.end_date ? ` - ${format(new Date(assignment.end_date), 'MMM d, yyyy')}` : ' onwards'}
+                      {assignment.weekly_offs.length > 0 &&
+                        ` · Off ${assignment.weekly_offs.map(d => d.slice(0, 3)).join(', ')}`}
+                    </p>
+                  </div>
+                  {isAdmin && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleDelete(assignment.id)}
+                      disabled={deleteAssignment.isPending}
+                      className="text-destructive hover:text-destructive"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,144 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Plus, Trash2, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { useDeleteShiftRotation, useSaveShiftRotation } from '@/hooks/useShiftRoster';
+import { ShiftRotation, WorkSession } from '@/types/hrms';
+import { mapDatabaseError } from '@/utils/errorMapper';
+
+interface ShiftRotationDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  companyId: string;
+  workSessions: WorkSession[];
+  rotations: ShiftRotation[];
+}
+
+const OFF = 'off';
+
+/**
+ * Rotations cycle employees through shifts and days off, one entry per day
+ */
+export function ShiftRotationDialog({ open, onOpenChange, companyId, workSessions, rotations }: ShiftRotationDialogProps) {
+  const saveRotation = useSaveShiftRotation(companyId);
+  const deleteRotation = useDeleteShiftRotation(companyId);
+  const [name, setName] = useState('');
+  const [pattern, setPattern] = useState<string[]>([]);
+
+  const sessionName = (id: string | null) =>
+    id ? workSessions.find(s => s.id === id)?.name || 'Removed shift' : 'Off';
+
+  const handleSave = async () => {
+    if (!name.trim() || pattern.length === 0) {
+      toast.error('Name the rotation and add its days');
+      return;
+    }
+    try {
+      await saveRotation.mutateAsync({ name, pattern: pattern.map(p => (p === OFF ? null : p)) });
+      toast.success('Rotation saved');
+      setName('');
+      setPattern([]);
+    } catch (error) {
+      toast.error(mapDatabaseError(error));
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteRotation.mutateAsync(id);
+      toast.success('Rotation deleted');
+    } catch (error) {
+      toast.error(mapDatabaseError(error));
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Shift Rotations</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          {rotations.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-2">No rotations yet</p>
+          ) : (
+            <div className="space-y-2">
+              {rotations.map(rotation => (
+                <div key={rotation.id} className="flex items-center justify-between p-3 rounded-lg border border-border">
+                  <div>
+                    <p className="font-medium text-foreground">{rotation.name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {rotation.pattern.map(sessionName).join(' → ')}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => handleDelete(rotation.id)}
+                    disabled={deleteRotation.isPending}
+                    className="text-destructive hover:text-destructive"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="pt-4 border-t border-border space-y-3">
+            <Label className="text-sm font-medium block">New Rotation</Label>
+            <Input placeholder="e.g. 2 nights, 1 off" value={name} onChange={(e) => setName(e.target.value)} />
+            {pattern.map((entry, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <span className="text-xs text-muted-foreground w-12">Day {index + 1}</span>
+                <Select
+                  value={entry}
+                  onValueChange={(value) => setPattern(prev => prev.map((p, i) => (i === index ? value : p)))}
+                >
+                  <SelectTrigger className="flex-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={OFF}>Off</SelectItem>
+                    {workSessions.map(session => (
+                      <SelectItem key={session.id} value={session.id}>{session.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setPattern(prev => prev.filter((_, i) => i !== index))}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <div className="flex justify-between">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setPattern(prev => [...prev, workSessions[0]?.id || OFF])}
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Add Day
+              </Button>
+              <Button size="sm" onClick={handleSave} disabled={saveRotation.isPending}>
+                Save Rotation
+              </Button>
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
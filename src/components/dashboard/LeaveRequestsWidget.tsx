@@ -4,6 +4,9 @@ import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Check, X } from 'lucide-react';
 import { LeaveRequest } from '@/types/hrms';
+import { useCompany } from '@/contexts/CompanyContext';
+import { useLeaveTypes } from '@/hooks/useLeaveTypes';
+import { getLeaveTypeName } from '@/lib/leaveTypes';
 import { format } from 'date-fns';
 import {
   Dialog,
@@ -24,6 +27,8 @@ interface LeaveRequestsWidgetProps {
 }
 
 export function LeaveRequestsWidget({ requests, onApprove, onReject, isAdmin }: LeaveRequestsWidgetProps) {
+  const { company } = useCompany();
+  const { data: leaveTypes = [] } = useLeaveTypes(company?.id || null);
   const [rejectDialogOpen, setRejectDialogOpen] = useState(false);
   const [selectedRequestId, setSelectedRequestId] = useState<string | null>(null);
   const [rejectionReason, setRejectionReason] = useState('');
@@ -78,7 +83,7 @@ export function LeaveRequestsWidget({ requests, onApprove, onReject, isAdmin }:
                   </p>
                   <div className="flex items-center gap-2 mt-1">
                     <Badge className={getLeaveTypeBadge(request.leave_type)}>
-                      {request.leave_type}
+                      {getLeaveTypeName(leaveTypes, request.leave_type)}
                     </Badge>
                     <span className="text-xs text-muted-foreground">
                       {format(new Date(request.start_date), 'MMM d')} - {format(new Date(request.end_date), 'MMM d')}
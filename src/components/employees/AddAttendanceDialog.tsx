@@ -7,8 +7,11 @@ import { Calendar } from '@/components/ui/calendar';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { Checkbox } from '@/components/ui/checkbox';
 import { CalendarIcon } from 'lucide-react';
-import { format, subDays, eachDayOfInterval, isWeekend } from 'date-fns';
+import { format, subDays, addDays, eachDayOfInterval, isWeekend } from 'date-fns';
 import { cn } from '@/lib/utils';
+import { crossesMidnight } from '@/lib/shiftRoster';
+import { zonedTimeToUtc } from '@/lib/timezone';
+import { attendanceService } from '@/services/attendanceService';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
 import { Database } from '@/integrations/supabase/types';
@@ -94,12 +97,16 @@ export function AddAttendanceDialog({ open, onOpenChange, userId, employeeName,
         return;
       }
 
+      // Shift times are wall-clock times in the employee's timezone
+      const timeZone = await attendanceService.getTimeZone(userId, company?.id || null);
       const records = dates.map(date => {
         const dateStr = format(date, 'yyyy-MM-dd');
+        // Overnight shifts end the next morning
+        const endDateStr = crossesMidnight(selectedSession) ? format(addDays(date, 1), 'yyyy-MM-dd') : dateStr;
         return {
           user_id: userId,
-          sign_in_time: `${dateStr}T${selectedSession.start_time}`,
-          sign_out_time: `${dateStr}T${selectedSession.end_time}`,
+          sign_in_time: zonedTimeToUtc(dateStr, selectedSession.start_time, timeZone).toISOString(),
+          sign_out_time: zonedTimeToUtc(endDateStr, selectedSession.end_time, timeZone).toISOString(),
           status,
           session_id: sessionId,
           company_id: company?.id,
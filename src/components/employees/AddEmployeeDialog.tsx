@@ -10,6 +10,7 @@ import { supabase } from '@/integrations/supabase/client';
 import { Department, AppRole } from '@/types/hrms';
 import { z } from 'zod';
 import { mapDatabaseError } from '@/utils/errorMapper';
+import { onboardingService } from '@/services/onboardingService';
 
 const employeeSchema = z.object({
   email: z.string().email('Invalid email address'),
@@ -19,6 +20,7 @@ const employeeSchema = z.object({
   role: z.enum(['admin', 'manager', 'employee']),
   departmentId: z.string().optional(),
   monthlySalary: z.number().min(0).optional(),
+  dateOfJoining: z.string().optional(),
 });
 
 interface AddEmployeeDialogProps {
@@ -37,6 +39,7 @@ export function AddEmployeeDialog({ departments, onSuccess }: AddEmployeeDialogP
     role: 'employee' as AppRole,
     departmentId: '',
     monthlySalary: '',
+    dateOfJoining: '',
   });
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -76,6 +79,7 @@ export function AddEmployeeDialog({ departments, onSuccess }: AddEmployeeDialogP
         .update({
           department_id: formData.departmentId || null,
           monthly_salary: formData.monthlySalary ? parseFloat(formData.monthlySalary) : 0,
+          date_of_joining: formData.dateOfJoining || null,
         })
         .eq('user_id', authData.user.id);
 
@@ -91,7 +95,15 @@ export function AddEmployeeDialog({ departments, onSuccess }: AddEmployeeDialogP
         if (roleError) console.error('Role update error:', roleError);
       }
 
-      toast.success('Employee added successfully');
+      // Start the checklist matching their department and role, if there is one
+      let onboardingStarted = false;
+      try {
+        onboardingStarted = !!(await onboardingService.startOnboarding(authData.user.id));
+      } catch (onboardingError) {
+        console.error('Onboarding start error:', onboardingError);
+      }
+
+      toast.success(onboardingStarted ? 'Employee added and onboarding started' : 'Employee added successfully');
       setOpen(false);
       setFormData({
         email: '',
@@ -101,6 +113,7 @@ export function AddEmployeeDialog({ departments, onSuccess }: AddEmployeeDialogP
         role: 'employee',
         departmentId: '',
         monthlySalary: '',
+        dateOfJoining: '',
       });
       onSuccess();
     } catch (error: unknown) {
@@ -203,15 +216,26 @@ export function AddEmployeeDialog({ departments, onSuccess }: AddEmployeeDialogP
             </div>
           </div>
 
-          <div className="space-y-2">
-            <Label>Monthly Salary (₹)</Label>
-            <Input
-              type="number"
-              value={formData.monthlySalary}
-              onChange={(e) => setFormData({ ...formData, monthlySalary: e.target.value })}
-              placeholder="0"
-            />
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Monthly Salary (₹)</Label>
+              <Input
+                type="number"
+                value={formData.monthlySalary}
+                onChange={(e) => setFormData({ ...formData, monthlySalary: e.target.value })}
+                placeholder="0"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Date of Joining</Label>
+              <Input
+                type="date"
+                value={formData.dateOfJoining}
+                onChange={(e) => setFormData({ ...formData, dateOfJoining: e.target.value })}
+              />
+            </div>
           </div>
+          <p className="text-xs text-muted-foreground">Onboarding tasks fall due from the date of joining, or from today without one.</p>
 
           <div className="flex gap-2 pt-4">
             <Button type="button" variant="outline" className="flex-1" onClick={() => setOpen(false)}>
@@ -7,6 +7,7 @@ import { supabase } from '@/integrations/supabase/client';
 import { Department } from '@/types/hrms';
 import { z } from 'zod';
 import { mapDatabaseError } from '@/utils/errorMapper';
+import { onboardingService } from '@/services/onboardingService';
 
 interface CSVUploadDialogProps {
   departments: Department[];
@@ -26,6 +27,7 @@ const csvRowSchema = z.object({
     'Salary exceeds maximum allowed value'
   ),
   phone: z.string().regex(/^(\d{10})?$/, 'Phone must be 10 digits').optional(),
+  date_of_joining: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date of joining must be YYYY-MM-DD').optional(),
 });
 
 // File size and row limits
@@ -41,6 +43,7 @@ interface CSVRow {
   department?: string;
   monthly_salary?: string;
   phone?: string;
+  date_of_joining?: string;
 }
 
 export function CSVUploadDialog({ departments, onSuccess }: CSVUploadDialogProps) {
@@ -57,12 +60,12 @@ export function CSVUploadDialog({ departments, onSuccess }: CSVUploadDialogProps
   };
 
   const downloadTemplate = () => {
-    const headers = ['email', 'password', 'first_name', 'last_name', 'role', 'department', 'monthly_salary', 'phone'];
+    const headers = ['email', 'password', 'first_name', 'last_name', 'role', 'department', 'monthly_salary', 'phone', 'date_of_joining'];
     // Generate unique temporary passwords for each sample row
     const sampleData = [
-      ['john@company.com', generateTempPassword(), 'John', 'Doe', 'employee', 'Engineering', '50000', '9876543210'],
-      ['jane@company.com', generateTempPassword(), 'Jane', 'Smith', 'manager', 'Marketing', '75000', '9876543211'],
-      ['mike@company.com', generateTempPassword(), 'Mike', 'Johnson', 'employee', 'Sales', '45000', '9876543212'],
+      ['john@company.com', generateTempPassword(), 'John', 'Doe', 'employee', 'Engineering', '50000', '9876543210', '2026-11-02'],
+      ['jane@company.com', generateTempPassword(), 'Jane', 'Smith', 'manager', 'Marketing', '75000', '9876543211', '2026-11-02'],
+      ['mike@company.com', generateTempPassword(), 'Mike', 'Johnson', 'employee', 'Sales', '45000', '9876543212', '2026-11-16'],
     ];
 
     const csvContent = [
@@ -105,6 +108,7 @@ export function CSVUploadDialog({ departments, onSuccess }: CSVUploadDialogProps
         department: row.department,
         monthly_salary: row.monthly_salary,
         phone: row.phone,
+        date_of_joining: row.date_of_joining,
       });
     }
 
@@ -129,6 +133,7 @@ export function CSVUploadDialog({ departments, onSuccess }: CSVUploadDialogProps
           department: row.department || undefined,
           monthly_salary: row.monthly_salary || undefined,
           phone: row.phone || undefined,
+          date_of_joining: row.date_of_joining || undefined,
         });
 
         if (!validation.success) {
@@ -163,6 +168,7 @@ export function CSVUploadDialog({ departments, onSuccess }: CSVUploadDialogProps
             phone: row.phone || null,
             department_id: dept?.id || null,
             monthly_salary: salary,
+            date_of_joining: row.date_of_joining || null,
           })
           .eq('user_id', authData.user.id);
 
@@ -175,6 +181,13 @@ export function CSVUploadDialog({ departments, onSuccess }: CSVUploadDialogProps
             .eq('user_id', authData.user.id);
         }
 
+        // Start the checklist matching their department and role; the import carries on without one
+        try {
+          await onboardingService.startOnboarding(authData.user.id);
+        } catch (onboardingError) {
+          console.error('Onboarding start error:', onboardingError);
+        }
+
         successCount.value++;
       } catch (error: unknown) {
         failedCount.value++;
@@ -295,7 +308,7 @@ export function CSVUploadDialog({ departments, onSuccess }: CSVUploadDialogProps
             <div className="p-3 rounded-lg bg-amber-50 border border-amber-200">
               <p className="text-xs text-amber-700">
                 <strong>Required columns:</strong> email, password, first_name, last_name<br />
-                <strong>Optional:</strong> role (employee/manager/admin), department, monthly_salary, phone<br />
+                <strong>Optional:</strong> role (employee/manager/admin), department, monthly_salary, phone, date_of_joining (YYYY-MM-DD)<br />
                 <strong>Limits:</strong> Max {MAX_ROWS} employees, {MAX_FILE_SIZE / 1024}KB file size<br />
                 <strong className="text-red-600">⚠️ Important:</strong> Change the template passwords before importing!
               </p>
@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -6,8 +6,15 @@ import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
-import { Profile } from '@/types/hrms';
+import { Gender, Profile } from '@/types/hrms';
 import { Database } from '@/integrations/supabase/types';
+import { useCompany } from '@/contexts/CompanyContext';
+import { useSalaryStructures } from '@/hooks/useSalaryStructures';
+import { salaryStructureService } from '@/services/salaryStructureService';
+import { splitSalary } from '@/lib/payrollEngine';
+import { INDIAN_STATES } from '@/lib/indianStates';
+import { GENDER_LABELS } from '@/lib/leaveTypes';
+import { getTimeZoneOptions } from '@/lib/timezone';
 
 type AppRole = Database['public']['Enums']['app_role'];
 
@@ -32,6 +39,8 @@ interface Manager {
 }
 
 export function EditEmployeeDialog({ open, onOpenChange, profile, currentRole, onSuccess }: EditEmployeeDialogProps) {
+  const { company } = useCompany();
+  const { data: structures = [] } = useSalaryStructures(company?.id || null);
   const [loading, setLoading] = useState(false);
   const [departments, setDepartments] = useState<Department[]>([]);
   const [managers, setManagers] = useState<Manager[]>([]);
@@ -39,6 +48,13 @@ export function EditEmployeeDialog({ open, onOpenChange, profile, currentRole, o
     department_id: 'none',
     reporting_manager_id: 'none',
     monthly_salary: '',
+    salary_structure_id: 'department',
+    work_state: 'none',
+    timezone: 'company',
+    gender: 'none',
+    date_of_joining: '',
+    uan: '',
+    esic_ip_number: '',
     role: 'employee' as AppRole,
   });
 
@@ -48,12 +64,24 @@ export function EditEmployeeDialog({ open, onOpenChange, profile, currentRole, o
         department_id: profile.department_id || 'none',
         reporting_manager_id: profile.reporting_manager_id || 'none',
         monthly_salary: String(profile.monthly_salary || 0),
+        salary_structure_id: profile.salary_structure_id || 'department',
+        work_state: profile.work_state || 'none',
+        timezone: profile.timezone || 'company',
+        gender: profile.gender || 'none',
+        date_of_joining: profile.date_of_joining || '',
+        uan: profile.uan || '',
+        esic_ip_number: profile.esic_ip_number || '',
         role: currentRole as AppRole,
       });
       fetchDepartmentsAndManagers();
     }
   }, [open, profile, currentRole]);
 
+  const timeZoneOptions = useMemo(() => {
+    const options = getTimeZoneOptions();
+    return profile?.timezone && !options.includes(profile.timezone) ? [profile.timezone, ...options] : options;
+  }, [profile?.timezone]);
+
   const fetchDepartmentsAndManagers = async () => {
     const [deptRes, managerRes] = await Promise.all([
       supabase.from('departments').select('id, name').order('name'),
@@ -64,10 +92,30 @@ export function EditEmployeeDialog({ open, onOpenChange, profile, currentRole, o
     if (managerRes.data) setManagers(managerRes.data.filter(m => m.id !== profile?.id));
   };
 
+  // Preview the split the payroll engine will apply for the chosen structure
+  const effectiveStructure = salaryStructureService.resolveForEmployee(structures, {
+    salary_structure_id: formData.salary_structure_id === 'department' ? null : formData.salary_structure_id,
+    department_id: formData.department_id === 'none' ? null : formData.department_id,
+  });
+  const salaryBreakdown = effectiveStructure
+    ? splitSalary(parseFloat(formData.monthly_salary) || 0, effectiveStructure.components || [])
+    : [];
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!profile) return;
 
+    const uan = formData.uan.replace(/\s/g, '');
+    const esicIpNumber = formData.esic_ip_number.replace(/\s/g, '');
+    if (uan && !/^[0-9]{12}$/.test(uan)) {
+      toast.error('UAN must be 12 digits');
+      return;
+    }
+    if (esicIpNumber && !/^[0-9]{10}$/.test(esicIpNumber)) {
+      toast.error('ESIC IP number must be 10 digits');
+      return;
+    }
+
     setLoading(true);
     try {
       // Update profile
@@ -77,6 +125,13 @@ export function EditEmployeeDialog({ open, onOpenChange, profile, currentRole, o
           department_id: formData.department_id === 'none' ? null : formData.department_id,
           reporting_manager_id: formData.reporting_manager_id === 'none' ? null : formData.reporting_manager_id,
           monthly_salary: parseFloat(formData.monthly_salary) || 0,
+          salary_structure_id: formData.salary_structure_id === 'department' ? null : formData.salary_structure_id,
+          work_state: formData.work_state === 'none' ? null : formData.work_state,
+          timezone: formData.timezone === 'company' ? null : formData.timezone,
+          gender: formData.gender === 'none' ? null : formData.gender,
+          date_of_joining: formData.date_of_joining || null,
+          uan: uan || null,
+          esic_ip_number: esicIpNumber || null,
         })
         .eq('id', profile.id);
 
@@ -150,6 +205,126 @@ export function EditEmployeeDialog({ open, onOpenChange, profile, currentRole, o
             />
           </div>
 
+          <div className="space-y-2">
+            <Label>Salary Structure</Label>
+            <Select value={formData.salary_structure_id} onValueChange={(v) => setFormData(prev => ({ ...prev, salary_structure_id: v }))}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="department">Department default</SelectItem>
+                {structures.map((structure) => (
+                  <SelectItem key={structure.id} value={structure.id}>{structure.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {salaryBreakdown.length > 0 ? (
+              <div className="rounded-lg border border-border bg-accent/30 p-3 space-y-1 text-sm">
+                {salaryBreakdown.map(({ component, amount }) => (
+                  <div key={component.id} className="flex justify-between">
+                    <span className="text-muted-foreground">
+                      {component.name}{component.is_pf_wage ? ' (PF wage)' : ''}
+                    </span>
+                    <span>₹{amount.toLocaleString()}</span>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-xs text-muted-foreground">
+                No structure applies - payslips will show a single gross salary line.
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Work State</Label>
+            <Select value={formData.work_state} onValueChange={(v) => setFormData(prev => ({ ...prev, work_state: v }))}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select state" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">Not set</SelectItem>
+                {INDIAN_STATES.map((state) => (
+                  <SelectItem key={state.code} value={state.code}>{state.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              Used to pick professional tax slabs. Without a state the flat PT amount applies.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Timezone</Label>
+            <Select value={formData.timezone} onValueChange={(v) => setFormData(prev => ({ ...prev, timezone: v }))}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="company">Company timezone</SelectItem>
+                {timeZoneOptions.map((zone) => (
+                  <SelectItem key={zone} value={zone}>{zone}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              For remote employees. Attendance days run midnight to midnight in this timezone.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Date of Joining</Label>
+            <Input
+              type="date"
+              value={formData.date_of_joining}
+              onChange={(e) => setFormData(prev => ({ ...prev, date_of_joining: e.target.value }))}
+            />
+            <p className="text-xs text-muted-foreground">
+              Open onboarding tasks move with it.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Gender</Label>
+            <Select value={formData.gender} onValueChange={(v) => setFormData(prev => ({ ...prev, gender: v }))}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">Not set</SelectItem>
+                {(Object.keys(GENDER_LABELS) as Gender[]).map((gender) => (
+                  <SelectItem key={gender} value={gender}>{GENDER_LABELS[gender]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              Decides access to gender-specific leave types such as maternity leave.
+            </p>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label>UAN</Label>
+              <Input
+                value={formData.uan}
+                onChange={(e) => setFormData(prev => ({ ...prev, uan: e.target.value }))}
+                placeholder="12-digit PF UAN"
+                inputMode="numeric"
+                maxLength={12}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>ESIC IP Number</Label>
+              <Input
+                value={formData.esic_ip_number}
+                onChange={(e) => setFormData(prev => ({ ...prev, esic_ip_number: e.target.value }))}
+                placeholder="10-digit IP number"
+                inputMode="numeric"
+                maxLength={10}
+              />
+            </div>
+          </div>
+
           <div className="space-y-2">
             <Label>Role</Label>
             <Select value={formData.role} onValueChange={(v) => setFormData(prev => ({ ...prev, role: v as AppRole }))}>
@@ -1,12 +1,21 @@
 import { ReactNode } from 'react';
 import { SidebarProvider, SidebarTrigger } from '@/components/ui/sidebar';
 import { AppSidebar } from './AppSidebar';
+import { NotificationBell } from './NotificationBell';
+import { useAuth } from '@/contexts/AuthContext';
+import { useAttendanceDayClose, useOfflinePunchSync } from '@/hooks/useAttendance';
+import { useOnboardingReminders } from '@/hooks/useOnboarding';
 
 interface AppLayoutProps {
   children: ReactNode;
 }
 
 export function AppLayout({ children }: AppLayoutProps) {
+  const { user, profile, isAdmin } = useAuth();
+  useAttendanceDayClose(isAdmin ? profile?.company_id || null : null);
+  useOfflinePunchSync(user?.id || null);
+  useOnboardingReminders(isAdmin ? profile?.company_id || null : null);
+
   return (
     <SidebarProvider>
       <div className="min-h-screen flex w-full">
@@ -14,6 +23,11 @@ export function AppLayout({ children }: AppLayoutProps) {
         <main className="flex-1 flex flex-col">
           <header className="h-14 border-b border-border flex items-center px-4 bg-card">
             <SidebarTrigger className="mr-4" />
+            {user && (
+              <div className="ml-auto">
+                <NotificationBell userId={user.id} />
+              </div>
+            )}
           </header>
           <div className="flex-1 p-6 bg-background overflow-auto">
             {children}
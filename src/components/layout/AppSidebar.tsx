@@ -9,7 +9,10 @@ import {
   User,
   ChevronRight,
   Settings,
-  CreditCard
+  CreditCard,
+  FileText,
+  Timer,
+  ClipboardList
 } from 'lucide-react';
 import { NavLink } from '@/components/NavLink';
 import { useAuth } from '@/contexts/AuthContext';
@@ -37,7 +40,9 @@ const getNavItems = (role: string | null, isAdmin: boolean) => {
     const adminItems = [
       ...baseItems,
       { title: 'Employees', url: '/employees', icon: Users },
+      { title: 'Onboarding', url: '/onboarding', icon: ClipboardList },
       { title: 'Attendance', url: '/attendance', icon: Clock },
+      { title: 'Timesheets', url: '/timesheets', icon: Timer },
       { title: 'Leave Management', url: '/leaves', icon: Calendar },
     ];
     
@@ -50,6 +55,7 @@ const getNavItems = (role: string | null, isAdmin: boolean) => {
     }
     
     adminItems.push(
+      { title: 'My Payslips', url: '/payslips', icon: FileText },
       { title: 'Org Chart', url: '/org-chart', icon: Building2 },
       { title: 'Settings', url: '/settings', icon: Settings }
     );
@@ -61,7 +67,10 @@ const getNavItems = (role: string | null, isAdmin: boolean) => {
   return [
     ...baseItems,
     { title: 'My Attendance', url: '/attendance', icon: Clock },
+    { title: 'My Timesheets', url: '/timesheets', icon: Timer },
     { title: 'My Leaves', url: '/leaves', icon: Calendar },
+    { title: 'My Payslips', url: '/payslips', icon: FileText },
+    { title: 'My Onboarding', url: '/onboarding', icon: ClipboardList },
     { title: 'Org Chart', url: '/org-chart', icon: Building2 },
   ];
 };
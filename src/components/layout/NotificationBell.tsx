@@ -0,0 +1,83 @@
+import { formatDistanceToNow } from 'date-fns';
+import { useNavigate } from 'react-router-dom';
+import { Bell } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { useMarkNotificationsRead, useNotifications } from '@/hooks/useNotifications';
+import { Notification } from '@/types/hrms';
+
+interface NotificationBellProps {
+  userId: string;
+}
+
+/**
+ * The user's latest notifications. Opening one marks it read and follows
+ * its link.
+ */
+export function NotificationBell({ userId }: NotificationBellProps) {
+  const navigate = useNavigate();
+  const { data: notifications = [] } = useNotifications(userId);
+  const markRead = useMarkNotificationsRead(userId);
+  const unread = notifications.filter(n => !n.read_at);
+
+  const handleOpen = (notification: Notification) => {
+    if (!notification.read_at) markRead.mutate([notification.id]);
+    if (notification.link) navigate(notification.link);
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative h-9 w-9" aria-label="Notifications">
+          <Bell className="h-4 w-4" />
+          {unread.length > 0 && (
+            <span className="absolute top-1 right-1 min-w-4 h-4 px-1 rounded-full bg-destructive text-destructive-foreground text-[10px] leading-4 text-center">
+              {unread.length > 9 ? '9+' : unread.length}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between px-4 py-3 border-b border-border">
+          <p className="text-sm font-medium text-foreground">Notifications</p>
+          {unread.length > 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 text-xs"
+              onClick={() => markRead.mutate(unread.map(n => n.id))}
+              disabled={markRead.isPending}
+            >
+              Mark all read
+            </Button>
+          )}
+        </div>
+        {notifications.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">You're all caught up</p>
+        ) : (
+          <div className="max-h-96 overflow-y-auto">
+            {notifications.map(notification => (
+              <button
+                key={notification.id}
+                type="button"
+                className="w-full text-left px-4 py-3 border-b border-border last:border-0 hover:bg-accent transition-colors"
+                onClick={() => handleOpen(notification)}
+              >
+                <div className="flex items-start gap-2">
+                  {!notification.read_at && <span className="mt-1.5 h-2 w-2 shrink-0 rounded-full bg-primary" />}
+                  <div className="space-y-0.5 min-w-0">
+                    <p className="text-sm font-medium text-foreground">{notification.title}</p>
+                    {notification.body && <p className="text-xs text-muted-foreground">{notification.body}</p>}
+                    <p className="text-[11px] text-muted-foreground">
+                      {formatDistanceToNow(new Date(notification.created_at), { addSuffix: true })}
+                    </p>
+                  </div>
+                </div>
+              </button>
+            ))}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
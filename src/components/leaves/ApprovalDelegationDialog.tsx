@@ -0,0 +1,155 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { useEmployees } from '@/hooks/useEmployees';
+import { useCreateLeaveDelegation, useDeleteLeaveDelegation, useLeaveDelegations } from '@/hooks/useLeaveApprovals';
+import { mapDatabaseError } from '@/utils/errorMapper';
+import { Profile } from '@/types/hrms';
+
+interface ApprovalDelegationDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  userId: string;
+  companyId: string;
+}
+
+const fullName = (profile?: Pick<Profile, 'first_name' | 'last_name'>) =>
+  profile ? `${profile.first_name} ${profile.last_name}` : 'Unknown';
+
+export function ApprovalDelegationDialog({ open, onOpenChange, userId, companyId }: ApprovalDelegationDialogProps) {
+  const { data: employeesData } = useEmployees({ companyId, pageSize: 100 });
+  const { data: delegations = [] } = useLeaveDelegations(open ? companyId : null);
+  const createDelegation = useCreateLeaveDelegation();
+  const deleteDelegation = useDeleteLeaveDelegation(companyId);
+
+  const [delegateId, setDelegateId] = useState('');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [note, setNote] = useState('');
+
+  const employees = ((employeesData?.data || []) as Profile[]).filter(e => e.user_id !== userId);
+  const employeeMap = new Map(employees.map(e => [e.user_id, e]));
+  const myDelegations = delegations.filter(d => d.delegator_id === userId);
+
+  const handleCreate = async () => {
+    if (!delegateId || !startDate || !endDate) {
+      toast.error('Choose a colleague and the dates they cover');
+      return;
+    }
+    if (endDate < startDate) {
+      toast.error('End date must be on or after the start date');
+      return;
+    }
+
+    try {
+      await createDelegation.mutateAsync({
+        companyId,
+        delegatorId: userId,
+        delegateId,
+        startDate,
+        endDate,
+        note: note.trim(),
+      });
+      toast.success(`${fullName(employeeMap.get(delegateId))} will handle your approvals`);
+      setDelegateId('');
+      setStartDate('');
+      setEndDate('');
+      setNote('');
+    } catch (error) {
+      toast.error(mapDatabaseError(error));
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteDelegation.mutateAsync(id);
+      toast.success('Delegation removed');
+    } catch (error) {
+      toast.error(mapDatabaseError(error));
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Delegate Approvals</DialogTitle>
+          <DialogDescription>
+            A colleague approves leave on your behalf for a date range, for example while you are on leave.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <Label>Delegate to *</Label>
+            <Select value={delegateId} onValueChange={setDelegateId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Choose a colleague" />
+              </SelectTrigger>
+              <SelectContent>
+                {employees.map(e => (
+                  <SelectItem key={e.user_id} value={e.user_id}>{fullName(e)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label>From *</Label>
+              <Input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label>To *</Label>
+              <Input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+            </div>
+          </div>
+          <div className="space-y-1">
+            <Label>Note</Label>
+            <Input value={note} onChange={(e) => setNote(e.target.value)} placeholder="On annual leave" />
+          </div>
+
+          {myDelegations.length > 0 && (
+            <div className="space-y-2">
+              <Label>Your delegations</Label>
+              {myDelegations.map(d => (
+                <div key={d.id} className="flex items-center justify-between p-2 rounded-lg border border-border">
+                  <div className="text-sm">
+                    <p className="font-medium text-foreground">{fullName(employeeMap.get(d.delegate_id))}</p>
+                    <p className="text-muted-foreground">
+                      {format(new Date(d.start_date), 'MMM d')} - {format(new Date(d.end_date), 'MMM d, yyyy')}
+                      {d.note && ` · ${d.note}`}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {d.end_date < new Date().toISOString().slice(0, 10) && <Badge variant="secondary">Ended</Badge>}
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-destructive hover:text-destructive"
+                      onClick={() => handleDelete(d.id)}
+                      disabled={deleteDelegation.isPending}
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Close</Button>
+          <Button onClick={handleCreate} disabled={createDelegation.isPending}>Delegate</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
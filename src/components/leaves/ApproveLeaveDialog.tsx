@@ -0,0 +1,109 @@
+import { format } from 'date-fns';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { AlertTriangle } from 'lucide-react';
+import { useEmployees } from '@/hooks/useEmployees';
+import { useStaffingCheck } from '@/hooks/useTeamCalendar';
+import { isBookedLeave } from '@/lib/teamCalendar';
+import { LeaveRequest, Profile } from '@/types/hrms';
+
+interface ApproveLeaveDialogProps {
+  request: LeaveRequest | null;
+  companyId: string | null;
+  onOpenChange: (open: boolean) => void;
+  onConfirm: (request: LeaveRequest) => void;
+  isPending: boolean;
+}
+
+/**
+ * Confirm an approval after seeing who else in the department is off over the
+ * same dates, with a warning when approving takes the department below its
+ * minimum staffing. Cancellations only free people up and are not checked.
+ */
+export function ApproveLeaveDialog({ request, companyId, onOpenChange, onConfirm, isPending }: ApproveLeaveDialogProps) {
+  const checkable = request?.status === 'pending' ? request : null;
+  const { data: check, isLoading } = useStaffingCheck(checkable, companyId);
+  const { data: employeesData } = useEmployees({ companyId: companyId || undefined, pageSize: 100 });
+
+  const employeeMap = new Map(((employeesData?.data || []) as Profile[]).map(e => [e.user_id, e]));
+  const fullName = (userId: string) => {
+    const employee = employeeMap.get(userId);
+    return employee ? `${employee.first_name} ${employee.last_name}` : 'Unknown';
+  };
+  const breaches = check?.breaches || [];
+
+  return (
+    <Dialog open={!!request} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>
+            {request?.status === 'cancellation_requested' ? 'Approve Cancellation' : 'Approve Leave Request'}
+          </DialogTitle>
+          <DialogDescription>
+            {request && (
+              <>
+                {request.profile && `${request.profile.first_name} ${request.profile.last_name}, `}
+                {format(new Date(request.start_date), 'MMM d')} - {format(new Date(request.end_date), 'MMM d, yyyy')}
+                {request.days !== null && ` (${request.days} day${request.days === 1 ? '' : 's'})`}
+              </>
+            )}
+          </DialogDescription>
+        </DialogHeader>
+
+        {checkable && (
+          <div className="space-y-3">
+            {isLoading ? (
+              <p className="text-sm text-muted-foreground">Checking team availability...</p>
+            ) : (
+              <>
+                {breaches.length > 0 && (
+                  <div className="p-3 rounded-lg bg-red-50 border border-red-200 text-sm text-red-700 space-y-1">
+                    <p className="flex items-center gap-2 font-medium">
+                      <AlertTriangle className="h-4 w-4" />
+                      Approving leaves the department below minimum staffing
+                    </p>
+                    {breaches.map(b => (
+                      <p key={b.date}>
+                        {format(new Date(b.date), 'EEE, MMM d')}: {b.present} of {b.required} required at work
+                      </p>
+                    ))}
+                  </div>
+                )}
+                {check && check.overlapping.length > 0 ? (
+                  <div className="space-y-2">
+                    <p className="text-sm font-medium text-foreground">Also off in the department</p>
+                    {check.overlapping.map(leave => (
+                      <div key={leave.leave_request_id} className="flex items-center justify-between text-sm">
+                        <span className="text-foreground">
+                          {fullName(leave.user_id)}
+                          <span className="text-muted-foreground">
+                            {' '}{format(new Date(leave.start_date), 'MMM d')} - {format(new Date(leave.end_date), 'MMM d')}
+                          </span>
+                        </span>
+                        <Badge variant={isBookedLeave(leave) ? 'default' : 'secondary'}>
+                          {isBookedLeave(leave) ? 'Approved' : 'Pending'}
+                        </Badge>
+                      </div>
+                    ))}
+                  </div>
+                ) : check?.departmentId ? (
+                  <p className="text-sm text-muted-foreground">Nobody else in the department is off on these dates</p>
+                ) : null}
+              </>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={() => request && onConfirm(request)} disabled={isPending || (!!checkable && isLoading)}>
+            {breaches.length > 0 ? 'Approve Anyway' : 'Approve'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,89 @@
+import { format } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Check, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { useApproveCompOffCredit, usePendingCompOffCredits, useRejectCompOffCredit } from '@/hooks/useCompOff';
+import { CompOffCredit } from '@/types/hrms';
+import { mapDatabaseError } from '@/utils/errorMapper';
+
+interface CompOffApprovalsProps {
+  userId: string;
+  companyId: string;
+}
+
+/**
+ * Days worked on holidays and weekly offs waiting for the approver's decision.
+ * Renders nothing while there are none.
+ */
+export function CompOffApprovals({ userId, companyId }: CompOffApprovalsProps) {
+  const { data: credits = [] } = usePendingCompOffCredits(userId, companyId);
+  const approveCredit = useApproveCompOffCredit();
+  const rejectCredit = useRejectCompOffCredit();
+  const busy = approveCredit.isPending || rejectCredit.isPending;
+
+  const handleApprove = async (credit: CompOffCredit) => {
+    try {
+      await approveCredit.mutateAsync({ credit, approvedBy: userId });
+      toast.success('Comp-off approved and added to the leave balance');
+    } catch (error) {
+      toast.error(mapDatabaseError(error));
+    }
+  };
+
+  const handleReject = async (credit: CompOffCredit) => {
+    try {
+      await rejectCredit.mutateAsync({ credit, rejectedBy: userId });
+      toast.success('Comp-off rejected');
+    } catch (error) {
+      toast.error(mapDatabaseError(error));
+    }
+  };
+
+  if (credits.length === 0) return null;
+
+  return (
+    <Card className="mt-4">
+      <CardHeader>
+        <CardTitle className="text-lg font-semibold">Comp-off Requests</CardTitle>
+        <CardDescription>Approving adds the day to the employee's compensatory off balance.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {credits.map(credit => (
+          <div key={credit.id} className="flex items-center justify-between p-4 rounded-lg border border-border">
+            <div>
+              <p className="font-medium text-foreground">
+                {credit.profile ? `${credit.profile.first_name} ${credit.profile.last_name}` : 'Unknown'}
+              </p>
+              <p className="text-sm text-muted-foreground">
+                Worked {format(new Date(credit.work_date), 'EEE, MMM d, yyyy')} · {credit.reason}
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              <Badge variant="outline">{credit.days < 1 ? 'Half day' : 'Full day'}</Badge>
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-8 w-8 p-0 text-green-600 hover:text-green-700 hover:bg-green-100"
+                onClick={() => handleApprove(credit)}
+                disabled={busy}
+              >
+                <Check className="h-4 w-4" />
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-8 w-8 p-0 text-destructive hover:text-destructive hover:bg-red-100"
+                onClick={() => handleReject(credit)}
+                disabled={busy}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,65 +1,70 @@
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { LeaveBalance as LeaveBalanceType } from '@/types/hrms';
-import { Briefcase, Heart, DollarSign } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { LeaveBalanceSummary } from '@/lib/leavePolicy';
+import { Briefcase, Heart, DollarSign, History } from 'lucide-react';
+
+// Styles for the default types; company-defined types use the neutral style
+const LEAVE_TYPE_STYLES: Record<string, { icon: typeof Briefcase; color: string }> = {
+  casual: { icon: Briefcase, color: 'text-blue-600 bg-blue-100' },
+  sick: { icon: Heart, color: 'text-red-600 bg-red-100' },
+  paid: { icon: DollarSign, color: 'text-green-600 bg-green-100' },
+};
 
 interface LeaveBalanceProps {
-  balance: LeaveBalanceType | null;
+  balances: LeaveBalanceSummary[] | null | undefined;
+  onViewHistory?: () => void;
 }
 
-export function LeaveBalance({ balance }: LeaveBalanceProps) {
-  const leaves = [
-    { 
-      type: 'Casual Leave', 
-      balance: balance?.casual_leave || 0, 
-      total: 12,
-      icon: Briefcase,
-      color: 'text-blue-600 bg-blue-100'
-    },
-    { 
-      type: 'Sick Leave', 
-      balance: balance?.sick_leave || 0, 
-      total: 12,
-      icon: Heart,
-      color: 'text-red-600 bg-red-100'
-    },
-    { 
-      type: 'Paid Leave', 
-      balance: balance?.paid_leave || 0, 
-      total: 12,
-      icon: DollarSign,
-      color: 'text-green-600 bg-green-100'
-    },
-  ];
+export function LeaveBalance({ balances, onViewHistory }: LeaveBalanceProps) {
+  const leaves = (balances || []).map(summary => {
+    // Without a policy the bar is measured against what was credited this year
+    const total = summary.entitlement || summary.credited;
+    return {
+      ...summary,
+      total,
+      ...(LEAVE_TYPE_STYLES[summary.leaveType] || { icon: Briefcase, color: 'text-muted-foreground bg-muted' }),
+    };
+  });
 
   return (
     <Card>
-      <CardHeader>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
         <CardTitle className="text-lg font-semibold">Leave Balance</CardTitle>
+        {onViewHistory && (
+          <Button variant="ghost" size="sm" onClick={onViewHistory}>
+            <History className="h-4 w-4 mr-1" />
+            History
+          </Button>
+        )}
       </CardHeader>
       <CardContent>
-        <div className="space-y-4">
-          {leaves.map((leave) => (
-            <div key={leave.type} className="flex items-center gap-4">
-              <div className={`p-2 rounded-lg ${leave.color}`}>
-                <leave.icon className="h-4 w-4" />
-              </div>
-              <div className="flex-1">
-                <p className="text-sm font-medium text-foreground">{leave.type}</p>
-                <div className="flex items-center gap-2 mt-1">
-                  <div className="flex-1 h-2 bg-muted rounded-full overflow-hidden">
-                    <div 
-                      className="h-full bg-primary rounded-full transition-all"
-                      style={{ width: `${(leave.balance / leave.total) * 100}%` }}
-                    />
+        {leaves.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">No leave balance yet</p>
+        ) : (
+          <div className="space-y-4">
+            {leaves.map((leave) => (
+              <div key={leave.leaveType} className="flex items-center gap-4">
+                <div className={`p-2 rounded-lg ${leave.color}`}>
+                  <leave.icon className="h-4 w-4" />
+                </div>
+                <div className="flex-1">
+                  <p className="text-sm font-medium text-foreground">{leave.name}</p>
+                  <div className="flex items-center gap-2 mt-1">
+                    <div className="flex-1 h-2 bg-muted rounded-full overflow-hidden">
+                      <div
+                        className="h-full bg-primary rounded-full transition-all"
+                        style={{ width: `${leave.total > 0 ? Math.min(100, Math.max(0, leave.balance / leave.total) * 100) : 0}%` }}
+                      />
+                    </div>
+                    <span className="text-xs text-muted-foreground font-medium">
+                      {leave.balance}/{leave.total}
+                    </span>
                   </div>
-                  <span className="text-xs text-muted-foreground font-medium">
-                    {leave.balance}/{leave.total}
-                  </span>
                 </div>
               </div>
-            </div>
-          ))}
-        </div>
+            ))}
+          </div>
+        )}
       </CardContent>
     </Card>
   );
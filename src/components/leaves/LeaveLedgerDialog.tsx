@@ -0,0 +1,154 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus } from 'lucide-react';
+import { toast } from 'sonner';
+import { LeaveLedgerEntryType } from '@/types/hrms';
+import { getLeaveTypeName } from '@/lib/leaveTypes';
+import { useAdjustLeaveBalance, useLeaveLedger } from '@/hooks/useLeaves';
+import { useLeaveTypes } from '@/hooks/useLeaveTypes';
+import { useAuth } from '@/contexts/AuthContext';
+import { useCompany } from '@/contexts/CompanyContext';
+import { mapDatabaseError } from '@/utils/errorMapper';
+
+const ENTRY_TYPE_LABELS: Record<LeaveLedgerEntryType, string> = {
+  opening: 'Opening balance',
+  accrual: 'Accrual',
+  consumption: 'Leave taken',
+  adjustment: 'Adjustment',
+  lapse: 'Lapsed',
+  encashment: 'Encashed',
+  reversal: 'Leave cancelled',
+};
+
+interface LeaveLedgerDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  userId: string;
+  /** Required to post adjustments */
+  companyId?: string | null;
+  employeeName?: string;
+  canAdjust?: boolean;
+}
+
+export function LeaveLedgerDialog({
+  open,
+  onOpenChange,
+  userId,
+  companyId,
+  employeeName,
+  canAdjust = false,
+}: LeaveLedgerDialogProps) {
+  const { user } = useAuth();
+  const { company } = useCompany();
+  const { data: entries = [], isLoading } = useLeaveLedger(open ? userId : null);
+  const { data: leaveTypes = [] } = useLeaveTypes(companyId || company?.id || null);
+  const adjustBalance = useAdjustLeaveBalance();
+  const balanceTypes = leaveTypes.filter(t => t.tracks_balance);
+
+  const [leaveType, setLeaveType] = useState('');
+  const [days, setDays] = useState('');
+  const [note, setNote] = useState('');
+
+  const handleAdjust = async () => {
+    const value = parseFloat(days);
+    if (!leaveType || !value || !note.trim()) {
+      toast.error('Choose a leave type and enter the days to credit (or debit with a minus sign) and a reason');
+      return;
+    }
+    if (!companyId || !user) return;
+
+    try {
+      await adjustBalance.mutateAsync({
+        userId,
+        companyId,
+        leaveType,
+        days: value,
+        note: note.trim(),
+        createdBy: user.id,
+      });
+      toast.success('Leave balance adjusted');
+      setDays('');
+      setNote('');
+    } catch (error) {
+      toast.error(mapDatabaseError(error));
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Leave History{employeeName ? ` - ${employeeName}` : ''}</DialogTitle>
+          <DialogDescription>
+            Every accrual, leave taken and adjustment. Balances are the sum of these entries.
+          </DialogDescription>
+        </DialogHeader>
+
+        {canAdjust && companyId && (
+          <div className="grid grid-cols-1 sm:grid-cols-[140px_100px_1fr_auto] gap-2 items-end p-3 rounded-lg border border-border bg-accent/30">
+            <div className="space-y-1">
+              <Label className="text-xs">Type</Label>
+              <Select value={leaveType} onValueChange={setLeaveType}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select" />
+                </SelectTrigger>
+                <SelectContent>
+                  {balanceTypes.map(type => (
+                    <SelectItem key={type.code} value={type.code}>{type.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Days</Label>
+              <Input type="number" step="0.5" value={days} onChange={(e) => setDays(e.target.value)} placeholder="+2 / -1" />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Reason</Label>
+              <Input value={note} onChange={(e) => setNote(e.target.value)} placeholder="Why the balance changes" />
+            </div>
+            <Button onClick={handleAdjust} disabled={adjustBalance.isPending}>
+              <Plus className="h-4 w-4 mr-1" />
+              Adjust
+            </Button>
+          </div>
+        )}
+
+        {isLoading ? (
+          <p className="text-center text-muted-foreground py-4">Loading...</p>
+        ) : entries.length === 0 ? (
+          <p className="text-center text-muted-foreground py-4">No leave entries yet</p>
+        ) : (
+          <div className="space-y-2">
+            {entries.map(entry => (
+              <div key={entry.id} className="flex items-start justify-between gap-4 p-3 rounded-lg border border-border">
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <Badge variant="outline">{getLeaveTypeName(leaveTypes, entry.leave_type)}</Badge>
+                    <span className="text-sm font-medium">{ENTRY_TYPE_LABELS[entry.entry_type]}</span>
+                    <span className="text-xs text-muted-foreground">
+                      {format(new Date(`${entry.effective_date}T00:00:00`), 'MMM d, yyyy')}
+                    </span>
+                  </div>
+                  {entry.note && <p className="text-sm text-muted-foreground">{entry.note}</p>}
+                  {entry.amount !== null && (
+                    <p className="text-xs text-muted-foreground">₹{entry.amount.toLocaleString('en-IN')} paid through payroll</p>
+                  )}
+                </div>
+                <span className={`text-sm font-semibold whitespace-nowrap ${entry.days < 0 ? 'text-destructive' : 'text-green-600'}`}>
+                  {entry.days > 0 ? '+' : ''}{entry.days} day{Math.abs(entry.days) === 1 ? '' : 's'}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
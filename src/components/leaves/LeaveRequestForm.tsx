@@ -1,6 +1,7 @@
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Calendar } from '@/components/ui/calendar';
@@ -10,25 +11,72 @@ import { CalendarIcon } from 'lucide-react';
 import { format } from 'date-fns';
 import { cn } from '@/lib/utils';
 import { toast } from 'sonner';
-import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
-import { LeaveType } from '@/types/hrms';
+import { useCompany } from '@/contexts/CompanyContext';
+import { useCreateLeaveRequest, useLeaveBalance } from '@/hooks/useLeaves';
+import { useCompOffCredits } from '@/hooks/useCompOff';
+import { useLeaveTypes } from '@/hooks/useLeaveTypes';
+import { useBusinessCalendar } from '@/hooks/useSettings';
+import { getEligibilityIssue } from '@/lib/leaveTypes';
+import { allocateCompOffBalance, COMP_OFF_LEAVE_TYPE } from '@/lib/compOff';
+import { countLeaveDuration, getNonWorkingDays, LEAVE_HALF_LABELS } from '@/lib/businessCalendar';
+import { LeaveHalf } from '@/types/hrms';
+import { mapDatabaseError } from '@/utils/errorMapper';
 
 interface LeaveRequestFormProps {
   onSuccess: () => void;
 }
 
 export function LeaveRequestForm({ onSuccess }: LeaveRequestFormProps) {
-  const { user } = useAuth();
-  const [leaveType, setLeaveType] = useState<LeaveType>('casual');
+  const { user, profile } = useAuth();
+  const { company } = useCompany();
+  const { data: leaveTypes = [] } = useLeaveTypes(company?.id || null);
+  const { data: calendar } = useBusinessCalendar(company?.id || null);
+  const createLeaveRequest = useCreateLeaveRequest();
+  const [leaveType, setLeaveType] = useState('');
   const [startDate, setStartDate] = useState<Date>();
   const [endDate, setEndDate] = useState<Date>();
+  const [halfDay, setHalfDay] = useState<LeaveHalf | 'full'>('full');
   const [reason, setReason] = useState('');
-  const [loading, setLoading] = useState(false);
+  const [attachment, setAttachment] = useState<File | null>(null);
+
+  // Only the types this employee can take today
+  const availableTypes = useMemo(() => {
+    const today = format(new Date(), 'yyyy-MM-dd');
+    return leaveTypes.filter(t => !getEligibilityIssue(t, profile, today));
+  }, [leaveTypes, profile]);
+  const selectedType = availableTypes.find(t => t.code === leaveType);
+  const isCompOff = selectedType?.code === COMP_OFF_LEAVE_TYPE;
+
+  // Comp-off is earned per day worked, so show what is left and when it expires
+  const { data: balances } = useLeaveBalance(isCompOff ? user?.id || null : null);
+  const { data: compOffCredits } = useCompOffCredits(isCompOff ? user?.id || null : null, company?.id || null);
+  const compOff = useMemo(() => {
+    if (!compOffCredits || !balances) return null;
+    const balance = balances.find(b => b.leaveType === COMP_OFF_LEAVE_TYPE)?.balance ?? 0;
+    return {
+      allocations: allocateCompOffBalance(compOffCredits, balance),
+      pending: compOffCredits.filter(c => c.status === 'pending').length,
+    };
+  }, [compOffCredits, balances]);
+
+  const start = startDate ? format(startDate, 'yyyy-MM-dd') : null;
+  const end = endDate ? format(endDate, 'yyyy-MM-dd') : null;
+  const isSingleDay = !!start && start === end;
+
+  // What the request will cost, skipping weekly offs and holidays
+  const duration = useMemo(() => {
+    if (!calendar || !start || !end || end < start) return null;
+    const half = isSingleDay && halfDay !== 'full' ? halfDay : null;
+    return {
+      days: countLeaveDuration(calendar, { start_date: start, end_date: end, half_day: half }),
+      excluded: getNonWorkingDays(calendar, start, end),
+    };
+  }, [calendar, start, end, isSingleDay, halfDay]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!user || !startDate || !endDate) {
+    if (!user || !company || !selectedType || !startDate || !endDate) {
       toast.error('Please fill in all required fields');
       return;
     }
@@ -38,32 +86,39 @@ export function LeaveRequestForm({ onSuccess }: LeaveRequestFormProps) {
       return;
     }
 
-    setLoading(true);
+    if (duration && duration.days === 0) {
+      toast.error('The selected dates are all weekly offs or holidays');
+      return;
+    }
+
+    if (selectedType.requires_attachment && !attachment) {
+      toast.error(`Please attach a supporting document for ${selectedType.name.toLowerCase()}`);
+      return;
+    }
+
     try {
-      const { error } = await supabase
-        .from('leave_requests')
-        .insert({
-          user_id: user.id,
-          leave_type: leaveType,
-          start_date: format(startDate, 'yyyy-MM-dd'),
-          end_date: format(endDate, 'yyyy-MM-dd'),
-          reason: reason.trim() || null,
-          status: 'pending'
-        });
-
-      if (error) throw error;
-      
+      await createLeaveRequest.mutateAsync({
+        userId: user.id,
+        companyId: company.id,
+        leaveType: selectedType.code,
+        startDate: format(startDate, 'yyyy-MM-dd'),
+        endDate: format(endDate, 'yyyy-MM-dd'),
+        halfDay: isSingleDay && halfDay !== 'full' ? halfDay : null,
+        reason: reason.trim() || undefined,
+        attachment,
+      });
+
       toast.success('Leave request submitted successfully');
-      setLeaveType('casual');
+      setLeaveType('');
       setStartDate(undefined);
       setEndDate(undefined);
+      setHalfDay('full');
       setReason('');
+      setAttachment(null);
       onSuccess();
     } catch (error) {
       console.error('Error submitting leave request:', error);
-      toast.error('Failed to submit leave request');
-    } finally {
-      setLoading(false);
+      toast.error(mapDatabaseError(error));
     }
   };
 
@@ -76,17 +131,38 @@ export function LeaveRequestForm({ onSuccess }: LeaveRequestFormProps) {
         <form onSubmit={handleSubmit} className="space-y-4">
           <div className="space-y-2">
             <Label>Leave Type</Label>
-            <Select value={leaveType} onValueChange={(v) => setLeaveType(v as LeaveType)}>
+            <Select value={leaveType} onValueChange={setLeaveType}>
               <SelectTrigger>
-                <SelectValue />
+                <SelectValue placeholder="Select leave type" />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="casual">Casual Leave</SelectItem>
-                <SelectItem value="sick">Sick Leave</SelectItem>
-                <SelectItem value="paid">Paid Leave</SelectItem>
-                <SelectItem value="unpaid">Unpaid Leave</SelectItem>
+                {availableTypes.map(type => (
+                  <SelectItem key={type.code} value={type.code}>{type.name}</SelectItem>
+                ))}
               </SelectContent>
             </Select>
+            {selectedType && (
+              <p className="text-xs text-muted-foreground">
+                {selectedType.is_paid ? 'Paid' : 'Unpaid'}
+                {selectedType.max_consecutive_days !== null && ` · Up to ${selectedType.max_consecutive_days} consecutive day(s)`}
+                {selectedType.requires_attachment && ' · Supporting document required'}
+              </p>
+            )}
+            {isCompOff && compOff && (
+              <div className="text-xs text-muted-foreground space-y-0.5">
+                {compOff.allocations.length === 0 ? (
+                  <p>No comp-off available. Days worked on holidays and weekly offs appear here once approved.</p>
+                ) : (
+                  compOff.allocations.map(({ credit, remaining }) => (
+                    <p key={credit.id}>
+                      {remaining} day(s) for {credit.reason}, {format(new Date(credit.work_date), 'MMM d')}
+                      {' · '}use by {format(new Date(credit.expires_on!), 'MMM d, yyyy')}
+                    </p>
+                  ))
+                )}
+                {compOff.pending > 0 && <p>{compOff.pending} day(s) worked awaiting approval</p>}
+              </div>
+            )}
           </div>
 
           <div className="grid grid-cols-2 gap-4">
@@ -143,6 +219,36 @@ export function LeaveRequestForm({ onSuccess }: LeaveRequestFormProps) {
             </div>
           </div>
 
+          {isSingleDay && (
+            <div className="space-y-2">
+              <Label>Duration</Label>
+              <Select value={halfDay} onValueChange={(v) => setHalfDay(v as LeaveHalf | 'full')}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="full">Full day</SelectItem>
+                  {(Object.keys(LEAVE_HALF_LABELS) as LeaveHalf[]).map(half => (
+                    <SelectItem key={half} value={half}>{LEAVE_HALF_LABELS[half]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {duration && (
+            <div className="rounded-lg border border-border bg-accent/30 p-3 text-sm">
+              <p className="font-medium text-foreground">
+                {duration.days} working day{duration.days === 1 ? '' : 's'}
+              </p>
+              {duration.excluded.length > 0 && (
+                <p className="text-xs text-muted-foreground mt-1">
+                  Not counted: {duration.excluded.map(d => `${format(new Date(`${d.date}T00:00:00`), 'MMM d')} (${d.reason})`).join(', ')}
+                </p>
+              )}
+            </div>
+          )}
+
           <div className="space-y-2">
             <Label>Reason (Optional)</Label>
             <Textarea
@@ -153,8 +259,19 @@ export function LeaveRequestForm({ onSuccess }: LeaveRequestFormProps) {
             />
           </div>
 
-          <Button type="submit" className="w-full" disabled={loading}>
-            {loading ? 'Submitting...' : 'Submit Request'}
+          {selectedType?.requires_attachment && (
+            <div className="space-y-2">
+              <Label>Supporting Document *</Label>
+              <Input
+                type="file"
+                accept=".pdf,.jpg,.jpeg,.png"
+                onChange={(e) => setAttachment(e.target.files?.[0] || null)}
+              />
+            </div>
+          )}
+
+          <Button type="submit" className="w-full" disabled={createLeaveRequest.isPending}>
+            {createLeaveRequest.isPending ? 'Submitting...' : 'Submit Request'}
           </Button>
         </form>
       </CardContent>
@@ -0,0 +1,142 @@
+import { useEffect, useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from 'sonner';
+import { useCreateLeaveRequest } from '@/hooks/useLeaves';
+import { useBusinessCalendar } from '@/hooks/useSettings';
+import { countLeaveDuration, LEAVE_HALF_LABELS } from '@/lib/businessCalendar';
+import { LeaveHalf, LeaveRequest } from '@/types/hrms';
+import { mapDatabaseError } from '@/utils/errorMapper';
+
+interface ModifyLeaveDialogProps {
+  request: LeaveRequest | null;
+  onOpenChange: (open: boolean) => void;
+  onSuccess: () => void;
+}
+
+/**
+ * Change the dates of approved leave. The change goes through approval as a
+ * new request and replaces the original only once approved.
+ */
+export function ModifyLeaveDialog({ request, onOpenChange, onSuccess }: ModifyLeaveDialogProps) {
+  const { data: calendar } = useBusinessCalendar(request?.company_id || null);
+  const createLeaveRequest = useCreateLeaveRequest();
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [halfDay, setHalfDay] = useState<LeaveHalf | 'full'>('full');
+  const [reason, setReason] = useState('');
+
+  useEffect(() => {
+    if (!request) return;
+    setStartDate(request.start_date);
+    setEndDate(request.end_date);
+    setHalfDay(request.half_day || 'full');
+    setReason('');
+  }, [request]);
+
+  const isSingleDay = !!startDate && startDate === endDate;
+  const days = useMemo(() => {
+    if (!calendar || !startDate || !endDate || endDate < startDate) return null;
+    const half = isSingleDay && halfDay !== 'full' ? halfDay : null;
+    return countLeaveDuration(calendar, { start_date: startDate, end_date: endDate, half_day: half });
+  }, [calendar, startDate, endDate, isSingleDay, halfDay]);
+
+  const handleSubmit = async () => {
+    if (!request || !request.company_id) return;
+    if (!startDate || !endDate || endDate < startDate) {
+      toast.error('Choose a start date and an end date on or after it');
+      return;
+    }
+    const half = isSingleDay && halfDay !== 'full' ? halfDay : null;
+    if (startDate === request.start_date && endDate === request.end_date && half === request.half_day) {
+      toast.error('The dates are unchanged');
+      return;
+    }
+
+    try {
+      await createLeaveRequest.mutateAsync({
+        userId: request.user_id,
+        companyId: request.company_id,
+        leaveType: request.leave_type,
+        startDate,
+        endDate,
+        halfDay: half,
+        reason: reason.trim() || request.reason || undefined,
+        modifiesRequestId: request.id,
+      });
+      toast.success('Change submitted for approval');
+      onOpenChange(false);
+      onSuccess();
+    } catch (error) {
+      toast.error(mapDatabaseError(error));
+    }
+  };
+
+  return (
+    <Dialog open={!!request} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Change Leave Dates</DialogTitle>
+          <DialogDescription>
+            {request && (
+              <>
+                Currently {format(new Date(request.start_date), 'MMM d')} - {format(new Date(request.end_date), 'MMM d, yyyy')}.
+                {' '}Your leave stays as approved until the change is approved.
+              </>
+            )}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label>Start Date</Label>
+              <Input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label>End Date</Label>
+              <Input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+            </div>
+          </div>
+
+          {isSingleDay && (
+            <div className="space-y-1">
+              <Label>Duration</Label>
+              <Select value={halfDay} onValueChange={(v) => setHalfDay(v as LeaveHalf | 'full')}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="full">Full day</SelectItem>
+                  {(Object.keys(LEAVE_HALF_LABELS) as LeaveHalf[]).map(half => (
+                    <SelectItem key={half} value={half}>{LEAVE_HALF_LABELS[half]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {days !== null && (
+            <p className="text-sm text-muted-foreground">
+              {days} working day{days === 1 ? '' : 's'}
+              {request?.days !== null && request?.days !== undefined && ` (was ${request.days})`}
+            </p>
+          )}
+
+          <div className="space-y-1">
+            <Label>Reason for the change</Label>
+            <Textarea value={reason} onChange={(e) => setReason(e.target.value)} rows={2} />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSubmit} disabled={createLeaveRequest.isPending}>Submit Change</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
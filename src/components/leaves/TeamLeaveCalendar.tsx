@@ -0,0 +1,268 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ChevronLeft, ChevronRight, PartyPopper, AlertTriangle } from 'lucide-react';
+import { format, startOfMonth, endOfMonth, eachDayOfInterval, isToday } from 'date-fns';
+import { cn } from '@/lib/utils';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useAuth } from '@/contexts/AuthContext';
+import { useCompany } from '@/contexts/CompanyContext';
+import { useEmployees } from '@/hooks/useEmployees';
+import { useBusinessCalendar, useDepartments } from '@/hooks/useSettings';
+import { useLeaveTypes } from '@/hooks/useLeaveTypes';
+import { useDepartmentLeave, useStaffingRules, useTeamLeave } from '@/hooks/useTeamCalendar';
+import { getNonWorkingReason, LEAVE_HALF_LABELS } from '@/lib/businessCalendar';
+import { getLeaveTypeName } from '@/lib/leaveTypes';
+import { buildTeamLeaveDays, isBookedLeave, TeamLeaveDay } from '@/lib/teamCalendar';
+import { Department, Profile } from '@/types/hrms';
+
+const TEAM_SCOPE = 'team';
+
+/**
+ * Month view of who is off across a manager's reports or a department, with
+ * pending requests alongside approved leave and days below minimum staffing
+ * flagged.
+ */
+export function TeamLeaveCalendar() {
+  const { profile, isAdmin } = useAuth();
+  const { company } = useCompany();
+  const companyId = company?.id || null;
+  const [currentMonth, setCurrentMonth] = useState(new Date());
+  const [selectedDay, setSelectedDay] = useState<Date | null>(null);
+  const [scope, setScope] = useState('');
+
+  const { data: employeesData } = useEmployees({ companyId: companyId || undefined, pageSize: 100 });
+  const { data: departments = [] } = useDepartments(companyId);
+  const { data: calendar } = useBusinessCalendar(companyId);
+  const { data: leaveTypes = [] } = useLeaveTypes(companyId);
+  const { data: staffingRules = [] } = useStaffingRules(companyId);
+
+  const employees = (employeesData?.data || []) as Profile[];
+  const reports = employees.filter(e => profile && e.reporting_manager_id === profile.id);
+  const scopeDepartments = (departments as Department[]).filter(d => isAdmin || d.id === profile?.department_id);
+
+  useEffect(() => {
+    if (scope) return;
+    if (reports.length > 0) setScope(TEAM_SCOPE);
+    else if (scopeDepartments.length > 0) setScope(scopeDepartments[0].id);
+  }, [scope, reports.length, scopeDepartments]);
+
+  const monthStart = startOfMonth(currentMonth);
+  const monthEnd = endOfMonth(currentMonth);
+  const days = eachDayOfInterval({ start: monthStart, end: monthEnd });
+  const startDate = format(monthStart, 'yyyy-MM-dd');
+  const endDate = format(monthEnd, 'yyyy-MM-dd');
+
+  const departmentId = scope && scope !== TEAM_SCOPE ? scope : null;
+  const reportIds = reports.map(r => r.user_id);
+  const { data: teamLeave = [] } = useTeamLeave(scope === TEAM_SCOPE ? reportIds : [], startDate, endDate);
+  const { data: departmentLeave = [] } = useDepartmentLeave(departmentId, startDate, endDate);
+  const leaves = departmentId ? departmentLeave : teamLeave;
+
+  const members = departmentId ? employees.filter(e => e.department_id === departmentId) : reports;
+  const minPresent = departmentId
+    ? staffingRules.find(r => r.department_id === departmentId)?.min_present ?? null
+    : null;
+  const employeeMap = new Map(employees.map(e => [e.user_id, e]));
+
+  const leaveDays = useMemo(
+    () => (calendar ? buildTeamLeaveDays(calendar, leaves, startDate, endDate) : []),
+    [calendar, leaves, startDate, endDate]
+  );
+  const leaveDayMap = new Map(leaveDays.map(d => [d.date, d]));
+
+  const getHolidayForDay = (date: string) =>
+    calendar?.holidays.find(h => h.date.slice(0, 10) === date);
+
+  const isBelowMinimum = (leaveDay: TeamLeaveDay | undefined) =>
+    !!leaveDay && minPresent !== null && members.length - leaveDay.absent < minPresent;
+
+  const getDayColor = (date: string, leaveDay: TeamLeaveDay | undefined) => {
+    if (getHolidayForDay(date)) return 'bg-purple-100 text-purple-700 border-purple-200';
+    if (calendar && getNonWorkingReason(calendar, date)) return 'bg-muted text-muted-foreground border-border';
+    if (isBelowMinimum(leaveDay)) return 'bg-red-100 text-red-700 border-red-200';
+    if (leaveDay && leaveDay.absent > 0) return 'bg-blue-100 text-blue-700 border-blue-200';
+    if (leaveDay && leaveDay.leaves.length > 0) return 'bg-amber-50 text-amber-700 border-amber-200';
+    return 'bg-background text-foreground border-border';
+  };
+
+  const fullName = (userId: string) => {
+    const employee = employeeMap.get(userId);
+    return employee ? `${employee.first_name} ${employee.last_name}` : 'Unknown';
+  };
+
+  const selectedDate = selectedDay ? format(selectedDay, 'yyyy-MM-dd') : null;
+  const selectedLeaveDay = selectedDate ? leaveDayMap.get(selectedDate) : undefined;
+  const selectedHoliday = selectedDate ? getHolidayForDay(selectedDate) : undefined;
+  const selectedOffReason = selectedDate && calendar ? getNonWorkingReason(calendar, selectedDate) : null;
+
+  return (
+    <>
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between gap-2 pb-4">
+          <CardTitle className="text-lg font-semibold">
+            {format(currentMonth, 'MMMM yyyy')}
+          </CardTitle>
+          <div className="flex items-center gap-2">
+            <Select value={scope} onValueChange={setScope}>
+              <SelectTrigger className="h-8 w-44">
+                <SelectValue placeholder="Choose a team" />
+              </SelectTrigger>
+              <SelectContent>
+                {reports.length > 0 && <SelectItem value={TEAM_SCOPE}>My team</SelectItem>}
+                {scopeDepartments.map(d => (
+                  <SelectItem key={d.id} value={d.id}>{d.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="outline"
+              size="icon"
+              className="h-8 w-8"
+              onClick={() => setCurrentMonth(new Date(currentMonth.getFullYear(), currentMonth.getMonth() - 1))}
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="icon"
+              className="h-8 w-8"
+              onClick={() => setCurrentMonth(new Date(currentMonth.getFullYear(), currentMonth.getMonth() + 1))}
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {!scope ? (
+            <p className="text-center py-8 text-muted-foreground">No reports or department to show</p>
+          ) : (
+            <>
+              <div className="grid grid-cols-7 gap-1 mb-2">
+                {['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].map(day => (
+                  <div key={day} className="text-center text-xs font-medium text-muted-foreground py-2">
+                    {day}
+                  </div>
+                ))}
+              </div>
+              <div className="grid grid-cols-7 gap-1">
+                {Array.from({ length: monthStart.getDay() }).map((_, i) => (
+                  <div key={`empty-${i}`} className="aspect-square" />
+                ))}
+                {days.map(day => {
+                  const date = format(day, 'yyyy-MM-dd');
+                  const leaveDay = leaveDayMap.get(date);
+                  const holiday = getHolidayForDay(date);
+                  return (
+                    <button
+                      key={date}
+                      onClick={() => setSelectedDay(day)}
+                      className={cn(
+                        "aspect-square flex flex-col items-center justify-center rounded-md text-sm font-medium border transition-colors relative",
+                        getDayColor(date, leaveDay),
+                        isToday(day) && "ring-2 ring-primary ring-offset-2",
+                        "hover:opacity-80"
+                      )}
+                      title={holiday?.name}
+                    >
+                      {format(day, 'd')}
+                      {leaveDay && leaveDay.leaves.length > 0 && (
+                        <span className="text-[10px] leading-none">{leaveDay.absentIfApproved} off</span>
+                      )}
+                      {holiday && (
+                        <div className="absolute bottom-0.5 w-1.5 h-1.5 rounded-full bg-purple-500" />
+                      )}
+                    </button>
+                  );
+                })}
+              </div>
+              <div className="flex flex-wrap gap-4 mt-6 pt-4 border-t border-border">
+                <div className="flex items-center gap-2">
+                  <div className="w-3 h-3 rounded bg-blue-100 border border-blue-200" />
+                  <span className="text-xs text-muted-foreground">On Leave</span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <div className="w-3 h-3 rounded bg-amber-50 border border-amber-200" />
+                  <span className="text-xs text-muted-foreground">Pending Only</span>
+                </div>
+                {minPresent !== null && (
+                  <div className="flex items-center gap-2">
+                    <div className="w-3 h-3 rounded bg-red-100 border border-red-200" />
+                    <span className="text-xs text-muted-foreground">Below {minPresent} at work</span>
+                  </div>
+                )}
+                <div className="flex items-center gap-2">
+                  <div className="w-3 h-3 rounded bg-purple-100 border border-purple-200" />
+                  <span className="text-xs text-muted-foreground">Holiday</span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <div className="w-3 h-3 rounded bg-muted border border-border" />
+                  <span className="text-xs text-muted-foreground">Weekly Off</span>
+                </div>
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!selectedDay} onOpenChange={() => setSelectedDay(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {selectedDay && format(selectedDay, 'EEEE, MMMM d, yyyy')}
+            </DialogTitle>
+          </DialogHeader>
+          {selectedHoliday && (
+            <div className="flex items-center gap-3 p-4 rounded-lg bg-purple-50 border border-purple-200">
+              <PartyPopper className="h-8 w-8 text-purple-600" />
+              <div>
+                <p className="font-semibold text-purple-700">{selectedHoliday.name}</p>
+                <p className="text-sm text-purple-600 capitalize">{selectedHoliday.type} Holiday</p>
+              </div>
+            </div>
+          )}
+          {selectedOffReason && !selectedHoliday ? (
+            <p className="text-muted-foreground text-center py-4">{selectedOffReason} is a weekly off</p>
+          ) : selectedLeaveDay && selectedLeaveDay.leaves.length > 0 ? (
+            <div className="space-y-3">
+              <p className="text-sm text-muted-foreground">
+                {members.length - selectedLeaveDay.absent} of {members.length} at work
+                {minPresent !== null && ` (minimum ${minPresent})`}
+              </p>
+              {isBelowMinimum(selectedLeaveDay) && (
+                <div className="flex items-center gap-2 p-2 rounded-md bg-red-50 border border-red-200 text-sm text-red-700">
+                  <AlertTriangle className="h-4 w-4" />
+                  Below minimum staffing
+                </div>
+              )}
+              {selectedLeaveDay.leaves.map(leave => (
+                <div key={leave.leave_request_id} className="flex items-center justify-between p-2 rounded-lg border border-border">
+                  <div className="text-sm">
+                    <p className="font-medium text-foreground">{fullName(leave.user_id)}</p>
+                    <p className="text-muted-foreground">
+                      {getLeaveTypeName(leaveTypes, leave.leave_type)}
+                      {leave.half_day && ` · ${LEAVE_HALF_LABELS[leave.half_day]}`}
+                      {' · '}{format(new Date(leave.start_date), 'MMM d')} - {format(new Date(leave.end_date), 'MMM d')}
+                    </p>
+                  </div>
+                  <Badge variant={isBookedLeave(leave) ? 'default' : 'secondary'}>
+                    {isBookedLeave(leave) ? 'Approved' : 'Pending'}
+                  </Badge>
+                </div>
+              ))}
+            </div>
+          ) : !selectedHoliday && (
+            <p className="text-muted-foreground text-center py-4">Everyone is at work</p>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,61 @@
+import { useNavigate } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { useActiveOnboardings } from '@/hooks/useOnboarding';
+import { summarizeOnboarding } from '@/lib/onboarding';
+
+interface ActiveOnboardingsProps {
+  companyId: string;
+  today: string;
+}
+
+/**
+ * Everyone still onboarding and how far along they are; opens the
+ * employee's profile for their checklist and documents
+ */
+export function ActiveOnboardings({ companyId, today }: ActiveOnboardingsProps) {
+  const navigate = useNavigate();
+  const { data: onboardings = [], isLoading } = useActiveOnboardings(companyId);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg font-semibold">New Hires Onboarding</CardTitle>
+        <CardDescription>Open an employee to tick off HR and IT tasks and review their documents.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : onboardings.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nobody is onboarding right now.</p>
+        ) : (
+          <div className="space-y-2">
+            {onboardings.map(onboarding => {
+              const progress = summarizeOnboarding(onboarding.tasks || [], today);
+              return (
+                <button
+                  key={onboarding.id}
+                  type="button"
+                  className="w-full text-left p-3 rounded-lg border border-border hover:bg-accent transition-colors space-y-2"
+                  onClick={() => onboarding.profile && navigate(`/employees/${onboarding.profile.id}`)}
+                >
+                  <div className="flex items-center justify-between gap-3">
+                    <p className="font-medium text-foreground">
+                      {onboarding.profile ? `${onboarding.profile.first_name} ${onboarding.profile.last_name}` : 'Unknown'}
+                    </p>
+                    <div className="flex items-center gap-2">
+                      {progress.overdue > 0 && <Badge variant="destructive">{progress.overdue} overdue</Badge>}
+                      <span className="text-sm text-muted-foreground">{progress.done}/{progress.total}</span>
+                    </div>
+                  </div>
+                  <Progress value={progress.percent} className="h-2" />
+                </button>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
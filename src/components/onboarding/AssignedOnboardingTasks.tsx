@@ -0,0 +1,64 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { toast } from 'sonner';
+import { useAssignedOnboardingTasks, useSetOnboardingTaskDone } from '@/hooks/useOnboarding';
+import { isOnboardingTaskOverdue, ONBOARDING_OWNER_LABELS } from '@/lib/onboarding';
+import { formatDay } from '@/lib/timesheets';
+import { mapDatabaseError } from '@/utils/errorMapper';
+
+interface AssignedOnboardingTasksProps {
+  userId: string;
+  today: string;
+}
+
+/**
+ * Open tasks on new hires' checklists assigned to the user, such as a
+ * manager's welcome meeting. Renders nothing while there are none.
+ */
+export function AssignedOnboardingTasks({ userId, today }: AssignedOnboardingTasksProps) {
+  const { data: tasks = [] } = useAssignedOnboardingTasks(userId);
+  const setTaskDone = useSetOnboardingTaskDone();
+
+  if (tasks.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg font-semibold">Tasks for New Hires</CardTitle>
+        <CardDescription>Tick a task off once it's done; you'll be reminded when one is overdue.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {tasks.map(task => (
+          <div key={task.id} className="flex items-start gap-3 p-3 rounded-lg border border-border">
+            <Checkbox
+              className="mt-0.5"
+              checked={false}
+              onCheckedChange={async () => {
+                try {
+                  await setTaskDone.mutateAsync({ task, done: true });
+                  toast.success(`${task.title} done`);
+                } catch (error) {
+                  toast.error(mapDatabaseError(error));
+                }
+              }}
+              disabled={setTaskDone.isPending}
+              aria-label={task.title}
+            />
+            <div className="flex-1 space-y-1">
+              <div className="flex flex-wrap items-center gap-2">
+                <p className="font-medium text-foreground">{task.title}</p>
+                <Badge variant="outline">{ONBOARDING_OWNER_LABELS[task.owner_type]}</Badge>
+                {isOnboardingTaskOverdue(task, today) && <Badge variant="destructive">Overdue</Badge>}
+              </div>
+              <p className="text-sm text-muted-foreground">
+                {task.profile ? `${task.profile.first_name} ${task.profile.last_name}` : 'Unknown'} · Due {formatDay(task.due_date, 'EEE, MMM d')}
+              </p>
+              {task.description && <p className="text-xs text-muted-foreground">{task.description}</p>}
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,212 @@
+import { useRef, useState } from 'react';
+import { format } from 'date-fns';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Check, ExternalLink, Upload, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { useReviewOnboardingDocument, useSetOnboardingTaskDone, useUploadOnboardingDocument } from '@/hooks/useOnboarding';
+import {
+  isOnboardingTaskOverdue,
+  ONBOARDING_DOCUMENT_ACCEPT,
+  ONBOARDING_DOCUMENT_STATUS_LABELS,
+  ONBOARDING_OWNER_LABELS,
+} from '@/lib/onboarding';
+import { formatDay } from '@/lib/timesheets';
+import { onboardingService } from '@/services/onboardingService';
+import { EmployeeOnboarding, OnboardingDocument, OnboardingTask } from '@/types/hrms';
+import { mapDatabaseError } from '@/utils/errorMapper';
+
+const DOCUMENT_STATUS_VARIANTS: Record<OnboardingDocument['status'], 'secondary' | 'outline' | 'destructive'> = {
+  submitted: 'secondary',
+  verified: 'outline',
+  rejected: 'destructive',
+};
+
+interface OnboardingChecklistProps {
+  onboarding: EmployeeOnboarding;
+  /** The viewer's user id; they can tick off tasks assigned to them */
+  userId: string;
+  /** Admins can tick off any task and review documents */
+  isAdmin: boolean;
+  /** The company-local date, for overdue tasks */
+  today: string;
+}
+
+/**
+ * A new hire's tasks in due order. The new hire uploads documents from
+ * here; admins verify or reject them.
+ */
+export function OnboardingChecklist({ onboarding, userId, isAdmin, today }: OnboardingChecklistProps) {
+  const setTaskDone = useSetOnboardingTaskDone();
+  const uploadDocument = useUploadOnboardingDocument();
+  const reviewDocument = useReviewOnboardingDocument();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [uploadTask, setUploadTask] = useState<OnboardingTask | null>(null);
+  const [rejecting, setRejecting] = useState<OnboardingDocument | null>(null);
+  const [rejectNote, setRejectNote] = useState('');
+
+  const isNewHire = onboarding.user_id === userId;
+  const documents = onboarding.documents || [];
+
+  const handleToggle = async (task: OnboardingTask, done: boolean) => {
+    try {
+      await setTaskDone.mutateAsync({ task, done });
+    } catch (error) {
+      toast.error(mapDatabaseError(error));
+    }
+  };
+
+  const handlePickFile = (task: OnboardingTask) => {
+    setUploadTask(task);
+    fileInputRef.current?.click();
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !uploadTask) return;
+    try {
+      await uploadDocument.mutateAsync({ task: uploadTask, file });
+      toast.success(`${file.name} uploaded`);
+    } catch (error) {
+      toast.error(mapDatabaseError(error));
+    } finally {
+      setUploadTask(null);
+    }
+  };
+
+  const handleOpenDocument = async (document: OnboardingDocument) => {
+    try {
+      const url = await onboardingService.getDocumentUrl(document.file_path);
+      window.open(url, '_blank', 'noopener,noreferrer');
+    } catch (error) {
+      toast.error(mapDatabaseError(error));
+    }
+  };
+
+  const handleReview = async (document: OnboardingDocument, status: 'verified' | 'rejected', note?: string) => {
+    try {
+      await reviewDocument.mutateAsync({ document, status, note });
+      toast.success(status === 'verified' ? `${document.file_name} verified` : `${document.file_name} sent back for another upload`);
+      setRejecting(null);
+      setRejectNote('');
+    } catch (error) {
+      toast.error(mapDatabaseError(error));
+    }
+  };
+
+  const renderDocument = (document: OnboardingDocument) => (
+    <div key={document.id} className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <button
+          type="button"
+          className="flex items-center gap-1 text-primary hover:underline"
+          onClick={() => handleOpenDocument(document)}
+        >
+          <ExternalLink className="h-3 w-3" />
+          {document.file_name}
+        </button>
+        <Badge variant={DOCUMENT_STATUS_VARIANTS[document.status]}>{ONBOARDING_DOCUMENT_STATUS_LABELS[document.status]}</Badge>
+        {document.review_note && <span className="text-muted-foreground">{document.review_note}</span>}
+        {isAdmin && document.status === 'submitted' && (
+          <>
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-6 w-6 p-0 text-green-600 hover:text-green-700 hover:bg-green-100"
+              onClick={() => handleReview(document, 'verified')}
+              disabled={reviewDocument.isPending}
+              aria-label="Verify document"
+            >
+              <Check className="h-3.5 w-3.5" />
+            </Button>
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-6 w-6 p-0 text-destructive hover:text-destructive hover:bg-red-100"
+              onClick={() => setRejecting(document)}
+              disabled={reviewDocument.isPending}
+              aria-label="Reject document"
+            >
+              <X className="h-3.5 w-3.5" />
+            </Button>
+          </>
+        )}
+      </div>
+      {rejecting?.id === document.id && (
+        <div className="flex items-center gap-2">
+          <Input
+            className="h-8"
+            placeholder="What needs fixing, e.g. the scan is unreadable"
+            value={rejectNote}
+            onChange={(e) => setRejectNote(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleReview(document, 'rejected', rejectNote)}
+          />
+          <Button size="sm" variant="destructive" onClick={() => handleReview(document, 'rejected', rejectNote)} disabled={reviewDocument.isPending}>
+            Reject
+          </Button>
+          <Button size="sm" variant="ghost" onClick={() => setRejecting(null)}>Cancel</Button>
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="space-y-2">
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept={ONBOARDING_DOCUMENT_ACCEPT}
+        className="hidden"
+        onChange={handleFileChange}
+      />
+      {(onboarding.tasks || []).map(task => {
+        const overdue = isOnboardingTaskOverdue(task, today);
+        const canTick = !task.document_type && (isAdmin || task.assignee_id === userId);
+        const taskDocuments = documents.filter(d => d.task_id === task.id);
+        const canUpload = !!task.document_type && isNewHire && task.status === 'pending';
+
+        return (
+          <div key={task.id} className="flex items-start gap-3 p-3 rounded-lg border border-border">
+            <Checkbox
+              className="mt-0.5"
+              checked={task.status === 'done'}
+              onCheckedChange={(checked) => handleToggle(task, checked === true)}
+              disabled={!canTick || setTaskDone.isPending}
+              aria-label={task.title}
+            />
+            <div className="flex-1 space-y-1 min-w-0">
+              <div className="flex flex-wrap items-center gap-2">
+                <p className={task.status === 'done' ? 'font-medium text-muted-foreground line-through' : 'font-medium text-foreground'}>
+                  {task.title}
+                </p>
+                <Badge variant="outline">{ONBOARDING_OWNER_LABELS[task.owner_type]}</Badge>
+                {overdue && <Badge variant="destructive">Overdue</Badge>}
+              </div>
+              {task.description && <p className="text-sm text-muted-foreground">{task.description}</p>}
+              <p className="text-xs text-muted-foreground">
+                {task.status === 'done' && task.completed_at
+                  ? `Done ${format(new Date(task.completed_at), 'MMM d, yyyy')}`
+                  : `Due ${formatDay(task.due_date, 'EEE, MMM d, yyyy')}`}
+              </p>
+              {taskDocuments.map(renderDocument)}
+            </div>
+            {canUpload && (
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => handlePickFile(task)}
+                disabled={uploadDocument.isPending}
+              >
+                <Upload className="h-3.5 w-3.5 mr-1" />
+                {uploadDocument.isPending && uploadTask?.id === task.id ? 'Uploading...' : 'Upload'}
+              </Button>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ClipboardList } from 'lucide-react';
+import { toast } from 'sonner';
+import { useAttendanceTimeZone } from '@/hooks/useAttendance';
+import { useOnboarding, useOnboardingTemplates, useStartOnboarding } from '@/hooks/useOnboarding';
+import { summarizeOnboarding } from '@/lib/onboarding';
+import { DEFAULT_TIME_ZONE, getZonedDate } from '@/lib/timezone';
+import { Profile } from '@/types/hrms';
+import { mapDatabaseError } from '@/utils/errorMapper';
+import { OnboardingChecklist } from './OnboardingChecklist';
+
+const MATCHING = 'matching';
+
+interface OnboardingProgressProps {
+  profile: Profile;
+  /** The viewer's user id */
+  userId: string;
+  isAdmin: boolean;
+}
+
+/**
+ * The employee's onboarding checklist and how far along it is. Admins can
+ * start it for employees who have none yet.
+ */
+export function OnboardingProgress({ profile, userId, isAdmin }: OnboardingProgressProps) {
+  const { data: onboarding, isLoading } = useOnboarding(profile.user_id);
+  const { data: templates = [] } = useOnboardingTemplates(isAdmin ? profile.company_id : null);
+  const { data: timeZone } = useAttendanceTimeZone(profile.user_id, profile.company_id);
+  const startOnboarding = useStartOnboarding();
+  const [templateId, setTemplateId] = useState(MATCHING);
+
+  const today = getZonedDate(new Date(), timeZone || DEFAULT_TIME_ZONE);
+  const activeTemplates = templates.filter(t => t.is_active);
+
+  const handleStart = async () => {
+    try {
+      const started = await startOnboarding.mutateAsync({
+        userId: profile.user_id,
+        templateId: templateId === MATCHING ? undefined : templateId,
+      });
+      if (started) {
+        toast.success('Onboarding started');
+      } else {
+        toast.error('No active checklist matches their department and role; pick one instead');
+      }
+    } catch (error) {
+      toast.error(mapDatabaseError(error));
+    }
+  };
+
+  if (isLoading) return null;
+  // Employees who joined before onboarding existed have nothing to show
+  if (!onboarding && !isAdmin) return null;
+
+  const progress = onboarding ? summarizeOnboarding(onboarding.tasks || [], today) : null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <ClipboardList className="h-5 w-5" />
+          Onboarding
+          {onboarding?.status === 'completed' && <Badge variant="outline">Completed</Badge>}
+          {progress && progress.overdue > 0 && <Badge variant="destructive">{progress.overdue} overdue</Badge>}
+        </CardTitle>
+        {progress && (
+          <CardDescription>
+            {progress.done} of {progress.total} tasks done
+          </CardDescription>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {onboarding && progress ? (
+          <>
+            <Progress value={progress.percent} className="h-2" />
+            <OnboardingChecklist onboarding={onboarding} userId={userId} isAdmin={isAdmin} today={today} />
+          </>
+        ) : activeTemplates.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Add an onboarding checklist in Settings to start onboarding employees.
+          </p>
+        ) : (
+          <div className="flex flex-wrap items-center gap-2">
+            <Select value={templateId} onValueChange={setTemplateId}>
+              <SelectTrigger className="w-64">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={MATCHING}>Checklist for their department and role</SelectItem>
+                {activeTemplates.map(t => (
+                  <SelectItem key={t.id} value={t.id}>{t.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button onClick={handleStart} disabled={startOnboarding.isPending}>
+              Start Onboarding
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
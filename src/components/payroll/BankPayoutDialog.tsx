@@ -0,0 +1,177 @@
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertCircle, AlertTriangle, Banknote, CheckCircle, Download } from 'lucide-react';
+import { toast } from 'sonner';
+import { BankPayoutFormat, PayrollRun } from '@/types/hrms';
+import { BANK_PAYOUT_FORMATS } from '@/lib/bankPayout';
+import { useBankPayoutPreview, useExportBankPayout } from '@/hooks/useBankPayout';
+import { useCompanySettings, useUpdateCompanySettings } from '@/hooks/useSettings';
+import { useTransitionPayrollRun } from '@/hooks/usePayrollRuns';
+import { mapDatabaseError } from '@/utils/errorMapper';
+
+const MONTHS = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+
+interface BankPayoutDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  run: PayrollRun;
+}
+
+export function BankPayoutDialog({ open, onOpenChange, run }: BankPayoutDialogProps) {
+  const { data: settings } = useCompanySettings(run.company_id);
+  const updateSettings = useUpdateCompanySettings(run.company_id);
+  const { data: preview, isLoading } = useBankPayoutPreview(run, open);
+  const exportPayout = useExportBankPayout();
+  const transitionRun = useTransitionPayrollRun();
+
+  const [payoutFormat, setPayoutFormat] = useState<BankPayoutFormat>('neft_csv');
+  const [debitAccount, setDebitAccount] = useState('');
+  const [valueDate, setValueDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [narration, setNarration] = useState(`SALARY ${MONTHS[run.month - 1]} ${run.year}`);
+
+  useEffect(() => {
+    if (settings) {
+      setPayoutFormat(settings.payout_format);
+      setDebitAccount(settings.payout_debit_account);
+    }
+  }, [settings]);
+
+  const errors = preview?.issues.filter(i => i.severity === 'error') || [];
+  const warnings = preview?.issues.filter(i => i.severity === 'warning') || [];
+
+  const handleExport = async () => {
+    try {
+      const result = await exportPayout.mutateAsync({
+        run,
+        format: payoutFormat,
+        options: {
+          debitAccountNumber: debitAccount.trim(),
+          valueDate: new Date(`${valueDate}T00:00:00`),
+          narration,
+        },
+      });
+      if (settings?.payout_format !== payoutFormat || settings?.payout_debit_account !== debitAccount.trim()) {
+        await updateSettings.mutateAsync({ payout_format: payoutFormat, payout_debit_account: debitAccount.trim() });
+      }
+      toast.success(`Payout file generated for ${result.payable.length} employee${result.payable.length === 1 ? '' : 's'}`);
+    } catch (error) {
+      toast.error(mapDatabaseError(error));
+    }
+  };
+
+  const handleConfirmUpload = async () => {
+    try {
+      await transitionRun.mutateAsync({ run, status: 'paid', note: 'Bank upload confirmed' });
+      toast.success('Payroll marked as paid');
+      onOpenChange(false);
+    } catch (error) {
+      toast.error(mapDatabaseError(error));
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Banknote className="h-5 w-5 text-primary" />
+            Bank Payout File
+          </DialogTitle>
+          <DialogDescription>
+            Generate a bulk transfer file for this run, upload it to your bank portal, then confirm
+            the upload to mark the payroll as paid.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Format</Label>
+              <Select value={payoutFormat} onValueChange={(value) => setPayoutFormat(value as BankPayoutFormat)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(BANK_PAYOUT_FORMATS) as BankPayoutFormat[]).map(key => (
+                    <SelectItem key={key} value={key}>{BANK_PAYOUT_FORMATS[key].label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Debit Account Number</Label>
+              <Input
+                value={debitAccount}
+                onChange={(e) => setDebitAccount(e.target.value)}
+                placeholder="Company salary account"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Value Date</Label>
+              <Input type="date" value={valueDate} onChange={(e) => setValueDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label>Narration</Label>
+              <Input value={narration} onChange={(e) => setNarration(e.target.value)} maxLength={30} />
+            </div>
+          </div>
+
+          {isLoading || !preview ? (
+            <p className="text-center text-muted-foreground py-4">Validating bank details...</p>
+          ) : (
+            <div className="space-y-3">
+              <div className="flex justify-between p-3 rounded-lg bg-accent/50 border border-border text-sm">
+                <span>{preview.payable.length} payable employee{preview.payable.length === 1 ? '' : 's'}</span>
+                <span className="font-semibold">₹{preview.totalAmount.toLocaleString('en-IN')}</span>
+              </div>
+
+              {errors.length === 0 && warnings.length === 0 && (
+                <p className="flex items-center gap-2 text-sm text-green-600">
+                  <CheckCircle className="h-4 w-4" />
+                  All bank details passed validation
+                </p>
+              )}
+              {errors.map((issue, index) => (
+                <p key={`e${index}`} className="flex items-start gap-2 text-sm text-destructive">
+                  <AlertCircle className="h-4 w-4 mt-0.5 shrink-0" />
+                  <span><span className="font-medium">{issue.employeeName}:</span> {issue.message}</span>
+                </p>
+              ))}
+              {warnings.map((issue, index) => (
+                <p key={`w${index}`} className="flex items-start gap-2 text-sm text-amber-600">
+                  <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                  <span><span className="font-medium">{issue.employeeName}:</span> {issue.message}</span>
+                </p>
+              ))}
+            </div>
+          )}
+
+          <div className="flex flex-wrap gap-3 justify-end">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Close
+            </Button>
+            <Button
+              variant={run.status === 'locked' ? 'outline' : 'default'}
+              onClick={handleExport}
+              disabled={exportPayout.isPending || !preview || errors.length > 0 || preview.payable.length === 0}
+            >
+              <Download className="h-4 w-4 mr-2" />
+              {exportPayout.isPending ? 'Generating...' : 'Download File'}
+            </Button>
+            {run.status === 'locked' && (
+              <Button onClick={handleConfirmUpload} disabled={transitionRun.isPending}>
+                <CheckCircle className="h-4 w-4 mr-2" />
+                Confirm Upload & Mark Paid
+              </Button>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
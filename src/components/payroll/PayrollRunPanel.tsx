@@ -0,0 +1,169 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Banknote, History, Lock, RotateCcw, PlusCircle } from 'lucide-react';
+import { toast } from 'sonner';
+import { PayrollRun, PayrollRunStatus } from '@/types/hrms';
+import { isRunEditable, PAYROLL_RUN_TRANSITIONS } from '@/services/payrollRunService';
+import { PAYROLL_RUN_STATUS_LABELS, PAYROLL_RUN_TYPE_LABELS } from '@/lib/payrollRuns';
+import {
+  useCreateOffCycleRun,
+  useCreateReversalRun,
+  usePayrollRunTransitions,
+  useTransitionPayrollRun,
+} from '@/hooks/usePayrollRuns';
+import { mapDatabaseError } from '@/utils/errorMapper';
+import { BankPayoutDialog } from './BankPayoutDialog';
+
+const RUN_STATUS_STYLES: Record<PayrollRunStatus, string> = {
+  draft: 'bg-gray-100 text-gray-700',
+  under_review: 'bg-yellow-100 text-yellow-700',
+  approved: 'bg-blue-100 text-blue-700',
+  locked: 'bg-purple-100 text-purple-700',
+  paid: 'bg-green-100 text-green-700',
+};
+
+const TRANSITION_ACTIONS: Record<PayrollRunStatus, string> = {
+  draft: 'Send Back to Draft',
+  under_review: 'Submit for Review',
+  approved: 'Approve',
+  locked: 'Lock',
+  paid: 'Mark as Paid',
+};
+
+interface PayrollRunPanelProps {
+  run: PayrollRun;
+  onRunCreated: (run: PayrollRun) => void;
+}
+
+export function PayrollRunPanel({ run, onRunCreated }: PayrollRunPanelProps) {
+  const [note, setNote] = useState('');
+  const [payoutOpen, setPayoutOpen] = useState(false);
+  const { data: transitions = [] } = usePayrollRunTransitions(run.id);
+  const transitionRun = useTransitionPayrollRun();
+  const createReversal = useCreateReversalRun();
+  const createOffCycle = useCreateOffCycleRun(run.company_id);
+  const nextStatuses = PAYROLL_RUN_TRANSITIONS[run.status];
+  const frozen = !isRunEditable(run);
+  const payable = (run.status === 'approved' || run.status === 'locked') && run.run_type !== 'reversal';
+
+  const handleTransition = async (status: PayrollRunStatus) => {
+    try {
+      await transitionRun.mutateAsync({ run, status, note: note.trim() || undefined });
+      setNote('');
+      toast.success(`Payroll run ${PAYROLL_RUN_STATUS_LABELS[status].toLowerCase()}`);
+    } catch (error) {
+      toast.error(mapDatabaseError(error));
+    }
+  };
+
+  const handleReverse = async () => {
+    try {
+      const reversal = await createReversal.mutateAsync({ run, note: note.trim() || undefined });
+      setNote('');
+      toast.success('Reversal run created as a draft');
+      onRunCreated(reversal);
+    } catch (error) {
+      toast.error(mapDatabaseError(error));
+    }
+  };
+
+  const handleOffCycle = async () => {
+    try {
+      const offCycle = await createOffCycle.mutateAsync({
+        month: run.month,
+        year: run.year,
+        note: note.trim() || undefined,
+      });
+      setNote('');
+      toast.success('Off-cycle run created');
+      onRunCreated(offCycle);
+    } catch (error) {
+      toast.error(mapDatabaseError(error));
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg font-semibold flex flex-wrap items-center gap-2">
+          {frozen && <Lock className="h-4 w-4 text-muted-foreground" />}
+          {PAYROLL_RUN_TYPE_LABELS[run.run_type]} Run
+          <Badge className={RUN_STATUS_STYLES[run.status]}>{PAYROLL_RUN_STATUS_LABELS[run.status]}</Badge>
+        </CardTitle>
+        {frozen && (
+          <p className="text-sm text-muted-foreground">
+            Rows in this run can no longer be edited. Correct them with a reversal or an off-cycle run.
+          </p>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col sm:flex-row gap-2">
+          <Input
+            placeholder="Note for this step (optional)"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            className="flex-1"
+          />
+          {nextStatuses.map(status => (
+            <Button
+              key={status}
+              variant={status === 'draft' ? 'outline' : 'default'}
+              onClick={() => handleTransition(status)}
+              disabled={transitionRun.isPending}
+            >
+              {TRANSITION_ACTIONS[status]}
+            </Button>
+          ))}
+          {payable && (
+            <Button variant="outline" onClick={() => setPayoutOpen(true)}>
+              <Banknote className="h-4 w-4 mr-2" />
+              Bank Payout
+            </Button>
+          )}
+          {frozen && run.run_type !== 'reversal' && (
+            <Button variant="outline" onClick={handleReverse} disabled={createReversal.isPending}>
+              <RotateCcw className="h-4 w-4 mr-2" />
+              Reverse Run
+            </Button>
+          )}
+          {frozen && (
+            <Button variant="outline" onClick={handleOffCycle} disabled={createOffCycle.isPending}>
+              <PlusCircle className="h-4 w-4 mr-2" />
+              Off-cycle Run
+            </Button>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-sm font-medium flex items-center gap-2">
+            <History className="h-4 w-4" />
+            History
+          </p>
+          {transitions.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No transitions yet</p>
+          ) : (
+            <ul className="space-y-1 text-sm">
+              {transitions.map(t => (
+                <li key={t.id} className="flex flex-wrap gap-x-2 text-muted-foreground">
+                  <span className="text-foreground">
+                    {t.from_status ? `${PAYROLL_RUN_STATUS_LABELS[t.from_status]} → ` : ''}
+                    {PAYROLL_RUN_STATUS_LABELS[t.to_status]}
+                  </span>
+                  <span>by {t.performed_by_name || 'Unknown user'}</span>
+                  <span>on {format(new Date(t.created_at), 'MMM d, yyyy HH:mm')}</span>
+                  {t.note && <span className="italic">— {t.note}</span>}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </CardContent>
+
+      {payable && <BankPayoutDialog open={payoutOpen} onOpenChange={setPayoutOpen} run={run} />}
+    </Card>
+  );
+}
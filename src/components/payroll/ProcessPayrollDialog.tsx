@@ -1,40 +1,23 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Separator } from '@/components/ui/separator';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
 import { Plus, Trash2, Calculator, TrendingUp, TrendingDown } from 'lucide-react';
-import { Profile } from '@/types/hrms';
+import { PayrollAdjustment, PayrollRun, Profile } from '@/types/hrms';
+import { payrollService } from '@/services/payrollService';
+import { isRunEditable } from '@/services/payrollRunService';
+import { applyAdjustments, Payslip } from '@/lib/payrollEngine';
 import { mapDatabaseError } from '@/utils/errorMapper';
 
-interface PayrollConfig {
-  pf_enabled: boolean;
-  pf_percentage: number;
-  esic_enabled: boolean;
-  esic_percentage: number;
-  epf_enabled: boolean;
-  epf_percentage: number;
-  pt_enabled: boolean;
-  pt_amount: number;
-}
-
-interface Adjustment {
-  id?: string;
-  name: string;
-  amount: number;
-  type: 'addition' | 'deduction';
-}
-
 interface ProcessPayrollDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   employee: Profile;
-  month: number;
-  year: number;
+  run: PayrollRun;
   onSuccess: () => void;
 }
 
@@ -42,151 +25,45 @@ export function ProcessPayrollDialog({
   open,
   onOpenChange,
   employee,
-  month,
-  year,
+  run,
   onSuccess,
 }: ProcessPayrollDialogProps) {
+  const { month, year } = run;
+  const editable = isRunEditable(run);
   const [loading, setLoading] = useState(false);
   const [calculating, setCalculating] = useState(true);
-  const [config, setConfig] = useState<PayrollConfig | null>(null);
-  const [adjustments, setAdjustments] = useState<Adjustment[]>([]);
-  const [newAdjustment, setNewAdjustment] = useState<Adjustment>({ name: '', amount: 0, type: 'addition' });
-  const [attendanceData, setAttendanceData] = useState({
-    workingDays: 0,
-    presentDays: 0,
-    halfDays: 0,
-    paidLeaveDays: 0,
-    unpaidLeaveDays: 0,
-  });
+  const [basePayslip, setBasePayslip] = useState<Payslip | null>(null);
+  const [adjustments, setAdjustments] = useState<PayrollAdjustment[]>([]);
+  const [newAdjustment, setNewAdjustment] = useState<PayrollAdjustment>({ name: '', amount: 0, type: 'addition' });
   const [existingPayroll, setExistingPayroll] = useState<any>(null);
 
-  const baseSalary = Number(employee.monthly_salary || 0);
-
   useEffect(() => {
     if (open) {
       fetchData();
     }
-  }, [open, employee, month, year]);
+  }, [open, employee, run.id]);
 
   const fetchData = async () => {
     setCalculating(true);
     try {
-      // Fetch payroll config
-      const { data: settingsData } = await supabase
-        .from('company_settings')
-        .select('setting_value')
-        .eq('setting_key', 'payroll_config')
-        .maybeSingle();
-
-      if (settingsData?.setting_value) {
-        setConfig(settingsData.setting_value as unknown as PayrollConfig);
-      }
-
-      // Check for existing payroll
-      const { data: payrollData } = await supabase
-        .from('payroll')
-        .select('*')
-        .eq('user_id', employee.user_id)
-        .eq('month', month)
-        .eq('year', year)
-        .maybeSingle();
-
-      if (payrollData) {
-        setExistingPayroll(payrollData);
-        setAttendanceData({
-          workingDays: payrollData.working_days || 0,
-          presentDays: payrollData.present_days || 0,
-          halfDays: 0,
-          paidLeaveDays: payrollData.paid_leave_days || 0,
-          unpaidLeaveDays: payrollData.unpaid_leave_days || 0,
-        });
-
-        // Fetch existing adjustments
-        const { data: adjData } = await supabase
-          .from('payroll_adjustments')
-          .select('*')
-          .eq('payroll_id', payrollData.id);
-
-        if (adjData) {
-          setAdjustments(adjData.map(a => ({
-            id: a.id,
-            name: a.name,
-            amount: Number(a.amount),
-            type: a.adjustment_type as 'addition' | 'deduction',
-          })));
-        }
-      } else {
-        // Calculate from attendance
-        const startOfMonth = `${year}-${String(month).padStart(2, '0')}-01`;
-        const endOfMonth = new Date(year, month, 0).toISOString().split('T')[0];
-
-        const { data: attendanceRecords } = await supabase
-          .from('attendance_sessions')
-          .select('*')
-          .eq('user_id', employee.user_id)
-          .gte('sign_in_time', startOfMonth)
-          .lte('sign_in_time', endOfMonth + 'T23:59:59');
-
-        const presentDays = attendanceRecords?.filter(a => a.status === 'present').length || 0;
-        const halfDays = attendanceRecords?.filter(a => a.status === 'half_day').length || 0;
-        const lateDays = attendanceRecords?.filter(a => a.status === 'late').length || 0;
-
-        // Fetch approved leaves
-        const { data: leaveRecords } = await supabase
-          .from('leave_requests')
-          .select('*')
-          .eq('user_id', employee.user_id)
-          .eq('status', 'approved')
-          .gte('start_date', startOfMonth)
-          .lte('end_date', endOfMonth);
-
-        let paidLeaveDays = 0;
-        let unpaidLeaveDays = 0;
-
-        leaveRecords?.forEach(leave => {
-          const start = new Date(Math.max(new Date(leave.start_date).getTime(), new Date(startOfMonth).getTime()));
-          const end = new Date(Math.min(new Date(leave.end_date).getTime(), new Date(endOfMonth).getTime()));
-          const days = Math.ceil((end.getTime() - start.getTime()) / (1000 * 60 * 60 * 24)) + 1;
-          
-          if (leave.leave_type === 'unpaid') {
-            unpaidLeaveDays += days;
-          } else {
-            paidLeaveDays += days;
-          }
-        });
+      const payrollData = await payrollService.getRunPayrollForUser(run.id, employee.user_id);
+      setExistingPayroll(payrollData);
 
-        // Calculate working days in month (weekdays)
-        const workingDays = getWorkingDaysInMonth(year, month);
+      const savedAdjustments = payrollData
+        ? await payrollService.getPayrollAdjustments(payrollData.id)
+        : [];
+      setAdjustments(savedAdjustments);
 
-        setAttendanceData({
-          workingDays,
-          presentDays: presentDays + lateDays + (halfDays * 0.5),
-          halfDays,
-          paidLeaveDays,
-          unpaidLeaveDays,
-        });
-        setAdjustments([]);
-      }
+      // Attendance, leave and config are always re-read so edits reflect current data
+      setBasePayslip(await payrollService.calculatePayroll(employee, month, year));
     } catch (error) {
       console.error('Error fetching data:', error);
+      toast.error(mapDatabaseError(error));
     } finally {
       setCalculating(false);
     }
   };
 
-  const getWorkingDaysInMonth = (year: number, month: number) => {
-    const daysInMonth = new Date(year, month, 0).getDate();
-    let workingDays = 0;
-    for (let day = 1; day <= daysInMonth; day++) {
-      const date = new Date(year, month - 1, day);
-      const dayOfWeek = date.getDay();
-      if (dayOfWeek !== 0 && dayOfWeek !== 6) {
-        workingDays++;
-      }
-    }
-    return workingDays;
-  };
-
   const addAdjustment = () => {
     if (!newAdjustment.name.trim()) {
       toast.error('Please enter adjustment name');
@@ -204,83 +81,22 @@ export function ProcessPayrollDialog({
     setAdjustments(prev => prev.filter((_, i) => i !== index));
   };
 
-  // Calculate salary
-  const perDaySalary = baseSalary / attendanceData.workingDays || 0;
-  const effectiveDays = attendanceData.presentDays + attendanceData.paidLeaveDays;
-  const grossSalary = perDaySalary * effectiveDays;
-  
-  const pfDeduction = config?.pf_enabled ? (grossSalary * (config.pf_percentage / 100)) : 0;
-  const esicDeduction = config?.esic_enabled ? (grossSalary * (config.esic_percentage / 100)) : 0;
-  const ptDeduction = config?.pt_enabled ? (config.pt_amount || 0) : 0;
-  
-  const totalAdditions = adjustments.filter(a => a.type === 'addition').reduce((sum, a) => sum + a.amount, 0);
-  const totalCustomDeductions = adjustments.filter(a => a.type === 'deduction').reduce((sum, a) => sum + a.amount, 0);
-  const totalDeductions = pfDeduction + esicDeduction + ptDeduction + totalCustomDeductions;
-  
-  const netSalary = grossSalary + totalAdditions - totalDeductions;
+  // Re-run the engine locally so adjustments update the totals instantly
+  const payslip = useMemo(
+    () => (basePayslip ? applyAdjustments(basePayslip, adjustments) : null),
+    [basePayslip, adjustments]
+  );
+
+  const statutoryLines = payslip?.lines.filter(l => !l.manual && l.category === 'deduction') || [];
+  // Salary structure components; a lump-sum payslip only has the single gross line
+  const earningLines = payslip?.lines.filter(l => !l.manual && l.category === 'earning' && l.code !== 'gross') || [];
 
   const handleProcess = async () => {
+    if (!payslip) return;
+
     setLoading(true);
     try {
-      const payrollData = {
-        user_id: employee.user_id,
-        month,
-        year,
-        working_days: attendanceData.workingDays,
-        present_days: attendanceData.presentDays,
-        paid_leave_days: attendanceData.paidLeaveDays,
-        unpaid_leave_days: attendanceData.unpaidLeaveDays,
-        base_salary: baseSalary,
-        gross_salary: Math.round(grossSalary),
-        pf_amount: Math.round(pfDeduction),
-        esic_amount: Math.round(esicDeduction),
-        total_additions: Math.round(totalAdditions),
-        total_deductions: Math.round(totalDeductions),
-        deductions: Math.round(totalDeductions),
-        net_salary: Math.round(netSalary),
-        status: 'processed',
-        processed_at: new Date().toISOString(),
-      };
-
-      let payrollId: string;
-
-      if (existingPayroll) {
-        const { error } = await supabase
-          .from('payroll')
-          .update(payrollData)
-          .eq('id', existingPayroll.id);
-        if (error) throw error;
-        payrollId = existingPayroll.id;
-
-        // Delete existing adjustments
-        await supabase.from('payroll_adjustments').delete().eq('payroll_id', payrollId);
-      } else {
-        const { data, error } = await supabase
-          .from('payroll')
-          .insert([payrollData])
-          .select()
-          .single();
-        if (error) throw error;
-        payrollId = data.id;
-      }
-
-      // Insert new adjustments (including PT if enabled)
-      const allAdjustments = [...adjustments];
-      if (config?.pt_enabled && ptDeduction > 0) {
-        allAdjustments.push({ name: 'Professional Tax', amount: ptDeduction, type: 'deduction' });
-      }
-
-      if (allAdjustments.length > 0) {
-        const { error: adjError } = await supabase.from('payroll_adjustments').insert(
-          allAdjustments.map(adj => ({
-            payroll_id: payrollId,
-            adjustment_type: adj.type,
-            name: adj.name,
-            amount: adj.amount,
-          }))
-        );
-        if (adjError) throw adjError;
-      }
+      await payrollService.savePayslip(payslip, run, existingPayroll?.id);
 
       toast.success(`Payroll processed for ${employee.first_name} ${employee.last_name}`);
       onSuccess();
@@ -302,7 +118,7 @@ export function ProcessPayrollDialog({
           </DialogTitle>
         </DialogHeader>
 
-        {calculating ? (
+        {calculating || !payslip ? (
           <div className="py-8 text-center text-muted-foreground">
             <div className="animate-spin h-8 w-8 border-4 border-primary border-t-transparent rounded-full mx-auto mb-3" />
             <p>Calculating payroll...</p>
@@ -315,19 +131,19 @@ export function ProcessPayrollDialog({
               <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 mt-2">
                 <div className="p-3 rounded-xl bg-accent/50 text-center border border-border">
                   <p className="text-xs text-muted-foreground">Working Days</p>
-                  <p className="text-xl font-bold">{attendanceData.workingDays}</p>
+                  <p className="text-xl font-bold">{payslip.workingDays}</p>
                 </div>
                 <div className="p-3 rounded-xl bg-green-500/10 text-center border border-green-500/20">
                   <p className="text-xs text-muted-foreground">Present</p>
-                  <p className="text-xl font-bold text-green-700">{attendanceData.presentDays}</p>
+                  <p className="text-xl font-bold text-green-700">{payslip.presentDays}</p>
                 </div>
                 <div className="p-3 rounded-xl bg-primary/10 text-center border border-primary/20">
                   <p className="text-xs text-muted-foreground">Paid Leave</p>
-                  <p className="text-xl font-bold text-primary">{attendanceData.paidLeaveDays}</p>
+                  <p className="text-xl font-bold text-primary">{payslip.paidLeaveDays}</p>
                 </div>
                 <div className="p-3 rounded-xl bg-destructive/10 text-center border border-destructive/20">
                   <p className="text-xs text-muted-foreground">Unpaid Leave</p>
-                  <p className="text-xl font-bold text-destructive">{attendanceData.unpaidLeaveDays}</p>
+                  <p className="text-xl font-bold text-destructive">{payslip.unpaidLeaveDays}</p>
                 </div>
               </div>
             </div>
@@ -340,48 +156,42 @@ export function ProcessPayrollDialog({
               <div className="space-y-2 text-sm">
                 <div className="flex justify-between">
                   <span className="text-muted-foreground">Base Salary</span>
-                  <span>₹{baseSalary.toLocaleString()}</span>
+                  <span>₹{payslip.baseSalary.toLocaleString()}</span>
                 </div>
                 <div className="flex justify-between">
                   <span className="text-muted-foreground">Per Day Rate</span>
-                  <span>₹{Math.round(perDaySalary).toLocaleString()}</span>
+                  <span>₹{Math.round(payslip.perDaySalary).toLocaleString()}</span>
                 </div>
                 <div className="flex justify-between">
-                  <span className="text-muted-foreground">Effective Days ({attendanceData.presentDays} + {attendanceData.paidLeaveDays})</span>
-                  <span>{effectiveDays}</span>
+                  <span className="text-muted-foreground">Effective Days ({payslip.presentDays} + {payslip.paidLeaveDays})</span>
+                  <span>{payslip.effectiveDays}</span>
                 </div>
+                {earningLines.map(line => (
+                  <div key={line.code} className="flex justify-between">
+                    <span className="text-muted-foreground">{line.name}{line.pfWage ? ' (PF wage)' : ''}</span>
+                    <span>₹{line.amount.toLocaleString()}</span>
+                  </div>
+                ))}
                 <div className="flex justify-between font-medium border-t pt-2">
                   <span>Gross Salary</span>
-                  <span>₹{Math.round(grossSalary).toLocaleString()}</span>
+                  <span>₹{payslip.grossSalary.toLocaleString()}</span>
                 </div>
               </div>
             </div>
 
             {/* Statutory Deductions */}
-            {(config?.pf_enabled || config?.esic_enabled || config?.pt_enabled) && (
+            {statutoryLines.length > 0 && (
               <>
                 <Separator />
                 <div className="space-y-2">
                   <Label className="text-sm font-medium">Statutory Deductions</Label>
                   <div className="space-y-2 text-sm">
-                    {config?.pf_enabled && (
-                      <div className="flex justify-between text-destructive">
-                        <span>PF ({config.pf_percentage}%)</span>
-                        <span>- ₹{Math.round(pfDeduction).toLocaleString()}</span>
-                      </div>
-                    )}
-                    {config?.esic_enabled && (
-                      <div className="flex justify-between text-destructive">
-                        <span>ESIC ({config.esic_percentage}%)</span>
-                        <span>- ₹{Math.round(esicDeduction).toLocaleString()}</span>
-                      </div>
-                    )}
-                    {config?.pt_enabled && (
-                      <div className="flex justify-between text-destructive">
-                        <span>Professional Tax (PT)</span>
-                        <span>- ₹{Math.round(ptDeduction).toLocaleString()}</span>
+                    {statutoryLines.map(line => (
+                      <div key={line.code} className="flex justify-between text-destructive">
+                        <span>{line.name}</span>
+                        <span>- ₹{line.amount.toLocaleString()}</span>
                       </div>
-                    )}
+                    ))}
                   </div>
                 </div>
               </>
@@ -456,21 +266,21 @@ export function ProcessPayrollDialog({
             <div className="p-4 rounded-xl bg-gradient-to-r from-primary/5 to-primary/10 border border-primary/20 space-y-2">
               <div className="flex justify-between text-sm">
                 <span>Gross Salary</span>
-                <span>₹{Math.round(grossSalary).toLocaleString()}</span>
+                <span>₹{payslip.grossSalary.toLocaleString()}</span>
               </div>
-              {totalAdditions > 0 && (
+              {payslip.totalAdditions > 0 && (
                 <div className="flex justify-between text-sm text-green-600">
                   <span>Total Additions</span>
-                  <span>+ ₹{totalAdditions.toLocaleString()}</span>
+                  <span>+ ₹{payslip.totalAdditions.toLocaleString()}</span>
                 </div>
               )}
               <div className="flex justify-between text-sm text-destructive">
                 <span>Total Deductions</span>
-                <span>- ₹{Math.round(totalDeductions).toLocaleString()}</span>
+                <span>- ₹{Math.round(payslip.totalDeductions).toLocaleString()}</span>
               </div>
               <div className="flex justify-between text-xl font-bold border-t border-primary/20 pt-3 mt-2">
                 <span>Net Salary</span>
-                <span className="text-green-600">₹{Math.round(netSalary).toLocaleString()}</span>
+                <span className="text-green-600">₹{Math.round(payslip.netSalary).toLocaleString()}</span>
               </div>
             </div>
 
@@ -478,7 +288,7 @@ export function ProcessPayrollDialog({
               <Button variant="outline" onClick={() => onOpenChange(false)}>
                 Cancel
               </Button>
-              <Button onClick={handleProcess} disabled={loading}>
+              <Button onClick={handleProcess} disabled={loading || !editable}>
                 {loading ? 'Processing...' : existingPayroll ? 'Update Payroll' : 'Process Payroll'}
               </Button>
             </div>
@@ -0,0 +1,131 @@
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Separator } from '@/components/ui/separator';
+import { AlertCircle, Download, Landmark } from 'lucide-react';
+import { toast } from 'sonner';
+import { StatutoryScheme } from '@/lib/statutoryReturns';
+import { useExportStatutoryReturn, useStatutoryReturns } from '@/hooks/useStatutoryReturns';
+import { mapDatabaseError } from '@/utils/errorMapper';
+
+const MONTHS = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+interface StatutoryReturnsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  companyId: string;
+  month: number;
+  year: number;
+}
+
+const formatAmount = (amount: number) => `₹${Math.round(amount).toLocaleString('en-IN')}`;
+
+export function StatutoryReturnsDialog({ open, onOpenChange, companyId, month, year }: StatutoryReturnsDialogProps) {
+  const { data, isLoading } = useStatutoryReturns(companyId, month, year, open);
+  const exportReturn = useExportStatutoryReturn(companyId);
+
+  const handleExport = async (scheme: StatutoryScheme) => {
+    try {
+      await exportReturn.mutateAsync({ month, year, scheme });
+      toast.success(scheme === 'pf' ? 'ECR file downloaded' : 'ESIC contribution file downloaded');
+    } catch (error) {
+      toast.error(mapDatabaseError(error));
+    }
+  };
+
+  const summary = data?.summary;
+  const pfIssues = data?.issues.filter(i => i.scheme === 'pf') || [];
+  const esicIssues = data?.issues.filter(i => i.scheme === 'esic') || [];
+
+  const rows = (items: [string, number][]) => items.map(([label, amount]) => (
+    <div key={label} className="flex justify-between">
+      <span className="text-muted-foreground">{label}</span>
+      <span>{formatAmount(amount)}</span>
+    </div>
+  ));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Landmark className="h-5 w-5 text-primary" />
+            Statutory Returns - {MONTHS[month - 1]} {year}
+          </DialogTitle>
+          <DialogDescription>
+            Built from approved payroll runs of the month. Reversals and off-cycle runs are netted per employee.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !summary ? (
+          <p className="text-center text-muted-foreground py-6">Loading contributions...</p>
+        ) : (
+          <div className="space-y-5 text-sm">
+            <div className="space-y-2">
+              <p className="font-medium">Provident Fund ({summary.pfMembers} member{summary.pfMembers === 1 ? '' : 's'})</p>
+              {rows([
+                ['PF wages', summary.pfWages],
+                ['Employee PF', summary.employeePf],
+                ['Employer EPS (pension)', summary.employerEps],
+                ['Employer EPF', summary.employerEpf],
+              ])}
+              <div className="flex justify-between font-medium border-t pt-2">
+                <span>Total PF remittance</span>
+                <span>{formatAmount(summary.employeePf + summary.employerEps + summary.employerEpf)}</span>
+              </div>
+              {pfIssues.map((issue, index) => (
+                <p key={index} className="flex items-start gap-2 text-destructive">
+                  <AlertCircle className="h-4 w-4 mt-0.5 shrink-0" />
+                  <span><span className="font-medium">{issue.employeeName}:</span> {issue.message}</span>
+                </p>
+              ))}
+              <div className="flex justify-end">
+                <Button
+                  variant="outline"
+                  onClick={() => handleExport('pf')}
+                  disabled={exportReturn.isPending || summary.pfMembers === 0 || pfIssues.length > 0}
+                >
+                  <Download className="h-4 w-4 mr-2" />
+                  Download ECR
+                </Button>
+              </div>
+            </div>
+
+            <Separator />
+
+            <div className="space-y-2">
+              <p className="font-medium">ESIC ({summary.esicMembers} member{summary.esicMembers === 1 ? '' : 's'})</p>
+              {rows([
+                ['ESIC wages', summary.esicWages],
+                ['Employee ESIC', summary.employeeEsic],
+                ['Employer ESIC', summary.employerEsic],
+              ])}
+              <div className="flex justify-between font-medium border-t pt-2">
+                <span>Total ESIC remittance</span>
+                <span>{formatAmount(summary.employeeEsic + summary.employerEsic)}</span>
+              </div>
+              {esicIssues.map((issue, index) => (
+                <p key={index} className="flex items-start gap-2 text-destructive">
+                  <AlertCircle className="h-4 w-4 mt-0.5 shrink-0" />
+                  <span><span className="font-medium">{issue.employeeName}:</span> {issue.message}</span>
+                </p>
+              ))}
+              <div className="flex justify-end">
+                <Button
+                  variant="outline"
+                  onClick={() => handleExport('esic')}
+                  disabled={exportReturn.isPending || summary.esicMembers === 0 || esicIssues.length > 0}
+                >
+                  <Download className="h-4 w-4 mr-2" />
+                  Download ESIC File
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,191 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Receipt, Save } from 'lucide-react';
+import { toast } from 'sonner';
+import { useCompanySettings } from '@/hooks/useSettings';
+import { useSaveTaxDeclaration, useTaxDeclaration, useTaxSlabConfigs } from '@/hooks/useTax';
+import { TaxDeclarationInput } from '@/services/taxService';
+import { Profile, TaxRegime } from '@/types/hrms';
+import {
+  calculateAnnualTax,
+  calculateTaxableIncome,
+  DEFAULT_FINANCIAL_YEAR_START,
+  getFinancialYear,
+  SECTION_80C_LIMIT,
+  SECTION_80D_LIMIT,
+  selectTaxSlabConfig,
+} from '@/lib/taxEngine';
+import { mapDatabaseError } from '@/utils/errorMapper';
+
+interface TaxDeclarationCardProps {
+  profile: Pick<Profile, 'user_id' | 'company_id' | 'monthly_salary'>;
+}
+
+const emptyDeclaration: TaxDeclarationInput = {
+  regime: 'new',
+  section_80c: 0,
+  section_80d: 0,
+  hra_rent_paid: 0,
+  metro_city: false,
+};
+
+export function TaxDeclarationCard({ profile }: TaxDeclarationCardProps) {
+  const { data: settings } = useCompanySettings(profile.company_id);
+  const now = new Date();
+  const financialYear = getFinancialYear(
+    now.getMonth() + 1,
+    now.getFullYear(),
+    settings?.financial_year_start || DEFAULT_FINANCIAL_YEAR_START
+  );
+
+  const { data: declaration, isLoading } = useTaxDeclaration(profile.user_id, financialYear.label);
+  const { data: slabConfigs = [] } = useTaxSlabConfigs();
+  const saveDeclaration = useSaveTaxDeclaration(profile.user_id, profile.company_id, financialYear.label);
+  const [form, setForm] = useState<TaxDeclarationInput>(emptyDeclaration);
+
+  useEffect(() => {
+    if (declaration) {
+      setForm({
+        regime: declaration.regime,
+        section_80c: Number(declaration.section_80c),
+        section_80d: Number(declaration.section_80d),
+        hra_rent_paid: Number(declaration.hra_rent_paid),
+        metro_city: declaration.metro_city,
+      });
+    }
+  }, [declaration]);
+
+  // Rough comparison on annualised CTC so employees can pick a regime
+  const estimates = useMemo(() => {
+    const annualSalary = Number(profile.monthly_salary || 0) * 12;
+    return (['old', 'new'] as TaxRegime[]).map(regime => {
+      const config = selectTaxSlabConfig(slabConfigs, financialYear.label, regime);
+      if (!config) return { regime, tax: null };
+      const taxable = calculateTaxableIncome(
+        { gross: annualSalary, basic: 0, hra: 0, providentFund: 0, professionalTax: 0 },
+        config,
+        form
+      );
+      return { regime, tax: calculateAnnualTax(taxable, config) };
+    });
+  }, [profile.monthly_salary, slabConfigs, financialYear.label, form]);
+
+  const handleSave = async () => {
+    if (form.section_80c < 0 || form.section_80d < 0 || form.hra_rent_paid < 0) {
+      toast.error('Declared amounts cannot be negative');
+      return;
+    }
+    try {
+      await saveDeclaration.mutateAsync(form);
+      toast.success('Tax declaration saved');
+    } catch (error) {
+      toast.error(mapDatabaseError(error));
+    }
+  };
+
+  const isOldRegime = form.regime === 'old';
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Receipt className="h-5 w-5" />
+          Tax Declaration (FY {financialYear.label})
+        </CardTitle>
+        <CardDescription>
+          Used to calculate the income tax (TDS) withheld from your monthly salary.
+          Deductions below only apply under the old regime.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <p className="text-muted-foreground text-center py-4">Loading...</p>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label>Tax Regime</Label>
+                <Select
+                  value={form.regime}
+                  onValueChange={(v) => setForm({ ...form, regime: v as TaxRegime })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="new">New regime</SelectItem>
+                    <SelectItem value="old">Old regime</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>80C Investments (max ₹{SECTION_80C_LIMIT.toLocaleString()})</Label>
+                <Input
+                  type="number"
+                  value={form.section_80c || ''}
+                  disabled={!isOldRegime}
+                  onChange={(e) => setForm({ ...form, section_80c: parseFloat(e.target.value) || 0 })}
+                  placeholder="PPF, ELSS, LIC, tuition fees"
+                />
+              </div>
+              <div>
+                <Label>80D Health Insurance (max ₹{SECTION_80D_LIMIT.toLocaleString()})</Label>
+                <Input
+                  type="number"
+                  value={form.section_80d || ''}
+                  disabled={!isOldRegime}
+                  onChange={(e) => setForm({ ...form, section_80d: parseFloat(e.target.value) || 0 })}
+                  placeholder="Medical insurance premium"
+                />
+              </div>
+              <div>
+                <Label>Annual Rent Paid (HRA)</Label>
+                <Input
+                  type="number"
+                  value={form.hra_rent_paid || ''}
+                  disabled={!isOldRegime}
+                  onChange={(e) => setForm({ ...form, hra_rent_paid: parseFloat(e.target.value) || 0 })}
+                  placeholder="Total rent for the year"
+                />
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch
+                checked={form.metro_city}
+                disabled={!isOldRegime}
+                onCheckedChange={(checked) => setForm({ ...form, metro_city: checked })}
+              />
+              <Label className="text-sm">I live in a metro city (Delhi, Mumbai, Kolkata, Chennai)</Label>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              {estimates.map(({ regime, tax }) => (
+                <div
+                  key={regime}
+                  className={`p-3 rounded-xl border text-center ${regime === form.regime ? 'border-primary bg-primary/5' : 'border-border'}`}
+                >
+                  <p className="text-xs text-muted-foreground capitalize">{regime} regime (estimate)</p>
+                  <p className="text-lg font-bold">
+                    {tax === null ? 'N/A' : `₹${tax.toLocaleString()}/yr`}
+                  </p>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex justify-end">
+              <Button onClick={handleSave} disabled={saveDeclaration.isPending}>
+                <Save className="h-4 w-4 mr-2" />
+                {saveDeclaration.isPending ? 'Saving...' : 'Save Declaration'}
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,177 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { RefreshCw, Save, Timer } from 'lucide-react';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import { useCompany } from '@/contexts/CompanyContext';
+import { useAttendanceRules, useCloseOutAttendance, useLatestDayClosure, useUpdateAttendanceRules } from '@/hooks/useAttendance';
+import { useCompanySettings, useUpdateCompanySettings } from '@/hooks/useSettings';
+import { DEFAULT_ATTENDANCE_RULES } from '@/lib/attendanceRules';
+import { DEFAULT_TIME_ZONE, getTimeZoneOptions, isValidTimeZone } from '@/lib/timezone';
+import { AttendanceRules } from '@/types/hrms';
+import { mapDatabaseError } from '@/utils/errorMapper';
+
+export function AttendanceRulesSettings() {
+  const { company } = useCompany();
+  const companyId = company?.id || '';
+  const { data: rules, isLoading } = useAttendanceRules(company?.id || null);
+  const { data: settings } = useCompanySettings(company?.id || null);
+  const updateRules = useUpdateAttendanceRules(companyId);
+  const updateSettings = useUpdateCompanySettings(companyId);
+  const closeOut = useCloseOutAttendance(companyId);
+  const { data: lastClosure } = useLatestDayClosure(company?.id || null);
+  const [draft, setDraft] = useState<AttendanceRules>(DEFAULT_ATTENDANCE_RULES);
+  const [officeHours, setOfficeHours] = useState({ start: '09:00', end: '18:00' });
+  const [timeZone, setTimeZone] = useState(DEFAULT_TIME_ZONE);
+  const timeZoneOptions = useMemo(() => {
+    const options = getTimeZoneOptions();
+    return options.includes(timeZone) ? options : [timeZone, ...options];
+  }, [timeZone]);
+
+  useEffect(() => {
+    if (rules) setDraft(rules);
+  }, [rules]);
+
+  useEffect(() => {
+    if (!settings) return;
+    setOfficeHours({ start: settings.office_hours_start, end: settings.office_hours_end });
+    setTimeZone(settings.timezone || DEFAULT_TIME_ZONE);
+  }, [settings]);
+
+  const handleSave = async () => {
+    if (draft.grace_minutes < 0 || draft.overtime_after_minutes < 0 || draft.half_day_below_hours < 0) {
+      toast.error('Attendance thresholds cannot be negative');
+      return;
+    }
+    if (!officeHours.start || !officeHours.end || officeHours.start === officeHours.end) {
+      toast.error('Office hours must start and end at different times');
+      return;
+    }
+    if (!isValidTimeZone(timeZone)) {
+      toast.error(`${timeZone} is not a recognised timezone`);
+      return;
+    }
+    try {
+      await updateRules.mutateAsync(draft);
+      await updateSettings.mutateAsync({
+        office_hours_start: officeHours.start,
+        office_hours_end: officeHours.end,
+        timezone: timeZone,
+      });
+      toast.success('Attendance rules saved');
+    } catch (error) {
+      toast.error(mapDatabaseError(error));
+    }
+  };
+
+  const handleCloseOut = async () => {
+    try {
+      const count = await closeOut.mutateAsync();
+      toast.success(count > 0 ? `${count} session(s) evaluated` : 'No sessions waiting for evaluation');
+    } catch (error) {
+      toast.error(mapDatabaseError(error));
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Timer className="h-5 w-5 text-primary" />
+          Attendance Rules
+        </CardTitle>
+        <CardDescription>
+          Sessions are marked late, half day or overtime against the employee's rostered shift,
+          or these office hours without one. Days run midnight to midnight in the company's timezone,
+          or in an employee's own when set on their profile. Each night, sessions left open are signed
+          out at the shift's end and employees with no punch on a working day are marked absent, or on leave.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <p className="text-muted-foreground text-center py-4">Loading...</p>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="space-y-1 sm:col-span-2">
+                <Label>Timezone</Label>
+                <Select value={timeZone} onValueChange={setTimeZone}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {timeZoneOptions.map(zone => (
+                      <SelectItem key={zone} value={zone}>{zone}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Office hours start</Label>
+                <Input
+                  type="time"
+                  value={officeHours.start}
+                  onChange={(e) => setOfficeHours(prev => ({ ...prev, start: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>Office hours end</Label>
+                <Input
+                  type="time"
+                  value={officeHours.end}
+                  onChange={(e) => setOfficeHours(prev => ({ ...prev, end: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>Late after (minutes past shift start)</Label>
+                <Input
+                  type="number"
+                  value={draft.grace_minutes}
+                  onChange={(e) => setDraft(prev => ({ ...prev, grace_minutes: parseInt(e.target.value) || 0 }))}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>Half day below (hours worked)</Label>
+                <Input
+                  type="number"
+                  step="0.5"
+                  value={draft.half_day_below_hours}
+                  onChange={(e) => setDraft(prev => ({ ...prev, half_day_below_hours: parseFloat(e.target.value) || 0 }))}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>Overtime from (minutes past shift length)</Label>
+                <Input
+                  type="number"
+                  value={draft.overtime_after_minutes}
+                  onChange={(e) => setDraft(prev => ({ ...prev, overtime_after_minutes: parseInt(e.target.value) || 0 }))}
+                />
+              </div>
+            </div>
+
+            <div className="flex items-center justify-end gap-2">
+              {lastClosure && (
+                <p className="text-xs text-muted-foreground mr-auto">
+                  Last closed {format(new Date(`${lastClosure.work_date}T00:00:00`), 'MMM d, yyyy')}:{' '}
+                  {lastClosure.absent_count} absent, {lastClosure.on_leave_count} on leave
+                </p>
+              )}
+              <Button variant="outline" onClick={handleCloseOut} disabled={closeOut.isPending || !companyId}>
+                <RefreshCw className="h-4 w-4 mr-1" />
+                Close Out Past Days
+              </Button>
+              <Button onClick={handleSave} disabled={updateRules.isPending || updateSettings.isPending}>
+                <Save className="h-4 w-4 mr-1" />
+                Save
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,75 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { CalendarPlus, Save } from 'lucide-react';
+import { toast } from 'sonner';
+import { useCompany } from '@/contexts/CompanyContext';
+import { useCompOffConfig, useUpdateCompOffConfig } from '@/hooks/useCompOff';
+import { DEFAULT_COMP_OFF_CONFIG } from '@/lib/compOff';
+import { CompOffConfig } from '@/types/hrms';
+import { mapDatabaseError } from '@/utils/errorMapper';
+
+export function CompOffSettings() {
+  const { company } = useCompany();
+  const companyId = company?.id || '';
+  const { data: config, isLoading } = useCompOffConfig(company?.id || null);
+  const updateConfig = useUpdateCompOffConfig(companyId);
+  const [draft, setDraft] = useState<CompOffConfig>(DEFAULT_COMP_OFF_CONFIG);
+
+  useEffect(() => {
+    if (config) setDraft(config);
+  }, [config]);
+
+  const handleSave = async () => {
+    if (draft.expiry_days <= 0) {
+      toast.error('Comp-off must stay usable for at least one day');
+      return;
+    }
+    try {
+      await updateConfig.mutateAsync(draft);
+      toast.success('Comp-off settings saved');
+    } catch (error) {
+      toast.error(mapDatabaseError(error));
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarPlus className="h-5 w-5 text-primary" />
+          Compensatory Off
+        </CardTitle>
+        <CardDescription>
+          Signing in on a holiday or weekly off earns a comp-off once the manager approves it.
+          Changes apply to credits approved from now on.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <p className="text-muted-foreground text-center py-4">Loading...</p>
+        ) : (
+          <>
+            <div className="space-y-1 max-w-xs">
+              <Label>Expires after (days from the day worked)</Label>
+              <Input
+                type="number"
+                value={draft.expiry_days}
+                onChange={(e) => setDraft(prev => ({ ...prev, expiry_days: parseInt(e.target.value) || 0 }))}
+              />
+            </div>
+
+            <div className="flex justify-end">
+              <Button onClick={handleSave} disabled={updateConfig.isPending}>
+                <Save className="h-4 w-4 mr-1" />
+                Save
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,266 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Crosshair, MapPin, Pencil, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { useCompany } from '@/contexts/CompanyContext';
+import { useCompanySettings, useUpdateCompanySettings } from '@/hooks/useSettings';
+import { useDeleteOfficeLocation, useOfficeLocations, useSaveOfficeLocation } from '@/hooks/useGeofence';
+import { formatDistance, GEOFENCE_POLICY_LABELS, getCurrentPosition } from '@/lib/geofence';
+import { GeofencePolicy, OfficeLocation } from '@/types/hrms';
+import { mapDatabaseError } from '@/utils/errorMapper';
+
+interface OfficeDraft {
+  id?: string;
+  name: string;
+  latitude: string;
+  longitude: string;
+  radius: string;
+}
+
+const EMPTY_DRAFT: OfficeDraft = { name: '', latitude: '', longitude: '', radius: '' };
+
+export function GeofenceSettings() {
+  const { company } = useCompany();
+  const companyId = company?.id || '';
+  const { data: settings } = useCompanySettings(company?.id || null);
+  const { data: offices = [], isLoading } = useOfficeLocations(company?.id || null);
+  const updateSettings = useUpdateCompanySettings(companyId);
+  const saveOffice = useSaveOfficeLocation();
+  const deleteOffice = useDeleteOfficeLocation(companyId);
+  const defaultRadius = settings?.geofence_radius || 500;
+  const [draft, setDraft] = useState<OfficeDraft>(EMPTY_DRAFT);
+  const [locating, setLocating] = useState(false);
+
+  const handleSettingChange = async (updates: { geofencing_enabled?: boolean; geofence_policy?: GeofencePolicy; geofence_radius?: number }) => {
+    try {
+      await updateSettings.mutateAsync(updates);
+      toast.success('Geofencing settings saved');
+    } catch (error) {
+      toast.error(mapDatabaseError(error));
+    }
+  };
+
+  const handleUseMyLocation = async () => {
+    setLocating(true);
+    const position = await getCurrentPosition();
+    setLocating(false);
+    if (!position) {
+      toast.error('Could not read your location. Allow location access or enter the coordinates.');
+      return;
+    }
+    setDraft(prev => ({ ...prev, latitude: position.lat.toFixed(6), longitude: position.lng.toFixed(6) }));
+  };
+
+  const handleEdit = (office: OfficeLocation) => {
+    setDraft({
+      id: office.id,
+      name: office.name,
+      latitude: String(office.latitude),
+      longitude: String(office.longitude),
+      radius: String(office.radius_meters),
+    });
+  };
+
+  const handleSave = async () => {
+    const latitude = parseFloat(draft.latitude);
+    const longitude = parseFloat(draft.longitude);
+    const radius = draft.radius.trim() ? parseInt(draft.radius) : defaultRadius;
+    if (!draft.name.trim() || Number.isNaN(latitude) || Number.isNaN(longitude)) {
+      toast.error('Enter the office name and its coordinates');
+      return;
+    }
+    if (!Number.isInteger(radius) || radius <= 0) {
+      toast.error('The radius must be a whole number of metres above zero');
+      return;
+    }
+
+    try {
+      await saveOffice.mutateAsync({
+        id: draft.id,
+        company_id: companyId,
+        name: draft.name,
+        latitude,
+        longitude,
+        radius_meters: radius,
+        is_active: true,
+      });
+      toast.success(draft.id ? 'Office updated' : 'Office added');
+      setDraft(EMPTY_DRAFT);
+    } catch (error) {
+      toast.error(mapDatabaseError(error));
+    }
+  };
+
+  const handleToggleActive = async (office: OfficeLocation, isActive: boolean) => {
+    try {
+      await saveOffice.mutateAsync({
+        id: office.id,
+        company_id: office.company_id,
+        name: office.name,
+        latitude: office.latitude,
+        longitude: office.longitude,
+        radius_meters: office.radius_meters,
+        is_active: isActive,
+      });
+    } catch (error) {
+      toast.error(mapDatabaseError(error));
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteOffice.mutateAsync(id);
+      toast.success('Office removed');
+      if (draft.id === id) setDraft(EMPTY_DRAFT);
+    } catch (error) {
+      toast.error(mapDatabaseError(error));
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MapPin className="h-5 w-5 text-primary" />
+          Geofencing
+        </CardTitle>
+        <CardDescription>
+          Check sign-ins and sign-outs against your office locations. Punches outside every office are
+          refused or flagged for an admin to review, depending on the policy below.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <div className="flex items-center justify-between gap-3 p-3 rounded-lg border border-border">
+            <Label>Check punch locations</Label>
+            <Switch
+              checked={settings?.geofencing_enabled ?? false}
+              onCheckedChange={(checked) => handleSettingChange({ geofencing_enabled: checked })}
+              disabled={!settings || updateSettings.isPending}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label>Outside every office</Label>
+            <Select
+              value={settings?.geofence_policy || 'flag'}
+              onValueChange={(value) => handleSettingChange({ geofence_policy: value as GeofencePolicy })}
+              disabled={!settings || updateSettings.isPending}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(GEOFENCE_POLICY_LABELS) as GeofencePolicy[]).map(policy => (
+                  <SelectItem key={policy} value={policy}>{GEOFENCE_POLICY_LABELS[policy]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>Default radius (metres)</Label>
+            <Input
+              type="number"
+              defaultValue={defaultRadius}
+              key={defaultRadius}
+              onBlur={(e) => {
+                const radius = parseInt(e.target.value);
+                if (Number.isInteger(radius) && radius > 0 && radius !== defaultRadius) {
+                  handleSettingChange({ geofence_radius: radius });
+                }
+              }}
+            />
+          </div>
+        </div>
+
+        {isLoading ? (
+          <p className="text-muted-foreground text-center py-4">Loading...</p>
+        ) : offices.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-2">
+            No offices yet. Punches are not checked until at least one is added.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {offices.map(office => (
+              <div key={office.id} className="flex items-center justify-between gap-3 p-3 rounded-lg border border-border">
+                <div>
+                  <p className="font-medium text-foreground">{office.name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {office.latitude.toFixed(5)}, {office.longitude.toFixed(5)} · within {formatDistance(office.radius_meters)}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch
+                    checked={office.is_active}
+                    onCheckedChange={(checked) => handleToggleActive(office, checked)}
+                    disabled={saveOffice.isPending}
+                  />
+                  <Button variant="ghost" size="icon" onClick={() => handleEdit(office)}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => handleDelete(office.id)}
+                    disabled={deleteOffice.isPending}
+                    className="text-destructive hover:text-destructive"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="pt-4 border-t border-border space-y-3">
+          <Label className="text-sm font-medium block">{draft.id ? 'Edit Office' : 'New Office'}</Label>
+          <div className="grid grid-cols-1 sm:grid-cols-4 gap-3">
+            <Input
+              placeholder="Office name"
+              value={draft.name}
+              onChange={(e) => setDraft(prev => ({ ...prev, name: e.target.value }))}
+            />
+            <Input
+              placeholder="Latitude"
+              value={draft.latitude}
+              onChange={(e) => setDraft(prev => ({ ...prev, latitude: e.target.value }))}
+            />
+            <Input
+              placeholder="Longitude"
+              value={draft.longitude}
+              onChange={(e) => setDraft(prev => ({ ...prev, longitude: e.target.value }))}
+            />
+            <Input
+              type="number"
+              placeholder={`Radius (default ${defaultRadius} m)`}
+              value={draft.radius}
+              onChange={(e) => setDraft(prev => ({ ...prev, radius: e.target.value }))}
+            />
+          </div>
+          <div className="flex justify-between">
+            <Button variant="outline" size="sm" onClick={handleUseMyLocation} disabled={locating}>
+              <Crosshair className="h-4 w-4 mr-1" />
+              {locating ? 'Locating...' : 'Use My Location'}
+            </Button>
+            <div className="flex gap-2">
+              {draft.id && (
+                <Button variant="ghost" size="sm" onClick={() => setDraft(EMPTY_DRAFT)}>
+                  Cancel
+                </Button>
+              )}
+              <Button size="sm" onClick={handleSave} disabled={saveOffice.isPending || !companyId}>
+                <Plus className="h-4 w-4 mr-1" />
+                {draft.id ? 'Save Office' : 'Add Office'}
+              </Button>
+            </div>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
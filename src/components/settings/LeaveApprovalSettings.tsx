@@ -0,0 +1,123 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { GitPullRequestArrow, Save } from 'lucide-react';
+import { toast } from 'sonner';
+import { useCompany } from '@/contexts/CompanyContext';
+import { useLeaveApprovalConfig, useUpdateLeaveApprovalConfig } from '@/hooks/useLeaveApprovals';
+import { buildApprovalChain, DEFAULT_LEAVE_APPROVAL_CONFIG, LEAVE_APPROVER_LABELS } from '@/lib/leaveApproval';
+import { LeaveApprovalConfig } from '@/types/hrms';
+import { mapDatabaseError } from '@/utils/errorMapper';
+
+export function LeaveApprovalSettings() {
+  const { company } = useCompany();
+  const companyId = company?.id || '';
+  const { data: config, isLoading } = useLeaveApprovalConfig(company?.id || null);
+  const updateConfig = useUpdateLeaveApprovalConfig(companyId);
+  const [draft, setDraft] = useState<LeaveApprovalConfig>(DEFAULT_LEAVE_APPROVAL_CONFIG);
+
+  useEffect(() => {
+    if (config) setDraft(config);
+  }, [config]);
+
+  const chain = buildApprovalChain(draft, { days: 0, hasManager: true });
+
+  const handleSave = async () => {
+    if (draft.sla_hours <= 0) {
+      toast.error('Escalation time must be more than zero hours');
+      return;
+    }
+    try {
+      await updateConfig.mutateAsync(draft);
+      toast.success('Approval chain saved');
+    } catch (error) {
+      toast.error(mapDatabaseError(error));
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <GitPullRequestArrow className="h-5 w-5 text-primary" />
+          Leave Approvals
+        </CardTitle>
+        <CardDescription>
+          Who approves leave, in order. A step left untouched past the escalation time moves to the
+          next level. Changes apply to new requests.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <p className="text-muted-foreground text-center py-4">Loading...</p>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <div className="flex items-center justify-between p-3 rounded-lg border border-border">
+                <div>
+                  <Label>Reporting manager</Label>
+                  <p className="text-xs text-muted-foreground">Skipped for employees without one</p>
+                </div>
+                <Switch
+                  checked={draft.manager_approval}
+                  onCheckedChange={(checked) => setDraft(prev => ({ ...prev, manager_approval: checked }))}
+                />
+              </div>
+              <div className="flex items-center justify-between p-3 rounded-lg border border-border">
+                <div>
+                  <Label>HR</Label>
+                  <p className="text-xs text-muted-foreground">Any admin can approve</p>
+                </div>
+                <Switch
+                  checked={draft.hr_approval}
+                  onCheckedChange={(checked) => setDraft(prev => ({ ...prev, hr_approval: checked }))}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label>Owner approval for leave over (days)</Label>
+                <Input
+                  type="number"
+                  placeholder="Never"
+                  value={draft.owner_approval_above_days ?? ''}
+                  onChange={(e) => setDraft(prev => ({
+                    ...prev,
+                    owner_approval_above_days: e.target.value === '' ? null : Math.max(0, parseFloat(e.target.value) || 0),
+                  }))}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>Escalate after (hours)</Label>
+                <Input
+                  type="number"
+                  value={draft.sla_hours}
+                  onChange={(e) => setDraft(prev => ({ ...prev, sla_hours: parseInt(e.target.value) || 0 }))}
+                />
+              </div>
+            </div>
+
+            <p className="text-sm text-muted-foreground">
+              Approval chain:{' '}
+              <span className="text-foreground">{chain.map(r => LEAVE_APPROVER_LABELS[r]).join(' → ')}</span>
+              {draft.owner_approval_above_days !== null && (
+                <>, then the owner for leave over {draft.owner_approval_above_days} day(s)</>
+              )}
+            </p>
+
+            <div className="flex justify-end">
+              <Button onClick={handleSave} disabled={updateConfig.isPending}>
+                <Save className="h-4 w-4 mr-1" />
+                Save
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
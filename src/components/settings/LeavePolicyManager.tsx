@@ -0,0 +1,299 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { CalendarCheck, CalendarClock, Save, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { useCompany } from '@/contexts/CompanyContext';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  useCloseLeaveYear,
+  useDeleteLeavePolicy,
+  useLeavePolicies,
+  useRunLeaveAccrual,
+  useSaveLeavePolicy,
+} from '@/hooks/useLeavePolicies';
+import { useLeaveTypes } from '@/hooks/useLeaveTypes';
+import { DEFAULT_LEAVE_POLICIES, LeavePolicyInput } from '@/lib/leavePolicy';
+import { getLeaveTypeName } from '@/lib/leaveTypes';
+import { LeaveAccrualFrequency, LeaveTypeCode, LeaveYearEndAction } from '@/types/hrms';
+import { mapDatabaseError } from '@/utils/errorMapper';
+
+const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+
+const parseOptional = (value: string) => (value === '' ? null : parseFloat(value) || 0);
+
+export function LeavePolicyManager() {
+  const { company } = useCompany();
+  const { user } = useAuth();
+  const companyId = company?.id || '';
+  const { data: policies = [], isLoading } = useLeavePolicies(company?.id || null);
+  const { data: leaveTypes = [], isLoading: typesLoading } = useLeaveTypes(company?.id || null);
+  const savePolicy = useSaveLeavePolicy(companyId);
+  const deletePolicy = useDeleteLeavePolicy(companyId);
+  const runAccrual = useRunLeaveAccrual(companyId);
+  const closeYear = useCloseLeaveYear(companyId);
+
+  const now = new Date();
+  const [accrualMonth, setAccrualMonth] = useState(now.getMonth() + 1);
+  const [accrualYear, setAccrualYear] = useState(now.getFullYear());
+  const [drafts, setDrafts] = useState<Record<string, LeavePolicyInput>>({});
+  const [closeYearOpen, setCloseYearOpen] = useState(false);
+
+  // Only types that carry a balance accrue; retired types keep their policy but drop out of the list
+  const balanceTypes = leaveTypes.filter(t => t.tracks_balance && t.is_active).map(t => t.code);
+  const balanceTypesKey = balanceTypes.join(',');
+
+  useEffect(() => {
+    const next: Record<string, LeavePolicyInput> = {};
+    balanceTypesKey.split(',').filter(Boolean).forEach(leaveType => {
+      const policy = policies.find(p => p.leave_type === leaveType);
+      const source = policy || { ...DEFAULT_LEAVE_POLICIES[0], leave_type: leaveType };
+      next[leaveType] = {
+        leave_type: leaveType,
+        accrual_frequency: source.accrual_frequency,
+        accrual_days: source.accrual_days,
+        probation_months: source.probation_months,
+        max_balance: source.max_balance,
+        carry_forward_limit: source.carry_forward_limit,
+        year_end_action: source.year_end_action,
+      };
+    });
+    setDrafts(next);
+  }, [policies, balanceTypesKey]);
+
+  const updateDraft = (leaveType: LeaveTypeCode, updates: Partial<LeavePolicyInput>) => {
+    setDrafts(prev => ({ ...prev, [leaveType]: { ...prev[leaveType], ...updates } }));
+  };
+
+  const handleSave = async (leaveType: LeaveTypeCode) => {
+    const draft = drafts[leaveType];
+    if (draft.accrual_days < 0 || draft.probation_months < 0) {
+      toast.error('Accrual days and probation months cannot be negative');
+      return;
+    }
+    try {
+      await savePolicy.mutateAsync(draft);
+      toast.success(`${getLeaveTypeName(leaveTypes, leaveType)} policy saved`);
+    } catch (error) {
+      toast.error(mapDatabaseError(error));
+    }
+  };
+
+  const handleDelete = async (id: string, leaveType: LeaveTypeCode) => {
+    try {
+      await deletePolicy.mutateAsync(id);
+      toast.success(`${getLeaveTypeName(leaveTypes, leaveType)} no longer accrues`);
+    } catch (error) {
+      toast.error(mapDatabaseError(error));
+    }
+  };
+
+  const handleRunAccrual = async () => {
+    try {
+      const credits = await runAccrual.mutateAsync({ month: accrualMonth, year: accrualYear, createdBy: user?.id });
+      toast.success(credits.length > 0
+        ? `Credited leave to ${new Set(credits.map(c => c.userId)).size} employee(s)`
+        : 'Nothing to credit; accrual is up to date');
+    } catch (error) {
+      toast.error(mapDatabaseError(error));
+    }
+  };
+
+  const handleCloseYear = async () => {
+    const year = accrualYear;
+    setCloseYearOpen(false);
+    try {
+      const result = await closeYear.mutateAsync({ year, createdBy: user?.id });
+      toast.success(
+        `Leave year ${year} closed: ${result.lapsedDays} day(s) lapsed, ${result.encashedDays} day(s) encashed` +
+        (result.encashedAmount > 0 ? ` (₹${result.encashedAmount.toLocaleString('en-IN')} in January payroll)` : '')
+      );
+    } catch (error) {
+      toast.error(mapDatabaseError(error));
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarCheck className="h-5 w-5 text-primary" />
+          Leave Policies
+        </CardTitle>
+        <CardDescription>
+          How each leave type is earned and what happens to unused days when the leave year
+          (January to December) ends. Encashed days are paid in the January payroll.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading || typesLoading ? (
+          <p className="text-muted-foreground text-center py-4">Loading...</p>
+        ) : (
+          balanceTypes.filter(leaveType => drafts[leaveType]).map(leaveType => {
+            const draft = drafts[leaveType];
+            const policy = policies.find(p => p.leave_type === leaveType);
+            return (
+              <div key={leaveType} className="p-4 rounded-lg border border-border bg-accent/30 space-y-3">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-2">
+                    <Label className="text-base font-medium">{getLeaveTypeName(leaveTypes, leaveType)}</Label>
+                    {!policy && <Badge variant="secondary">Not accruing</Badge>}
+                  </div>
+                  <div className="flex gap-2">
+                    {policy && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => handleDelete(policy.id, leaveType)}
+                        disabled={deletePolicy.isPending}
+                      >
+                        <Trash2 className="h-3.5 w-3.5" />
+                      </Button>
+                    )}
+                    <Button size="sm" onClick={() => handleSave(leaveType)} disabled={savePolicy.isPending}>
+                      <Save className="h-4 w-4 mr-1" />
+                      Save
+                    </Button>
+                  </div>
+                </div>
+                <div className="grid grid-cols-2 md:grid-cols-6 gap-3">
+                  <div className="space-y-1">
+                    <Label className="text-xs">Accrual</Label>
+                    <Select
+                      value={draft.accrual_frequency}
+                      onValueChange={(value) => updateDraft(leaveType, { accrual_frequency: value as LeaveAccrualFrequency })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="monthly">Monthly</SelectItem>
+                        <SelectItem value="annual">Annual</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs">Days / {draft.accrual_frequency === 'monthly' ? 'month' : 'year'}</Label>
+                    <Input
+                      type="number"
+                      step="0.5"
+                      value={draft.accrual_days}
+                      onChange={(e) => updateDraft(leaveType, { accrual_days: parseFloat(e.target.value) || 0 })}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs">Probation (months)</Label>
+                    <Input
+                      type="number"
+                      value={draft.probation_months}
+                      onChange={(e) => updateDraft(leaveType, { probation_months: parseInt(e.target.value) || 0 })}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs">Max balance</Label>
+                    <Input
+                      type="number"
+                      placeholder="No cap"
+                      value={draft.max_balance ?? ''}
+                      onChange={(e) => updateDraft(leaveType, { max_balance: parseOptional(e.target.value) })}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs">Carry forward</Label>
+                    <Input
+                      type="number"
+                      placeholder="All"
+                      value={draft.carry_forward_limit ?? ''}
+                      onChange={(e) => updateDraft(leaveType, { carry_forward_limit: parseOptional(e.target.value) })}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs">Excess at year end</Label>
+                    <Select
+                      value={draft.year_end_action}
+                      onValueChange={(value) => updateDraft(leaveType, { year_end_action: value as LeaveYearEndAction })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="lapse">Lapses</SelectItem>
+                        <SelectItem value="encash">Encashed</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+              </div>
+            );
+          })
+        )}
+
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 pt-2">
+          <div className="flex gap-2">
+            <Select value={String(accrualMonth)} onValueChange={(value) => setAccrualMonth(parseInt(value))}>
+              <SelectTrigger className="w-[140px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {MONTHS.map((name, index) => (
+                  <SelectItem key={name} value={String(index + 1)}>{name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={String(accrualYear)} onValueChange={(value) => setAccrualYear(parseInt(value))}>
+              <SelectTrigger className="w-[100px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {[now.getFullYear() - 1, now.getFullYear(), now.getFullYear() + 1].map(year => (
+                  <SelectItem key={year} value={String(year)}>{year}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" onClick={() => setCloseYearOpen(true)} disabled={closeYear.isPending || policies.length === 0}>
+              <CalendarClock className="h-4 w-4 mr-2" />
+              Close Leave Year {accrualYear}
+            </Button>
+            <Button onClick={handleRunAccrual} disabled={runAccrual.isPending || policies.length === 0}>
+              <CalendarCheck className="h-4 w-4 mr-2" />
+              {runAccrual.isPending ? 'Crediting...' : 'Run Accrual'}
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+
+      <AlertDialog open={closeYearOpen} onOpenChange={setCloseYearOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Close Leave Year {accrualYear}</AlertDialogTitle>
+            <AlertDialogDescription>
+              Balances above each policy's carry-forward limit will lapse or be encashed. Run the
+              December accrual first; this cannot be undone except by manual adjustments.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleCloseYear}>Close Year</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -0,0 +1,316 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Pencil, Plus, Tags, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { useCompany } from '@/contexts/CompanyContext';
+import { useCreateLeaveType, useDeleteLeaveType, useLeaveTypes, useUpdateLeaveType } from '@/hooks/useLeaveTypes';
+import { GENDER_LABELS, LeaveTypeInput, toLeaveTypeCode } from '@/lib/leaveTypes';
+import { Gender, LeaveType } from '@/types/hrms';
+import { mapDatabaseError } from '@/utils/errorMapper';
+
+const EMPTY_DRAFT: LeaveTypeInput = {
+  code: '',
+  name: '',
+  is_paid: true,
+  tracks_balance: true,
+  requires_attachment: false,
+  max_consecutive_days: null,
+  allowed_genders: null,
+  min_tenure_months: 0,
+  is_active: true,
+  sort_order: 0,
+};
+
+const GENDERS = Object.keys(GENDER_LABELS) as Gender[];
+
+export function LeaveTypeManager() {
+  const { company } = useCompany();
+  const companyId = company?.id || '';
+  const { data: leaveTypes = [], isLoading } = useLeaveTypes(company?.id || null);
+  const createType = useCreateLeaveType(companyId);
+  const updateType = useUpdateLeaveType(companyId);
+  const deleteType = useDeleteLeaveType(companyId);
+
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<LeaveType | null>(null);
+  const [draft, setDraft] = useState<LeaveTypeInput>(EMPTY_DRAFT);
+  const [deleting, setDeleting] = useState<LeaveType | null>(null);
+
+  const openCreate = () => {
+    setEditing(null);
+    setDraft({ ...EMPTY_DRAFT, sort_order: leaveTypes.length + 1 });
+    setDialogOpen(true);
+  };
+
+  const openEdit = (type: LeaveType) => {
+    setEditing(type);
+    setDraft({
+      code: type.code,
+      name: type.name,
+      is_paid: type.is_paid,
+      tracks_balance: type.tracks_balance,
+      requires_attachment: type.requires_attachment,
+      max_consecutive_days: type.max_consecutive_days,
+      allowed_genders: type.allowed_genders,
+      min_tenure_months: type.min_tenure_months,
+      is_active: type.is_active,
+      sort_order: type.sort_order,
+    });
+    setDialogOpen(true);
+  };
+
+  const toggleGender = (gender: Gender, checked: boolean) => {
+    const current = draft.allowed_genders || [];
+    const next = checked ? [...current, gender] : current.filter(g => g !== gender);
+    setDraft(prev => ({ ...prev, allowed_genders: next.length > 0 ? next : null }));
+  };
+
+  const handleSave = async () => {
+    const name = draft.name.trim();
+    const code = editing ? editing.code : toLeaveTypeCode(draft.code || name);
+    if (!name || !code) {
+      toast.error('Please enter a name for the leave type');
+      return;
+    }
+    if (!editing && leaveTypes.some(t => t.code === code)) {
+      toast.error(`A leave type with code "${code}" already exists`);
+      return;
+    }
+    if (draft.max_consecutive_days !== null && draft.max_consecutive_days <= 0) {
+      toast.error('Max consecutive days must be more than zero');
+      return;
+    }
+
+    try {
+      if (editing) {
+        const { code: _code, ...updates } = { ...draft, name };
+        await updateType.mutateAsync({ id: editing.id, updates });
+        toast.success(`${name} updated`);
+      } else {
+        await createType.mutateAsync({ ...draft, name, code });
+        toast.success(`${name} added`);
+      }
+      setDialogOpen(false);
+    } catch (error) {
+      toast.error(mapDatabaseError(error));
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+    const type = deleting;
+    setDeleting(null);
+    try {
+      await deleteType.mutateAsync(type);
+      toast.success(`${type.name} deleted`);
+    } catch (error) {
+      toast.error(mapDatabaseError(error));
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <Tags className="h-5 w-5 text-primary" />
+            Leave Types
+          </CardTitle>
+          <CardDescription>
+            The leave employees can request and the rules for each. Unpaid leave is deducted as
+            loss of pay; types with a balance accrue under the leave policies below.
+          </CardDescription>
+        </div>
+        <Button size="sm" onClick={openCreate}>
+          <Plus className="h-4 w-4 mr-1" />
+          Add Type
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-muted-foreground text-center py-4">Loading...</p>
+        ) : leaveTypes.length === 0 ? (
+          <p className="text-muted-foreground text-center py-4">No leave types configured</p>
+        ) : (
+          <div className="space-y-2">
+            {leaveTypes.map(type => (
+              <div key={type.id} className="flex items-center justify-between gap-4 p-3 rounded-lg border border-border">
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <p className="font-medium text-foreground">{type.name}</p>
+                    <span className="text-xs text-muted-foreground font-mono">{type.code}</span>
+                    {!type.is_active && <Badge variant="secondary">Inactive</Badge>}
+                  </div>
+                  <div className="flex flex-wrap gap-1">
+                    <Badge variant="outline">{type.is_paid ? 'Paid' : 'Unpaid'}</Badge>
+                    {type.tracks_balance && <Badge variant="outline">Balance</Badge>}
+                    {type.requires_attachment && <Badge variant="outline">Document required</Badge>}
+                    {type.max_consecutive_days !== null && (
+                      <Badge variant="outline">Max {type.max_consecutive_days} day(s)</Badge>
+                    )}
+                    {type.allowed_genders && type.allowed_genders.length > 0 && (
+                      <Badge variant="outline">{type.allowed_genders.map(g => GENDER_LABELS[g]).join(', ')} only</Badge>
+                    )}
+                    {type.min_tenure_months > 0 && (
+                      <Badge variant="outline">After {type.min_tenure_months} month(s)</Badge>
+                    )}
+                  </div>
+                </div>
+                <div className="flex gap-1">
+                  <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => openEdit(type)}>
+                    <Pencil className="h-3.5 w-3.5" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 text-destructive hover:text-destructive"
+                    onClick={() => setDeleting(type)}
+                    disabled={deleteType.isPending}
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editing ? `Edit ${editing.name}` : 'Add Leave Type'}</DialogTitle>
+            <DialogDescription>
+              {editing
+                ? 'The code cannot change once requests refer to it.'
+                : 'The code is derived from the name unless you set one.'}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label>Name *</Label>
+                <Input
+                  value={draft.name}
+                  onChange={(e) => setDraft(prev => ({ ...prev, name: e.target.value }))}
+                  placeholder="Maternity Leave"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>Code</Label>
+                <Input
+                  value={editing ? editing.code : draft.code}
+                  onChange={(e) => setDraft(prev => ({ ...prev, code: e.target.value }))}
+                  placeholder={toLeaveTypeCode(draft.name) || 'maternity_leave'}
+                  disabled={!!editing}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              {([
+                ['is_paid', 'Paid'],
+                ['tracks_balance', 'Has a balance'],
+                ['requires_attachment', 'Needs a document'],
+                ['is_active', 'Active'],
+              ] as const).map(([field, label]) => (
+                <div key={field} className="flex items-center justify-between p-2 rounded-lg border border-border">
+                  <Label className="text-sm">{label}</Label>
+                  <Switch
+                    checked={draft[field]}
+                    onCheckedChange={(checked) => setDraft(prev => ({ ...prev, [field]: checked }))}
+                  />
+                </div>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label>Max consecutive days</Label>
+                <Input
+                  type="number"
+                  placeholder="No limit"
+                  value={draft.max_consecutive_days ?? ''}
+                  onChange={(e) => setDraft(prev => ({
+                    ...prev,
+                    max_consecutive_days: e.target.value === '' ? null : parseFloat(e.target.value) || 0,
+                  }))}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>Minimum service (months)</Label>
+                <Input
+                  type="number"
+                  value={draft.min_tenure_months}
+                  onChange={(e) => setDraft(prev => ({ ...prev, min_tenure_months: Math.max(0, parseInt(e.target.value) || 0) }))}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Available to</Label>
+              <div className="flex flex-wrap gap-4">
+                {GENDERS.map(gender => (
+                  <label key={gender} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={draft.allowed_genders?.includes(gender) || false}
+                      onCheckedChange={(checked) => toggleGender(gender, checked === true)}
+                    />
+                    {GENDER_LABELS[gender]}
+                  </label>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">Leave all unchecked to offer it to every employee.</p>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>Cancel</Button>
+            <Button onClick={handleSave} disabled={createType.isPending || updateType.isPending}>
+              {editing ? 'Save Changes' : 'Add Type'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {deleting?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Its leave policy is removed too. Types that have been used cannot be deleted;
+              mark them inactive instead.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
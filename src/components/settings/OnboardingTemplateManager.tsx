@@ -0,0 +1,470 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { ClipboardList, Pencil, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { useCompany } from '@/contexts/CompanyContext';
+import { useEmployees } from '@/hooks/useEmployees';
+import { useDepartments } from '@/hooks/useSettings';
+import {
+  useDeleteOnboardingTemplate,
+  useDeleteOnboardingTemplateTask,
+  useOnboardingTemplates,
+  useSaveOnboardingTemplate,
+  useSaveOnboardingTemplateTask,
+} from '@/hooks/useOnboarding';
+import { describeDueOffset, ONBOARDING_DOCUMENT_LABELS, ONBOARDING_OWNER_LABELS } from '@/lib/onboarding';
+import { OnboardingTemplateInput, OnboardingTemplateTaskInput } from '@/services/onboardingService';
+import {
+  AppRole,
+  OnboardingDocumentType,
+  OnboardingOwnerType,
+  OnboardingTemplate,
+  OnboardingTemplateTask,
+  Profile,
+} from '@/types/hrms';
+import { mapDatabaseError } from '@/utils/errorMapper';
+
+const ANY = 'any';
+
+const ROLE_LABELS: Record<AppRole, string> = {
+  owner: 'Owner',
+  admin: 'Admin',
+  manager: 'Manager',
+  employee: 'Employee',
+};
+
+const EMPTY_TEMPLATE: OnboardingTemplateInput = {
+  name: '',
+  department_id: null,
+  role: null,
+  is_active: true,
+};
+
+const EMPTY_TASK: OnboardingTemplateTaskInput = {
+  title: '',
+  description: null,
+  owner_type: 'hr',
+  assignee_id: null,
+  due_offset_days: 0,
+  document_type: null,
+};
+
+const OWNER_TYPES = Object.keys(ONBOARDING_OWNER_LABELS) as OnboardingOwnerType[];
+const DOCUMENT_TYPES = Object.keys(ONBOARDING_DOCUMENT_LABELS) as OnboardingDocumentType[];
+
+/**
+ * The checklists new hires start with. The template for their department
+ * and role is used, falling back to one for either, then to a catch-all.
+ */
+export function OnboardingTemplateManager() {
+  const { company } = useCompany();
+  const companyId = company?.id || '';
+  const { data: templates = [], isLoading } = useOnboardingTemplates(company?.id || null);
+  const { data: departments = [] } = useDepartments(company?.id || null);
+  const { data: employeesData } = useEmployees({ companyId: company?.id, pageSize: 100 });
+  const saveTemplate = useSaveOnboardingTemplate(companyId);
+  const deleteTemplate = useDeleteOnboardingTemplate(companyId);
+  const saveTask = useSaveOnboardingTemplateTask();
+  const deleteTask = useDeleteOnboardingTemplateTask();
+
+  const [templateDialogOpen, setTemplateDialogOpen] = useState(false);
+  const [editingTemplate, setEditingTemplate] = useState<OnboardingTemplate | null>(null);
+  const [templateDraft, setTemplateDraft] = useState<OnboardingTemplateInput>(EMPTY_TEMPLATE);
+  const [deletingTemplate, setDeletingTemplate] = useState<OnboardingTemplate | null>(null);
+
+  const [taskTemplate, setTaskTemplate] = useState<OnboardingTemplate | null>(null);
+  const [editingTask, setEditingTask] = useState<OnboardingTemplateTask | null>(null);
+  const [taskDraft, setTaskDraft] = useState<OnboardingTemplateTaskInput>(EMPTY_TASK);
+
+  const employees = (employeesData?.data || []) as Profile[];
+  const employeeName = (userId: string) => {
+    const employee = employees.find(e => e.user_id === userId);
+    return employee ? `${employee.first_name} ${employee.last_name}` : 'Unknown';
+  };
+  const departmentName = (id: string) => departments.find(d => d.id === id)?.name || 'Unknown department';
+
+  const openCreateTemplate = () => {
+    setEditingTemplate(null);
+    setTemplateDraft(EMPTY_TEMPLATE);
+    setTemplateDialogOpen(true);
+  };
+
+  const openEditTemplate = (template: OnboardingTemplate) => {
+    setEditingTemplate(template);
+    setTemplateDraft({
+      name: template.name,
+      department_id: template.department_id,
+      role: template.role,
+      is_active: template.is_active,
+    });
+    setTemplateDialogOpen(true);
+  };
+
+  const openCreateTask = (template: OnboardingTemplate) => {
+    setTaskTemplate(template);
+    setEditingTask(null);
+    setTaskDraft(EMPTY_TASK);
+  };
+
+  const openEditTask = (template: OnboardingTemplate, task: OnboardingTemplateTask) => {
+    setTaskTemplate(template);
+    setEditingTask(task);
+    setTaskDraft({
+      title: task.title,
+      description: task.description,
+      owner_type: task.owner_type,
+      assignee_id: task.assignee_id,
+      due_offset_days: task.due_offset_days,
+      document_type: task.document_type,
+    });
+  };
+
+  const handleSaveTemplate = async () => {
+    try {
+      await saveTemplate.mutateAsync({ id: editingTemplate?.id, input: templateDraft });
+      toast.success(editingTemplate ? `${templateDraft.name} updated` : `${templateDraft.name} added`);
+      setTemplateDialogOpen(false);
+    } catch (error) {
+      toast.error(mapDatabaseError(error));
+    }
+  };
+
+  const handleDeleteTemplate = async () => {
+    if (!deletingTemplate) return;
+    const template = deletingTemplate;
+    setDeletingTemplate(null);
+    try {
+      await deleteTemplate.mutateAsync(template.id);
+      toast.success(`${template.name} deleted`);
+    } catch (error) {
+      toast.error(mapDatabaseError(error));
+    }
+  };
+
+  const handleSaveTask = async () => {
+    if (!taskTemplate) return;
+    try {
+      await saveTask.mutateAsync({ template: taskTemplate, input: taskDraft, id: editingTask?.id });
+      setTaskTemplate(null);
+    } catch (error) {
+      toast.error(mapDatabaseError(error));
+    }
+  };
+
+  const handleDeleteTask = async (task: OnboardingTemplateTask) => {
+    try {
+      await deleteTask.mutateAsync(task);
+    } catch (error) {
+      toast.error(mapDatabaseError(error));
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <ClipboardList className="h-5 w-5 text-primary" />
+            Onboarding Checklists
+          </CardTitle>
+          <CardDescription>
+            What HR, IT, the manager and the new hire need to do, due in days from the date of
+            joining. Changes apply to employees who start onboarding afterwards.
+          </CardDescription>
+        </div>
+        <Button size="sm" onClick={openCreateTemplate}>
+          <Plus className="h-4 w-4 mr-1" />
+          Add Checklist
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-muted-foreground text-center py-4">Loading...</p>
+        ) : templates.length === 0 ? (
+          <p className="text-muted-foreground text-center py-4">No onboarding checklists yet</p>
+        ) : (
+          <div className="space-y-3">
+            {templates.map(template => (
+              <div key={template.id} className="p-3 rounded-lg border border-border space-y-3">
+                <div className="flex items-center justify-between gap-4">
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      <p className="font-medium text-foreground">{template.name}</p>
+                      {!template.is_active && <Badge variant="secondary">Inactive</Badge>}
+                    </div>
+                    <div className="flex flex-wrap gap-1">
+                      <Badge variant="outline">
+                        {template.department_id ? departmentName(template.department_id) : 'All departments'}
+                      </Badge>
+                      <Badge variant="outline">{template.role ? `${ROLE_LABELS[template.role]}s` : 'All roles'}</Badge>
+                    </div>
+                  </div>
+                  <div className="flex gap-1">
+                    <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => openEditTemplate(template)}>
+                      <Pencil className="h-3.5 w-3.5" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-destructive hover:text-destructive"
+                      onClick={() => setDeletingTemplate(template)}
+                      disabled={deleteTemplate.isPending}
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </Button>
+                  </div>
+                </div>
+
+                <div className="space-y-1">
+                  {(template.tasks || []).map(task => (
+                    <div key={task.id} className="flex items-center justify-between gap-3 text-sm pl-3">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className="text-foreground">{task.title}</span>
+                        <Badge variant="outline">{ONBOARDING_OWNER_LABELS[task.owner_type]}</Badge>
+                        {task.assignee_id && <Badge variant="outline">{employeeName(task.assignee_id)}</Badge>}
+                        {task.document_type && (
+                          <Badge variant="secondary">{ONBOARDING_DOCUMENT_LABELS[task.document_type]}</Badge>
+                        )}
+                        <span className="text-xs text-muted-foreground">{describeDueOffset(task.due_offset_days)}</span>
+                      </div>
+                      <div className="flex gap-1">
+                        <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => openEditTask(template, task)}>
+                          <Pencil className="h-3.5 w-3.5" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7 text-destructive hover:text-destructive"
+                          onClick={() => handleDeleteTask(task)}
+                          disabled={deleteTask.isPending}
+                        >
+                          <Trash2 className="h-3.5 w-3.5" />
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                  <Button size="sm" variant="outline" className="ml-3 mt-1" onClick={() => openCreateTask(template)}>
+                    <Plus className="h-3.5 w-3.5 mr-1" />
+                    Add Task
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={templateDialogOpen} onOpenChange={setTemplateDialogOpen}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editingTemplate ? `Edit ${editingTemplate.name}` : 'Add Checklist'}</DialogTitle>
+            <DialogDescription>Leave department or role on "All" to use it for everyone else.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <Label>Name *</Label>
+              <Input
+                value={templateDraft.name}
+                onChange={(e) => setTemplateDraft(prev => ({ ...prev, name: e.target.value }))}
+                placeholder="Engineering onboarding"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label>Department</Label>
+                <Select
+                  value={templateDraft.department_id || ANY}
+                  onValueChange={(v) => setTemplateDraft(prev => ({ ...prev, department_id: v === ANY ? null : v }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>All departments</SelectItem>
+                    {departments.map(d => (
+                      <SelectItem key={d.id} value={d.id}>{d.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Role</Label>
+                <Select
+                  value={templateDraft.role || ANY}
+                  onValueChange={(v) => setTemplateDraft(prev => ({ ...prev, role: v === ANY ? null : v as AppRole }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>All roles</SelectItem>
+                    {(Object.keys(ROLE_LABELS) as AppRole[]).map(role => (
+                      <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="flex items-center justify-between p-2 rounded-lg border border-border">
+              <Label className="text-sm">Active</Label>
+              <Switch
+                checked={templateDraft.is_active}
+                onCheckedChange={(checked) => setTemplateDraft(prev => ({ ...prev, is_active: checked }))}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setTemplateDialogOpen(false)}>Cancel</Button>
+            <Button onClick={handleSaveTemplate} disabled={saveTemplate.isPending}>
+              {editingTemplate ? 'Save Changes' : 'Add Checklist'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!taskTemplate} onOpenChange={(open) => !open && setTaskTemplate(null)}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editingTask ? `Edit ${editingTask.title}` : `Add Task to ${taskTemplate?.name}`}</DialogTitle>
+            <DialogDescription>
+              Manager tasks go to the new hire's reporting manager. New-hire tasks asking for a
+              document are done once it is uploaded.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <Label>Title *</Label>
+              <Input
+                value={taskDraft.title}
+                onChange={(e) => setTaskDraft(prev => ({ ...prev, title: e.target.value }))}
+                placeholder="Set up laptop and email"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Instructions</Label>
+              <Textarea
+                rows={2}
+                value={taskDraft.description || ''}
+                onChange={(e) => setTaskDraft(prev => ({ ...prev, description: e.target.value }))}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label>Owner</Label>
+                <Select
+                  value={taskDraft.owner_type}
+                  onValueChange={(v) => setTaskDraft(prev => ({ ...prev, owner_type: v as OnboardingOwnerType }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {OWNER_TYPES.map(owner => (
+                      <SelectItem key={owner} value={owner}>{ONBOARDING_OWNER_LABELS[owner]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Due (days after joining)</Label>
+                <Input
+                  type="number"
+                  value={taskDraft.due_offset_days}
+                  onChange={(e) => setTaskDraft(prev => ({ ...prev, due_offset_days: parseInt(e.target.value) || 0 }))}
+                />
+              </div>
+            </div>
+            {(taskDraft.owner_type === 'hr' || taskDraft.owner_type === 'it') && (
+              <div className="space-y-1">
+                <Label>Assigned to</Label>
+                <Select
+                  value={taskDraft.assignee_id || ANY}
+                  onValueChange={(v) => setTaskDraft(prev => ({ ...prev, assignee_id: v === ANY ? null : v }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>Every admin</SelectItem>
+                    {employees.map(e => (
+                      <SelectItem key={e.user_id} value={e.user_id}>{e.first_name} {e.last_name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            {taskDraft.owner_type === 'new_hire' && (
+              <div className="space-y-1">
+                <Label>Document to upload</Label>
+                <Select
+                  value={taskDraft.document_type || ANY}
+                  onValueChange={(v) => setTaskDraft(prev => ({
+                    ...prev,
+                    document_type: v === ANY ? null : v as OnboardingDocumentType,
+                  }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>None, ticked off by hand</SelectItem>
+                    {DOCUMENT_TYPES.map(type => (
+                      <SelectItem key={type} value={type}>{ONBOARDING_DOCUMENT_LABELS[type]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setTaskTemplate(null)}>Cancel</Button>
+            <Button onClick={handleSaveTask} disabled={saveTask.isPending}>
+              {editingTask ? 'Save Changes' : 'Add Task'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!deletingTemplate} onOpenChange={(open) => !open && setDeletingTemplate(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {deletingTemplate?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Employees already onboarding keep their checklist. Mark it inactive instead to stop
+              using it for new hires while keeping it to reuse later.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDeleteTemplate}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -0,0 +1,196 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Landmark, Plus, RotateCcw, Save, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { useCompany } from '@/contexts/CompanyContext';
+import {
+  useProfessionalTaxSlabs,
+  useResetProfessionalTaxSlabs,
+  useSaveProfessionalTaxSlabs,
+} from '@/hooks/useProfessionalTax';
+import { professionalTaxService, ProfessionalTaxSlabInput } from '@/services/professionalTaxService';
+import { INDIAN_STATES } from '@/lib/indianStates';
+import { mapDatabaseError } from '@/utils/errorMapper';
+
+const emptySlab: ProfessionalTaxSlabInput = {
+  min_salary: 0,
+  max_salary: null,
+  amount: 0,
+  february_amount: null,
+};
+
+const parseOptional = (value: string) => (value === '' ? null : parseFloat(value) || 0);
+
+export function ProfessionalTaxSlabManager() {
+  const { company } = useCompany();
+  const companyId = company?.id || '';
+  const { data: slabs = [], isLoading } = useProfessionalTaxSlabs(company?.id || null);
+  const saveSlabs = useSaveProfessionalTaxSlabs(companyId);
+  const resetSlabs = useResetProfessionalTaxSlabs(companyId);
+
+  const [state, setState] = useState('MH');
+  const [draft, setDraft] = useState<ProfessionalTaxSlabInput[]>([]);
+
+  const effective = useMemo(
+    () => professionalTaxService.resolveForState(slabs, state),
+    [slabs, state]
+  );
+  const isOverridden = effective.some(s => s.company_id);
+  const configuredStates = new Set(slabs.map(s => s.state));
+
+  useEffect(() => {
+    setDraft(effective.map(({ min_salary, max_salary, amount, february_amount }) => ({
+      min_salary,
+      max_salary,
+      amount,
+      february_amount,
+    })));
+  }, [effective]);
+
+  const updateSlab = (index: number, updates: Partial<ProfessionalTaxSlabInput>) => {
+    setDraft(prev => prev.map((slab, i) => (i === index ? { ...slab, ...updates } : slab)));
+  };
+
+  const handleSave = async () => {
+    const sorted = [...draft].sort((a, b) => a.min_salary - b.min_salary);
+    const invalid = sorted.some((slab, i) =>
+      slab.amount < 0 ||
+      (slab.max_salary !== null && slab.max_salary < slab.min_salary) ||
+      (i > 0 && sorted[i - 1].max_salary !== null && slab.min_salary <= (sorted[i - 1].max_salary as number))
+    );
+    if (invalid) {
+      toast.error('Slabs must not overlap and each maximum must be above its minimum');
+      return;
+    }
+    try {
+      await saveSlabs.mutateAsync({ state, slabs: sorted });
+      toast.success('Professional tax slabs saved');
+    } catch (error) {
+      toast.error(mapDatabaseError(error));
+    }
+  };
+
+  const handleReset = async () => {
+    try {
+      await resetSlabs.mutateAsync(state);
+      toast.success('Reverted to statutory slabs');
+    } catch (error) {
+      toast.error(mapDatabaseError(error));
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Landmark className="h-5 w-5 text-primary" />
+          Professional Tax Slabs
+        </CardTitle>
+        <CardDescription>
+          PT is picked from the employee's work state and monthly gross salary. Employees without a
+          work state pay the flat PT amount above; a state without slabs levies no PT.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+          <Select value={state} onValueChange={setState}>
+            <SelectTrigger className="w-[260px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {INDIAN_STATES.map((s) => (
+                <SelectItem key={s.code} value={s.code}>
+                  {s.name}{configuredStates.has(s.code) ? '' : ' (no PT)'}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {effective.length > 0 && (
+            <Badge variant={isOverridden ? 'default' : 'secondary'}>
+              {isOverridden ? 'Company override' : 'Statutory default'}
+            </Badge>
+          )}
+        </div>
+
+        {isLoading ? (
+          <p className="text-muted-foreground text-center py-4">Loading...</p>
+        ) : (
+          <div className="space-y-2">
+            {draft.length > 0 && (
+              <div className="grid grid-cols-9 gap-2 text-xs text-muted-foreground px-1">
+                <span className="col-span-2">Gross from (₹)</span>
+                <span className="col-span-2">Gross to (₹)</span>
+                <span className="col-span-2">PT / month</span>
+                <span className="col-span-2">February PT</span>
+              </div>
+            )}
+            {draft.map((slab, index) => (
+              <div key={index} className="grid grid-cols-9 gap-2 items-center">
+                <Input
+                  type="number"
+                  className="col-span-2"
+                  value={slab.min_salary}
+                  onChange={(e) => updateSlab(index, { min_salary: parseFloat(e.target.value) || 0 })}
+                />
+                <Input
+                  type="number"
+                  className="col-span-2"
+                  placeholder="No limit"
+                  value={slab.max_salary ?? ''}
+                  onChange={(e) => updateSlab(index, { max_salary: parseOptional(e.target.value) })}
+                />
+                <Input
+                  type="number"
+                  className="col-span-2"
+                  value={slab.amount}
+                  onChange={(e) => updateSlab(index, { amount: parseFloat(e.target.value) || 0 })}
+                />
+                <Input
+                  type="number"
+                  className="col-span-2"
+                  placeholder="Same"
+                  value={slab.february_amount ?? ''}
+                  onChange={(e) => updateSlab(index, { february_amount: parseOptional(e.target.value) })}
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  onClick={() => setDraft(prev => prev.filter((_, i) => i !== index))}
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+            ))}
+            {draft.length === 0 && (
+              <p className="text-sm text-muted-foreground text-center py-4">
+                No PT slabs for this state. Add slabs to start deducting PT here.
+              </p>
+            )}
+          </div>
+        )}
+
+        <div className="flex flex-wrap gap-2 justify-end">
+          <Button variant="outline" onClick={() => setDraft(prev => [...prev, { ...emptySlab }])}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Slab
+          </Button>
+          {isOverridden && (
+            <Button variant="outline" onClick={handleReset} disabled={resetSlabs.isPending}>
+              <RotateCcw className="h-4 w-4 mr-2" />
+              Reset to Default
+            </Button>
+          )}
+          <Button onClick={handleSave} disabled={saveSlabs.isPending}>
+            <Save className="h-4 w-4 mr-2" />
+            {saveSlabs.isPending ? 'Saving...' : 'Save Override'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,308 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Layers, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { useCompany } from '@/contexts/CompanyContext';
+import { useDepartments } from '@/hooks/useSettings';
+import {
+  useSalaryStructures,
+  useCreateSalaryStructure,
+  useUpdateSalaryStructure,
+  useDeleteSalaryStructure,
+  useAddSalaryComponent,
+  useDeleteSalaryComponent,
+} from '@/hooks/useSalaryStructures';
+import { SalaryComponentCalculation, SalaryStructure } from '@/types/hrms';
+import { getSalaryStructureIssue, splitSalary } from '@/lib/payrollEngine';
+import { mapDatabaseError } from '@/utils/errorMapper';
+
+const PREVIEW_CTC = 50000;
+
+const emptyComponent = {
+  name: '',
+  code: '',
+  calculation_type: 'percentage' as SalaryComponentCalculation,
+  value: 0,
+  is_pf_wage: false,
+  is_esic_wage: true,
+};
+
+export function SalaryStructureManager() {
+  const { company } = useCompany();
+  const companyId = company?.id || '';
+  const { data: structures = [], isLoading } = useSalaryStructures(company?.id || null);
+  const { data: departments = [] } = useDepartments(company?.id || null);
+  const createStructure = useCreateSalaryStructure(companyId);
+  const updateStructure = useUpdateSalaryStructure(companyId);
+  const deleteStructure = useDeleteSalaryStructure(companyId);
+  const addComponent = useAddSalaryComponent(companyId);
+  const deleteComponent = useDeleteSalaryComponent(companyId);
+
+  const [newStructureName, setNewStructureName] = useState('');
+  const [newComponents, setNewComponents] = useState<Record<string, typeof emptyComponent>>({});
+
+  const getNewComponent = (structureId: string) => newComponents[structureId] || emptyComponent;
+
+  const setNewComponent = (structureId: string, updates: Partial<typeof emptyComponent>) => {
+    setNewComponents(prev => ({ ...prev, [structureId]: { ...getNewComponent(structureId), ...updates } }));
+  };
+
+  const handleCreateStructure = async () => {
+    if (!newStructureName.trim()) {
+      toast.error('Please enter a structure name');
+      return;
+    }
+    try {
+      await createStructure.mutateAsync({ name: newStructureName.trim(), description: null, department_id: null });
+      toast.success('Salary structure created');
+      setNewStructureName('');
+    } catch (error) {
+      toast.error(mapDatabaseError(error));
+    }
+  };
+
+  const handleDepartmentChange = async (structure: SalaryStructure, departmentId: string) => {
+    try {
+      await updateStructure.mutateAsync({
+        structureId: structure.id,
+        updates: { department_id: departmentId === 'none' ? null : departmentId },
+      });
+      toast.success('Department assignment updated');
+    } catch (error) {
+      toast.error(mapDatabaseError(error));
+    }
+  };
+
+  const handleDeleteStructure = async (structureId: string) => {
+    try {
+      await deleteStructure.mutateAsync(structureId);
+      toast.success('Salary structure deleted');
+    } catch (error) {
+      toast.error(mapDatabaseError(error));
+    }
+  };
+
+  const handleAddComponent = async (structure: SalaryStructure) => {
+    const component = getNewComponent(structure.id);
+    const code = component.code.trim().toLowerCase().replace(/[^a-z0-9_]/g, '_');
+    if (!component.name.trim() || !code) {
+      toast.error('Please enter component name and code');
+      return;
+    }
+    if (component.calculation_type !== 'balance' && component.value <= 0) {
+      toast.error('Please enter a valid value');
+      return;
+    }
+    const issue = getSalaryStructureIssue([...(structure.components || []), component], { requireBalance: false });
+    if (issue) {
+      toast.error(`Cannot add ${component.name.trim()}: ${issue}`);
+      return;
+    }
+    try {
+      await addComponent.mutateAsync({
+        structureId: structure.id,
+        component: {
+          ...component,
+          name: component.name.trim(),
+          code,
+          value: component.calculation_type === 'balance' ? 0 : component.value,
+          sort_order: structure.components?.length || 0,
+        },
+      });
+      toast.success('Component added');
+      setNewComponents(prev => ({ ...prev, [structure.id]: emptyComponent }));
+    } catch (error) {
+      toast.error(mapDatabaseError(error));
+    }
+  };
+
+  const handleDeleteComponent = async (componentId: string) => {
+    try {
+      await deleteComponent.mutateAsync(componentId);
+      toast.success('Component removed');
+    } catch (error) {
+      toast.error(mapDatabaseError(error));
+    }
+  };
+
+  const describeComponent = (type: SalaryComponentCalculation, value: number) => {
+    switch (type) {
+      case 'percentage': return `${value}% of CTC`;
+      case 'fixed': return `₹${Number(value).toLocaleString()} fixed`;
+      default: return 'Balance of CTC';
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Layers className="h-5 w-5 text-primary" />
+          Salary Structures
+        </CardTitle>
+        <CardDescription>
+          Split monthly CTC into earning components. Percentage and fixed components must fit within CTC and
+          one balance component takes what is left. Mark the components that form the PF wage (Basic + DA);
+          PF is calculated on those instead of gross salary.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex gap-2">
+          <Input
+            placeholder="New structure name (e.g., Standard, Sales)"
+            value={newStructureName}
+            onChange={(e) => setNewStructureName(e.target.value)}
+          />
+          <Button onClick={handleCreateStructure} disabled={createStructure.isPending}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Structure
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <p className="text-muted-foreground text-center py-4">Loading...</p>
+        ) : structures.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">
+            No salary structures defined. Payslips will show a single gross salary line.
+          </p>
+        ) : (
+          structures.map(structure => {
+            const components = structure.components || [];
+            const newComponent = getNewComponent(structure.id);
+            const preview = splitSalary(PREVIEW_CTC, components);
+            const issue = getSalaryStructureIssue(components);
+
+            return (
+              <div key={structure.id} className="p-4 rounded-lg border border-border space-y-4">
+                <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                  <p className="font-medium text-foreground">{structure.name}</p>
+                  <div className="flex items-center gap-2">
+                    <Select
+                      value={structure.department_id || 'none'}
+                      onValueChange={(v) => handleDepartmentChange(structure, v)}
+                    >
+                      <SelectTrigger className="w-[200px]">
+                        <SelectValue placeholder="Default for department" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">No department default</SelectItem>
+                        {departments.map((dept) => (
+                          <SelectItem key={dept.id} value={dept.id}>{dept.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="text-destructive hover:text-destructive"
+                      onClick={() => handleDeleteStructure(structure.id)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  {components.map((component, i) => (
+                    <div key={component.id} className="flex items-center justify-between p-3 rounded-lg bg-accent/30">
+                      <div className="flex items-center gap-2">
+                        <span className="text-sm font-medium">{component.name}</span>
+                        <span className="text-xs text-muted-foreground">
+                          {describeComponent(component.calculation_type, component.value)}
+                        </span>
+                        {component.is_pf_wage && <Badge variant="secondary">PF wage</Badge>}
+                        {!component.is_esic_wage && <Badge variant="outline">Excluded from ESIC</Badge>}
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <span className="text-sm text-muted-foreground">
+                          ₹{preview[i]?.amount.toLocaleString()}
+                        </span>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7"
+                          onClick={() => handleDeleteComponent(component.id)}
+                        >
+                          <Trash2 className="h-3.5 w-3.5" />
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                  {components.length > 0 && (
+                    <p className="text-xs text-muted-foreground text-right">
+                      Amounts shown for ₹{PREVIEW_CTC.toLocaleString()} monthly CTC
+                    </p>
+                  )}
+                  {issue && (
+                    <p className="text-xs text-destructive">
+                      Payroll cannot use this structure yet: {issue}
+                    </p>
+                  )}
+                </div>
+
+                <div className="grid grid-cols-1 sm:grid-cols-6 gap-2 items-center">
+                  <Input
+                    placeholder="Name (e.g., HRA)"
+                    value={newComponent.name}
+                    onChange={(e) => setNewComponent(structure.id, { name: e.target.value })}
+                    className="sm:col-span-2"
+                  />
+                  <Input
+                    placeholder="Code"
+                    value={newComponent.code}
+                    onChange={(e) => setNewComponent(structure.id, { code: e.target.value })}
+                  />
+                  <Select
+                    value={newComponent.calculation_type}
+                    onValueChange={(v) => setNewComponent(structure.id, { calculation_type: v as SalaryComponentCalculation })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="percentage">% of CTC</SelectItem>
+                      <SelectItem value="fixed">Fixed</SelectItem>
+                      <SelectItem value="balance">Balance</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    type="number"
+                    placeholder="Value"
+                    value={newComponent.value || ''}
+                    disabled={newComponent.calculation_type === 'balance'}
+                    onChange={(e) => setNewComponent(structure.id, { value: parseFloat(e.target.value) || 0 })}
+                  />
+                  <Button variant="outline" onClick={() => handleAddComponent(structure)}>
+                    <Plus className="h-4 w-4" />
+                  </Button>
+                </div>
+                <div className="flex gap-6">
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      checked={newComponent.is_pf_wage}
+                      onCheckedChange={(checked) => setNewComponent(structure.id, { is_pf_wage: checked })}
+                    />
+                    <Label className="text-sm">Counts towards PF wage</Label>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      checked={newComponent.is_esic_wage}
+                      onCheckedChange={(checked) => setNewComponent(structure.id, { is_esic_wage: checked })}
+                    />
+                    <Label className="text-sm">Counts towards ESIC wage</Label>
+                  </div>
+                </div>
+              </div>
+            );
+          })
+        )}
+      </CardContent>
+    </Card>
+  );
+}
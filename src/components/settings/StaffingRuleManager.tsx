@@ -0,0 +1,105 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Users, Save } from 'lucide-react';
+import { toast } from 'sonner';
+import { useCompany } from '@/contexts/CompanyContext';
+import { useEmployees } from '@/hooks/useEmployees';
+import { useDepartments } from '@/hooks/useSettings';
+import { useDeleteStaffingRule, useSaveStaffingRule, useStaffingRules } from '@/hooks/useTeamCalendar';
+import { Department, Profile } from '@/types/hrms';
+import { mapDatabaseError } from '@/utils/errorMapper';
+
+export function StaffingRuleManager() {
+  const { company } = useCompany();
+  const companyId = company?.id || '';
+  const { data: departments = [], isLoading } = useDepartments(company?.id || null);
+  const { data: rules } = useStaffingRules(company?.id || null);
+  const { data: employeesData } = useEmployees({ companyId: company?.id, pageSize: 100 });
+  const saveRule = useSaveStaffingRule(companyId);
+  const deleteRule = useDeleteStaffingRule(companyId);
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    if (rules) setDrafts(Object.fromEntries(rules.map(r => [r.department_id, String(r.min_present)])));
+  }, [rules]);
+
+  const employees = (employeesData?.data || []) as Profile[];
+  const headcount = (departmentId: string) => employees.filter(e => e.department_id === departmentId).length;
+
+  const handleSave = async (department: Department) => {
+    const value = (drafts[department.id] || '').trim();
+    const existing = rules?.find(r => r.department_id === department.id);
+
+    try {
+      if (value === '') {
+        if (!existing) return;
+        await deleteRule.mutateAsync(department.id);
+        toast.success(`Minimum staffing removed for ${department.name}`);
+        return;
+      }
+
+      const minPresent = parseInt(value);
+      if (!Number.isInteger(minPresent) || minPresent <= 0) {
+        toast.error('Minimum staffing must be a whole number above zero');
+        return;
+      }
+      await saveRule.mutateAsync({ departmentId: department.id, minPresent });
+      toast.success(`Minimum staffing saved for ${department.name}`);
+    } catch (error) {
+      toast.error(mapDatabaseError(error));
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Users className="h-5 w-5 text-primary" />
+          Minimum Staffing
+        </CardTitle>
+        <CardDescription>
+          The fewest people each department needs at work on a working day. Approvers are warned
+          before approving leave that would go below it. Leave blank for no minimum.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-muted-foreground text-center py-4">Loading...</p>
+        ) : departments.length === 0 ? (
+          <p className="text-muted-foreground text-center py-4">Add departments to set minimum staffing</p>
+        ) : (
+          <div className="space-y-2">
+            {(departments as Department[]).map(department => (
+              <div key={department.id} className="flex items-center justify-between gap-3 p-3 rounded-lg border border-border">
+                <div>
+                  <p className="font-medium text-foreground">{department.name}</p>
+                  <p className="text-xs text-muted-foreground">{headcount(department.id)} member(s)</p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Input
+                    type="number"
+                    min={1}
+                    className="w-24"
+                    placeholder="None"
+                    value={drafts[department.id] ?? ''}
+                    onChange={(e) => setDrafts(prev => ({ ...prev, [department.id]: e.target.value }))}
+                  />
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleSave(department)}
+                    disabled={saveRule.isPending || deleteRule.isPending}
+                  >
+                    <Save className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
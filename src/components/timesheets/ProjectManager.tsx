@@ -0,0 +1,251 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Archive, ArchiveRestore, Briefcase, Pencil, Plus } from 'lucide-react';
+import { toast } from 'sonner';
+import { useAuth } from '@/contexts/AuthContext';
+import { useCreateProjectTask, useProjects, useSaveProject, useUpdateProjectTask } from '@/hooks/useTimesheets';
+import { ProjectInput } from '@/services/timesheetService';
+import { Project, ProjectTask } from '@/types/hrms';
+import { mapDatabaseError } from '@/utils/errorMapper';
+
+const EMPTY_DRAFT: ProjectInput = {
+  name: '',
+  code: null,
+  client_name: null,
+  is_billable: true,
+  is_active: true,
+};
+
+interface ProjectManagerProps {
+  companyId: string;
+}
+
+/**
+ * The projects and tasks employees log time against. Projects and tasks are
+ * archived rather than deleted, so logged time keeps its project.
+ */
+export function ProjectManager({ companyId }: ProjectManagerProps) {
+  const { user } = useAuth();
+  const { data: projects = [], isLoading } = useProjects(companyId);
+  const saveProject = useSaveProject(companyId);
+  const createTask = useCreateProjectTask();
+  const updateTask = useUpdateProjectTask();
+
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<Project | null>(null);
+  const [draft, setDraft] = useState<ProjectInput>(EMPTY_DRAFT);
+  const [taskNames, setTaskNames] = useState<Record<string, string>>({});
+
+  const openCreate = () => {
+    setEditing(null);
+    setDraft(EMPTY_DRAFT);
+    setDialogOpen(true);
+  };
+
+  const openEdit = (project: Project) => {
+    setEditing(project);
+    setDraft({
+      name: project.name,
+      code: project.code,
+      client_name: project.client_name,
+      is_billable: project.is_billable,
+      is_active: project.is_active,
+    });
+    setDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    if (!user) return;
+    try {
+      await saveProject.mutateAsync({ id: editing?.id, input: draft, createdBy: user.id });
+      toast.success(editing ? `${draft.name} updated` : `${draft.name} added`);
+      setDialogOpen(false);
+    } catch (error) {
+      toast.error(mapDatabaseError(error));
+    }
+  };
+
+  const handleAddTask = async (project: Project) => {
+    const name = taskNames[project.id] || '';
+    try {
+      await createTask.mutateAsync({ project, name, isBillable: project.is_billable });
+      setTaskNames(prev => ({ ...prev, [project.id]: '' }));
+    } catch (error) {
+      toast.error(mapDatabaseError(error));
+    }
+  };
+
+  const handleTaskChange = async (task: ProjectTask, updates: Partial<Pick<ProjectTask, 'is_billable' | 'is_active'>>) => {
+    try {
+      await updateTask.mutateAsync({ id: task.id, updates });
+    } catch (error) {
+      toast.error(mapDatabaseError(error));
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <Briefcase className="h-5 w-5 text-primary" />
+            Projects
+          </CardTitle>
+          <CardDescription>
+            Time on internal projects and non-billable tasks is logged but not billed. Changing
+            billability applies to time logged from then on.
+          </CardDescription>
+        </div>
+        <Button size="sm" onClick={openCreate}>
+          <Plus className="h-4 w-4 mr-1" />
+          Add Project
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-muted-foreground text-center py-4">Loading...</p>
+        ) : projects.length === 0 ? (
+          <p className="text-muted-foreground text-center py-4">No projects yet</p>
+        ) : (
+          <div className="space-y-3">
+            {projects.map(project => (
+              <div key={project.id} className="p-3 rounded-lg border border-border space-y-3">
+                <div className="flex items-center justify-between gap-4">
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      <p className="font-medium text-foreground">{project.name}</p>
+                      {project.code && <span className="text-xs text-muted-foreground font-mono">{project.code}</span>}
+                      {!project.is_active && <Badge variant="secondary">Archived</Badge>}
+                    </div>
+                    <div className="flex flex-wrap gap-1">
+                      <Badge variant="outline">{project.is_billable ? 'Billable' : 'Internal'}</Badge>
+                      {project.client_name && <Badge variant="outline">{project.client_name}</Badge>}
+                    </div>
+                  </div>
+                  <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => openEdit(project)}>
+                    <Pencil className="h-3.5 w-3.5" />
+                  </Button>
+                </div>
+
+                <div className="space-y-1">
+                  {(project.tasks || []).map(task => (
+                    <div key={task.id} className="flex items-center justify-between gap-3 text-sm pl-3">
+                      <span className={task.is_active ? 'text-foreground' : 'text-muted-foreground line-through'}>{task.name}</span>
+                      <div className="flex items-center gap-2">
+                        <Label className="text-xs text-muted-foreground">Billable</Label>
+                        <Switch
+                          checked={task.is_billable}
+                          onCheckedChange={(checked) => handleTaskChange(task, { is_billable: checked })}
+                          disabled={!project.is_billable || updateTask.isPending}
+                        />
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7"
+                          onClick={() => handleTaskChange(task, { is_active: !task.is_active })}
+                          disabled={updateTask.isPending}
+                          aria-label={task.is_active ? 'Archive task' : 'Restore task'}
+                        >
+                          {task.is_active ? <Archive className="h-3.5 w-3.5" /> : <ArchiveRestore className="h-3.5 w-3.5" />}
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                  {project.is_active && (
+                    <div className="flex items-center gap-2 pl-3 pt-1">
+                      <Input
+                        className="h-8"
+                        placeholder="New task, e.g. Design review"
+                        value={taskNames[project.id] || ''}
+                        onChange={(e) => setTaskNames(prev => ({ ...prev, [project.id]: e.target.value }))}
+                        onKeyDown={(e) => e.key === 'Enter' && handleAddTask(project)}
+                      />
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleAddTask(project)}
+                        disabled={!taskNames[project.id]?.trim() || createTask.isPending}
+                      >
+                        Add Task
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editing ? `Edit ${editing.name}` : 'Add Project'}</DialogTitle>
+            <DialogDescription>Archive a project once work on it ends; its logged time is kept.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label>Name *</Label>
+                <Input
+                  value={draft.name}
+                  onChange={(e) => setDraft(prev => ({ ...prev, name: e.target.value }))}
+                  placeholder="Website redesign"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>Code</Label>
+                <Input
+                  value={draft.code || ''}
+                  onChange={(e) => setDraft(prev => ({ ...prev, code: e.target.value }))}
+                  placeholder="WEB-24"
+                />
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label>Client</Label>
+              <Input
+                value={draft.client_name || ''}
+                onChange={(e) => setDraft(prev => ({ ...prev, client_name: e.target.value }))}
+                placeholder="Acme Corp"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              {([
+                ['is_billable', 'Billable'],
+                ['is_active', 'Active'],
+              ] as const).map(([field, label]) => (
+                <div key={field} className="flex items-center justify-between p-2 rounded-lg border border-border">
+                  <Label className="text-sm">{label}</Label>
+                  <Switch
+                    checked={draft[field]}
+                    onCheckedChange={(checked) => setDraft(prev => ({ ...prev, [field]: checked }))}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>Cancel</Button>
+            <Button onClick={handleSave} disabled={saveProject.isPending}>
+              {editing ? 'Save Changes' : 'Add Project'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
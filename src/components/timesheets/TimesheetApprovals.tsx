@@ -0,0 +1,141 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Check, ChevronDown, ChevronUp, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { useApproveTimesheet, usePendingTimesheets, useProjects, useRejectTimesheet } from '@/hooks/useTimesheets';
+import { formatWorkedMinutes } from '@/lib/attendanceBreaks';
+import { addDaysToDate } from '@/lib/timezone';
+import { formatDay } from '@/lib/timesheets';
+import { Timesheet } from '@/types/hrms';
+import { mapDatabaseError } from '@/utils/errorMapper';
+
+interface TimesheetApprovalsProps {
+  userId: string;
+  companyId: string;
+}
+
+/**
+ * Submitted weeks waiting for the approver's decision, with the hours per
+ * project. Renders nothing while there are none.
+ */
+export function TimesheetApprovals({ userId, companyId }: TimesheetApprovalsProps) {
+  const { data: timesheets = [] } = usePendingTimesheets(userId, companyId);
+  const { data: projects = [] } = useProjects(companyId);
+  const approveTimesheet = useApproveTimesheet();
+  const rejectTimesheet = useRejectTimesheet();
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const busy = approveTimesheet.isPending || rejectTimesheet.isPending;
+
+  const handleApprove = async (timesheet: Timesheet) => {
+    try {
+      await approveTimesheet.mutateAsync({ timesheet, approvedBy: userId });
+      toast.success('Timesheet approved');
+    } catch (error) {
+      toast.error(mapDatabaseError(error));
+    }
+  };
+
+  const handleReject = async (timesheet: Timesheet) => {
+    try {
+      await rejectTimesheet.mutateAsync({ timesheet, rejectedBy: userId });
+      toast.success('Timesheet sent back to the employee');
+    } catch (error) {
+      toast.error(mapDatabaseError(error));
+    }
+  };
+
+  const byProject = (timesheet: Timesheet) => {
+    const totals = new Map<string, number>();
+    (timesheet.entries || []).forEach(e => totals.set(e.project_id, (totals.get(e.project_id) || 0) + e.minutes));
+    return [...totals.entries()].map(([projectId, minutes]) => ({
+      name: projects.find(p => p.id === projectId)?.name || 'Unknown project',
+      minutes,
+    }));
+  };
+
+  if (timesheets.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg font-semibold">Timesheet Approvals</CardTitle>
+        <CardDescription>Approved billable hours count towards utilization and client billing.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {timesheets.map(timesheet => {
+          const entries = timesheet.entries || [];
+          const total = entries.reduce((sum, e) => sum + e.minutes, 0);
+          const billable = entries.filter(e => e.is_billable).reduce((sum, e) => sum + e.minutes, 0);
+          const isExpanded = expanded === timesheet.id;
+
+          return (
+            <div key={timesheet.id} className="p-4 rounded-lg border border-border space-y-3">
+              <div className="flex items-center justify-between gap-3">
+                <div className="space-y-0.5">
+                  <p className="font-medium text-foreground">
+                    {timesheet.profile ? `${timesheet.profile.first_name} ${timesheet.profile.last_name}` : 'Unknown'}
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    Week of {formatDay(timesheet.week_start, 'MMM d')} - {formatDay(addDaysToDate(timesheet.week_start, 6), 'MMM d, yyyy')}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Badge variant="outline">
+                    {formatWorkedMinutes(total)} · {formatWorkedMinutes(billable)} billable
+                  </Badge>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="h-8 w-8 p-0"
+                    onClick={() => setExpanded(isExpanded ? null : timesheet.id)}
+                    aria-label={isExpanded ? 'Hide entries' : 'Show entries'}
+                  >
+                    {isExpanded ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="h-8 w-8 p-0 text-green-600 hover:text-green-700 hover:bg-green-100"
+                    onClick={() => handleApprove(timesheet)}
+                    disabled={busy}
+                  >
+                    <Check className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="h-8 w-8 p-0 text-destructive hover:text-destructive hover:bg-red-100"
+                    onClick={() => handleReject(timesheet)}
+                    disabled={busy}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {byProject(timesheet).map(p => (
+                  <Badge key={p.name} variant="secondary">{p.name}: {formatWorkedMinutes(p.minutes)}</Badge>
+                ))}
+              </div>
+              {isExpanded && (
+                <div className="space-y-1 text-sm">
+                  {entries.map(entry => (
+                    <div key={entry.id} className="flex items-center justify-between gap-3">
+                      <span className="text-muted-foreground">
+                        {formatDay(entry.work_date, 'EEE, MMM d')} · {projects.find(p => p.id === entry.project_id)?.name || 'Unknown project'}
+                        {entry.notes && ` · ${entry.notes}`}
+                      </span>
+                      <span className="font-mono text-foreground">{formatWorkedMinutes(entry.minutes)}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
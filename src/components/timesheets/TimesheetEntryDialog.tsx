@@ -0,0 +1,188 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { toast } from 'sonner';
+import { useAuth } from '@/contexts/AuthContext';
+import { useProjects, useSaveTimesheetEntry } from '@/hooks/useTimesheets';
+import { formatWorkedMinutes } from '@/lib/attendanceBreaks';
+import { formatDay, parseDuration } from '@/lib/timesheets';
+import { TimesheetEntry } from '@/types/hrms';
+import { mapDatabaseError } from '@/utils/errorMapper';
+
+const NO_TASK = 'none';
+
+interface TimesheetEntryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Days of the week that can still take hours */
+  dates: string[];
+  defaultDate: string;
+  /** Hours attended and not yet logged, per day */
+  remaining: Record<string, number>;
+  entry: TimesheetEntry | null;
+}
+
+/**
+ * Log time against a project on a day of the week, or change an entry
+ */
+export function TimesheetEntryDialog({ open, onOpenChange, dates, defaultDate, remaining, entry }: TimesheetEntryDialogProps) {
+  const { user, profile } = useAuth();
+  const companyId = profile?.company_id || null;
+  const { data: projects = [] } = useProjects(companyId);
+  const saveEntry = useSaveTimesheetEntry();
+  const [workDate, setWorkDate] = useState(defaultDate);
+  const [projectId, setProjectId] = useState('');
+  const [taskId, setTaskId] = useState(NO_TASK);
+  const [hours, setHours] = useState('');
+  const [notes, setNotes] = useState('');
+
+  useEffect(() => {
+    if (!open) return;
+    setWorkDate(entry?.work_date || defaultDate);
+    setProjectId(entry?.project_id || '');
+    setTaskId(entry?.task_id || NO_TASK);
+    setHours(entry ? String(Math.round(entry.minutes / 60 * 100) / 100) : '');
+    setNotes(entry?.notes || '');
+  }, [open, entry, defaultDate]);
+
+  // Archived projects and tasks stay selectable on the entries that use them
+  const activeProjects = projects.filter(p => p.is_active || p.id === entry?.project_id);
+  const project = projects.find(p => p.id === projectId);
+  const tasks = (project?.tasks || []).filter(t => t.is_active || t.id === entry?.task_id);
+  const available = (remaining[workDate] || 0) + (entry?.work_date === workDate ? entry.minutes : 0);
+
+  const handleSubmit = async () => {
+    if (!user || !companyId) return;
+    const minutes = parseDuration(hours);
+    if (!projectId) {
+      toast.error('Choose a project');
+      return;
+    }
+    if (!minutes) {
+      toast.error('Enter the hours as 1.5 or 1:30');
+      return;
+    }
+
+    try {
+      await saveEntry.mutateAsync({
+        input: {
+          companyId,
+          userId: user.id,
+          projectId,
+          taskId: taskId === NO_TASK ? null : taskId,
+          workDate,
+          minutes,
+          notes,
+        },
+        entryId: entry?.id,
+      });
+      toast.success(entry ? 'Entry updated' : `${formatWorkedMinutes(minutes)} logged to ${project?.name}`);
+      onOpenChange(false);
+    } catch (error) {
+      toast.error(mapDatabaseError(error));
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{entry ? 'Edit Entry' : 'Log Time'}</DialogTitle>
+          <DialogDescription>A day's entries cannot add up to more than the hours you attended.</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label>Day</Label>
+              <Select value={workDate} onValueChange={setWorkDate}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {dates.map(date => (
+                    <SelectItem key={date} value={date}>{formatDay(date, 'EEE, MMM d')}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Hours</Label>
+              <Input placeholder="e.g. 1.5 or 1:30" value={hours} onChange={(e) => setHours(e.target.value)} />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {available > 0 ? `${formatWorkedMinutes(available)} of attended time left to log on this day` : 'No attended time left to log on this day'}
+          </p>
+
+          <div className="space-y-2">
+            <Label>Project</Label>
+            <Select
+              value={projectId}
+              onValueChange={(value) => {
+                setProjectId(value);
+                setTaskId(NO_TASK);
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Choose a project" />
+              </SelectTrigger>
+              <SelectContent>
+                {activeProjects.map(p => (
+                  <SelectItem key={p.id} value={p.id}>
+                    {p.code ? `${p.code} · ${p.name}` : p.name}{p.is_billable ? '' : ' (internal)'}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {tasks.length > 0 && (
+            <div className="space-y-2">
+              <Label>Task</Label>
+              <Select value={taskId} onValueChange={setTaskId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_TASK}>No specific task</SelectItem>
+                  {tasks.map(t => (
+                    <SelectItem key={t.id} value={t.id}>
+                      {t.name}{t.is_billable ? '' : ' (non-billable)'}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>Notes</Label>
+            <Textarea
+              placeholder="What did you work on?"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={2}
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSubmit} disabled={saveEntry.isPending}>
+            {saveEntry.isPending ? 'Saving...' : entry ? 'Save' : 'Log Time'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,117 @@
+import { useState } from 'react';
+import { endOfMonth, format, startOfMonth } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Download } from 'lucide-react';
+import { toast } from 'sonner';
+import { useExportUtilization, useUtilizationReport } from '@/hooks/useTimesheets';
+import { formatWorkedMinutes } from '@/lib/attendanceBreaks';
+import { UtilizationRow } from '@/lib/timesheets';
+import { mapDatabaseError } from '@/utils/errorMapper';
+
+type GroupBy = 'employee' | 'department';
+
+interface UtilizationReportProps {
+  companyId: string;
+}
+
+/**
+ * Billable and non-billable hours from approved timesheets against attended
+ * hours, per employee or per department
+ */
+export function UtilizationReport({ companyId }: UtilizationReportProps) {
+  const now = new Date();
+  const [startDate, setStartDate] = useState(format(startOfMonth(now), 'yyyy-MM-dd'));
+  const [endDate, setEndDate] = useState(format(endOfMonth(now), 'yyyy-MM-dd'));
+  const [groupBy, setGroupBy] = useState<GroupBy>('employee');
+  const { data: report, isLoading } = useUtilizationReport(companyId, startDate, endDate);
+  const exportUtilization = useExportUtilization();
+
+  const rows = report ? (groupBy === 'employee' ? report.employees : report.departments) : [];
+
+  const handleExport = async () => {
+    if (!report) return;
+    try {
+      await exportUtilization.mutateAsync({ report, groupBy });
+    } catch (error) {
+      toast.error(mapDatabaseError(error));
+    }
+  };
+
+  const renderRow = (row: UtilizationRow, key: string, isTotal = false) => (
+    <TableRow key={key} className={isTotal ? 'font-semibold' : undefined}>
+      <TableCell>{row.name}</TableCell>
+      <TableCell className="text-muted-foreground">
+        {groupBy === 'employee' ? row.department : `${row.headcount} employees`}
+      </TableCell>
+      <TableCell className="text-right font-mono">{formatWorkedMinutes(row.attendedMinutes)}</TableCell>
+      <TableCell className="text-right font-mono">{formatWorkedMinutes(row.billableMinutes)}</TableCell>
+      <TableCell className="text-right font-mono">{formatWorkedMinutes(row.nonBillableMinutes)}</TableCell>
+      <TableCell className="text-right font-mono">{row.utilization === null ? '-' : `${row.utilization}%`}</TableCell>
+    </TableRow>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-end justify-between gap-3">
+          <div>
+            <CardTitle className="text-lg font-semibold">Utilization</CardTitle>
+            <CardDescription>Billable share of attended hours, from approved timesheets only.</CardDescription>
+          </div>
+          <div className="flex flex-wrap items-end gap-2">
+            <div className="space-y-1">
+              <Label className="text-xs">From</Label>
+              <Input type="date" value={startDate} max={endDate} onChange={(e) => setStartDate(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">To</Label>
+              <Input type="date" value={endDate} min={startDate} onChange={(e) => setEndDate(e.target.value)} />
+            </div>
+            <Select value={groupBy} onValueChange={(v) => setGroupBy(v as GroupBy)}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="employee">By employee</SelectItem>
+                <SelectItem value="department">By department</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button variant="outline" onClick={handleExport} disabled={!report || rows.length === 0 || exportUtilization.isPending}>
+              <Download className="h-4 w-4 mr-2" />
+              Export CSV
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : rows.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No attendance or approved time in this period.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{groupBy === 'employee' ? 'Employee' : 'Department'}</TableHead>
+                <TableHead>{groupBy === 'employee' ? 'Department' : 'Headcount'}</TableHead>
+                <TableHead className="text-right">Attended</TableHead>
+                <TableHead className="text-right">Billable</TableHead>
+                <TableHead className="text-right">Non-billable</TableHead>
+                <TableHead className="text-right">Utilization</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map(row => renderRow(row, row.id || row.name))}
+              {report && renderRow(report.total, 'total', true)}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,244 @@
+import { useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { ChevronLeft, ChevronRight, Pencil, Plus, Send, Trash2, Undo2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { useAuth } from '@/contexts/AuthContext';
+import { useAttendanceTimeZone, useDailySummaries } from '@/hooks/useAttendance';
+import {
+  useDeleteTimesheetEntry,
+  useProjects,
+  useSubmitTimesheet,
+  useTimesheet,
+  useWithdrawTimesheet,
+} from '@/hooks/useTimesheets';
+import { formatWorkedMinutes } from '@/lib/attendanceBreaks';
+import { addDaysToDate, getZonedDate } from '@/lib/timezone';
+import {
+  formatDay,
+  getWeekDates,
+  getWeekStart,
+  OPEN_TIMESHEET_STATUSES,
+  sumMinutesByDate,
+  TIMESHEET_STATUS_LABELS,
+} from '@/lib/timesheets';
+import { TimesheetEntry, TimesheetStatus } from '@/types/hrms';
+import { mapDatabaseError } from '@/utils/errorMapper';
+import { TimesheetEntryDialog } from './TimesheetEntryDialog';
+
+const STATUS_COLORS: Record<TimesheetStatus, string> = {
+  draft: 'bg-muted text-muted-foreground',
+  submitted: 'bg-amber-500/10 text-amber-600 border-amber-500/20',
+  approved: 'bg-green-500/10 text-green-600 border-green-500/20',
+  rejected: 'bg-destructive/10 text-destructive border-destructive/20',
+};
+
+/**
+ * The user's week of logged time beside the hours they attended each day,
+ * submitted to their manager once complete
+ */
+export function WeeklyTimesheet() {
+  const { user, profile } = useAuth();
+  const userId = user?.id || null;
+  const { data: timeZone } = useAttendanceTimeZone(userId, profile?.company_id || null);
+  const today = getZonedDate(new Date(), timeZone || Intl.DateTimeFormat().resolvedOptions().timeZone);
+  const [weekStart, setWeekStart] = useState(() => getWeekStart(today));
+  const weekDates = useMemo(() => getWeekDates(weekStart), [weekStart]);
+  const weekEnd = weekDates[6];
+
+  const { data: timesheet } = useTimesheet(userId, weekStart);
+  const { data: summaries = [] } = useDailySummaries(userId, weekStart, weekEnd);
+  const { data: projects = [] } = useProjects(profile?.company_id || null);
+  const submitTimesheet = useSubmitTimesheet();
+  const withdrawTimesheet = useWithdrawTimesheet();
+  const deleteEntry = useDeleteTimesheetEntry();
+
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<TimesheetEntry | null>(null);
+  const [dialogDate, setDialogDate] = useState(today);
+
+  const entries = useMemo(() => timesheet?.entries || [], [timesheet]);
+  const status: TimesheetStatus = timesheet?.status || 'draft';
+  const isOpen = OPEN_TIMESHEET_STATUSES.includes(status);
+  const loggableDates = weekDates.filter(date => date <= today);
+
+  const { attended, logged, remaining } = useMemo(() => {
+    const attended = Object.fromEntries(summaries.map(s => [s.work_date, s.worked_minutes]));
+    const logged = sumMinutesByDate(entries);
+    const remaining = Object.fromEntries(
+      weekDates.map(date => [date, Math.max(0, (attended[date] || 0) - (logged[date] || 0))])
+    );
+    return { attended, logged, remaining };
+  }, [summaries, entries, weekDates]);
+
+  const totalLogged = entries.reduce((sum, e) => sum + e.minutes, 0);
+  const totalBillable = entries.filter(e => e.is_billable).reduce((sum, e) => sum + e.minutes, 0);
+  const totalAttended = summaries.reduce((sum, s) => sum + s.worked_minutes, 0);
+
+  const describeEntry = (entry: TimesheetEntry) => {
+    const project = projects.find(p => p.id === entry.project_id);
+    const task = project?.tasks?.find(t => t.id === entry.task_id);
+    return [project?.name || 'Unknown project', task?.name].filter(Boolean).join(' · ');
+  };
+
+  const openDialog = (date: string, entry: TimesheetEntry | null = null) => {
+    setDialogDate(date);
+    setEditing(entry);
+    setDialogOpen(true);
+  };
+
+  const handleSubmit = async () => {
+    if (!timesheet) return;
+    try {
+      await submitTimesheet.mutateAsync(timesheet);
+      toast.success('Timesheet sent to your manager for approval');
+    } catch (error) {
+      toast.error(mapDatabaseError(error));
+    }
+  };
+
+  const handleWithdraw = async () => {
+    if (!timesheet) return;
+    try {
+      await withdrawTimesheet.mutateAsync(timesheet);
+      toast.success('Timesheet withdrawn; you can change it again');
+    } catch (error) {
+      toast.error(mapDatabaseError(error));
+    }
+  };
+
+  const handleDelete = async (entry: TimesheetEntry) => {
+    try {
+      await deleteEntry.mutateAsync(entry);
+      toast.success('Entry removed');
+    } catch (error) {
+      toast.error(mapDatabaseError(error));
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <CardTitle className="text-lg font-semibold flex items-center gap-2">
+              Week of {formatDay(weekStart, 'MMM d')} - {formatDay(weekEnd, 'MMM d, yyyy')}
+              <Badge variant="outline" className={STATUS_COLORS[status]}>{TIMESHEET_STATUS_LABELS[status]}</Badge>
+            </CardTitle>
+            <CardDescription>
+              {formatWorkedMinutes(totalLogged)} logged of {formatWorkedMinutes(totalAttended)} attended
+              {totalLogged > 0 && `, ${formatWorkedMinutes(totalBillable)} billable`}
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="icon" onClick={() => setWeekStart(addDaysToDate(weekStart, -7))} aria-label="Previous week">
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => setWeekStart(addDaysToDate(weekStart, 7))}
+              disabled={weekEnd >= today}
+              aria-label="Next week"
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+            {isOpen && (
+              <>
+                <Button variant="outline" onClick={() => openDialog(loggableDates[loggableDates.length - 1])} disabled={loggableDates.length === 0}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Log Time
+                </Button>
+                <Button onClick={handleSubmit} disabled={!timesheet || entries.length === 0 || submitTimesheet.isPending}>
+                  <Send className="h-4 w-4 mr-2" />
+                  {submitTimesheet.isPending ? 'Submitting...' : 'Submit Week'}
+                </Button>
+              </>
+            )}
+            {status === 'submitted' && (
+              <Button variant="outline" onClick={handleWithdraw} disabled={withdrawTimesheet.isPending}>
+                <Undo2 className="h-4 w-4 mr-2" />
+                Withdraw
+              </Button>
+            )}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {status === 'rejected' && (
+          <Alert variant="destructive">
+            <AlertDescription>
+              Your manager sent this week back{timesheet?.rejection_reason ? `: ${timesheet.rejection_reason}` : ''}. Make the changes and submit it again.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {weekDates.map(date => {
+          const dayEntries = entries.filter(e => e.work_date === date);
+          const dayAttended = attended[date] || 0;
+          return (
+            <div key={date} className="p-4 rounded-lg border border-border space-y-2">
+              <div className="flex items-center justify-between gap-3">
+                <p className="font-medium text-foreground">{formatDay(date, 'EEEE, MMM d')}</p>
+                <div className="flex items-center gap-2">
+                  <span className="text-sm text-muted-foreground">
+                    {dayAttended > 0
+                      ? `${formatWorkedMinutes(logged[date] || 0)} of ${formatWorkedMinutes(dayAttended)}`
+                      : 'No attendance'}
+                  </span>
+                  {isOpen && remaining[date] > 0 && (
+                    <Button size="sm" variant="ghost" className="h-8 w-8 p-0" onClick={() => openDialog(date)} aria-label="Log time">
+                      <Plus className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+              {dayEntries.map(entry => (
+                <div key={entry.id} className="flex items-center justify-between gap-3 text-sm">
+                  <div className="min-w-0">
+                    <p className="text-foreground truncate">
+                      {describeEntry(entry)}
+                      {!entry.is_billable && <span className="text-muted-foreground"> · non-billable</span>}
+                    </p>
+                    {entry.notes && <p className="text-xs text-muted-foreground truncate">{entry.notes}</p>}
+                  </div>
+                  <div className="flex items-center gap-1 shrink-0">
+                    <span className="font-mono text-foreground mr-2">{formatWorkedMinutes(entry.minutes)}</span>
+                    {isOpen && (
+                      <>
+                        <Button size="sm" variant="ghost" className="h-8 w-8 p-0" onClick={() => openDialog(date, entry)} aria-label="Edit entry">
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="h-8 w-8 p-0 text-destructive hover:text-destructive"
+                          onClick={() => handleDelete(entry)}
+                          disabled={deleteEntry.isPending}
+                          aria-label="Remove entry"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          );
+        })}
+      </CardContent>
+
+      <TimesheetEntryDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        dates={loggableDates}
+        defaultDate={dialogDate}
+        remaining={remaining}
+        entry={editing}
+      />
+    </Card>
+  );
+}
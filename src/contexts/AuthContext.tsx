@@ -175,14 +175,6 @@ export function AuthProvider({ children }: { children: ReactNode }) {
           });
 
         if (roleError) return { error: roleError as any };
-
-        // Create leave balance
-        await supabase
-          .from('leave_balances')
-          .insert({
-            user_id: authData.user.id,
-            company_id: companyId,
-          });
       }
 
       return { error: null };
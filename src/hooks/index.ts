@@ -1,9 +1,27 @@
 // src/hooks/index.ts
 export { useEmployees, useEmployee, useCreateEmployee, useUpdateEmployee, useDeleteEmployee, useBulkCreateEmployees } from './useEmployees';
-export { usePayroll, usePayrollByMonth, useProcessPayroll, useUpdatePayrollStatus, useBulkProcessPayroll } from './usePayroll';
-export { useAttendance, useAttendanceById, useUserAttendance, useTodayAttendance, useSignIn, useSignOut, useMarkAbsent, useAttendanceReport, useUpdateAttendanceStatus, useBulkMarkAttendance } from './useAttendance';
-export { useLeaveRequests, useLeaveRequestById, useLeaveBalance, useUserLeaveRequests, usePendingLeaveRequests, useCreateLeaveRequest, useApproveLeaveRequest, useRejectLeaveRequest, useUpdateLeaveBalance } from './useLeaves';
-export { useCompanySettings, useUpdateCompanySettings, useHolidays, useAddHoliday, useUpdateHoliday, useDeleteHoliday, useDepartments, useAddDepartment, useUpdateDepartment, useDeleteDepartment } from './useSettings';
+export { usePayroll, usePayrollByMonth, usePayrollForRun, useProcessPayroll, useUpdatePayrollStatus, useBulkProcessPayroll } from './usePayroll';
+export { usePayrollRuns, usePayrollRunTransitions, useStartPayrollRun, useTransitionPayrollRun, useCreateReversalRun, useCreateOffCycleRun } from './usePayrollRuns';
+export { useBankPayoutPreview, useExportBankPayout } from './useBankPayout';
+export { useStatutoryReturns, useExportStatutoryReturn } from './useStatutoryReturns';
+export { useMyPayslips, useDownloadPayslip, useDownloadMonthlyPayslips } from './usePayslips';
+export { useAttendance, useAttendanceById, useUserAttendance, useTodayAttendance, useAttendanceTimeZone, useRecentSegments, useDaySegments, useDailySummaries, useExportDailyAttendance, useSignIn, useStartBreak, useSignOut, useMarkAbsent, useAttendanceReport, useUpdateAttendanceStatus, useBulkMarkAttendance, useAttendanceRules, useUpdateAttendanceRules, useCloseOutAttendance, useLatestDayClosure, useAttendanceDayClose, usePendingPunches, useQueuePunch, useDismissPunchConflict, useOfflinePunchSync } from './useAttendance';
+export { useLeaveRequests, useLeaveRequestById, useLeaveBalance, useLeaveLedger, useUserLeaveRequests, usePendingLeaveRequests, useCreateLeaveRequest, useApproveLeaveRequest, useRejectLeaveRequest, useCancelLeaveRequest, useAdjustLeaveBalance } from './useLeaves';
+export { useLeavePolicies, useSaveLeavePolicy, useDeleteLeavePolicy, useRunLeaveAccrual, useCloseLeaveYear } from './useLeavePolicies';
+export { useLeaveTypes, useCreateLeaveType, useUpdateLeaveType, useDeleteLeaveType } from './useLeaveTypes';
+export { useLeaveApprovalConfig, useUpdateLeaveApprovalConfig, useLeaveApprovalInbox, useRequestApprovals, useLeaveDelegations, useCreateLeaveDelegation, useDeleteLeaveDelegation } from './useLeaveApprovals';
+export { useTeamLeave, useDepartmentLeave, useStaffingRules, useSaveStaffingRule, useDeleteStaffingRule, useStaffingCheck } from './useTeamCalendar';
+export { useCompOffConfig, useUpdateCompOffConfig, useCompOffCredits, usePendingCompOffCredits, useApproveCompOffCredit, useRejectCompOffCredit } from './useCompOff';
+export { useWorkSessions, useShiftRotations, useSaveShiftRotation, useDeleteShiftRotation, useShiftAssignments, useAssignShift, useDeleteShiftAssignment, useRosterDay } from './useShiftRoster';
+export { useOfficeLocations, useSaveOfficeLocation, useDeleteOfficeLocation, useFlaggedPunches, useReviewPunch } from './useGeofence';
+export { useRegularizationRequests, usePendingRegularizations, useSubmitRegularization, useCancelRegularization, useApproveRegularization, useRejectRegularization } from './useRegularization';
+export { useProjects, useSaveProject, useCreateProjectTask, useUpdateProjectTask, useTimesheet, useSaveTimesheetEntry, useDeleteTimesheetEntry, useSubmitTimesheet, useWithdrawTimesheet, usePendingTimesheets, useApproveTimesheet, useRejectTimesheet, useUtilizationReport, useExportUtilization } from './useTimesheets';
+export { useOnboardingTemplates, useSaveOnboardingTemplate, useDeleteOnboardingTemplate, useSaveOnboardingTemplateTask, useDeleteOnboardingTemplateTask, useOnboarding, useActiveOnboardings, useAssignedOnboardingTasks, useStartOnboarding, useSetOnboardingTaskDone, useUploadOnboardingDocument, useReviewOnboardingDocument, useOnboardingReminders } from './useOnboarding';
+export { useNotifications, useMarkNotificationsRead } from './useNotifications';
+export { useCompanySettings, useUpdateCompanySettings, usePayrollConfig, useUpdatePayrollConfig, useBusinessCalendar, useHolidays, useAddHoliday, useUpdateHoliday, useDeleteHoliday, useDepartments, useAddDepartment, useUpdateDepartment, useDeleteDepartment } from './useSettings';
+export { useSalaryStructures, useCreateSalaryStructure, useUpdateSalaryStructure, useDeleteSalaryStructure, useAddSalaryComponent, useDeleteSalaryComponent } from './useSalaryStructures';
+export { useTaxSlabConfigs, useTaxDeclaration, useSaveTaxDeclaration } from './useTax';
+export { useProfessionalTaxSlabs, useSaveProfessionalTaxSlabs, useResetProfessionalTaxSlabs } from './useProfessionalTax';
 export { useDashboardMetrics, useAttendanceAnalytics, usePayrollAnalytics, useLeaveAnalytics, useEmployeeMetrics } from './useAnalytics';
 export { useDebounce, useDebouncedCallback } from './useDebounce';
 export { useRateLimit, useThrottle } from './useRateLimit';
@@ -1,6 +1,11 @@
 // src/hooks/useAttendance.ts
+import { useEffect } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { attendanceService } from '@/services/attendanceService';
+import { queueOfflinePunch, startAttendanceDayClose, startOfflinePunchSync } from '@/services/attendanceJobs';
+import { offlinePunchStore } from '@/services/offlinePunchStore';
+import { exportService } from '@/services/exportService';
+import { AttendanceDailySummary, AttendanceRules, BreakType, OfflinePunch } from '@/types/hrms';
 
 export function useAttendance(filters = {}) {
   return useQuery({
@@ -31,25 +36,80 @@ export function useUserAttendance(userId: string | null, limit: number = 30) {
   });
 }
 
-export function useTodayAttendance() {
+export function useTodayAttendance(companyId: string | null) {
   return useQuery({
-    queryKey: ['attendance', 'today'],
-    queryFn: () => attendanceService.getTodayAttendance(),
+    queryKey: ['attendance', 'today', companyId],
+    queryFn: () => attendanceService.getTodayAttendance(companyId!),
+    enabled: !!companyId,
     staleTime: 1 * 60 * 1000, // 1 minute
     gcTime: 5 * 60 * 1000,
     refetchInterval: 30 * 1000, // Refetch every 30 seconds
   });
 }
 
+export function useAttendanceTimeZone(userId: string | null, companyId: string | null) {
+  return useQuery({
+    queryKey: ['attendance', 'timezone', userId, companyId],
+    queryFn: () => attendanceService.getTimeZone(userId, companyId),
+    enabled: !!userId || !!companyId,
+    staleTime: 10 * 60 * 1000,
+  });
+}
+
+export function useRecentSegments(userId: string | null) {
+  return useQuery({
+    queryKey: ['attendance', 'recent', userId],
+    queryFn: () => attendanceService.getRecentSegments(userId!),
+    enabled: !!userId,
+    staleTime: 60 * 1000,
+  });
+}
+
+export function useDaySegments(userId: string | null, date: string | null) {
+  return useQuery({
+    queryKey: ['attendance', 'segments', userId, date],
+    queryFn: () => attendanceService.getDaySegments(userId!, date!),
+    enabled: !!userId && !!date,
+    staleTime: 2 * 60 * 1000,
+  });
+}
+
+export function useDailySummaries(userId: string | null, startDate: string, endDate: string) {
+  return useQuery({
+    queryKey: ['attendance', 'daily', userId, startDate, endDate],
+    queryFn: () => attendanceService.getDailySummaries(userId!, startDate, endDate),
+    enabled: !!userId,
+    staleTime: 2 * 60 * 1000,
+  });
+}
+
+export function useExportDailyAttendance() {
+  return useMutation({
+    mutationFn: (summaries: AttendanceDailySummary[]) => exportService.exportDailyAttendanceToCSV(summaries),
+  });
+}
+
+// Every punch changes the day's segments and its summary
 export function useSignIn() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: ({ userId, lat, lng }: { userId: string; lat?: number; lng?: number }) =>
-      attendanceService.signIn(userId, lat, lng),
-    onSuccess: (_, variables) => {
-      queryClient.invalidateQueries({ queryKey: ['attendance', variables.userId] });
-      queryClient.invalidateQueries({ queryKey: ['attendance', 'today'] });
+    mutationFn: ({ userId, companyId, lat, lng }: { userId: string; companyId: string | null; lat?: number; lng?: number }) =>
+      attendanceService.signIn(userId, companyId, lat, lng),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['attendance'] });
+    },
+  });
+}
+
+export function useStartBreak() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ attendanceId, breakType, lat, lng }: { attendanceId: string; breakType: BreakType; lat?: number; lng?: number }) =>
+      attendanceService.startBreak(attendanceId, breakType, lat, lng),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['attendance'] });
     },
   });
 }
@@ -60,9 +120,8 @@ export function useSignOut() {
   return useMutation({
     mutationFn: ({ attendanceId, lat, lng }: { attendanceId: string; lat?: number; lng?: number }) =>
       attendanceService.signOut(attendanceId, lat, lng),
-    onSuccess: (_, variables) => {
-      queryClient.invalidateQueries({ queryKey: ['attendance', variables.attendanceId] });
-      queryClient.invalidateQueries({ queryKey: ['attendance', 'today'] });
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['attendance'] });
     },
   });
 }
@@ -115,3 +174,107 @@ export function useBulkMarkAttendance() {
     },
   });
 }
+
+export function useAttendanceRules(companyId: string | null) {
+  return useQuery({
+    queryKey: ['attendance_rules', companyId],
+    queryFn: () => attendanceService.getAttendanceRules(companyId!),
+    enabled: !!companyId,
+    staleTime: 15 * 60 * 1000,
+    gcTime: 30 * 60 * 1000,
+  });
+}
+
+export function useUpdateAttendanceRules(companyId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (rules: AttendanceRules) => attendanceService.updateAttendanceRules(companyId, rules),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['attendance_rules', companyId] });
+    },
+  });
+}
+
+export function useCloseOutAttendance(companyId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: () => attendanceService.closeOutPastDays(companyId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['attendance'] });
+    },
+  });
+}
+
+export function useLatestDayClosure(companyId: string | null) {
+  return useQuery({
+    queryKey: ['attendance_day_closure', companyId],
+    queryFn: () => attendanceService.getLatestDayClosure(companyId!),
+    enabled: !!companyId,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+/**
+ * Keep the company's nightly attendance close running on the job queue
+ */
+export function useAttendanceDayClose(companyId: string | null) {
+  useEffect(() => {
+    if (companyId) startAttendanceDayClose(companyId);
+  }, [companyId]);
+}
+
+export function usePendingPunches(userId: string | null) {
+  return useQuery({
+    queryKey: ['attendance', 'offline', userId],
+    queryFn: () => offlinePunchStore.list(userId!),
+    enabled: !!userId,
+    staleTime: Infinity,
+  });
+}
+
+export function useQueuePunch() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (punch: Parameters<typeof queueOfflinePunch>[0]) => queueOfflinePunch(punch),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['attendance'] });
+    },
+  });
+}
+
+export function useDismissPunchConflict() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (punch: OfflinePunch) => offlinePunchStore.remove(punch.id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['attendance', 'offline'] });
+    },
+  });
+}
+
+/**
+ * Replay the user's offline punches now and whenever the device reconnects,
+ * refreshing attendance as each one lands
+ */
+export function useOfflinePunchSync(userId: string | null) {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const sync = () => startOfflinePunchSync(userId);
+    const unsubscribe = offlinePunchStore.subscribe(() => {
+      queryClient.invalidateQueries({ queryKey: ['attendance'] });
+    });
+    sync();
+    window.addEventListener('online', sync);
+    return () => {
+      window.removeEventListener('online', sync);
+      unsubscribe();
+    };
+  }, [userId, queryClient]);
+}
@@ -0,0 +1,26 @@
+// src/hooks/useBankPayout.ts
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { exportService } from '@/services/exportService';
+import { BankPayoutFormat, PayrollRun } from '@/types/hrms';
+import { PayoutOptions } from '@/lib/bankPayout';
+
+export function useBankPayoutPreview(run: PayrollRun | null, enabled = true) {
+  return useQuery({
+    queryKey: ['bank-payout', run?.id],
+    queryFn: () => exportService.getBankPayoutPreview(run!),
+    enabled: !!run && enabled,
+  });
+}
+
+export function useExportBankPayout() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ run, format, options }: { run: PayrollRun; format: BankPayoutFormat; options: PayoutOptions }) =>
+      exportService.exportBankPayoutFile(run, format, options),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['payroll-runs'] });
+      queryClient.invalidateQueries({ queryKey: ['payroll-run-transitions'] });
+    },
+  });
+}
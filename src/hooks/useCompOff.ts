@@ -0,0 +1,73 @@
+// src/hooks/useCompOff.ts
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { compOffService } from '@/services/compOffService';
+import { CompOffConfig, CompOffCredit } from '@/types/hrms';
+
+export function useCompOffConfig(companyId: string | null) {
+  return useQuery({
+    queryKey: ['comp_off_config', companyId],
+    queryFn: () => compOffService.getConfig(companyId!),
+    enabled: !!companyId,
+    staleTime: 15 * 60 * 1000,
+    gcTime: 30 * 60 * 1000,
+  });
+}
+
+export function useUpdateCompOffConfig(companyId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (config: CompOffConfig) => compOffService.updateConfig(companyId, config),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['comp_off_config', companyId] });
+    },
+  });
+}
+
+export function useCompOffCredits(userId: string | null, companyId: string | null) {
+  return useQuery({
+    queryKey: ['comp_off_credits', userId, companyId],
+    queryFn: () => compOffService.getUserCredits(userId!, companyId!),
+    enabled: !!userId && !!companyId,
+    staleTime: 60 * 1000,
+    gcTime: 5 * 60 * 1000,
+  });
+}
+
+export function usePendingCompOffCredits(userId: string | null, companyId: string | null) {
+  return useQuery({
+    queryKey: ['comp_off_pending', userId, companyId],
+    queryFn: () => compOffService.getPendingCredits(userId!, companyId!),
+    enabled: !!userId && !!companyId,
+    staleTime: 60 * 1000,
+    gcTime: 5 * 60 * 1000,
+  });
+}
+
+export function useApproveCompOffCredit() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ credit, approvedBy }: { credit: CompOffCredit; approvedBy: string }) =>
+      compOffService.approveCredit(credit, approvedBy),
+    onSuccess: (credit) => {
+      queryClient.invalidateQueries({ queryKey: ['comp_off_pending'] });
+      queryClient.invalidateQueries({ queryKey: ['comp_off_credits', credit.user_id] });
+      queryClient.invalidateQueries({ queryKey: ['leave_balance', credit.user_id] });
+      queryClient.invalidateQueries({ queryKey: ['leave_ledger', credit.user_id] });
+    },
+  });
+}
+
+export function useRejectCompOffCredit() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ credit, rejectedBy, reason }: { credit: CompOffCredit; rejectedBy: string; reason?: string }) =>
+      compOffService.rejectCredit(credit, rejectedBy, reason),
+    onSuccess: (credit) => {
+      queryClient.invalidateQueries({ queryKey: ['comp_off_pending'] });
+      queryClient.invalidateQueries({ queryKey: ['comp_off_credits', credit.user_id] });
+    },
+  });
+}
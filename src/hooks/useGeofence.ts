@@ -0,0 +1,61 @@
+// src/hooks/useGeofence.ts
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { geofenceService, OfficeLocationInput } from '@/services/geofenceService';
+import { AttendanceSession } from '@/types/hrms';
+
+export function useOfficeLocations(companyId: string | null) {
+  return useQuery({
+    queryKey: ['office_locations', companyId],
+    queryFn: () => geofenceService.getOfficeLocations(companyId!),
+    enabled: !!companyId,
+    staleTime: 15 * 60 * 1000,
+    gcTime: 30 * 60 * 1000,
+  });
+}
+
+export function useSaveOfficeLocation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: OfficeLocationInput) => geofenceService.saveOfficeLocation(input),
+    onSuccess: (office) => {
+      queryClient.invalidateQueries({ queryKey: ['office_locations', office.company_id] });
+    },
+  });
+}
+
+export function useDeleteOfficeLocation(companyId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => geofenceService.deleteOfficeLocation(id, companyId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['office_locations', companyId] });
+    },
+  });
+}
+
+export function useFlaggedPunches(companyId: string | null) {
+  return useQuery({
+    queryKey: ['flagged_punches', companyId],
+    queryFn: () => geofenceService.getFlaggedPunches(companyId!),
+    enabled: !!companyId,
+    staleTime: 60 * 1000,
+  });
+}
+
+export function useReviewPunch() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ session, reviewedBy, decision }: {
+      session: AttendanceSession;
+      reviewedBy: string;
+      decision: 'approved' | 'rejected';
+    }) => geofenceService.reviewPunch(session, reviewedBy, decision),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['flagged_punches'] });
+      queryClient.invalidateQueries({ queryKey: ['attendance'] });
+    },
+  });
+}
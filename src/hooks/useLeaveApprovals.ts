@@ -0,0 +1,80 @@
+// src/hooks/useLeaveApprovals.ts
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { leaveApprovalService, LeaveDelegationInput } from '@/services/leaveApprovalService';
+import { LeaveApprovalConfig } from '@/types/hrms';
+
+export function useLeaveApprovalConfig(companyId: string | null) {
+  return useQuery({
+    queryKey: ['leave_approval_config', companyId],
+    queryFn: () => leaveApprovalService.getConfig(companyId!),
+    enabled: !!companyId,
+    staleTime: 15 * 60 * 1000,
+    gcTime: 30 * 60 * 1000,
+  });
+}
+
+export function useUpdateLeaveApprovalConfig(companyId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (config: LeaveApprovalConfig) => leaveApprovalService.updateConfig(companyId, config),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['leave_approval_config', companyId] });
+    },
+  });
+}
+
+export function useLeaveApprovalInbox(userId: string | null, companyId: string | null) {
+  return useQuery({
+    queryKey: ['leave_inbox', userId, companyId],
+    queryFn: () => leaveApprovalService.getInbox(userId!, companyId!),
+    enabled: !!userId && !!companyId,
+    staleTime: 60 * 1000,
+    gcTime: 5 * 60 * 1000,
+    refetchInterval: 5 * 60 * 1000,
+  });
+}
+
+export function useRequestApprovals(requestIds: string[]) {
+  return useQuery({
+    queryKey: ['leave_approvals', requestIds],
+    queryFn: () => leaveApprovalService.getRequestApprovals(requestIds),
+    enabled: requestIds.length > 0,
+    staleTime: 60 * 1000,
+    gcTime: 5 * 60 * 1000,
+  });
+}
+
+export function useLeaveDelegations(companyId: string | null) {
+  return useQuery({
+    queryKey: ['leave_delegations', companyId],
+    queryFn: () => leaveApprovalService.getDelegations(companyId!),
+    enabled: !!companyId,
+    staleTime: 5 * 60 * 1000,
+    gcTime: 10 * 60 * 1000,
+  });
+}
+
+export function useCreateLeaveDelegation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: LeaveDelegationInput) => leaveApprovalService.createDelegation(input),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['leave_delegations', variables.companyId] });
+      queryClient.invalidateQueries({ queryKey: ['leave_inbox'] });
+    },
+  });
+}
+
+export function useDeleteLeaveDelegation(companyId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => leaveApprovalService.deleteDelegation(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['leave_delegations', companyId] });
+      queryClient.invalidateQueries({ queryKey: ['leave_inbox'] });
+    },
+  });
+}
@@ -0,0 +1,64 @@
+// src/hooks/useLeavePolicies.ts
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { leavePolicyService } from '@/services/leavePolicyService';
+import { LeavePolicyInput } from '@/lib/leavePolicy';
+
+export function useLeavePolicies(companyId: string | null) {
+  return useQuery({
+    queryKey: ['leave_policies', companyId],
+    queryFn: () => leavePolicyService.getPolicies(companyId!),
+    enabled: !!companyId,
+    staleTime: 15 * 60 * 1000,
+    gcTime: 30 * 60 * 1000,
+  });
+}
+
+export function useSaveLeavePolicy(companyId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (policy: LeavePolicyInput) => leavePolicyService.savePolicy(companyId, policy),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['leave_policies', companyId] });
+      queryClient.invalidateQueries({ queryKey: ['leave_balance'] });
+    },
+  });
+}
+
+export function useDeleteLeavePolicy(companyId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => leavePolicyService.deletePolicy(companyId, id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['leave_policies', companyId] });
+      queryClient.invalidateQueries({ queryKey: ['leave_balance'] });
+    },
+  });
+}
+
+export function useRunLeaveAccrual(companyId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ month, year, createdBy }: { month: number; year: number; createdBy?: string }) =>
+      leavePolicyService.runAccruals(companyId, month, year, createdBy),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['leave_balance'] });
+      queryClient.invalidateQueries({ queryKey: ['leave_ledger'] });
+    },
+  });
+}
+
+export function useCloseLeaveYear(companyId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ year, createdBy }: { year: number; createdBy?: string }) =>
+      leavePolicyService.closeLeaveYear(companyId, year, createdBy),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['leave_balance'] });
+      queryClient.invalidateQueries({ queryKey: ['leave_ledger'] });
+    },
+  });
+}
@@ -0,0 +1,53 @@
+// src/hooks/useLeaveTypes.ts
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { leaveTypeService } from '@/services/leaveTypeService';
+import { LeaveTypeInput } from '@/lib/leaveTypes';
+import { LeaveType } from '@/types/hrms';
+
+export function useLeaveTypes(companyId: string | null) {
+  return useQuery({
+    queryKey: ['leave_types', companyId],
+    queryFn: () => leaveTypeService.getLeaveTypes(companyId!),
+    enabled: !!companyId,
+    staleTime: 15 * 60 * 1000,
+    gcTime: 30 * 60 * 1000,
+  });
+}
+
+export function useCreateLeaveType(companyId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: LeaveTypeInput) => leaveTypeService.createLeaveType(companyId, input),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['leave_types', companyId] });
+      queryClient.invalidateQueries({ queryKey: ['leave_balance'] });
+    },
+  });
+}
+
+export function useUpdateLeaveType(companyId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, updates }: { id: string; updates: Partial<Omit<LeaveTypeInput, 'code'>> }) =>
+      leaveTypeService.updateLeaveType(companyId, id, updates),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['leave_types', companyId] });
+      queryClient.invalidateQueries({ queryKey: ['leave_balance'] });
+    },
+  });
+}
+
+export function useDeleteLeaveType(companyId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (type: Pick<LeaveType, 'id' | 'code' | 'name'>) => leaveTypeService.deleteLeaveType(companyId, type),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['leave_types', companyId] });
+      queryClient.invalidateQueries({ queryKey: ['leave_policies', companyId] });
+      queryClient.invalidateQueries({ queryKey: ['leave_balance'] });
+    },
+  });
+}
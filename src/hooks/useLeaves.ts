@@ -1,6 +1,6 @@
 // src/hooks/useLeaves.ts
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { leaveService } from '@/services/leaveService';
+import { leaveService, LeaveAdjustmentInput } from '@/services/leaveService';
 
 export function useLeaveRequests(filters = {}) {
   return useQuery({
@@ -31,6 +31,16 @@ export function useLeaveBalance(userId: string | null) {
   });
 }
 
+export function useLeaveLedger(userId: string | null) {
+  return useQuery({
+    queryKey: ['leave_ledger', userId],
+    queryFn: () => leaveService.getLeaveLedger(userId!),
+    enabled: !!userId,
+    staleTime: 5 * 60 * 1000,
+    gcTime: 10 * 60 * 1000,
+  });
+}
+
 export function useUserLeaveRequests(userId: string | null) {
   return useQuery({
     queryKey: ['user_leaves', userId],
@@ -41,10 +51,11 @@ export function useUserLeaveRequests(userId: string | null) {
   });
 }
 
-export function usePendingLeaveRequests() {
+export function usePendingLeaveRequests(userId: string | null, companyId: string | null) {
   return useQuery({
-    queryKey: ['pending_leaves'],
-    queryFn: () => leaveService.getPendingLeaveRequests(),
+    queryKey: ['pending_leaves', userId, companyId],
+    queryFn: () => leaveService.getPendingLeaveRequests(userId!, companyId!),
+    enabled: !!userId && !!companyId,
     staleTime: 2 * 60 * 1000, // 2 minutes
     gcTime: 5 * 60 * 1000,
     refetchInterval: 60 * 1000, // Refetch every minute
@@ -55,11 +66,13 @@ export function useCreateLeaveRequest() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: (data: any) => leaveService.createLeaveRequest(data),
+    mutationFn: (data: Parameters<typeof leaveService.createLeaveRequest>[0]) => leaveService.createLeaveRequest(data),
     onSuccess: (_, variables) => {
       queryClient.invalidateQueries({ queryKey: ['user_leaves', variables.userId] });
       queryClient.invalidateQueries({ queryKey: ['leaves'] });
       queryClient.invalidateQueries({ queryKey: ['pending_leaves'] });
+      queryClient.invalidateQueries({ queryKey: ['leave_inbox'] });
+      queryClient.invalidateQueries({ queryKey: ['team_leave'] });
     },
   });
 }
@@ -70,10 +83,15 @@ export function useApproveLeaveRequest() {
   return useMutation({
     mutationFn: ({ id, approvedBy }: { id: string; approvedBy: string }) =>
       leaveService.approveLeaveRequest(id, approvedBy),
-    onSuccess: (_, variables) => {
+    onSuccess: (request, variables) => {
       queryClient.invalidateQueries({ queryKey: ['leaves', variables.id] });
       queryClient.invalidateQueries({ queryKey: ['leaves'] });
       queryClient.invalidateQueries({ queryKey: ['pending_leaves'] });
+      queryClient.invalidateQueries({ queryKey: ['leave_inbox'] });
+      queryClient.invalidateQueries({ queryKey: ['team_leave'] });
+      queryClient.invalidateQueries({ queryKey: ['leave_approvals'] });
+      queryClient.invalidateQueries({ queryKey: ['leave_balance', request.user_id] });
+      queryClient.invalidateQueries({ queryKey: ['leave_ledger', request.user_id] });
     },
   });
 }
@@ -82,24 +100,47 @@ export function useRejectLeaveRequest() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: ({ id, rejectionReason }: { id: string; rejectionReason: string }) =>
-      leaveService.rejectLeaveRequest(id, rejectionReason),
+    mutationFn: ({ id, rejectedBy, rejectionReason }: { id: string; rejectedBy: string; rejectionReason: string }) =>
+      leaveService.rejectLeaveRequest(id, rejectedBy, rejectionReason),
     onSuccess: (_, variables) => {
       queryClient.invalidateQueries({ queryKey: ['leaves', variables.id] });
       queryClient.invalidateQueries({ queryKey: ['leaves'] });
       queryClient.invalidateQueries({ queryKey: ['pending_leaves'] });
+      queryClient.invalidateQueries({ queryKey: ['leave_inbox'] });
+      queryClient.invalidateQueries({ queryKey: ['team_leave'] });
+      queryClient.invalidateQueries({ queryKey: ['leave_approvals'] });
+    },
+  });
+}
+
+export function useCancelLeaveRequest() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, cancelledBy, reason }: { id: string; cancelledBy: string; reason?: string }) =>
+      leaveService.cancelLeaveRequest(id, cancelledBy, reason),
+    onSuccess: (request, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['leaves', variables.id] });
+      queryClient.invalidateQueries({ queryKey: ['leaves'] });
+      queryClient.invalidateQueries({ queryKey: ['user_leaves', request.user_id] });
+      queryClient.invalidateQueries({ queryKey: ['pending_leaves'] });
+      queryClient.invalidateQueries({ queryKey: ['leave_inbox'] });
+      queryClient.invalidateQueries({ queryKey: ['team_leave'] });
+      queryClient.invalidateQueries({ queryKey: ['leave_approvals'] });
+      queryClient.invalidateQueries({ queryKey: ['leave_balance', request.user_id] });
+      queryClient.invalidateQueries({ queryKey: ['leave_ledger', request.user_id] });
     },
   });
 }
 
-export function useUpdateLeaveBalance() {
+export function useAdjustLeaveBalance() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: (data: { userId: string; leaveType: string; days: number }) =>
-      leaveService.updateLeaveBalance(data.userId, data.leaveType as any, data.days),
+    mutationFn: (input: LeaveAdjustmentInput) => leaveService.adjustLeaveBalance(input),
     onSuccess: (_, variables) => {
       queryClient.invalidateQueries({ queryKey: ['leave_balance', variables.userId] });
+      queryClient.invalidateQueries({ queryKey: ['leave_ledger', variables.userId] });
     },
   });
 }
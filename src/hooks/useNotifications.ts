@@ -0,0 +1,24 @@
+// src/hooks/useNotifications.ts
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { notificationService } from '@/services/notificationService';
+
+export function useNotifications(userId: string | null) {
+  return useQuery({
+    queryKey: ['notifications', userId],
+    queryFn: () => notificationService.getNotifications(userId!),
+    enabled: !!userId,
+    staleTime: 60 * 1000,
+    refetchInterval: 5 * 60 * 1000,
+  });
+}
+
+export function useMarkNotificationsRead(userId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (ids: string[]) => notificationService.markRead(userId, ids),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['notifications', userId] });
+    },
+  });
+}
@@ -0,0 +1,155 @@
+// src/hooks/useOnboarding.ts
+import { useEffect } from 'react';
+import { useQuery, useMutation, useQueryClient, QueryClient } from '@tanstack/react-query';
+import {
+  onboardingService,
+  OnboardingTemplateInput,
+  OnboardingTemplateTaskInput,
+} from '@/services/onboardingService';
+import { startOnboardingReminders } from '@/services/onboardingJobs';
+import { OnboardingDocument, OnboardingTask, OnboardingTemplate, OnboardingTemplateTask } from '@/types/hrms';
+
+/** A checklist change shows on the new hire's page, the admin list and the assignee's list */
+const invalidateChecklists = (queryClient: QueryClient, userId: string) => {
+  queryClient.invalidateQueries({ queryKey: ['onboarding', userId] });
+  queryClient.invalidateQueries({ queryKey: ['onboarding_active'] });
+  queryClient.invalidateQueries({ queryKey: ['onboarding_assigned'] });
+};
+
+export function useOnboardingTemplates(companyId: string | null) {
+  return useQuery({
+    queryKey: ['onboarding_templates', companyId],
+    queryFn: () => onboardingService.getTemplates(companyId!),
+    enabled: !!companyId,
+    staleTime: 10 * 60 * 1000,
+  });
+}
+
+export function useSaveOnboardingTemplate(companyId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, input }: { id?: string; input: OnboardingTemplateInput }) =>
+      onboardingService.saveTemplate(companyId, input, id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['onboarding_templates', companyId] });
+    },
+  });
+}
+
+export function useDeleteOnboardingTemplate(companyId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => onboardingService.deleteTemplate(id, companyId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['onboarding_templates', companyId] });
+    },
+  });
+}
+
+export function useSaveOnboardingTemplateTask() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ template, input, id }: { template: OnboardingTemplate; input: OnboardingTemplateTaskInput; id?: string }) =>
+      onboardingService.saveTemplateTask(template, input, id),
+    onSuccess: (task) => {
+      queryClient.invalidateQueries({ queryKey: ['onboarding_templates', task.company_id] });
+    },
+  });
+}
+
+export function useDeleteOnboardingTemplateTask() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (task: OnboardingTemplateTask) => onboardingService.deleteTemplateTask(task),
+    onSuccess: (_, task) => {
+      queryClient.invalidateQueries({ queryKey: ['onboarding_templates', task.company_id] });
+    },
+  });
+}
+
+export function useOnboarding(userId: string | null) {
+  return useQuery({
+    queryKey: ['onboarding', userId],
+    queryFn: () => onboardingService.getOnboarding(userId!),
+    enabled: !!userId,
+    staleTime: 60 * 1000,
+  });
+}
+
+export function useActiveOnboardings(companyId: string | null) {
+  return useQuery({
+    queryKey: ['onboarding_active', companyId],
+    queryFn: () => onboardingService.getActiveOnboardings(companyId!),
+    enabled: !!companyId,
+    staleTime: 60 * 1000,
+  });
+}
+
+export function useAssignedOnboardingTasks(userId: string | null) {
+  return useQuery({
+    queryKey: ['onboarding_assigned', userId],
+    queryFn: () => onboardingService.getAssignedTasks(userId!),
+    enabled: !!userId,
+    staleTime: 60 * 1000,
+  });
+}
+
+export function useStartOnboarding() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ userId, templateId }: { userId: string; templateId?: string }) =>
+      onboardingService.startOnboarding(userId, templateId),
+    onSuccess: (_, { userId }) => {
+      invalidateChecklists(queryClient, userId);
+    },
+  });
+}
+
+export function useSetOnboardingTaskDone() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ task, done }: { task: OnboardingTask; done: boolean }) => onboardingService.setTaskDone(task, done),
+    onSuccess: (task) => {
+      invalidateChecklists(queryClient, task.user_id);
+    },
+  });
+}
+
+export function useUploadOnboardingDocument() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ task, file }: { task: OnboardingTask; file: File }) => onboardingService.uploadDocument(task, file),
+    onSuccess: (document) => {
+      invalidateChecklists(queryClient, document.user_id);
+    },
+  });
+}
+
+export function useReviewOnboardingDocument() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ document, status, note }: { document: OnboardingDocument; status: 'verified' | 'rejected'; note?: string }) =>
+      onboardingService.reviewDocument(document, status, note),
+    onSuccess: (document) => {
+      invalidateChecklists(queryClient, document.user_id);
+    },
+  });
+}
+
+/**
+ * Send overdue onboarding reminders for the company every morning while an
+ * admin has the app open
+ */
+export function useOnboardingReminders(companyId: string | null) {
+  useEffect(() => {
+    if (companyId) startOnboardingReminders(companyId);
+  }, [companyId]);
+}
@@ -1,6 +1,7 @@
 // src/hooks/usePayroll.ts
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { payrollService } from '@/services/payrollService';
+import { PayrollRun } from '@/types/hrms';
 
 export function usePayroll(filters = {}) {
   return useQuery({
@@ -21,11 +22,22 @@ export function usePayrollByMonth(userId: string | null, month: number, year: nu
   });
 }
 
+export function usePayrollForRun(runId: string | null) {
+  return useQuery({
+    queryKey: ['payroll', 'run', runId],
+    queryFn: () => payrollService.getPayrollForRun(runId!),
+    enabled: !!runId,
+    staleTime: 5 * 60 * 1000,
+    gcTime: 10 * 60 * 1000,
+  });
+}
+
 export function useProcessPayroll() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: (data: any) => payrollService.processPayroll(data),
+    mutationFn: (data: { run: PayrollRun; employeeIds: string[] }) =>
+      payrollService.processPayroll(data),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['payroll'] });
     },
@@ -36,7 +48,7 @@ export function useUpdatePayrollStatus() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: ({ payrollId, status }: { payrollId: string; status: 'draft' | 'processed' | 'paid' }) =>
+    mutationFn: ({ payrollId, status }: { payrollId: string; status: 'draft' | 'processed' }) =>
       payrollService.updatePayrollStatus(payrollId, status),
     onSuccess: (_, variables) => {
       queryClient.invalidateQueries({ queryKey: ['payroll'] });
@@ -48,8 +60,8 @@ export function useBulkProcessPayroll() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: (data: { employeeIds: string[]; month: number; year: number }) =>
-      payrollService.bulkProcessPayroll(data.employeeIds, data.month, data.year),
+    mutationFn: (data: { run: PayrollRun; employeeIds: string[] }) =>
+      payrollService.bulkProcessPayroll(data.run, data.employeeIds),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['payroll'] });
     },
@@ -0,0 +1,71 @@
+// src/hooks/usePayrollRuns.ts
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { payrollRunService } from '@/services/payrollRunService';
+import { PayrollRun, PayrollRunStatus } from '@/types/hrms';
+
+export function usePayrollRuns(companyId: string | null, month: number, year: number) {
+  return useQuery({
+    queryKey: ['payroll-runs', companyId, month, year],
+    queryFn: () => payrollRunService.getRuns(companyId!, month, year),
+    enabled: !!companyId,
+    staleTime: 60 * 1000,
+  });
+}
+
+export function usePayrollRunTransitions(runId: string | null) {
+  return useQuery({
+    queryKey: ['payroll-run-transitions', runId],
+    queryFn: () => payrollRunService.getTransitions(runId!),
+    enabled: !!runId,
+  });
+}
+
+function useInvalidateRuns() {
+  const queryClient = useQueryClient();
+  return () => {
+    queryClient.invalidateQueries({ queryKey: ['payroll-runs'] });
+    queryClient.invalidateQueries({ queryKey: ['payroll-run-transitions'] });
+    queryClient.invalidateQueries({ queryKey: ['payroll'] });
+    queryClient.invalidateQueries({ queryKey: ['payslips'] });
+  };
+}
+
+export function useStartPayrollRun(companyId: string) {
+  const invalidate = useInvalidateRuns();
+
+  return useMutation({
+    mutationFn: ({ month, year }: { month: number; year: number }) =>
+      payrollRunService.getOrCreateRegularRun(companyId, month, year),
+    onSuccess: invalidate,
+  });
+}
+
+export function useTransitionPayrollRun() {
+  const invalidate = useInvalidateRuns();
+
+  return useMutation({
+    mutationFn: ({ run, status, note }: { run: PayrollRun; status: PayrollRunStatus; note?: string }) =>
+      payrollRunService.transitionRun(run, status, note),
+    onSuccess: invalidate,
+  });
+}
+
+export function useCreateReversalRun() {
+  const invalidate = useInvalidateRuns();
+
+  return useMutation({
+    mutationFn: ({ run, note }: { run: PayrollRun; note?: string }) =>
+      payrollRunService.createReversalRun(run, note),
+    onSuccess: invalidate,
+  });
+}
+
+export function useCreateOffCycleRun(companyId: string) {
+  const invalidate = useInvalidateRuns();
+
+  return useMutation({
+    mutationFn: ({ month, year, note }: { month: number; year: number; note?: string }) =>
+      payrollRunService.createOffCycleRun(companyId, month, year, note),
+    onSuccess: invalidate,
+  });
+}
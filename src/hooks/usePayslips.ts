@@ -0,0 +1,26 @@
+// src/hooks/usePayslips.ts
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { payslipService, PayslipRow } from '@/services/payslipService';
+
+export function useMyPayslips(userId: string | null) {
+  return useQuery({
+    queryKey: ['payslips', userId],
+    queryFn: () => payslipService.getMyPayslips(userId!),
+    enabled: !!userId,
+    staleTime: 5 * 60 * 1000,
+    gcTime: 10 * 60 * 1000,
+  });
+}
+
+export function useDownloadPayslip() {
+  return useMutation({
+    mutationFn: (payroll: PayslipRow) => payslipService.downloadPayslip(payroll),
+  });
+}
+
+export function useDownloadMonthlyPayslips(companyId: string) {
+  return useMutation({
+    mutationFn: ({ month, year }: { month: number; year: number }) =>
+      payslipService.downloadMonthlyPayslips(companyId, month, year),
+  });
+}
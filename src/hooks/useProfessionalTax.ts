@@ -0,0 +1,36 @@
+// src/hooks/useProfessionalTax.ts
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { professionalTaxService, ProfessionalTaxSlabInput } from '@/services/professionalTaxService';
+
+export function useProfessionalTaxSlabs(companyId: string | null) {
+  return useQuery({
+    queryKey: ['pt_slabs', companyId],
+    queryFn: () => professionalTaxService.getSlabs(companyId!),
+    enabled: !!companyId,
+    staleTime: 15 * 60 * 1000,
+    gcTime: 30 * 60 * 1000,
+  });
+}
+
+export function useSaveProfessionalTaxSlabs(companyId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ state, slabs }: { state: string; slabs: ProfessionalTaxSlabInput[] }) =>
+      professionalTaxService.saveStateSlabs(companyId, state, slabs),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['pt_slabs', companyId] });
+    },
+  });
+}
+
+export function useResetProfessionalTaxSlabs(companyId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (state: string) => professionalTaxService.resetStateSlabs(companyId, state),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['pt_slabs', companyId] });
+    },
+  });
+}
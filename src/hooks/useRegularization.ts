@@ -0,0 +1,71 @@
+// src/hooks/useRegularization.ts
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { regularizationService, RegularizationInput } from '@/services/regularizationService';
+import { AttendanceRegularization } from '@/types/hrms';
+
+export function useRegularizationRequests(userId: string | null) {
+  return useQuery({
+    queryKey: ['regularizations', userId],
+    queryFn: () => regularizationService.getUserRequests(userId!),
+    enabled: !!userId,
+    staleTime: 60 * 1000,
+  });
+}
+
+export function usePendingRegularizations(userId: string | null, companyId: string | null) {
+  return useQuery({
+    queryKey: ['regularizations_pending', userId, companyId],
+    queryFn: () => regularizationService.getPendingRequests(userId!, companyId!),
+    enabled: !!userId && !!companyId,
+    staleTime: 60 * 1000,
+  });
+}
+
+export function useSubmitRegularization() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: RegularizationInput) => regularizationService.submitRequest(input),
+    onSuccess: (request) => {
+      queryClient.invalidateQueries({ queryKey: ['regularizations', request.user_id] });
+    },
+  });
+}
+
+export function useCancelRegularization() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (request: AttendanceRegularization) => regularizationService.cancelRequest(request),
+    onSuccess: (request) => {
+      queryClient.invalidateQueries({ queryKey: ['regularizations', request.user_id] });
+    },
+  });
+}
+
+export function useApproveRegularization() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ request, approvedBy }: { request: AttendanceRegularization; approvedBy: string }) =>
+      regularizationService.approveRequest(request, approvedBy),
+    onSuccess: (request) => {
+      queryClient.invalidateQueries({ queryKey: ['regularizations_pending'] });
+      queryClient.invalidateQueries({ queryKey: ['regularizations', request.user_id] });
+      queryClient.invalidateQueries({ queryKey: ['attendance'] });
+    },
+  });
+}
+
+export function useRejectRegularization() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ request, rejectedBy, reason }: { request: AttendanceRegularization; rejectedBy: string; reason?: string }) =>
+      regularizationService.rejectRequest(request, rejectedBy, reason),
+    onSuccess: (request) => {
+      queryClient.invalidateQueries({ queryKey: ['regularizations_pending'] });
+      queryClient.invalidateQueries({ queryKey: ['regularizations', request.user_id] });
+    },
+  });
+}
@@ -0,0 +1,73 @@
+// src/hooks/useSalaryStructures.ts
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { salaryStructureService, SalaryComponentInput } from '@/services/salaryStructureService';
+import { SalaryStructure } from '@/types/hrms';
+
+type StructureFields = Pick<SalaryStructure, 'name' | 'description' | 'department_id'>;
+
+export function useSalaryStructures(companyId: string | null) {
+  return useQuery({
+    queryKey: ['salary_structures', companyId],
+    queryFn: () => salaryStructureService.getStructures(companyId!),
+    enabled: !!companyId,
+    staleTime: 15 * 60 * 1000,
+    gcTime: 30 * 60 * 1000,
+  });
+}
+
+export function useCreateSalaryStructure(companyId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (structure: StructureFields) => salaryStructureService.createStructure(companyId, structure),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['salary_structures', companyId] });
+    },
+  });
+}
+
+export function useUpdateSalaryStructure(companyId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ structureId, updates }: { structureId: string; updates: Partial<StructureFields> }) =>
+      salaryStructureService.updateStructure(structureId, companyId, updates),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['salary_structures', companyId] });
+    },
+  });
+}
+
+export function useDeleteSalaryStructure(companyId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (structureId: string) => salaryStructureService.deleteStructure(structureId, companyId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['salary_structures', companyId] });
+    },
+  });
+}
+
+export function useAddSalaryComponent(companyId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ structureId, component }: { structureId: string; component: SalaryComponentInput }) =>
+      salaryStructureService.addComponent(structureId, companyId, component),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['salary_structures', companyId] });
+    },
+  });
+}
+
+export function useDeleteSalaryComponent(companyId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (componentId: string) => salaryStructureService.deleteComponent(componentId, companyId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['salary_structures', companyId] });
+    },
+  });
+}
@@ -1,9 +1,7 @@
 // src/hooks/useSettings.ts
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { settingsService } from '@/services/settingsService';
-
-// Note: For Settings.tsx, we'll handle payroll config through company settings
-// as these methods don't exist in the base settingsService yet
+import { PayrollConfig } from '@/types/hrms';
 
 export function useCompanySettings(companyId: string | null) {
   return useQuery({
@@ -22,10 +20,42 @@ export function useUpdateCompanySettings(companyId: string) {
     mutationFn: (settings: any) => settingsService.updateCompanySettings(companyId, settings),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['company_settings', companyId] });
+      queryClient.invalidateQueries({ queryKey: ['business_calendar', companyId] });
     },
   });
 }
 
+export function usePayrollConfig(companyId: string | null) {
+  return useQuery({
+    queryKey: ['payroll_config', companyId],
+    queryFn: () => settingsService.getPayrollConfig(companyId!),
+    enabled: !!companyId,
+    staleTime: 15 * 60 * 1000,
+    gcTime: 30 * 60 * 1000,
+  });
+}
+
+export function useUpdatePayrollConfig(companyId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (config: PayrollConfig) => settingsService.updatePayrollConfig(companyId, config),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['payroll_config', companyId] });
+    },
+  });
+}
+
+export function useBusinessCalendar(companyId: string | null) {
+  return useQuery({
+    queryKey: ['business_calendar', companyId],
+    queryFn: () => settingsService.getBusinessCalendar(companyId!),
+    enabled: !!companyId,
+    staleTime: 15 * 60 * 1000,
+    gcTime: 30 * 60 * 1000,
+  });
+}
+
 export function useHolidays(companyId: string | null) {
   return useQuery({
     queryKey: ['holidays', companyId],
@@ -43,6 +73,7 @@ export function useAddHoliday(companyId: string) {
     mutationFn: (holiday: any) => settingsService.addHoliday(companyId, holiday),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['holidays', companyId] });
+      queryClient.invalidateQueries({ queryKey: ['business_calendar', companyId] });
     },
   });
 }
@@ -55,6 +86,7 @@ export function useUpdateHoliday(companyId: string) {
       settingsService.updateHoliday(holidayId, companyId, updates),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['holidays', companyId] });
+      queryClient.invalidateQueries({ queryKey: ['business_calendar', companyId] });
     },
   });
 }
@@ -66,6 +98,7 @@ export function useDeleteHoliday(companyId: string) {
     mutationFn: (holidayId: string) => settingsService.deleteHoliday(holidayId, companyId),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['holidays', companyId] });
+      queryClient.invalidateQueries({ queryKey: ['business_calendar', companyId] });
     },
   });
 }
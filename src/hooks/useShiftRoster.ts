@@ -0,0 +1,90 @@
+// src/hooks/useShiftRoster.ts
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { shiftRosterService, ShiftAssignmentInput } from '@/services/shiftRosterService';
+
+export function useWorkSessions(companyId: string | null) {
+  return useQuery({
+    queryKey: ['work_sessions', companyId],
+    queryFn: () => shiftRosterService.getWorkSessions(companyId!),
+    enabled: !!companyId,
+    staleTime: 15 * 60 * 1000,
+    gcTime: 30 * 60 * 1000,
+  });
+}
+
+export function useShiftRotations(companyId: string | null) {
+  return useQuery({
+    queryKey: ['shift_rotations', companyId],
+    queryFn: () => shiftRosterService.getRotations(companyId!),
+    enabled: !!companyId,
+    staleTime: 15 * 60 * 1000,
+    gcTime: 30 * 60 * 1000,
+  });
+}
+
+export function useSaveShiftRotation(companyId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ name, pattern }: { name: string; pattern: (string | null)[] }) =>
+      shiftRosterService.saveRotation(companyId, name, pattern),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['shift_rotations', companyId] });
+    },
+  });
+}
+
+export function useDeleteShiftRotation(companyId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => shiftRosterService.deleteRotation(id, companyId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['shift_rotations', companyId] });
+    },
+  });
+}
+
+export function useShiftAssignments(companyId: string | null, startDate: string, endDate: string) {
+  return useQuery({
+    queryKey: ['shift_assignments', companyId, startDate, endDate],
+    queryFn: () => shiftRosterService.getAssignments(companyId!, startDate, endDate),
+    enabled: !!companyId,
+    staleTime: 5 * 60 * 1000,
+    gcTime: 10 * 60 * 1000,
+  });
+}
+
+export function useAssignShift() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: ShiftAssignmentInput) => shiftRosterService.assignShift(input),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['shift_assignments'] });
+      queryClient.invalidateQueries({ queryKey: ['roster_day'] });
+    },
+  });
+}
+
+export function useDeleteShiftAssignment() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => shiftRosterService.deleteAssignment(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['shift_assignments'] });
+      queryClient.invalidateQueries({ queryKey: ['roster_day'] });
+    },
+  });
+}
+
+export function useRosterDay(userId: string | null, companyId: string | null, date: string) {
+  return useQuery({
+    queryKey: ['roster_day', userId, companyId, date],
+    queryFn: () => shiftRosterService.getRosterDay(userId!, companyId!, date),
+    enabled: !!userId && !!companyId,
+    staleTime: 5 * 60 * 1000,
+    gcTime: 10 * 60 * 1000,
+  });
+}
@@ -0,0 +1,19 @@
+// src/hooks/useStatutoryReturns.ts
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { exportService } from '@/services/exportService';
+import { StatutoryScheme } from '@/lib/statutoryReturns';
+
+export function useStatutoryReturns(companyId: string | null, month: number, year: number, enabled = true) {
+  return useQuery({
+    queryKey: ['statutory-returns', companyId, month, year],
+    queryFn: () => exportService.getStatutoryReturns(companyId!, month, year),
+    enabled: !!companyId && enabled,
+  });
+}
+
+export function useExportStatutoryReturn(companyId: string) {
+  return useMutation({
+    mutationFn: ({ month, year, scheme }: { month: number; year: number; scheme: StatutoryScheme }) =>
+      exportService.exportStatutoryReturn(companyId, month, year, scheme),
+  });
+}
@@ -0,0 +1,33 @@
+// src/hooks/useTax.ts
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { taxService, TaxDeclarationInput } from '@/services/taxService';
+
+export function useTaxSlabConfigs() {
+  return useQuery({
+    queryKey: ['tax_slab_configs'],
+    queryFn: () => taxService.getSlabConfigs(),
+    staleTime: 60 * 60 * 1000,
+    gcTime: 2 * 60 * 60 * 1000,
+  });
+}
+
+export function useTaxDeclaration(userId: string | null, financialYear: string) {
+  return useQuery({
+    queryKey: ['tax_declaration', userId, financialYear],
+    queryFn: () => taxService.getDeclaration(userId!, financialYear),
+    enabled: !!userId,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+export function useSaveTaxDeclaration(userId: string, companyId: string | null, financialYear: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (declaration: TaxDeclarationInput) =>
+      taxService.saveDeclaration(userId, companyId, financialYear, declaration),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['tax_declaration', userId, financialYear] });
+    },
+  });
+}
@@ -0,0 +1,69 @@
+// src/hooks/useTeamCalendar.ts
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { teamCalendarService } from '@/services/teamCalendarService';
+import { LeaveRequest } from '@/types/hrms';
+
+export function useTeamLeave(userIds: string[], startDate: string, endDate: string) {
+  return useQuery({
+    queryKey: ['team_leave', userIds, startDate, endDate],
+    queryFn: () => teamCalendarService.getTeamLeave(userIds, startDate, endDate),
+    enabled: userIds.length > 0,
+    staleTime: 60 * 1000,
+    gcTime: 5 * 60 * 1000,
+  });
+}
+
+export function useDepartmentLeave(departmentId: string | null, startDate: string, endDate: string) {
+  return useQuery({
+    queryKey: ['team_leave', 'department', departmentId, startDate, endDate],
+    queryFn: () => teamCalendarService.getDepartmentLeave(departmentId!, startDate, endDate),
+    enabled: !!departmentId,
+    staleTime: 60 * 1000,
+    gcTime: 5 * 60 * 1000,
+  });
+}
+
+export function useStaffingRules(companyId: string | null) {
+  return useQuery({
+    queryKey: ['staffing_rules', companyId],
+    queryFn: () => teamCalendarService.getStaffingRules(companyId!),
+    enabled: !!companyId,
+    staleTime: 15 * 60 * 1000,
+    gcTime: 30 * 60 * 1000,
+  });
+}
+
+export function useSaveStaffingRule(companyId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ departmentId, minPresent }: { departmentId: string; minPresent: number }) =>
+      teamCalendarService.saveStaffingRule(companyId, departmentId, minPresent),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['staffing_rules', companyId] });
+      queryClient.invalidateQueries({ queryKey: ['staffing_check'] });
+    },
+  });
+}
+
+export function useDeleteStaffingRule(companyId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (departmentId: string) => teamCalendarService.deleteStaffingRule(companyId, departmentId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['staffing_rules', companyId] });
+      queryClient.invalidateQueries({ queryKey: ['staffing_check'] });
+    },
+  });
+}
+
+export function useStaffingCheck(request: LeaveRequest | null, companyId: string | null) {
+  return useQuery({
+    queryKey: ['staffing_check', request?.id, companyId],
+    queryFn: () => teamCalendarService.checkStaffing(request!, companyId!),
+    enabled: !!request && !!companyId,
+    staleTime: 60 * 1000,
+    gcTime: 5 * 60 * 1000,
+  });
+}
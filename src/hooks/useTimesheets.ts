@@ -0,0 +1,159 @@
+// src/hooks/useTimesheets.ts
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { timesheetService, ProjectInput, TimesheetEntryInput } from '@/services/timesheetService';
+import { analyticsService } from '@/services/analyticsService';
+import { exportService } from '@/services/exportService';
+import { UtilizationReport } from '@/lib/timesheets';
+import { Project, ProjectTask, Timesheet, TimesheetEntry } from '@/types/hrms';
+
+export function useProjects(companyId: string | null) {
+  return useQuery({
+    queryKey: ['projects', companyId],
+    queryFn: () => timesheetService.getProjects(companyId!),
+    enabled: !!companyId,
+    staleTime: 10 * 60 * 1000,
+  });
+}
+
+export function useSaveProject(companyId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, input, createdBy }: { id?: string; input: ProjectInput; createdBy: string }) =>
+      id ? timesheetService.updateProject(id, input) : timesheetService.createProject(companyId, input, createdBy),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['projects', companyId] });
+    },
+  });
+}
+
+export function useCreateProjectTask() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ project, name, isBillable }: { project: Project; name: string; isBillable: boolean }) =>
+      timesheetService.createTask(project, name, isBillable),
+    onSuccess: (task) => {
+      queryClient.invalidateQueries({ queryKey: ['projects', task.company_id] });
+    },
+  });
+}
+
+export function useUpdateProjectTask() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, updates }: { id: string; updates: Partial<Pick<ProjectTask, 'name' | 'is_billable' | 'is_active'>> }) =>
+      timesheetService.updateTask(id, updates),
+    onSuccess: (task) => {
+      queryClient.invalidateQueries({ queryKey: ['projects', task.company_id] });
+    },
+  });
+}
+
+export function useTimesheet(userId: string | null, weekStart: string) {
+  return useQuery({
+    queryKey: ['timesheets', userId, weekStart],
+    queryFn: () => timesheetService.getTimesheet(userId!, weekStart),
+    enabled: !!userId,
+    staleTime: 60 * 1000,
+  });
+}
+
+export function useSaveTimesheetEntry() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ input, entryId }: { input: TimesheetEntryInput; entryId?: string }) =>
+      timesheetService.saveEntry(input, entryId),
+    onSuccess: (entry) => {
+      queryClient.invalidateQueries({ queryKey: ['timesheets', entry.user_id] });
+    },
+  });
+}
+
+export function useDeleteTimesheetEntry() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (entry: TimesheetEntry) => timesheetService.deleteEntry(entry),
+    onSuccess: (_, entry) => {
+      queryClient.invalidateQueries({ queryKey: ['timesheets', entry.user_id] });
+    },
+  });
+}
+
+export function useSubmitTimesheet() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (timesheet: Timesheet) => timesheetService.submitTimesheet(timesheet),
+    onSuccess: (timesheet) => {
+      queryClient.invalidateQueries({ queryKey: ['timesheets', timesheet.user_id] });
+    },
+  });
+}
+
+export function useWithdrawTimesheet() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (timesheet: Timesheet) => timesheetService.withdrawTimesheet(timesheet),
+    onSuccess: (timesheet) => {
+      queryClient.invalidateQueries({ queryKey: ['timesheets', timesheet.user_id] });
+    },
+  });
+}
+
+export function usePendingTimesheets(userId: string | null, companyId: string | null) {
+  return useQuery({
+    queryKey: ['timesheets_pending', userId, companyId],
+    queryFn: () => timesheetService.getPendingTimesheets(userId!, companyId!),
+    enabled: !!userId && !!companyId,
+    staleTime: 60 * 1000,
+  });
+}
+
+export function useApproveTimesheet() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ timesheet, approvedBy }: { timesheet: Timesheet; approvedBy: string }) =>
+      timesheetService.approveTimesheet(timesheet, approvedBy),
+    onSuccess: (timesheet) => {
+      queryClient.invalidateQueries({ queryKey: ['timesheets_pending'] });
+      queryClient.invalidateQueries({ queryKey: ['timesheets', timesheet.user_id] });
+      queryClient.invalidateQueries({ queryKey: ['utilization', timesheet.company_id] });
+    },
+  });
+}
+
+export function useRejectTimesheet() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ timesheet, rejectedBy, reason }: { timesheet: Timesheet; rejectedBy: string; reason?: string }) =>
+      timesheetService.rejectTimesheet(timesheet, rejectedBy, reason),
+    onSuccess: (timesheet) => {
+      queryClient.invalidateQueries({ queryKey: ['timesheets_pending'] });
+      queryClient.invalidateQueries({ queryKey: ['timesheets', timesheet.user_id] });
+    },
+  });
+}
+
+export function useUtilizationReport(companyId: string | null, startDate: string, endDate: string) {
+  return useQuery({
+    queryKey: ['utilization', companyId, startDate, endDate],
+    queryFn: () => analyticsService.getUtilizationReport(companyId!, startDate, endDate),
+    enabled: !!companyId && !!startDate && !!endDate,
+    staleTime: 10 * 60 * 1000,
+    gcTime: 30 * 60 * 1000,
+  });
+}
+
+export function useExportUtilization() {
+  return useMutation({
+    mutationFn: ({ report, groupBy }: { report: UtilizationReport; groupBy: 'employee' | 'department' }) =>
+      exportService.exportUtilizationToCSV(report, groupBy),
+  });
+}
@@ -14,39 +14,283 @@ export type Database = {
   }
   public: {
     Tables: {
+      attendance_daily_summaries: {
+        Row: {
+          company_id: string | null
+          evaluated_at: string | null
+          first_sign_in: string | null
+          id: string
+          is_open: boolean
+          last_sign_out: string | null
+          late_minutes: number
+          lunch_break_minutes: number
+          official_break_minutes: number
+          overtime_hours: number
+          personal_break_minutes: number
+          segment_count: number
+          status: Database["public"]["Enums"]["attendance_status"] | null
+          updated_at: string
+          user_id: string
+          work_date: string
+          worked_minutes: number
+        }
+        Insert: {
+          company_id?: string | null
+          evaluated_at?: string | null
+          first_sign_in?: string | null
+          id?: string
+          is_open?: boolean
+          last_sign_out?: string | null
+          late_minutes?: number
+          lunch_break_minutes?: number
+          official_break_minutes?: number
+          overtime_hours?: number
+          personal_break_minutes?: number
+          segment_count?: number
+          status?: Database["public"]["Enums"]["attendance_status"] | null
+          updated_at?: string
+          user_id: string
+          work_date: string
+          worked_minutes?: number
+        }
+        Update: {
+          company_id?: string | null
+          evaluated_at?: string | null
+          first_sign_in?: string | null
+          id?: string
+          is_open?: boolean
+          last_sign_out?: string | null
+          late_minutes?: number
+          lunch_break_minutes?: number
+          official_break_minutes?: number
+          overtime_hours?: number
+          personal_break_minutes?: number
+          segment_count?: number
+          status?: Database["public"]["Enums"]["attendance_status"] | null
+          updated_at?: string
+          user_id?: string
+          work_date?: string
+          worked_minutes?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "attendance_daily_summaries_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      attendance_day_closures: {
+        Row: {
+          absent_count: number
+          closed_at: string
+          closed_by: string | null
+          closed_count: number
+          company_id: string
+          id: string
+          on_leave_count: number
+          work_date: string
+        }
+        Insert: {
+          absent_count?: number
+          closed_at?: string
+          closed_by?: string | null
+          closed_count?: number
+          company_id: string
+          id?: string
+          on_leave_count?: number
+          work_date: string
+        }
+        Update: {
+          absent_count?: number
+          closed_at?: string
+          closed_by?: string | null
+          closed_count?: number
+          company_id?: string
+          id?: string
+          on_leave_count?: number
+          work_date?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "attendance_day_closures_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      attendance_regularizations: {
+        Row: {
+          approved_at: string | null
+          approved_by: string | null
+          attendance_session_id: string | null
+          company_id: string
+          created_at: string
+          id: string
+          kind: string
+          original_sign_in: string | null
+          original_sign_out: string | null
+          original_status: Database["public"]["Enums"]["attendance_status"] | null
+          reason: string
+          rejection_reason: string | null
+          requested_sign_in: string
+          requested_sign_out: string
+          status: string
+          updated_at: string
+          user_id: string
+          work_date: string
+        }
+        Insert: {
+          approved_at?: string | null
+          approved_by?: string | null
+          attendance_session_id?: string | null
+          company_id: string
+          created_at?: string
+          id?: string
+          kind: string
+          original_sign_in?: string | null
+          original_sign_out?: string | null
+          original_status?: Database["public"]["Enums"]["attendance_status"] | null
+          reason: string
+          rejection_reason?: string | null
+          requested_sign_in: string
+          requested_sign_out: string
+          status?: string
+          updated_at?: string
+          user_id: string
+          work_date: string
+        }
+        Update: {
+          approved_at?: string | null
+          approved_by?: string | null
+          attendance_session_id?: string | null
+          company_id?: string
+          created_at?: string
+          id?: string
+          kind?: string
+          original_sign_in?: string | null
+          original_sign_out?: string | null
+          original_status?: Database["public"]["Enums"]["attendance_status"] | null
+          reason?: string
+          rejection_reason?: string | null
+          requested_sign_in?: string
+          requested_sign_out?: string
+          status?: string
+          updated_at?: string
+          user_id?: string
+          work_date?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "attendance_regularizations_attendance_session_id_fkey"
+            columns: ["attendance_session_id"]
+            isOneToOne: false
+            referencedRelation: "attendance_sessions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "attendance_regularizations_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       attendance_sessions: {
         Row: {
+          break_type: string | null
           company_id: string | null
           created_at: string
+          evaluated_at: string | null
+          geofence_reviewed_at: string | null
+          geofence_reviewed_by: string | null
+          geofence_status: string | null
           id: string
+          late_minutes: number
           notes: string | null
+          offline_sign_in_id: string | null
+          offline_sign_out_id: string | null
+          overtime_hours: number
+          regularization_id: string | null
           session_id: string | null
+          sign_in_distance_m: number | null
+          sign_in_lat: number | null
+          sign_in_lng: number | null
+          sign_in_office_id: string | null
           sign_in_time: string
+          sign_out_distance_m: number | null
+          sign_out_lat: number | null
+          sign_out_lng: number | null
+          sign_out_office_id: string | null
           sign_out_time: string | null
           status: Database["public"]["Enums"]["attendance_status"] | null
           user_id: string
+          work_date: string
         }
         Insert: {
+          break_type?: string | null
           company_id?: string | null
           created_at?: string
+          evaluated_at?: string | null
+          geofence_reviewed_at?: string | null
+          geofence_reviewed_by?: string | null
+          geofence_status?: string | null
           id?: string
+          late_minutes?: number
           notes?: string | null
+          offline_sign_in_id?: string | null
+          offline_sign_out_id?: string | null
+          overtime_hours?: number
+          regularization_id?: string | null
           session_id?: string | null
+          sign_in_distance_m?: number | null
+          sign_in_lat?: number | null
+          sign_in_lng?: number | null
+          sign_in_office_id?: string | null
           sign_in_time?: string
+          sign_out_distance_m?: number | null
+          sign_out_lat?: number | null
+          sign_out_lng?: number | null
+          sign_out_office_id?: string | null
           sign_out_time?: string | null
           status?: Database["public"]["Enums"]["attendance_status"] | null
           user_id: string
+          work_date?: string
         }
         Update: {
+          break_type?: string | null
           company_id?: string | null
           created_at?: string
+          evaluated_at?: string | null
+          geofence_reviewed_at?: string | null
+          geofence_reviewed_by?: string | null
+          geofence_status?: string | null
           id?: string
+          late_minutes?: number
           notes?: string | null
+          offline_sign_in_id?: string | null
+          offline_sign_out_id?: string | null
+          overtime_hours?: number
+          regularization_id?: string | null
           session_id?: string | null
+          sign_in_distance_m?: number | null
+          sign_in_lat?: number | null
+          sign_in_lng?: number | null
+          sign_in_office_id?: string | null
           sign_in_time?: string
+          sign_out_distance_m?: number | null
+          sign_out_lat?: number | null
+          sign_out_lng?: number | null
+          sign_out_office_id?: string | null
           sign_out_time?: string | null
           status?: Database["public"]["Enums"]["attendance_status"] | null
           user_id?: string
+          work_date?: string
         }
         Relationships: [
           {
@@ -63,6 +307,27 @@ export type Database = {
             referencedRelation: "work_sessions"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "attendance_sessions_sign_in_office_id_fkey"
+            columns: ["sign_in_office_id"]
+            isOneToOne: false
+            referencedRelation: "office_locations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "attendance_sessions_sign_out_office_id_fkey"
+            columns: ["sign_out_office_id"]
+            isOneToOne: false
+            referencedRelation: "office_locations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "attendance_sessions_regularization_id_fkey"
+            columns: ["regularization_id"]
+            isOneToOne: false
+            referencedRelation: "attendance_regularizations"
+            referencedColumns: ["id"]
+          },
         ]
       }
       billing_history: {
@@ -106,6 +371,72 @@ export type Database = {
           },
         ]
       }
+      comp_off_credits: {
+        Row: {
+          approved_at: string | null
+          approved_by: string | null
+          attendance_session_id: string | null
+          company_id: string
+          created_at: string
+          days: number
+          expires_on: string | null
+          id: string
+          reason: string
+          rejection_reason: string | null
+          status: string
+          updated_at: string
+          user_id: string
+          work_date: string
+        }
+        Insert: {
+          approved_at?: string | null
+          approved_by?: string | null
+          attendance_session_id?: string | null
+          company_id: string
+          created_at?: string
+          days?: number
+          expires_on?: string | null
+          id?: string
+          reason: string
+          rejection_reason?: string | null
+          status?: string
+          updated_at?: string
+          user_id: string
+          work_date: string
+        }
+        Update: {
+          approved_at?: string | null
+          approved_by?: string | null
+          attendance_session_id?: string | null
+          company_id?: string
+          created_at?: string
+          days?: number
+          expires_on?: string | null
+          id?: string
+          reason?: string
+          rejection_reason?: string | null
+          status?: string
+          updated_at?: string
+          user_id?: string
+          work_date?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "comp_off_credits_attendance_session_id_fkey"
+            columns: ["attendance_session_id"]
+            isOneToOne: false
+            referencedRelation: "attendance_sessions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "comp_off_credits_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       companies: {
         Row: {
           created_at: string | null
@@ -177,6 +508,48 @@ export type Database = {
           },
         ]
       }
+      department_staffing_rules: {
+        Row: {
+          company_id: string
+          created_at: string
+          department_id: string
+          id: string
+          min_present: number
+          updated_at: string
+        }
+        Insert: {
+          company_id: string
+          created_at?: string
+          department_id: string
+          id?: string
+          min_present: number
+          updated_at?: string
+        }
+        Update: {
+          company_id?: string
+          created_at?: string
+          department_id?: string
+          id?: string
+          min_present?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "department_staffing_rules_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "department_staffing_rules_department_id_fkey"
+            columns: ["department_id"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       departments: {
         Row: {
           company_id: string | null
@@ -212,6 +585,57 @@ export type Database = {
           },
         ]
       }
+      employee_onboardings: {
+        Row: {
+          company_id: string
+          completed_at: string | null
+          created_at: string
+          id: string
+          started_by: string | null
+          status: string
+          template_id: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          company_id: string
+          completed_at?: string | null
+          created_at?: string
+          id?: string
+          started_by?: string | null
+          status?: string
+          template_id?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          company_id?: string
+          completed_at?: string | null
+          created_at?: string
+          id?: string
+          started_by?: string | null
+          status?: string
+          template_id?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "employee_onboardings_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "employee_onboardings_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "onboarding_templates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       holidays: {
         Row: {
           company_id: string | null
@@ -247,364 +671,1463 @@ export type Database = {
           },
         ]
       }
-      leave_balances: {
+      leave_approvals: {
         Row: {
-          casual_leave: number | null
-          company_id: string | null
+          acted_at: string | null
+          acted_by: string | null
+          approver_role: string
+          assigned_to: string | null
+          comment: string | null
+          company_id: string
           created_at: string
+          delegated_from: string | null
+          due_at: string | null
           id: string
-          paid_leave: number | null
-          sick_leave: number | null
+          kind: string
+          leave_request_id: string
+          status: string
+          step: number
           updated_at: string
-          user_id: string
         }
         Insert: {
-          casual_leave?: number | null
-          company_id?: string | null
+          acted_at?: string | null
+          acted_by?: string | null
+          approver_role: string
+          assigned_to?: string | null
+          comment?: string | null
+          company_id: string
           created_at?: string
+          delegated_from?: string | null
+          due_at?: string | null
           id?: string
-          paid_leave?: number | null
-          sick_leave?: number | null
+          kind?: string
+          leave_request_id: string
+          status?: string
+          step: number
           updated_at?: string
-          user_id: string
         }
         Update: {
-          casual_leave?: number | null
-          company_id?: string | null
+          acted_at?: string | null
+          acted_by?: string | null
+          approver_role?: string
+          assigned_to?: string | null
+          comment?: string | null
+          company_id?: string
           created_at?: string
+          delegated_from?: string | null
+          due_at?: string | null
           id?: string
-          paid_leave?: number | null
-          sick_leave?: number | null
+          kind?: string
+          leave_request_id?: string
+          status?: string
+          step?: number
           updated_at?: string
-          user_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "leave_balances_company_id_fkey"
+            foreignKeyName: "leave_approvals_company_id_fkey"
             columns: ["company_id"]
             isOneToOne: false
             referencedRelation: "companies"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "leave_approvals_leave_request_id_fkey"
+            columns: ["leave_request_id"]
+            isOneToOne: false
+            referencedRelation: "leave_requests"
+            referencedColumns: ["id"]
+          },
         ]
       }
-      leave_requests: {
+      leave_delegations: {
         Row: {
-          approved_at: string | null
-          approved_by: string | null
-          company_id: string | null
+          company_id: string
           created_at: string
+          delegate_id: string
+          delegator_id: string
           end_date: string
           id: string
-          leave_type: Database["public"]["Enums"]["leave_type"]
-          reason: string | null
-          rejection_reason: string | null
+          note: string | null
           start_date: string
-          status: Database["public"]["Enums"]["leave_status"] | null
-          updated_at: string
-          user_id: string
         }
         Insert: {
-          approved_at?: string | null
-          approved_by?: string | null
-          company_id?: string | null
+          company_id: string
           created_at?: string
+          delegate_id: string
+          delegator_id: string
           end_date: string
           id?: string
-          leave_type: Database["public"]["Enums"]["leave_type"]
-          reason?: string | null
-          rejection_reason?: string | null
+          note?: string | null
           start_date: string
-          status?: Database["public"]["Enums"]["leave_status"] | null
-          updated_at?: string
-          user_id: string
         }
         Update: {
-          approved_at?: string | null
-          approved_by?: string | null
-          company_id?: string | null
+          company_id?: string
           created_at?: string
+          delegate_id?: string
+          delegator_id?: string
           end_date?: string
           id?: string
-          leave_type?: Database["public"]["Enums"]["leave_type"]
-          reason?: string | null
-          rejection_reason?: string | null
+          note?: string | null
           start_date?: string
-          status?: Database["public"]["Enums"]["leave_status"] | null
-          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "leave_delegations_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      leave_ledger: {
+        Row: {
+          amount: number | null
+          comp_off_credit_id: string | null
+          company_id: string | null
+          created_at: string
+          created_by: string | null
+          days: number
+          effective_date: string
+          entry_type: string
+          id: string
+          leave_request_id: string | null
+          leave_type: string
+          note: string | null
+          period: string | null
+          user_id: string
+        }
+        Insert: {
+          amount?: number | null
+          comp_off_credit_id?: string | null
+          company_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          days: number
+          effective_date?: string
+          entry_type: string
+          id?: string
+          leave_request_id?: string | null
+          leave_type: string
+          note?: string | null
+          period?: string | null
+          user_id: string
+        }
+        Update: {
+          amount?: number | null
+          comp_off_credit_id?: string | null
+          company_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          days?: number
+          effective_date?: string
+          entry_type?: string
+          id?: string
+          leave_request_id?: string | null
+          leave_type?: string
+          note?: string | null
+          period?: string | null
           user_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "leave_requests_company_id_fkey"
+            foreignKeyName: "leave_ledger_company_id_fkey"
             columns: ["company_id"]
             isOneToOne: false
             referencedRelation: "companies"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "leave_ledger_leave_request_id_fkey"
+            columns: ["leave_request_id"]
+            isOneToOne: false
+            referencedRelation: "leave_requests"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "leave_ledger_comp_off_credit_id_fkey"
+            columns: ["comp_off_credit_id"]
+            isOneToOne: false
+            referencedRelation: "comp_off_credits"
+            referencedColumns: ["id"]
+          },
         ]
       }
-      payroll: {
+      leave_policies: {
         Row: {
-          base_salary: number | null
+          accrual_days: number
+          accrual_frequency: string
+          carry_forward_limit: number | null
+          company_id: string
+          created_at: string
+          id: string
+          leave_type: string
+          max_balance: number | null
+          probation_months: number
+          updated_at: string
+          year_end_action: string
+        }
+        Insert: {
+          accrual_days?: number
+          accrual_frequency?: string
+          carry_forward_limit?: number | null
+          company_id: string
+          created_at?: string
+          id?: string
+          leave_type: string
+          max_balance?: number | null
+          probation_months?: number
+          updated_at?: string
+          year_end_action?: string
+        }
+        Update: {
+          accrual_days?: number
+          accrual_frequency?: string
+          carry_forward_limit?: number | null
+          company_id?: string
+          created_at?: string
+          id?: string
+          leave_type?: string
+          max_balance?: number | null
+          probation_months?: number
+          updated_at?: string
+          year_end_action?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "leave_policies_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      leave_requests: {
+        Row: {
+          approved_at: string | null
+          approved_by: string | null
+          attachment_path: string | null
+          cancellation_reason: string | null
           company_id: string | null
           created_at: string
-          deductions: number | null
-          epf_amount: number | null
-          esic_amount: number | null
-          gross_salary: number | null
+          days: number | null
+          end_date: string
+          half_day: string | null
           id: string
-          month: number
-          net_salary: number | null
-          paid_leave_days: number | null
-          pf_amount: number | null
-          present_days: number | null
-          processed_at: string | null
-          status: string | null
-          total_additions: number | null
-          total_deductions: number | null
-          unpaid_leave_days: number | null
+          leave_type: string
+          modifies_request_id: string | null
+          reason: string | null
+          rejection_reason: string | null
+          start_date: string
+          status: Database["public"]["Enums"]["leave_status"] | null
           updated_at: string
           user_id: string
-          working_days: number | null
-          year: number
         }
         Insert: {
-          base_salary?: number | null
+          approved_at?: string | null
+          approved_by?: string | null
+          attachment_path?: string | null
+          cancellation_reason?: string | null
           company_id?: string | null
           created_at?: string
-          deductions?: number | null
-          epf_amount?: number | null
-          esic_amount?: number | null
-          gross_salary?: number | null
+          days?: number | null
+          end_date: string
+          half_day?: string | null
           id?: string
-          month: number
-          net_salary?: number | null
-          paid_leave_days?: number | null
-          pf_amount?: number | null
-          present_days?: number | null
-          processed_at?: string | null
-          status?: string | null
-          total_additions?: number | null
-          total_deductions?: number | null
-          unpaid_leave_days?: number | null
+          leave_type: string
+          modifies_request_id?: string | null
+          reason?: string | null
+          rejection_reason?: string | null
+          start_date: string
+          status?: Database["public"]["Enums"]["leave_status"] | null
           updated_at?: string
           user_id: string
-          working_days?: number | null
-          year: number
         }
         Update: {
-          base_salary?: number | null
+          approved_at?: string | null
+          approved_by?: string | null
+          attachment_path?: string | null
+          cancellation_reason?: string | null
           company_id?: string | null
           created_at?: string
-          deductions?: number | null
-          epf_amount?: number | null
-          esic_amount?: number | null
-          gross_salary?: number | null
+          days?: number | null
+          end_date?: string
+          half_day?: string | null
           id?: string
-          month?: number
-          net_salary?: number | null
-          paid_leave_days?: number | null
-          pf_amount?: number | null
-          present_days?: number | null
-          processed_at?: string | null
-          status?: string | null
-          total_additions?: number | null
-          total_deductions?: number | null
-          unpaid_leave_days?: number | null
+          leave_type?: string
+          modifies_request_id?: string | null
+          reason?: string | null
+          rejection_reason?: string | null
+          start_date?: string
+          status?: Database["public"]["Enums"]["leave_status"] | null
           updated_at?: string
           user_id?: string
-          working_days?: number | null
-          year?: number
         }
         Relationships: [
           {
-            foreignKeyName: "payroll_company_id_fkey"
+            foreignKeyName: "leave_requests_company_id_fkey"
             columns: ["company_id"]
             isOneToOne: false
             referencedRelation: "companies"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "leave_requests_modifies_request_id_fkey"
+            columns: ["modifies_request_id"]
+            isOneToOne: false
+            referencedRelation: "leave_requests"
+            referencedColumns: ["id"]
+          },
         ]
       }
-      payroll_adjustments: {
+      leave_types: {
         Row: {
-          adjustment_type: string
-          amount: number
-          company_id: string | null
+          allowed_genders: string[] | null
+          code: string
+          company_id: string
           created_at: string
           id: string
+          is_active: boolean
+          is_paid: boolean
+          max_consecutive_days: number | null
+          min_tenure_months: number
           name: string
-          payroll_id: string
+          requires_attachment: boolean
+          sort_order: number
+          tracks_balance: boolean
+          updated_at: string
         }
         Insert: {
-          adjustment_type: string
-          amount?: number
-          company_id?: string | null
+          allowed_genders?: string[] | null
+          code: string
+          company_id: string
           created_at?: string
           id?: string
+          is_active?: boolean
+          is_paid?: boolean
+          max_consecutive_days?: number | null
+          min_tenure_months?: number
           name: string
-          payroll_id: string
+          requires_attachment?: boolean
+          sort_order?: number
+          tracks_balance?: boolean
+          updated_at?: string
         }
         Update: {
-          adjustment_type?: string
-          amount?: number
-          company_id?: string | null
+          allowed_genders?: string[] | null
+          code?: string
+          company_id?: string
           created_at?: string
           id?: string
+          is_active?: boolean
+          is_paid?: boolean
+          max_consecutive_days?: number | null
+          min_tenure_months?: number
           name?: string
-          payroll_id?: string
+          requires_attachment?: boolean
+          sort_order?: number
+          tracks_balance?: boolean
+          updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "payroll_adjustments_company_id_fkey"
+            foreignKeyName: "leave_types_company_id_fkey"
             columns: ["company_id"]
             isOneToOne: false
             referencedRelation: "companies"
             referencedColumns: ["id"]
           },
+        ]
+      }
+      notifications: {
+        Row: {
+          body: string | null
+          company_id: string | null
+          created_at: string
+          id: string
+          link: string | null
+          read_at: string | null
+          title: string
+          user_id: string
+        }
+        Insert: {
+          body?: string | null
+          company_id?: string | null
+          created_at?: string
+          id?: string
+          link?: string | null
+          read_at?: string | null
+          title: string
+          user_id: string
+        }
+        Update: {
+          body?: string | null
+          company_id?: string | null
+          created_at?: string
+          id?: string
+          link?: string | null
+          read_at?: string | null
+          title?: string
+          user_id?: string
+        }
+        Relationships: [
           {
-            foreignKeyName: "payroll_adjustments_payroll_id_fkey"
-            columns: ["payroll_id"]
+            foreignKeyName: "notifications_company_id_fkey"
+            columns: ["company_id"]
             isOneToOne: false
-            referencedRelation: "payroll"
+            referencedRelation: "companies"
             referencedColumns: ["id"]
           },
         ]
       }
-      plans: {
+      office_locations: {
         Row: {
-          base_price: number
+          company_id: string
           created_at: string
-          features: Json | null
           id: string
-          is_active: boolean | null
-          max_employees: number
+          is_active: boolean
+          latitude: number
+          longitude: number
           name: string
-          plan_type: Database["public"]["Enums"]["plan_type"]
-          price_per_employee: number
+          radius_meters: number
           updated_at: string
         }
         Insert: {
-          base_price?: number
+          company_id: string
           created_at?: string
-          features?: Json | null
           id?: string
-          is_active?: boolean | null
-          max_employees?: number
+          is_active?: boolean
+          latitude: number
+          longitude: number
           name: string
-          plan_type: Database["public"]["Enums"]["plan_type"]
-          price_per_employee?: number
+          radius_meters?: number
           updated_at?: string
         }
         Update: {
-          base_price?: number
+          company_id?: string
           created_at?: string
-          features?: Json | null
           id?: string
-          is_active?: boolean | null
-          max_employees?: number
+          is_active?: boolean
+          latitude?: number
+          longitude?: number
           name?: string
-          plan_type?: Database["public"]["Enums"]["plan_type"]
-          price_per_employee?: number
+          radius_meters?: number
           updated_at?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "office_locations_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      profiles: {
+      onboarding_documents: {
         Row: {
-          address: string | null
-          avatar_url: string | null
-          bank_account_number: string | null
-          bank_ifsc: string | null
-          bank_name: string | null
-          company_id: string | null
+          company_id: string
+          created_at: string
+          document_type: string
+          file_name: string
+          file_path: string
+          id: string
+          review_note: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: string
+          task_id: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          company_id: string
+          created_at?: string
+          document_type: string
+          file_name: string
+          file_path: string
+          id?: string
+          review_note?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          task_id?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          company_id?: string
+          created_at?: string
+          document_type?: string
+          file_name?: string
+          file_path?: string
+          id?: string
+          review_note?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          task_id?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "onboarding_documents_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "onboarding_documents_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "onboarding_tasks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      onboarding_tasks: {
+        Row: {
+          assignee_id: string | null
+          company_id: string
+          completed_at: string | null
+          completed_by: string | null
+          created_at: string
+          description: string | null
+          document_type: string | null
+          due_date: string
+          due_offset_days: number
+          id: string
+          onboarding_id: string
+          overdue_notified_at: string | null
+          owner_type: string
+          sort_order: number
+          status: string
+          title: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          assignee_id?: string | null
+          company_id: string
+          completed_at?: string | null
+          completed_by?: string | null
+          created_at?: string
+          description?: string | null
+          document_type?: string | null
+          due_date: string
+          due_offset_days?: number
+          id?: string
+          onboarding_id: string
+          overdue_notified_at?: string | null
+          owner_type: string
+          sort_order?: number
+          status?: string
+          title: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          assignee_id?: string | null
+          company_id?: string
+          completed_at?: string | null
+          completed_by?: string | null
+          created_at?: string
+          description?: string | null
+          document_type?: string | null
+          due_date?: string
+          due_offset_days?: number
+          id?: string
+          onboarding_id?: string
+          overdue_notified_at?: string | null
+          owner_type?: string
+          sort_order?: number
+          status?: string
+          title?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "onboarding_tasks_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "onboarding_tasks_onboarding_id_fkey"
+            columns: ["onboarding_id"]
+            isOneToOne: false
+            referencedRelation: "employee_onboardings"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      onboarding_template_tasks: {
+        Row: {
+          assignee_id: string | null
+          company_id: string
+          created_at: string
+          description: string | null
+          document_type: string | null
+          due_offset_days: number
+          id: string
+          owner_type: string
+          sort_order: number
+          template_id: string
+          title: string
+        }
+        Insert: {
+          assignee_id?: string | null
+          company_id: string
+          created_at?: string
+          description?: string | null
+          document_type?: string | null
+          due_offset_days?: number
+          id?: string
+          owner_type: string
+          sort_order?: number
+          template_id: string
+          title: string
+        }
+        Update: {
+          assignee_id?: string | null
+          company_id?: string
+          created_at?: string
+          description?: string | null
+          document_type?: string | null
+          due_offset_days?: number
+          id?: string
+          owner_type?: string
+          sort_order?: number
+          template_id?: string
+          title?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "onboarding_template_tasks_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "onboarding_template_tasks_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "onboarding_templates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      onboarding_templates: {
+        Row: {
+          company_id: string
+          created_at: string
+          department_id: string | null
+          id: string
+          is_active: boolean
+          name: string
+          role: Database["public"]["Enums"]["app_role"] | null
+          updated_at: string
+        }
+        Insert: {
+          company_id: string
+          created_at?: string
+          department_id?: string | null
+          id?: string
+          is_active?: boolean
+          name: string
+          role?: Database["public"]["Enums"]["app_role"] | null
+          updated_at?: string
+        }
+        Update: {
+          company_id?: string
+          created_at?: string
+          department_id?: string | null
+          id?: string
+          is_active?: boolean
+          name?: string
+          role?: Database["public"]["Enums"]["app_role"] | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "onboarding_templates_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "onboarding_templates_department_id_fkey"
+            columns: ["department_id"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payroll: {
+        Row: {
+          base_salary: number | null
+          company_id: string | null
+          created_at: string
+          deductions: number | null
+          employer_esic_amount: number
+          epf_amount: number | null
+          eps_amount: number
+          esic_amount: number | null
+          esic_wages: number
+          gross_salary: number | null
+          id: string
+          month: number
+          net_salary: number | null
+          paid_leave_days: number | null
+          pf_amount: number | null
+          pf_wages: number
+          present_days: number | null
+          processed_at: string | null
+          run_id: string | null
+          status: string | null
+          tds_amount: number | null
+          total_additions: number | null
+          total_deductions: number | null
+          unpaid_leave_days: number | null
+          updated_at: string
+          user_id: string
+          working_days: number | null
+          year: number
+        }
+        Insert: {
+          base_salary?: number | null
+          company_id?: string | null
+          created_at?: string
+          deductions?: number | null
+          employer_esic_amount?: number
+          epf_amount?: number | null
+          eps_amount?: number
+          esic_amount?: number | null
+          esic_wages?: number
+          gross_salary?: number | null
+          id?: string
+          month: number
+          net_salary?: number | null
+          paid_leave_days?: number | null
+          pf_amount?: number | null
+          pf_wages?: number
+          present_days?: number | null
+          processed_at?: string | null
+          run_id?: string | null
+          status?: string | null
+          tds_amount?: number | null
+          total_additions?: number | null
+          total_deductions?: number | null
+          unpaid_leave_days?: number | null
+          updated_at?: string
+          user_id: string
+          working_days?: number | null
+          year: number
+        }
+        Update: {
+          base_salary?: number | null
+          company_id?: string | null
+          created_at?: string
+          deductions?: number | null
+          employer_esic_amount?: number
+          epf_amount?: number | null
+          eps_amount?: number
+          esic_amount?: number | null
+          esic_wages?: number
+          gross_salary?: number | null
+          id?: string
+          month?: number
+          net_salary?: number | null
+          paid_leave_days?: number | null
+          pf_amount?: number | null
+          pf_wages?: number
+          present_days?: number | null
+          processed_at?: string | null
+          run_id?: string | null
+          status?: string | null
+          tds_amount?: number | null
+          total_additions?: number | null
+          total_deductions?: number | null
+          unpaid_leave_days?: number | null
+          updated_at?: string
+          user_id?: string
+          working_days?: number | null
+          year?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payroll_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payroll_run_id_fkey"
+            columns: ["run_id"]
+            isOneToOne: false
+            referencedRelation: "payroll_runs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payroll_adjustments: {
+        Row: {
+          adjustment_type: string
+          amount: number
+          code: string | null
+          company_id: string | null
+          created_at: string
+          id: string
+          name: string
+          payroll_id: string
+        }
+        Insert: {
+          adjustment_type: string
+          amount?: number
+          code?: string | null
+          company_id?: string | null
+          created_at?: string
+          id?: string
+          name: string
+          payroll_id: string
+        }
+        Update: {
+          adjustment_type?: string
+          amount?: number
+          code?: string | null
+          company_id?: string | null
+          created_at?: string
+          id?: string
+          name?: string
+          payroll_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payroll_adjustments_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payroll_adjustments_payroll_id_fkey"
+            columns: ["payroll_id"]
+            isOneToOne: false
+            referencedRelation: "payroll"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payroll_run_transitions: {
+        Row: {
+          company_id: string | null
+          created_at: string
+          from_status: string | null
+          id: string
+          note: string | null
+          performed_by: string | null
+          run_id: string
+          to_status: string
+        }
+        Insert: {
+          company_id?: string | null
+          created_at?: string
+          from_status?: string | null
+          id?: string
+          note?: string | null
+          performed_by?: string | null
+          run_id: string
+          to_status: string
+        }
+        Update: {
+          company_id?: string | null
+          created_at?: string
+          from_status?: string | null
+          id?: string
+          note?: string | null
+          performed_by?: string | null
+          run_id?: string
+          to_status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payroll_run_transitions_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payroll_run_transitions_run_id_fkey"
+            columns: ["run_id"]
+            isOneToOne: false
+            referencedRelation: "payroll_runs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payroll_runs: {
+        Row: {
+          company_id: string
+          created_at: string
+          created_by: string | null
+          id: string
+          month: number
+          reverses_run_id: string | null
+          run_type: string
+          status: string
+          status_note: string | null
+          updated_at: string
+          year: number
+        }
+        Insert: {
+          company_id: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          month: number
+          reverses_run_id?: string | null
+          run_type?: string
+          status?: string
+          status_note?: string | null
+          updated_at?: string
+          year: number
+        }
+        Update: {
+          company_id?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          month?: number
+          reverses_run_id?: string | null
+          run_type?: string
+          status?: string
+          status_note?: string | null
+          updated_at?: string
+          year?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payroll_runs_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payroll_runs_reverses_run_id_fkey"
+            columns: ["reverses_run_id"]
+            isOneToOne: false
+            referencedRelation: "payroll_runs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      plans: {
+        Row: {
+          base_price: number
+          created_at: string
+          features: Json | null
+          id: string
+          is_active: boolean | null
+          max_employees: number
+          name: string
+          plan_type: Database["public"]["Enums"]["plan_type"]
+          price_per_employee: number
+          updated_at: string
+        }
+        Insert: {
+          base_price?: number
+          created_at?: string
+          features?: Json | null
+          id?: string
+          is_active?: boolean | null
+          max_employees?: number
+          name: string
+          plan_type: Database["public"]["Enums"]["plan_type"]
+          price_per_employee?: number
+          updated_at?: string
+        }
+        Update: {
+          base_price?: number
+          created_at?: string
+          features?: Json | null
+          id?: string
+          is_active?: boolean | null
+          max_employees?: number
+          name?: string
+          plan_type?: Database["public"]["Enums"]["plan_type"]
+          price_per_employee?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      profiles: {
+        Row: {
+          address: string | null
+          avatar_url: string | null
+          bank_account_number: string | null
+          bank_ifsc: string | null
+          bank_name: string | null
+          company_id: string | null
+          created_at: string
+          date_of_joining: string | null
+          department_id: string | null
+          email: string
+          employee_id: string | null
+          esic_ip_number: string | null
+          first_name: string
+          gender: string | null
+          id: string
+          last_name: string
+          monthly_salary: number | null
+          phone: string | null
+          reporting_manager_id: string | null
+          salary_structure_id: string | null
+          salary_type: string | null
+          timezone: string | null
+          uan: string | null
+          updated_at: string
+          user_id: string
+          work_state: string | null
+        }
+        Insert: {
+          address?: string | null
+          avatar_url?: string | null
+          bank_account_number?: string | null
+          bank_ifsc?: string | null
+          bank_name?: string | null
+          company_id?: string | null
+          created_at?: string
+          date_of_joining?: string | null
+          department_id?: string | null
+          email: string
+          employee_id?: string | null
+          esic_ip_number?: string | null
+          first_name: string
+          gender?: string | null
+          id?: string
+          last_name: string
+          monthly_salary?: number | null
+          phone?: string | null
+          reporting_manager_id?: string | null
+          salary_structure_id?: string | null
+          salary_type?: string | null
+          timezone?: string | null
+          uan?: string | null
+          updated_at?: string
+          user_id: string
+          work_state?: string | null
+        }
+        Update: {
+          address?: string | null
+          avatar_url?: string | null
+          bank_account_number?: string | null
+          bank_ifsc?: string | null
+          bank_name?: string | null
+          company_id?: string | null
+          created_at?: string
+          date_of_joining?: string | null
+          department_id?: string | null
+          email?: string
+          employee_id?: string | null
+          esic_ip_number?: string | null
+          first_name?: string
+          gender?: string | null
+          id?: string
+          last_name?: string
+          monthly_salary?: number | null
+          phone?: string | null
+          reporting_manager_id?: string | null
+          salary_structure_id?: string | null
+          salary_type?: string | null
+          timezone?: string | null
+          uan?: string | null
+          updated_at?: string
+          user_id?: string
+          work_state?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "profiles_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "profiles_department_id_fkey"
+            columns: ["department_id"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "profiles_reporting_manager_id_fkey"
+            columns: ["reporting_manager_id"]
+            isOneToOne: false
+            referencedRelation: "employee_directory"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "profiles_reporting_manager_id_fkey"
+            columns: ["reporting_manager_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "profiles_salary_structure_id_fkey"
+            columns: ["salary_structure_id"]
+            isOneToOne: false
+            referencedRelation: "salary_structures"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      project_tasks: {
+        Row: {
+          company_id: string
+          created_at: string
+          id: string
+          is_active: boolean
+          is_billable: boolean
+          name: string
+          project_id: string
+          updated_at: string
+        }
+        Insert: {
+          company_id: string
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          is_billable?: boolean
+          name: string
+          project_id: string
+          updated_at?: string
+        }
+        Update: {
+          company_id?: string
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          is_billable?: boolean
+          name?: string
+          project_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_tasks_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "project_tasks_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      projects: {
+        Row: {
+          client_name: string | null
+          code: string | null
+          company_id: string
+          created_at: string
+          created_by: string | null
+          id: string
+          is_active: boolean
+          is_billable: boolean
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          client_name?: string | null
+          code?: string | null
+          company_id: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          is_active?: boolean
+          is_billable?: boolean
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          client_name?: string | null
+          code?: string | null
+          company_id?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          is_active?: boolean
+          is_billable?: boolean
+          name?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "projects_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      pt_slabs: {
+        Row: {
+          amount: number
+          company_id: string | null
+          created_at: string
+          february_amount: number | null
+          id: string
+          max_salary: number | null
+          min_salary: number
+          state: string
+        }
+        Insert: {
+          amount?: number
+          company_id?: string | null
+          created_at?: string
+          february_amount?: number | null
+          id?: string
+          max_salary?: number | null
+          min_salary?: number
+          state: string
+        }
+        Update: {
+          amount?: number
+          company_id?: string | null
+          created_at?: string
+          february_amount?: number | null
+          id?: string
+          max_salary?: number | null
+          min_salary?: number
+          state?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "pt_slabs_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      salary_components: {
+        Row: {
+          calculation_type: string
+          code: string
+          company_id: string | null
+          created_at: string
+          id: string
+          is_esic_wage: boolean
+          is_pf_wage: boolean
+          name: string
+          sort_order: number
+          structure_id: string
+          value: number
+        }
+        Insert: {
+          calculation_type?: string
+          code: string
+          company_id?: string | null
+          created_at?: string
+          id?: string
+          is_esic_wage?: boolean
+          is_pf_wage?: boolean
+          name: string
+          sort_order?: number
+          structure_id: string
+          value?: number
+        }
+        Update: {
+          calculation_type?: string
+          code?: string
+          company_id?: string | null
+          created_at?: string
+          id?: string
+          is_esic_wage?: boolean
+          is_pf_wage?: boolean
+          name?: string
+          sort_order?: number
+          structure_id?: string
+          value?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "salary_components_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "salary_components_structure_id_fkey"
+            columns: ["structure_id"]
+            isOneToOne: false
+            referencedRelation: "salary_structures"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      salary_structures: {
+        Row: {
+          company_id: string | null
+          created_at: string
+          department_id: string | null
+          description: string | null
+          id: string
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          company_id?: string | null
+          created_at?: string
+          department_id?: string | null
+          description?: string | null
+          id?: string
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          company_id?: string | null
+          created_at?: string
+          department_id?: string | null
+          description?: string | null
+          id?: string
+          name?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "salary_structures_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "salary_structures_department_id_fkey"
+            columns: ["department_id"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      shift_assignments: {
+        Row: {
+          company_id: string
           created_at: string
-          date_of_joining: string | null
-          department_id: string | null
-          email: string
-          employee_id: string | null
-          first_name: string
+          created_by: string | null
+          end_date: string | null
           id: string
-          last_name: string
-          monthly_salary: number | null
-          phone: string | null
-          reporting_manager_id: string | null
-          salary_type: string | null
+          rotation_id: string | null
+          start_date: string
           updated_at: string
           user_id: string
+          weekly_offs: string[]
+          work_session_id: string | null
         }
         Insert: {
-          address?: string | null
-          avatar_url?: string | null
-          bank_account_number?: string | null
-          bank_ifsc?: string | null
-          bank_name?: string | null
-          company_id?: string | null
+          company_id: string
           created_at?: string
-          date_of_joining?: string | null
-          department_id?: string | null
-          email: string
-          employee_id?: string | null
-          first_name: string
+          created_by?: string | null
+          end_date?: string | null
           id?: string
-          last_name: string
-          monthly_salary?: number | null
-          phone?: string | null
-          reporting_manager_id?: string | null
-          salary_type?: string | null
+          rotation_id?: string | null
+          start_date: string
           updated_at?: string
           user_id: string
+          weekly_offs?: string[]
+          work_session_id?: string | null
         }
         Update: {
-          address?: string | null
-          avatar_url?: string | null
-          bank_account_number?: string | null
-          bank_ifsc?: string | null
-          bank_name?: string | null
-          company_id?: string | null
+          company_id?: string
           created_at?: string
-          date_of_joining?: string | null
-          department_id?: string | null
-          email?: string
-          employee_id?: string | null
-          first_name?: string
+          created_by?: string | null
+          end_date?: string | null
           id?: string
-          last_name?: string
-          monthly_salary?: number | null
-          phone?: string | null
-          reporting_manager_id?: string | null
-          salary_type?: string | null
+          rotation_id?: string | null
+          start_date?: string
           updated_at?: string
           user_id?: string
+          weekly_offs?: string[]
+          work_session_id?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "profiles_company_id_fkey"
+            foreignKeyName: "shift_assignments_company_id_fkey"
             columns: ["company_id"]
             isOneToOne: false
             referencedRelation: "companies"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "profiles_department_id_fkey"
-            columns: ["department_id"]
+            foreignKeyName: "shift_assignments_rotation_id_fkey"
+            columns: ["rotation_id"]
             isOneToOne: false
-            referencedRelation: "departments"
+            referencedRelation: "shift_rotations"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "profiles_reporting_manager_id_fkey"
-            columns: ["reporting_manager_id"]
+            foreignKeyName: "shift_assignments_work_session_id_fkey"
+            columns: ["work_session_id"]
             isOneToOne: false
-            referencedRelation: "employee_directory"
+            referencedRelation: "work_sessions"
             referencedColumns: ["id"]
           },
+        ]
+      }
+      shift_rotations: {
+        Row: {
+          company_id: string
+          created_at: string
+          id: string
+          name: string
+          pattern: Json
+          updated_at: string
+        }
+        Insert: {
+          company_id: string
+          created_at?: string
+          id?: string
+          name: string
+          pattern: Json
+          updated_at?: string
+        }
+        Update: {
+          company_id?: string
+          created_at?: string
+          id?: string
+          name?: string
+          pattern?: Json
+          updated_at?: string
+        }
+        Relationships: [
           {
-            foreignKeyName: "profiles_reporting_manager_id_fkey"
-            columns: ["reporting_manager_id"]
+            foreignKeyName: "shift_rotations_company_id_fkey"
+            columns: ["company_id"]
             isOneToOne: false
-            referencedRelation: "profiles"
+            referencedRelation: "companies"
             referencedColumns: ["id"]
           },
         ]
@@ -686,6 +2209,230 @@ export type Database = {
         }
         Relationships: []
       }
+      tax_declarations: {
+        Row: {
+          company_id: string | null
+          created_at: string
+          financial_year: string
+          hra_rent_paid: number
+          id: string
+          metro_city: boolean
+          regime: string
+          section_80c: number
+          section_80d: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          company_id?: string | null
+          created_at?: string
+          financial_year: string
+          hra_rent_paid?: number
+          id?: string
+          metro_city?: boolean
+          regime?: string
+          section_80c?: number
+          section_80d?: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          company_id?: string | null
+          created_at?: string
+          financial_year?: string
+          hra_rent_paid?: number
+          id?: string
+          metro_city?: boolean
+          regime?: string
+          section_80c?: number
+          section_80d?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tax_declarations_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      tax_slab_configs: {
+        Row: {
+          cess_percentage: number
+          company_id: string | null
+          created_at: string
+          financial_year: string
+          id: string
+          rebate_amount: number
+          rebate_limit: number
+          regime: string
+          slabs: Json
+          standard_deduction: number
+          version: number
+        }
+        Insert: {
+          cess_percentage?: number
+          company_id?: string | null
+          created_at?: string
+          financial_year: string
+          id?: string
+          rebate_amount?: number
+          rebate_limit?: number
+          regime: string
+          slabs: Json
+          standard_deduction?: number
+          version?: number
+        }
+        Update: {
+          cess_percentage?: number
+          company_id?: string | null
+          created_at?: string
+          financial_year?: string
+          id?: string
+          rebate_amount?: number
+          rebate_limit?: number
+          regime?: string
+          slabs?: Json
+          standard_deduction?: number
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tax_slab_configs_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      timesheet_entries: {
+        Row: {
+          company_id: string
+          created_at: string
+          id: string
+          is_billable: boolean
+          minutes: number
+          notes: string | null
+          project_id: string
+          task_id: string | null
+          timesheet_id: string
+          updated_at: string
+          user_id: string
+          work_date: string
+        }
+        Insert: {
+          company_id: string
+          created_at?: string
+          id?: string
+          is_billable?: boolean
+          minutes: number
+          notes?: string | null
+          project_id: string
+          task_id?: string | null
+          timesheet_id: string
+          updated_at?: string
+          user_id: string
+          work_date: string
+        }
+        Update: {
+          company_id?: string
+          created_at?: string
+          id?: string
+          is_billable?: boolean
+          minutes?: number
+          notes?: string | null
+          project_id?: string
+          task_id?: string | null
+          timesheet_id?: string
+          updated_at?: string
+          user_id?: string
+          work_date?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "timesheet_entries_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "timesheet_entries_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "timesheet_entries_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "project_tasks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "timesheet_entries_timesheet_id_fkey"
+            columns: ["timesheet_id"]
+            isOneToOne: false
+            referencedRelation: "timesheets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      timesheets: {
+        Row: {
+          approved_at: string | null
+          approved_by: string | null
+          company_id: string
+          created_at: string
+          id: string
+          rejection_reason: string | null
+          status: string
+          submitted_at: string | null
+          updated_at: string
+          user_id: string
+          week_start: string
+        }
+        Insert: {
+          approved_at?: string | null
+          approved_by?: string | null
+          company_id: string
+          created_at?: string
+          id?: string
+          rejection_reason?: string | null
+          status?: string
+          submitted_at?: string | null
+          updated_at?: string
+          user_id: string
+          week_start: string
+        }
+        Update: {
+          approved_at?: string | null
+          approved_by?: string | null
+          company_id?: string
+          created_at?: string
+          id?: string
+          rejection_reason?: string | null
+          status?: string
+          submitted_at?: string | null
+          updated_at?: string
+          user_id?: string
+          week_start?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "timesheets_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       user_roles: {
         Row: {
           id: string
@@ -804,28 +2551,119 @@ export type Database = {
       }
     }
     Functions: {
+      attendance_timezone: {
+        Args: { _company_id: string; _user_id: string }
+        Returns: string
+      }
       belongs_to_company: {
         Args: { _company_id: string; _user_id: string }
         Returns: boolean
       }
+      check_timesheet_day: {
+        Args: { _user_id: string; _work_date: string }
+        Returns: undefined
+      }
+      close_attendance_day: {
+        Args: { _company_id: string; _date: string }
+        Returns: {
+          absent_count: number
+          closed_at: string
+          closed_by: string | null
+          closed_count: number
+          company_id: string
+          id: string
+          on_leave_count: number
+          work_date: string
+        }
+      }
+      create_payroll_reversal_run: {
+        Args: { _note?: string; _run_id: string }
+        Returns: {
+          company_id: string
+          created_at: string
+          created_by: string | null
+          id: string
+          month: number
+          reverses_run_id: string | null
+          run_type: string
+          status: string
+          status_note: string | null
+          updated_at: string
+          year: number
+        }
+      }
+      expire_comp_off_credits: {
+        Args: { _company_id: string; _user_id?: string }
+        Returns: number
+      }
+      get_department_leave: {
+        Args: { _department_id: string; _end_date: string; _start_date: string }
+        Returns: {
+          end_date: string
+          half_day: string
+          leave_request_id: string
+          leave_type: string
+          start_date: string
+          status: Database["public"]["Enums"]["leave_status"]
+          user_id: string
+        }[]
+      }
+      get_rostered_shift: {
+        Args: { _date: string; _user_id: string }
+        Returns: {
+          is_off: boolean
+          work_session_id: string
+        }[]
+      }
       get_user_company_id: { Args: { _user_id: string }; Returns: string }
       get_user_role: {
         Args: { _user_id: string }
         Returns: Database["public"]["Enums"]["app_role"]
       }
       has_role: { Args: { _role: string; _user_id: string }; Returns: boolean }
+      is_company_admin: {
+        Args: { _company_id: string; _user_id: string }
+        Returns: boolean
+      }
+      is_leave_approver: {
+        Args: { _leave_request_id: string; _user_id: string }
+        Returns: boolean
+      }
       is_manager_or_above: { Args: { _user_id: string }; Returns: boolean }
+      is_payroll_run_frozen: { Args: { _run_id: string }; Returns: boolean }
       is_super_admin: { Args: { _user_id: string }; Returns: boolean }
+      is_working_day: {
+        Args: { _company_id: string; _date: string; _user_id: string }
+        Returns: boolean
+      }
+      leave_request_status: { Args: { _request_id: string }; Returns: string }
       manages_user: {
         Args: { _employee_user_id: string; _manager_user_id: string }
         Returns: boolean
       }
+      notify_overdue_onboarding_tasks: {
+        Args: { _company_id: string }
+        Returns: number
+      }
+      payroll_run_status: { Args: { _run_id: string }; Returns: string }
+      refresh_attendance_summary: {
+        Args: { _date: string; _user_id: string }
+        Returns: undefined
+      }
+      start_onboarding: {
+        Args: { _template_id?: string; _user_id: string }
+        Returns: string
+      }
     }
     Enums: {
       app_role: "owner" | "admin" | "manager" | "employee" | "super_admin"
       attendance_status: "present" | "absent" | "half_day" | "on_leave" | "late"
-      leave_status: "pending" | "approved" | "rejected"
-      leave_type: "casual" | "sick" | "paid" | "unpaid"
+      leave_status:
+        | "pending"
+        | "approved"
+        | "rejected"
+        | "cancellation_requested"
+        | "cancelled"
       plan_type: "free" | "starter" | "professional" | "enterprise"
       subscription_status:
         | "trialing"
@@ -962,8 +2800,7 @@ export const Constants = {
     Enums: {
       app_role: ["owner", "admin", "manager", "employee", "super_admin"],
       attendance_status: ["present", "absent", "half_day", "on_leave", "late"],
-      leave_status: ["pending", "approved", "rejected"],
-      leave_type: ["casual", "sick", "paid", "unpaid"],
+      leave_status: ["pending", "approved", "rejected", "cancellation_requested", "cancelled"],
       plan_type: ["free", "starter", "professional", "enterprise"],
       subscription_status: [
         "trialing",
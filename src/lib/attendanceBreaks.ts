@@ -0,0 +1,98 @@
+// src/lib/attendanceBreaks.ts
+/**
+ * Punch segments and breaks
+ * A day can be worked in several segments. Signing out for a break records
+ * the break's type and the next sign-in ends it; signing out without one ends
+ * the day. Official breaks, such as a client visit, count as worked time. The
+ * stored daily summary is kept by the database; this works out the day still
+ * in progress for the live timers.
+ */
+
+import { AttendanceSession, BreakType } from '@/types/hrms';
+
+export const BREAK_TYPE_LABELS: Record<BreakType, string> = {
+  lunch: 'Lunch',
+  personal: 'Personal',
+  official: 'Official duty',
+};
+
+export interface WorkDayProgress {
+  /** The day's segments so far, oldest first */
+  segments: AttendanceSession[];
+  /** Segment still signed in; null while on a break */
+  openSegment: AttendanceSession | null;
+  currentBreak: { type: BreakType; since: Date } | null;
+  /** Signed-in time plus official breaks */
+  workedMs: number;
+  /** Lunch and personal breaks, including the one in progress */
+  breakMs: number;
+}
+
+const isWorkedSegment = (session: AttendanceSession) =>
+  session.status !== 'absent' && session.status !== 'on_leave';
+
+const isWorkedBreak = (type: BreakType) => type === 'official';
+
+/**
+ * The day in progress from a user's recent segments: the latest segment and
+ * the ones before it that ended for a break. Null when the user is neither
+ * signed in nor on a break.
+ */
+export function getWorkDayProgress(recent: AttendanceSession[], now: Date = new Date()): WorkDayProgress | null {
+  const worked = recent
+    .filter(isWorkedSegment)
+    .sort((a, b) => new Date(a.sign_in_time).getTime() - new Date(b.sign_in_time).getTime());
+  const last = worked[worked.length - 1];
+  if (!last || (last.sign_out_time && !last.break_type)) return null;
+
+  let startIndex = worked.length - 1;
+  while (startIndex > 0 && worked[startIndex - 1].break_type && worked[startIndex - 1].sign_out_time) {
+    startIndex--;
+  }
+  const segments = worked.slice(startIndex);
+
+  let workedMs = 0;
+  let breakMs = 0;
+  segments.forEach((segment, index) => {
+    const signIn = new Date(segment.sign_in_time).getTime();
+    const signOut = segment.sign_out_time ? new Date(segment.sign_out_time).getTime() : now.getTime();
+    workedMs += Math.max(0, signOut - signIn);
+
+    if (!segment.break_type || !segment.sign_out_time) return;
+    const next = segments[index + 1];
+    const breakEnd = next ? new Date(next.sign_in_time).getTime() : now.getTime();
+    const breakLength = Math.max(0, breakEnd - signOut);
+    if (isWorkedBreak(segment.break_type)) workedMs += breakLength;
+    else breakMs += breakLength;
+  });
+
+  const openSegment = last.sign_out_time ? null : last;
+  return {
+    segments,
+    openSegment,
+    currentBreak: !openSegment && last.break_type
+      ? { type: last.break_type, since: new Date(last.sign_out_time!) }
+      : null,
+    workedMs,
+    breakMs,
+  };
+}
+
+/**
+ * A running timer, such as 2h 5m 9s
+ */
+export function formatElapsed(ms: number): string {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  return `${hours}h ${minutes}m ${totalSeconds % 60}s`;
+}
+
+/**
+ * Minutes as hours and minutes, such as 7h 30m
+ */
+export function formatWorkedMinutes(minutes: number): string {
+  const rounded = Math.max(0, Math.round(minutes));
+  const hours = Math.floor(rounded / 60);
+  return hours > 0 ? `${hours}h ${rounded % 60}m` : `${rounded % 60}m`;
+}
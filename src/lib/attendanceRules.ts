@@ -0,0 +1,70 @@
+// src/lib/attendanceRules.ts
+/**
+ * Attendance evaluation
+ * A day is measured against the shift it was worked on - the rostered
+ * shift, or the company's office hours without one. Signing in past the grace
+ * period is late, a day worked under the half-day threshold is a half day, and
+ * time beyond the shift's length is overtime once it passes the minimum.
+ * The first sign-in sets the late status; the day's last sign-out and the
+ * close-out of past days set the final status and overtime.
+ */
+
+import { AttendanceRules, AttendanceStatus, CompanySettings } from '@/types/hrms';
+import { getShiftDate, getShiftMinutes, getShiftWindow, ShiftTimes } from '@/lib/shiftRoster';
+
+export const DEFAULT_ATTENDANCE_RULES: AttendanceRules = {
+  grace_minutes: 15,
+  half_day_below_hours: 4,
+  overtime_after_minutes: 30,
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface AttendanceEvaluation {
+  status: Extract<AttendanceStatus, 'present' | 'late' | 'half_day'>;
+  /** null while the session is still open */
+  workedHours: number | null;
+  lateMinutes: number;
+  overtimeHours: number;
+}
+
+/**
+ * Office hours as a shift, for employees without a roster
+ */
+export function officeHoursShift(settings: Pick<CompanySettings, 'office_hours_start' | 'office_hours_end'>): ShiftTimes {
+  return { start_time: settings.office_hours_start, end_time: settings.office_hours_end };
+}
+
+/**
+ * Evaluate a day against its shift, read in the employee's timezone. Without
+ * a sign-out only lateness is known. A day worked in segments passes the
+ * minutes worked across them; otherwise the whole time from sign-in to
+ * sign-out counts.
+ */
+export function evaluateAttendance(
+  signIn: Date,
+  signOut: Date | null,
+  shift: ShiftTimes,
+  rules: AttendanceRules,
+  timeZone: string,
+  workedMinutes?: number
+): AttendanceEvaluation {
+  const { start } = getShiftWindow(shift, getShiftDate(signIn, shift, timeZone), timeZone);
+  const lateMinutes = Math.max(0, Math.floor((signIn.getTime() - start.getTime()) / 60000));
+  const isLate = lateMinutes > rules.grace_minutes;
+
+  if (!signOut) {
+    return { status: isLate ? 'late' : 'present', workedHours: null, lateMinutes, overtimeHours: 0 };
+  }
+
+  const workedHours = workedMinutes !== undefined
+    ? Math.max(0, workedMinutes / 60)
+    : Math.max(0, (signOut.getTime() - signIn.getTime()) / HOUR_MS);
+  const excessMinutes = workedHours * 60 - getShiftMinutes(shift);
+  const overtimeHours = excessMinutes > 0 && excessMinutes >= rules.overtime_after_minutes
+    ? Math.round(excessMinutes / 60 * 100) / 100
+    : 0;
+
+  const status = workedHours < rules.half_day_below_hours ? 'half_day' : isLate ? 'late' : 'present';
+  return { status, workedHours, lateMinutes, overtimeHours };
+}
@@ -0,0 +1,151 @@
+import { describe, expect, it } from 'vitest';
+import { getPaymentMode, PayoutEntry, PayoutOptions, renderPayoutFile, validatePayoutEntries } from './bankPayout';
+
+function entry(overrides: Partial<PayoutEntry> = {}): PayoutEntry {
+  return {
+    payrollId: 'payroll-a',
+    userId: 'user-a',
+    employeeCode: 'E-001',
+    beneficiaryName: "Asha D'Souza",
+    accountNumber: '50100123456789',
+    ifsc: 'HDFC0001234',
+    bankName: 'HDFC Bank',
+    email: 'asha@example.com',
+    amount: 45000.5,
+    ...overrides,
+  };
+}
+
+const asha = entry();
+const ravi = entry({
+  payrollId: 'payroll-b',
+  userId: 'user-b',
+  employeeCode: null,
+  beneficiaryName: 'Ravi Kumar',
+  accountNumber: '123456789012',
+  ifsc: 'ICIC0000456',
+  bankName: 'ICICI Bank, Fort',
+  email: 'ravi@example.com',
+  amount: 250000,
+});
+
+const options: PayoutOptions = {
+  debitAccountNumber: '00011122233344',
+  valueDate: new Date(2026, 6, 31),
+  narration: 'Salary Jul 2026',
+};
+
+function lines(file: string): string[] {
+  return file.split('\r\n').slice(0, -1);
+}
+
+describe('validatePayoutEntries', () => {
+  it('normalizes bank details of payable entries', () => {
+    const { payable, issues } = validatePayoutEntries([
+      entry({ accountNumber: '5010-0123 456789', ifsc: ' hdfc0001234 ', amount: 45000.499 }),
+    ]);
+
+    expect(issues).toEqual([]);
+    expect(payable[0]).toMatchObject({ accountNumber: '50100123456789', ifsc: 'HDFC0001234', amount: 45000.5 });
+  });
+
+  it('blocks entries with missing or malformed bank details', () => {
+    const { payable, issues } = validatePayoutEntries([
+      entry({ accountNumber: null }),
+      entry({ userId: 'user-b', accountNumber: '1234', ifsc: 'HDFC1234567' }),
+    ]);
+
+    expect(payable).toEqual([]);
+    expect(issues.map(issue => `${issue.severity}: ${issue.message}`)).toEqual([
+      'error: Bank account number is missing',
+      'error: Account number 1234 must be 9-18 digits',
+      'error: IFSC HDFC1234567 is invalid',
+    ]);
+  });
+
+  it('leaves out zero and negative net pay with a warning', () => {
+    const { payable, issues } = validatePayoutEntries([entry({ amount: 0 }), entry({ userId: 'user-b', amount: -10 })]);
+
+    expect(payable).toEqual([]);
+    expect(issues.map(issue => `${issue.severity}: ${issue.message}`)).toEqual([
+      'warning: Net pay is zero; not included',
+      'warning: Net pay is negative; not included',
+    ]);
+  });
+
+  it('blocks an account shared between employees', () => {
+    const { payable, issues } = validatePayoutEntries([asha, entry({ userId: 'user-b', beneficiaryName: 'Ravi Kumar' })]);
+
+    expect(payable).toEqual([]);
+    expect(issues.map(issue => issue.employeeName)).toEqual(["Asha D'Souza", 'Ravi Kumar']);
+    expect(issues[0].message).toBe('Account 50100123456789 is also used by another employee');
+  });
+});
+
+describe('getPaymentMode', () => {
+  it('pays within the bank as an internal transfer', () => {
+    expect(getPaymentMode(asha, 'HDFC')).toBe('internal');
+  });
+
+  it('sends other banks NEFT below the RTGS minimum and RTGS from it', () => {
+    expect(getPaymentMode(asha, 'ICIC')).toBe('neft');
+    expect(getPaymentMode(ravi, 'HDFC')).toBe('rtgs');
+    expect(getPaymentMode(ravi, null)).toBe('rtgs');
+  });
+});
+
+describe('renderPayoutFile', () => {
+  it('renders HDFC bulk upload rows with positional blank columns', () => {
+    const [internal, rtgs] = lines(renderPayoutFile('hdfc_csv', [asha, ravi], options)).map(line => line.split(','));
+
+    expect(internal).toHaveLength(28);
+    expect(internal.slice(0, 5)).toEqual(['I', 'E001', '50100123456789', '45000.50', 'ASHA D SOUZA']);
+    expect(internal[13]).toBe('SALARY JUL 2026');
+    expect(internal.slice(22)).toEqual(['31/07/2026', '', '', 'HDFC BANK', '', 'asha@example.com']);
+    expect(rtgs[0]).toBe('R');
+    expect(rtgs[1]).toBe('USERB');
+    expect(rtgs[24]).toBe('ICIC0000456');
+  });
+
+  it('renders ICICI rows under their header', () => {
+    const [header, row] = lines(renderPayoutFile('icici_csv', [asha], options));
+
+    expect(header.split(',')[0]).toBe('PYMT_MODE');
+    expect(row).toBe(
+      'NEFT,00011122233344,ASHA D SOUZA,50100123456789,HDFC0001234,45000.50,SALARY JUL 2026,SALARY JUL 2026,asha@example.com,31-07-2026,E001'
+    );
+  });
+
+  it('quotes generic NEFT cells that contain commas', () => {
+    const [, first, second] = lines(renderPayoutFile('neft_csv', [asha, ravi], options));
+
+    expect(first).toBe('1,ASHA D SOUZA,50100123456789,HDFC0001234,HDFC Bank,45000.50,NEFT,31/07/2026,SALARY JUL 2026,E-001,00011122233344');
+    expect(second).toContain(',"ICICI Bank, Fort",250000.00,RTGS,');
+  });
+
+  it('pads fixed-width rows and carries amounts in paise', () => {
+    const [row] = lines(renderPayoutFile('hdfc_fixed', [asha], options));
+
+    expect(row).toHaveLength(143);
+    expect(row.slice(0, 15)).toBe('IE001         5');
+    expect(row.slice(39, 54)).toBe('000000004500050');
+    expect(row.slice(94, 113)).toBe('HDFC000123431072026');
+  });
+
+  it('leaves out an email that is not a plain address', () => {
+    const formula = entry({ email: '=HYPERLINK("http://evil.example","x")' });
+    const listed = entry({ email: 'asha@example.com,boss@example.com' });
+
+    for (const unsafe of [formula, listed]) {
+      const [hdfc] = lines(renderPayoutFile('hdfc_csv', [unsafe], options));
+      const [, icici] = lines(renderPayoutFile('icici_csv', [unsafe], options));
+
+      expect(hdfc.endsWith(',HDFC BANK,,')).toBe(true);
+      expect(icici.split(',')[8]).toBe('');
+    }
+  });
+
+  it('ends every line with CRLF', () => {
+    expect(renderPayoutFile('sbi_csv', [asha], options)).toMatch(/^[^\n]*\r\n[^\n]*\r\n$/);
+  });
+});
@@ -0,0 +1,330 @@
+// src/lib/bankPayout.ts
+/**
+ * Bank payout files
+ * Validates net-pay transfers and renders them in the bulk-upload layouts of
+ * common Indian banks. Pure functions; loading and downloading live in
+ * exportService.
+ */
+
+import { BankPayoutFormat } from '@/types/hrms';
+
+export interface BankPayoutFormatDefinition {
+  label: string;
+  extension: 'csv' | 'txt';
+  /** IFSC prefix of the bank; transfers within it go as internal transfers */
+  ifscPrefix: string | null;
+}
+
+export const BANK_PAYOUT_FORMATS: Record<BankPayoutFormat, BankPayoutFormatDefinition> = {
+  hdfc_csv: { label: 'HDFC Bank (CSV)', extension: 'csv', ifscPrefix: 'HDFC' },
+  hdfc_fixed: { label: 'HDFC Bank (fixed width)', extension: 'txt', ifscPrefix: 'HDFC' },
+  icici_csv: { label: 'ICICI Bank (CSV)', extension: 'csv', ifscPrefix: 'ICIC' },
+  icici_fixed: { label: 'ICICI Bank (fixed width)', extension: 'txt', ifscPrefix: 'ICIC' },
+  sbi_csv: { label: 'State Bank of India (CSV)', extension: 'csv', ifscPrefix: 'SBIN' },
+  sbi_fixed: { label: 'State Bank of India (fixed width)', extension: 'txt', ifscPrefix: 'SBIN' },
+  neft_csv: { label: 'Generic NEFT (CSV)', extension: 'csv', ifscPrefix: null },
+};
+
+/** Transfers at or above this amount must go by RTGS */
+export const RTGS_MINIMUM_AMOUNT = 200000;
+
+const IFSC_PATTERN = /^[A-Z]{4}0[A-Z0-9]{6}$/;
+const ACCOUNT_PATTERN = /^[0-9]{9,18}$/;
+// Starts with a letter or digit, so a spreadsheet cannot read it as a formula
+const EMAIL_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._%+-]*@[A-Za-z0-9.-]+\.[A-Za-z]{2,}$/;
+
+export interface PayoutEntry {
+  payrollId: string;
+  userId: string;
+  employeeCode: string | null;
+  beneficiaryName: string;
+  accountNumber: string | null;
+  ifsc: string | null;
+  bankName: string | null;
+  email: string | null;
+  amount: number;
+}
+
+export interface PayoutOptions {
+  /** Company account the salaries are debited from */
+  debitAccountNumber: string;
+  valueDate: Date;
+  /** e.g. "SALARY OCT 2026" */
+  narration: string;
+}
+
+export type PayoutIssueSeverity = 'error' | 'warning';
+
+export interface PayoutIssue {
+  userId: string;
+  employeeName: string;
+  severity: PayoutIssueSeverity;
+  message: string;
+}
+
+export interface PayoutValidation {
+  /** Entries that go into the file */
+  payable: PayoutEntry[];
+  /** Errors block the export; warnings only leave the row out of the file */
+  issues: PayoutIssue[];
+}
+
+export function normalizeIfsc(ifsc: string | null): string {
+  return (ifsc || '').trim().toUpperCase();
+}
+
+export function normalizeAccountNumber(account: string | null): string {
+  return (account || '').replace(/[\s-]/g, '');
+}
+
+export function isValidIfsc(ifsc: string | null): boolean {
+  return IFSC_PATTERN.test(normalizeIfsc(ifsc));
+}
+
+/**
+ * Check every entry before a file is generated: bank details present and well
+ * formed, a positive amount, and no account shared between employees
+ */
+export function validatePayoutEntries(entries: PayoutEntry[]): PayoutValidation {
+  const issues: PayoutIssue[] = [];
+  const payable: PayoutEntry[] = [];
+  const issue = (entry: PayoutEntry, severity: PayoutIssueSeverity, message: string) =>
+    issues.push({ userId: entry.userId, employeeName: entry.beneficiaryName, severity, message });
+
+  const accountOwners = new Map<string, Set<string>>();
+  entries.forEach(entry => {
+    const key = `${normalizeIfsc(entry.ifsc)}:${normalizeAccountNumber(entry.accountNumber)}`;
+    if (!normalizeAccountNumber(entry.accountNumber)) return;
+    const owners = accountOwners.get(key) || new Set<string>();
+    owners.add(entry.userId);
+    accountOwners.set(key, owners);
+  });
+
+  entries.forEach(entry => {
+    const amount = Math.round(Number(entry.amount) * 100) / 100;
+    if (amount <= 0) {
+      issue(entry, 'warning', amount === 0 ? 'Net pay is zero; not included' : 'Net pay is negative; not included');
+      return;
+    }
+
+    const account = normalizeAccountNumber(entry.accountNumber);
+    const ifsc = normalizeIfsc(entry.ifsc);
+    let valid = true;
+
+    if (!account) {
+      issue(entry, 'error', 'Bank account number is missing');
+      valid = false;
+    } else if (!ACCOUNT_PATTERN.test(account)) {
+      issue(entry, 'error', `Account number ${account} must be 9-18 digits`);
+      valid = false;
+    }
+
+    if (!ifsc) {
+      issue(entry, 'error', 'IFSC is missing');
+      valid = false;
+    } else if (!IFSC_PATTERN.test(ifsc)) {
+      issue(entry, 'error', `IFSC ${ifsc} is invalid`);
+      valid = false;
+    }
+
+    if (account && (accountOwners.get(`${ifsc}:${account}`)?.size || 0) > 1) {
+      issue(entry, 'error', `Account ${account} is also used by another employee`);
+      valid = false;
+    }
+
+    if (valid) {
+      payable.push({ ...entry, accountNumber: account, ifsc, amount });
+    }
+  });
+
+  return { payable, issues };
+}
+
+export type PaymentMode = 'internal' | 'neft' | 'rtgs';
+
+export function getPaymentMode(entry: PayoutEntry, ifscPrefix: string | null): PaymentMode {
+  if (ifscPrefix && normalizeIfsc(entry.ifsc).startsWith(ifscPrefix)) return 'internal';
+  return entry.amount >= RTGS_MINIMUM_AMOUNT ? 'rtgs' : 'neft';
+}
+
+// Bank portals reject punctuation in names and narrations
+function clean(value: string | null, maxLength: number): string {
+  return (value || '')
+    .toUpperCase()
+    .replace(/[^A-Z0-9 ]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, maxLength);
+}
+
+// The email is only for the bank's payment advice, so anything but a plain address is left out
+function email(value: string | null): string {
+  const trimmed = (value || '').trim();
+  return EMAIL_PATTERN.test(trimmed) ? trimmed : '';
+}
+
+function csvCell(value: string | number): string {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function csvLine(values: (string | number)[]): string {
+  return values.map(csvCell).join(',');
+}
+
+type FixedField = [value: string, width: number, align?: 'left' | 'right', pad?: string];
+
+function fixedLine(fields: FixedField[]): string {
+  return fields
+    .map(([value, width, align = 'left', pad = ' ']) => {
+      const text = value.slice(0, width);
+      return align === 'right' ? text.padStart(width, pad) : text.padEnd(width, pad);
+    })
+    .join('');
+}
+
+function formatDate(date: Date, pattern: 'dd/MM/yyyy' | 'dd-MM-yyyy' | 'ddMMyyyy'): string {
+  const dd = String(date.getDate()).padStart(2, '0');
+  const mm = String(date.getMonth() + 1).padStart(2, '0');
+  const yyyy = String(date.getFullYear());
+  if (pattern === 'dd/MM/yyyy') return `${dd}/${mm}/${yyyy}`;
+  if (pattern === 'dd-MM-yyyy') return `${dd}-${mm}-${yyyy}`;
+  return `${dd}${mm}${yyyy}`;
+}
+
+const amount2 = (amount: number) => amount.toFixed(2);
+// Fixed-width files carry amounts in paise without a decimal point
+const paise = (amount: number) => String(Math.round(amount * 100));
+
+function beneficiaryCode(entry: PayoutEntry): string {
+  return clean(entry.employeeCode || entry.userId.slice(0, 8), 13).replace(/ /g, '');
+}
+
+const HDFC_MODES: Record<PaymentMode, string> = { internal: 'I', neft: 'N', rtgs: 'R' };
+const ICICI_MODES: Record<PaymentMode, string> = { internal: 'FT', neft: 'NEFT', rtgs: 'RTGS' };
+const SBI_MODES: Record<PaymentMode, string> = { internal: 'DCR', neft: 'NEFT', rtgs: 'RTGS' };
+
+type FormatRenderer = (entries: PayoutEntry[], options: PayoutOptions) => string[];
+
+const RENDERERS: Record<BankPayoutFormat, FormatRenderer> = {
+  // HDFC enhanced bulk upload: no header, blank columns are positional
+  hdfc_csv: (entries, options) => entries.map(entry => {
+    const mode = getPaymentMode(entry, 'HDFC');
+    return csvLine([
+      HDFC_MODES[mode],
+      beneficiaryCode(entry),
+      entry.accountNumber || '',
+      amount2(entry.amount),
+      clean(entry.beneficiaryName, 40),
+      '', '', '', '', '', '', '', '',
+      clean(options.narration, 20),
+      '', '', '', '', '', '', '', '',
+      formatDate(options.valueDate, 'dd/MM/yyyy'),
+      '',
+      mode === 'internal' ? '' : entry.ifsc || '',
+      clean(entry.bankName, 40),
+      '',
+      email(entry.email),
+    ]);
+  }),
+
+  hdfc_fixed: (entries, options) => entries.map(entry => fixedLine([
+    [HDFC_MODES[getPaymentMode(entry, 'HDFC')], 1],
+    [beneficiaryCode(entry), 13],
+    [entry.accountNumber || '', 25],
+    [paise(entry.amount), 15, 'right', '0'],
+    [clean(entry.beneficiaryName, 40), 40],
+    [entry.ifsc || '', 11],
+    [formatDate(options.valueDate, 'ddMMyyyy'), 8],
+    [clean(options.narration, 30), 30],
+  ])),
+
+  icici_csv: (entries, options) => [
+    csvLine([
+      'PYMT_MODE', 'DEBIT_ACC_NO', 'BNF_NAME', 'BENE_ACC_NO', 'BENE_IFSC',
+      'AMOUNT', 'DEBIT_NARR', 'CREDIT_NARR', 'EMAIL_ID', 'PYMT_DATE', 'REF_NO',
+    ]),
+    ...entries.map(entry => csvLine([
+      ICICI_MODES[getPaymentMode(entry, 'ICIC')],
+      options.debitAccountNumber,
+      clean(entry.beneficiaryName, 35),
+      entry.accountNumber || '',
+      entry.ifsc || '',
+      amount2(entry.amount),
+      clean(options.narration, 30),
+      clean(options.narration, 30),
+      email(entry.email),
+      formatDate(options.valueDate, 'dd-MM-yyyy'),
+      beneficiaryCode(entry),
+    ])),
+  ],
+
+  icici_fixed: (entries, options) => entries.map(entry => fixedLine([
+    [ICICI_MODES[getPaymentMode(entry, 'ICIC')], 4],
+    [options.debitAccountNumber, 18],
+    [entry.accountNumber || '', 18],
+    [entry.ifsc || '', 11],
+    [paise(entry.amount), 15, 'right', '0'],
+    [clean(entry.beneficiaryName, 35), 35],
+    [formatDate(options.valueDate, 'ddMMyyyy'), 8],
+    [beneficiaryCode(entry), 13],
+    [clean(options.narration, 30), 30],
+  ])),
+
+  sbi_csv: (entries, options) => [
+    csvLine([
+      'Debit Account Number', 'Beneficiary Name', 'Beneficiary Account Number', 'IFSC Code',
+      'Amount', 'Payment Mode', 'Value Date', 'Narration', 'Reference',
+    ]),
+    ...entries.map(entry => csvLine([
+      options.debitAccountNumber,
+      clean(entry.beneficiaryName, 35),
+      entry.accountNumber || '',
+      entry.ifsc || '',
+      amount2(entry.amount),
+      SBI_MODES[getPaymentMode(entry, 'SBIN')],
+      formatDate(options.valueDate, 'dd/MM/yyyy'),
+      clean(options.narration, 30),
+      beneficiaryCode(entry),
+    ])),
+  ],
+
+  sbi_fixed: (entries, options) => entries.map(entry => fixedLine([
+    [options.debitAccountNumber, 17],
+    [entry.accountNumber || '', 17],
+    [entry.ifsc || '', 11],
+    [paise(entry.amount), 17, 'right', '0'],
+    [SBI_MODES[getPaymentMode(entry, 'SBIN')], 4],
+    [clean(entry.beneficiaryName, 35), 35],
+    [formatDate(options.valueDate, 'ddMMyyyy'), 8],
+    [clean(options.narration, 30), 30],
+  ])),
+
+  neft_csv: (entries, options) => [
+    csvLine([
+      'Sr No', 'Beneficiary Name', 'Account Number', 'IFSC', 'Bank Name', 'Amount',
+      'Payment Mode', 'Value Date', 'Narration', 'Employee ID', 'Debit Account Number',
+    ]),
+    ...entries.map((entry, i) => csvLine([
+      i + 1,
+      clean(entry.beneficiaryName, 35),
+      entry.accountNumber || '',
+      entry.ifsc || '',
+      entry.bankName || '',
+      amount2(entry.amount),
+      getPaymentMode(entry, null) === 'rtgs' ? 'RTGS' : 'NEFT',
+      formatDate(options.valueDate, 'dd/MM/yyyy'),
+      clean(options.narration, 30),
+      entry.employeeCode || '',
+      options.debitAccountNumber,
+    ])),
+  ],
+};
+
+/**
+ * Render validated entries in a bank's bulk-upload layout. Lines end in CRLF
+ * because bank portals expect DOS line endings.
+ */
+export function renderPayoutFile(format: BankPayoutFormat, entries: PayoutEntry[], options: PayoutOptions): string {
+  return RENDERERS[format](entries, options).join('\r\n') + '\r\n';
+}
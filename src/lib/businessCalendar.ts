@@ -0,0 +1,123 @@
+// src/lib/businessCalendar.ts
+/**
+ * Business calendar
+ * Which dates are working days for a company: its configured working weekdays
+ * minus its holidays. Optional holidays stay working days; an employee who
+ * takes one off does so as leave. Leave durations, payroll proration and
+ * exports all count days through here.
+ */
+
+import { Holiday, LeaveHalf, LeaveRequest } from '@/types/hrms';
+
+export const DEFAULT_WORKING_WEEKDAYS = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday'];
+
+export const WEEKDAY_NAMES = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const LEAVE_HALF_LABELS: Record<LeaveHalf, string> = {
+  first_half: 'First half',
+  second_half: 'Second half',
+};
+
+export type CalendarHoliday = Pick<Holiday, 'date' | 'type'> & { name?: string };
+
+export interface BusinessCalendar {
+  workingWeekdays: string[];
+  holidays: CalendarHoliday[];
+}
+
+export type LeaveDurationInput = Pick<LeaveRequest, 'start_date' | 'end_date' | 'half_day'>;
+
+export interface NonWorkingDay {
+  date: string;
+  /** Holiday name, or the weekday for a weekly off */
+  reason: string;
+}
+
+function toUtcDay(value: string): number {
+  const [y, m, d] = value.slice(0, 10).split('-').map(Number);
+  return Date.UTC(y, m - 1, d);
+}
+
+const toDateString = (day: number) => new Date(day).toISOString().slice(0, 10);
+
+export const isOptionalHoliday = (holiday: Pick<Holiday, 'type'>) => holiday.type === 'optional';
+
+/**
+ * Calendar from the company's settings and holiday list, falling back to a Monday-Friday week
+ */
+export function createBusinessCalendar(
+  workingWeekdays: string[] | null | undefined,
+  holidays: CalendarHoliday[] = []
+): BusinessCalendar {
+  return {
+    workingWeekdays: workingWeekdays && workingWeekdays.length > 0 ? workingWeekdays : DEFAULT_WORKING_WEEKDAYS,
+    holidays,
+  };
+}
+
+/**
+ * Why a date is not a working day, or null when it is
+ */
+export function getNonWorkingReason(calendar: BusinessCalendar, date: string): string | null {
+  const holiday = calendar.holidays.find(h => h.date.slice(0, 10) === date.slice(0, 10) && !isOptionalHoliday(h));
+  if (holiday) return holiday.name || 'Holiday';
+
+  const weekday = WEEKDAY_NAMES[new Date(toUtcDay(date)).getUTCDay()];
+  const weekdays = new Set(calendar.workingWeekdays.map(d => d.toLowerCase()));
+  return weekdays.has(weekday) ? null : weekday.charAt(0).toUpperCase() + weekday.slice(1);
+}
+
+export function isWorkingDay(calendar: BusinessCalendar, date: string): boolean {
+  return getNonWorkingReason(calendar, date) === null;
+}
+
+/**
+ * Weekly offs and holidays between two YYYY-MM-DD dates, inclusive
+ */
+export function getNonWorkingDays(calendar: BusinessCalendar, startDate: string, endDate: string): NonWorkingDay[] {
+  const days: NonWorkingDay[] = [];
+  for (let day = toUtcDay(startDate); day <= toUtcDay(endDate); day += DAY_MS) {
+    const date = toDateString(day);
+    const reason = getNonWorkingReason(calendar, date);
+    if (reason) days.push({ date, reason });
+  }
+  return days;
+}
+
+/**
+ * Working days between two YYYY-MM-DD dates, inclusive
+ */
+export function countWorkingDays(calendar: BusinessCalendar, startDate: string, endDate: string): number {
+  const start = toUtcDay(startDate);
+  const end = toUtcDay(endDate);
+  if (Number.isNaN(start) || Number.isNaN(end) || end < start) return 0;
+
+  const weekdays = new Set(calendar.workingWeekdays.map(d => d.toLowerCase()));
+  const holidayDays = new Set(
+    calendar.holidays.filter(h => !isOptionalHoliday(h)).map(h => toUtcDay(h.date))
+  );
+
+  let count = 0;
+  for (let day = start; day <= end; day += DAY_MS) {
+    if (weekdays.has(WEEKDAY_NAMES[new Date(day).getUTCDay()]) && !holidayDays.has(day)) count++;
+  }
+  return count;
+}
+
+/**
+ * Days a leave request costs: working days in its range, or half a day for a
+ * half-day request. Pass `from`/`to` to count only the part inside a period,
+ * e.g. one payroll month.
+ */
+export function countLeaveDuration(
+  calendar: BusinessCalendar,
+  leave: LeaveDurationInput,
+  from?: string,
+  to?: string
+): number {
+  const start = from && from > leave.start_date ? from : leave.start_date;
+  const end = to && to < leave.end_date ? to : leave.end_date;
+  const days = countWorkingDays(calendar, start, end);
+  return leave.half_day ? days * 0.5 : days;
+}
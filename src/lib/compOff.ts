@@ -0,0 +1,62 @@
+// src/lib/compOff.ts
+/**
+ * Compensatory off
+ * Signing in on a holiday or weekly off opens a credit; once the manager
+ * approves it, the day is added to the employee's comp-off leave balance and
+ * must be used before it expires. Leave is taken from the credit expiring
+ * first, so whatever is left of a credit at its expiry lapses.
+ * Detection, crediting and expiry run in the database; these helpers mirror
+ * them for display.
+ */
+
+import { CompOffConfig, CompOffCredit, CompOffStatus } from '@/types/hrms';
+
+/** Leave type code comp-off credits are added to */
+export const COMP_OFF_LEAVE_TYPE = 'comp_off';
+
+export const DEFAULT_COMP_OFF_CONFIG: CompOffConfig = {
+  expiry_days: 90,
+};
+
+export const COMP_OFF_STATUS_LABELS: Record<CompOffStatus, string> = {
+  pending: 'Awaiting approval',
+  approved: 'Available',
+  rejected: 'Rejected',
+  expired: 'Expired',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Last day an approved credit for a day worked can be used (YYYY-MM-DD)
+ */
+export function getCompOffExpiry(workDate: string, expiryDays: number): string {
+  const [y, m, d] = workDate.slice(0, 10).split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, d) + expiryDays * DAY_MS).toISOString().slice(0, 10);
+}
+
+export interface CompOffAllocation {
+  credit: CompOffCredit;
+  /** Days of the credit still unused */
+  remaining: number;
+}
+
+/**
+ * Split a comp-off balance over the approved credits, filling the credits
+ * that expire last first, since leave is taken from the one expiring first.
+ * Returned soonest expiry first; fully used credits are left out.
+ */
+export function allocateCompOffBalance(credits: CompOffCredit[], balance: number): CompOffAllocation[] {
+  const approved = credits
+    .filter(c => c.status === 'approved' && c.expires_on)
+    .sort((a, b) => (b.expires_on! < a.expires_on! ? -1 : b.expires_on! > a.expires_on! ? 1 : 0));
+
+  let left = Math.max(0, balance);
+  const allocations: CompOffAllocation[] = [];
+  for (const credit of approved) {
+    const remaining = Math.min(Number(credit.days), left);
+    left -= remaining;
+    if (remaining > 0) allocations.push({ credit, remaining });
+  }
+  return allocations.reverse();
+}
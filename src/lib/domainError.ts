@@ -0,0 +1,33 @@
+// src/lib/domainError.ts
+/**
+ * Domain errors
+ * A business rule turned an operation down with a message written for the
+ * user, e.g. "Timesheet: the week is approved and can no longer be changed".
+ * Retrying cannot change the outcome, so services rethrow these as they are,
+ * and the UI shows their message instead of a generic one. Exceptions raised
+ * by our database triggers and functions are treated the same way.
+ */
+
+/** SQLSTATE of a plain RAISE EXCEPTION */
+const RAISED_EXCEPTION_CODE = 'P0001';
+
+export class DomainError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DomainError';
+  }
+}
+
+/**
+ * The domain error behind an error, looking through the `cause` of wrappers
+ * such as a failed retry. Null when the error is anything else.
+ */
+export function findDomainError(error: unknown): { message: string } | null {
+  let current = error as { message?: string; code?: string; cause?: unknown } | null | undefined;
+  for (let depth = 0; current && depth < 5; depth++) {
+    if (current instanceof DomainError) return current;
+    if (current.code === RAISED_EXCEPTION_CODE && current.message) return { message: current.message };
+    current = current.cause as typeof current;
+  }
+  return null;
+}
@@ -0,0 +1,92 @@
+// src/lib/geofence.ts
+/**
+ * Geofencing
+ * A punch is within an office's fence when it is no further than the office's
+ * radius from its coordinates; where fences overlap the nearest office wins. With
+ * geofencing on, a punch outside every fence, or without a location, is
+ * refused or flagged for review depending on the company's policy.
+ */
+
+import { GeofencePolicy, GeofenceStatus, OfficeLocation } from '@/types/hrms';
+
+export const GEOFENCE_POLICY_LABELS: Record<GeofencePolicy, string> = {
+  reject: 'Refuse the punch',
+  flag: 'Record and flag for review',
+};
+
+export const GEOFENCE_STATUS_LABELS: Record<GeofenceStatus, string> = {
+  matched: 'At office',
+  flagged: 'Awaiting review',
+  approved: 'Approved',
+  rejected: 'Rejected',
+};
+
+const EARTH_RADIUS_M = 6371000;
+
+export interface Coordinates {
+  lat: number;
+  lng: number;
+}
+
+export interface GeofenceMatch {
+  /** Office the punch fell within; null when outside every fence */
+  office: OfficeLocation | null;
+  /** Metres to the nearest office; null without offices or a location */
+  distance: number | null;
+}
+
+const toRadians = (degrees: number) => degrees * Math.PI / 180;
+
+/**
+ * Great-circle distance in metres
+ */
+export function distanceInMeters(a: Coordinates, b: Coordinates): number {
+  const dLat = toRadians(b.lat - a.lat);
+  const dLng = toRadians(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2
+    + Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/**
+ * The nearest active office to a punch, and whether the punch is within its fence
+ */
+export function matchOffice(offices: OfficeLocation[], position: Coordinates | null): GeofenceMatch {
+  if (!position) return { office: null, distance: null };
+
+  let nearest: { office: OfficeLocation; distance: number } | null = null;
+  for (const office of offices) {
+    if (!office.is_active) continue;
+    const distance = distanceInMeters(position, { lat: office.latitude, lng: office.longitude });
+    const inside = distance <= office.radius_meters;
+    const nearestInside = nearest !== null && nearest.distance <= nearest.office.radius_meters;
+    if (!nearest || (inside && !nearestInside) || (inside === nearestInside && distance < nearest.distance)) {
+      nearest = { office, distance };
+    }
+  }
+
+  if (!nearest) return { office: null, distance: null };
+  return {
+    office: nearest.distance <= nearest.office.radius_meters ? nearest.office : null,
+    distance: Math.round(nearest.distance),
+  };
+}
+
+export function formatDistance(meters: number): string {
+  return meters >= 1000 ? `${(meters / 1000).toFixed(1)} km` : `${Math.round(meters)} m`;
+}
+
+/**
+ * The device's position, or null when it is unavailable or the user declines
+ */
+export function getCurrentPosition(timeout = 10000): Promise<Coordinates | null> {
+  if (typeof navigator === 'undefined' || !navigator.geolocation) return Promise.resolve(null);
+
+  return new Promise(resolve => {
+    navigator.geolocation.getCurrentPosition(
+      position => resolve({ lat: position.coords.latitude, lng: position.coords.longitude }),
+      () => resolve(null),
+      { enableHighAccuracy: true, timeout, maximumAge: 60000 }
+    );
+  });
+}
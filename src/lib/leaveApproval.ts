@@ -0,0 +1,105 @@
+// src/lib/leaveApproval.ts
+/**
+ * Leave approval chains
+ * A request is approved step by step: the reporting manager, then HR, then the
+ * owner for long leave, as the company configures. A step left untouched past
+ * the SLA escalates to the next level. Approvers can hand their steps to a
+ * delegate for a date range, typically while they are on leave themselves.
+ * Pure functions; persistence lives in leaveApprovalService.
+ */
+
+import {
+  AppRole,
+  LeaveApproval,
+  LeaveApprovalConfig,
+  LeaveApproverRole,
+  LeaveDelegation,
+} from '@/types/hrms';
+
+export const DEFAULT_LEAVE_APPROVAL_CONFIG: LeaveApprovalConfig = {
+  manager_approval: true,
+  hr_approval: true,
+  owner_approval_above_days: null,
+  sla_hours: 48,
+};
+
+export const LEAVE_APPROVER_LABELS: Record<LeaveApproverRole, string> = {
+  manager: 'Reporting manager',
+  hr: 'HR',
+  owner: 'Owner',
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface ApprovalActor {
+  userId: string;
+  role: AppRole | null;
+  /** Users whose steps the actor currently covers as a delegate */
+  actingFor: string[];
+  /** Direct reports, whose manager steps the actor approves even if assigned before they took over */
+  reportIds: string[];
+}
+
+/**
+ * Roles that approve a request, in order. The manager step is left out when
+ * the employee has no reporting manager; a chain is never empty.
+ */
+export function buildApprovalChain(
+  config: LeaveApprovalConfig,
+  request: { days: number; hasManager: boolean }
+): LeaveApproverRole[] {
+  const chain: LeaveApproverRole[] = [];
+  if (config.manager_approval && request.hasManager) chain.push('manager');
+  if (config.hr_approval) chain.push('hr');
+  if (config.owner_approval_above_days !== null && request.days > config.owner_approval_above_days) {
+    chain.push('owner');
+  }
+  return chain.length > 0 ? chain : ['hr'];
+}
+
+/**
+ * Level an overdue step moves to, or null when there is nobody above it
+ */
+export function getEscalationRole(role: LeaveApproverRole): LeaveApproverRole | null {
+  if (role === 'manager') return 'hr';
+  if (role === 'hr') return 'owner';
+  return null;
+}
+
+export function getApprovalDueAt(from: Date, slaHours: number): string {
+  return new Date(from.getTime() + slaHours * HOUR_MS).toISOString();
+}
+
+export function isApprovalOverdue(approval: Pick<LeaveApproval, 'status' | 'due_at'>, now: Date): boolean {
+  return approval.status === 'pending' && !!approval.due_at && new Date(approval.due_at).getTime() < now.getTime();
+}
+
+/**
+ * The delegate covering for a user on a date (YYYY-MM-DD), if any
+ */
+export function findActiveDelegate(
+  delegations: Pick<LeaveDelegation, 'delegator_id' | 'delegate_id' | 'start_date' | 'end_date'>[],
+  userId: string,
+  date: string
+): string | null {
+  const delegation = delegations.find(d => d.delegator_id === userId && d.start_date <= date && d.end_date >= date);
+  return delegation?.delegate_id || null;
+}
+
+/**
+ * Whether the actor may approve or reject a pending step of an employee's
+ * request. Nobody approves their own leave.
+ */
+export function canActOnApproval(
+  approval: Pick<LeaveApproval, 'status' | 'approver_role' | 'assigned_to'>,
+  requesterId: string,
+  actor: ApprovalActor
+): boolean {
+  if (approval.status !== 'pending' || requesterId === actor.userId) return false;
+  if (approval.approver_role === 'manager' && actor.reportIds.includes(requesterId)) return true;
+  if (approval.assigned_to) {
+    return approval.assigned_to === actor.userId || actor.actingFor.includes(approval.assigned_to);
+  }
+  if (approval.approver_role === 'owner') return actor.role === 'owner';
+  return actor.role === 'admin' || actor.role === 'owner';
+}
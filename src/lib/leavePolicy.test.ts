@@ -0,0 +1,160 @@
+import { describe, expect, it } from 'vitest';
+import {
+  computeAccrual,
+  countLeaveDays,
+  getAccrualStartDate,
+  getEncashmentAmount,
+  LedgerBalanceEntry,
+  settleLeaveYear,
+  summarizeLedger,
+} from './leavePolicy';
+import { LeavePolicy } from '@/types/hrms';
+
+function policy(overrides: Partial<LeavePolicy> = {}): LeavePolicy {
+  return {
+    id: 'policy-1',
+    company_id: 'company-1',
+    leave_type: 'casual',
+    accrual_frequency: 'monthly',
+    accrual_days: 1.5,
+    probation_months: 0,
+    max_balance: null,
+    carry_forward_limit: null,
+    year_end_action: 'lapse',
+    created_at: '',
+    updated_at: '',
+    ...overrides,
+  };
+}
+
+const veteran = { user_id: 'user-1', date_of_joining: '2024-01-10' };
+
+describe('countLeaveDays', () => {
+  it('counts both ends of the range', () => {
+    expect(countLeaveDays('2026-06-01', '2026-06-03')).toBe(3);
+    expect(countLeaveDays('2026-02-27', '2026-03-02')).toBe(4);
+  });
+
+  it('counts nothing for a range that ends before it starts', () => {
+    expect(countLeaveDays('2026-06-03', '2026-06-01')).toBe(0);
+  });
+});
+
+describe('getAccrualStartDate', () => {
+  it('adds the probation to the joining date, clamped to the end of the month', () => {
+    expect(getAccrualStartDate({ probation_months: 3 }, '2025-11-30')).toBe('2026-02-28');
+    expect(getAccrualStartDate({ probation_months: 0 }, '2026-05-15')).toBe('2026-05-15');
+  });
+
+  it('is unknown without a joining date', () => {
+    expect(getAccrualStartDate({ probation_months: 3 }, null)).toBeNull();
+  });
+});
+
+describe('computeAccrual', () => {
+  it('credits monthly leave at the end of the month', () => {
+    expect(computeAccrual(policy(), veteran, 4, 6, 2026)).toEqual({
+      userId: 'user-1',
+      leaveType: 'casual',
+      days: 1.5,
+      period: '2026-06',
+      effectiveDate: '2026-06-30',
+    });
+  });
+
+  it('credits nothing during probation', () => {
+    const joiner = { user_id: 'user-2', date_of_joining: '2026-05-15' };
+    const onProbation = policy({ probation_months: 3 });
+
+    expect(computeAccrual(onProbation, joiner, 0, 6, 2026)).toBeNull();
+    expect(computeAccrual(onProbation, joiner, 0, 8, 2026)?.days).toBe(1.5);
+  });
+
+  it('credits only up to the maximum balance', () => {
+    const capped = policy({ max_balance: 10 });
+
+    expect(computeAccrual(capped, veteran, 9.5, 6, 2026)?.days).toBe(0.5);
+    expect(computeAccrual(capped, veteran, 10, 6, 2026)).toBeNull();
+  });
+
+  it('credits annual leave once, in January', () => {
+    const annual = policy({ accrual_frequency: 'annual', accrual_days: 12 });
+
+    expect(computeAccrual(annual, veteran, 0, 1, 2026)).toMatchObject({ days: 12, period: '2026', effectiveDate: '2026-01-01' });
+    expect(computeAccrual(annual, veteran, 12, 2, 2026)).toBeNull();
+  });
+
+  it('prorates annual leave to half days for the months left after joining', () => {
+    const annual = policy({ accrual_frequency: 'annual', accrual_days: 15 });
+    const joiner = { user_id: 'user-2', date_of_joining: '2026-04-10' };
+
+    // 15 days for 9 of 12 months is 11.25, rounded to 11.5
+    expect(computeAccrual(annual, joiner, 0, 1, 2026)).toBeNull();
+    expect(computeAccrual(annual, joiner, 0, 4, 2026)).toMatchObject({ days: 11.5, effectiveDate: '2026-04-01' });
+  });
+});
+
+describe('settleLeaveYear', () => {
+  it('lapses days above the carry-forward limit', () => {
+    expect(settleLeaveYear({ carry_forward_limit: 5, year_end_action: 'lapse' }, 8))
+      .toEqual({ carryForward: 5, lapse: 3, encash: 0 });
+  });
+
+  it('encashes days above the carry-forward limit', () => {
+    expect(settleLeaveYear({ carry_forward_limit: 5, year_end_action: 'encash' }, 8))
+      .toEqual({ carryForward: 5, lapse: 0, encash: 3 });
+  });
+
+  it('carries everything forward without a limit', () => {
+    expect(settleLeaveYear({ carry_forward_limit: null, year_end_action: 'lapse' }, 8))
+      .toEqual({ carryForward: 8, lapse: 0, encash: 0 });
+  });
+
+  it('carries a negative balance forward as it is', () => {
+    expect(settleLeaveYear({ carry_forward_limit: 5, year_end_action: 'encash' }, -2))
+      .toEqual({ carryForward: -2, lapse: 0, encash: 0 });
+  });
+});
+
+describe('getEncashmentAmount', () => {
+  it('pays a thirtieth of the monthly salary per day', () => {
+    expect(getEncashmentAmount(3, 30000, 'fixed')).toBe(3000);
+  });
+
+  it('pays daily-rated employees their daily rate', () => {
+    expect(getEncashmentAmount(3, 800, 'daily')).toBe(2400);
+  });
+});
+
+describe('summarizeLedger', () => {
+  const entries: LedgerBalanceEntry[] = [
+    { leave_type: 'casual', entry_type: 'accrual', days: 1, effective_date: '2025-12-31' },
+    { leave_type: 'casual', entry_type: 'opening', days: 3, effective_date: '2026-01-01' },
+    { leave_type: 'casual', entry_type: 'accrual', days: 1, effective_date: '2026-01-31' },
+    { leave_type: 'casual', entry_type: 'consumption', days: -2, effective_date: '2026-03-10' },
+    { leave_type: 'casual', entry_type: 'reversal', days: 1, effective_date: '2026-03-12' },
+    { leave_type: 'earned', entry_type: 'adjustment', days: 2, effective_date: '2026-02-01' },
+  ];
+  const leaveTypes = [
+    { code: 'casual', name: 'Casual Leave', tracks_balance: true, is_active: true },
+    { code: 'sick', name: 'Sick Leave', tracks_balance: true, is_active: true },
+    { code: 'unpaid', name: 'Unpaid Leave', tracks_balance: false, is_active: true },
+    { code: 'earned', name: 'Earned Leave', tracks_balance: true, is_active: false },
+  ];
+  const summary = summarizeLedger(entries, leaveTypes, [policy({ accrual_days: 1 })], 2026);
+
+  it('lists active balance types and retired types that still have entries', () => {
+    expect(summary.map(s => s.name)).toEqual(['Casual Leave', 'Sick Leave', 'Earned Leave']);
+  });
+
+  it('counts this year\'s credits and leave taken net of cancellations', () => {
+    expect(summary[0]).toEqual({
+      leaveType: 'casual',
+      name: 'Casual Leave',
+      balance: 4,
+      credited: 4,
+      consumed: 1,
+      entitlement: 12,
+    });
+  });
+});
@@ -0,0 +1,208 @@
+// src/lib/leavePolicy.ts
+/**
+ * Leave policy engine
+ * Balances are derived from the leave ledger; policies decide what gets credited
+ * each month and what happens to unused days at the end of the leave year.
+ * The leave year is the calendar year. Pure functions; persistence lives in
+ * leaveService and leavePolicyService.
+ */
+
+import { LeaveLedgerEntry, LeavePolicy, LeaveType, LeaveTypeCode, Profile } from '@/types/hrms';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Encashment pays one day of a monthly salary as the salary divided by this */
+export const ENCASHMENT_DAYS_PER_MONTH = 30;
+
+export type LeavePolicyInput = Pick<
+  LeavePolicy,
+  'leave_type' | 'accrual_frequency' | 'accrual_days' | 'probation_months' | 'max_balance' | 'carry_forward_limit' | 'year_end_action'
+>;
+
+/** Policies new companies start with, for the default leave types that carry a balance */
+export const DEFAULT_LEAVE_POLICIES: LeavePolicyInput[] = ['casual', 'sick', 'paid'].map(leaveType => ({
+  leave_type: leaveType,
+  accrual_frequency: 'monthly',
+  accrual_days: 1,
+  probation_months: 0,
+  max_balance: null,
+  carry_forward_limit: null,
+  year_end_action: 'lapse',
+}));
+
+export type LedgerBalanceEntry = Pick<LeaveLedgerEntry, 'leave_type' | 'entry_type' | 'days' | 'effective_date'>;
+
+export interface LeaveBalanceSummary {
+  leaveType: LeaveTypeCode;
+  name: string;
+  balance: number;
+  /** Days credited this leave year, including the opening balance */
+  credited: number;
+  /** Days taken this leave year */
+  consumed: number;
+  /** Full-year entitlement under the policy; 0 without one */
+  entitlement: number;
+}
+
+export interface AccrualEmployee {
+  user_id: string;
+  date_of_joining: string | null;
+}
+
+export interface AccrualCredit {
+  userId: string;
+  leaveType: LeaveTypeCode;
+  days: number;
+  /** YYYY-MM for monthly accrual, YYYY for annual */
+  period: string;
+  effectiveDate: string;
+}
+
+export interface YearEndSettlement {
+  carryForward: number;
+  lapse: number;
+  encash: number;
+}
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+function lastDayOfMonth(year: number, month: number): string {
+  return `${year}-${pad(month)}-${pad(new Date(Date.UTC(year, month, 0)).getUTCDate())}`;
+}
+
+// Half days are the smallest unit a balance moves in
+const roundToHalf = (days: number) => Math.round(days * 2) / 2;
+
+/**
+ * Inclusive number of calendar days between two YYYY-MM-DD dates
+ */
+export function countLeaveDays(startDate: string, endDate: string): number {
+  const start = Date.parse(`${startDate}T00:00:00Z`);
+  const end = Date.parse(`${endDate}T00:00:00Z`);
+  if (Number.isNaN(start) || Number.isNaN(end) || end < start) return 0;
+  return Math.round((end - start) / DAY_MS) + 1;
+}
+
+/**
+ * First date (YYYY-MM-DD) the employee earns leave under the policy, or null
+ * when the joining date is unknown and no probation can be applied
+ */
+export function getAccrualStartDate(policy: Pick<LeavePolicy, 'probation_months'>, dateOfJoining: string | null): string | null {
+  if (!dateOfJoining) return null;
+  const [year, month, day] = dateOfJoining.split('-').map(Number);
+  const totalMonths = year * 12 + (month - 1) + policy.probation_months;
+  const startYear = Math.floor(totalMonths / 12);
+  const startMonth = (totalMonths % 12) + 1;
+  const lastDay = new Date(Date.UTC(startYear, startMonth, 0)).getUTCDate();
+  return `${startYear}-${pad(startMonth)}-${pad(Math.min(day, lastDay))}`;
+}
+
+export function getAnnualEntitlement(policy: Pick<LeavePolicy, 'accrual_frequency' | 'accrual_days'>): number {
+  return policy.accrual_frequency === 'monthly' ? policy.accrual_days * 12 : policy.accrual_days;
+}
+
+export function sumLedger(entries: Pick<LeaveLedgerEntry, 'days'>[]): number {
+  return entries.reduce((total, entry) => total + Number(entry.days || 0), 0);
+}
+
+/**
+ * Per-type balances for one employee from their ledger: every active type that
+ * carries a balance, plus any retired type the employee still has entries for
+ */
+export function summarizeLedger(
+  entries: LedgerBalanceEntry[],
+  leaveTypes: Pick<LeaveType, 'code' | 'name' | 'tracks_balance' | 'is_active'>[],
+  policies: Pick<LeavePolicy, 'leave_type' | 'accrual_frequency' | 'accrual_days'>[],
+  year: number
+): LeaveBalanceSummary[] {
+  const types = [...new Set([
+    ...leaveTypes.filter(t => t.tracks_balance && t.is_active).map(t => t.code),
+    ...entries.map(e => e.leave_type),
+  ])];
+  const yearStart = `${year}-01-01`;
+  const yearEnd = `${year}-12-31`;
+
+  return types.map(leaveType => {
+    const forType = entries.filter(e => e.leave_type === leaveType);
+    const thisYear = forType.filter(e => e.effective_date >= yearStart && e.effective_date <= yearEnd);
+    const policy = policies.find(p => p.leave_type === leaveType);
+
+    return {
+      leaveType,
+      name: leaveTypes.find(t => t.code === leaveType)?.name || leaveType,
+      balance: sumLedger(forType),
+      credited: sumLedger(thisYear.filter(e => Number(e.days) > 0 && e.entry_type !== 'reversal')),
+      // Cancelled leave is reversed, so it no longer counts as taken
+      consumed: Math.abs(sumLedger(thisYear.filter(e => e.entry_type === 'consumption' || e.entry_type === 'reversal'))),
+      entitlement: policy ? getAnnualEntitlement(policy) : 0,
+    };
+  });
+}
+
+/**
+ * Leave credited to an employee for a month, or null when nothing is due:
+ * still in probation, annual leave already credited for the year, or at the cap.
+ * Annual leave is credited once, in January or the month accrual starts,
+ * prorated for the months left in the year.
+ */
+export function computeAccrual(
+  policy: LeavePolicy,
+  employee: AccrualEmployee,
+  currentBalance: number,
+  month: number,
+  year: number
+): AccrualCredit | null {
+  const monthStart = `${year}-${pad(month)}-01`;
+  const monthEnd = lastDayOfMonth(year, month);
+  const accrualStart = getAccrualStartDate(policy, employee.date_of_joining);
+  if (accrualStart && accrualStart > monthEnd) return null;
+
+  let days: number;
+  let period: string;
+  let effectiveDate: string;
+
+  if (policy.accrual_frequency === 'monthly') {
+    days = policy.accrual_days;
+    period = `${year}-${pad(month)}`;
+    effectiveDate = monthEnd;
+  } else {
+    const dueMonth = accrualStart && accrualStart > `${year}-01-01` ? Number(accrualStart.slice(5, 7)) : 1;
+    if (month !== dueMonth) return null;
+    days = roundToHalf(policy.accrual_days * (13 - dueMonth) / 12);
+    period = String(year);
+    effectiveDate = monthStart;
+  }
+
+  if (policy.max_balance !== null) {
+    days = Math.min(days, Math.max(0, policy.max_balance - currentBalance));
+  }
+  if (days <= 0) return null;
+
+  return { userId: employee.user_id, leaveType: policy.leave_type, days, period, effectiveDate };
+}
+
+/**
+ * Split a year-end balance into what carries forward and what lapses or is encashed.
+ * A negative balance carries forward as it is.
+ */
+export function settleLeaveYear(
+  policy: Pick<LeavePolicy, 'carry_forward_limit' | 'year_end_action'>,
+  balance: number
+): YearEndSettlement {
+  if (balance <= 0) return { carryForward: balance, lapse: 0, encash: 0 };
+
+  const carryForward = policy.carry_forward_limit === null ? balance : Math.min(balance, policy.carry_forward_limit);
+  const excess = balance - carryForward;
+  return policy.year_end_action === 'encash'
+    ? { carryForward, lapse: 0, encash: excess }
+    : { carryForward, lapse: excess, encash: 0 };
+}
+
+/**
+ * Pay for encashed days. `monthlySalary` holds the daily rate for daily-paid
+ * employees, who are paid that rate per day.
+ */
+export function getEncashmentAmount(days: number, monthlySalary: number, salaryType: Profile['salary_type']): number {
+  const dailyRate = salaryType === 'daily' ? monthlySalary : monthlySalary / ENCASHMENT_DAYS_PER_MONTH;
+  return Math.round(days * dailyRate);
+}
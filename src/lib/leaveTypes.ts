@@ -0,0 +1,120 @@
+// src/lib/leaveTypes.ts
+/**
+ * Company leave types and the per-type rules a request must satisfy:
+ * who may take it (gender, tenure), how long a single stretch may be and
+ * whether a supporting document is needed.
+ */
+
+import { Gender, LeaveType, LeaveTypeCode, Profile } from '@/types/hrms';
+import { countLeaveDays } from './leavePolicy';
+
+export const GENDER_LABELS: Record<Gender, string> = {
+  female: 'Female',
+  male: 'Male',
+  other: 'Other',
+};
+
+export type LeaveTypeInput = Pick<
+  LeaveType,
+  | 'code'
+  | 'name'
+  | 'is_paid'
+  | 'tracks_balance'
+  | 'requires_attachment'
+  | 'max_consecutive_days'
+  | 'allowed_genders'
+  | 'min_tenure_months'
+  | 'is_active'
+  | 'sort_order'
+>;
+
+const defaultType = (code: string, name: string, sortOrder: number, overrides: Partial<LeaveTypeInput> = {}): LeaveTypeInput => ({
+  code,
+  name,
+  is_paid: true,
+  tracks_balance: true,
+  requires_attachment: false,
+  max_consecutive_days: null,
+  allowed_genders: null,
+  min_tenure_months: 0,
+  is_active: true,
+  sort_order: sortOrder,
+  ...overrides,
+});
+
+/** Types new companies start with */
+export const DEFAULT_LEAVE_TYPES: LeaveTypeInput[] = [
+  defaultType('casual', 'Casual Leave', 1),
+  defaultType('sick', 'Sick Leave', 2),
+  defaultType('paid', 'Paid Leave', 3),
+  defaultType('unpaid', 'Unpaid Leave', 4, { is_paid: false, tracks_balance: false }),
+  // Credited by working on holidays and weekly offs rather than by a policy
+  defaultType('comp_off', 'Compensatory Off', 5),
+];
+
+export type LeaveEligibilityProfile = Pick<Profile, 'gender' | 'date_of_joining'>;
+
+/**
+ * Turn a display name into a type code, e.g. "Work From Home" -> "work_from_home"
+ */
+export function toLeaveTypeCode(name: string): LeaveTypeCode {
+  return name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+}
+
+export function getLeaveTypeName(types: Pick<LeaveType, 'code' | 'name'>[], code: LeaveTypeCode): string {
+  return types.find(t => t.code === code)?.name || code;
+}
+
+function monthsOfService(dateOfJoining: string, asOf: string): number {
+  const [joinYear, joinMonth, joinDay] = dateOfJoining.split('-').map(Number);
+  const [year, month, day] = asOf.split('-').map(Number);
+  return (year - joinYear) * 12 + (month - joinMonth) - (day < joinDay ? 1 : 0);
+}
+
+/**
+ * Why an employee cannot take a leave type on a date, or null when they can
+ */
+export function getEligibilityIssue(
+  type: LeaveType,
+  profile: LeaveEligibilityProfile | null,
+  asOf: string
+): string | null {
+  if (!type.is_active) return `${type.name} is no longer offered`;
+
+  if (type.allowed_genders && type.allowed_genders.length > 0) {
+    if (!profile?.gender || !type.allowed_genders.includes(profile.gender)) {
+      return `${type.name} is only available to ${type.allowed_genders.map(g => GENDER_LABELS[g].toLowerCase()).join(' or ')} employees`;
+    }
+  }
+
+  if (type.min_tenure_months > 0) {
+    if (!profile?.date_of_joining || monthsOfService(profile.date_of_joining, asOf) < type.min_tenure_months) {
+      return `${type.name} needs ${type.min_tenure_months} month(s) of service`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Everything wrong with a request under its type's rules
+ */
+export function validateLeaveRequest(
+  type: LeaveType,
+  profile: LeaveEligibilityProfile | null,
+  request: { startDate: string; endDate: string; hasAttachment: boolean }
+): string[] {
+  const issues: string[] = [];
+  const eligibility = getEligibilityIssue(type, profile, request.startDate);
+  if (eligibility) issues.push(eligibility);
+
+  const days = countLeaveDays(request.startDate, request.endDate);
+  if (type.max_consecutive_days !== null && days > type.max_consecutive_days) {
+    issues.push(`${type.name} can be taken for at most ${type.max_consecutive_days} consecutive day(s)`);
+  }
+  if (type.requires_attachment && !request.hasAttachment) {
+    issues.push(`${type.name} needs a supporting document`);
+  }
+
+  return issues;
+}
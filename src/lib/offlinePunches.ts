@@ -0,0 +1,96 @@
+// src/lib/offlinePunches.ts
+/**
+ * Offline punches
+ * Without a connection a punch is kept on the device with the time and place
+ * it was made, and replayed in order once the device reconnects. While any
+ * are waiting, new punches queue behind them so the order holds. Until then
+ * the day is shown as if they had gone through.
+ */
+
+import { getZonedDate } from '@/lib/timezone';
+import { AttendanceSession, OfflinePunch, OfflinePunchKind } from '@/types/hrms';
+
+export const OFFLINE_PUNCH_LABELS: Record<OfflinePunchKind, string> = {
+  sign_in: 'Sign in',
+  break: 'Break',
+  sign_out: 'Sign out',
+};
+
+const isWorkedSegment = (session: AttendanceSession) =>
+  session.status !== 'absent' && session.status !== 'on_leave';
+
+function provisionalSegment(punch: OfflinePunch, timeZone: string): AttendanceSession {
+  return {
+    id: punch.id,
+    user_id: punch.user_id,
+    company_id: punch.company_id,
+    sign_in_time: punch.punched_at,
+    sign_out_time: null,
+    work_date: getZonedDate(new Date(punch.punched_at), timeZone),
+    status: 'present',
+    notes: null,
+    session_id: null,
+    late_minutes: 0,
+    overtime_hours: 0,
+    evaluated_at: null,
+    sign_in_lat: punch.lat,
+    sign_in_lng: punch.lng,
+    sign_out_lat: null,
+    sign_out_lng: null,
+    sign_in_office_id: null,
+    sign_out_office_id: null,
+    sign_in_distance_m: null,
+    sign_out_distance_m: null,
+    geofence_status: null,
+    geofence_reviewed_by: null,
+    geofence_reviewed_at: null,
+    regularization_id: null,
+    break_type: null,
+    offline_sign_in_id: punch.id,
+    offline_sign_out_id: null,
+    created_at: punch.queued_at,
+  };
+}
+
+/**
+ * Segments as they will be once the pending punches sync. Punches the
+ * server refused are left out.
+ */
+export function applyPendingPunches(
+  segments: AttendanceSession[],
+  punches: OfflinePunch[],
+  timeZone: string
+): AttendanceSession[] {
+  const result = segments.map(segment => ({ ...segment }));
+
+  punches.filter(punch => punch.status === 'pending').forEach(punch => {
+    const open = [...result].reverse().find(s => !s.sign_out_time && isWorkedSegment(s));
+    if (punch.kind === 'sign_in') {
+      if (!open) result.push(provisionalSegment(punch, timeZone));
+      return;
+    }
+    if (open) {
+      open.sign_out_time = punch.punched_at;
+      open.sign_out_lat = punch.lat;
+      open.sign_out_lng = punch.lng;
+      open.break_type = punch.kind === 'break' ? punch.break_type : null;
+      open.offline_sign_out_id = punch.id;
+    }
+  });
+  return result;
+}
+
+/**
+ * Whether a punch failed for want of a connection rather than being refused
+ */
+export function isNetworkError(error: unknown): boolean {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+
+  let current: unknown = error;
+  while (current) {
+    const message = (current as { message?: unknown }).message;
+    if (typeof message === 'string' && /failed to fetch|network ?error|load failed/i.test(message)) return true;
+    current = (current as { cause?: unknown }).cause;
+  }
+  return false;
+}
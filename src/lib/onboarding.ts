@@ -0,0 +1,66 @@
+// src/lib/onboarding.ts
+/**
+ * Onboarding
+ * A new hire's checklist is copied from the template for their department and
+ * role when they join. Each task is owned by HR, IT, their manager or the new
+ * hire, and falls due a number of days after their date of joining. New-hire
+ * tasks that ask for a document are done once it is uploaded. Dates are
+ * YYYY-MM-DD strings.
+ */
+
+import { OnboardingDocumentStatus, OnboardingDocumentType, OnboardingOwnerType, OnboardingTask } from '@/types/hrms';
+
+export const ONBOARDING_OWNER_LABELS: Record<OnboardingOwnerType, string> = {
+  hr: 'HR',
+  it: 'IT',
+  manager: 'Manager',
+  new_hire: 'New hire',
+};
+
+export const ONBOARDING_DOCUMENT_LABELS: Record<OnboardingDocumentType, string> = {
+  id_proof: 'ID proof',
+  bank_proof: 'Bank proof',
+  signed_policy: 'Signed policy',
+  other: 'Other document',
+};
+
+export const ONBOARDING_DOCUMENT_STATUS_LABELS: Record<OnboardingDocumentStatus, string> = {
+  submitted: 'Awaiting review',
+  verified: 'Verified',
+  rejected: 'Rejected',
+};
+
+/** Files the new hire can upload: scans and PDFs up to 10 MB */
+export const ONBOARDING_DOCUMENT_ACCEPT = '.pdf,.png,.jpg,.jpeg';
+export const ONBOARDING_DOCUMENT_MAX_BYTES = 10 * 1024 * 1024;
+
+export interface OnboardingProgress {
+  done: number;
+  total: number;
+  /** Whole percent of tasks done; 100 for an empty checklist */
+  percent: number;
+  overdue: number;
+}
+
+export function isOnboardingTaskOverdue(task: Pick<OnboardingTask, 'status' | 'due_date'>, today: string): boolean {
+  return task.status === 'pending' && task.due_date < today;
+}
+
+export function summarizeOnboarding(tasks: OnboardingTask[], today: string): OnboardingProgress {
+  const done = tasks.filter(t => t.status === 'done').length;
+  return {
+    done,
+    total: tasks.length,
+    percent: tasks.length === 0 ? 100 : Math.round((done / tasks.length) * 100),
+    overdue: tasks.filter(t => isOnboardingTaskOverdue(t, today)).length,
+  };
+}
+
+/**
+ * When a task falls due, e.g. "3 days before joining" or "Day 5"
+ */
+export function describeDueOffset(days: number): string {
+  if (days === 0) return 'On joining day';
+  if (days < 0) return `${-days} day${days === -1 ? '' : 's'} before joining`;
+  return `Day ${days} after joining`;
+}
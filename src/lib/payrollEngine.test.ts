@@ -0,0 +1,223 @@
+import { describe, expect, it } from 'vitest';
+import { computePayslip, PayrollAttendanceRecord, PayrollInput, Payslip } from './payrollEngine';
+import { ProfessionalTaxSlab, TaxSlabConfig } from '@/types/hrms';
+
+// June 2026 runs Monday the 1st to Tuesday the 30th: 22 working days
+const MONTH = 6;
+const YEAR = 2026;
+
+function weekdaysOfMonth(year: number, month: number): string[] {
+  const days: string[] = [];
+  for (let day = 1; day <= new Date(Date.UTC(year, month, 0)).getUTCDate(); day++) {
+    const date = new Date(Date.UTC(year, month - 1, day));
+    if (date.getUTCDay() !== 0 && date.getUTCDay() !== 6) days.push(date.toISOString().slice(0, 10));
+  }
+  return days;
+}
+
+function present(days: string[]): PayrollAttendanceRecord[] {
+  return days.map(work_date => ({ work_date, status: 'present' }));
+}
+
+function buildInput(overrides: Partial<PayrollInput> = {}): PayrollInput {
+  return {
+    employee: { user_id: 'user-1', company_id: 'company-1', monthly_salary: 22000, salary_type: 'fixed' },
+    month: MONTH,
+    year: YEAR,
+    attendance: present(weekdaysOfMonth(YEAR, MONTH)),
+    ...overrides,
+  };
+}
+
+function lineAmount(payslip: Payslip, code: string): number | undefined {
+  return payslip.lines.find(line => line.code === code)?.amount;
+}
+
+describe('computePayslip', () => {
+  describe('proration', () => {
+    it('pays the full salary for a full month', () => {
+      const payslip = computePayslip(buildInput());
+
+      expect(payslip.workingDays).toBe(22);
+      expect(payslip.effectiveDays).toBe(22);
+      expect(payslip.grossSalary).toBe(22000);
+      expect(payslip.netSalary).toBe(22000);
+    });
+
+    it('pays days present and on paid leave only', () => {
+      const days = weekdaysOfMonth(YEAR, MONTH);
+      const payslip = computePayslip(buildInput({
+        attendance: [
+          ...present(days.slice(0, 15)),
+          { work_date: days[15], status: 'half_day' },
+          { work_date: days[16], status: 'absent' },
+        ],
+        leaves: [
+          { leave_type: 'casual', start_date: days[17], end_date: days[18], half_day: null, status: 'approved', is_paid: true },
+          { leave_type: 'unpaid', start_date: days[19], end_date: days[21], half_day: null, status: 'approved', is_paid: false },
+        ],
+      }));
+
+      expect(payslip.presentDays).toBe(15.5);
+      expect(payslip.paidLeaveDays).toBe(2);
+      expect(payslip.unpaidLeaveDays).toBe(3);
+      expect(payslip.grossSalary).toBe(17500);
+    });
+
+    it('pays daily-rated employees per day worked', () => {
+      const payslip = computePayslip(buildInput({
+        employee: { user_id: 'user-1', company_id: 'company-1', monthly_salary: 800, salary_type: 'daily' },
+        attendance: present(weekdaysOfMonth(YEAR, MONTH).slice(0, 10)),
+      }));
+
+      expect(payslip.grossSalary).toBe(8000);
+    });
+  });
+
+  describe('provident fund', () => {
+    it('deducts employee PF on all PF wages but caps the employer pension share at the wage ceiling', () => {
+      const payslip = computePayslip(buildInput({
+        employee: { user_id: 'user-1', company_id: 'company-1', monthly_salary: 30000, salary_type: 'fixed' },
+        config: { pf_enabled: true, epf_enabled: true },
+      }));
+
+      expect(payslip.pfWages).toBe(30000);
+      expect(payslip.pfAmount).toBe(3600);
+      expect(payslip.epsAmount).toBe(1250);
+      expect(payslip.epfAmount).toBe(3600);
+      expect(lineAmount(payslip, 'epf')).toBe(2350);
+      expect(payslip.netSalary).toBe(26400);
+    });
+
+    it('puts all employer PF into the pension scheme below the ceiling', () => {
+      const payslip = computePayslip(buildInput({
+        employee: { user_id: 'user-1', company_id: 'company-1', monthly_salary: 10000, salary_type: 'fixed' },
+        config: { pf_enabled: true, epf_enabled: true, eps_percentage: 12 },
+      }));
+
+      expect(payslip.epsAmount).toBe(1200);
+      expect(lineAmount(payslip, 'epf')).toBe(0);
+    });
+  });
+
+  describe('ESIC', () => {
+    it('deducts ESIC on wages up to the threshold', () => {
+      const payslip = computePayslip(buildInput({
+        employee: { user_id: 'user-1', company_id: 'company-1', monthly_salary: 21000, salary_type: 'fixed' },
+        config: { esic_enabled: true },
+      }));
+
+      expect(payslip.esicAmount).toBe(158);
+      expect(payslip.employerEsicAmount).toBe(683);
+    });
+
+    it('skips employee and employer ESIC above the threshold', () => {
+      const payslip = computePayslip(buildInput({
+        employee: { user_id: 'user-1', company_id: 'company-1', monthly_salary: 21001, salary_type: 'fixed' },
+        config: { esic_enabled: true },
+      }));
+
+      expect(payslip.esicAmount).toBe(0);
+      expect(payslip.employerEsicAmount).toBe(0);
+      expect(lineAmount(payslip, 'esic')).toBeUndefined();
+    });
+  });
+
+  describe('professional tax', () => {
+    const slabs: ProfessionalTaxSlab[] = [
+      { id: 'pt-1', company_id: null, state: 'MH', min_salary: 0, max_salary: 9999, amount: 0, february_amount: null, created_at: '' },
+      { id: 'pt-2', company_id: null, state: 'MH', min_salary: 10000, max_salary: null, amount: 200, february_amount: 300, created_at: '' },
+    ];
+
+    it('charges the slab matching gross salary', () => {
+      const payslip = computePayslip(buildInput({ config: { pt_enabled: true }, professionalTaxSlabs: slabs }));
+
+      expect(payslip.ptAmount).toBe(200);
+      expect(payslip.netSalary).toBe(21800);
+    });
+
+    it('charges the February amount in February', () => {
+      const payslip = computePayslip(buildInput({
+        month: 2,
+        attendance: present(weekdaysOfMonth(YEAR, 2)),
+        config: { pt_enabled: true },
+        professionalTaxSlabs: slabs,
+      }));
+
+      expect(payslip.ptAmount).toBe(300);
+    });
+
+    it('charges nothing below the first paying slab', () => {
+      const payslip = computePayslip(buildInput({
+        employee: { user_id: 'user-1', company_id: 'company-1', monthly_salary: 9000, salary_type: 'fixed' },
+        config: { pt_enabled: true },
+        professionalTaxSlabs: slabs,
+      }));
+
+      expect(payslip.ptAmount).toBe(0);
+      expect(lineAmount(payslip, 'pt')).toBeUndefined();
+    });
+
+    it('falls back to the flat amount when the work state is unknown', () => {
+      const payslip = computePayslip(buildInput({ config: { pt_enabled: true, pt_amount: 175 }, professionalTaxSlabs: null }));
+
+      expect(payslip.ptAmount).toBe(175);
+    });
+
+    it('charges nothing in a state without slabs', () => {
+      const payslip = computePayslip(buildInput({ config: { pt_enabled: true, pt_amount: 175 }, professionalTaxSlabs: [] }));
+
+      expect(payslip.ptAmount).toBe(0);
+      expect(lineAmount(payslip, 'pt')).toBeUndefined();
+      expect(payslip.netSalary).toBe(22000);
+    });
+  });
+
+  describe('income tax', () => {
+    const slabConfig: TaxSlabConfig = {
+      id: 'tax-1',
+      company_id: null,
+      financial_year: '2026-27',
+      regime: 'new',
+      version: 1,
+      slabs: [
+        { from: 0, to: 300000, rate: 0 },
+        { from: 300000, to: null, rate: 10 },
+      ],
+      standard_deduction: 75000,
+      rebate_limit: 0,
+      rebate_amount: 0,
+      cess_percentage: 4,
+      created_at: '',
+    };
+    const employee = { user_id: 'user-1', company_id: 'company-1', monthly_salary: 100000, salary_type: 'fixed' as const };
+
+    it('spreads the projected annual tax over the financial year', () => {
+      const payslip = computePayslip(buildInput({
+        employee,
+        month: 4,
+        attendance: present(weekdaysOfMonth(YEAR, 4)),
+        tax: { slabConfig, monthsRemaining: 12, ytdEarnings: 0, ytdProvidentFund: 0, ytdTds: 0 },
+      }));
+
+      // (12,00,000 - 75,000 - 3,00,000) at 10% plus 4% cess, over 12 months
+      expect(payslip.tdsAmount).toBe(7150);
+      expect(payslip.netSalary).toBe(92850);
+    });
+
+    it('withholds only the tax not yet deducted over the months left', () => {
+      const payslip = computePayslip(buildInput({
+        employee,
+        tax: { slabConfig, monthsRemaining: 10, ytdEarnings: 200000, ytdProvidentFund: 0, ytdTds: 10000 },
+      }));
+
+      expect(payslip.tdsAmount).toBe(7580);
+    });
+
+    it('withholds nothing without a tax context', () => {
+      const payslip = computePayslip(buildInput({ employee }));
+
+      expect(payslip.tdsAmount).toBe(0);
+    });
+  });
+});
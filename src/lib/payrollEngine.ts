@@ -0,0 +1,688 @@
+// src/lib/payrollEngine.ts
+/**
+ * Payroll computation engine
+ * Pure functions that turn an employee, their attendance/leave for a month and
+ * the company payroll config into an itemized payslip. No I/O happens here -
+ * services fetch the inputs and persist the result.
+ */
+
+import {
+  AttendanceStatus,
+  Holiday,
+  LeaveRequest,
+  PayrollAdjustment,
+  PayrollConfig,
+  Profile,
+  ProfessionalTaxSlab,
+  SalaryComponent,
+  TaxDeclaration,
+  TaxSlabConfig,
+} from '@/types/hrms';
+import {
+  calculateAnnualTax,
+  calculateMonthlyTds,
+  calculateProfessionalTax,
+  calculateTaxableIncome,
+} from '@/lib/taxEngine';
+import {
+  countLeaveDuration,
+  countWorkingDays,
+  createBusinessCalendar,
+  DEFAULT_WORKING_WEEKDAYS,
+} from '@/lib/businessCalendar';
+
+export const DEFAULT_PAYROLL_CONFIG: PayrollConfig = {
+  pf_enabled: false,
+  pf_percentage: 12,
+  esic_enabled: false,
+  esic_percentage: 0.75,
+  epf_enabled: false,
+  epf_percentage: 12,
+  eps_percentage: 8.33,
+  pf_wage_ceiling: 15000,
+  esic_employer_percentage: 3.25,
+  esic_wage_ceiling: 21000,
+  pt_enabled: false,
+  pt_amount: 200,
+  overtime_enabled: false,
+  overtime_rate: 1.5,
+};
+
+const DEFAULT_STANDARD_DAY_HOURS = 8;
+
+export type PayslipLineCategory = 'earning' | 'deduction' | 'employer';
+
+export interface PayslipLine {
+  code: string;
+  name: string;
+  category: PayslipLineCategory;
+  amount: number;
+  /** Manual adjustments entered by an admin, as opposed to rule output */
+  manual?: boolean;
+  /** Earning counts towards the PF wage base (Basic + DA) */
+  pfWage?: boolean;
+  /** Earning counts towards the ESIC wage base */
+  esicWage?: boolean;
+}
+
+/** One day of attendance, aggregated over its punch segments */
+export interface PayrollAttendanceRecord {
+  work_date: string | null;
+  status: AttendanceStatus | null;
+  /** Evaluated on the day's last sign-out or at the close-out of the day */
+  overtime_hours?: number | null;
+}
+
+export type PayrollLeaveRecord = Pick<LeaveRequest, 'leave_type' | 'start_date' | 'end_date' | 'half_day' | 'status'> & {
+  /** From the request's leave type; unpaid leave is deducted as loss of pay */
+  is_paid: boolean;
+};
+export type PayrollHoliday = Pick<Holiday, 'date' | 'type'>;
+
+export interface PayrollTaxInput {
+  slabConfig: TaxSlabConfig;
+  declaration?: TaxDeclaration | null;
+  /** Months left in the financial year, including the payroll month */
+  monthsRemaining: number;
+  /** Earnings, employee PF and TDS from earlier payroll months of the same financial year */
+  ytdEarnings: number;
+  ytdProvidentFund: number;
+  ytdTds: number;
+}
+
+export interface PayrollInput {
+  employee: Pick<Profile, 'user_id' | 'company_id' | 'monthly_salary' | 'salary_type'>;
+  month: number;
+  year: number;
+  config?: Partial<PayrollConfig> | null;
+  attendance?: PayrollAttendanceRecord[];
+  leaves?: PayrollLeaveRecord[];
+  holidays?: PayrollHoliday[];
+  workingWeekdays?: string[];
+  adjustments?: PayrollAdjustment[];
+  /** Earning components of the employee's salary structure; omitted means one lump-sum gross */
+  salaryComponents?: SalaryComponent[];
+  /**
+   * PT slabs for the employee's work state, empty for a state that levies none.
+   * Omitted or null when the work state is unknown, which falls back to the flat `pt_amount`.
+   */
+  professionalTaxSlabs?: ProfessionalTaxSlab[] | null;
+  /** Income tax context; omitted means no TDS is withheld */
+  tax?: PayrollTaxInput | null;
+  /** Leave encashed at year end and due in this month's pay */
+  leaveEncashment?: number;
+  /** Length of the standard working day, for the hourly overtime rate; defaults to 8 */
+  standardDayHours?: number;
+}
+
+export interface AttendanceSummary {
+  workingDays: number;
+  presentDays: number;
+  halfDays: number;
+  paidLeaveDays: number;
+  unpaidLeaveDays: number;
+  effectiveDays: number;
+}
+
+export interface PayrollContext {
+  input: PayrollInput;
+  config: PayrollConfig;
+  summary: AttendanceSummary;
+  baseSalary: number;
+  perDaySalary: number;
+  /** Lines produced by the rules that ran before the current one */
+  lines: PayslipLine[];
+}
+
+/**
+ * A rule receives the context built so far and returns the lines it contributes.
+ * Rules run in order, so later rules can see earlier earnings (e.g. PF on Basic + DA).
+ */
+export interface PayrollRule {
+  code: string;
+  apply: (context: PayrollContext) => PayslipLine[];
+}
+
+export interface Payslip extends AttendanceSummary {
+  userId: string;
+  month: number;
+  year: number;
+  baseSalary: number;
+  perDaySalary: number;
+  grossSalary: number;
+  lines: PayslipLine[];
+  pfWages: number;
+  esicWages: number;
+  pfAmount: number;
+  esicAmount: number;
+  /** Employer PF in total, EPS included */
+  epfAmount: number;
+  epsAmount: number;
+  employerEsicAmount: number;
+  ptAmount: number;
+  tdsAmount: number;
+  totalAdditions: number;
+  totalDeductions: number;
+  netSalary: number;
+}
+
+/**
+ * Parse a YYYY-MM-DD (or ISO timestamp) string as a UTC calendar day
+ */
+function toUtcDay(value: string): number {
+  const [y, m, d] = value.slice(0, 10).split('-').map(Number);
+  return Date.UTC(y, m - 1, d);
+}
+
+function monthDates(year: number, month: number): { start: string; end: string } {
+  const { start, end } = monthBounds(year, month);
+  return { start: new Date(start).toISOString().slice(0, 10), end: new Date(end).toISOString().slice(0, 10) };
+}
+
+function monthBounds(year: number, month: number): { start: number; end: number } {
+  return {
+    start: Date.UTC(year, month - 1, 1),
+    end: Date.UTC(year, month, 0),
+  };
+}
+
+function sumLines(lines: PayslipLine[], category: PayslipLineCategory, code?: string): number {
+  return lines
+    .filter(l => l.category === category && (!code || l.code === code))
+    .reduce((sum, l) => sum + l.amount, 0);
+}
+
+function sumWageBase(lines: PayslipLine[], flag: 'pfWage' | 'esicWage'): number {
+  return lines
+    .filter(l => l.category === 'earning' && l[flag])
+    .reduce((sum, l) => sum + l.amount, 0);
+}
+
+/**
+ * ESIC applies only while wages stay within the coverage ceiling
+ */
+function isEsicCovered(config: PayrollConfig, wages: number): boolean {
+  return config.esic_wage_ceiling <= 0 || wages <= config.esic_wage_ceiling;
+}
+
+export interface SalarySplit {
+  component: SalaryComponent;
+  amount: number;
+}
+
+/**
+ * Split a monthly amount across structure components. Percentage and fixed
+ * components are taken first; a `balance` component absorbs what remains.
+ */
+export function splitSalary(amount: number, components: SalaryComponent[]): SalarySplit[] {
+  const ordered = [...components].sort((a, b) => a.sort_order - b.sort_order);
+  const splits = ordered.map(component => ({
+    component,
+    amount: component.calculation_type === 'percentage'
+      ? Math.round(amount * Number(component.value) / 100)
+      : component.calculation_type === 'fixed'
+        ? Math.round(Number(component.value))
+        : 0,
+  }));
+
+  const allocated = splits.reduce((sum, s) => sum + s.amount, 0);
+  const balances = splits.filter(s => s.component.calculation_type === 'balance');
+  if (balances.length > 0) {
+    const remainder = Math.max(0, Math.round(amount) - allocated);
+    const share = Math.floor(remainder / balances.length);
+    balances.forEach((s, i) => {
+      s.amount = i === balances.length - 1 ? remainder - share * (balances.length - 1) : share;
+    });
+  }
+  return splits;
+}
+
+/**
+ * Why a structure cannot split CTC, or null when it can. Percentage and fixed
+ * components must fit within CTC and exactly one balance component takes up
+ * what they leave. Pass `ctc` to check fixed amounts against an employee's CTC;
+ * `requireBalance: false` accepts a structure still being put together.
+ */
+export function getSalaryStructureIssue(
+  components: Pick<SalaryComponent, 'calculation_type' | 'value'>[],
+  { ctc, requireBalance = true }: { ctc?: number; requireBalance?: boolean } = {}
+): string | null {
+  if (components.length === 0) return null;
+
+  const balanceCount = components.filter(c => c.calculation_type === 'balance').length;
+  if (balanceCount > 1) return 'only one component can take the balance of CTC';
+
+  const percentage = components
+    .filter(c => c.calculation_type === 'percentage')
+    .reduce((sum, c) => sum + Number(c.value), 0);
+  if (percentage > 100) return `percentage components add up to ${percentage}% of CTC`;
+
+  if (ctc !== undefined) {
+    const fixed = components
+      .filter(c => c.calculation_type === 'fixed')
+      .reduce((sum, c) => sum + Number(c.value), 0);
+    const allocated = Math.round(ctc * percentage / 100) + fixed;
+    if (allocated > ctc) return `components come to ₹${allocated.toLocaleString()}, more than the CTC of ₹${ctc.toLocaleString()}`;
+  }
+
+  if (requireBalance && balanceCount === 0) return 'add a balance component to take what is left of CTC';
+  return null;
+}
+
+/**
+ * Count working days in a month: configured weekdays minus non-optional holidays
+ */
+export function getWorkingDaysInMonth(
+  year: number,
+  month: number,
+  workingWeekdays: string[] = DEFAULT_WORKING_WEEKDAYS,
+  holidays: PayrollHoliday[] = []
+): number {
+  const { start, end } = monthDates(year, month);
+  return countWorkingDays(createBusinessCalendar(workingWeekdays, holidays), start, end);
+}
+
+/**
+ * Derive the attendance/leave day counts used for salary proration
+ */
+export function summarizeAttendance(input: PayrollInput): AttendanceSummary {
+  const { year, month, attendance = [], leaves = [], holidays = [] } = input;
+  const { start, end } = monthBounds(year, month);
+
+  // One status per calendar day - duplicate sessions must not double-count
+  const dayStatus = new Map<number, AttendanceStatus>();
+  attendance.forEach(record => {
+    if (!record.work_date || !record.status) return;
+    const day = toUtcDay(record.work_date);
+    if (day < start || day > end) return;
+    const existing = dayStatus.get(day);
+    if (!existing || existing === 'half_day' || existing === 'absent') {
+      dayStatus.set(day, record.status);
+    }
+  });
+
+  let fullDays = 0;
+  let halfDays = 0;
+  dayStatus.forEach(status => {
+    if (status === 'present' || status === 'late') fullDays++;
+    else if (status === 'half_day') halfDays++;
+  });
+
+  // Leave costs working days only; weekly offs and holidays inside a leave are not deducted
+  const calendar = createBusinessCalendar(input.workingWeekdays, holidays);
+  const period = monthDates(year, month);
+  let paidLeaveDays = 0;
+  let unpaidLeaveDays = 0;
+  leaves
+    .filter(leave => !leave.status || leave.status === 'approved')
+    .forEach(leave => {
+      const days = countLeaveDuration(calendar, leave, period.start, period.end);
+
+      if (leave.is_paid) {
+        paidLeaveDays += days;
+      } else {
+        unpaidLeaveDays += days;
+      }
+    });
+
+  const presentDays = fullDays + halfDays * 0.5;
+  return {
+    workingDays: getWorkingDaysInMonth(year, month, input.workingWeekdays, holidays),
+    presentDays,
+    halfDays,
+    paidLeaveDays,
+    unpaidLeaveDays,
+    effectiveDays: presentDays + paidLeaveDays,
+  };
+}
+
+export const grossSalaryRule: PayrollRule = {
+  code: 'gross',
+  apply: ({ input, baseSalary, perDaySalary, summary }) => {
+    const earned = Math.round(perDaySalary * summary.effectiveDays);
+    const components = input.salaryComponents || [];
+
+    if (components.length === 0) {
+      return [{
+        code: 'gross',
+        name: 'Gross Salary',
+        category: 'earning',
+        amount: earned,
+        pfWage: true,
+        esicWage: true,
+      }];
+    }
+
+    // Split the full-month CTC, then prorate each component by days actually paid
+    const isDaily = input.employee.salary_type === 'daily';
+    const ctc = isDaily ? earned : baseSalary;
+    const factor = isDaily || ctc === 0 ? 1 : earned / ctc;
+
+    return splitSalary(ctc, components).map(({ component, amount }) => ({
+      code: `earning:${component.code}`,
+      name: component.name,
+      category: 'earning' as const,
+      amount: Math.round(amount * factor),
+      pfWage: component.is_pf_wage,
+      esicWage: component.is_esic_wage,
+    }));
+  },
+};
+
+// Encashment is paid as an earning but is not part of PF or ESIC wages
+export const leaveEncashmentRule: PayrollRule = {
+  code: 'leave_encashment',
+  apply: ({ input }) => {
+    const amount = Math.round(input.leaveEncashment || 0);
+    if (amount === 0) return [];
+    return [{
+      code: 'leave_encashment',
+      name: 'Leave Encashment',
+      category: 'earning',
+      amount,
+    }];
+  },
+};
+
+/**
+ * Overtime from attendance, paid at the overtime multiple of the hourly rate.
+ * Like encashment it stays out of the PF and ESIC wage bases.
+ */
+export const overtimeRule: PayrollRule = {
+  code: 'overtime',
+  apply: ({ input, config, perDaySalary }) => {
+    if (!config.overtime_enabled) return [];
+    const { start, end } = monthBounds(input.year, input.month);
+    const hours = (input.attendance || [])
+      .filter(record => {
+        if (!record.work_date) return false;
+        const day = toUtcDay(record.work_date);
+        return day >= start && day <= end;
+      })
+      .reduce((sum, record) => sum + Number(record.overtime_hours || 0), 0);
+    if (hours <= 0) return [];
+
+    const hourlyRate = perDaySalary / (input.standardDayHours || DEFAULT_STANDARD_DAY_HOURS);
+    const amount = Math.round(hours * hourlyRate * config.overtime_rate);
+    if (amount === 0) return [];
+    return [{
+      code: 'overtime',
+      name: `Overtime (${Math.round(hours * 100) / 100}h)`,
+      category: 'earning',
+      amount,
+    }];
+  },
+};
+
+export const providentFundRule: PayrollRule = {
+  code: 'pf',
+  apply: ({ config, lines }) => {
+    if (!config.pf_enabled) return [];
+    const wages = sumWageBase(lines, 'pfWage');
+    return [{
+      code: 'pf',
+      name: `PF (${config.pf_percentage}%)`,
+      category: 'deduction',
+      amount: Math.round(wages * config.pf_percentage / 100),
+    }];
+  },
+};
+
+export const esicRule: PayrollRule = {
+  code: 'esic',
+  apply: ({ config, lines }) => {
+    if (!config.esic_enabled) return [];
+    const wages = sumWageBase(lines, 'esicWage');
+    if (!isEsicCovered(config, wages)) return [];
+    return [{
+      code: 'esic',
+      name: `ESIC (${config.esic_percentage}%)`,
+      category: 'deduction',
+      amount: Math.round(wages * config.esic_percentage / 100),
+    }];
+  },
+};
+
+export const professionalTaxRule: PayrollRule = {
+  code: 'pt',
+  apply: ({ input, config, lines }) => {
+    if (!config.pt_enabled) return [];
+    const amount = input.professionalTaxSlabs
+      ? calculateProfessionalTax(input.professionalTaxSlabs, sumLines(lines, 'earning'), input.month)
+      : config.pt_amount;
+    if (!amount) return [];
+    return [{
+      code: 'pt',
+      name: 'Professional Tax',
+      category: 'deduction',
+      amount: Math.round(amount),
+    }];
+  },
+};
+
+/**
+ * Withhold income tax: project the year's taxable income from what was paid so
+ * far, this month, and the full monthly salary for the months still to come,
+ * then spread the tax not yet deducted over the remaining months.
+ */
+export const incomeTaxRule: PayrollRule = {
+  code: 'tds',
+  apply: ({ input, summary, baseSalary, perDaySalary, lines }) => {
+    const tax = input.tax;
+    if (!tax) return [];
+
+    const futureMonths = Math.max(0, tax.monthsRemaining - 1);
+    const monthlySalary = input.employee.salary_type === 'daily'
+      ? perDaySalary * summary.workingDays
+      : baseSalary;
+    const earnings = sumLines(lines, 'earning');
+    const providentFund = sumLines(lines, 'deduction', 'pf');
+    const basic = sumLines(lines, 'earning', 'earning:basic') + sumLines(lines, 'earning', 'earning:da');
+
+    const taxableIncome = calculateTaxableIncome({
+      gross: tax.ytdEarnings + earnings + monthlySalary * futureMonths,
+      basic: basic * 12,
+      hra: sumLines(lines, 'earning', 'earning:hra') * 12,
+      providentFund: tax.ytdProvidentFund + providentFund * (futureMonths + 1),
+      professionalTax: sumLines(lines, 'deduction', 'pt') * 12,
+    }, tax.slabConfig, tax.declaration);
+
+    const annualTax = calculateAnnualTax(taxableIncome, tax.slabConfig);
+    const amount = calculateMonthlyTds(annualTax, tax.ytdTds, tax.monthsRemaining);
+    if (amount <= 0) return [];
+
+    return [{
+      code: 'tds',
+      name: `Income Tax (TDS, ${tax.slabConfig.regime} regime)`,
+      category: 'deduction',
+      amount,
+    }];
+  },
+};
+
+/**
+ * Employer PF, split between the pension scheme (EPS, on wages up to the
+ * ceiling) and the provident fund account (the rest)
+ */
+export const employerPfRule: PayrollRule = {
+  code: 'epf',
+  apply: ({ config, lines }) => {
+    if (!config.epf_enabled) return [];
+    const wages = sumWageBase(lines, 'pfWage');
+    const total = Math.round(wages * config.epf_percentage / 100);
+    const pensionWages = config.pf_wage_ceiling > 0 ? Math.min(wages, config.pf_wage_ceiling) : wages;
+    const pension = Math.min(total, Math.round(pensionWages * config.eps_percentage / 100));
+    return [
+      {
+        code: 'eps',
+        name: `EPS Employer (${config.eps_percentage}%)`,
+        category: 'employer',
+        amount: pension,
+      },
+      {
+        code: 'epf',
+        name: 'EPF Employer',
+        category: 'employer',
+        amount: total - pension,
+      },
+    ];
+  },
+};
+
+export const employerEsicRule: PayrollRule = {
+  code: 'esic_employer',
+  apply: ({ config, lines }) => {
+    if (!config.esic_enabled) return [];
+    const wages = sumWageBase(lines, 'esicWage');
+    if (!isEsicCovered(config, wages)) return [];
+    return [{
+      code: 'esic_employer',
+      name: `ESIC Employer (${config.esic_employer_percentage}%)`,
+      category: 'employer',
+      amount: Math.round(wages * config.esic_employer_percentage / 100),
+    }];
+  },
+};
+
+export const defaultPayrollRules: PayrollRule[] = [
+  grossSalaryRule,
+  leaveEncashmentRule,
+  overtimeRule,
+  providentFundRule,
+  esicRule,
+  professionalTaxRule,
+  incomeTaxRule,
+  employerPfRule,
+  employerEsicRule,
+];
+
+/**
+ * Compute an itemized payslip. Pass a custom rule list to add or replace rules.
+ */
+export function computePayslip(
+  input: PayrollInput,
+  rules: PayrollRule[] = defaultPayrollRules
+): Payslip {
+  const config: PayrollConfig = { ...DEFAULT_PAYROLL_CONFIG, ...(input.config || {}) };
+  const summary = summarizeAttendance(input);
+  const baseSalary = Number(input.employee.monthly_salary || 0);
+  const perDaySalary = input.employee.salary_type === 'daily'
+    ? baseSalary
+    : summary.workingDays > 0 ? baseSalary / summary.workingDays : 0;
+
+  const context: PayrollContext = { input, config, summary, baseSalary, perDaySalary, lines: [] };
+  for (const rule of rules) {
+    context.lines = [...context.lines, ...rule.apply(context)];
+  }
+
+  const grossSalary = sumLines(context.lines, 'earning');
+  const base: Payslip = {
+    ...summary,
+    userId: input.employee.user_id,
+    month: input.month,
+    year: input.year,
+    baseSalary,
+    perDaySalary,
+    grossSalary,
+    lines: context.lines,
+    pfWages: sumWageBase(context.lines, 'pfWage'),
+    esicWages: sumWageBase(context.lines, 'esicWage'),
+    pfAmount: 0,
+    esicAmount: 0,
+    epfAmount: 0,
+    epsAmount: 0,
+    employerEsicAmount: 0,
+    ptAmount: 0,
+    tdsAmount: 0,
+    totalAdditions: 0,
+    totalDeductions: 0,
+    netSalary: grossSalary,
+  };
+
+  return applyAdjustments(base, input.adjustments || []);
+}
+
+/**
+ * Replace the manual additions/deductions on a payslip and recompute its totals.
+ * Rule-generated lines are kept as they are.
+ */
+export function applyAdjustments(payslip: Payslip, adjustments: PayrollAdjustment[]): Payslip {
+  const ruleLines = payslip.lines.filter(l => !l.manual);
+  const manualLines: PayslipLine[] = adjustments
+    .filter(adj => adj.amount > 0)
+    .map(adj => ({
+      code: 'adjustment',
+      name: adj.name,
+      category: adj.type === 'addition' ? 'earning' : 'deduction',
+      amount: adj.amount,
+      manual: true,
+    }));
+  const lines = [...ruleLines, ...manualLines];
+
+  const totalAdditions = sumLines(manualLines, 'earning');
+  const totalDeductions = sumLines(lines, 'deduction');
+
+  return {
+    ...payslip,
+    lines,
+    pfAmount: sumLines(lines, 'deduction', 'pf'),
+    esicAmount: sumLines(lines, 'deduction', 'esic'),
+    epfAmount: sumLines(lines, 'employer', 'epf') + sumLines(lines, 'employer', 'eps'),
+    epsAmount: sumLines(lines, 'employer', 'eps'),
+    employerEsicAmount: sumLines(lines, 'employer', 'esic_employer'),
+    ptAmount: sumLines(lines, 'deduction', 'pt'),
+    tdsAmount: sumLines(lines, 'deduction', 'tds'),
+    totalAdditions,
+    totalDeductions,
+    netSalary: payslip.grossSalary + totalAdditions - totalDeductions,
+  };
+}
+
+/**
+ * Map a payslip to the columns of the `payroll` table
+ */
+export function toPayrollRecord(payslip: Payslip, companyId?: string | null) {
+  return {
+    user_id: payslip.userId,
+    company_id: companyId ?? null,
+    month: payslip.month,
+    year: payslip.year,
+    working_days: payslip.workingDays,
+    present_days: payslip.presentDays,
+    paid_leave_days: payslip.paidLeaveDays,
+    unpaid_leave_days: payslip.unpaidLeaveDays,
+    base_salary: payslip.baseSalary,
+    gross_salary: Math.round(payslip.grossSalary),
+    pf_wages: Math.round(payslip.pfWages),
+    esic_wages: Math.round(payslip.esicWages),
+    pf_amount: Math.round(payslip.pfAmount),
+    esic_amount: Math.round(payslip.esicAmount),
+    epf_amount: Math.round(payslip.epfAmount),
+    eps_amount: Math.round(payslip.epsAmount),
+    employer_esic_amount: Math.round(payslip.employerEsicAmount),
+    tds_amount: Math.round(payslip.tdsAmount),
+    total_additions: Math.round(payslip.totalAdditions),
+    total_deductions: Math.round(payslip.totalDeductions),
+    deductions: Math.round(payslip.totalDeductions),
+    net_salary: Math.round(payslip.netSalary),
+  };
+}
+
+/**
+ * Lines stored in `payroll_adjustments`: manual entries, salary structure
+ * earnings and rule-generated deductions that have no dedicated payroll
+ * column (e.g. professional tax)
+ */
+export function toAdjustmentRecords(payslip: Payslip, payrollId: string, companyId?: string | null) {
+  const columnCodes = ['gross', 'pf', 'esic', 'epf', 'tds'];
+  return payslip.lines
+    .filter(line => line.category !== 'employer' && (line.manual || !columnCodes.includes(line.code)))
+    .map(line => ({
+      payroll_id: payrollId,
+      company_id: companyId ?? null,
+      adjustment_type: line.category === 'earning' ? 'addition' : 'deduction',
+      name: line.name,
+      amount: line.amount,
+      code: line.manual ? null : line.code,
+    }));
+}
@@ -0,0 +1,23 @@
+// src/lib/payrollRuns.ts
+/**
+ * Payroll runs
+ * Each month's payroll is computed into a run that moves from draft through
+ * review and approval to locked and paid. Off-cycle runs pay amounts outside
+ * the regular cycle and reversal runs undo a locked one.
+ */
+
+import { PayrollRunStatus, PayrollRunType } from '@/types/hrms';
+
+export const PAYROLL_RUN_STATUS_LABELS: Record<PayrollRunStatus, string> = {
+  draft: 'Draft',
+  under_review: 'Under Review',
+  approved: 'Approved',
+  locked: 'Locked',
+  paid: 'Paid',
+};
+
+export const PAYROLL_RUN_TYPE_LABELS: Record<PayrollRunType, string> = {
+  regular: 'Regular',
+  off_cycle: 'Off-cycle',
+  reversal: 'Reversal',
+};
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { computePayslip, PayrollInput, toAdjustmentRecords, toPayrollRecord } from './payrollEngine';
+import { buildPayslipLineItems, PayslipMismatchError, StoredPayrollAdjustment } from './payslipPdf';
+import { Payroll, SalaryComponent } from '@/types/hrms';
+
+function component(code: string, calculation_type: SalaryComponent['calculation_type'], value: number, sort_order: number): SalaryComponent {
+  return {
+    id: code,
+    structure_id: 'structure-1',
+    name: code.toUpperCase(),
+    code,
+    calculation_type,
+    value,
+    is_pf_wage: code === 'basic',
+    is_esic_wage: true,
+    sort_order,
+    created_at: '',
+  };
+}
+
+// A full month of June 2026 with two hours of overtime on the 1st
+function buildInput(overrides: Partial<PayrollInput> = {}): PayrollInput {
+  const attendance = [];
+  for (let day = 1; day <= 30; day++) {
+    const date = new Date(Date.UTC(2026, 5, day));
+    if (date.getUTCDay() === 0 || date.getUTCDay() === 6) continue;
+    attendance.push({ work_date: date.toISOString().slice(0, 10), status: 'present' as const, overtime_hours: day === 1 ? 2 : 0 });
+  }
+  return {
+    employee: { user_id: 'user-1', company_id: 'company-1', monthly_salary: 22000, salary_type: 'fixed' },
+    month: 6,
+    year: 2026,
+    config: { pf_enabled: true, pt_enabled: true, overtime_enabled: true },
+    attendance,
+    leaveEncashment: 3000,
+    adjustments: [
+      { name: 'Bonus', type: 'addition', amount: 1000 },
+      { name: 'Canteen', type: 'deduction', amount: 250 },
+    ],
+    ...overrides,
+  };
+}
+
+// What the payslip service reads back after payroll is saved
+function stored(input: PayrollInput) {
+  const payslip = computePayslip(input);
+  const payroll = { id: 'payroll-1', ...toPayrollRecord(payslip, 'company-1') } as unknown as Payroll;
+  const adjustments = toAdjustmentRecords(payslip, payroll.id, 'company-1') as StoredPayrollAdjustment[];
+  return { payslip, payroll, adjustments };
+}
+
+function total(lines: { amount: number }[]): number {
+  return lines.reduce((sum, line) => sum + line.amount, 0);
+}
+
+describe('buildPayslipLineItems', () => {
+  it('lists overtime and leave encashment apart from the gross salary line', () => {
+    const { payroll, adjustments } = stored(buildInput());
+    const { earnings } = buildPayslipLineItems(payroll, adjustments);
+
+    expect(earnings.map(line => line.name)).toEqual(['Gross Salary', 'Leave Encashment', 'Overtime (2h)', 'Bonus']);
+    expect(earnings[0].amount).toBe(22000);
+  });
+
+  it('lists overtime and leave encashment after structure components', () => {
+    const { payroll, adjustments } = stored(buildInput({
+      salaryComponents: [component('basic', 'percentage', 50, 0), component('special', 'balance', 0, 1)],
+    }));
+    const { earnings } = buildPayslipLineItems(payroll, adjustments);
+
+    expect(earnings.map(line => line.name)).toEqual(['BASIC', 'SPECIAL', 'Leave Encashment', 'Overtime (2h)', 'Bonus']);
+  });
+
+  it('adds up to net pay', () => {
+    const { payslip, payroll, adjustments } = stored(buildInput());
+    const { earnings, deductions } = buildPayslipLineItems(payroll, adjustments);
+
+    expect(total(earnings) - total(deductions)).toBe(payslip.netSalary);
+  });
+
+  it('throws when the lines do not add up to net pay', () => {
+    const { payroll, adjustments } = stored(buildInput());
+
+    expect(() => buildPayslipLineItems({ ...payroll, net_salary: payroll.net_salary + 500 }, adjustments))
+      .toThrow(PayslipMismatchError);
+  });
+});
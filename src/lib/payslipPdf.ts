@@ -0,0 +1,340 @@
+// src/lib/payslipPdf.ts
+/**
+ * Payslip PDF rendering
+ * Turns a stored payroll row and its itemized adjustments into a branded A4
+ * payslip. Runs entirely in the browser via jsPDF.
+ */
+
+import { jsPDF } from 'jspdf';
+import { Payroll, PayrollAdjustmentType, PayrollRunType } from '@/types/hrms';
+import { DomainError } from '@/lib/domainError';
+
+const MONTHS = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+export interface PayslipLineItem {
+  name: string;
+  amount: number;
+}
+
+/** A `payroll_adjustments` row as stored */
+export interface StoredPayrollAdjustment {
+  name: string;
+  amount: number;
+  adjustment_type: PayrollAdjustmentType;
+  code: string | null;
+}
+
+export interface PayslipDocument {
+  company: {
+    name: string;
+    /** Logo as a data URL; remote URLs must be fetched beforehand */
+    logoDataUrl?: string | null;
+  };
+  employee: {
+    name: string;
+    employeeId: string | null;
+    department: string | null;
+    workState: string | null;
+    bankAccountNumber: string | null;
+  };
+  payroll: Payroll;
+  /** Off-cycle and reversal payslips are labelled as such */
+  runType: PayrollRunType;
+  earnings: PayslipLineItem[];
+  deductions: PayslipLineItem[];
+  employerContributions: PayslipLineItem[];
+  ytd: {
+    financialYear: string;
+    gross: number;
+    deductions: number;
+    tds: number;
+    net: number;
+  };
+}
+
+// Rule-generated lines with a payroll column of their own, or employer costs
+const STATUTORY_CODES = ['gross', 'pf', 'esic', 'pt', 'tds', 'epf', 'eps', 'esic_employer'];
+
+export class PayslipMismatchError extends DomainError {
+  constructor(net: number, netSalary: number) {
+    super(`Payslip: earnings less deductions come to ${net} but net pay is ${netSalary}`);
+    this.name = 'PayslipMismatchError';
+  }
+}
+
+function sumItems(lines: PayslipLineItem[]): number {
+  return lines.reduce((sum, line) => sum + line.amount, 0);
+}
+
+/**
+ * Rebuild the earning/deduction breakdown from the payroll columns and the
+ * adjustment rows saved alongside them. Throws when the lines do not add up
+ * to the stored net pay.
+ */
+export function buildPayslipLineItems(payroll: Payroll, adjustments: StoredPayrollAdjustment[]) {
+  const additions = adjustments.filter(a => a.adjustment_type === 'addition');
+  const structureEarnings = additions.filter(a => a.code?.startsWith('earning:'));
+  // Overtime, leave encashment and the like are already part of gross pay
+  const otherEarnings = additions.filter(a =>
+    a.code && !a.code.startsWith('earning:') && !STATUTORY_CODES.includes(a.code)
+  );
+  const otherEarningsTotal = otherEarnings.reduce((sum, a) => sum + Number(a.amount), 0);
+
+  const earnings: PayslipLineItem[] = structureEarnings.length > 0
+    ? structureEarnings.map(a => ({ name: a.name, amount: Number(a.amount) }))
+    : [{ name: 'Gross Salary', amount: Number(payroll.gross_salary || 0) - otherEarningsTotal }];
+
+  [...otherEarnings, ...additions.filter(a => !a.code)]
+    .forEach(a => earnings.push({ name: a.name, amount: Number(a.amount) }));
+
+  const statutory: PayslipLineItem[] = [
+    { name: 'Provident Fund', amount: Number(payroll.pf_amount || 0) },
+    { name: 'ESIC', amount: Number(payroll.esic_amount || 0) },
+    { name: 'Income Tax (TDS)', amount: Number(payroll.tds_amount || 0) },
+  ];
+  const deductions = [
+    ...statutory,
+    ...adjustments
+      .filter(a => a.adjustment_type === 'deduction')
+      .map(a => ({ name: a.name, amount: Number(a.amount) })),
+  ].filter(line => line.amount !== 0);
+
+  // Columns are rounded one by one, so allow for a rupee of drift
+  const net = Math.round(sumItems(earnings) - sumItems(deductions));
+  const netSalary = Number(payroll.net_salary || 0);
+  if (Math.abs(net - netSalary) > 1) {
+    throw new PayslipMismatchError(net, netSalary);
+  }
+
+  const employerContributions: PayslipLineItem[] = [
+    { name: 'Employer EPF', amount: Number(payroll.epf_amount || 0) - Number(payroll.eps_amount || 0) },
+    { name: 'Employer EPS', amount: Number(payroll.eps_amount || 0) },
+    { name: 'Employer ESIC', amount: Number(payroll.employer_esic_amount || 0) },
+  ].filter(line => line.amount !== 0);
+
+  return { earnings, deductions, employerContributions };
+}
+
+const ONES = [
+  '', 'One', 'Two', 'Three', 'Four', 'Five', 'Six', 'Seven', 'Eight', 'Nine', 'Ten',
+  'Eleven', 'Twelve', 'Thirteen', 'Fourteen', 'Fifteen', 'Sixteen', 'Seventeen', 'Eighteen', 'Nineteen',
+];
+const TENS = ['', '', 'Twenty', 'Thirty', 'Forty', 'Fifty', 'Sixty', 'Seventy', 'Eighty', 'Ninety'];
+
+function belowHundred(n: number): string {
+  if (n < 20) return ONES[n];
+  return [TENS[Math.floor(n / 10)], ONES[n % 10]].filter(Boolean).join(' ');
+}
+
+function belowThousand(n: number): string {
+  const hundreds = Math.floor(n / 100);
+  return [hundreds ? `${ONES[hundreds]} Hundred` : '', belowHundred(n % 100)].filter(Boolean).join(' ');
+}
+
+/**
+ * Whole number in words using the Indian system (thousand, lakh, crore)
+ */
+export function numberToWords(value: number): string {
+  const n = Math.floor(Math.abs(value));
+  if (n === 0) return 'Zero';
+
+  const crore = Math.floor(n / 10000000);
+  const lakh = Math.floor((n % 10000000) / 100000);
+  const thousand = Math.floor((n % 100000) / 1000);
+  return [
+    crore ? `${numberToWords(crore)} Crore` : '',
+    lakh ? `${belowHundred(lakh)} Lakh` : '',
+    thousand ? `${belowHundred(thousand)} Thousand` : '',
+    belowThousand(n % 1000),
+  ].filter(Boolean).join(' ');
+}
+
+export function amountToWords(amount: number): string {
+  const rupees = Math.floor(Math.abs(amount));
+  const paise = Math.round((Math.abs(amount) - rupees) * 100);
+  const paiseText = paise > 0 ? ` and ${belowHundred(paise)} Paise` : '';
+  return `Rupees ${numberToWords(rupees)}${paiseText} Only`;
+}
+
+// The built-in PDF fonts have no rupee glyph
+function formatAmount(amount: number): string {
+  return `Rs. ${Number(amount || 0).toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function maskAccount(account: string | null): string {
+  if (!account) return '-';
+  return account.length > 4 ? `XXXX${account.slice(-4)}` : account;
+}
+
+const RUN_TYPE_TITLES: Record<PayrollRunType, string> = {
+  regular: '',
+  off_cycle: ' (Off-cycle)',
+  reversal: ' (Reversal)',
+};
+
+export function getPayslipFilename(doc: Pick<PayslipDocument, 'employee' | 'payroll' | 'runType'>): string {
+  const name = (doc.employee.employeeId || doc.employee.name).replace(/[^A-Za-z0-9_-]+/g, '_');
+  // A month can have several off-cycle runs, so their files carry the run id
+  const suffix = doc.runType === 'regular' ? '' : `_${doc.runType}_${(doc.payroll.run_id || '').slice(0, 8)}`;
+  return `payslip_${name}_${doc.payroll.year}_${String(doc.payroll.month).padStart(2, '0')}${suffix}.pdf`;
+}
+
+/**
+ * Render a payslip to a PDF blob
+ */
+export function renderPayslipPdf(data: PayslipDocument): Blob {
+  const pdf = new jsPDF({ unit: 'mm', format: 'a4' });
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const margin = 15;
+  const contentWidth = pageWidth - margin * 2;
+  let y = margin;
+
+  // Header: logo, company name and pay period
+  let textX = margin;
+  if (data.company.logoDataUrl) {
+    try {
+      const props = pdf.getImageProperties(data.company.logoDataUrl);
+      const height = 16;
+      const width = Math.min(40, (props.width / props.height) * height);
+      pdf.addImage(data.company.logoDataUrl, props.fileType, margin, y, width, height);
+      textX = margin + width + 5;
+    } catch {
+      // An unreadable logo should not block the payslip
+    }
+  }
+  pdf.setFont('helvetica', 'bold');
+  pdf.setFontSize(16);
+  pdf.text(data.company.name, textX, y + 7);
+  pdf.setFont('helvetica', 'normal');
+  pdf.setFontSize(11);
+  pdf.text(
+    `Payslip for ${MONTHS[data.payroll.month - 1]} ${data.payroll.year}${RUN_TYPE_TITLES[data.runType]}`,
+    textX,
+    y + 14
+  );
+  y += 22;
+  pdf.setDrawColor(200);
+  pdf.line(margin, y, pageWidth - margin, y);
+  y += 8;
+
+  // Employee and attendance details
+  const details: [string, string][] = [
+    ['Employee Name', data.employee.name],
+    ['Employee ID', data.employee.employeeId || '-'],
+    ['Department', data.employee.department || '-'],
+    ['Work State', data.employee.workState || '-'],
+    ['Bank Account', maskAccount(data.employee.bankAccountNumber)],
+    ['Working Days', String(data.payroll.working_days ?? '-')],
+    ['Days Present', String(data.payroll.present_days ?? '-')],
+    ['Paid Leave', String(data.payroll.paid_leave_days ?? 0)],
+    ['Loss of Pay Days', String(data.payroll.unpaid_leave_days ?? 0)],
+    ['Status', data.payroll.status],
+  ];
+  pdf.setFontSize(9);
+  const half = Math.ceil(details.length / 2);
+  details.forEach(([label, value], i) => {
+    const x = i < half ? margin : margin + contentWidth / 2;
+    const rowY = y + (i % half) * 6;
+    pdf.setTextColor(110);
+    pdf.text(label, x, rowY);
+    pdf.setTextColor(20);
+    pdf.text(value, x + 32, rowY);
+  });
+  y += half * 6 + 6;
+
+  // Earnings and deductions side by side
+  const colWidth = contentWidth / 2;
+  const rows = Math.max(data.earnings.length, data.deductions.length);
+  pdf.setFillColor(240, 240, 245);
+  pdf.rect(margin, y - 5, contentWidth, 8, 'F');
+  pdf.setFont('helvetica', 'bold');
+  pdf.text('Earnings', margin + 2, y);
+  pdf.text('Amount', margin + colWidth - 2, y, { align: 'right' });
+  pdf.text('Deductions', margin + colWidth + 2, y);
+  pdf.text('Amount', pageWidth - margin - 2, y, { align: 'right' });
+  pdf.setFont('helvetica', 'normal');
+  y += 8;
+
+  for (let i = 0; i < rows; i++) {
+    const earning = data.earnings[i];
+    const deduction = data.deductions[i];
+    if (earning) {
+      pdf.text(earning.name, margin + 2, y);
+      pdf.text(formatAmount(earning.amount), margin + colWidth - 2, y, { align: 'right' });
+    }
+    if (deduction) {
+      pdf.text(deduction.name, margin + colWidth + 2, y);
+      pdf.text(formatAmount(deduction.amount), pageWidth - margin - 2, y, { align: 'right' });
+    }
+    y += 6;
+  }
+
+  const totalEarnings = data.earnings.reduce((sum, l) => sum + l.amount, 0);
+  const totalDeductions = data.deductions.reduce((sum, l) => sum + l.amount, 0);
+  pdf.line(margin, y - 3, pageWidth - margin, y - 3);
+  y += 2;
+  pdf.setFont('helvetica', 'bold');
+  pdf.text('Total Earnings', margin + 2, y);
+  pdf.text(formatAmount(totalEarnings), margin + colWidth - 2, y, { align: 'right' });
+  pdf.text('Total Deductions', margin + colWidth + 2, y);
+  pdf.text(formatAmount(totalDeductions), pageWidth - margin - 2, y, { align: 'right' });
+  y += 12;
+
+  // Net pay
+  pdf.setFillColor(232, 245, 233);
+  pdf.rect(margin, y - 6, contentWidth, 16, 'F');
+  pdf.setFontSize(12);
+  pdf.text('Net Pay', margin + 2, y);
+  pdf.text(formatAmount(Number(data.payroll.net_salary || 0)), pageWidth - margin - 2, y, { align: 'right' });
+  pdf.setFont('helvetica', 'italic');
+  pdf.setFontSize(9);
+  pdf.text(amountToWords(Math.round(Number(data.payroll.net_salary || 0))), margin + 2, y + 6);
+  pdf.setFont('helvetica', 'normal');
+  y += 20;
+
+  // Year to date
+  pdf.setFont('helvetica', 'bold');
+  pdf.text(`Year to Date (FY ${data.ytd.financialYear})`, margin, y);
+  pdf.setFont('helvetica', 'normal');
+  y += 6;
+  const ytd: [string, number][] = [
+    ['Gross Earnings', data.ytd.gross],
+    ['Total Deductions', data.ytd.deductions],
+    ['Income Tax (TDS)', data.ytd.tds],
+    ['Net Pay', data.ytd.net],
+  ];
+  ytd.forEach(([label, amount], i) => {
+    const x = margin + (contentWidth / 4) * i;
+    pdf.setTextColor(110);
+    pdf.text(label, x, y);
+    pdf.setTextColor(20);
+    pdf.text(formatAmount(amount), x, y + 5);
+  });
+  y += 14;
+
+  if (data.employerContributions.length > 0) {
+    pdf.setTextColor(110);
+    pdf.text(
+      `Employer contributions (not deducted): ${data.employerContributions
+        .map(c => `${c.name} ${formatAmount(c.amount)}`)
+        .join(', ')}`,
+      margin,
+      y
+    );
+    y += 8;
+  }
+
+  pdf.setTextColor(140);
+  pdf.setFontSize(8);
+  pdf.text(
+    'This is a computer-generated payslip and does not require a signature.',
+    pageWidth / 2,
+    pdf.internal.pageSize.getHeight() - 12,
+    { align: 'center' }
+  );
+
+  return pdf.output('blob');
+}
@@ -0,0 +1,42 @@
+// src/lib/regularization.ts
+/**
+ * Attendance regularization
+ * An employee asks to correct a day's punches - a forgotten sign-in or
+ * sign-out, a wrong time, or a day on duty away from the office - with a
+ * reason. Their reporting manager, or an admin, decides it. Approval corrects
+ * the session in the database and keeps the original punch on the request.
+ */
+
+import { addDays, format } from 'date-fns';
+import { RegularizationKind, RegularizationStatus } from '@/types/hrms';
+
+export const REGULARIZATION_KIND_LABELS: Record<RegularizationKind, string> = {
+  missed_punch: 'Missed punch',
+  wrong_time: 'Wrong time',
+  on_duty: 'On duty / field work',
+};
+
+export const REGULARIZATION_STATUS_LABELS: Record<RegularizationStatus, string> = {
+  pending: 'Awaiting approval',
+  approved: 'Approved',
+  rejected: 'Rejected',
+  cancelled: 'Cancelled',
+};
+
+/**
+ * Requested punches for a date from local HH:mm times. A sign-out at or
+ * before the sign-in is taken as the next morning, as on an overnight shift.
+ */
+export function toRequestedPunches(date: string, signIn: string, signOut: string): { signIn: Date; signOut: Date } {
+  const [y, m, d] = date.split('-').map(Number);
+  const at = (day: Date, time: string) => {
+    const [h, min] = time.split(':').map(Number);
+    return new Date(day.getFullYear(), day.getMonth(), day.getDate(), h, min);
+  };
+  const day = new Date(y, m - 1, d);
+  const start = at(day, signIn);
+  const end = at(day, signOut);
+  return { signIn: start, signOut: end > start ? end : at(addDays(day, 1), signOut) };
+}
+
+export const formatPunchTime = (value: string | null) => (value ? format(new Date(value), 'h:mm a') : '-');
@@ -0,0 +1,132 @@
+// src/lib/shiftRoster.ts
+/**
+ * Shift roster
+ * Employees are assigned a work session for a date range, either a fixed
+ * shift with its own weekly offs or a rotation cycling through shifts and days
+ * off. Where assignments overlap, the one starting latest wins. A shift whose
+ * end is at or before its start runs past midnight and belongs to the day it
+ * starts. `get_rostered_shift` resolves the same roster in the database.
+ */
+
+import { format } from 'date-fns';
+import { WEEKDAY_NAMES } from '@/lib/businessCalendar';
+import { getZonedDate, getZonedMinutes, zonedTimeToUtc } from '@/lib/timezone';
+import { ShiftAssignment, ShiftRotation, WorkSession } from '@/types/hrms';
+
+/** Start and end of a shift; office hours stand in for employees without a roster */
+export type ShiftTimes = Pick<WorkSession, 'start_time' | 'end_time'>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function toUtcDay(value: string): number {
+  const [y, m, d] = value.slice(0, 10).split('-').map(Number);
+  return Date.UTC(y, m - 1, d);
+}
+
+const toDateString = (day: number) => new Date(day).toISOString().slice(0, 10);
+
+export interface RosterDay {
+  date: string;
+  assignment: ShiftAssignment;
+  /** Work session for the day; null on a day off */
+  shiftId: string | null;
+  isOff: boolean;
+}
+
+const toMinutes = (time: string) => {
+  const [h, m] = time.split(':').map(Number);
+  return h * 60 + m;
+};
+
+export const crossesMidnight = (shift: ShiftTimes) =>
+  toMinutes(shift.end_time) <= toMinutes(shift.start_time);
+
+/**
+ * Length of a shift in minutes, including any part after midnight
+ */
+export function getShiftMinutes(shift: ShiftTimes): number {
+  const minutes = toMinutes(shift.end_time) - toMinutes(shift.start_time);
+  return crossesMidnight(shift) ? minutes + 24 * 60 : minutes;
+}
+
+export function formatShiftTime(shift: ShiftTimes): string {
+  const time = `${shift.start_time.slice(0, 5)} - ${shift.end_time.slice(0, 5)}`;
+  return crossesMidnight(shift) ? `${time} (next day)` : time;
+}
+
+/**
+ * The assignment in force for an employee on a date (YYYY-MM-DD)
+ */
+export function findAssignment(assignments: ShiftAssignment[], userId: string, date: string): ShiftAssignment | null {
+  const covering = assignments.filter(a =>
+    a.user_id === userId && a.start_date <= date && (!a.end_date || a.end_date >= date)
+  );
+  if (covering.length === 0) return null;
+
+  return covering.reduce((latest, a) =>
+    a.start_date > latest.start_date || (a.start_date === latest.start_date && a.created_at > latest.created_at)
+      ? a
+      : latest
+  );
+}
+
+/**
+ * What the roster says for an employee on a date, or null when they have no roster for it
+ */
+export function resolveRosterDay(
+  assignments: ShiftAssignment[],
+  rotations: ShiftRotation[],
+  userId: string,
+  date: string
+): RosterDay | null {
+  const assignment = findAssignment(assignments, userId, date);
+  if (!assignment) return null;
+
+  if (assignment.rotation_id) {
+    const rotation = rotations.find(r => r.id === assignment.rotation_id);
+    if (!rotation || rotation.pattern.length === 0) return null;
+    const offset = Math.round((toUtcDay(date) - toUtcDay(assignment.start_date)) / DAY_MS);
+    const shiftId = rotation.pattern[offset % rotation.pattern.length] ?? null;
+    return { date, assignment, shiftId, isOff: shiftId === null };
+  }
+
+  const weekday = WEEKDAY_NAMES[new Date(toUtcDay(date)).getUTCDay()];
+  const isOff = assignment.weekly_offs.includes(weekday);
+  return { date, assignment, shiftId: isOff ? null : assignment.work_session_id, isOff };
+}
+
+/**
+ * Start and end of a shift worked on a date, in the given timezone or the
+ * browser's own without one
+ */
+export function getShiftWindow(shift: ShiftTimes, date: string, timeZone?: string): { start: Date; end: Date } {
+  const [y, m, d] = date.split('-').map(Number);
+  const startMinutes = toMinutes(shift.start_time);
+  const start = timeZone
+    ? zonedTimeToUtc(date, shift.start_time, timeZone)
+    : new Date(y, m - 1, d, Math.floor(startMinutes / 60), startMinutes % 60);
+  return { start, end: new Date(start.getTime() + getShiftMinutes(shift) * 60 * 1000) };
+}
+
+/**
+ * The date whose shift a sign-in belongs to. Signing in before an overnight
+ * shift ends counts toward the shift that started the day before.
+ */
+export function getShiftDate(signIn: Date, shift: ShiftTimes | null, timeZone?: string): string {
+  const date = timeZone ? getZonedDate(signIn, timeZone) : format(signIn, 'yyyy-MM-dd');
+  if (!shift || !crossesMidnight(shift)) return date;
+
+  const signInMinutes = timeZone ? getZonedMinutes(signIn, timeZone) : signIn.getHours() * 60 + signIn.getMinutes();
+  return signInMinutes < toMinutes(shift.end_time) ? toDateString(toUtcDay(date) - DAY_MS) : date;
+}
+
+/**
+ * Whether an open session is still the one in progress: signed in on the
+ * current shift date, or on yesterday's overnight shift
+ */
+export function isCurrentSession(signIn: Date, shift: ShiftTimes | null, now: Date, timeZone?: string): boolean {
+  const shiftDate = getShiftDate(signIn, shift, timeZone);
+  const today = timeZone ? getZonedDate(now, timeZone) : format(now, 'yyyy-MM-dd');
+  if (shiftDate === today) return true;
+  return !!shift && crossesMidnight(shift) && toDateString(toUtcDay(shiftDate) + DAY_MS) === today;
+}
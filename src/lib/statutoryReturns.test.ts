@@ -0,0 +1,168 @@
+import { describe, expect, it } from 'vitest';
+import {
+  consolidateContributions,
+  renderEcrFile,
+  renderEsicFile,
+  StatutoryMember,
+  StatutoryPayrollRow,
+  summarizeStatutoryReturns,
+  validateStatutoryReturns,
+} from './statutoryReturns';
+
+const PF_WAGE_CEILING = 15000;
+
+function row(overrides: Partial<StatutoryPayrollRow>): StatutoryPayrollRow {
+  return {
+    user_id: 'user-a',
+    run_type: 'regular',
+    working_days: 26,
+    present_days: 24,
+    paid_leave_days: 1,
+    gross_salary: 0,
+    pf_wages: 0,
+    esic_wages: 0,
+    pf_amount: 0,
+    esic_amount: 0,
+    epf_amount: 0,
+    eps_amount: 0,
+    employer_esic_amount: 0,
+    created_at: '2026-07-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+// July 2026: Asha's regular row was reversed and repaid off-cycle; Ravi is only under ESIC
+const rows: StatutoryPayrollRow[] = [
+  row({ gross_salary: 30000, pf_wages: 20000, pf_amount: 2400, epf_amount: 2400, eps_amount: 1250 }),
+  row({
+    run_type: 'reversal',
+    gross_salary: -30000,
+    pf_wages: -20000,
+    pf_amount: -2400,
+    epf_amount: -2400,
+    eps_amount: -1250,
+    created_at: '2026-07-05T00:00:00Z',
+  }),
+  row({
+    run_type: 'off_cycle',
+    present_days: 25,
+    gross_salary: 31000,
+    pf_wages: 21000,
+    pf_amount: 2520,
+    epf_amount: 2520,
+    eps_amount: 1250,
+    created_at: '2026-07-06T00:00:00Z',
+  }),
+  row({
+    user_id: 'user-b',
+    present_days: 20,
+    paid_leave_days: 2,
+    gross_salary: 18000,
+    esic_wages: 18000,
+    esic_amount: 135,
+    employer_esic_amount: 585,
+  }),
+];
+
+const members: StatutoryMember[] = [
+  { user_id: 'user-a', first_name: 'Asha', last_name: "D'Souza", employee_id: 'E001', uan: '100200300400', esic_ip_number: null },
+  { user_id: 'user-b', first_name: 'Ravi', last_name: 'Kumar', employee_id: 'E002', uan: null, esic_ip_number: '1234567890' },
+];
+
+const contributions = consolidateContributions(rows, members, PF_WAGE_CEILING);
+
+describe('consolidateContributions', () => {
+  it('nets every run of the month into one contribution per employee', () => {
+    const asha = contributions.find(c => c.userId === 'user-a');
+
+    expect(contributions).toHaveLength(2);
+    expect(asha).toMatchObject({
+      name: "Asha D'Souza",
+      employeeCode: 'E001',
+      grossWages: 31000,
+      pfWages: 21000,
+      employeePf: 2520,
+      employerEps: 1250,
+      employerEpf: 1270,
+    });
+  });
+
+  it('caps pension and EDLI wages at the PF wage ceiling', () => {
+    const asha = contributions.find(c => c.userId === 'user-a');
+
+    expect(asha?.epsWages).toBe(15000);
+    expect(asha?.edliWages).toBe(15000);
+  });
+
+  it('takes days from the latest row that is not a reversal', () => {
+    const asha = contributions.find(c => c.userId === 'user-a');
+    const ravi = contributions.find(c => c.userId === 'user-b');
+
+    expect(asha?.daysPaid).toBe(26);
+    expect(asha?.ncpDays).toBe(0);
+    expect(ravi?.daysPaid).toBe(22);
+    expect(ravi?.ncpDays).toBe(4);
+  });
+});
+
+describe('validateStatutoryReturns', () => {
+  it('accepts members with their numbers in place', () => {
+    expect(validateStatutoryReturns(contributions)).toEqual([]);
+  });
+
+  it('flags missing or malformed UAN and IP numbers', () => {
+    const [asha, ravi] = contributions;
+    const issues = validateStatutoryReturns([
+      { ...asha, uan: null },
+      { ...ravi, esicIpNumber: '12345' },
+    ]);
+
+    expect(issues.map(issue => `${issue.scheme}: ${issue.message}`)).toEqual([
+      'pf: UAN is missing',
+      'esic: ESIC IP number 12345 must be 10 digits',
+    ]);
+  });
+
+  it('flags PF that nets to a negative amount', () => {
+    const [asha] = contributions;
+    const issues = validateStatutoryReturns([{ ...asha, employeePf: -120 }]);
+
+    expect(issues.map(issue => issue.message)).toEqual(['PF for the month nets to a negative amount']);
+  });
+});
+
+describe('summarizeStatutoryReturns', () => {
+  it('totals each scheme over its members only', () => {
+    expect(summarizeStatutoryReturns(contributions)).toEqual({
+      pfMembers: 1,
+      esicMembers: 1,
+      pfWages: 21000,
+      employeePf: 2520,
+      employerEps: 1250,
+      employerEpf: 1270,
+      esicWages: 18000,
+      employeeEsic: 135,
+      employerEsic: 585,
+    });
+  });
+});
+
+describe('renderEcrFile', () => {
+  it('writes one separated line per PF member with names stripped of punctuation', () => {
+    expect(renderEcrFile(contributions)).toBe(
+      ['100200300400', 'ASHA D SOUZA', 31000, 21000, 15000, 15000, 2520, 1250, 1270, 0, 0].join('#~#')
+    );
+  });
+});
+
+describe('renderEsicFile', () => {
+  it('writes the portal header and one CRLF line per ESIC member', () => {
+    const lines = renderEsicFile(contributions).split('\r\n');
+
+    expect(lines[0]).toBe(
+      'IP Number,IP Name,No of Days for which wages paid/payable during the month,Total Monthly Wages,' +
+      'Reason Code for Zero workings days,Last Working Day'
+    );
+    expect(lines.slice(1)).toEqual(['1234567890,RAVI KUMAR,22,18000,0,', '']);
+  });
+});
@@ -0,0 +1,230 @@
+// src/lib/statutoryReturns.ts
+/**
+ * Monthly statutory returns
+ * Consolidates a month's payroll rows per employee and renders the EPFO
+ * Electronic Challan-cum-Return (ECR) and the ESIC monthly contribution upload.
+ * Pure functions; loading and downloading live in exportService.
+ */
+
+import { Payroll, Profile } from '@/types/hrms';
+
+const UAN_PATTERN = /^[0-9]{12}$/;
+const ESIC_IP_PATTERN = /^[0-9]{10}$/;
+
+/** ECR 2.0 separates fields with this token instead of a comma */
+export const ECR_FIELD_SEPARATOR = '#~#';
+
+export type StatutoryPayrollRow = Pick<
+  Payroll,
+  | 'user_id'
+  | 'working_days'
+  | 'present_days'
+  | 'paid_leave_days'
+  | 'gross_salary'
+  | 'pf_wages'
+  | 'esic_wages'
+  | 'pf_amount'
+  | 'esic_amount'
+  | 'epf_amount'
+  | 'eps_amount'
+  | 'employer_esic_amount'
+  | 'created_at'
+> & { run_type: 'regular' | 'off_cycle' | 'reversal' };
+
+export type StatutoryMember = Pick<Profile, 'user_id' | 'first_name' | 'last_name' | 'employee_id' | 'uan' | 'esic_ip_number'>;
+
+export interface StatutoryContribution {
+  userId: string;
+  name: string;
+  employeeCode: string | null;
+  uan: string | null;
+  esicIpNumber: string | null;
+  grossWages: number;
+  // PF
+  pfWages: number;
+  epsWages: number;
+  edliWages: number;
+  employeePf: number;
+  employerEps: number;
+  /** Employer share credited to the PF account (employer PF less EPS) */
+  employerEpf: number;
+  /** Non-contributing (unpaid) days */
+  ncpDays: number;
+  // ESIC
+  esicWages: number;
+  employeeEsic: number;
+  employerEsic: number;
+  daysPaid: number;
+}
+
+export type StatutoryScheme = 'pf' | 'esic';
+
+export interface StatutoryIssue {
+  scheme: StatutoryScheme;
+  userId: string;
+  employeeName: string;
+  message: string;
+}
+
+export interface StatutorySummary {
+  pfMembers: number;
+  esicMembers: number;
+  pfWages: number;
+  employeePf: number;
+  employerEps: number;
+  employerEpf: number;
+  esicWages: number;
+  employeeEsic: number;
+  employerEsic: number;
+}
+
+/**
+ * Net every run of the month (regular, off-cycle and reversals) into one
+ * contribution per employee. Day counts come from the latest non-reversal row,
+ * since reversals negate amounts but repeat the original days.
+ */
+export function consolidateContributions(
+  rows: StatutoryPayrollRow[],
+  members: StatutoryMember[],
+  pfWageCeiling: number
+): StatutoryContribution[] {
+  const byUser = new Map<string, StatutoryPayrollRow[]>();
+  rows.forEach(row => {
+    const list = byUser.get(row.user_id) || [];
+    list.push(row);
+    byUser.set(row.user_id, list);
+  });
+
+  return [...byUser.entries()].map(([userId, userRows]) => {
+    const member = members.find(m => m.user_id === userId);
+    const sum = (key: keyof StatutoryPayrollRow) => userRows.reduce((total, r) => total + Number(r[key] || 0), 0);
+    const daysRow = userRows
+      .filter(r => r.run_type !== 'reversal')
+      .sort((a, b) => b.created_at.localeCompare(a.created_at))[0];
+
+    const pfWages = sum('pf_wages');
+    const employerEps = sum('eps_amount');
+    const cappedWages = pfWageCeiling > 0 ? Math.min(pfWages, pfWageCeiling) : pfWages;
+    const daysPaid = daysRow ? Number(daysRow.present_days || 0) + Number(daysRow.paid_leave_days || 0) : 0;
+
+    return {
+      userId,
+      name: member ? `${member.first_name} ${member.last_name}` : userId,
+      employeeCode: member?.employee_id || null,
+      uan: member?.uan || null,
+      esicIpNumber: member?.esic_ip_number || null,
+      grossWages: sum('gross_salary'),
+      pfWages,
+      epsWages: employerEps !== 0 ? cappedWages : 0,
+      edliWages: cappedWages,
+      employeePf: sum('pf_amount'),
+      employerEps,
+      employerEpf: sum('epf_amount') - employerEps,
+      ncpDays: daysRow ? Math.max(0, Math.round(Number(daysRow.working_days || 0) - daysPaid)) : 0,
+      esicWages: sum('esic_wages'),
+      employeeEsic: sum('esic_amount'),
+      employerEsic: sum('employer_esic_amount'),
+      daysPaid: Math.round(daysPaid),
+    };
+  });
+}
+
+export const isPfMember = (c: StatutoryContribution) => c.employeePf !== 0 || c.employerEps !== 0 || c.employerEpf !== 0;
+export const isEsicMember = (c: StatutoryContribution) => c.employeeEsic !== 0 || c.employerEsic !== 0;
+
+/**
+ * Employees who contribute but cannot be reported without their UAN or IP number
+ */
+export function validateStatutoryReturns(contributions: StatutoryContribution[]): StatutoryIssue[] {
+  const issues: StatutoryIssue[] = [];
+  contributions.forEach(c => {
+    if (isPfMember(c)) {
+      if (!c.uan) {
+        issues.push({ scheme: 'pf', userId: c.userId, employeeName: c.name, message: 'UAN is missing' });
+      } else if (!UAN_PATTERN.test(c.uan)) {
+        issues.push({ scheme: 'pf', userId: c.userId, employeeName: c.name, message: `UAN ${c.uan} must be 12 digits` });
+      }
+      if (c.employeePf < 0 || c.pfWages < 0) {
+        issues.push({ scheme: 'pf', userId: c.userId, employeeName: c.name, message: 'PF for the month nets to a negative amount' });
+      }
+    }
+    if (isEsicMember(c)) {
+      if (!c.esicIpNumber) {
+        issues.push({ scheme: 'esic', userId: c.userId, employeeName: c.name, message: 'ESIC IP number is missing' });
+      } else if (!ESIC_IP_PATTERN.test(c.esicIpNumber)) {
+        issues.push({ scheme: 'esic', userId: c.userId, employeeName: c.name, message: `ESIC IP number ${c.esicIpNumber} must be 10 digits` });
+      }
+    }
+  });
+  return issues;
+}
+
+export function summarizeStatutoryReturns(contributions: StatutoryContribution[]): StatutorySummary {
+  const pf = contributions.filter(isPfMember);
+  const esic = contributions.filter(isEsicMember);
+  const total = (list: StatutoryContribution[], key: keyof StatutoryContribution) =>
+    list.reduce((sum, c) => sum + Number(c[key] || 0), 0);
+
+  return {
+    pfMembers: pf.length,
+    esicMembers: esic.length,
+    pfWages: total(pf, 'pfWages'),
+    employeePf: total(pf, 'employeePf'),
+    employerEps: total(pf, 'employerEps'),
+    employerEpf: total(pf, 'employerEpf'),
+    esicWages: total(esic, 'esicWages'),
+    employeeEsic: total(esic, 'employeeEsic'),
+    employerEsic: total(esic, 'employerEsic'),
+  };
+}
+
+// EPFO rejects punctuation in member names
+function memberName(name: string): string {
+  return name.toUpperCase().replace(/[^A-Z ]+/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * ECR 2.0 text file: one line per PF member, whole rupees, no header
+ */
+export function renderEcrFile(contributions: StatutoryContribution[]): string {
+  return contributions
+    .filter(isPfMember)
+    .map(c => [
+      c.uan || '',
+      memberName(c.name),
+      Math.round(c.grossWages),
+      Math.round(c.pfWages),
+      Math.round(c.epsWages),
+      Math.round(c.edliWages),
+      Math.round(c.employeePf),
+      Math.round(c.employerEps),
+      Math.round(c.employerEpf),
+      c.ncpDays,
+      0,
+    ].join(ECR_FIELD_SEPARATOR))
+    .join('\n');
+}
+
+/**
+ * ESIC monthly contribution upload, in the column order of the portal's template
+ */
+export function renderEsicFile(contributions: StatutoryContribution[]): string {
+  const header = [
+    'IP Number',
+    'IP Name',
+    'No of Days for which wages paid/payable during the month',
+    'Total Monthly Wages',
+    'Reason Code for Zero workings days',
+    'Last Working Day',
+  ];
+  const lines = contributions.filter(isEsicMember).map(c => [
+    c.esicIpNumber || '',
+    memberName(c.name),
+    c.daysPaid,
+    Math.round(c.esicWages),
+    // Reason codes only matter for zero-day members, who have no contribution row
+    0,
+    '',
+  ].join(','));
+  return [header.join(','), ...lines].join('\r\n') + '\r\n';
+}
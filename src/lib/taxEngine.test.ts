@@ -0,0 +1,188 @@
+import { describe, expect, it } from 'vitest';
+import {
+  AnnualIncome,
+  calculateAnnualTax,
+  calculateHraExemption,
+  calculateMonthlyTds,
+  calculateProfessionalTax,
+  calculateTaxableIncome,
+  getFinancialYear,
+  isInFinancialYear,
+  selectTaxSlabConfig,
+} from './taxEngine';
+import { ProfessionalTaxSlab, TaxSlabConfig } from '@/types/hrms';
+
+const newRegime: TaxSlabConfig = {
+  id: 'new-2026',
+  company_id: null,
+  financial_year: '2026-27',
+  regime: 'new',
+  version: 1,
+  slabs: [
+    { from: 0, to: 400000, rate: 0 },
+    { from: 400000, to: 800000, rate: 5 },
+    { from: 800000, to: 1200000, rate: 10 },
+    { from: 1200000, to: null, rate: 15 },
+  ],
+  standard_deduction: 75000,
+  rebate_limit: 1200000,
+  rebate_amount: 60000,
+  cess_percentage: 4,
+  created_at: '',
+};
+
+const oldRegime: TaxSlabConfig = {
+  id: 'old-2026',
+  company_id: null,
+  financial_year: '2026-27',
+  regime: 'old',
+  version: 1,
+  slabs: [
+    { from: 0, to: 250000, rate: 0 },
+    { from: 250000, to: 500000, rate: 5 },
+    { from: 500000, to: 1000000, rate: 20 },
+    { from: 1000000, to: null, rate: 30 },
+  ],
+  standard_deduction: 50000,
+  rebate_limit: 500000,
+  rebate_amount: 12500,
+  cess_percentage: 4,
+  created_at: '',
+};
+
+const income: AnnualIncome = {
+  gross: 1200000,
+  basic: 600000,
+  hra: 240000,
+  providentFund: 72000,
+  professionalTax: 2400,
+};
+
+const declaration = { section_80c: 100000, section_80d: 30000, hra_rent_paid: 300000, metro_city: true };
+
+describe('getFinancialYear', () => {
+  it('places a month in the April to March year', () => {
+    expect(getFinancialYear(6, 2026)).toEqual({
+      label: '2026-27',
+      startYear: 2026,
+      startMonth: 4,
+      monthsElapsed: 2,
+      monthsRemaining: 10,
+    });
+  });
+
+  it('counts January to March towards the year that started the April before', () => {
+    const fy = getFinancialYear(2, 2027);
+
+    expect(fy.label).toBe('2026-27');
+    expect(fy.monthsRemaining).toBe(2);
+  });
+
+  it('labels a calendar financial year by its single year', () => {
+    const fy = getFinancialYear(3, 2026, '01-01');
+
+    expect(fy.label).toBe('2026');
+    expect(fy.monthsRemaining).toBe(10);
+  });
+
+  it('tells which months fall inside the year', () => {
+    const fy = getFinancialYear(6, 2026);
+
+    expect(isInFinancialYear(3, 2027, fy)).toBe(true);
+    expect(isInFinancialYear(4, 2027, fy)).toBe(false);
+    expect(isInFinancialYear(3, 2026, fy)).toBe(false);
+  });
+});
+
+describe('selectTaxSlabConfig', () => {
+  const companyVersion = { ...newRegime, id: 'company-2026', company_id: 'company-1' };
+  const revisedCompanyVersion = { ...companyVersion, id: 'company-2026-v2', version: 2 };
+
+  it('prefers the latest company version over the statutory default', () => {
+    const selected = selectTaxSlabConfig([newRegime, revisedCompanyVersion, companyVersion, oldRegime], '2026-27', 'new');
+
+    expect(selected?.id).toBe('company-2026-v2');
+  });
+
+  it('picks the table of the requested regime', () => {
+    expect(selectTaxSlabConfig([newRegime, oldRegime], '2026-27', 'old')?.id).toBe('old-2026');
+  });
+
+  it('falls back to the most recent earlier year', () => {
+    expect(selectTaxSlabConfig([newRegime], '2027-28', 'new')?.id).toBe('new-2026');
+    expect(selectTaxSlabConfig([newRegime], '2025-26', 'new')).toBeNull();
+  });
+});
+
+describe('calculateAnnualTax', () => {
+  it('taxes each slab at its rate and adds cess', () => {
+    // 20,000 + 40,000 + 45,000, plus 4% cess
+    expect(calculateAnnualTax(1500000, newRegime)).toBe(109200);
+    // 12,500 + 60,000, plus 4% cess
+    expect(calculateAnnualTax(800000, oldRegime)).toBe(75400);
+  });
+
+  it('rebates the tax of incomes up to the rebate limit', () => {
+    expect(calculateAnnualTax(1000000, newRegime)).toBe(0);
+    expect(calculateAnnualTax(450000, oldRegime)).toBe(0);
+  });
+
+  it('charges nothing on a negative income', () => {
+    expect(calculateAnnualTax(-5000, oldRegime)).toBe(0);
+  });
+});
+
+describe('calculateTaxableIncome', () => {
+  it('allows only the standard deduction under the new regime', () => {
+    expect(calculateTaxableIncome(income, newRegime, declaration)).toBe(1125000);
+  });
+
+  it('allows declared deductions under the old regime', () => {
+    // Standard 50,000, PT 2,400, 80C capped at 1,50,000, 80D 30,000 and HRA 2,40,000
+    expect(calculateTaxableIncome(income, oldRegime, declaration)).toBe(727600);
+  });
+
+  it('still counts provident fund towards 80C without a declaration', () => {
+    expect(calculateTaxableIncome(income, oldRegime, null)).toBe(1200000 - 50000 - 2400 - 72000);
+  });
+});
+
+describe('calculateHraExemption', () => {
+  it('exempts the least of HRA, excess rent and the share of basic', () => {
+    expect(calculateHraExemption(income, { hra_rent_paid: 200000, metro_city: false })).toBe(140000);
+    expect(calculateHraExemption({ ...income, hra: 100000 }, declaration)).toBe(100000);
+  });
+
+  it('exempts nothing without rent paid', () => {
+    expect(calculateHraExemption(income, { hra_rent_paid: 0, metro_city: true })).toBe(0);
+  });
+});
+
+describe('calculateMonthlyTds', () => {
+  it('spreads the tax still owed over the months left', () => {
+    expect(calculateMonthlyTds(120000, 30000, 9)).toBe(10000);
+  });
+
+  it('withholds nothing once the year is covered or over', () => {
+    expect(calculateMonthlyTds(120000, 130000, 3)).toBe(0);
+    expect(calculateMonthlyTds(120000, 30000, 0)).toBe(0);
+  });
+});
+
+describe('calculateProfessionalTax', () => {
+  const slabs: ProfessionalTaxSlab[] = [
+    { id: 'pt-1', company_id: null, state: 'MH', min_salary: 0, max_salary: 7500, amount: 0, february_amount: null, created_at: '' },
+    { id: 'pt-2', company_id: null, state: 'MH', min_salary: 7501, max_salary: 10000, amount: 175, february_amount: null, created_at: '' },
+    { id: 'pt-3', company_id: null, state: 'MH', min_salary: 10001, max_salary: null, amount: 200, february_amount: 300, created_at: '' },
+  ];
+
+  it('matches gross rounded to whole rupees against the slab bounds', () => {
+    expect(calculateProfessionalTax(slabs, 7500.4, 6)).toBe(0);
+    expect(calculateProfessionalTax(slabs, 7500.6, 6)).toBe(175);
+  });
+
+  it('charges the February amount only in February', () => {
+    expect(calculateProfessionalTax(slabs, 20000, 2)).toBe(300);
+    expect(calculateProfessionalTax(slabs, 9000, 2)).toBe(175);
+  });
+});
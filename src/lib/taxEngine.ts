@@ -0,0 +1,167 @@
+// src/lib/taxEngine.ts
+/**
+ * Indian income tax (TDS) and professional tax computation
+ * Pure functions for the financial year calendar, slab tax under the old and
+ * new regimes, the monthly withholding that spreads the projected annual
+ * tax over the months left in the year, and state professional tax.
+ */
+
+import { ProfessionalTaxSlab, TaxDeclaration, TaxRegime, TaxSlabConfig } from '@/types/hrms';
+
+export const DEFAULT_FINANCIAL_YEAR_START = '04-01';
+
+/** Statutory caps on old-regime deductions */
+export const SECTION_80C_LIMIT = 150000;
+export const SECTION_80D_LIMIT = 100000;
+
+export interface FinancialYear {
+  /** e.g. "2026-27", or "2026" when the year starts in January */
+  label: string;
+  startYear: number;
+  startMonth: number;
+  /** Months of the year before the given payroll month */
+  monthsElapsed: number;
+  /** Months left including the given payroll month */
+  monthsRemaining: number;
+}
+
+/**
+ * Resolve the financial year a payroll month falls in. `financialYearStart` is
+ * MM-DD; payroll runs monthly, so only the month part matters.
+ */
+export function getFinancialYear(
+  month: number,
+  year: number,
+  financialYearStart: string = DEFAULT_FINANCIAL_YEAR_START
+): FinancialYear {
+  const parsed = parseInt(financialYearStart.split('-')[0], 10);
+  const startMonth = parsed >= 1 && parsed <= 12 ? parsed : 4;
+  const startYear = month >= startMonth ? year : year - 1;
+  const monthsElapsed = (year - startYear) * 12 + month - startMonth;
+
+  return {
+    label: startMonth === 1
+      ? String(startYear)
+      : `${startYear}-${String((startYear + 1) % 100).padStart(2, '0')}`,
+    startYear,
+    startMonth,
+    monthsElapsed,
+    monthsRemaining: 12 - monthsElapsed,
+  };
+}
+
+/**
+ * True when (month, year) falls inside the financial year
+ */
+export function isInFinancialYear(month: number, year: number, fy: FinancialYear): boolean {
+  const offset = (year - fy.startYear) * 12 + month - fy.startMonth;
+  return offset >= 0 && offset < 12;
+}
+
+/**
+ * Pick the slab table for a year and regime: company versions win over the
+ * statutory defaults and the highest version wins. Falls back to the most
+ * recent earlier year when a year has not been configured yet.
+ */
+export function selectTaxSlabConfig(
+  configs: TaxSlabConfig[],
+  financialYear: string,
+  regime: TaxRegime
+): TaxSlabConfig | null {
+  const candidates = configs
+    .filter(c => c.regime === regime && c.financial_year <= financialYear)
+    .sort((a, b) =>
+      b.financial_year.localeCompare(a.financial_year) ||
+      Number(!!b.company_id) - Number(!!a.company_id) ||
+      b.version - a.version
+    );
+  return candidates[0] || null;
+}
+
+/**
+ * Annual tax on taxable income: slab tax, less the section 87A rebate, plus cess
+ */
+export function calculateAnnualTax(taxableIncome: number, config: TaxSlabConfig): number {
+  const income = Math.max(0, taxableIncome);
+  let tax = [...config.slabs]
+    .sort((a, b) => a.from - b.from)
+    .reduce((sum, slab) => {
+      const upper = slab.to === null ? income : Math.min(income, slab.to);
+      return sum + Math.max(0, upper - slab.from) * slab.rate / 100;
+    }, 0);
+
+  if (config.rebate_limit > 0 && income <= config.rebate_limit) {
+    tax = Math.max(0, tax - config.rebate_amount);
+  }
+
+  return Math.round(tax * (1 + config.cess_percentage / 100));
+}
+
+export interface AnnualIncome {
+  gross: number;
+  /** Basic + DA, used for the HRA exemption */
+  basic: number;
+  hra: number;
+  providentFund: number;
+  professionalTax: number;
+}
+
+/**
+ * HRA exemption: the least of HRA received, rent paid over 10% of basic, and
+ * 50% (metro) or 40% of basic
+ */
+export function calculateHraExemption(
+  income: AnnualIncome,
+  declaration: Pick<TaxDeclaration, 'hra_rent_paid' | 'metro_city'>
+): number {
+  if (income.hra <= 0 || declaration.hra_rent_paid <= 0) return 0;
+  return Math.max(0, Math.min(
+    income.hra,
+    declaration.hra_rent_paid - income.basic * 0.1,
+    income.basic * (declaration.metro_city ? 0.5 : 0.4)
+  ));
+}
+
+/**
+ * Taxable income after the deductions allowed under the regime. The new regime
+ * only allows the standard deduction.
+ */
+export function calculateTaxableIncome(
+  income: AnnualIncome,
+  config: TaxSlabConfig,
+  declaration?: Pick<TaxDeclaration, 'section_80c' | 'section_80d' | 'hra_rent_paid' | 'metro_city'> | null
+): number {
+  let deductions = config.standard_deduction;
+
+  if (config.regime === 'old') {
+    deductions += income.professionalTax;
+    deductions += Math.min(SECTION_80C_LIMIT, income.providentFund + Number(declaration?.section_80c || 0));
+    if (declaration) {
+      deductions += Math.min(SECTION_80D_LIMIT, Number(declaration.section_80d || 0));
+      deductions += calculateHraExemption(income, declaration);
+    }
+  }
+
+  return Math.max(0, Math.round(income.gross - deductions));
+}
+
+/**
+ * Monthly TDS: tax still owed for the year spread evenly over the remaining months
+ */
+export function calculateMonthlyTds(annualTax: number, tdsDeducted: number, monthsRemaining: number): number {
+  if (monthsRemaining <= 0) return 0;
+  return Math.max(0, Math.round((annualTax - tdsDeducted) / monthsRemaining));
+}
+
+/**
+ * Professional tax for a month from the work state's slabs. Gross is rounded
+ * to whole rupees because slab bounds are inclusive integers.
+ */
+export function calculateProfessionalTax(slabs: ProfessionalTaxSlab[], monthlyGross: number, month: number): number {
+  const gross = Math.round(monthlyGross);
+  const slab = slabs.find(s =>
+    gross >= Number(s.min_salary) && (s.max_salary === null || gross <= Number(s.max_salary))
+  );
+  if (!slab) return 0;
+  return Number(month === 2 && slab.february_amount !== null ? slab.february_amount : slab.amount);
+}
@@ -0,0 +1,105 @@
+// src/lib/teamCalendar.ts
+/**
+ * Team leave calendar
+ * Who is off on each day of a range, from the approved and pending leave of a
+ * manager's reports or a department, and whether approving another request
+ * would leave a department below its minimum staffing. Weekly offs and
+ * holidays are nobody's leave and never count against staffing.
+ * Pure functions; persistence lives in teamCalendarService.
+ */
+
+import { TeamLeave } from '@/types/hrms';
+import { BusinessCalendar, isWorkingDay } from './businessCalendar';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Leave that takes someone off the floor once approved; a cancellation is not final until approved */
+const BOOKED_STATUSES = ['approved', 'cancellation_requested'];
+
+export interface TeamLeaveDay {
+  date: string;
+  /** Booked leave covering the day, approved first */
+  leaves: TeamLeave[];
+  /** People off on approved leave; half-days count as 0.5 */
+  absent: number;
+  /** People off if every pending request were approved too */
+  absentIfApproved: number;
+}
+
+export interface StaffingBreach {
+  date: string;
+  /** Members at work on the day if the request is approved */
+  present: number;
+  required: number;
+}
+
+function toUtcDay(value: string): number {
+  const [y, m, d] = value.slice(0, 10).split('-').map(Number);
+  return Date.UTC(y, m - 1, d);
+}
+
+const toDateString = (day: number) => new Date(day).toISOString().slice(0, 10);
+
+export const isBookedLeave = (leave: Pick<TeamLeave, 'status'>) => BOOKED_STATUSES.includes(leave.status);
+
+const leaveWeight = (leave: Pick<TeamLeave, 'half_day'>) => (leave.half_day ? 0.5 : 1);
+
+const coversDate = (leave: Pick<TeamLeave, 'start_date' | 'end_date'>, date: string) =>
+  leave.start_date <= date && leave.end_date >= date;
+
+/**
+ * Leave on each working day between two YYYY-MM-DD dates, inclusive. Each
+ * person counts once per day even with overlapping requests.
+ */
+export function buildTeamLeaveDays(
+  calendar: BusinessCalendar,
+  leaves: TeamLeave[],
+  startDate: string,
+  endDate: string
+): TeamLeaveDay[] {
+  const days: TeamLeaveDay[] = [];
+  for (let day = toUtcDay(startDate); day <= toUtcDay(endDate); day += DAY_MS) {
+    const date = toDateString(day);
+    if (!isWorkingDay(calendar, date)) continue;
+
+    const onDay = leaves
+      .filter(l => coversDate(l, date) && (isBookedLeave(l) || l.status === 'pending'))
+      .sort((a, b) => Number(isBookedLeave(b)) - Number(isBookedLeave(a)));
+    days.push({
+      date,
+      leaves: onDay,
+      absent: countAbsent(onDay.filter(isBookedLeave)),
+      absentIfApproved: countAbsent(onDay),
+    });
+  }
+  return days;
+}
+
+function countAbsent(leaves: TeamLeave[]): number {
+  const byUser = new Map<string, number>();
+  for (const leave of leaves) {
+    byUser.set(leave.user_id, Math.max(byUser.get(leave.user_id) || 0, leaveWeight(leave)));
+  }
+  return [...byUser.values()].reduce((sum, weight) => sum + weight, 0);
+}
+
+/**
+ * Working days of a request on which approving it would leave fewer than
+ * `minPresent` of the department's `headcount` at work, counting only leave
+ * already approved. Other pending requests are not held against it.
+ */
+export function findStaffingBreaches(
+  calendar: BusinessCalendar,
+  request: TeamLeave,
+  departmentLeaves: TeamLeave[],
+  headcount: number,
+  minPresent: number
+): StaffingBreach[] {
+  const others = departmentLeaves.filter(
+    l => l.leave_request_id !== request.leave_request_id && isBookedLeave(l)
+  );
+
+  return buildTeamLeaveDays(calendar, [...others, { ...request, status: 'approved' }], request.start_date, request.end_date)
+    .map(day => ({ date: day.date, present: headcount - day.absent, required: minPresent }))
+    .filter(day => day.present < day.required);
+}
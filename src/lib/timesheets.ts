@@ -0,0 +1,176 @@
+// src/lib/timesheets.ts
+/**
+ * Timesheets
+ * Employees log their attended hours against projects and tasks, a week at a
+ * time starting on Monday. A day's entries cannot add up to more than the
+ * hours attended that day. The week is submitted to their manager, and once
+ * approved its billable hours count towards utilization. Dates are
+ * YYYY-MM-DD strings.
+ */
+
+import { format } from 'date-fns';
+import { addDaysToDate } from '@/lib/timezone';
+import { TimesheetEntry, TimesheetStatus } from '@/types/hrms';
+
+export const TIMESHEET_STATUS_LABELS: Record<TimesheetStatus, string> = {
+  draft: 'Draft',
+  submitted: 'Awaiting approval',
+  approved: 'Approved',
+  rejected: 'Rejected',
+};
+
+/** Weeks in these states can still be edited and submitted */
+export const OPEN_TIMESHEET_STATUSES: TimesheetStatus[] = ['draft', 'rejected'];
+
+/**
+ * The Monday of the week a date falls in
+ */
+export function getWeekStart(date: string): string {
+  const [y, m, d] = date.split('-').map(Number);
+  const isoDay = new Date(Date.UTC(y, m - 1, d)).getUTCDay() || 7;
+  return addDaysToDate(date, 1 - isoDay);
+}
+
+export function getWeekDates(weekStart: string): string[] {
+  return Array.from({ length: 7 }, (_, i) => addDaysToDate(weekStart, i));
+}
+
+/**
+ * A date formatted as the calendar day it names, whatever the browser's timezone
+ */
+export const formatDay = (date: string, pattern: string) => format(new Date(`${date}T00:00:00`), pattern);
+
+/**
+ * Minutes from hours as typed, such as 1.5 or 1:30; null when unreadable
+ */
+export function parseDuration(value: string): number | null {
+  const text = value.trim();
+  const clock = text.match(/^(\d{1,2}):([0-5]\d)$/);
+  if (clock) return Number(clock[1]) * 60 + Number(clock[2]);
+  if (!/^\d+(\.\d+)?$/.test(text)) return null;
+  return Math.round(Number(text) * 60);
+}
+
+/**
+ * Minutes logged per day of a set of entries
+ */
+export function sumMinutesByDate(entries: Pick<TimesheetEntry, 'work_date' | 'minutes'>[]): Record<string, number> {
+  return entries.reduce<Record<string, number>>((totals, entry) => {
+    totals[entry.work_date] = (totals[entry.work_date] || 0) + entry.minutes;
+    return totals;
+  }, {});
+}
+
+export interface UtilizationRow {
+  /** The employee's user id, or the department id; null for no department */
+  id: string | null;
+  name: string;
+  department: string;
+  /** Employees counted in the row: one for an employee */
+  headcount: number;
+  attendedMinutes: number;
+  billableMinutes: number;
+  nonBillableMinutes: number;
+  /** Billable share of attended time, as a percentage; null without attendance */
+  utilization: number | null;
+}
+
+export interface UtilizationReport {
+  startDate: string;
+  endDate: string;
+  employees: UtilizationRow[];
+  departments: UtilizationRow[];
+  total: UtilizationRow;
+}
+
+export interface UtilizationMember {
+  user_id: string;
+  first_name: string;
+  last_name: string;
+  department_id: string | null;
+}
+
+const NO_DEPARTMENT = 'No department';
+
+const utilizationOf = (billable: number, attended: number) =>
+  attended > 0 ? Math.round((billable / attended) * 1000) / 10 : null;
+
+function combineRows(id: string | null, name: string, department: string, rows: UtilizationRow[]): UtilizationRow {
+  const attendedMinutes = rows.reduce((sum, r) => sum + r.attendedMinutes, 0);
+  const billableMinutes = rows.reduce((sum, r) => sum + r.billableMinutes, 0);
+  return {
+    id,
+    name,
+    department,
+    headcount: rows.reduce((sum, r) => sum + r.headcount, 0),
+    attendedMinutes,
+    billableMinutes,
+    nonBillableMinutes: rows.reduce((sum, r) => sum + r.nonBillableMinutes, 0),
+    utilization: utilizationOf(billableMinutes, attendedMinutes),
+  };
+}
+
+/**
+ * Billable and non-billable hours against attended hours, per employee and
+ * per department. Employees who neither attended nor logged time are left out.
+ */
+export function summarizeUtilization(
+  startDate: string,
+  endDate: string,
+  members: UtilizationMember[],
+  departments: { id: string; name: string }[],
+  attended: { user_id: string; worked_minutes: number }[],
+  entries: Pick<TimesheetEntry, 'user_id' | 'minutes' | 'is_billable'>[]
+): UtilizationReport {
+  const departmentNames = new Map(departments.map(d => [d.id, d.name]));
+  const rows = new Map<string, UtilizationRow>();
+  const rowFor = (userId: string) => {
+    let row = rows.get(userId);
+    if (!row) {
+      const member = members.find(m => m.user_id === userId);
+      row = {
+        id: userId,
+        name: member ? `${member.first_name} ${member.last_name}` : 'Unknown',
+        department: (member?.department_id && departmentNames.get(member.department_id)) || NO_DEPARTMENT,
+        headcount: 1,
+        attendedMinutes: 0,
+        billableMinutes: 0,
+        nonBillableMinutes: 0,
+        utilization: null,
+      };
+      rows.set(userId, row);
+    }
+    return row;
+  };
+
+  attended.forEach(day => {
+    rowFor(day.user_id).attendedMinutes += day.worked_minutes;
+  });
+  entries.forEach(entry => {
+    const row = rowFor(entry.user_id);
+    if (entry.is_billable) row.billableMinutes += entry.minutes;
+    else row.nonBillableMinutes += entry.minutes;
+  });
+
+  const employees = [...rows.values()]
+    .filter(r => r.attendedMinutes > 0 || r.billableMinutes > 0 || r.nonBillableMinutes > 0)
+    .map(r => ({ ...r, utilization: utilizationOf(r.billableMinutes, r.attendedMinutes) }))
+    .sort((a, b) => a.department.localeCompare(b.department) || a.name.localeCompare(b.name));
+
+  const byDepartment = new Map<string, UtilizationRow[]>();
+  employees.forEach(r => byDepartment.set(r.department, [...(byDepartment.get(r.department) || []), r]));
+  const departmentRows = [...byDepartment.entries()]
+    .map(([name, members]) => {
+      const id = departments.find(d => d.name === name)?.id || null;
+      return combineRows(id, name, name, members);
+    })
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  return {
+    startDate,
+    endDate,
+    employees,
+    departments: departmentRows,
+    total: combineRows(null, 'All employees', '', employees),
+  };
+}
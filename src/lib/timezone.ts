@@ -0,0 +1,128 @@
+// src/lib/timezone.ts
+/**
+ * Work-day timezones
+ * Attendance is bucketed into days in the employee's timezone: their own for
+ * remote employees who carry one, otherwise the company's, and UTC when
+ * neither is set. `attendance_timezone` resolves the same in the database.
+ * Dates are YYYY-MM-DD strings.
+ */
+
+export const DEFAULT_TIME_ZONE = 'UTC';
+
+/** Offered when the browser cannot list its timezones */
+const COMMON_TIME_ZONES = [
+  'UTC',
+  'Asia/Kolkata',
+  'Asia/Dubai',
+  'Asia/Singapore',
+  'Asia/Tokyo',
+  'Australia/Sydney',
+  'Europe/London',
+  'Europe/Berlin',
+  'America/New_York',
+  'America/Chicago',
+  'America/Denver',
+  'America/Los_Angeles',
+];
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The first valid timezone of the employee's and the company's, or UTC
+ */
+export function resolveTimeZone(...candidates: Array<string | null | undefined>): string {
+  return candidates.find((tz): tz is string => !!tz && isValidTimeZone(tz)) || DEFAULT_TIME_ZONE;
+}
+
+export function getTimeZoneOptions(): string[] {
+  const supportedValuesOf = (Intl as { supportedValuesOf?: (key: string) => string[] }).supportedValuesOf;
+  const zones = supportedValuesOf ? supportedValuesOf('timeZone') : COMMON_TIME_ZONES;
+  return zones.includes(DEFAULT_TIME_ZONE) ? zones : [DEFAULT_TIME_ZONE, ...zones];
+}
+
+interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+function getZonedParts(at: Date, timeZone: string): ZonedParts {
+  const parts: Record<string, number> = {};
+  getFormatter(timeZone).formatToParts(at).forEach(part => {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  });
+  return parts as unknown as ZonedParts;
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * The calendar date of an instant in a timezone
+ */
+export function getZonedDate(at: Date, timeZone: string): string {
+  const { year, month, day } = getZonedParts(at, timeZone);
+  return `${year}-${pad(month)}-${pad(day)}`;
+}
+
+/**
+ * Minutes since midnight of an instant in a timezone
+ */
+export function getZonedMinutes(at: Date, timeZone: string): number {
+  const { hour, minute } = getZonedParts(at, timeZone);
+  return hour * 60 + minute;
+}
+
+function getOffsetMs(at: Date, timeZone: string): number {
+  const { year, month, day, hour, minute, second } = getZonedParts(at, timeZone);
+  const wall = Date.UTC(year, month - 1, day, hour, minute, second);
+  return wall - Math.floor(at.getTime() / 1000) * 1000;
+}
+
+/**
+ * The instant a wall-clock date and time (HH:mm) occurs in a timezone
+ */
+export function zonedTimeToUtc(date: string, time: string, timeZone: string): Date {
+  const [y, m, d] = date.split('-').map(Number);
+  const [h, min] = time.split(':').map(Number);
+  const wall = Date.UTC(y, m - 1, d, h, min);
+  const guess = wall - getOffsetMs(new Date(wall), timeZone);
+  return new Date(wall - getOffsetMs(new Date(guess), timeZone));
+}
+
+/**
+ * A date moved by a number of days
+ */
+export function addDaysToDate(date: string, days: number): string {
+  const [y, m, d] = date.split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, d + days)).toISOString().slice(0, 10);
+}
@@ -2,49 +2,44 @@ import { useMemo, useState } from 'react';
 import { AppLayout } from '@/components/layout/AppLayout';
 import { AttendanceCalendar } from '@/components/attendance/AttendanceCalendar';
 import { AttendanceActions } from '@/components/attendance/AttendanceActions';
+import { ShiftRoster } from '@/components/attendance/ShiftRoster';
+import { GeofenceReviewQueue } from '@/components/attendance/GeofenceReviewQueue';
+import { RegularizationRequests } from '@/components/attendance/RegularizationRequests';
+import { RegularizationApprovals } from '@/components/attendance/RegularizationApprovals';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Download } from 'lucide-react';
+import { toast } from 'sonner';
 import { useAuth } from '@/contexts/AuthContext';
-import { useAttendance } from '@/hooks/useAttendance';
-import { startOfMonth, endOfMonth, format, isSameDay } from 'date-fns';
+import { useDailySummaries, useExportDailyAttendance } from '@/hooks/useAttendance';
+import { startOfMonth, endOfMonth, format } from 'date-fns';
 import { QueryErrorHandler } from '@/components/QueryErrorHandler';
 import { CardSkeleton } from '@/components/Skeleton';
 import ErrorBoundary from '@/components/ErrorBoundary';
+import { mapDatabaseError } from '@/utils/errorMapper';
 
 export default function Attendance() {
-  const { user } = useAuth();
+  const { user, profile, isAdmin, isManager } = useAuth();
   const now = new Date();
   const monthStart = format(startOfMonth(now), 'yyyy-MM-dd');
   const monthEnd = format(endOfMonth(now), 'yyyy-MM-dd');
+  const exportDaily = useExportDailyAttendance();
 
-  // Fetch attendance sessions
+  // Days of the month, aggregated over their punch segments
   const {
-    data: sessionData,
+    data: summaries = [],
     isLoading: sessionsLoading,
     error: sessionsError,
     refetch: refetchSessions
-  } = useAttendance({
-    userId: user?.id,
-    startDate: monthStart,
-    endDate: monthEnd
-  });
+  } = useDailySummaries(user?.id || null, monthStart, monthEnd);
 
   // Calculate stats efficiently
   const stats = useMemo(() => {
-    const sessions = sessionData?.data || [];
-    
-    const presentCount = sessions.filter(s => s.status === 'present').length;
-    const halfDayCount = sessions.filter(s => s.status === 'half_day').length;
-    const lateCount = sessions.filter(s => s.status === 'late').length;
-    const absentCount = sessions.filter(s => s.status === 'absent').length;
-    
-    let totalHours = 0;
-    sessions.forEach(s => {
-      if (s.sign_out_time) {
-        const start = new Date(s.sign_in_time);
-        const end = new Date(s.sign_out_time);
-        totalHours += (end.getTime() - start.getTime()) / (1000 * 60 * 60);
-      }
-    });
+    const presentCount = summaries.filter(s => s.status === 'present').length;
+    const halfDayCount = summaries.filter(s => s.status === 'half_day').length;
+    const lateCount = summaries.filter(s => s.status === 'late').length;
+    const absentCount = summaries.filter(s => s.status === 'absent').length;
+    const totalHours = summaries.reduce((sum, s) => sum + s.worked_minutes / 60, 0);
 
     return {
       presentDays: presentCount + lateCount,
@@ -52,19 +47,20 @@ export default function Attendance() {
       halfDays: halfDayCount,
       totalHours: Math.round(totalHours * 10) / 10,
     };
-  }, [sessionData?.data]);
-
-  // Find current session
-  const currentSession = useMemo(() => {
-    return (sessionData?.data || []).find((s) =>
-      isSameDay(new Date(s.sign_in_time), now) && !s.sign_out_time
-    ) || null;
-  }, [sessionData?.data]);
+  }, [summaries]);
 
   const handleRefresh = () => {
     refetchSessions();
   };
 
+  const handleExport = async () => {
+    try {
+      await exportDaily.mutateAsync(summaries);
+    } catch (error) {
+      toast.error(mapDatabaseError(error));
+    }
+  };
+
   const isLoading = sessionsLoading;
   const hasError = sessionsError;
 
@@ -92,24 +88,31 @@ export default function Attendance() {
               {isLoading ? (
                 <CardSkeleton />
               ) : (
-                <AttendanceCalendar sessions={sessionData?.data || []} />
+                <AttendanceCalendar userId={user?.id || null} />
               )}
             </div>
             
             {/* Actions and Stats Section */}
             <div className="space-y-6">
-              <AttendanceActions 
-                currentSession={currentSession} 
-                onSessionUpdate={handleRefresh}
-              />
+              <AttendanceActions onSessionUpdate={handleRefresh} />
               
               {/* Monthly Summary Card */}
               {isLoading ? (
                 <CardSkeleton />
               ) : (
                 <Card>
-                  <CardHeader>
+                  <CardHeader className="flex flex-row items-center justify-between">
                     <CardTitle className="text-lg font-semibold">Monthly Summary</CardTitle>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={handleExport}
+                      disabled={summaries.length === 0 || exportDaily.isPending}
+                      title="Export daily hours"
+                    >
+                      <Download className="h-4 w-4" />
+                    </Button>
                   </CardHeader>
                   <CardContent>
                     <div className="space-y-4">
@@ -133,8 +136,21 @@ export default function Attendance() {
                   </CardContent>
                 </Card>
               )}
+
+              <RegularizationRequests />
             </div>
           </div>
+
+          {/* Corrections to decide */}
+          {(isManager || isAdmin) && user && profile?.company_id && (
+            <RegularizationApprovals userId={user.id} companyId={profile.company_id} />
+          )}
+
+          {/* Out-of-fence punches */}
+          {isAdmin && <GeofenceReviewQueue />}
+
+          {/* Shift Roster */}
+          {isManager && <ShiftRoster />}
         </div>
       </AppLayout>
     </ErrorBoundary>
@@ -9,9 +9,9 @@ import { AttendanceActions } from '@/components/attendance/AttendanceActions';
 import { LeaveBalance } from '@/components/leaves/LeaveBalance';
 import { Users, Clock, Calendar, DollarSign, UserCheck, AlertCircle } from 'lucide-react';
 import { useDashboardMetrics, useLeaveAnalytics } from '@/hooks/useAnalytics';
-import { useUserAttendance, useTodayAttendance } from '@/hooks/useAttendance';
+import { useTodayAttendance } from '@/hooks/useAttendance';
 import { useLeaveBalance, usePendingLeaveRequests } from '@/hooks/useLeaves';
-import { AttendanceSession, LeaveRequest, LeaveBalance as LeaveBalanceType } from '@/types/hrms';
+import { LeaveRequest } from '@/types/hrms';
 import { toast } from 'sonner';
 import { Skeleton, CardSkeleton } from '@/components/Skeleton';
 import QueryErrorHandler from '@/components/QueryErrorHandler';
@@ -25,19 +25,13 @@ export default function Dashboard() {
   const { data: metrics, isLoading: metricsLoading, error: metricsError } = useDashboardMetrics(company?.id || null);
   
   // Fetch today's attendance for live updates
-  const { data: todayAttendance, isLoading: attendanceLoading } = useTodayAttendance();
+  const { data: todayAttendance, isLoading: attendanceLoading } = useTodayAttendance(company?.id || null);
   
   // Fetch user's leave balance
   const { data: leaveBalance, isLoading: leaveBalanceLoading } = useLeaveBalance(user?.id || null);
   
-  // Fetch pending leave requests (for managers)
-  const { data: pendingLeaves, isLoading: pendingLoading } = usePendingLeaveRequests();
-  
-  // Fetch user's attendance history
-  const { data: userAttendance } = useUserAttendance(user?.id || null, 30);
-
-  // Get current session from user's attendance
-  const currentSession = userAttendance?.[0] || null;
+  // Fetch leave requests waiting on this user's approval
+  const { data: pendingLeaves, isLoading: pendingLoading } = usePendingLeaveRequests(user?.id || null, company?.id || null);
 
   useEffect(() => {
     if (metricsError) setErrorState(metricsError as Error);
@@ -127,12 +121,9 @@ export default function Dashboard() {
           <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
             <div className="lg:col-span-2 space-y-6">
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                <AttendanceActions 
-                  currentSession={currentSession as AttendanceSession | null | undefined}
-                  onSessionUpdate={() => {}}
-                />
+                <AttendanceActions onSessionUpdate={() => {}} />
                 {leaveBalanceLoading ? <CardSkeleton /> : (
-                  <LeaveBalance balance={leaveBalance} />
+                  <LeaveBalance balances={leaveBalance} />
                 )}
               </div>
             </div>
@@ -13,16 +13,22 @@ import { format } from 'date-fns';
 import { useAuth } from '@/contexts/AuthContext';
 import { EditEmployeeDialog } from '@/components/employees/EditEmployeeDialog';
 import { AddAttendanceDialog } from '@/components/employees/AddAttendanceDialog';
+import { LeaveBalance } from '@/components/leaves/LeaveBalance';
+import { LeaveLedgerDialog } from '@/components/leaves/LeaveLedgerDialog';
+import { OnboardingProgress } from '@/components/onboarding/OnboardingProgress';
+import { useLeaveBalance } from '@/hooks/useLeaves';
 
 export default function EmployeeProfile() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
-  const { isAdmin, role: currentUserRole } = useAuth();
+  const { user, isAdmin, role: currentUserRole } = useAuth();
   const [profile, setProfile] = useState<Profile | null>(null);
   const [role, setRole] = useState<string>('employee');
   const [loading, setLoading] = useState(true);
   const [editDialogOpen, setEditDialogOpen] = useState(false);
   const [attendanceDialogOpen, setAttendanceDialogOpen] = useState(false);
+  const [leaveHistoryOpen, setLeaveHistoryOpen] = useState(false);
+  const { data: leaveBalances } = useLeaveBalance(profile?.user_id || null);
 
   const fetchProfile = async () => {
     if (!id) return;
@@ -225,6 +231,18 @@ export default function EmployeeProfile() {
                       {profile.bank_ifsc || 'Not provided'}
                     </p>
                   </div>
+                  <div>
+                    <p className="text-sm text-muted-foreground">UAN (PF)</p>
+                    <p className="font-medium text-foreground">
+                      {profile.uan || 'Not provided'}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-sm text-muted-foreground">ESIC IP Number</p>
+                    <p className="font-medium text-foreground">
+                      {profile.esic_ip_number || 'Not provided'}
+                    </p>
+                  </div>
                 </div>
               </CardContent>
             </Card>
@@ -253,6 +271,10 @@ export default function EmployeeProfile() {
                 </div>
               </CardContent>
             </Card>
+
+            {user && <OnboardingProgress profile={profile} userId={user.id} isAdmin={isAdmin} />}
+
+            <LeaveBalance balances={leaveBalances} onViewHistory={() => setLeaveHistoryOpen(true)} />
           </div>
         </div>
       </div>
@@ -274,6 +296,17 @@ export default function EmployeeProfile() {
           onSuccess={fetchProfile}
         />
       )}
+
+      {profile && (
+        <LeaveLedgerDialog
+          open={leaveHistoryOpen}
+          onOpenChange={setLeaveHistoryOpen}
+          userId={profile.user_id}
+          companyId={profile.company_id}
+          employeeName={`${profile.first_name} ${profile.last_name}`}
+          canAdjust={isAdmin}
+        />
+      )}
     </AppLayout>
   );
 }
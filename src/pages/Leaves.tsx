@@ -2,25 +2,55 @@ import { useEffect, useState } from 'react';
 import { AppLayout } from '@/components/layout/AppLayout';
 import { LeaveRequestForm } from '@/components/leaves/LeaveRequestForm';
 import { LeaveBalance } from '@/components/leaves/LeaveBalance';
+import { LeaveLedgerDialog } from '@/components/leaves/LeaveLedgerDialog';
+import { ApprovalDelegationDialog } from '@/components/leaves/ApprovalDelegationDialog';
+import { ModifyLeaveDialog } from '@/components/leaves/ModifyLeaveDialog';
+import { ApproveLeaveDialog } from '@/components/leaves/ApproveLeaveDialog';
+import { TeamLeaveCalendar } from '@/components/leaves/TeamLeaveCalendar';
+import { CompOffApprovals } from '@/components/leaves/CompOffApprovals';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
-import { Check, X, Undo2 } from 'lucide-react';
+import { Check, X, Undo2, Paperclip, UserCheck, AlertTriangle, Ban, CalendarRange } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
-import { LeaveRequest, LeaveBalance as LeaveBalanceType } from '@/types/hrms';
+import { useCompany } from '@/contexts/CompanyContext';
+import { LeaveApproval, LeaveRequest } from '@/types/hrms';
+import { useApproveLeaveRequest, useCancelLeaveRequest, useLeaveBalance, useRejectLeaveRequest } from '@/hooks/useLeaves';
+import { useLeaveTypes } from '@/hooks/useLeaveTypes';
+import { useLeaveApprovalInbox, useRequestApprovals } from '@/hooks/useLeaveApprovals';
+import { isApprovalOverdue, LEAVE_APPROVER_LABELS } from '@/lib/leaveApproval';
+import { leaveService } from '@/services/leaveService';
+import { getLeaveTypeName } from '@/lib/leaveTypes';
+import { LEAVE_HALF_LABELS } from '@/lib/businessCalendar';
+import { mapDatabaseError } from '@/utils/errorMapper';
 import { format } from 'date-fns';
 import { toast } from 'sonner';
 
 export default function Leaves() {
   const { user, profile, isAdmin, isManager } = useAuth();
+  const { company } = useCompany();
+  const { data: leaveTypes = [] } = useLeaveTypes(company?.id || null);
   const [myRequests, setMyRequests] = useState<LeaveRequest[]>([]);
   const [teamRequests, setTeamRequests] = useState<LeaveRequest[]>([]);
-  const [balance, setBalance] = useState<LeaveBalanceType | null>(null);
+  const { data: balances } = useLeaveBalance(user?.id || null);
+  const approveLeave = useApproveLeaveRequest();
+  const rejectLeave = useRejectLeaveRequest();
+  const cancelLeave = useCancelLeaveRequest();
+  const { data: inbox = [], isLoading: inboxLoading } = useLeaveApprovalInbox(user?.id || null, company?.id || null);
+  const { data: myApprovals = [] } = useRequestApprovals(
+    myRequests.filter(r => r.status === 'pending' || r.status === 'cancellation_requested').map(r => r.id)
+  );
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [delegationOpen, setDelegationOpen] = useState(false);
+  const [modifying, setModifying] = useState<LeaveRequest | null>(null);
+  const [cancelling, setCancelling] = useState<LeaveRequest | null>(null);
+  const [approving, setApproving] = useState<LeaveRequest | null>(null);
+  const [cancellationReason, setCancellationReason] = useState('');
   const [loading, setLoading] = useState(true);
   const [rejectDialogOpen, setRejectDialogOpen] = useState(false);
   const [selectedRequest, setSelectedRequest] = useState<LeaveRequest | null>(null);
@@ -96,17 +126,6 @@ export default function Leaves() {
           setTeamRequests([]);
         }
       }
-
-      // Fetch balance
-      const { data: balanceData } = await supabase
-        .from('leave_balances')
-        .select('*')
-        .eq('user_id', user.id)
-        .maybeSingle();
-
-      if (balanceData) {
-        setBalance(balanceData as LeaveBalanceType);
-      }
     } catch (error) {
       console.error('Error fetching leave data:', error);
     } finally {
@@ -119,52 +138,21 @@ export default function Leaves() {
   }, [user, isAdmin, isManager]);
 
   const handleApprove = async (request: LeaveRequest) => {
-    try {
-      // Calculate number of leave days
-      const startDate = new Date(request.start_date);
-      const endDate = new Date(request.end_date);
-      const diffTime = Math.abs(endDate.getTime() - startDate.getTime());
-      const leaveDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24)) + 1;
-
-      // Update leave request status
-      const { error: updateError } = await supabase
-        .from('leave_requests')
-        .update({
-          status: 'approved',
-          approved_by: user?.id,
-          approved_at: new Date().toISOString(),
-        })
-        .eq('id', request.id);
-
-      if (updateError) throw updateError;
-
-      // Deduct from leave balance (only for casual, sick, paid leaves)
-      if (request.leave_type !== 'unpaid') {
-        const leaveTypeColumn = `${request.leave_type}_leave` as 'casual_leave' | 'sick_leave' | 'paid_leave';
-        
-        // Get current balance
-        const { data: balanceData } = await supabase
-          .from('leave_balances')
-          .select('*')
-          .eq('user_id', request.user_id)
-          .maybeSingle();
-
-        if (balanceData) {
-          const currentBalance = Number(balanceData[leaveTypeColumn] || 0);
-          const newBalance = Math.max(0, currentBalance - leaveDays);
-
-          await supabase
-            .from('leave_balances')
-            .update({ [leaveTypeColumn]: newBalance })
-            .eq('user_id', request.user_id);
-        }
-      }
+    if (!user) return;
 
-      toast.success('Leave request approved');
+    try {
+      // The last step of the chain debits the leave ledger; unpaid leave has no balance
+      const updated = await approveLeave.mutateAsync({ id: request.id, approvedBy: user.id });
+      toast.success(
+        updated.status === 'approved' ? 'Leave request approved'
+          : updated.status === 'cancelled' ? 'Cancellation approved; the leave is credited back'
+          : 'Approved and passed to the next approver'
+      );
+      setApproving(null);
       fetchData();
     } catch (error) {
       console.error('Error approving leave:', error);
-      toast.error('Failed to approve request');
+      toast.error(mapDatabaseError(error));
     }
   };
 
@@ -175,44 +163,56 @@ export default function Leaves() {
   };
 
   const handleReject = async () => {
-    if (!selectedRequest) return;
+    if (!selectedRequest || !user) return;
 
     try {
-      const { error } = await supabase
-        .from('leave_requests')
-        .update({
-          status: 'rejected',
-          approved_by: user?.id,
-          approved_at: new Date().toISOString(),
-          rejection_reason: rejectionReason || null,
-        })
-        .eq('id', selectedRequest.id);
-
-      if (error) throw error;
-      toast.success('Leave request rejected');
+      await rejectLeave.mutateAsync({ id: selectedRequest.id, rejectedBy: user.id, rejectionReason });
+      toast.success(
+        selectedRequest.status === 'cancellation_requested'
+          ? 'Cancellation declined; the leave stays approved'
+          : 'Leave request rejected'
+      );
       setRejectDialogOpen(false);
       fetchData();
     } catch (error) {
       console.error('Error rejecting leave:', error);
-      toast.error('Failed to reject request');
+      toast.error(mapDatabaseError(error));
     }
   };
 
   const handleWithdraw = async (id: string) => {
-    try {
-      const { error } = await supabase
-        .from('leave_requests')
-        .delete()
-        .eq('id', id)
-        .eq('user_id', user?.id)
-        .eq('status', 'pending');
+    if (!user) return;
 
-      if (error) throw error;
+    try {
+      await cancelLeave.mutateAsync({ id, cancelledBy: user.id });
       toast.success('Leave request withdrawn');
       fetchData();
-    } catch (error: any) {
+    } catch (error) {
       console.error('Error withdrawing leave:', error);
-      toast.error('Failed to withdraw request');
+      toast.error(mapDatabaseError(error));
+    }
+  };
+
+  const openCancelDialog = (request: LeaveRequest) => {
+    setCancelling(request);
+    setCancellationReason('');
+  };
+
+  const handleCancel = async () => {
+    if (!cancelling || !user) return;
+
+    try {
+      const updated = await cancelLeave.mutateAsync({
+        id: cancelling.id,
+        cancelledBy: user.id,
+        reason: cancellationReason.trim() || undefined,
+      });
+      toast.success(updated.status === 'cancelled' ? 'Leave cancelled and credited back' : 'Cancellation sent for approval');
+      setCancelling(null);
+      fetchData();
+    } catch (error) {
+      console.error('Error cancelling leave:', error);
+      toast.error(mapDatabaseError(error));
     }
   };
 
@@ -222,6 +222,10 @@ export default function Leaves() {
         return <Badge className="bg-green-100 text-green-700">Approved</Badge>;
       case 'rejected':
         return <Badge className="bg-red-100 text-red-700">Rejected</Badge>;
+      case 'cancellation_requested':
+        return <Badge className="bg-orange-100 text-orange-700">Cancellation Requested</Badge>;
+      case 'cancelled':
+        return <Badge className="bg-gray-100 text-gray-700">Cancelled</Badge>;
       default:
         return <Badge className="bg-yellow-100 text-yellow-700">Pending</Badge>;
     }
@@ -237,7 +241,55 @@ export default function Leaves() {
     return colors[type] || 'bg-gray-100 text-gray-700';
   };
 
-  const renderRequestCard = (request: LeaveRequest, showActions: boolean, showWithdraw: boolean) => (
+  const handleOpenAttachment = async (path: string) => {
+    try {
+      const url = await leaveService.getAttachmentUrl(path);
+      window.open(url, '_blank', 'noopener,noreferrer');
+    } catch (error) {
+      toast.error(mapDatabaseError(error));
+    }
+  };
+
+  const renderApprovalProgress = (request: LeaveRequest) => {
+    const steps = myApprovals.filter(a => a.leave_request_id === request.id);
+    const current = steps.find(a => a.status === 'pending');
+    if (!current) return null;
+    const open = steps.filter(a => a.kind === current.kind && a.status !== 'escalated' && a.status !== 'cancelled');
+    return (
+      <p className="text-xs text-muted-foreground mt-2">
+        {current.kind === 'cancellation' ? 'Cancellation waiting' : 'Waiting'} on{' '}
+        {LEAVE_APPROVER_LABELS[current.approver_role].toLowerCase()} approval
+        {open.length > 1 && ` (step ${open.indexOf(current) + 1} of ${open.length})`}
+      </p>
+    );
+  };
+
+  const renderApprovalStep = (approval: LeaveApproval) => (
+    <div className="flex items-center gap-2 mt-2 text-xs text-muted-foreground">
+      {approval.kind === 'cancellation' && <Badge variant="outline">Cancellation</Badge>}
+      {approval.leave_request?.modifies_request_id && <Badge variant="outline">Date change</Badge>}
+      <span>{LEAVE_APPROVER_LABELS[approval.approver_role]} approval</span>
+      {approval.delegated_from && <Badge variant="outline">Delegated</Badge>}
+      {isApprovalOverdue(approval, new Date()) ? (
+        <span className="flex items-center gap-1 text-destructive">
+          <AlertTriangle className="h-3 w-3" />
+          Overdue
+        </span>
+      ) : approval.due_at && (
+        <span>due {format(new Date(approval.due_at), 'MMM d, h:mm a')}</span>
+      )}
+    </div>
+  );
+
+  const hasPendingChange = (request: LeaveRequest) =>
+    myRequests.some(r => r.modifies_request_id === request.id && r.status === 'pending');
+
+  const renderRequestCard = (
+    request: LeaveRequest,
+    showActions: boolean,
+    showWithdraw: boolean,
+    approval?: LeaveApproval
+  ) => (
     <div
       key={request.id}
       className="flex items-start justify-between p-4 rounded-lg border border-border"
@@ -250,21 +302,47 @@ export default function Leaves() {
         )}
         <div className="flex items-center gap-2 flex-wrap">
           <Badge className={getLeaveTypeBadge(request.leave_type)}>
-            {request.leave_type}
+            {getLeaveTypeName(leaveTypes, request.leave_type)}
           </Badge>
           {getStatusBadge(request.status)}
           <span className="text-sm text-muted-foreground">
             {format(new Date(request.start_date), 'MMM d, yyyy')} - {format(new Date(request.end_date), 'MMM d, yyyy')}
+            {request.half_day && ` (${LEAVE_HALF_LABELS[request.half_day].toLowerCase()})`}
+            {request.days !== null && ` · ${request.days} working day${Number(request.days) === 1 ? '' : 's'}`}
           </span>
         </div>
         {request.reason && (
           <p className="text-sm text-muted-foreground mt-2">{request.reason}</p>
         )}
+        {request.attachment_path && (
+          <Button
+            variant="link"
+            size="sm"
+            className="h-auto p-0 mt-2"
+            onClick={() => handleOpenAttachment(request.attachment_path!)}
+          >
+            <Paperclip className="h-3.5 w-3.5 mr-1" />
+            Supporting document
+          </Button>
+        )}
+        {showWithdraw && renderApprovalProgress(request)}
+        {approval && renderApprovalStep(approval)}
+        {showWithdraw && request.modifies_request_id && request.status === 'pending' && (
+          <p className="text-xs text-muted-foreground mt-2">Replaces your approved leave once approved</p>
+        )}
+        {showWithdraw && request.status === 'approved' && hasPendingChange(request) && (
+          <p className="text-xs text-muted-foreground mt-2">A change to this leave is waiting for approval</p>
+        )}
         {request.rejection_reason && request.status === 'rejected' && (
           <p className="text-sm text-destructive mt-2">
             <span className="font-medium">Reason:</span> {request.rejection_reason}
           </p>
         )}
+        {request.cancellation_reason && (request.status === 'cancelled' || request.status === 'cancellation_requested') && (
+          <p className="text-sm text-muted-foreground mt-2">
+            <span className="font-medium">Cancellation reason:</span> {request.cancellation_reason}
+          </p>
+        )}
       </div>
       <div className="flex gap-2 ml-4">
         {showWithdraw && request.status === 'pending' && (
@@ -278,13 +356,31 @@ export default function Leaves() {
             Withdraw
           </Button>
         )}
-        {showActions && request.status === 'pending' && (
+        {showWithdraw && request.status === 'approved' && !hasPendingChange(request) && (
+          <>
+            <Button size="sm" variant="outline" onClick={() => setModifying(request)}>
+              <CalendarRange className="h-4 w-4 mr-1" />
+              Change
+            </Button>
+            <Button size="sm" variant="outline" className="text-muted-foreground" onClick={() => openCancelDialog(request)}>
+              <Ban className="h-4 w-4 mr-1" />
+              Cancel
+            </Button>
+          </>
+        )}
+        {!showWithdraw && !showActions && isAdmin && request.status === 'approved' && (
+          <Button size="sm" variant="outline" className="text-muted-foreground" onClick={() => openCancelDialog(request)}>
+            <Ban className="h-4 w-4 mr-1" />
+            Cancel
+          </Button>
+        )}
+        {showActions && (request.status === 'pending' || request.status === 'cancellation_requested') && (
           <>
             <Button
               size="sm"
               variant="ghost"
               className="h-8 w-8 p-0 text-green-600 hover:text-green-700 hover:bg-green-100"
-              onClick={() => handleApprove(request)}
+              onClick={() => setApproving(request)}
             >
               <Check className="h-4 w-4" />
             </Button>
@@ -302,7 +398,7 @@ export default function Leaves() {
     </div>
   );
 
-  const pendingTeamCount = teamRequests.filter(r => r.status === 'pending').length;
+  const showApprovals = isAdmin || isManager || inbox.length > 0;
 
   return (
     <AppLayout>
@@ -317,14 +413,20 @@ export default function Leaves() {
             <Tabs defaultValue="my-requests">
               <TabsList className="mb-4">
                 <TabsTrigger value="my-requests">My Requests</TabsTrigger>
-                {(isAdmin || isManager) && (
-                  <TabsTrigger value="team-requests">
-                    Team Requests
-                    {pendingTeamCount > 0 && (
-                      <Badge className="ml-2 bg-primary text-primary-foreground">{pendingTeamCount}</Badge>
+                {showApprovals && (
+                  <TabsTrigger value="approvals">
+                    Approvals
+                    {inbox.length > 0 && (
+                      <Badge className="ml-2 bg-primary text-primary-foreground">{inbox.length}</Badge>
                     )}
                   </TabsTrigger>
                 )}
+                {(isAdmin || isManager) && (
+                  <TabsTrigger value="team-requests">Team Requests</TabsTrigger>
+                )}
+                {(isAdmin || isManager) && (
+                  <TabsTrigger value="team-calendar">Team Calendar</TabsTrigger>
+                )}
               </TabsList>
 
               <TabsContent value="my-requests">
@@ -346,6 +448,32 @@ export default function Leaves() {
                 </Card>
               </TabsContent>
 
+              {showApprovals && (
+                <TabsContent value="approvals">
+                  <Card>
+                    <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                      <CardTitle className="text-lg font-semibold">Waiting on You</CardTitle>
+                      <Button size="sm" variant="outline" onClick={() => setDelegationOpen(true)}>
+                        <UserCheck className="h-4 w-4 mr-1" />
+                        Delegate
+                      </Button>
+                    </CardHeader>
+                    <CardContent>
+                      {inboxLoading ? (
+                        <p className="text-center py-8 text-muted-foreground">Loading...</p>
+                      ) : inbox.length === 0 ? (
+                        <p className="text-center py-8 text-muted-foreground">Nothing to approve</p>
+                      ) : (
+                        <div className="space-y-4">
+                          {inbox.map((approval) => renderRequestCard(approval.leave_request!, true, false, approval))}
+                        </div>
+                      )}
+                    </CardContent>
+                  </Card>
+                  {user && company && <CompOffApprovals userId={user.id} companyId={company.id} />}
+                </TabsContent>
+              )}
+
               {(isAdmin || isManager) && (
                 <TabsContent value="team-requests">
                   <Card>
@@ -361,23 +489,86 @@ export default function Leaves() {
                         <p className="text-center py-8 text-muted-foreground">No team requests</p>
                       ) : (
                         <div className="space-y-4">
-                          {teamRequests.map((request) => renderRequestCard(request, true, false))}
+                          {teamRequests.map((request) => renderRequestCard(request, false, false))}
                         </div>
                       )}
                     </CardContent>
                   </Card>
                 </TabsContent>
               )}
+
+              {(isAdmin || isManager) && (
+                <TabsContent value="team-calendar">
+                  <TeamLeaveCalendar />
+                </TabsContent>
+              )}
             </Tabs>
           </div>
 
           <div className="space-y-6">
-            <LeaveBalance balance={balance} />
+            <LeaveBalance balances={balances} onViewHistory={() => setHistoryOpen(true)} />
             <LeaveRequestForm onSuccess={fetchData} />
           </div>
         </div>
       </div>
 
+      {user && (
+        <LeaveLedgerDialog open={historyOpen} onOpenChange={setHistoryOpen} userId={user.id} />
+      )}
+
+      {user && company && (
+        <ApprovalDelegationDialog
+          open={delegationOpen}
+          onOpenChange={setDelegationOpen}
+          userId={user.id}
+          companyId={company.id}
+        />
+      )}
+
+      <ModifyLeaveDialog
+        request={modifying}
+        onOpenChange={(open) => !open && setModifying(null)}
+        onSuccess={fetchData}
+      />
+
+      <ApproveLeaveDialog
+        request={approving}
+        companyId={company?.id || null}
+        onOpenChange={(open) => !open && setApproving(null)}
+        onConfirm={handleApprove}
+        isPending={approveLeave.isPending}
+      />
+
+      {/* Cancel Dialog */}
+      <Dialog open={!!cancelling} onOpenChange={(open) => !open && setCancelling(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Cancel Leave</DialogTitle>
+            <DialogDescription>
+              {cancelling?.user_id === user?.id
+                ? 'Your approvers confirm the cancellation; the days are then credited back.'
+                : 'The leave is cancelled now and the days are credited back to the employee.'}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label>Reason (optional)</Label>
+            <Textarea
+              placeholder="Why is this leave being cancelled?"
+              value={cancellationReason}
+              onChange={(e) => setCancellationReason(e.target.value)}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCancelling(null)}>
+              Keep Leave
+            </Button>
+            <Button variant="destructive" onClick={handleCancel} disabled={cancelLeave.isPending}>
+              Cancel Leave
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Reject Dialog */}
       <Dialog open={rejectDialogOpen} onOpenChange={setRejectDialogOpen}>
         <DialogContent>
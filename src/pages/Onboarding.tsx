@@ -0,0 +1,68 @@
+import { AppLayout } from '@/components/layout/AppLayout';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { OnboardingChecklist } from '@/components/onboarding/OnboardingChecklist';
+import { AssignedOnboardingTasks } from '@/components/onboarding/AssignedOnboardingTasks';
+import { ActiveOnboardings } from '@/components/onboarding/ActiveOnboardings';
+import { useAuth } from '@/contexts/AuthContext';
+import { useAttendanceTimeZone } from '@/hooks/useAttendance';
+import { useOnboarding } from '@/hooks/useOnboarding';
+import { summarizeOnboarding } from '@/lib/onboarding';
+import { DEFAULT_TIME_ZONE, getZonedDate } from '@/lib/timezone';
+import ErrorBoundary from '@/components/ErrorBoundary';
+
+export default function Onboarding() {
+  const { user, profile, isAdmin } = useAuth();
+  const companyId = profile?.company_id || null;
+  const { data: onboarding, isLoading } = useOnboarding(user?.id || null);
+  const { data: timeZone } = useAttendanceTimeZone(user?.id || null, companyId);
+  const today = getZonedDate(new Date(), timeZone || DEFAULT_TIME_ZONE);
+  const progress = onboarding ? summarizeOnboarding(onboarding.tasks || [], today) : null;
+
+  return (
+    <ErrorBoundary>
+      <AppLayout>
+        <div className="space-y-6">
+          {/* Header */}
+          <div>
+            <h1 className="text-2xl font-bold text-foreground">Onboarding</h1>
+            <p className="text-muted-foreground mt-1">
+              {isAdmin
+                ? "New hires' checklists and the documents they hand in"
+                : "Your first days' checklist and the documents we need from you"}
+            </p>
+          </div>
+
+          {user && onboarding && progress ? (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg font-semibold">
+                  {onboarding.status === 'completed' ? 'All done, welcome aboard!' : 'Your Checklist'}
+                </CardTitle>
+                <CardDescription>
+                  {progress.done} of {progress.total} tasks done. Upload your ID proof, bank proof and signed
+                  policies as PDFs or photos; HR will verify them.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <Progress value={progress.percent} className="h-2" />
+                <OnboardingChecklist onboarding={onboarding} userId={user.id} isAdmin={isAdmin} today={today} />
+              </CardContent>
+            </Card>
+          ) : !isLoading && !isAdmin && (
+            <Card>
+              <CardContent className="py-8 text-center text-muted-foreground">
+                You have no onboarding checklist.
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Tasks others' onboarding is waiting on */}
+          {user && <AssignedOnboardingTasks userId={user.id} today={today} />}
+
+          {isAdmin && companyId && <ActiveOnboardings companyId={companyId} today={today} />}
+        </div>
+      </AppLayout>
+    </ErrorBoundary>
+  );
+}
@@ -7,14 +7,23 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
 import { useAuth } from '@/contexts/AuthContext';
 import { useCompany } from '@/contexts/CompanyContext';
-import { usePayroll, useProcessPayroll } from '@/hooks/usePayroll';
+import { usePayrollForRun } from '@/hooks/usePayroll';
+import { usePayrollRuns, useStartPayrollRun } from '@/hooks/usePayrollRuns';
 import { useEmployees } from '@/hooks/useEmployees';
-import { DollarSign, TrendingUp, Calendar, Users, Calculator, CheckCircle, AlertCircle } from 'lucide-react';
+import { useDownloadMonthlyPayslips } from '@/hooks/usePayslips';
+import { DollarSign, TrendingUp, Calendar, Users, Calculator, CheckCircle, AlertCircle, Download, Landmark } from 'lucide-react';
 import { ProcessPayrollDialog } from '@/components/payroll/ProcessPayrollDialog';
+import { StatutoryReturnsDialog } from '@/components/payroll/StatutoryReturnsDialog';
+import { PayrollRunPanel } from '@/components/payroll/PayrollRunPanel';
+import { isRunEditable } from '@/services/payrollRunService';
+import { PAYROLL_RUN_STATUS_LABELS, PAYROLL_RUN_TYPE_LABELS } from '@/lib/payrollRuns';
+import { PayrollRun } from '@/types/hrms';
 import { QueryErrorHandler } from '@/components/QueryErrorHandler';
 import { TableSkeleton, CardSkeleton } from '@/components/Skeleton';
 import ErrorBoundary from '@/components/ErrorBoundary';
-import { useState, useMemo as useMemoState } from 'react';
+import { useState, useEffect, useMemo as useMemoState } from 'react';
+import { toast } from 'sonner';
+import { mapDatabaseError } from '@/utils/errorMapper';
 
 export default function Payroll() {
   const { user, profile, isAdmin } = useAuth();
@@ -23,13 +32,31 @@ export default function Payroll() {
   const [selectedYear, setSelectedYear] = useState<string>(`${new Date().getFullYear()}`);
   const [selectedEmployee, setSelectedEmployee] = useState<any | null>(null);
   const [processDialogOpen, setProcessDialogOpen] = useState(false);
+  const [selectedRunId, setSelectedRunId] = useState<string | null>(null);
+  const [statutoryOpen, setStatutoryOpen] = useState(false);
+  const downloadPayslips = useDownloadMonthlyPayslips(company?.id || '');
+  const startRun = useStartPayrollRun(company?.id || '');
+
+  // Runs of the month; the regular run is shown unless another is picked
+  const { data: runs = [], isLoading: runsLoading } = usePayrollRuns(
+    company?.id || null,
+    parseInt(selectedMonth),
+    parseInt(selectedYear)
+  );
+  const selectedRun = runs.find(r => r.id === selectedRunId)
+    || runs.find(r => r.run_type === 'regular')
+    || runs[0]
+    || null;
+  const runEditable = isRunEditable(selectedRun) && selectedRun?.run_type !== 'reversal';
+
+  useEffect(() => {
+    setSelectedRunId(null);
+  }, [selectedMonth, selectedYear]);
 
   // Fetch payroll data
-  const { data: payrollData, isLoading: payrollLoading, error: payrollError, refetch } = usePayroll({
-    month: parseInt(selectedMonth),
-    year: parseInt(selectedYear),
-    limit: 100
-  });
+  const { data: payrollRows, isLoading: payrollLoading, error: payrollError, refetch } = usePayrollForRun(
+    selectedRun?.id || null
+  );
 
   // Fetch all employees
   const { data: employeesData, isLoading: employeesLoading } = useEmployees({ pageSize: 100 });
@@ -41,7 +68,7 @@ export default function Payroll() {
     }
 
     const employees = employeesData.data;
-    const payrolls = payrollData?.data || [];
+    const payrolls = payrollRows || [];
 
     const totalBudget = employees.reduce((sum, emp) => sum + Number(emp.monthly_salary || 0), 0);
     const processedCount = payrolls.filter(p => p.status === 'processed' || p.status === 'paid').length;
@@ -49,7 +76,7 @@ export default function Payroll() {
     const totalPayroll = payrolls.reduce((sum, p) => sum + Number(p.net_salary || 0), 0);
 
     return { totalBudget, processedCount, avgSalary, totalPayroll };
-  }, [employeesData?.data, payrollData?.data]);
+  }, [employeesData?.data, payrollRows]);
 
   const months = [
     'January', 'February', 'March', 'April', 'May', 'June',
@@ -57,7 +84,7 @@ export default function Payroll() {
   ];
 
   const getPayrollForEmployee = (userId: string) => {
-    return (payrollData?.data || []).find(p => p.user_id === userId);
+    return (payrollRows || []).find(p => p.user_id === userId);
   };
 
   const getStatusBadge = (status: string | undefined) => {
@@ -71,7 +98,39 @@ export default function Payroll() {
     }
   };
 
-  const isLoading = payrollLoading || employeesLoading;
+  const isLoading = payrollLoading || employeesLoading || runsLoading;
+
+  const handleStartRun = async () => {
+    try {
+      const run = await startRun.mutateAsync({
+        month: parseInt(selectedMonth),
+        year: parseInt(selectedYear),
+      });
+      setSelectedRunId(run.id);
+    } catch (error) {
+      toast.error(mapDatabaseError(error));
+    }
+  };
+
+  const handleRunCreated = (run: PayrollRun) => {
+    setSelectedRunId(run.id);
+  };
+
+  const handleDownloadPayslips = async () => {
+    try {
+      const count = await downloadPayslips.mutateAsync({
+        month: parseInt(selectedMonth),
+        year: parseInt(selectedYear),
+      });
+      if (count === 0) {
+        toast.info('No processed payroll for this month yet');
+      } else {
+        toast.success(`Downloaded ${count} payslip${count === 1 ? '' : 's'}`);
+      }
+    } catch (error) {
+      toast.error(mapDatabaseError(error));
+    }
+  };
 
   if (!isAdmin) {
     return (
@@ -122,12 +181,58 @@ export default function Payroll() {
                   ))}
                 </SelectContent>
               </Select>
+              {runs.length > 1 && selectedRun && (
+                <Select value={selectedRun.id} onValueChange={setSelectedRunId}>
+                  <SelectTrigger className="w-[200px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {runs.map(run => (
+                      <SelectItem key={run.id} value={run.id}>
+                        {PAYROLL_RUN_TYPE_LABELS[run.run_type]} · {PAYROLL_RUN_STATUS_LABELS[run.status]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              <Button
+                variant="outline"
+                onClick={handleDownloadPayslips}
+                disabled={!company || downloadPayslips.isPending}
+              >
+                <Download className="h-4 w-4 mr-2" />
+                {downloadPayslips.isPending ? 'Preparing...' : 'Payslips (ZIP)'}
+              </Button>
+              <Button variant="outline" onClick={() => setStatutoryOpen(true)} disabled={!company}>
+                <Landmark className="h-4 w-4 mr-2" />
+                PF / ESIC Returns
+              </Button>
             </div>
           </div>
 
           {/* Error Handler */}
           <QueryErrorHandler error={payrollError} onRetry={refetch} />
 
+          {/* Payroll Run */}
+          {selectedRun ? (
+            <PayrollRunPanel run={selectedRun} onRunCreated={handleRunCreated} />
+          ) : !runsLoading && (
+            <Card>
+              <CardContent className="p-6 flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+                <div>
+                  <p className="font-medium text-foreground">No payroll run for this month</p>
+                  <p className="text-sm text-muted-foreground">
+                    Start the regular run to process payroll for {months[parseInt(selectedMonth) - 1]} {selectedYear}.
+                  </p>
+                </div>
+                <Button onClick={handleStartRun} disabled={!company || startRun.isPending}>
+                  <Calculator className="h-4 w-4 mr-2" />
+                  {startRun.isPending ? 'Starting...' : 'Start Payroll Run'}
+                </Button>
+              </CardContent>
+            </Card>
+          )}
+
           {/* Metrics Cards */}
           {isLoading ? (
             <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
@@ -261,6 +366,7 @@ export default function Payroll() {
                           <Button
                             variant="outline"
                             size="sm"
+                            disabled={!runEditable}
                             onClick={() => {
                               setSelectedEmployee(emp);
                               setProcessDialogOpen(true);
@@ -279,13 +385,22 @@ export default function Payroll() {
           </Card>
         </div>
 
-        {selectedEmployee && (
+        {company && (
+          <StatutoryReturnsDialog
+            open={statutoryOpen}
+            onOpenChange={setStatutoryOpen}
+            companyId={company.id}
+            month={parseInt(selectedMonth)}
+            year={parseInt(selectedYear)}
+          />
+        )}
+
+        {selectedEmployee && selectedRun && (
           <ProcessPayrollDialog
             open={processDialogOpen}
             onOpenChange={setProcessDialogOpen}
             employee={selectedEmployee}
-            month={parseInt(selectedMonth)}
-            year={parseInt(selectedYear)}
+            run={selectedRun}
             onSuccess={refetch}
           />
         )}
@@ -0,0 +1,99 @@
+import { AppLayout } from '@/components/layout/AppLayout';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { FileText, Download } from 'lucide-react';
+import { toast } from 'sonner';
+import { useAuth } from '@/contexts/AuthContext';
+import { useMyPayslips, useDownloadPayslip } from '@/hooks/usePayslips';
+import { QueryErrorHandler } from '@/components/QueryErrorHandler';
+import { TableSkeleton } from '@/components/Skeleton';
+import ErrorBoundary from '@/components/ErrorBoundary';
+import { PayslipRow } from '@/services/payslipService';
+import { mapDatabaseError } from '@/utils/errorMapper';
+
+const months = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December'
+];
+
+export default function Payslips() {
+  const { user } = useAuth();
+  const { data: payslips = [], isLoading, error, refetch } = useMyPayslips(user?.id || null);
+  const downloadPayslip = useDownloadPayslip();
+
+  const handleDownload = async (payroll: PayslipRow) => {
+    try {
+      await downloadPayslip.mutateAsync(payroll);
+    } catch (error) {
+      toast.error(mapDatabaseError(error));
+    }
+  };
+
+  return (
+    <ErrorBoundary>
+      <AppLayout>
+        <div className="space-y-6 max-w-4xl mx-auto">
+          <div>
+            <h1 className="text-2xl font-bold text-foreground">My Payslips</h1>
+            <p className="text-muted-foreground mt-1">Download your monthly payslips as PDF</p>
+          </div>
+
+          <QueryErrorHandler error={error} onRetry={refetch} />
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-lg">
+                <FileText className="h-5 w-5" />
+                Payslips
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <TableSkeleton rows={4} />
+              ) : payslips.length === 0 ? (
+                <p className="text-center py-8 text-muted-foreground">
+                  No payslips yet. They appear here once payroll has been approved.
+                </p>
+              ) : (
+                <div className="space-y-3">
+                  {payslips.map((payroll) => (
+                    <div
+                      key={payroll.id}
+                      className="flex items-center justify-between p-4 rounded-lg border border-border hover:bg-accent/50 transition-colors"
+                    >
+                      <div>
+                        <p className="font-medium text-foreground">
+                          {months[payroll.month - 1]} {payroll.year}
+                          {payroll.run?.run_type === 'off_cycle' && ' · Off-cycle'}
+                          {payroll.run?.run_type === 'reversal' && ' · Reversal'}
+                        </p>
+                        <p className="text-sm text-muted-foreground">
+                          Net pay ₹{Number(payroll.net_salary || 0).toLocaleString()}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-4">
+                        <Badge className={payroll.status === 'paid' ? 'bg-green-100 text-green-700' : 'bg-blue-100 text-blue-700'}>
+                          {payroll.status === 'paid' ? 'Paid' : 'Processed'}
+                        </Badge>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleDownload(payroll)}
+                          disabled={downloadPayslip.isPending}
+                        >
+                          <Download className="h-4 w-4 mr-1" />
+                          PDF
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </AppLayout>
+    </ErrorBoundary>
+  );
+}
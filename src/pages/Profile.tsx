@@ -10,6 +10,7 @@ import { Textarea } from '@/components/ui/textarea';
 import { Separator } from '@/components/ui/separator';
 import { Mail, Phone, MapPin, Building2, Calendar, CreditCard, Save } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
+import { TaxDeclarationCard } from '@/components/payroll/TaxDeclarationCard';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
 import { format } from 'date-fns';
@@ -241,6 +242,8 @@ export default function Profile() {
                 </div>
               </CardContent>
             </Card>
+
+            <TaxDeclarationCard profile={profile} />
           </div>
         </div>
       </div>
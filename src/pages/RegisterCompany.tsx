@@ -9,6 +9,8 @@ import { supabase } from '@/integrations/supabase/client';
 import { useCompany } from '@/contexts/CompanyContext';
 import { toast } from 'sonner';
 import { z } from 'zod';
+import { DEFAULT_LEAVE_POLICIES } from '@/lib/leavePolicy';
+import { DEFAULT_LEAVE_TYPES } from '@/lib/leaveTypes';
 
 const registerSchema = z.object({
   companyName: z.string().min(2, 'Company name must be at least 2 characters').max(100),
@@ -130,16 +132,27 @@ const RegisterCompany = () => {
 
         if (roleError) throw roleError;
 
-        // Create leave balance
+        // Default leave types, then their policies; balances accrue from these
+        const { error: leaveTypeError } = await supabase
+          .from('leave_types')
+          .insert(DEFAULT_LEAVE_TYPES.map(type => ({
+            ...type,
+            company_id: newCompany.id,
+          })));
+
+        if (leaveTypeError) {
+          console.error('Leave type creation error:', leaveTypeError);
+        }
+
         const { error: leaveError } = await supabase
-          .from('leave_balances')
-          .insert({
-            user_id: authData.user.id,
+          .from('leave_policies')
+          .insert(DEFAULT_LEAVE_POLICIES.map(policy => ({
+            ...policy,
             company_id: newCompany.id,
-          });
+          })));
 
         if (leaveError) {
-          console.error('Leave balance creation error:', leaveError);
+          console.error('Leave policy creation error:', leaveError);
         }
 
         // Set the company in context
@@ -7,13 +7,28 @@ import { Switch } from '@/components/ui/switch';
 import { Button } from '@/components/ui/button';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
+import { useCompany } from '@/contexts/CompanyContext';
 import { toast } from 'sonner';
 import { Settings2, Shield, Clock, Plus, Trash2, Calculator } from 'lucide-react';
 import { HolidayCalendar } from '@/components/settings/HolidayCalendar';
+import { SalaryStructureManager } from '@/components/settings/SalaryStructureManager';
+import { ProfessionalTaxSlabManager } from '@/components/settings/ProfessionalTaxSlabManager';
+import { LeaveTypeManager } from '@/components/settings/LeaveTypeManager';
+import { LeavePolicyManager } from '@/components/settings/LeavePolicyManager';
+import { LeaveApprovalSettings } from '@/components/settings/LeaveApprovalSettings';
+import { StaffingRuleManager } from '@/components/settings/StaffingRuleManager';
+import { CompOffSettings } from '@/components/settings/CompOffSettings';
+import { AttendanceRulesSettings } from '@/components/settings/AttendanceRulesSettings';
+import { GeofenceSettings } from '@/components/settings/GeofenceSettings';
+import { OnboardingTemplateManager } from '@/components/settings/OnboardingTemplateManager';
 import { z } from 'zod';
 import { QueryErrorHandler } from '@/components/QueryErrorHandler';
 import { CardSkeleton } from '@/components/Skeleton';
 import ErrorBoundary from '@/components/ErrorBoundary';
+import { PayrollConfig } from '@/types/hrms';
+import { usePayrollConfig, useUpdatePayrollConfig } from '@/hooks/useSettings';
+import { DEFAULT_PAYROLL_CONFIG } from '@/lib/payrollEngine';
+import { formatShiftTime } from '@/lib/shiftRoster';
 
 // Validation schema for work sessions
 const sessionSchema = z.object({
@@ -21,62 +36,27 @@ const sessionSchema = z.object({
   start_time: z.string().regex(/^([01]\d|2[0-3]):([0-5]\d)$/, 'Invalid start time format'),
   end_time: z.string().regex(/^([01]\d|2[0-3]):([0-5]\d)$/, 'Invalid end time format'),
 }).refine(
-  (data) => data.start_time < data.end_time,
-  { message: 'End time must be after start time' }
+  // An end before the start is an overnight shift
+  (data) => data.start_time !== data.end_time,
+  { message: 'End time must differ from start time' }
 );
 
-interface PayrollConfig {
-  pf_enabled: boolean;
-  pf_percentage: number;
-  esic_enabled: boolean;
-  esic_percentage: number;
-  epf_enabled: boolean;
-  epf_percentage: number;
-  pt_enabled: boolean;
-  pt_amount: number;
-}
-
 export default function Settings() {
   const { role } = useAuth();
-  const [loading, setLoading] = useState(true);
-  const [saving, setSaving] = useState(false);
+  const { company } = useCompany();
+  const { data: payrollConfig, isLoading: loading, error, refetch: refetchPayrollConfig } = usePayrollConfig(company?.id || null);
+  const updatePayrollConfig = useUpdatePayrollConfig(company?.id || '');
   const [workSessions, setWorkSessions] = useState<any[]>([]);
   const [newSession, setNewSession] = useState({ name: '', start_time: '09:00', end_time: '18:00' });
-  const [config, setConfig] = useState<PayrollConfig>({
-    pf_enabled: false,
-    pf_percentage: 12,
-    esic_enabled: false,
-    esic_percentage: 0.75,
-    epf_enabled: false,
-    epf_percentage: 12,
-    pt_enabled: false,
-    pt_amount: 200,
-  });
-  const [error, setError] = useState<Error | null>(null);
+  const [config, setConfig] = useState<PayrollConfig>(DEFAULT_PAYROLL_CONFIG);
 
   useEffect(() => {
-    fetchSettings();
     fetchWorkSessions();
   }, []);
 
-  const fetchSettings = async () => {
-    try {
-      const { data } = await supabase
-        .from('company_settings')
-        .select('*')
-        .eq('setting_key', 'payroll_config')
-        .maybeSingle();
-
-      if (data?.setting_value) {
-        setConfig(prev => ({ ...prev, ...(data.setting_value as unknown as PayrollConfig) }));
-      }
-    } catch (error) {
-      console.error('Error fetching settings:', error);
-      setError(error as Error);
-    } finally {
-      setLoading(false);
-    }
-  };
+  useEffect(() => {
+    if (payrollConfig) setConfig(payrollConfig);
+  }, [payrollConfig]);
 
   const fetchWorkSessions = async () => {
     try {
@@ -101,6 +81,7 @@ export default function Settings() {
 
     try {
       const { error } = await supabase.from('work_sessions').insert([{
+        company_id: company?.id,
         name: newSession.name.trim(),
         start_time: newSession.start_time,
         end_time: newSession.end_time,
@@ -134,43 +115,14 @@ export default function Settings() {
       return;
     }
 
-    setSaving(true);
+    if (!company?.id) return;
+
     try {
-      // Check if setting exists
-      const { data: existing } = await supabase
-        .from('company_settings')
-        .select('id')
-        .eq('setting_key', 'payroll_config')
-        .maybeSingle();
-
-      const jsonValue = JSON.parse(JSON.stringify(config));
-
-      if (existing) {
-        const { error } = await supabase
-          .from('company_settings')
-          .update({
-            setting_value: jsonValue,
-            updated_at: new Date().toISOString(),
-          })
-          .eq('setting_key', 'payroll_config');
-        if (error) throw error;
-      } else {
-        const { error } = await supabase
-          .from('company_settings')
-          .insert([{
-            setting_key: 'payroll_config',
-            setting_value: jsonValue,
-          }]);
-        if (error) throw error;
-      }
-      
+      await updatePayrollConfig.mutateAsync(config);
       toast.success('Settings saved successfully');
-      fetchSettings();
     } catch (error: any) {
       console.error('Error saving settings:', error);
       toast.error(error.message || 'Failed to save settings');
-    } finally {
-      setSaving(false);
     }
   };
 
@@ -206,7 +158,7 @@ export default function Settings() {
           </div>
 
           {/* Error Handler */}
-          <QueryErrorHandler error={error} onRetry={fetchSettings} />
+          <QueryErrorHandler error={error} onRetry={() => refetchPayrollConfig()} />
 
           {/* Work Sessions Card */}
           <Card>
@@ -216,7 +168,7 @@ export default function Settings() {
                 Work Sessions
               </CardTitle>
               <CardDescription>
-                Define work sessions that employees can select when marking attendance.
+                Define the shifts employees are rostered on. A shift that ends before it starts runs overnight.
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
@@ -226,7 +178,7 @@ export default function Settings() {
                     <div>
                       <p className="font-medium text-foreground">{session.name}</p>
                       <p className="text-sm text-muted-foreground">
-                        {session.start_time.slice(0, 5)} - {session.end_time.slice(0, 5)}
+                        {formatShiftTime(session)}
                       </p>
                     </div>
                     <Button
@@ -321,7 +273,9 @@ export default function Settings() {
                         />
                         <Label className="text-base font-medium">ESIC</Label>
                       </div>
-                      <p className="text-sm text-muted-foreground ml-12">Employee State Insurance contribution</p>
+                      <p className="text-sm text-muted-foreground ml-12">
+                        Employee State Insurance contribution, for ESIC wages up to ₹{config.esic_wage_ceiling.toLocaleString()}
+                      </p>
                     </div>
                     <div className="flex items-center gap-2">
                       <Input
@@ -336,6 +290,25 @@ export default function Settings() {
                     </div>
                   </div>
 
+                  {/* ESIC Employer Configuration */}
+                  <div className="flex items-center justify-between p-4 rounded-lg border border-border bg-accent/30">
+                    <div className="space-y-1">
+                      <Label className="text-base font-medium">ESIC (Employer)</Label>
+                      <p className="text-sm text-muted-foreground">Employer share of ESIC, reported in the monthly ESIC return</p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Input
+                        type="number"
+                        value={config.esic_employer_percentage}
+                        onChange={(e) => setConfig(prev => ({ ...prev, esic_employer_percentage: parseFloat(e.target.value) || 0 }))}
+                        className="w-20 text-right"
+                        disabled={!config.esic_enabled}
+                        step="0.01"
+                      />
+                      <span className="text-muted-foreground">%</span>
+                    </div>
+                  </div>
+
                   {/* PT Configuration */}
                   <div className="flex items-center justify-between p-4 rounded-lg border border-border bg-accent/30">
                     <div className="space-y-1">
@@ -346,7 +319,7 @@ export default function Settings() {
                         />
                         <Label className="text-base font-medium">Professional Tax (PT)</Label>
                       </div>
-                      <p className="text-sm text-muted-foreground ml-12">State-level professional tax deduction</p>
+                      <p className="text-sm text-muted-foreground ml-12">Flat amount used for employees without a work state</p>
                     </div>
                     <div className="flex items-center gap-2">
                       <span className="text-muted-foreground">₹</span>
@@ -360,6 +333,31 @@ export default function Settings() {
                     </div>
                   </div>
 
+                  {/* Overtime Configuration */}
+                  <div className="flex items-center justify-between p-4 rounded-lg border border-border bg-accent/30">
+                    <div className="space-y-1">
+                      <div className="flex items-center gap-3">
+                        <Switch
+                          checked={config.overtime_enabled}
+                          onCheckedChange={(checked) => setConfig(prev => ({ ...prev, overtime_enabled: checked }))}
+                        />
+                        <Label className="text-base font-medium">Overtime Pay</Label>
+                      </div>
+                      <p className="text-sm text-muted-foreground ml-12">Overtime from attendance, paid at this multiple of the hourly rate</p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Input
+                        type="number"
+                        value={config.overtime_rate}
+                        onChange={(e) => setConfig(prev => ({ ...prev, overtime_rate: parseFloat(e.target.value) || 0 }))}
+                        className="w-20 text-right"
+                        disabled={!config.overtime_enabled}
+                        step="0.25"
+                      />
+                      <span className="text-muted-foreground">×</span>
+                    </div>
+                  </div>
+
                   {/* EPF Configuration */}
                   <div className="flex items-center justify-between p-4 rounded-lg border border-border bg-accent/30">
                     <div className="space-y-1">
@@ -370,7 +368,9 @@ export default function Settings() {
                         />
                         <Label className="text-base font-medium">EPF (Employer)</Label>
                       </div>
-                      <p className="text-sm text-muted-foreground ml-12">Employer contribution to Provident Fund</p>
+                      <p className="text-sm text-muted-foreground ml-12">
+                        Employer contribution to Provident Fund; {config.eps_percentage}% of wages up to ₹{config.pf_wage_ceiling.toLocaleString()} goes to EPS
+                      </p>
                     </div>
                     <div className="flex items-center gap-2">
                       <Input
@@ -386,8 +386,8 @@ export default function Settings() {
                   </div>
 
                   <div className="flex justify-end pt-4">
-                    <Button onClick={handleSave} disabled={saving}>
-                      {saving ? 'Saving...' : 'Save Settings'}
+                    <Button onClick={handleSave} disabled={updatePayrollConfig.isPending}>
+                      {updatePayrollConfig.isPending ? 'Saving...' : 'Save Settings'}
                     </Button>
                   </div>
                 </>
@@ -446,8 +446,38 @@ export default function Settings() {
             </CardContent>
           </Card>
 
+          {/* Salary Structures */}
+          <SalaryStructureManager />
+
+          {/* Professional Tax Slabs */}
+          <ProfessionalTaxSlabManager />
+
+          {/* Leave Types */}
+          <LeaveTypeManager />
+
+          {/* Attendance Rules */}
+          <AttendanceRulesSettings />
+
+          {/* Geofencing */}
+          <GeofenceSettings />
+
+          {/* Leave Policies */}
+          <LeavePolicyManager />
+
+          {/* Leave Approvals */}
+          <LeaveApprovalSettings />
+
+          {/* Minimum Staffing */}
+          <StaffingRuleManager />
+
+          {/* Compensatory Off */}
+          <CompOffSettings />
+
           {/* Holiday Calendar */}
           <HolidayCalendar />
+
+          {/* Onboarding Checklists */}
+          <OnboardingTemplateManager />
         </div>
       </AppLayout>
     </ErrorBoundary>
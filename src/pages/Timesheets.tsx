@@ -0,0 +1,42 @@
+import { AppLayout } from '@/components/layout/AppLayout';
+import { WeeklyTimesheet } from '@/components/timesheets/WeeklyTimesheet';
+import { TimesheetApprovals } from '@/components/timesheets/TimesheetApprovals';
+import { UtilizationReport } from '@/components/timesheets/UtilizationReport';
+import { ProjectManager } from '@/components/timesheets/ProjectManager';
+import { useAuth } from '@/contexts/AuthContext';
+import ErrorBoundary from '@/components/ErrorBoundary';
+
+export default function Timesheets() {
+  const { user, profile, isAdmin, isManager } = useAuth();
+  const companyId = profile?.company_id || null;
+
+  return (
+    <ErrorBoundary>
+      <AppLayout>
+        <div className="space-y-6">
+          {/* Header */}
+          <div>
+            <h1 className="text-2xl font-bold text-foreground">Timesheets</h1>
+            <p className="text-muted-foreground mt-1">
+              Log your attended hours against projects and submit them weekly
+            </p>
+          </div>
+
+          <WeeklyTimesheet />
+
+          {/* Weeks to decide */}
+          {isManager && user && companyId && (
+            <TimesheetApprovals userId={user.id} companyId={companyId} />
+          )}
+
+          {isAdmin && companyId && (
+            <>
+              <UtilizationReport companyId={companyId} />
+              <ProjectManager companyId={companyId} />
+            </>
+          )}
+        </div>
+      </AppLayout>
+    </ErrorBoundary>
+  );
+}
@@ -51,15 +51,13 @@ export const processPayrollSchema = z.object({
   month: z.number().min(1).max(12),
   year: z.number().min(2000).max(2099),
   employeeIds: z.array(z.string().uuid()),
-  baseSalary: z.number().positive().optional(),
-  deductions: z.number().nonnegative().optional(),
 });
 
 export type ProcessPayrollInput = z.infer<typeof processPayrollSchema>;
 
 // Leave request validation
 export const createLeaveRequestSchema = z.object({
-  leave_type: z.enum(['casual', 'sick', 'paid', 'unpaid']),
+  leave_type: z.string().min(1, 'Leave type is required'),
   start_date: z.string().refine((date) => !isNaN(Date.parse(date)), 'Invalid start date'),
   end_date: z.string().refine((date) => !isNaN(Date.parse(date)), 'Invalid end date'),
   reason: z.string()
@@ -1,5 +1,9 @@
 // src/services/analyticsService.ts
 import { BaseService } from './baseService';
+import { leaveService } from './leaveService';
+import { attendanceService } from './attendanceService';
+import { addDaysToDate } from '@/lib/timezone';
+import { summarizeUtilization, UtilizationMember, UtilizationReport } from '@/lib/timesheets';
 
 interface DashboardMetrics {
   totalEmployees: number;
@@ -16,8 +20,10 @@ class AnalyticsService extends BaseService {
     const cached = this.getCache<DashboardMetrics>(cacheKey);
     if (cached) return cached;
 
+    // Days are counted in the company's timezone, one summary per employee and day
+    const today = await attendanceService.getLocalToday(null, companyId);
+
     return this.withRetry(async () => {
-      const today = new Date().toISOString().split('T')[0];
 
       // Total employees
       const { count: employeeCount } = await this.client
@@ -27,9 +33,10 @@ class AnalyticsService extends BaseService {
 
       // Present today
       const { data: presentData } = await this.client
-        .from('attendance_sessions')
+        .from('attendance_daily_summaries')
         .select('user_id')
-        .eq('date', today)
+        .eq('company_id', companyId)
+        .eq('work_date', today)
         .eq('status', 'present');
 
       // Pending leaves
@@ -64,9 +71,9 @@ class AnalyticsService extends BaseService {
 
       // Attendance rate (last 30 days)
       const { data: attendanceData } = await this.client
-        .from('attendance_sessions')
+        .from('attendance_daily_summaries')
         .select('*')
-        .gte('date', new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0])
+        .gte('work_date', addDaysToDate(today, -30))
         .eq('company_id', companyId);
 
       const presentCount = attendanceData?.filter(a => a.status === 'present').length || 0;
@@ -95,11 +102,11 @@ class AnalyticsService extends BaseService {
 
     return this.withRetry(async () => {
       const { data, error } = await this.client
-        .from('attendance_sessions')
+        .from('attendance_daily_summaries')
         .select('*')
         .eq('company_id', companyId)
-        .gte('date', startDate)
-        .lte('date', endDate);
+        .gte('work_date', startDate)
+        .lte('work_date', endDate);
 
       if (error) throw error;
 
@@ -109,12 +116,12 @@ class AnalyticsService extends BaseService {
 
       (data || []).forEach(record => {
         // By date
-        if (!byDate[record.date]) {
-          byDate[record.date] = { present: 0, absent: 0, total: 0 };
+        if (!byDate[record.work_date]) {
+          byDate[record.work_date] = { present: 0, absent: 0, total: 0 };
         }
-        byDate[record.date].total++;
-        if (record.status === 'present') byDate[record.date].present++;
-        else byDate[record.date].absent++;
+        byDate[record.work_date].total++;
+        if (record.status === 'present') byDate[record.work_date].present++;
+        else byDate[record.work_date].absent++;
 
         // By user
         if (!byUser[record.user_id]) {
@@ -184,7 +191,7 @@ class AnalyticsService extends BaseService {
       if (error) throw error;
 
       // Calculate analytics
-      const byStatus: { [key: string]: number } = { approved: 0, pending: 0, rejected: 0 };
+      const byStatus: { [key: string]: number } = { approved: 0, pending: 0, rejected: 0, cancellation_requested: 0, cancelled: 0 };
       const byType: { [key: string]: number } = {};
 
       (data || []).forEach(record => {
@@ -208,23 +215,21 @@ class AnalyticsService extends BaseService {
     const cached = this.getCache<any>(cacheKey);
     if (cached) return cached;
 
+    const today = await attendanceService.getLocalToday(userId, null);
+
     return this.withRetry(async () => {
       // Get attendance for last 30 days
       const { data: attendanceData } = await this.client
-        .from('attendance_sessions')
+        .from('attendance_daily_summaries')
         .select('*')
         .eq('user_id', userId)
-        .gte('date', new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0]);
+        .gte('work_date', addDaysToDate(today, -30));
 
       const presentDays = attendanceData?.filter(a => a.status === 'present').length || 0;
       const absentDays = attendanceData?.filter(a => a.status === 'absent').length || 0;
 
       // Get leave balance
-      const { data: balanceData } = await this.client
-        .from('leave_balances')
-        .select('*')
-        .eq('user_id', userId)
-        .single();
+      const balanceData = await leaveService.getLeaveBalance(userId);
 
       // Get recent leaves
       const { data: leaveData } = await this.client
@@ -251,12 +256,64 @@ class AnalyticsService extends BaseService {
     }, `Get employee metrics ${userId}`);
   }
 
+  /**
+   * Billable and non-billable hours from approved timesheets against the
+   * hours attended, per employee and department
+   */
+  async getUtilizationReport(companyId: string, startDate: string, endDate: string): Promise<UtilizationReport> {
+    const cacheKey = `utilization:${companyId}:${startDate}:${endDate}`;
+    const cached = this.getCache<UtilizationReport>(cacheKey);
+    if (cached) return cached;
+
+    return this.withRetry(async () => {
+      const [members, departments, attended, entries] = await Promise.all([
+        this.client
+          .from('profiles')
+          .select('user_id, first_name, last_name, department_id')
+          .eq('company_id', companyId),
+        this.client
+          .from('departments')
+          .select('id, name')
+          .eq('company_id', companyId),
+        this.client
+          .from('attendance_daily_summaries')
+          .select('user_id, worked_minutes')
+          .eq('company_id', companyId)
+          .gte('work_date', startDate)
+          .lte('work_date', endDate),
+        this.client
+          .from('timesheet_entries')
+          .select('user_id, minutes, is_billable, timesheet:timesheets!inner(status)')
+          .eq('company_id', companyId)
+          .eq('timesheet.status', 'approved')
+          .gte('work_date', startDate)
+          .lte('work_date', endDate),
+      ]);
+      if (members.error) throw members.error;
+      if (departments.error) throw departments.error;
+      if (attended.error) throw attended.error;
+      if (entries.error) throw entries.error;
+
+      const report = summarizeUtilization(
+        startDate,
+        endDate,
+        (members.data || []) as UtilizationMember[],
+        departments.data || [],
+        attended.data || [],
+        entries.data || []
+      );
+      this.setCache(cacheKey, report);
+      return report;
+    }, `Get utilization ${companyId}`);
+  }
+
   async clearAnalyticsCaches(companyId: string): Promise<void> {
     const cacheKeys = [
       `dashboard_metrics:${companyId}`,
       `leave_analytics:${companyId}`,
     ];
     cacheKeys.forEach(key => this.clearCache(key));
+    this.clearCache(`^utilization:${companyId}:`);
   }
 }
 
@@ -0,0 +1,161 @@
+// src/services/attendanceJobs.ts
+import { jobQueue, QueueJob } from './jobQueueService';
+import { AttendancePunchError, attendanceService } from './attendanceService';
+import { GeofenceError } from './geofenceService';
+import { offlinePunchStore } from './offlinePunchStore';
+import { OfflinePunch } from '@/types/hrms';
+import { addDaysToDate, DEFAULT_TIME_ZONE, getZonedDate, zonedTimeToUtc } from '@/lib/timezone';
+
+export const CLOSE_ATTENDANCE_DAY_JOB = 'attendance.close_day';
+const SCHEDULE_DAY_CLOSE_JOB = 'attendance.schedule_day_close';
+export const SYNC_OFFLINE_PUNCHES_JOB = 'attendance.sync_offline_punches';
+
+/** Days caught up at most when the app was not open for a while */
+const MAX_CATCH_UP_DAYS = 7;
+/** Offline punches replayed per sync run */
+const PUNCHES_PER_SYNC = 5;
+/** Run shortly after the company's midnight so overnight shifts have ended */
+const RUN_AFTER_MIDNIGHT_MS = 30 * 60 * 1000;
+
+interface CloseDayJob {
+  companyId: string;
+  date: string;
+}
+
+interface ScheduleJob {
+  companyId: string;
+}
+
+interface SyncPunchesJob {
+  userId: string;
+}
+
+const scheduledCompanies = new Set<string>();
+const queuedDays = new Set<string>();
+const syncingUsers = new Set<string>();
+
+const msUntilNextRun = (timeZone: string) => {
+  const tomorrow = addDaysToDate(getZonedDate(new Date(), timeZone), 1);
+  return zonedTimeToUtc(tomorrow, '00:00', timeZone).getTime() + RUN_AFTER_MIDNIGHT_MS - Date.now();
+};
+
+const isLastAttempt = (job: QueueJob) => job.attempts >= job.maxAttempts;
+
+jobQueue.register<CloseDayJob>(CLOSE_ATTENDANCE_DAY_JOB, async (job: QueueJob<CloseDayJob>) => {
+  const { companyId, date } = job.data;
+  const key = `${companyId}:${date}`;
+  try {
+    const closure = await attendanceService.closeDay(companyId, date);
+    queuedDays.delete(key);
+    return closure;
+  } catch (error) {
+    // Let the next nightly run pick the day up again
+    if (isLastAttempt(job)) queuedDays.delete(key);
+    throw error;
+  }
+});
+
+jobQueue.register<ScheduleJob>(SCHEDULE_DAY_CLOSE_JOB, async (job: QueueJob<ScheduleJob>) => {
+  const { companyId } = job.data;
+  let timeZone = DEFAULT_TIME_ZONE;
+  const scheduleNextRun = () =>
+    jobQueue.add<ScheduleJob>(SCHEDULE_DAY_CLOSE_JOB, { companyId }, { priority: 2, delay: msUntilNextRun(timeZone) });
+
+  let days: string[];
+  try {
+    timeZone = await attendanceService.getTimeZone(null, companyId);
+    days = await attendanceService.getDaysToClose(companyId, MAX_CATCH_UP_DAYS);
+  } catch (error) {
+    if (isLastAttempt(job)) scheduleNextRun();
+    throw error;
+  }
+
+  // Oldest first, so a later day never closes before an earlier one
+  for (const date of days) {
+    const key = `${companyId}:${date}`;
+    if (queuedDays.has(key)) continue;
+    queuedDays.add(key);
+    jobQueue.add<CloseDayJob>(CLOSE_ATTENDANCE_DAY_JOB, { companyId, date }, { priority: 3 });
+  }
+  scheduleNextRun();
+});
+
+/**
+ * Close the company's past attendance days now and every night after, for
+ * as long as the app stays open. Closing a day twice changes nothing, so
+ * several admins running this at once is harmless.
+ */
+export function startAttendanceDayClose(companyId: string): void {
+  if (scheduledCompanies.has(companyId)) return;
+  scheduledCompanies.add(companyId);
+  jobQueue.start();
+  jobQueue.add<ScheduleJob>(SCHEDULE_DAY_CLOSE_JOB, { companyId }, { priority: 2 });
+}
+
+/**
+ * Replay a user's offline punches oldest first. A punch the server refuses is
+ * kept as a conflict for the user to see and the rest carry on; a failed
+ * request stops the run so later punches wait behind it, and the queue's
+ * backoff retries it. Each run takes a few punches to stay inside the
+ * queue's timeout, and queues the next run while any are left.
+ */
+jobQueue.register<SyncPunchesJob>(SYNC_OFFLINE_PUNCHES_JOB, async (job: QueueJob<SyncPunchesJob>) => {
+  const { userId } = job.data;
+  const pending = async () => (await offlinePunchStore.list(userId)).filter(p => p.status === 'pending');
+  try {
+    for (const punch of (await pending()).slice(0, PUNCHES_PER_SYNC)) {
+      try {
+        await attendanceService.replayPunch(punch);
+        await offlinePunchStore.remove(punch.id);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        if (error instanceof AttendancePunchError || error instanceof GeofenceError) {
+          await offlinePunchStore.update(punch, { status: 'conflict', error: message });
+          continue;
+        }
+        await offlinePunchStore.update(punch, { attempts: punch.attempts + 1, error: message });
+        throw error;
+      }
+    }
+
+    if ((await pending()).length > 0) {
+      jobQueue.add<SyncPunchesJob>(SYNC_OFFLINE_PUNCHES_JOB, { userId }, { priority: 6 });
+    } else {
+      syncingUsers.delete(userId);
+    }
+  } catch (error) {
+    // The next reconnect or app start tries again
+    if (isLastAttempt(job)) syncingUsers.delete(userId);
+    throw error;
+  }
+});
+
+/**
+ * Sync the user's offline punches, unless a sync is already under way
+ */
+export function startOfflinePunchSync(userId: string): void {
+  if (syncingUsers.has(userId)) return;
+  syncingUsers.add(userId);
+  jobQueue.start();
+  jobQueue.add<SyncPunchesJob>(SYNC_OFFLINE_PUNCHES_JOB, { userId }, { priority: 6 });
+}
+
+/**
+ * Keep a punch made without a connection on the device, and sync it as soon
+ * as the device is back online
+ */
+export async function queueOfflinePunch(
+  punch: Pick<OfflinePunch, 'user_id' | 'company_id' | 'kind' | 'break_type' | 'punched_at' | 'lat' | 'lng'>
+): Promise<OfflinePunch> {
+  const queued: OfflinePunch = {
+    ...punch,
+    id: crypto.randomUUID(),
+    status: 'pending',
+    attempts: 0,
+    error: null,
+    queued_at: new Date().toISOString(),
+  };
+  await offlinePunchStore.add(queued);
+  if (navigator.onLine) startOfflinePunchSync(punch.user_id);
+  return queued;
+}
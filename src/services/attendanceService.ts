@@ -1,6 +1,58 @@
 // src/services/attendanceService.ts
 import { BaseService, PaginationParams } from './baseService';
-import { AttendanceSession, AttendanceStatus } from '@/types/hrms';
+import { settingsService } from './settingsService';
+import { geofenceService, PunchGeofence } from './geofenceService';
+import { shiftRosterService } from './shiftRosterService';
+import {
+  AttendanceDailySummary,
+  AttendanceDayClosure,
+  AttendanceRules,
+  AttendanceSession,
+  AttendanceStatus,
+  BreakType,
+  GeofenceStatus,
+  OfflinePunch,
+} from '@/types/hrms';
+import { DEFAULT_ATTENDANCE_RULES, evaluateAttendance, officeHoursShift } from '@/lib/attendanceRules';
+import { ShiftTimes } from '@/lib/shiftRoster';
+import { addDaysToDate, getZonedDate, resolveTimeZone, zonedTimeToUtc } from '@/lib/timezone';
+import { DomainError } from '@/lib/domainError';
+
+const ATTENDANCE_RULES_KEY = 'attendance_rules';
+/** Older offline punches are left to a regularization request */
+const OFFLINE_PUNCH_MAX_AGE_MS = 48 * 60 * 60 * 1000;
+
+/** A punch made offline, applied at the time it was made */
+interface ReplayedPunch {
+  id: string;
+  punchedAt: Date;
+}
+
+export class AttendancePunchError extends DomainError {
+  constructor(reason: string) {
+    super(`Attendance punch: ${reason}`);
+    this.name = 'AttendancePunchError';
+  }
+}
+
+export class AttendanceCloseError extends DomainError {
+  constructor(reason: string) {
+    super(`Attendance close: ${reason}`);
+    this.name = 'AttendanceCloseError';
+  }
+}
+
+const toPosition = (lat?: number, lng?: number) =>
+  lat !== undefined && lng !== undefined ? { lat, lng } : null;
+
+/**
+ * A session is flagged when either punch is outside every fence. Reviewed
+ * sessions keep their decision.
+ */
+function signOutGeofenceStatus(current: GeofenceStatus | null, geofence: PunchGeofence): GeofenceStatus | null {
+  if (current === 'approved' || current === 'rejected' || current === 'flagged') return current;
+  return geofence.flagged ? 'flagged' : 'matched';
+}
 
 class AttendanceService extends BaseService {
   async getAttendance(filters: PaginationParams = {}): Promise<any> {
@@ -25,33 +77,129 @@ class AttendanceService extends BaseService {
     }, `Get attendance ${id}`);
   }
 
-  async signIn(userId: string, lat?: number, lng?: number): Promise<AttendanceSession> {
+  /**
+   * Late, half-day and overtime thresholds, stored in `company_settings`
+   */
+  async getAttendanceRules(companyId: string): Promise<AttendanceRules> {
+    const cacheKey = `attendance_rules:${companyId}`;
+    const cached = this.getCache<AttendanceRules>(cacheKey);
+    if (cached) return cached;
+
     return this.withRetry(async () => {
-      const today = new Date().toISOString().split('T')[0];
-      
-      // Check if already signed in today
-      const { data: existing } = await this.client
-        .from('attendance_sessions')
-        .select('*')
-        .eq('user_id', userId)
-        .eq('date', today)
-        .single();
+      const { data, error } = await this.client
+        .from('company_settings')
+        .select('setting_value')
+        .eq('company_id', companyId)
+        .eq('setting_key', ATTENDANCE_RULES_KEY)
+        .maybeSingle();
+
+      if (error) throw error;
+      const rules = { ...DEFAULT_ATTENDANCE_RULES, ...(data?.setting_value || {}) } as AttendanceRules;
+      this.setCache(cacheKey, rules);
+      return rules;
+    }, `Get attendance rules ${companyId}`);
+  }
 
-      if (existing) {
-        throw new Error('Already signed in today');
-      }
+  async updateAttendanceRules(companyId: string, rules: AttendanceRules): Promise<AttendanceRules> {
+    return this.withRetry(async () => {
+      const { error } = await this.client
+        .from('company_settings')
+        .upsert({
+          company_id: companyId,
+          setting_key: ATTENDANCE_RULES_KEY,
+          setting_value: rules,
+          updated_at: new Date().toISOString(),
+        }, { onConflict: 'company_id,setting_key' });
+
+      if (error) throw error;
+      this.clearCache(`attendance_rules:${companyId}`);
+      return rules;
+    }, `Update attendance rules ${companyId}`);
+  }
+
+  /**
+   * The timezone an employee's days are counted in: their own, else the
+   * company's, else UTC. Without a user, the company's.
+   */
+  async getTimeZone(userId: string | null, companyId: string | null): Promise<string> {
+    const cacheKey = `timezone:${userId}:${companyId}`;
+    const cached = this.getCache<string>(cacheKey);
+    if (cached) return cached;
+
+    return this.withRetry(async () => {
+      const { data, error } = await this.client.rpc('attendance_timezone', {
+        _user_id: userId,
+        _company_id: companyId,
+      });
+
+      if (error) throw error;
+      const timeZone = resolveTimeZone(data as string | null);
+      this.setCache(cacheKey, timeZone);
+      return timeZone;
+    }, `Get attendance timezone ${userId || companyId}`);
+  }
+
+  /**
+   * Today's date in the employee's timezone, or the company's without a user
+   */
+  async getLocalToday(userId: string | null, companyId: string | null): Promise<string> {
+    return getZonedDate(new Date(), await this.getTimeZone(userId, companyId));
+  }
+
+  /**
+   * Start a punch segment. The day's first sign-in is judged against the
+   * rostered shift, marking the day late straight away when it starts past the
+   * grace period; later segments follow a break and carry the same shift. With
+   * geofencing on the punch must be made at an office, or is flagged for review.
+   */
+  async signIn(
+    userId: string,
+    companyId: string | null,
+    lat?: number,
+    lng?: number,
+    replay?: ReplayedPunch
+  ): Promise<AttendanceSession> {
+    const now = replay?.punchedAt || new Date();
+    const timeZone = await this.getTimeZone(userId, companyId);
+    const daySegments = await this.getDaySegments(userId, getZonedDate(now, timeZone));
+    if (daySegments.some(s => !s.sign_out_time)) {
+      throw new AttendancePunchError('you are already signed in; sign out before starting another segment');
+    }
+    if (daySegments.some(s => s.sign_out_time && new Date(s.sign_out_time) > now)) {
+      throw new AttendancePunchError('a later punch is already recorded for the day');
+    }
+    const firstSegment = daySegments[0] || null;
+    const geofence = companyId ? await geofenceService.checkPunch(companyId, toPosition(lat, lng), 'sign in') : null;
+
+    return this.withRetry(async () => {
+      const rostered = companyId && !firstSegment
+        ? await shiftRosterService.getShiftForSignIn(userId, companyId, now, timeZone)
+        : null;
+      const evaluation = companyId && !firstSegment
+        ? evaluateAttendance(
+          now,
+          null,
+          rostered?.shift || await this.getOfficeHours(companyId),
+          await this.getAttendanceRules(companyId),
+          timeZone
+        )
+        : null;
 
       const { data, error } = await this.client
         .from('attendance_sessions')
         .insert([{
           user_id: userId,
-          date: today,
-          sign_in_time: new Date().toISOString(),
+          company_id: companyId,
+          session_id: firstSegment ? firstSegment.session_id : rostered?.shift.id ?? null,
+          sign_in_time: now.toISOString(),
           sign_in_lat: lat,
           sign_in_lng: lng,
-          status: 'present',
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString(),
+          status: evaluation?.status || 'present',
+          late_minutes: evaluation?.lateMinutes || 0,
+          sign_in_office_id: geofence?.officeId ?? null,
+          sign_in_distance_m: geofence?.distance ?? null,
+          geofence_status: geofence ? (geofence.flagged ? 'flagged' : 'matched') : null,
+          offline_sign_in_id: replay?.id ?? null,
         }])
         .select()
         .single();
@@ -62,15 +210,66 @@ class AttendanceService extends BaseService {
     }, `Sign in ${userId}`);
   }
 
-  async signOut(attendanceId: string, lat?: number, lng?: number): Promise<AttendanceSession> {
+  /**
+   * Sign out for a break; the next sign-in ends it
+   */
+  async startBreak(
+    attendanceId: string,
+    breakType: BreakType,
+    lat?: number,
+    lng?: number,
+    replay?: ReplayedPunch
+  ): Promise<AttendanceSession> {
+    return this.punchOut(attendanceId, breakType, lat, lng, replay);
+  }
+
+  /**
+   * Sign out for the day and settle its status and overtime over all segments
+   */
+  async signOut(
+    attendanceId: string,
+    lat?: number,
+    lng?: number,
+    replay?: ReplayedPunch
+  ): Promise<AttendanceDailySummary | null> {
+    const session = await this.punchOut(attendanceId, null, lat, lng, replay);
+    const summary = await this.getDailySummary(session.user_id, session.work_date);
+    return summary ? this.evaluateDay(summary) : null;
+  }
+
+  private async punchOut(
+    attendanceId: string,
+    breakType: BreakType | null,
+    lat?: number,
+    lng?: number,
+    replay?: ReplayedPunch
+  ): Promise<AttendanceSession> {
+    this.clearCache(`attendance:${attendanceId}`);
+    const session = await this.getAttendanceById(attendanceId);
+    if (session.sign_out_time) throw new AttendancePunchError('this segment is already signed out');
+    const signOutTime = replay?.punchedAt || new Date();
+    if (signOutTime < new Date(session.sign_in_time)) {
+      throw new AttendancePunchError('the sign-out was made before the open segment began');
+    }
+
+    const geofence = session.company_id
+      ? await geofenceService.checkPunch(session.company_id, toPosition(lat, lng), 'sign out')
+      : null;
+
     return this.withRetry(async () => {
       const { data, error } = await this.client
         .from('attendance_sessions')
         .update({
-          sign_out_time: new Date().toISOString(),
+          sign_out_time: signOutTime.toISOString(),
           sign_out_lat: lat,
           sign_out_lng: lng,
-          updated_at: new Date().toISOString(),
+          break_type: breakType,
+          offline_sign_out_id: replay?.id ?? null,
+          ...(geofence && {
+            sign_out_office_id: geofence.officeId,
+            sign_out_distance_m: geofence.distance,
+            geofence_status: signOutGeofenceStatus(session.geofence_status, geofence),
+          }),
         })
         .eq('id', attendanceId)
         .select()
@@ -78,10 +277,312 @@ class AttendanceService extends BaseService {
 
       if (error) throw error;
       this.clearCache(`attendance:${attendanceId}`);
+      this.clearCache(`user_attendance:${session.user_id}`);
       return data as AttendanceSession;
     }, `Sign out ${attendanceId}`);
   }
 
+  /**
+   * Apply a punch made offline at the time it was made. A punch an earlier
+   * replay already applied is skipped. One that no longer fits the day's
+   * record, such as signing in while signed in from another device, is
+   * refused with an AttendancePunchError.
+   */
+  async replayPunch(punch: OfflinePunch): Promise<void> {
+    if (await this.isPunchApplied(punch.id)) return;
+
+    const replay = { id: punch.id, punchedAt: new Date(punch.punched_at) };
+    if (Date.now() - replay.punchedAt.getTime() > OFFLINE_PUNCH_MAX_AGE_MS) {
+      throw new AttendancePunchError('punches older than two days cannot be synced; request an attendance correction instead');
+    }
+    const lat = punch.lat ?? undefined;
+    const lng = punch.lng ?? undefined;
+
+    if (punch.kind === 'sign_in') {
+      await this.signIn(punch.user_id, punch.company_id, lat, lng, replay);
+      return;
+    }
+
+    const open = await this.getOpenSegment(punch.user_id);
+    if (!open) throw new AttendancePunchError('there is no open segment to sign out of');
+    if (punch.kind === 'break' && punch.break_type) {
+      await this.startBreak(open.id, punch.break_type, lat, lng, replay);
+    } else {
+      await this.signOut(open.id, lat, lng, replay);
+    }
+  }
+
+  private async isPunchApplied(punchId: string): Promise<boolean> {
+    return this.withRetry(async () => {
+      const { data, error } = await this.client
+        .from('attendance_sessions')
+        .select('id')
+        .or(`offline_sign_in_id.eq.${punchId},offline_sign_out_id.eq.${punchId}`)
+        .limit(1);
+
+      if (error) throw error;
+      return (data || []).length > 0;
+    }, `Check offline punch ${punchId}`);
+  }
+
+  /**
+   * The user's latest worked segment still signed in, on any day
+   */
+  private async getOpenSegment(userId: string): Promise<AttendanceSession | null> {
+    return this.withRetry(async () => {
+      const { data, error } = await this.client
+        .from('attendance_sessions')
+        .select('*')
+        .eq('user_id', userId)
+        .is('sign_out_time', null)
+        .not('status', 'in', '(absent,on_leave)')
+        .order('sign_in_time', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data as AttendanceSession | null;
+    }, `Get open segment ${userId}`);
+  }
+
+  /**
+   * Evaluate finished days from before today that have not been, such as a
+   * day that ended on a break or attendance added by an admin. Safe to
+   * repeat. Returns the number of days evaluated.
+   */
+  async closeOutPastDays(companyId: string): Promise<number> {
+    const today = await this.getLocalToday(null, companyId);
+
+    const summaries = await this.withRetry(async () => {
+      const { data, error } = await this.client
+        .from('attendance_daily_summaries')
+        .select('*')
+        .eq('company_id', companyId)
+        .is('evaluated_at', null)
+        .eq('is_open', false)
+        .gt('segment_count', 0)
+        .lt('work_date', today);
+
+      if (error) throw error;
+      return (data || []) as AttendanceDailySummary[];
+    }, `Get unevaluated attendance ${companyId}`);
+
+    for (const summary of summaries) {
+      await this.evaluateDay(summary);
+    }
+
+    if (summaries.length > 0) this.clearCache('attendance');
+    return summaries.length;
+  }
+
+  /**
+   * Finished days between two dates that close-out has not evaluated yet,
+   * leaving their status and overtime unsettled
+   */
+  async countUnevaluatedDays(companyId: string, from: string, to: string): Promise<number> {
+    const today = await this.getLocalToday(null, companyId);
+
+    return this.withRetry(async () => {
+      const { count, error } = await this.client
+        .from('attendance_daily_summaries')
+        .select('id', { count: 'exact', head: true })
+        .eq('company_id', companyId)
+        .is('evaluated_at', null)
+        .eq('is_open', false)
+        .gt('segment_count', 0)
+        .gte('work_date', from)
+        .lte('work_date', to)
+        .lt('work_date', today);
+
+      if (error) throw error;
+      return count || 0;
+    }, `Count unevaluated attendance ${companyId}`);
+  }
+
+  /**
+   * Close a past day for the company: sign out sessions left open at their
+   * shift's end and mark everyone without a punch absent, or on leave.
+   * Holidays and weekly offs are skipped. Safe to repeat for the same date.
+   */
+  async closeDay(companyId: string, date: string): Promise<AttendanceDayClosure> {
+    if (date >= await this.getLocalToday(null, companyId)) {
+      throw new AttendanceCloseError(`${date} has not ended yet`);
+    }
+
+    const closure = await this.withRetry(async () => {
+      const { data, error } = await this.client.rpc('close_attendance_day', {
+        _company_id: companyId,
+        _date: date,
+      });
+
+      if (error) throw error;
+      return data as AttendanceDayClosure;
+    }, `Close attendance day ${companyId} ${date}`);
+
+    this.clearCache('attendance');
+    // Days signed out by the close, or left on a break, still need their status and overtime
+    await this.closeOutPastDays(companyId);
+    return closure;
+  }
+
+  /**
+   * Past days from the company's last close up to yesterday in its timezone,
+   * oldest first. The last closed day is included again for employees behind
+   * the company's timezone, whose day had not ended when it was first closed.
+   * Without any close yet only yesterday is due, so turning the job on does
+   * not mark earlier days absent.
+   */
+  async getDaysToClose(companyId: string, maxDays: number): Promise<string[]> {
+    const latest = await this.getLatestDayClosure(companyId);
+    const today = await this.getLocalToday(null, companyId);
+
+    const days: string[] = [];
+    for (let i = 1; i <= maxDays; i++) {
+      const date = addDaysToDate(today, -i);
+      if (!latest ? i > 1 : date < latest.work_date) break;
+      days.unshift(date);
+    }
+    return days;
+  }
+
+  async getLatestDayClosure(companyId: string): Promise<AttendanceDayClosure | null> {
+    return this.withRetry(async () => {
+      const { data, error } = await this.client
+        .from('attendance_day_closures')
+        .select('*')
+        .eq('company_id', companyId)
+        .order('work_date', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data as AttendanceDayClosure | null;
+    }, `Get latest attendance close ${companyId}`);
+  }
+
+  private async getOfficeHours(companyId: string): Promise<ShiftTimes> {
+    return officeHoursShift(await settingsService.getCompanySettings(companyId));
+  }
+
+  /**
+   * Settle a finished day's status, lateness and overtime against the shift
+   * of its first segment, counting the time worked across all segments
+   */
+  private async evaluateDay(summary: AttendanceDailySummary): Promise<AttendanceDailySummary> {
+    const companyId = summary.company_id;
+    if (!companyId || summary.is_open || !summary.first_sign_in || !summary.last_sign_out) return summary;
+
+    const firstSegment = await this.withRetry(async () => {
+      const { data, error } = await this.client
+        .from('attendance_sessions')
+        .select('session_id')
+        .eq('user_id', summary.user_id)
+        .eq('sign_in_time', summary.first_sign_in)
+        .limit(1)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data as Pick<AttendanceSession, 'session_id'> | null;
+    }, `Get first segment ${summary.user_id} ${summary.work_date}`);
+
+    const shift = (firstSegment?.session_id && await shiftRosterService.getWorkSession(firstSegment.session_id))
+      || await this.getOfficeHours(companyId);
+    const evaluation = evaluateAttendance(
+      new Date(summary.first_sign_in),
+      new Date(summary.last_sign_out),
+      shift,
+      await this.getAttendanceRules(companyId),
+      await this.getTimeZone(summary.user_id, companyId),
+      summary.worked_minutes
+    );
+
+    const data = await this.withRetry(async () => {
+      const { data, error } = await this.client
+        .from('attendance_daily_summaries')
+        .update({
+          status: evaluation.status as AttendanceStatus,
+          late_minutes: evaluation.lateMinutes,
+          overtime_hours: evaluation.overtimeHours,
+          evaluated_at: new Date().toISOString(),
+        })
+        .eq('id', summary.id)
+        // A segment changed since it was read; the next close-out evaluates it again
+        .eq('worked_minutes', summary.worked_minutes)
+        .select()
+        .maybeSingle();
+
+      if (error) throw error;
+      return data as AttendanceDailySummary | null;
+    }, `Evaluate attendance day ${summary.id}`);
+
+    return data || summary;
+  }
+
+  /**
+   * The day's worked segments, oldest first. Absent and on-leave rows are left out.
+   */
+  async getDaySegments(userId: string, date: string): Promise<AttendanceSession[]> {
+    return this.withRetry(async () => {
+      const { data, error } = await this.client
+        .from('attendance_sessions')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('work_date', date)
+        .order('sign_in_time', { ascending: true });
+
+      if (error) throw error;
+      return ((data || []) as AttendanceSession[]).filter(s => s.status !== 'absent' && s.status !== 'on_leave');
+    }, `Get day segments ${userId} ${date}`);
+  }
+
+  /**
+   * Segments signed in over the last day, for the day still in progress
+   */
+  async getRecentSegments(userId: string): Promise<AttendanceSession[]> {
+    const since = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
+
+    return this.withRetry(async () => {
+      const { data, error } = await this.client
+        .from('attendance_sessions')
+        .select('*')
+        .eq('user_id', userId)
+        .gte('sign_in_time', since)
+        .order('sign_in_time', { ascending: true });
+
+      if (error) throw error;
+      return (data || []) as AttendanceSession[];
+    }, `Get recent segments ${userId}`);
+  }
+
+  async getDailySummary(userId: string, date: string): Promise<AttendanceDailySummary | null> {
+    return this.withRetry(async () => {
+      const { data, error } = await this.client
+        .from('attendance_daily_summaries')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('work_date', date)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data as AttendanceDailySummary | null;
+    }, `Get daily attendance ${userId} ${date}`);
+  }
+
+  async getDailySummaries(userId: string, startDate: string, endDate: string): Promise<AttendanceDailySummary[]> {
+    return this.withRetry(async () => {
+      const { data, error } = await this.client
+        .from('attendance_daily_summaries')
+        .select('*')
+        .eq('user_id', userId)
+        .gte('work_date', startDate)
+        .lte('work_date', endDate)
+        .order('work_date', { ascending: true });
+
+      if (error) throw error;
+      return (data || []) as AttendanceDailySummary[];
+    }, `Get daily attendance ${userId} ${startDate} to ${endDate}`);
+  }
+
   async getUserAttendance(userId: string, limit: number = 30): Promise<AttendanceSession[]> {
     const cacheKey = `user_attendance:${userId}`;
     const cached = this.getCache<AttendanceSession[]>(cacheKey);
@@ -92,7 +593,7 @@ class AttendanceService extends BaseService {
         .from('attendance_sessions')
         .select('*')
         .eq('user_id', userId)
-        .order('date', { ascending: false })
+        .order('sign_in_time', { ascending: false })
         .limit(limit);
 
       if (error) throw error;
@@ -101,9 +602,12 @@ class AttendanceService extends BaseService {
     }, `Get user attendance ${userId}`);
   }
 
-  async getTodayAttendance(): Promise<AttendanceSession[]> {
-    const today = new Date().toISOString().split('T')[0];
-    const cacheKey = `attendance_today:${today}`;
+  /**
+   * Sessions on today's date in the company's timezone
+   */
+  async getTodayAttendance(companyId: string): Promise<AttendanceSession[]> {
+    const today = await this.getLocalToday(null, companyId);
+    const cacheKey = `attendance_today:${companyId}:${today}`;
     const cached = this.getCache<AttendanceSession[]>(cacheKey);
     if (cached) return cached;
 
@@ -111,7 +615,8 @@ class AttendanceService extends BaseService {
       const { data, error } = await this.client
         .from('attendance_sessions')
         .select('*')
-        .eq('date', today)
+        .eq('company_id', companyId)
+        .eq('work_date', today)
         .order('sign_in_time', { ascending: false });
 
       if (error) throw error;
@@ -120,18 +625,34 @@ class AttendanceService extends BaseService {
     }, 'Get today attendance');
   }
 
+  /**
+   * Mark a day absent, keeping any session already recorded for it. The day
+   * defaults to today in the employee's timezone.
+   */
   async markAbsent(userId: string, date?: string): Promise<AttendanceSession> {
-    const attendanceDate = date || new Date().toISOString().split('T')[0];
+    const timeZone = await this.getTimeZone(userId, null);
+    const attendanceDate = date || getZonedDate(new Date(), timeZone);
 
     return this.withRetry(async () => {
+      const { data: existing, error: existingError } = await this.client
+        .from('attendance_sessions')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('work_date', attendanceDate)
+        .limit(1)
+        .maybeSingle();
+
+      if (existingError) throw existingError;
+      if (existing) return existing as AttendanceSession;
+
       const { data, error } = await this.client
         .from('attendance_sessions')
         .insert([{
           user_id: userId,
-          date: attendanceDate,
+          work_date: attendanceDate,
+          sign_in_time: zonedTimeToUtc(attendanceDate, '00:00', timeZone).toISOString(),
           status: 'absent' as AttendanceStatus,
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString(),
+          evaluated_at: new Date().toISOString(),
         }])
         .select()
         .single();
@@ -151,9 +672,9 @@ class AttendanceService extends BaseService {
       const { data, error } = await this.client
         .from('attendance_sessions')
         .select('*')
-        .gte('date', startDate)
-        .lte('date', endDate)
-        .order('date', { ascending: false });
+        .gte('work_date', startDate)
+        .lte('work_date', endDate)
+        .order('work_date', { ascending: false });
 
       if (error) throw error;
       this.setCache(cacheKey, data || []);
@@ -179,20 +700,25 @@ class AttendanceService extends BaseService {
     }, `Update attendance status ${attendanceId}`);
   }
 
+  /**
+   * Record a day for several employees, starting at midnight in each one's
+   * timezone. The day defaults to their today.
+   */
   async bulkMarkAttendance(
     attendanceData: Array<{ userId: string; status: AttendanceStatus; date?: string }>
   ): Promise<AttendanceSession[]> {
-    return this.withRetry(async () => {
-      const today = new Date().toISOString().split('T')[0];
-      
-      const records = attendanceData.map(item => ({
+    const records = await Promise.all(attendanceData.map(async item => {
+      const timeZone = await this.getTimeZone(item.userId, null);
+      const date = item.date || getZonedDate(new Date(), timeZone);
+      return {
         user_id: item.userId,
-        date: item.date || today,
+        work_date: date,
+        sign_in_time: zonedTimeToUtc(date, '00:00', timeZone).toISOString(),
         status: item.status,
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString(),
-      }));
+      };
+    }));
 
+    return this.withRetry(async () => {
       const { data, error } = await this.client
         .from('attendance_sessions')
         .insert(records)
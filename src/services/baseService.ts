@@ -4,6 +4,7 @@
 import { SupabaseClient } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
+import { findDomainError } from '@/lib/domainError';
 
 export interface ServiceError extends Error {
   code?: string;
@@ -33,7 +34,8 @@ export class BaseService {
   }
 
   /**
-   * Execute async operation with exponential backoff retry
+   * Execute async operation with exponential backoff retry. Domain errors
+   * are rethrown at once, as they are.
    */
   protected async withRetry<T>(
     fn: () => Promise<T>,
@@ -45,6 +47,7 @@ export class BaseService {
       try {
         return await fn();
       } catch (error) {
+        if (findDomainError(error)) throw error;
         lastError = error as Error;
         
         if (i < this.maxRetries - 1) {
@@ -132,6 +135,23 @@ export class BaseService {
     }, `Fetch ${table} page ${page}`);
   }
 
+  /**
+   * Read every row of a query a page at a time, past the API's per-request row cap.
+   * The query must be ordered on a unique column so pages do not overlap.
+   */
+  protected async fetchAllPages<T>(
+    fetchPage: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>,
+    pageSize: number = 1000
+  ): Promise<T[]> {
+    const rows: T[] = [];
+    for (let from = 0; ; from += pageSize) {
+      const { data, error } = await fetchPage(from, from + pageSize - 1);
+      if (error) throw error;
+      rows.push(...(data || []));
+      if (!data || data.length < pageSize) return rows;
+    }
+  }
+
   /**
    * Batch operations with chunking for API limits
    */
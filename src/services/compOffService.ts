@@ -0,0 +1,184 @@
+// src/services/compOffService.ts
+import { BaseService } from './baseService';
+import { leaveApprovalService } from './leaveApprovalService';
+import { CompOffConfig, CompOffCredit } from '@/types/hrms';
+import { DEFAULT_COMP_OFF_CONFIG } from '@/lib/compOff';
+import { DomainError } from '@/lib/domainError';
+
+const COMP_OFF_SETTINGS_KEY = 'comp_off';
+
+export class CompOffError extends DomainError {
+  constructor(reason: string) {
+    super(`Comp-off: ${reason}`);
+    this.name = 'CompOffError';
+  }
+}
+
+class CompOffService extends BaseService {
+  /**
+   * Comp-off settings, stored in `company_settings` like the leave approval settings
+   */
+  async getConfig(companyId: string): Promise<CompOffConfig> {
+    const cacheKey = `comp_off_config:${companyId}`;
+    const cached = this.getCache<CompOffConfig>(cacheKey);
+    if (cached) return cached;
+
+    return this.withRetry(async () => {
+      const { data, error } = await this.client
+        .from('company_settings')
+        .select('setting_value')
+        .eq('company_id', companyId)
+        .eq('setting_key', COMP_OFF_SETTINGS_KEY)
+        .maybeSingle();
+
+      if (error) throw error;
+      const config = { ...DEFAULT_COMP_OFF_CONFIG, ...(data?.setting_value || {}) } as CompOffConfig;
+      this.setCache(cacheKey, config);
+      return config;
+    }, `Get comp-off config ${companyId}`);
+  }
+
+  async updateConfig(companyId: string, config: CompOffConfig): Promise<CompOffConfig> {
+    return this.withRetry(async () => {
+      const { error } = await this.client
+        .from('company_settings')
+        .upsert({
+          company_id: companyId,
+          setting_key: COMP_OFF_SETTINGS_KEY,
+          setting_value: config,
+          updated_at: new Date().toISOString(),
+        }, { onConflict: 'company_id,setting_key' });
+
+      if (error) throw error;
+      this.clearCache(`comp_off_config:${companyId}`);
+      return config;
+    }, `Update comp-off config ${companyId}`);
+  }
+
+  /**
+   * Lapse the unused part of credits past their expiry, for one employee or
+   * the whole company. Returns the number of credits expired.
+   */
+  async expireCredits(companyId: string, userId?: string): Promise<number> {
+    return this.withRetry(async () => {
+      const { data, error } = await this.client.rpc('expire_comp_off_credits', {
+        _company_id: companyId,
+        _user_id: userId,
+      });
+
+      if (error) throw error;
+      return (data as number) || 0;
+    }, `Expire comp-off credits ${companyId}`);
+  }
+
+  /**
+   * An employee's credits, most recent day worked first
+   */
+  async getUserCredits(userId: string, companyId: string): Promise<CompOffCredit[]> {
+    await this.expireCredits(companyId, userId);
+
+    return this.withRetry(async () => {
+      const { data, error } = await this.client
+        .from('comp_off_credits')
+        .select('*')
+        .eq('user_id', userId)
+        .order('work_date', { ascending: false });
+
+      if (error) throw error;
+      return (data || []).map(c => ({ ...c, days: Number(c.days) })) as CompOffCredit[];
+    }, `Get comp-off credits ${userId}`);
+  }
+
+  /**
+   * Pending credits the user can decide: their direct reports', or everyone's
+   * for admins and owners. Oldest first, with the employee's profile.
+   */
+  async getPendingCredits(userId: string, companyId: string): Promise<CompOffCredit[]> {
+    const actor = await leaveApprovalService.getActor(userId, companyId);
+    const isAdmin = actor.role === 'admin' || actor.role === 'owner';
+    if (!isAdmin && actor.reportIds.length === 0) return [];
+
+    return this.withRetry(async () => {
+      let query = this.client
+        .from('comp_off_credits')
+        .select('*')
+        .eq('company_id', companyId)
+        .eq('status', 'pending')
+        .neq('user_id', userId)
+        .order('work_date', { ascending: true });
+      if (!isAdmin) query = query.in('user_id', actor.reportIds);
+
+      const { data, error } = await query;
+      if (error) throw error;
+      const credits = (data || []).map(c => ({ ...c, days: Number(c.days) })) as CompOffCredit[];
+      if (credits.length === 0) return [];
+
+      const { data: profiles, error: profileError } = await this.client
+        .from('profiles')
+        .select('*')
+        .in('user_id', [...new Set(credits.map(c => c.user_id))]);
+      if (profileError) throw profileError;
+
+      const profileMap = new Map((profiles || []).map(p => [p.user_id, p]));
+      return credits.map(c => ({ ...c, profile: profileMap.get(c.user_id) }));
+    }, `Get pending comp-off credits ${userId}`);
+  }
+
+  /**
+   * Credit opened by a sign-in, if the day was a holiday or weekly off
+   */
+  async getCreditForSession(sessionId: string): Promise<CompOffCredit | null> {
+    const { data, error } = await this.client
+      .from('comp_off_credits')
+      .select('*')
+      .eq('attendance_session_id', sessionId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data as CompOffCredit | null;
+  }
+
+  /**
+   * Approve a pending credit; the database stamps its expiry and adds the
+   * days to the employee's comp-off balance
+   */
+  async approveCredit(credit: CompOffCredit, approvedBy: string): Promise<CompOffCredit> {
+    this.authorize(credit, approvedBy);
+    return this.decide(credit.id, { status: 'approved', approved_by: approvedBy });
+  }
+
+  async rejectCredit(credit: CompOffCredit, rejectedBy: string, reason?: string): Promise<CompOffCredit> {
+    this.authorize(credit, rejectedBy);
+    return this.decide(credit.id, {
+      status: 'rejected',
+      approved_by: rejectedBy,
+      rejection_reason: reason?.trim() || null,
+    });
+  }
+
+  private authorize(credit: CompOffCredit, userId: string) {
+    if (credit.user_id === userId) throw new CompOffError('you cannot decide your own comp-off');
+    if (credit.status !== 'pending') throw new CompOffError('this credit has already been decided');
+  }
+
+  private async decide(id: string, updates: Partial<CompOffCredit>): Promise<CompOffCredit> {
+    const data = await this.withRetry(async () => {
+      const { data, error } = await this.client
+        .from('comp_off_credits')
+        .update(updates)
+        .eq('id', id)
+        .eq('status', 'pending')
+        .select()
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    }, `Decide comp-off credit ${id}`);
+
+    // Someone else decided it first
+    if (!data) throw new CompOffError('this credit has already been decided');
+    return { ...data, days: Number(data.days) } as CompOffCredit;
+  }
+}
+
+export const compOffService = new CompOffService();
@@ -1,10 +1,48 @@
 // src/services/exportService.ts
 import { BaseService } from './baseService';
+import { FINAL_RUN_STATUSES, payrollRunService } from './payrollRunService';
+import { settingsService } from './settingsService';
+import { geofenceService } from './geofenceService';
+import { AttendanceDailySummary, BankPayoutFormat, BreakType, GeofenceStatus, LeaveHalf, Payroll, PayrollRun } from '@/types/hrms';
+import { countLeaveDuration, LEAVE_HALF_LABELS } from '@/lib/businessCalendar';
+import { formatDistance, GEOFENCE_STATUS_LABELS } from '@/lib/geofence';
+import { BREAK_TYPE_LABELS } from '@/lib/attendanceBreaks';
+import { UtilizationReport } from '@/lib/timesheets';
+import { DomainError } from '@/lib/domainError';
+import {
+  BANK_PAYOUT_FORMATS,
+  PayoutEntry,
+  PayoutOptions,
+  PayoutValidation,
+  renderPayoutFile,
+  validatePayoutEntries,
+} from '@/lib/bankPayout';
+import {
+  consolidateContributions,
+  renderEcrFile,
+  renderEsicFile,
+  StatutoryContribution,
+  StatutoryIssue,
+  StatutoryMember,
+  StatutoryPayrollRow,
+  StatutoryScheme,
+  StatutorySummary,
+  summarizeStatutoryReturns,
+  validateStatutoryReturns,
+} from '@/lib/statutoryReturns';
+
+export type BankPayoutPreview = PayoutValidation & { totalAmount: number };
+
+export interface StatutoryReturns {
+  contributions: StatutoryContribution[];
+  issues: StatutoryIssue[];
+  summary: StatutorySummary;
+}
 
 class ExportService extends BaseService {
   async exportToCSV(data: any[], filename: string): Promise<void> {
     if (!data || data.length === 0) {
-      throw new Error('No data to export');
+      throw new DomainError('No data to export');
     }
 
     // Get headers from first object
@@ -52,6 +90,7 @@ class ExportService extends BaseService {
       'Year': p.year,
       'Base Salary': p.base_salary || 0,
       'Allowances': p.allowances || 0,
+      'TDS': p.tds_amount || 0,
       'Deductions': p.total_deductions || 0,
       'Net Salary': p.net_salary || 0,
       'Status': p.status || 'pending',
@@ -61,26 +100,90 @@ class ExportService extends BaseService {
     await this.exportToCSV(data, 'payroll');
   }
 
-  async exportAttendanceToCSV(attendance: any[]): Promise<void> {
+  /**
+   * One row per punch segment. Each punch shows the office it was made at, or
+   * how far it was from the nearest one when outside every fence.
+   */
+  async exportAttendanceToCSV(companyId: string, attendance: any[]): Promise<void> {
+    const offices = await geofenceService.getOfficeLocations(companyId);
+    const officeName = (officeId: string | null, distance: number | null) => {
+      if (officeId) return offices.find(o => o.id === officeId)?.name || '';
+      return distance !== null && distance !== undefined ? `Outside (${formatDistance(Number(distance))})` : '';
+    };
+
     const data = attendance.map(a => ({
       'Employee ID': a.user_id,
-      'Date': a.date,
+      'Date': a.work_date || '',
       'Sign In': a.sign_in_time ? a.sign_in_time.split('T')[1] : '',
       'Sign Out': a.sign_out_time ? a.sign_out_time.split('T')[1] : '',
       'Status': a.status,
+      'Break': a.break_type ? BREAK_TYPE_LABELS[a.break_type as BreakType] : '',
       'Location': a.sign_in_lat && a.sign_in_lng ? `${a.sign_in_lat}, ${a.sign_in_lng}` : '',
+      'Sign In Office': officeName(a.sign_in_office_id, a.sign_in_distance_m),
+      'Sign Out Office': officeName(a.sign_out_office_id, a.sign_out_distance_m),
+      'Geofence': a.geofence_status ? GEOFENCE_STATUS_LABELS[a.geofence_status as GeofenceStatus] : '',
     }));
 
     await this.exportToCSV(data, 'attendance');
   }
 
-  async exportLeavesToCSV(leaves: any[]): Promise<void> {
+  /**
+   * One row per day with the hours worked across its segments
+   */
+  async exportDailyAttendanceToCSV(summaries: AttendanceDailySummary[]): Promise<void> {
+    const toHours = (minutes: number) => Math.round(minutes / 60 * 100) / 100;
+    const data = summaries.map(d => ({
+      'Employee ID': d.user_id,
+      'Date': d.work_date,
+      'First Sign In': d.first_sign_in ? d.first_sign_in.split('T')[1] : '',
+      'Last Sign Out': d.last_sign_out ? d.last_sign_out.split('T')[1] : '',
+      'Segments': d.segment_count,
+      'Worked Hours': toHours(d.worked_minutes),
+      'Lunch Break Hours': toHours(d.lunch_break_minutes),
+      'Personal Break Hours': toHours(d.personal_break_minutes),
+      'Official Break Hours': toHours(d.official_break_minutes),
+      'Status': d.status || '',
+      'Late Minutes': d.late_minutes,
+      'Overtime Hours': Number(d.overtime_hours),
+    }));
+
+    await this.exportToCSV(data, 'daily_attendance');
+  }
+
+  /**
+   * Utilization of a period, one row per employee or per department, with
+   * the company total last
+   */
+  async exportUtilizationToCSV(report: UtilizationReport, groupBy: 'employee' | 'department'): Promise<void> {
+    const toHours = (minutes: number) => Math.round(minutes / 60 * 100) / 100;
+    const rows = groupBy === 'employee' ? report.employees : report.departments;
+    const data = [...rows, report.total].map(r => ({
+      ...(groupBy === 'employee'
+        ? { 'Employee': r.name, 'Department': r.department }
+        : { 'Department': r.name, 'Employees': r.headcount }),
+      'Attended Hours': toHours(r.attendedMinutes),
+      'Billable Hours': toHours(r.billableMinutes),
+      'Non-billable Hours': toHours(r.nonBillableMinutes),
+      'Unlogged Hours': toHours(Math.max(0, r.attendedMinutes - r.billableMinutes - r.nonBillableMinutes)),
+      'Utilization %': r.utilization ?? '',
+    }));
+
+    await this.exportToCSV(data, `utilization_${groupBy}_${report.startDate}_${report.endDate}`);
+  }
+
+  /**
+   * Days are working days: the count stored on the request, or counted against
+   * the company calendar for requests from before it was stored
+   */
+  async exportLeavesToCSV(companyId: string, leaves: any[]): Promise<void> {
+    const calendar = await settingsService.getBusinessCalendar(companyId);
     const data = leaves.map(l => ({
       'Employee ID': l.user_id,
       'Leave Type': l.leave_type,
       'Start Date': l.start_date,
       'End Date': l.end_date,
-      'Days': Math.ceil((new Date(l.end_date).getTime() - new Date(l.start_date).getTime()) / (1000 * 60 * 60 * 24)) + 1,
+      'Half Day': l.half_day ? LEAVE_HALF_LABELS[l.half_day as LeaveHalf] : '',
+      'Days': l.days ?? countLeaveDuration(calendar, l),
       'Reason': l.reason || '',
       'Status': l.status,
       'Applied On': l.created_at?.split('T')[0] || '',
@@ -89,7 +192,154 @@ class ExportService extends BaseService {
     await this.exportToCSV(data, 'leaves');
   }
 
-  private downloadFile(blob: Blob, filename: string): void {
+  /**
+   * Validate the net pay of a run against employees' bank details
+   */
+  async getBankPayoutPreview(run: PayrollRun): Promise<BankPayoutPreview> {
+    const entries = await this.withRetry(async () => {
+      const { data: rows, error } = await this.client
+        .from('payroll')
+        .select('id, user_id, net_salary')
+        .eq('run_id', run.id);
+      if (error) throw error;
+
+      const userIds = (rows || []).map(r => r.user_id);
+      const { data: profiles, error: profileError } = userIds.length > 0
+        ? await this.client
+            .from('profiles')
+            .select('user_id, first_name, last_name, employee_id, email, bank_account_number, bank_ifsc, bank_name')
+            .in('user_id', userIds)
+        : { data: [], error: null };
+      if (profileError) throw profileError;
+
+      return ((rows || []) as Pick<Payroll, 'id' | 'user_id' | 'net_salary'>[]).map((row): PayoutEntry => {
+        const profile = (profiles || []).find(p => p.user_id === row.user_id);
+        return {
+          payrollId: row.id,
+          userId: row.user_id,
+          employeeCode: profile?.employee_id || null,
+          beneficiaryName: profile ? `${profile.first_name} ${profile.last_name}` : row.user_id,
+          accountNumber: profile?.bank_account_number || null,
+          ifsc: profile?.bank_ifsc || null,
+          bankName: profile?.bank_name || null,
+          email: profile?.email || null,
+          amount: Number(row.net_salary || 0),
+        };
+      });
+    }, `Get bank payout ${run.id}`);
+
+    const validation = validatePayoutEntries(entries);
+    return {
+      ...validation,
+      totalAmount: validation.payable.reduce((sum, e) => sum + e.amount, 0),
+    };
+  }
+
+  /**
+   * Download the bulk-transfer file for an approved run. Generating the file
+   * locks the run so the amounts cannot drift from what the bank receives.
+   */
+  async exportBankPayoutFile(
+    run: PayrollRun,
+    format: BankPayoutFormat,
+    options: PayoutOptions
+  ): Promise<BankPayoutPreview> {
+    if (run.status !== 'approved' && run.status !== 'locked') {
+      throw new DomainError('Bank payout files can only be generated for approved or locked payroll runs');
+    }
+    if (!options.debitAccountNumber.trim()) {
+      throw new DomainError('Bank payout needs the company debit account number');
+    }
+
+    const preview = await this.getBankPayoutPreview(run);
+    if (preview.issues.some(i => i.severity === 'error')) {
+      throw new DomainError('Bank payout has validation errors; fix the bank details first');
+    }
+    if (preview.payable.length === 0) {
+      throw new DomainError('Bank payout has no payable employees in this run');
+    }
+
+    const definition = BANK_PAYOUT_FORMATS[format];
+    const content = renderPayoutFile(format, preview.payable, options);
+    const blob = new Blob([content], { type: definition.extension === 'csv' ? 'text/csv;charset=utf-8;' : 'text/plain;charset=utf-8;' });
+    this.downloadFile(
+      blob,
+      `payout_${format}_${run.year}_${String(run.month).padStart(2, '0')}_${run.id.slice(0, 8)}.${definition.extension}`
+    );
+
+    if (run.status === 'approved') {
+      await payrollRunService.transitionRun(run, 'locked', `Bank payout file generated (${definition.label})`);
+    }
+    return preview;
+  }
+
+  /**
+   * PF and ESIC contributions of a month, netted across the company's approved runs
+   */
+  async getStatutoryReturns(companyId: string, month: number, year: number): Promise<StatutoryReturns> {
+    const [rows, config] = await Promise.all([
+      this.withRetry(async () => {
+        const { data, error } = await this.client
+          .from('payroll')
+          .select('user_id, working_days, present_days, paid_leave_days, gross_salary, pf_wages, esic_wages, pf_amount, esic_amount, epf_amount, eps_amount, employer_esic_amount, created_at, run:payroll_runs!inner(run_type, status)')
+          .eq('company_id', companyId)
+          .eq('month', month)
+          .eq('year', year)
+          .in('run.status', FINAL_RUN_STATUSES);
+        if (error) throw error;
+        return (data || []).map(({ run, ...row }) => {
+          const runInfo = (Array.isArray(run) ? run[0] : run) as { run_type: StatutoryPayrollRow['run_type'] };
+          return { ...row, run_type: runInfo.run_type };
+        }) as StatutoryPayrollRow[];
+      }, `Get statutory payroll ${companyId}:${month}:${year}`),
+      settingsService.getPayrollConfig(companyId),
+    ]);
+
+    const userIds = [...new Set(rows.map(r => r.user_id))];
+    const members = userIds.length === 0 ? [] : await this.withRetry(async () => {
+      const { data, error } = await this.client
+        .from('profiles')
+        .select('user_id, first_name, last_name, employee_id, uan, esic_ip_number')
+        .in('user_id', userIds);
+      if (error) throw error;
+      return (data || []) as StatutoryMember[];
+    }, 'Get statutory members');
+
+    const contributions = consolidateContributions(rows, members, config.pf_wage_ceiling);
+    return {
+      contributions,
+      issues: validateStatutoryReturns(contributions),
+      summary: summarizeStatutoryReturns(contributions),
+    };
+  }
+
+  /**
+   * Download the EPFO ECR text file or the ESIC contribution upload for a month
+   */
+  async exportStatutoryReturn(
+    companyId: string,
+    month: number,
+    year: number,
+    scheme: StatutoryScheme
+  ): Promise<StatutorySummary> {
+    const { contributions, issues, summary } = await this.getStatutoryReturns(companyId, month, year);
+    if ((scheme === 'pf' ? summary.pfMembers : summary.esicMembers) === 0) {
+      throw new DomainError(`No ${scheme.toUpperCase()} contributions in approved payroll runs for this month`);
+    }
+    if (issues.some(i => i.scheme === scheme)) {
+      throw new DomainError(`${scheme.toUpperCase()} return has validation errors; fix employee statutory details first`);
+    }
+
+    const period = `${year}_${String(month).padStart(2, '0')}`;
+    if (scheme === 'pf') {
+      this.downloadFile(new Blob([renderEcrFile(contributions)], { type: 'text/plain;charset=utf-8;' }), `ECR_${period}.txt`);
+    } else {
+      this.downloadFile(new Blob([renderEsicFile(contributions)], { type: 'text/csv;charset=utf-8;' }), `ESIC_${period}.csv`);
+    }
+    return summary;
+  }
+
+  downloadFile(blob: Blob, filename: string): void {
     const url = URL.createObjectURL(blob);
     const link = document.createElement('a');
     link.href = url;
@@ -0,0 +1,147 @@
+// src/services/geofenceService.ts
+import { BaseService } from './baseService';
+import { settingsService } from './settingsService';
+import { AttendanceSession, OfficeLocation } from '@/types/hrms';
+import { Coordinates, formatDistance, matchOffice } from '@/lib/geofence';
+import { DomainError } from '@/lib/domainError';
+
+export type OfficeLocationInput = Pick<
+  OfficeLocation,
+  'company_id' | 'name' | 'latitude' | 'longitude' | 'radius_meters' | 'is_active'
+> & { id?: string };
+
+/** Where a punch was made, for the attendance row */
+export interface PunchGeofence {
+  officeId: string | null;
+  distance: number | null;
+  flagged: boolean;
+}
+
+export class GeofenceError extends DomainError {
+  constructor(reason: string) {
+    super(`Geofence: ${reason}`);
+    this.name = 'GeofenceError';
+  }
+}
+
+class GeofenceService extends BaseService {
+  async getOfficeLocations(companyId: string): Promise<OfficeLocation[]> {
+    const cacheKey = `office_locations:${companyId}`;
+    const cached = this.getCache<OfficeLocation[]>(cacheKey);
+    if (cached) return cached;
+
+    return this.withRetry(async () => {
+      const { data, error } = await this.client
+        .from('office_locations')
+        .select('*')
+        .eq('company_id', companyId)
+        .order('name');
+
+      if (error) throw error;
+      const offices = (data || []) as OfficeLocation[];
+      this.setCache(cacheKey, offices);
+      return offices;
+    }, `Get office locations ${companyId}`);
+  }
+
+  async saveOfficeLocation(input: OfficeLocationInput): Promise<OfficeLocation> {
+    if (Math.abs(input.latitude) > 90 || Math.abs(input.longitude) > 180) {
+      throw new GeofenceError('the coordinates are outside the valid range');
+    }
+    if (input.radius_meters <= 0) {
+      throw new GeofenceError('the radius must be greater than zero');
+    }
+
+    return this.withRetry(async () => {
+      const { id, ...rest } = input;
+      const values = { ...rest, name: rest.name.trim() };
+      const query = id
+        ? this.client.from('office_locations').update(values).eq('id', id)
+        : this.client.from('office_locations').insert(values);
+      const { data, error } = await query.select().single();
+
+      if (error) throw error;
+      this.clearCache(`office_locations:${input.company_id}`);
+      return data as OfficeLocation;
+    }, `Save office location ${input.name}`);
+  }
+
+  async deleteOfficeLocation(id: string, companyId: string): Promise<void> {
+    return this.withRetry(async () => {
+      const { error } = await this.client
+        .from('office_locations')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+      this.clearCache(`office_locations:${companyId}`);
+    }, `Delete office location ${id}`);
+  }
+
+  /**
+   * Check a punch against the company's offices. Null when geofencing is off
+   * or no office is set up yet. A punch outside every fence is refused under
+   * the reject policy and flagged under the flag policy.
+   */
+  async checkPunch(companyId: string, position: Coordinates | null, action: 'sign in' | 'sign out'): Promise<PunchGeofence | null> {
+    const settings = await settingsService.getCompanySettings(companyId);
+    if (!settings.geofencing_enabled) return null;
+
+    const offices = (await this.getOfficeLocations(companyId)).filter(o => o.is_active);
+    if (offices.length === 0) return null;
+
+    const { office, distance } = matchOffice(offices, position);
+    if (office) return { officeId: office.id, distance, flagged: false };
+
+    if (settings.geofence_policy === 'reject') {
+      throw new GeofenceError(distance === null
+        ? `share your location to ${action}`
+        : `you are ${formatDistance(distance)} from the nearest office; ${action} on site`);
+    }
+    return { officeId: null, distance, flagged: true };
+  }
+
+  /**
+   * Sessions with a punch outside every fence, oldest first
+   */
+  async getFlaggedPunches(companyId: string): Promise<AttendanceSession[]> {
+    return this.withRetry(async () => {
+      const { data, error } = await this.client
+        .from('attendance_sessions')
+        .select('*')
+        .eq('company_id', companyId)
+        .eq('geofence_status', 'flagged')
+        .order('sign_in_time', { ascending: true });
+
+      if (error) throw error;
+      return (data || []) as AttendanceSession[];
+    }, `Get flagged punches ${companyId}`);
+  }
+
+  /**
+   * Approve or reject a flagged session. A rejected session is marked absent.
+   */
+  async reviewPunch(session: AttendanceSession, reviewedBy: string, decision: 'approved' | 'rejected'): Promise<AttendanceSession> {
+    if (session.user_id === reviewedBy) throw new GeofenceError('you cannot review your own punch');
+    if (session.geofence_status !== 'flagged') throw new GeofenceError('this punch has already been reviewed');
+
+    const data = await this.withRetry(async () => {
+      const { data, error } = await this.client
+        .from('attendance_sessions')
+        .update({ geofence_status: decision })
+        .eq('id', session.id)
+        .eq('geofence_status', 'flagged')
+        .select()
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    }, `Review punch ${session.id}`);
+
+    // Someone else reviewed it first
+    if (!data) throw new GeofenceError('this punch has already been reviewed');
+    return data as AttendanceSession;
+  }
+}
+
+export const geofenceService = new GeofenceService();
@@ -2,8 +2,24 @@
 export { BaseService } from './baseService';
 export { employeeService } from './employeeService';
 export { payrollService } from './payrollService';
+export { payrollRunService } from './payrollRunService';
+export { salaryStructureService } from './salaryStructureService';
+export { taxService } from './taxService';
+export { professionalTaxService } from './professionalTaxService';
 export { attendanceService } from './attendanceService';
 export { leaveService } from './leaveService';
+export { leavePolicyService } from './leavePolicyService';
+export { leaveTypeService } from './leaveTypeService';
+export { leaveApprovalService } from './leaveApprovalService';
+export { teamCalendarService } from './teamCalendarService';
+export { compOffService } from './compOffService';
+export { shiftRosterService } from './shiftRosterService';
+export { geofenceService } from './geofenceService';
+export { regularizationService } from './regularizationService';
+export { timesheetService } from './timesheetService';
+export { onboardingService } from './onboardingService';
+export { notificationService } from './notificationService';
 export { settingsService } from './settingsService';
 export { analyticsService } from './analyticsService';
 export { exportService } from './exportService';
+export { payslipService } from './payslipService';
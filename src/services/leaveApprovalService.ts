@@ -0,0 +1,379 @@
+// src/services/leaveApprovalService.ts
+import { BaseService } from './baseService';
+import { AppRole, LeaveApproval, LeaveApprovalConfig, LeaveApprovalKind, LeaveDelegation, LeaveRequest } from '@/types/hrms';
+import {
+  ApprovalActor,
+  buildApprovalChain,
+  canActOnApproval,
+  DEFAULT_LEAVE_APPROVAL_CONFIG,
+  findActiveDelegate,
+  getApprovalDueAt,
+  getEscalationRole,
+  isApprovalOverdue,
+} from '@/lib/leaveApproval';
+
+const APPROVAL_SETTINGS_KEY = 'leave_approval';
+
+export interface LeaveDelegationInput {
+  companyId: string;
+  delegatorId: string;
+  delegateId: string;
+  startDate: string;
+  endDate: string;
+  note?: string;
+}
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+class LeaveApprovalService extends BaseService {
+  /**
+   * Approval chain settings, stored in `company_settings` like the general settings
+   */
+  async getConfig(companyId: string): Promise<LeaveApprovalConfig> {
+    const cacheKey = `leave_approval_config:${companyId}`;
+    const cached = this.getCache<LeaveApprovalConfig>(cacheKey);
+    if (cached) return cached;
+
+    return this.withRetry(async () => {
+      const { data, error } = await this.client
+        .from('company_settings')
+        .select('setting_value')
+        .eq('company_id', companyId)
+        .eq('setting_key', APPROVAL_SETTINGS_KEY)
+        .maybeSingle();
+
+      if (error) throw error;
+      const config = { ...DEFAULT_LEAVE_APPROVAL_CONFIG, ...(data?.setting_value || {}) } as LeaveApprovalConfig;
+      this.setCache(cacheKey, config);
+      return config;
+    }, `Get leave approval config ${companyId}`);
+  }
+
+  async updateConfig(companyId: string, config: LeaveApprovalConfig): Promise<LeaveApprovalConfig> {
+    return this.withRetry(async () => {
+      const { error } = await this.client
+        .from('company_settings')
+        .upsert({
+          company_id: companyId,
+          setting_key: APPROVAL_SETTINGS_KEY,
+          setting_value: config,
+          updated_at: new Date().toISOString(),
+        }, { onConflict: 'company_id,setting_key' });
+
+      if (error) throw error;
+      this.clearCache(`leave_approval_config:${companyId}`);
+      return config;
+    }, `Update leave approval config ${companyId}`);
+  }
+
+  async getDelegations(companyId: string): Promise<LeaveDelegation[]> {
+    return this.withRetry(async () => {
+      const { data, error } = await this.client
+        .from('leave_delegations')
+        .select('*')
+        .eq('company_id', companyId)
+        .order('start_date', { ascending: false });
+
+      if (error) throw error;
+      return (data || []) as LeaveDelegation[];
+    }, `Get leave delegations ${companyId}`);
+  }
+
+  async createDelegation(input: LeaveDelegationInput): Promise<LeaveDelegation> {
+    return this.withRetry(async () => {
+      const { data, error } = await this.client
+        .from('leave_delegations')
+        .insert([{
+          company_id: input.companyId,
+          delegator_id: input.delegatorId,
+          delegate_id: input.delegateId,
+          start_date: input.startDate,
+          end_date: input.endDate,
+          note: input.note || null,
+        }])
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data as LeaveDelegation;
+    }, `Create leave delegation ${input.delegatorId}`);
+  }
+
+  async deleteDelegation(id: string): Promise<void> {
+    return this.withRetry(async () => {
+      const { error } = await this.client
+        .from('leave_delegations')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    }, `Delete leave delegation ${id}`);
+  }
+
+  /**
+   * The user's role, the colleagues they cover for today and their direct reports
+   */
+  async getActor(userId: string, companyId: string): Promise<ApprovalActor> {
+    const [roleResult, delegationResult, profileResult] = await Promise.all([
+      this.client.from('user_roles').select('role').eq('user_id', userId).maybeSingle(),
+      this.client
+        .from('leave_delegations')
+        .select('delegator_id')
+        .eq('company_id', companyId)
+        .eq('delegate_id', userId)
+        .lte('start_date', today())
+        .gte('end_date', today()),
+      this.client.from('profiles').select('id').eq('user_id', userId).maybeSingle(),
+    ]);
+    if (roleResult.error) throw roleResult.error;
+    if (delegationResult.error) throw delegationResult.error;
+    if (profileResult.error) throw profileResult.error;
+
+    let reportIds: string[] = [];
+    if (profileResult.data) {
+      const { data: reports, error } = await this.client
+        .from('profiles')
+        .select('user_id')
+        .eq('reporting_manager_id', profileResult.data.id);
+      if (error) throw error;
+      reportIds = (reports || []).map(r => r.user_id);
+    }
+
+    return {
+      userId,
+      role: (roleResult.data?.role as AppRole) || null,
+      actingFor: (delegationResult.data || []).map(d => d.delegator_id),
+      reportIds,
+    };
+  }
+
+  /**
+   * Create the approval steps for a new request, or for a request to cancel
+   * approved leave, numbered after any earlier steps. The manager step goes to
+   * the employee's reporting manager, or to their delegate while one is active.
+   */
+  async startApprovalChain(
+    request: LeaveRequest,
+    companyId: string,
+    days: number,
+    kind: LeaveApprovalKind = 'request'
+  ): Promise<LeaveApproval[]> {
+    const [config, managerId, delegations, existing] = await Promise.all([
+      this.getConfig(companyId),
+      this.getReportingManagerUserId(request.user_id),
+      this.getDelegations(companyId),
+      kind === 'request' ? Promise.resolve([]) : this.getRequestApprovals([request.id]),
+    ]);
+    const firstStep = existing.reduce((max, a) => Math.max(max, a.step), 0) + 1;
+    const chain = buildApprovalChain(config, { days, hasManager: !!managerId });
+    const delegateId = managerId ? findActiveDelegate(delegations, managerId, today()) : null;
+
+    return this.withRetry(async () => {
+      const { data, error } = await this.client
+        .from('leave_approvals')
+        .insert(chain.map((role, index) => ({
+          company_id: companyId,
+          leave_request_id: request.id,
+          step: firstStep + index,
+          kind,
+          approver_role: role,
+          assigned_to: role === 'manager' ? delegateId || managerId : null,
+          delegated_from: role === 'manager' && delegateId ? managerId : null,
+          status: index === 0 ? 'pending' : 'waiting',
+          due_at: index === 0 ? getApprovalDueAt(new Date(), config.sla_hours) : null,
+        })))
+        .select();
+
+      if (error) throw error;
+      return (data || []) as LeaveApproval[];
+    }, `Start approval chain ${request.id}`);
+  }
+
+  /**
+   * Every step of the given requests, in chain order
+   */
+  async getRequestApprovals(requestIds: string[]): Promise<LeaveApproval[]> {
+    if (requestIds.length === 0) return [];
+
+    return this.withRetry(async () => {
+      const { data, error } = await this.client
+        .from('leave_approvals')
+        .select('*')
+        .in('leave_request_id', requestIds)
+        .order('step', { ascending: true });
+
+      if (error) throw error;
+      return (data || []) as LeaveApproval[];
+    }, 'Get leave request approvals');
+  }
+
+  /**
+   * Pending steps the user can act on, oldest first, with the request and the
+   * requester's profile. HR and owners escalate overdue steps as they look.
+   */
+  async getInbox(userId: string, companyId: string): Promise<LeaveApproval[]> {
+    const actor = await this.getActor(userId, companyId);
+    if (actor.role === 'admin' || actor.role === 'owner') {
+      await this.escalateOverdue(companyId);
+    }
+
+    return this.withRetry(async () => {
+      const { data, error } = await this.client
+        .from('leave_approvals')
+        .select('*, leave_request:leave_requests(*)')
+        .eq('company_id', companyId)
+        .eq('status', 'pending')
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      const approvals = ((data || []) as LeaveApproval[]).filter(
+        a => a.leave_request && canActOnApproval(a, a.leave_request.user_id, actor)
+      );
+      if (approvals.length === 0) return [];
+
+      const userIds = [...new Set(approvals.map(a => a.leave_request!.user_id))];
+      const { data: profiles, error: profileError } = await this.client
+        .from('profiles')
+        .select('*')
+        .in('user_id', userIds);
+      if (profileError) throw profileError;
+
+      const profileMap = new Map((profiles || []).map(p => [p.user_id, p]));
+      return approvals.map(a => ({
+        ...a,
+        leave_request: { ...a.leave_request!, profile: profileMap.get(a.leave_request!.user_id) },
+      }));
+    }, `Get leave approval inbox ${userId}`);
+  }
+
+  /**
+   * Move steps past their SLA to the next level: the next step of the chain if
+   * there is one, otherwise a new step one level up. Owner steps stay put.
+   */
+  async escalateOverdue(companyId: string): Promise<number> {
+    const [config, pending] = await Promise.all([
+      this.getConfig(companyId),
+      this.withRetry(async () => {
+        const { data, error } = await this.client
+          .from('leave_approvals')
+          .select('*')
+          .eq('company_id', companyId)
+          .eq('status', 'pending')
+          .lt('due_at', new Date().toISOString());
+
+        if (error) throw error;
+        return (data || []) as LeaveApproval[];
+      }, `Get overdue leave approvals ${companyId}`),
+    ]);
+
+    const now = new Date();
+    let escalated = 0;
+    for (const approval of pending.filter(a => isApprovalOverdue(a, now))) {
+      const next = await this.getNextStep(approval);
+      const escalationRole = getEscalationRole(approval.approver_role);
+      if (!next && !escalationRole) continue;
+
+      // Only one caller wins the step; the rest see no row and move on.
+      // The chain trigger opens the next waiting step.
+      const { data: claimed, error: claimError } = await this.client
+        .from('leave_approvals')
+        .update({ status: 'escalated', acted_at: now.toISOString() })
+        .eq('id', approval.id)
+        .eq('status', 'pending')
+        .select();
+      if (claimError) throw claimError;
+      if (!claimed || claimed.length === 0) continue;
+
+      if (!next) {
+        const { error } = await this.client
+          .from('leave_approvals')
+          .insert([{
+            company_id: companyId,
+            leave_request_id: approval.leave_request_id,
+            step: approval.step + 1,
+            kind: approval.kind,
+            approver_role: escalationRole,
+            status: 'pending',
+            due_at: getApprovalDueAt(now, config.sla_hours),
+          }]);
+        if (error) throw error;
+      }
+      escalated++;
+    }
+
+    return escalated;
+  }
+
+  async getPendingApproval(requestId: string): Promise<LeaveApproval | null> {
+    const { data, error } = await this.client
+      .from('leave_approvals')
+      .select('*')
+      .eq('leave_request_id', requestId)
+      .eq('status', 'pending')
+      .maybeSingle();
+
+    if (error) throw error;
+    return data as LeaveApproval | null;
+  }
+
+  async getNextStep(approval: LeaveApproval): Promise<LeaveApproval | null> {
+    const { data, error } = await this.client
+      .from('leave_approvals')
+      .select('*')
+      .eq('leave_request_id', approval.leave_request_id)
+      .eq('status', 'waiting')
+      .gt('step', approval.step)
+      .order('step', { ascending: true })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data as LeaveApproval | null;
+  }
+
+  /**
+   * Record the actor's decision on a step. The chain trigger opens the next
+   * step after an approval and cancels the remaining ones after a rejection.
+   */
+  async completeStep(
+    approval: LeaveApproval,
+    status: 'approved' | 'rejected',
+    actedBy: string,
+    comment?: string | null
+  ): Promise<void> {
+    const { error } = await this.client
+      .from('leave_approvals')
+      .update({
+        status,
+        acted_by: actedBy,
+        acted_at: new Date().toISOString(),
+        comment: comment || null,
+      })
+      .eq('id', approval.id)
+      .eq('status', 'pending');
+
+    if (error) throw error;
+  }
+
+  private async getReportingManagerUserId(userId: string): Promise<string | null> {
+    const { data: profile, error } = await this.client
+      .from('profiles')
+      .select('reporting_manager_id')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!profile?.reporting_manager_id) return null;
+
+    const { data: manager, error: managerError } = await this.client
+      .from('profiles')
+      .select('user_id')
+      .eq('id', profile.reporting_manager_id)
+      .maybeSingle();
+
+    if (managerError) throw managerError;
+    return manager?.user_id || null;
+  }
+}
+
+export const leaveApprovalService = new LeaveApprovalService();
@@ -0,0 +1,233 @@
+// src/services/leavePolicyService.ts
+import { BaseService } from './baseService';
+import { LeaveLedgerEntry, LeavePolicy, LeaveTypeCode, Profile } from '@/types/hrms';
+import {
+  AccrualCredit,
+  AccrualEmployee,
+  computeAccrual,
+  getEncashmentAmount,
+  LeavePolicyInput,
+  settleLeaveYear,
+} from '@/lib/leavePolicy';
+
+export interface YearEndResult {
+  lapsedDays: number;
+  encashedDays: number;
+  encashedAmount: number;
+}
+
+type LedgerBalanceRow = Pick<LeaveLedgerEntry, 'user_id' | 'leave_type' | 'entry_type' | 'days' | 'period' | 'effective_date'>;
+
+const balanceKey = (userId: string, leaveType: LeaveTypeCode) => `${userId}:${leaveType}`;
+
+class LeavePolicyService extends BaseService {
+  async getPolicies(companyId: string): Promise<LeavePolicy[]> {
+    const cacheKey = `leave_policies:${companyId}`;
+    const cached = this.getCache<LeavePolicy[]>(cacheKey);
+    if (cached) return cached;
+
+    return this.withRetry(async () => {
+      const { data, error } = await this.client
+        .from('leave_policies')
+        .select('*')
+        .eq('company_id', companyId)
+        .order('leave_type', { ascending: true });
+
+      if (error) throw error;
+      const policies = (data || []).map(p => ({
+        ...p,
+        accrual_days: Number(p.accrual_days),
+        max_balance: p.max_balance === null ? null : Number(p.max_balance),
+        carry_forward_limit: p.carry_forward_limit === null ? null : Number(p.carry_forward_limit),
+      })) as LeavePolicy[];
+      this.setCache(cacheKey, policies);
+      return policies;
+    }, `Get leave policies ${companyId}`);
+  }
+
+  async savePolicy(companyId: string, policy: LeavePolicyInput): Promise<LeavePolicy> {
+    return this.withRetry(async () => {
+      const { data, error } = await this.client
+        .from('leave_policies')
+        .upsert({ ...policy, company_id: companyId }, { onConflict: 'company_id,leave_type' })
+        .select()
+        .single();
+
+      if (error) throw error;
+      this.clearCache(`leave_policies:${companyId}`);
+      return data as LeavePolicy;
+    }, `Save leave policy ${policy.leave_type}`);
+  }
+
+  async deletePolicy(companyId: string, id: string): Promise<void> {
+    return this.withRetry(async () => {
+      const { error } = await this.client
+        .from('leave_policies')
+        .delete()
+        .eq('id', id)
+        .eq('company_id', companyId);
+
+      if (error) throw error;
+      this.clearCache(`leave_policies:${companyId}`);
+    }, `Delete leave policy ${id}`);
+  }
+
+  /**
+   * Credit a month's accrual to every employee. Employees already credited for
+   * the month (or, for annual policies, the year) are skipped, so this can be re-run.
+   */
+  async runAccruals(companyId: string, month: number, year: number, createdBy?: string): Promise<AccrualCredit[]> {
+    return this.withRetry(async () => {
+      const policies = await this.getPolicies(companyId);
+      if (policies.length === 0) return [];
+
+      const [employees, ledger] = await Promise.all([
+        this.getEmployees(companyId),
+        this.getLedgerRows(companyId),
+      ]);
+
+      const balances = this.sumBalances(ledger);
+      const monthPeriod = `${year}-${String(month).padStart(2, '0')}`;
+      const alreadyCredited = new Set(
+        ledger
+          .filter(e => e.entry_type === 'accrual' && (e.period === monthPeriod || e.period === String(year)))
+          .map(e => `${balanceKey(e.user_id, e.leave_type)}:${e.period}`)
+      );
+
+      const credits = employees.flatMap(employee => policies
+        .map(policy => computeAccrual(
+          policy,
+          employee,
+          balances.get(balanceKey(employee.user_id, policy.leave_type)) || 0,
+          month,
+          year
+        ))
+        .filter((credit): credit is AccrualCredit =>
+          !!credit && !alreadyCredited.has(`${balanceKey(credit.userId, credit.leaveType)}:${credit.period}`)
+        )
+      );
+
+      if (credits.length > 0) {
+        const { error } = await this.client
+          .from('leave_ledger')
+          .insert(credits.map(credit => ({
+            company_id: companyId,
+            user_id: credit.userId,
+            leave_type: credit.leaveType,
+            entry_type: 'accrual',
+            days: credit.days,
+            effective_date: credit.effectiveDate,
+            period: credit.period,
+            created_by: createdBy || null,
+          })));
+        if (error) throw error;
+      }
+
+      this.clearCache('leave_balance:');
+      return credits;
+    }, `Run leave accrual ${month}/${year}`);
+  }
+
+  /**
+   * Settle the leave year: days above each policy's carry-forward limit lapse or
+   * are encashed. Encashment is paid through the January payroll of the next year.
+   */
+  async closeLeaveYear(companyId: string, year: number, createdBy?: string): Promise<YearEndResult> {
+    return this.withRetry(async () => {
+      const policies = await this.getPolicies(companyId);
+      const [employees, ledger] = await Promise.all([
+        this.getEmployees(companyId),
+        this.getLedgerRows(companyId),
+      ]);
+
+      const yearEnd = `${year}-12-31`;
+      const balances = this.sumBalances(ledger.filter(e => e.effective_date <= yearEnd));
+      const alreadySettled = new Set(
+        ledger
+          .filter(e => (e.entry_type === 'lapse' || e.entry_type === 'encashment') && e.period === String(year))
+          .map(e => balanceKey(e.user_id, e.leave_type))
+      );
+
+      const result: YearEndResult = { lapsedDays: 0, encashedDays: 0, encashedAmount: 0 };
+      const entries = employees.flatMap(employee => policies.flatMap(policy => {
+        const key = balanceKey(employee.user_id, policy.leave_type);
+        if (alreadySettled.has(key)) return [];
+
+        const settlement = settleLeaveYear(policy, balances.get(key) || 0);
+        const base = {
+          company_id: companyId,
+          user_id: employee.user_id,
+          leave_type: policy.leave_type,
+          period: String(year),
+          created_by: createdBy || null,
+        };
+        const rows = [];
+        if (settlement.lapse > 0) {
+          result.lapsedDays += settlement.lapse;
+          rows.push({
+            ...base,
+            entry_type: 'lapse',
+            days: -settlement.lapse,
+            effective_date: yearEnd,
+            note: `Above carry-forward limit for ${year}`,
+          });
+        }
+        if (settlement.encash > 0) {
+          const amount = getEncashmentAmount(settlement.encash, employee.monthly_salary, employee.salary_type);
+          result.encashedDays += settlement.encash;
+          result.encashedAmount += amount;
+          rows.push({
+            ...base,
+            entry_type: 'encashment',
+            days: -settlement.encash,
+            effective_date: `${year + 1}-01-01`,
+            amount,
+            note: `Encashed at year end ${year}`,
+          });
+        }
+        return rows;
+      }));
+
+      if (entries.length > 0) {
+        const { error } = await this.client
+          .from('leave_ledger')
+          .insert(entries);
+        if (error) throw error;
+      }
+
+      this.clearCache('leave_balance:');
+      return result;
+    }, `Close leave year ${year}`);
+  }
+
+  private async getEmployees(companyId: string): Promise<(AccrualEmployee & Pick<Profile, 'monthly_salary' | 'salary_type'>)[]> {
+    const { data, error } = await this.client
+      .from('profiles')
+      .select('user_id, date_of_joining, monthly_salary, salary_type')
+      .eq('company_id', companyId);
+
+    if (error) throw error;
+    return (data || []).map(p => ({ ...p, monthly_salary: Number(p.monthly_salary || 0) }));
+  }
+
+  private async getLedgerRows(companyId: string): Promise<LedgerBalanceRow[]> {
+    return this.fetchAllPages((from, to) => this.client
+      .from('leave_ledger')
+      .select('user_id, leave_type, entry_type, days, period, effective_date')
+      .eq('company_id', companyId)
+      .order('id', { ascending: true })
+      .range(from, to)
+    ) as Promise<LedgerBalanceRow[]>;
+  }
+
+  private sumBalances(ledger: LedgerBalanceRow[]): Map<string, number> {
+    const balances = new Map<string, number>();
+    ledger.forEach(entry => {
+      const key = balanceKey(entry.user_id, entry.leave_type);
+      balances.set(key, (balances.get(key) || 0) + Number(entry.days || 0));
+    });
+    return balances;
+  }
+}
+
+export const leavePolicyService = new LeavePolicyService();
@@ -1,6 +1,50 @@
 // src/services/leaveService.ts
 import { BaseService, PaginationParams } from './baseService';
-import { LeaveRequest, LeaveBalance, LeaveType, LeaveStatus } from '@/types/hrms';
+import { leaveApprovalService } from './leaveApprovalService';
+import { compOffService } from './compOffService';
+import { leavePolicyService } from './leavePolicyService';
+import { leaveTypeService } from './leaveTypeService';
+import { settingsService } from './settingsService';
+import { LeaveHalf, LeaveRequest, LeaveLedgerEntry, LeaveTypeCode, LeaveStatus } from '@/types/hrms';
+import { countLeaveDuration, createBusinessCalendar } from '@/lib/businessCalendar';
+import { canActOnApproval, LEAVE_APPROVER_LABELS } from '@/lib/leaveApproval';
+import { LeaveBalanceSummary, LedgerBalanceEntry, sumLedger, summarizeLedger } from '@/lib/leavePolicy';
+import { validateLeaveRequest } from '@/lib/leaveTypes';
+import { COMP_OFF_LEAVE_TYPE } from '@/lib/compOff';
+import { DomainError } from '@/lib/domainError';
+
+const ATTACHMENT_BUCKET = 'leave-attachments';
+
+export class InsufficientLeaveBalanceError extends DomainError {
+  constructor(leaveTypeName: string, available: number, requested: number) {
+    super(`Insufficient ${leaveTypeName.toLowerCase()} balance: ${available} day(s) available, ${requested} requested`);
+    this.name = 'InsufficientLeaveBalanceError';
+  }
+}
+
+export class LeaveRequestRuleError extends DomainError {
+  constructor(issues: string[]) {
+    super(`Cannot submit leave request: ${issues.join('; ')}`);
+    this.name = 'LeaveRequestRuleError';
+  }
+}
+
+export class LeaveApprovalError extends DomainError {
+  constructor(reason: string) {
+    super(`Leave approval: ${reason}`);
+    this.name = 'LeaveApprovalError';
+  }
+}
+
+export interface LeaveAdjustmentInput {
+  userId: string;
+  companyId: string;
+  leaveType: LeaveTypeCode;
+  /** Positive to credit, negative to debit */
+  days: number;
+  note: string;
+  createdBy: string;
+}
 
 class LeaveService extends BaseService {
   async getLeaveRequests(filters: PaginationParams = {}): Promise<any> {
@@ -25,40 +69,157 @@ class LeaveService extends BaseService {
     }, `Get leave request ${id}`);
   }
 
-  async getLeaveBalance(userId: string): Promise<LeaveBalance> {
+  /**
+   * Current balance per leave type, summed from the employee's ledger once
+   * expired comp-off has lapsed
+   */
+  async getLeaveBalance(userId: string): Promise<LeaveBalanceSummary[]> {
     const cacheKey = `leave_balance:${userId}`;
-    const cached = this.getCache<LeaveBalance>(cacheKey);
+    const cached = this.getCache<LeaveBalanceSummary[]>(cacheKey);
     if (cached) return cached;
 
+    return this.withRetry(async () => {
+      const profileResult = await this.client
+        .from('profiles')
+        .select('company_id')
+        .eq('user_id', userId)
+        .maybeSingle();
+      if (profileResult.error) throw profileResult.error;
+
+      const companyId = profileResult.data?.company_id;
+      if (companyId) await compOffService.expireCredits(companyId, userId);
+
+      const ledgerResult = await this.client
+        .from('leave_ledger')
+        .select('leave_type, entry_type, days, effective_date')
+        .eq('user_id', userId);
+      if (ledgerResult.error) throw ledgerResult.error;
+
+      const [leaveTypes, policies] = companyId
+        ? await Promise.all([leaveTypeService.getLeaveTypes(companyId), leavePolicyService.getPolicies(companyId)])
+        : [[], []];
+      const balances = summarizeLedger(
+        (ledgerResult.data || []) as LedgerBalanceEntry[],
+        leaveTypes,
+        policies,
+        new Date().getFullYear()
+      );
+      this.setCache(cacheKey, balances);
+      return balances;
+    }, `Get leave balance ${userId}`);
+  }
+
+  async getLeaveLedger(userId: string): Promise<LeaveLedgerEntry[]> {
     return this.withRetry(async () => {
       const { data, error } = await this.client
-        .from('leave_balances')
+        .from('leave_ledger')
         .select('*')
         .eq('user_id', userId)
+        .order('effective_date', { ascending: false })
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return (data || []).map(e => ({
+        ...e,
+        days: Number(e.days),
+        amount: e.amount === null ? null : Number(e.amount),
+      })) as LeaveLedgerEntry[];
+    }, `Get leave ledger ${userId}`);
+  }
+
+  /**
+   * Manual credit or debit, e.g. to correct a migrated balance
+   */
+  async adjustLeaveBalance(input: LeaveAdjustmentInput): Promise<LeaveLedgerEntry> {
+    return this.withRetry(async () => {
+      const { data, error } = await this.client
+        .from('leave_ledger')
+        .insert([{
+          company_id: input.companyId,
+          user_id: input.userId,
+          leave_type: input.leaveType,
+          entry_type: 'adjustment',
+          days: input.days,
+          note: input.note,
+          created_by: input.createdBy,
+        }])
+        .select()
         .single();
 
       if (error) throw error;
-      this.setCache(cacheKey, data);
-      return data as LeaveBalance;
-    }, `Get leave balance ${userId}`);
+      this.clearCache(`leave_balance:${input.userId}`);
+      return data as LeaveLedgerEntry;
+    }, `Adjust leave balance ${input.userId}`);
   }
 
+  /**
+   * Submit a request after checking the leave type's rules and open its
+   * approval chain; the supporting document, if any, is stored under the
+   * employee's folder
+   */
   async createLeaveRequest(data: {
     userId: string;
-    leaveType: LeaveType;
+    companyId: string;
+    leaveType: LeaveTypeCode;
     startDate: string;
     endDate: string;
+    /** Only for single-day requests */
+    halfDay?: LeaveHalf | null;
     reason?: string;
+    attachment?: File | null;
+    /** Approved request of the same employee this one changes */
+    modifiesRequestId?: string | null;
   }): Promise<LeaveRequest> {
-    return this.withRetry(async () => {
+    const original = data.modifiesRequestId
+      ? await this.getModifiableRequest(data.modifiesRequestId, data.userId)
+      : null;
+    const [leaveTypes, calendar, profileResult] = await Promise.all([
+      leaveTypeService.getLeaveTypes(data.companyId),
+      settingsService.getBusinessCalendar(data.companyId),
+      this.client
+        .from('profiles')
+        .select('gender, date_of_joining')
+        .eq('user_id', data.userId)
+        .maybeSingle(),
+    ]);
+    if (profileResult.error) throw profileResult.error;
+
+    const type = leaveTypes.find(t => t.code === data.leaveType);
+    if (!type) throw new LeaveRequestRuleError([`unknown leave type "${data.leaveType}"`]);
+    const issues = validateLeaveRequest(type, profileResult.data, {
+      startDate: data.startDate,
+      endDate: data.endDate,
+      hasAttachment: !!data.attachment || !!original?.attachment_path,
+    });
+    const halfDay = data.startDate === data.endDate ? data.halfDay || null : null;
+    const days = countLeaveDuration(calendar, { start_date: data.startDate, end_date: data.endDate, half_day: halfDay });
+    if (days === 0) issues.push('the selected dates are all weekly offs or holidays');
+    if (issues.length > 0) throw new LeaveRequestRuleError(issues);
+
+    const request = await this.withRetry(async () => {
+      let attachmentPath: string | null = null;
+      if (data.attachment) {
+        const extension = data.attachment.name.split('.').pop();
+        attachmentPath = `${data.userId}/${Date.now()}${extension ? `.${extension}` : ''}`;
+        const { error: uploadError } = await this.client.storage
+          .from(ATTACHMENT_BUCKET)
+          .upload(attachmentPath, data.attachment, { contentType: data.attachment.type });
+        if (uploadError) throw uploadError;
+      }
+
       const { data: inserted, error } = await this.client
         .from('leave_requests')
         .insert([{
           user_id: data.userId,
+          company_id: data.companyId,
           leave_type: data.leaveType,
           start_date: data.startDate,
           end_date: data.endDate,
+          half_day: halfDay,
+          days,
           reason: data.reason,
+          attachment_path: attachmentPath || original?.attachment_path || null,
+          modifies_request_id: original?.id || null,
           status: 'pending',
           created_at: new Date().toISOString(),
           updated_at: new Date().toISOString(),
@@ -68,16 +229,96 @@ class LeaveService extends BaseService {
 
       if (error) throw error;
       this.clearCache(`leave_request:${inserted.id}`);
+      this.clearCache(`user_leave_requests:${data.userId}`);
+      this.clearCache('pending_leave_requests');
       return inserted as LeaveRequest;
     }, 'Create leave request');
+
+    await leaveApprovalService.startApprovalChain(request, data.companyId, days);
+    return request;
   }
 
+  /**
+   * Short-lived link to a request's supporting document
+   */
+  async getAttachmentUrl(path: string): Promise<string> {
+    return this.withRetry(async () => {
+      const { data, error } = await this.client.storage
+        .from(ATTACHMENT_BUCKET)
+        .createSignedUrl(path, 60 * 10);
+
+      if (error) throw error;
+      return data.signedUrl;
+    }, 'Get leave attachment URL');
+  }
+
+  /**
+   * Approve the request's open step. Until the last step the request stays
+   * pending and moves to the next approver; the last approval debits its working
+   * days from the balance, for types that carry one. Days are recounted against
+   * the current holiday calendar.
+   */
   async approveLeaveRequest(id: string, approvedBy: string): Promise<LeaveRequest> {
+    this.clearCache(`leave_request:${id}`);
+    const request = await this.getLeaveRequestById(id);
+    const approval = await this.authorizeApprover(request, approvedBy);
+    const nextStep = approval ? await leaveApprovalService.getNextStep(approval) : null;
+
+    if (approval && nextStep) {
+      return this.withRetry(async () => {
+        await leaveApprovalService.completeStep(approval, 'approved', approvedBy);
+        return request;
+      }, `Approve leave request ${id}`);
+    }
+
+    if (request.status === 'cancellation_requested') {
+      // The status trigger credits the leave back and clears it from attendance
+      return this.withRetry(async () => {
+        const data = await this.updateStatus(id, 'cancelled');
+        if (approval) await leaveApprovalService.completeStep(approval, 'approved', approvedBy);
+        this.clearCache(`leave_balance:${request.user_id}`);
+        this.clearCache(`user_leave_requests:${request.user_id}`);
+        return data;
+      }, `Approve leave cancellation ${id}`);
+    }
+
+    const [leaveTypes, calendar] = request.company_id
+      ? await Promise.all([
+          leaveTypeService.getLeaveTypes(request.company_id),
+          settingsService.getBusinessCalendar(request.company_id),
+        ])
+      : [[], createBusinessCalendar(null)];
+    const days = countLeaveDuration(calendar, request);
+    const type = leaveTypes.find(t => t.code === request.leave_type);
+    const tracksBalance = type ? type.tracks_balance : true;
+
+    if (tracksBalance) {
+      if (request.leave_type === COMP_OFF_LEAVE_TYPE && request.company_id) {
+        await compOffService.expireCredits(request.company_id, request.user_id);
+      }
+      // A modification frees the days of the leave it replaces
+      const [available, replacedDays] = await Promise.all([
+        this.getAvailableDays(request.user_id, request.leave_type),
+        request.modifies_request_id
+          ? this.getConsumedDays(request.modifies_request_id, request.leave_type)
+          : Promise.resolve(0),
+      ]);
+      if (available + replacedDays < days) {
+        throw new InsufficientLeaveBalanceError(type?.name || request.leave_type, available + replacedDays, days);
+      }
+    }
+
     return this.withRetry(async () => {
+      // The step closes last: approvers keep access to the request until then
+      if (tracksBalance && days > 0) {
+        await this.recordConsumption(request, days, approvedBy);
+      }
+
       const { data, error } = await this.client
         .from('leave_requests')
         .update({
           status: 'approved' as LeaveStatus,
+          days,
           approved_by: approvedBy,
           approved_at: new Date().toISOString(),
           updated_at: new Date().toISOString(),
@@ -87,18 +328,41 @@ class LeaveService extends BaseService {
         .single();
 
       if (error) throw error;
+      if (approval) await leaveApprovalService.completeStep(approval, 'approved', approvedBy);
       this.clearCache(`leave_request:${id}`);
+      if (request.modifies_request_id) this.clearCache(`leave_request:${request.modifies_request_id}`);
+      this.clearCache(`leave_balance:${request.user_id}`);
+      this.clearCache(`user_leave_requests:${request.user_id}`);
       return data as LeaveRequest;
     }, `Approve leave request ${id}`);
   }
 
-  async rejectLeaveRequest(id: string, rejectionReason: string): Promise<LeaveRequest> {
+  /**
+   * Reject the request at its open step; the rest of the chain is cancelled.
+   * Turning down a cancellation keeps the leave approved.
+   */
+  async rejectLeaveRequest(id: string, rejectedBy: string, rejectionReason: string): Promise<LeaveRequest> {
+    this.clearCache(`leave_request:${id}`);
+    const request = await this.getLeaveRequestById(id);
+    const approval = await this.authorizeApprover(request, rejectedBy);
+
+    if (request.status === 'cancellation_requested') {
+      return this.withRetry(async () => {
+        const data = await this.updateStatus(id, 'approved');
+        if (approval) await leaveApprovalService.completeStep(approval, 'rejected', rejectedBy, rejectionReason);
+        this.clearCache(`user_leave_requests:${request.user_id}`);
+        return data;
+      }, `Reject leave cancellation ${id}`);
+    }
+
     return this.withRetry(async () => {
       const { data, error } = await this.client
         .from('leave_requests')
         .update({
           status: 'rejected' as LeaveStatus,
-          rejection_reason: rejectionReason,
+          rejection_reason: rejectionReason || null,
+          approved_by: rejectedBy,
+          approved_at: new Date().toISOString(),
           updated_at: new Date().toISOString(),
         })
         .eq('id', id)
@@ -106,11 +370,51 @@ class LeaveService extends BaseService {
         .single();
 
       if (error) throw error;
+      if (approval) await leaveApprovalService.completeStep(approval, 'rejected', rejectedBy, rejectionReason);
       this.clearCache(`leave_request:${id}`);
       return data as LeaveRequest;
     }, `Reject leave request ${id}`);
   }
 
+  /**
+   * Withdraw a pending request, or cancel approved leave: the employee's own
+   * goes through the approval chain again, HR cancels anyone else's directly.
+   * Cancelled leave is credited back by the status trigger.
+   */
+  async cancelLeaveRequest(id: string, cancelledBy: string, reason?: string): Promise<LeaveRequest> {
+    this.clearCache(`leave_request:${id}`);
+    const request = await this.getLeaveRequestById(id);
+    const isOwn = request.user_id === cancelledBy;
+
+    if (request.status === 'approved') {
+      const pendingChange = await this.getPendingModification(id);
+      if (pendingChange) {
+        throw new LeaveApprovalError('withdraw the pending change to this leave before cancelling it');
+      }
+      if (!isOwn) {
+        const actor = await leaveApprovalService.getActor(cancelledBy, request.company_id || '');
+        if (actor.role !== 'admin' && actor.role !== 'owner') {
+          throw new LeaveApprovalError('only HR can cancel approved leave for an employee');
+        }
+      }
+    } else if (request.status !== 'pending' || !isOwn) {
+      throw new LeaveApprovalError(`this request is ${request.status.replace('_', ' ')} and cannot be cancelled`);
+    }
+
+    const status: LeaveStatus = request.status === 'approved' && isOwn ? 'cancellation_requested' : 'cancelled';
+    const updated = await this.withRetry(
+      () => this.updateStatus(id, status, { cancellation_reason: reason || null }),
+      `Cancel leave request ${id}`
+    );
+
+    if (status === 'cancellation_requested' && request.company_id) {
+      await leaveApprovalService.startApprovalChain(updated, request.company_id, Number(request.days ?? 0), 'cancellation');
+    }
+    this.clearCache(`leave_balance:${request.user_id}`);
+    this.clearCache(`user_leave_requests:${request.user_id}`);
+    return updated;
+  }
+
   async getUserLeaveRequests(userId: string): Promise<LeaveRequest[]> {
     const cacheKey = `user_leave_requests:${userId}`;
     const cached = this.getCache<LeaveRequest[]>(cacheKey);
@@ -129,44 +433,138 @@ class LeaveService extends BaseService {
     }, `Get user leave requests ${userId}`);
   }
 
-  async getPendingLeaveRequests(): Promise<LeaveRequest[]> {
-    const cacheKey = 'pending_leave_requests';
-    const cached = this.getCache<LeaveRequest[]>(cacheKey);
-    if (cached) return cached;
+  /**
+   * Pending requests waiting on the user, oldest first
+   */
+  async getPendingLeaveRequests(userId: string, companyId: string): Promise<LeaveRequest[]> {
+    const inbox = await leaveApprovalService.getInbox(userId, companyId);
+    return inbox
+      .map(a => a.leave_request!)
+      .filter(r => r.status === 'pending' || r.status === 'cancellation_requested');
+  }
 
-    return this.withRetry(async () => {
-      const { data, error } = await this.client
-        .from('leave_requests')
-        .select('*')
-        .eq('status', 'pending')
-        .order('created_at', { ascending: true });
+  /**
+   * The open step the user may act on, or null for requests without a chain,
+   * which only HR and owners decide
+   */
+  private async authorizeApprover(request: LeaveRequest, userId: string) {
+    if (request.status !== 'pending' && request.status !== 'cancellation_requested') {
+      throw new LeaveApprovalError(`this request is already ${request.status}`);
+    }
+    if (request.user_id === userId) {
+      throw new LeaveApprovalError('you cannot decide on your own leave request');
+    }
 
-      if (error) throw error;
-      this.setCache(cacheKey, data || []);
-      return (data || []) as LeaveRequest[];
-    }, 'Get pending leave requests');
+    const [approval, actor] = await Promise.all([
+      leaveApprovalService.getPendingApproval(request.id),
+      leaveApprovalService.getActor(userId, request.company_id || ''),
+    ]);
+    if (approval) {
+      if (!canActOnApproval(approval, request.user_id, actor)) {
+        throw new LeaveApprovalError(`this request is waiting on ${LEAVE_APPROVER_LABELS[approval.approver_role].toLowerCase()} approval`);
+      }
+    } else if (actor.role !== 'admin' && actor.role !== 'owner') {
+      throw new LeaveApprovalError('only HR can decide on this request');
+    }
+    return approval;
   }
 
-  async updateLeaveBalance(userId: string, leaveType: LeaveType, days: number): Promise<LeaveBalance> {
-    return this.withRetry(async () => {
-      const balance = await this.getLeaveBalance(userId);
-      const updated = { ...balance };
-      
-      if (leaveType === 'casual') updated.casual_leave -= days;
-      else if (leaveType === 'sick') updated.sick_leave -= days;
-      else if (leaveType === 'paid') updated.paid_leave -= days;
+  private async updateStatus(
+    id: string,
+    status: LeaveStatus,
+    extra: Partial<Pick<LeaveRequest, 'cancellation_reason'>> = {}
+  ): Promise<LeaveRequest> {
+    const { data, error } = await this.client
+      .from('leave_requests')
+      .update({ status, ...extra, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select()
+      .single();
 
-      const { data, error } = await this.client
-        .from('leave_balances')
-        .update(updated)
-        .eq('user_id', userId)
-        .select()
-        .single();
+    if (error) throw error;
+    this.clearCache(`leave_request:${id}`);
+    return data as LeaveRequest;
+  }
 
-      if (error) throw error;
-      this.clearCache(`leave_balance:${userId}`);
-      return data as LeaveBalance;
-    }, `Update leave balance ${userId}`);
+  private async getPendingModification(requestId: string): Promise<LeaveRequest | null> {
+    const { data, error } = await this.client
+      .from('leave_requests')
+      .select('*')
+      .eq('modifies_request_id', requestId)
+      .eq('status', 'pending')
+      .maybeSingle();
+
+    if (error) throw error;
+    return data as LeaveRequest | null;
+  }
+
+  /**
+   * The employee's approved request that a new one may change
+   */
+  private async getModifiableRequest(id: string, userId: string): Promise<LeaveRequest> {
+    this.clearCache(`leave_request:${id}`);
+    const original = await this.getLeaveRequestById(id);
+    if (original.user_id !== userId || original.status !== 'approved') {
+      throw new LeaveRequestRuleError(['only your own approved leave can be changed']);
+    }
+    if (await this.getPendingModification(id)) {
+      throw new LeaveRequestRuleError(['a change to this leave is already waiting for approval']);
+    }
+    return original;
+  }
+
+  /**
+   * Days a request currently holds from the balance: its consumption less any reversal
+   */
+  private async getConsumedDays(requestId: string, leaveType: LeaveTypeCode): Promise<number> {
+    const { data, error } = await this.client
+      .from('leave_ledger')
+      .select('days')
+      .eq('leave_request_id', requestId)
+      .eq('leave_type', leaveType)
+      .in('entry_type', ['consumption', 'reversal']);
+
+    if (error) throw error;
+    return -sumLedger(data || []);
+  }
+
+  private async getAvailableDays(userId: string, leaveType: LeaveTypeCode): Promise<number> {
+    const { data, error } = await this.client
+      .from('leave_ledger')
+      .select('days')
+      .eq('user_id', userId)
+      .eq('leave_type', leaveType);
+
+    if (error) throw error;
+    return sumLedger(data || []);
+  }
+
+  // Safe to repeat: a request is only ever debited once
+  private async recordConsumption(request: LeaveRequest, days: number, approvedBy: string): Promise<void> {
+    const { data: existing, error: existingError } = await this.client
+      .from('leave_ledger')
+      .select('id')
+      .eq('leave_request_id', request.id)
+      .eq('entry_type', 'consumption')
+      .maybeSingle();
+
+    if (existingError) throw existingError;
+    if (existing) return;
+
+    const { error } = await this.client
+      .from('leave_ledger')
+      .insert([{
+        company_id: request.company_id,
+        user_id: request.user_id,
+        leave_type: request.leave_type,
+        entry_type: 'consumption',
+        days: -days,
+        effective_date: request.start_date,
+        leave_request_id: request.id,
+        created_by: approvedBy,
+      }]);
+
+    if (error) throw error;
   }
 }
 
@@ -0,0 +1,111 @@
+// src/services/leaveTypeService.ts
+import { BaseService } from './baseService';
+import { LeaveType } from '@/types/hrms';
+import { LeaveTypeInput } from '@/lib/leaveTypes';
+import { DomainError } from '@/lib/domainError';
+
+export class LeaveTypeInUseError extends DomainError {
+  constructor(name: string) {
+    super(`Cannot delete leave type ${name}: it has leave requests or balance history. Mark it inactive instead.`);
+    this.name = 'LeaveTypeInUseError';
+  }
+}
+
+class LeaveTypeService extends BaseService {
+  /**
+   * All of the company's leave types, retired ones included, in display order
+   */
+  async getLeaveTypes(companyId: string): Promise<LeaveType[]> {
+    const cacheKey = `leave_types:${companyId}`;
+    const cached = this.getCache<LeaveType[]>(cacheKey);
+    if (cached) return cached;
+
+    return this.withRetry(async () => {
+      const { data, error } = await this.client
+        .from('leave_types')
+        .select('*')
+        .eq('company_id', companyId)
+        .order('sort_order', { ascending: true })
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+      const types = (data || []).map(t => ({
+        ...t,
+        max_consecutive_days: t.max_consecutive_days === null ? null : Number(t.max_consecutive_days),
+      })) as LeaveType[];
+      this.setCache(cacheKey, types);
+      return types;
+    }, `Get leave types ${companyId}`);
+  }
+
+  async createLeaveType(companyId: string, input: LeaveTypeInput): Promise<LeaveType> {
+    return this.withRetry(async () => {
+      const { data, error } = await this.client
+        .from('leave_types')
+        .insert([{ ...input, company_id: companyId }])
+        .select()
+        .single();
+
+      if (error) throw error;
+      this.clearCache(`leave_types:${companyId}`);
+      return data as LeaveType;
+    }, `Create leave type ${input.code}`);
+  }
+
+  /**
+   * The code is fixed once created; requests and ledger entries refer to it
+   */
+  async updateLeaveType(companyId: string, id: string, updates: Partial<Omit<LeaveTypeInput, 'code'>>): Promise<LeaveType> {
+    return this.withRetry(async () => {
+      const { data, error } = await this.client
+        .from('leave_types')
+        .update(updates)
+        .eq('id', id)
+        .eq('company_id', companyId)
+        .select()
+        .single();
+
+      if (error) throw error;
+      this.clearCache(`leave_types:${companyId}`);
+      this.clearCache('leave_balance:');
+      return data as LeaveType;
+    }, `Update leave type ${id}`);
+  }
+
+  /**
+   * Only types that were never used can be deleted; retire the rest instead
+   */
+  async deleteLeaveType(companyId: string, type: Pick<LeaveType, 'id' | 'code' | 'name'>): Promise<void> {
+    const [requestResult, ledgerResult] = await Promise.all([
+      this.client
+        .from('leave_requests')
+        .select('id', { count: 'exact', head: true })
+        .eq('company_id', companyId)
+        .eq('leave_type', type.code),
+      this.client
+        .from('leave_ledger')
+        .select('id', { count: 'exact', head: true })
+        .eq('company_id', companyId)
+        .eq('leave_type', type.code),
+    ]);
+    if (requestResult.error) throw requestResult.error;
+    if (ledgerResult.error) throw ledgerResult.error;
+    if ((requestResult.count || 0) + (ledgerResult.count || 0) > 0) {
+      throw new LeaveTypeInUseError(type.name);
+    }
+
+    return this.withRetry(async () => {
+      const { error } = await this.client
+        .from('leave_types')
+        .delete()
+        .eq('id', type.id)
+        .eq('company_id', companyId);
+
+      if (error) throw error;
+      this.clearCache(`leave_types:${companyId}`);
+      this.clearCache(`leave_policies:${companyId}`);
+    }, `Delete leave type ${type.code}`);
+  }
+}
+
+export const leaveTypeService = new LeaveTypeService();
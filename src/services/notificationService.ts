@@ -0,0 +1,43 @@
+// src/services/notificationService.ts
+import { BaseService } from './baseService';
+import { Notification } from '@/types/hrms';
+
+/** How many notifications the bell lists */
+const NOTIFICATION_LIMIT = 30;
+
+class NotificationService extends BaseService {
+  /**
+   * The user's latest notifications, newest first. They are written by the
+   * database, e.g. when an onboarding task goes overdue.
+   */
+  async getNotifications(userId: string): Promise<Notification[]> {
+    return this.withRetry(async () => {
+      const { data, error } = await this.client
+        .from('notifications')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })
+        .limit(NOTIFICATION_LIMIT);
+
+      if (error) throw error;
+      return (data || []) as Notification[];
+    }, `Get notifications ${userId}`);
+  }
+
+  async markRead(userId: string, ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+
+    return this.withRetry(async () => {
+      const { error } = await this.client
+        .from('notifications')
+        .update({ read_at: new Date().toISOString() })
+        .eq('user_id', userId)
+        .in('id', ids)
+        .is('read_at', null);
+
+      if (error) throw error;
+    }, `Mark notifications read ${userId}`);
+  }
+}
+
+export const notificationService = new NotificationService();
@@ -0,0 +1,87 @@
+// src/services/offlinePunchStore.ts
+/**
+ * Offline punch store
+ * Punches made without a connection are kept in IndexedDB so they survive a
+ * reload or the browser closing, until the sync job replays them. Listeners
+ * hear about every change, so the UI can show what is still waiting.
+ */
+
+import { OfflinePunch } from '@/types/hrms';
+
+const DB_NAME = 'hrms-offline';
+const DB_VERSION = 1;
+const PUNCH_STORE = 'punches';
+
+const toPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export class OfflinePunchStore {
+  private db: Promise<IDBDatabase> | null = null;
+  private listeners = new Set<() => void>();
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const store = request.result.createObjectStore(PUNCH_STORE, { keyPath: 'id' });
+          store.createIndex('user_id', 'user_id');
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.db = null;
+          reject(request.error);
+        };
+      });
+    }
+    return this.db;
+  }
+
+  private async write(run: (store: IDBObjectStore) => IDBRequest): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction(PUNCH_STORE, 'readwrite');
+    run(transaction.objectStore(PUNCH_STORE));
+    await new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+    this.listeners.forEach(listener => listener());
+  }
+
+  async add(punch: OfflinePunch): Promise<void> {
+    await this.write(store => store.add(punch));
+  }
+
+  /**
+   * A user's punches in the order they were made
+   */
+  async list(userId: string): Promise<OfflinePunch[]> {
+    const db = await this.open();
+    const index = db.transaction(PUNCH_STORE, 'readonly').objectStore(PUNCH_STORE).index('user_id');
+    const punches = await toPromise(index.getAll(userId)) as OfflinePunch[];
+    return punches.sort((a, b) =>
+      a.punched_at.localeCompare(b.punched_at) || a.queued_at.localeCompare(b.queued_at)
+    );
+  }
+
+  async update(punch: OfflinePunch, changes: Partial<OfflinePunch>): Promise<void> {
+    await this.write(store => store.put({ ...punch, ...changes }));
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.write(store => store.delete(id));
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
+
+export const offlinePunchStore = new OfflinePunchStore();
@@ -0,0 +1,50 @@
+// src/services/onboardingJobs.ts
+import { jobQueue, QueueJob } from './jobQueueService';
+import { attendanceService } from './attendanceService';
+import { onboardingService } from './onboardingService';
+import { addDaysToDate, DEFAULT_TIME_ZONE, getZonedDate, zonedTimeToUtc } from '@/lib/timezone';
+
+export const NOTIFY_OVERDUE_ONBOARDING_JOB = 'onboarding.notify_overdue';
+
+/** Remind at the start of the company's working morning */
+const RUN_AT = '09:00';
+
+interface NotifyOverdueJob {
+  companyId: string;
+}
+
+const scheduledCompanies = new Set<string>();
+
+const msUntilNextRun = (timeZone: string) => {
+  const tomorrow = addDaysToDate(getZonedDate(new Date(), timeZone), 1);
+  return zonedTimeToUtc(tomorrow, RUN_AT, timeZone).getTime() - Date.now();
+};
+
+jobQueue.register<NotifyOverdueJob>(NOTIFY_OVERDUE_ONBOARDING_JOB, async (job: QueueJob<NotifyOverdueJob>) => {
+  const { companyId } = job.data;
+  let timeZone = DEFAULT_TIME_ZONE;
+  const scheduleNextRun = () =>
+    jobQueue.add<NotifyOverdueJob>(NOTIFY_OVERDUE_ONBOARDING_JOB, { companyId }, { priority: 2, delay: msUntilNextRun(timeZone) });
+
+  try {
+    timeZone = await attendanceService.getTimeZone(null, companyId);
+    const notified = await onboardingService.notifyOverdueTasks(companyId);
+    scheduleNextRun();
+    return notified;
+  } catch (error) {
+    if (job.attempts >= job.maxAttempts) scheduleNextRun();
+    throw error;
+  }
+});
+
+/**
+ * Notify the owners of overdue onboarding tasks now and every morning after,
+ * for as long as the app stays open. Each task is notified once per due date,
+ * so several admins running this at once is harmless.
+ */
+export function startOnboardingReminders(companyId: string): void {
+  if (scheduledCompanies.has(companyId)) return;
+  scheduledCompanies.add(companyId);
+  jobQueue.start();
+  jobQueue.add<NotifyOverdueJob>(NOTIFY_OVERDUE_ONBOARDING_JOB, { companyId }, { priority: 2 });
+}
@@ -0,0 +1,364 @@
+// src/services/onboardingService.ts
+import { BaseService } from './baseService';
+import { ONBOARDING_DOCUMENT_LABELS, ONBOARDING_DOCUMENT_MAX_BYTES } from '@/lib/onboarding';
+import {
+  EmployeeOnboarding,
+  OnboardingDocument,
+  OnboardingTask,
+  OnboardingTemplate,
+  OnboardingTemplateTask,
+  Profile,
+} from '@/types/hrms';
+import { DomainError } from '@/lib/domainError';
+
+const DOCUMENT_BUCKET = 'onboarding-documents';
+
+export type OnboardingTemplateInput = Pick<OnboardingTemplate, 'name' | 'department_id' | 'role' | 'is_active'>;
+export type OnboardingTemplateTaskInput = Pick<
+  OnboardingTemplateTask,
+  'title' | 'description' | 'owner_type' | 'assignee_id' | 'due_offset_days' | 'document_type'
+>;
+
+/** An onboarding as listed for admins: the new hire's profile and tasks, without documents */
+export type OnboardingSummary = EmployeeOnboarding & { profile?: Profile };
+
+/** A task someone else's onboarding is waiting on, with the new hire's profile */
+export type AssignedOnboardingTask = OnboardingTask & { profile?: Profile };
+
+export class OnboardingError extends DomainError {
+  constructor(reason: string) {
+    super(`Onboarding: ${reason}`);
+    this.name = 'OnboardingError';
+  }
+}
+
+class OnboardingService extends BaseService {
+  /**
+   * The company's templates with their tasks in checklist order
+   */
+  async getTemplates(companyId: string): Promise<OnboardingTemplate[]> {
+    const cacheKey = `onboarding_templates:${companyId}`;
+    const cached = this.getCache<OnboardingTemplate[]>(cacheKey);
+    if (cached) return cached;
+
+    return this.withRetry(async () => {
+      const { data, error } = await this.client
+        .from('onboarding_templates')
+        .select('*, tasks:onboarding_template_tasks(*)')
+        .eq('company_id', companyId)
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+      const templates = ((data || []) as OnboardingTemplate[]).map(template => ({
+        ...template,
+        tasks: this.sortTasks(template.tasks || []),
+      }));
+      this.setCache(cacheKey, templates);
+      return templates;
+    }, `Get onboarding templates ${companyId}`);
+  }
+
+  async saveTemplate(companyId: string, input: OnboardingTemplateInput, id?: string): Promise<OnboardingTemplate> {
+    if (!input.name.trim()) throw new OnboardingError('give the template a name');
+
+    return this.withRetry(async () => {
+      const values = {
+        name: input.name.trim(),
+        department_id: input.department_id,
+        role: input.role,
+        is_active: input.is_active,
+      };
+      const { data, error } = id
+        ? await this.client.from('onboarding_templates').update(values).eq('id', id).select().single()
+        : await this.client.from('onboarding_templates').insert({ company_id: companyId, ...values }).select().single();
+
+      if (error) throw error;
+      this.clearCache(`onboarding_templates:${companyId}`);
+      return data as OnboardingTemplate;
+    }, `Save onboarding template ${input.name}`);
+  }
+
+  /**
+   * Checklists already started from the template keep their tasks
+   */
+  async deleteTemplate(id: string, companyId: string): Promise<void> {
+    return this.withRetry(async () => {
+      const { error } = await this.client.from('onboarding_templates').delete().eq('id', id);
+
+      if (error) throw error;
+      this.clearCache(`onboarding_templates:${companyId}`);
+    }, `Delete onboarding template ${id}`);
+  }
+
+  async saveTemplateTask(
+    template: OnboardingTemplate,
+    input: OnboardingTemplateTaskInput,
+    id?: string
+  ): Promise<OnboardingTemplateTask> {
+    if (!input.title.trim()) throw new OnboardingError('give the task a title');
+
+    return this.withRetry(async () => {
+      const values = {
+        title: input.title.trim(),
+        description: input.description?.trim() || null,
+        owner_type: input.owner_type,
+        assignee_id: input.owner_type === 'hr' || input.owner_type === 'it' ? input.assignee_id : null,
+        due_offset_days: input.due_offset_days,
+        document_type: input.owner_type === 'new_hire' ? input.document_type : null,
+      };
+      const { data, error } = id
+        ? await this.client.from('onboarding_template_tasks').update(values).eq('id', id).select().single()
+        : await this.client
+          .from('onboarding_template_tasks')
+          .insert({
+            template_id: template.id,
+            company_id: template.company_id,
+            sort_order: (template.tasks || []).length,
+            ...values,
+          })
+          .select()
+          .single();
+
+      if (error) throw error;
+      this.clearCache(`onboarding_templates:${template.company_id}`);
+      return data as OnboardingTemplateTask;
+    }, `Save onboarding template task ${input.title}`);
+  }
+
+  async deleteTemplateTask(task: OnboardingTemplateTask): Promise<void> {
+    return this.withRetry(async () => {
+      const { error } = await this.client.from('onboarding_template_tasks').delete().eq('id', task.id);
+
+      if (error) throw error;
+      this.clearCache(`onboarding_templates:${task.company_id}`);
+    }, `Delete onboarding template task ${task.id}`);
+  }
+
+  /**
+   * Copy a template into the employee's checklist, due from their date of
+   * joining. Without a template the one best matching their department and
+   * role is used; returns null when none matches.
+   */
+  async startOnboarding(userId: string, templateId?: string): Promise<string | null> {
+    return this.withRetry(async () => {
+      const { data, error } = await this.client.rpc('start_onboarding', {
+        _user_id: userId,
+        _template_id: templateId,
+      });
+
+      if (error) throw error;
+      return (data as string | null) || null;
+    }, `Start onboarding ${userId}`);
+  }
+
+  /**
+   * The employee's checklist in order, with the documents they uploaded,
+   * newest first; null before onboarding starts
+   */
+  async getOnboarding(userId: string): Promise<EmployeeOnboarding | null> {
+    return this.withRetry(async () => {
+      const { data, error } = await this.client
+        .from('employee_onboardings')
+        .select('*, tasks:onboarding_tasks(*)')
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data) return null;
+
+      const { data: documents, error: documentError } = await this.client
+        .from('onboarding_documents')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false });
+      if (documentError) throw documentError;
+
+      const onboarding = data as EmployeeOnboarding;
+      return {
+        ...onboarding,
+        tasks: this.sortChecklist(onboarding.tasks || []),
+        documents: (documents || []) as OnboardingDocument[],
+      };
+    }, `Get onboarding ${userId}`);
+  }
+
+  /**
+   * Onboardings still in progress across the company, oldest first
+   */
+  async getActiveOnboardings(companyId: string): Promise<OnboardingSummary[]> {
+    return this.withRetry(async () => {
+      const { data, error } = await this.client
+        .from('employee_onboardings')
+        .select('*, tasks:onboarding_tasks(*)')
+        .eq('company_id', companyId)
+        .eq('status', 'in_progress')
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      const onboardings = (data || []) as EmployeeOnboarding[];
+      if (onboardings.length === 0) return [];
+
+      const profileMap = await this.getProfileMap(onboardings.map(o => o.user_id));
+      return onboardings.map(o => ({ ...o, tasks: this.sortChecklist(o.tasks || []), profile: profileMap.get(o.user_id) }));
+    }, `Get active onboardings ${companyId}`);
+  }
+
+  /**
+   * Open tasks on other people's onboarding assigned to the user, soonest due first
+   */
+  async getAssignedTasks(userId: string): Promise<AssignedOnboardingTask[]> {
+    return this.withRetry(async () => {
+      const { data, error } = await this.client
+        .from('onboarding_tasks')
+        .select('*')
+        .eq('assignee_id', userId)
+        .neq('user_id', userId)
+        .eq('status', 'pending')
+        .order('due_date', { ascending: true });
+
+      if (error) throw error;
+      const tasks = (data || []) as OnboardingTask[];
+      if (tasks.length === 0) return [];
+
+      const profileMap = await this.getProfileMap(tasks.map(t => t.user_id));
+      return tasks.map(t => ({ ...t, profile: profileMap.get(t.user_id) }));
+    }, `Get assigned onboarding tasks ${userId}`);
+  }
+
+  /**
+   * Tick a task off or reopen it. Document tasks follow their upload instead.
+   */
+  async setTaskDone(task: OnboardingTask, done: boolean): Promise<OnboardingTask> {
+    if (task.document_type) {
+      throw new OnboardingError(`upload the ${ONBOARDING_DOCUMENT_LABELS[task.document_type].toLowerCase()} to complete this task`);
+    }
+
+    const data = await this.withRetry(async () => {
+      const { data, error } = await this.client
+        .from('onboarding_tasks')
+        .update({ status: done ? 'done' : 'pending' })
+        .eq('id', task.id)
+        .eq('status', done ? 'pending' : 'done')
+        .select()
+        .maybeSingle();
+
+      if (error) throw error;
+      return data as OnboardingTask | null;
+    }, `Update onboarding task ${task.id}`);
+
+    if (!data) throw new OnboardingError(`${task.title} was already ${done ? 'completed' : 'reopened'}`);
+    return data;
+  }
+
+  /**
+   * Upload a document for one of the new hire's tasks, completing it
+   */
+  async uploadDocument(task: OnboardingTask, file: File): Promise<OnboardingDocument> {
+    if (!task.document_type) throw new OnboardingError(`${task.title} does not take a document`);
+    if (file.size > ONBOARDING_DOCUMENT_MAX_BYTES) {
+      throw new OnboardingError(`${file.name} is larger than ${ONBOARDING_DOCUMENT_MAX_BYTES / (1024 * 1024)} MB`);
+    }
+    const documentType = task.document_type;
+
+    return this.withRetry(async () => {
+      const extension = file.name.split('.').pop();
+      const path = `${task.user_id}/${Date.now()}${extension ? `.${extension}` : ''}`;
+      const { error: uploadError } = await this.client.storage
+        .from(DOCUMENT_BUCKET)
+        .upload(path, file, { contentType: file.type });
+      if (uploadError) throw uploadError;
+
+      const { data, error } = await this.client
+        .from('onboarding_documents')
+        .insert({
+          company_id: task.company_id,
+          user_id: task.user_id,
+          task_id: task.id,
+          document_type: documentType,
+          file_path: path,
+          file_name: file.name,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data as OnboardingDocument;
+    }, `Upload onboarding document ${task.id}`);
+  }
+
+  async getDocumentUrl(path: string): Promise<string> {
+    return this.withRetry(async () => {
+      const { data, error } = await this.client.storage
+        .from(DOCUMENT_BUCKET)
+        .createSignedUrl(path, 60 * 10);
+
+      if (error) throw error;
+      return data.signedUrl;
+    }, 'Get onboarding document URL');
+  }
+
+  /**
+   * Verify a submitted document, or reject it with a note, which reopens its
+   * task and asks the new hire for another upload
+   */
+  async reviewDocument(
+    document: OnboardingDocument,
+    status: 'verified' | 'rejected',
+    note?: string
+  ): Promise<OnboardingDocument> {
+    if (status === 'rejected' && !note?.trim()) {
+      throw new OnboardingError('say why the document is rejected');
+    }
+
+    const data = await this.withRetry(async () => {
+      const { data, error } = await this.client
+        .from('onboarding_documents')
+        .update({ status, review_note: note?.trim() || null })
+        .eq('id', document.id)
+        .eq('status', 'submitted')
+        .select()
+        .maybeSingle();
+
+      if (error) throw error;
+      return data as OnboardingDocument | null;
+    }, `Review onboarding document ${document.id}`);
+
+    if (!data) throw new OnboardingError(`${document.file_name} was already reviewed`);
+    return data;
+  }
+
+  /**
+   * Notify the owners of tasks that went overdue since the last run; returns
+   * how many tasks were notified
+   */
+  async notifyOverdueTasks(companyId: string): Promise<number> {
+    return this.withRetry(async () => {
+      const { data, error } = await this.client.rpc('notify_overdue_onboarding_tasks', {
+        _company_id: companyId,
+      });
+
+      if (error) throw error;
+      return (data as number) || 0;
+    }, `Notify overdue onboarding tasks ${companyId}`);
+  }
+
+  private sortTasks<T extends { sort_order: number }>(tasks: T[]): T[] {
+    return [...tasks].sort((a, b) => a.sort_order - b.sort_order);
+  }
+
+  /** Soonest due first, in template order within a day */
+  private sortChecklist(tasks: OnboardingTask[]): OnboardingTask[] {
+    return [...tasks].sort((a, b) => a.due_date.localeCompare(b.due_date) || a.sort_order - b.sort_order);
+  }
+
+  private async getProfileMap(userIds: string[]): Promise<Map<string, Profile>> {
+    const { data, error } = await this.client
+      .from('profiles')
+      .select('*')
+      .in('user_id', [...new Set(userIds)]);
+    if (error) throw error;
+    return new Map(((data || []) as Profile[]).map(p => [p.user_id, p]));
+  }
+}
+
+export const onboardingService = new OnboardingService();
@@ -0,0 +1,208 @@
+// src/services/payrollRunService.ts
+import { BaseService } from './baseService';
+import { Payroll, PayrollRun, PayrollRunStatus, PayrollRunTransition } from '@/types/hrms';
+import { DomainError } from '@/lib/domainError';
+
+/** Allowed next states; the database trigger enforces the same map */
+export const PAYROLL_RUN_TRANSITIONS: Record<PayrollRunStatus, PayrollRunStatus[]> = {
+  draft: ['under_review'],
+  under_review: ['draft', 'approved'],
+  approved: ['locked'],
+  locked: ['paid'],
+  paid: [],
+};
+
+/** Runs whose rows are final: visible to employees and immutable */
+export const FINAL_RUN_STATUSES: PayrollRunStatus[] = ['approved', 'locked', 'paid'];
+
+export function isRunEditable(run: Pick<PayrollRun, 'status'> | null | undefined): boolean {
+  return !!run && (run.status === 'draft' || run.status === 'under_review');
+}
+
+export class PayrollRunLockedError extends DomainError {
+  constructor(run: Pick<PayrollRun, 'status'>) {
+    super(`Payroll run is ${run.status.replace('_', ' ')}; corrections need a reversal or off-cycle run`);
+    this.name = 'PayrollRunLockedError';
+  }
+}
+
+export class PayrollRunError extends DomainError {
+  constructor(reason: string) {
+    super(`Payroll run: ${reason}`);
+    this.name = 'PayrollRunError';
+  }
+}
+
+export type PayrollRunTransitionWithActor = PayrollRunTransition & { performed_by_name: string | null };
+
+class PayrollRunService extends BaseService {
+  async getRuns(companyId: string, month: number, year: number): Promise<PayrollRun[]> {
+    return this.withRetry(async () => {
+      const { data, error } = await this.client
+        .from('payroll_runs')
+        .select('*')
+        .eq('company_id', companyId)
+        .eq('month', month)
+        .eq('year', year)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return (data || []) as PayrollRun[];
+    }, `Get payroll runs ${companyId}:${month}:${year}`);
+  }
+
+  async getRun(runId: string): Promise<PayrollRun> {
+    return this.withRetry(async () => {
+      const { data, error } = await this.client
+        .from('payroll_runs')
+        .select('*')
+        .eq('id', runId)
+        .single();
+
+      if (error) throw error;
+      return data as PayrollRun;
+    }, `Get payroll run ${runId}`);
+  }
+
+  async getOrCreateRegularRun(companyId: string, month: number, year: number): Promise<PayrollRun> {
+    return this.withRetry(async () => {
+      const { data: existing, error } = await this.client
+        .from('payroll_runs')
+        .select('*')
+        .eq('company_id', companyId)
+        .eq('month', month)
+        .eq('year', year)
+        .eq('run_type', 'regular')
+        .maybeSingle();
+
+      if (error) throw error;
+      if (existing) return existing as PayrollRun;
+
+      const { data, error: insertError } = await this.client
+        .from('payroll_runs')
+        .insert([{ company_id: companyId, month, year, run_type: 'regular' }])
+        .select()
+        .single();
+
+      if (insertError) throw insertError;
+      return data as PayrollRun;
+    }, `Get or create payroll run ${companyId}:${month}:${year}`);
+  }
+
+  /**
+   * Empty draft run for supplementary payments or corrections after a reversal
+   */
+  async createOffCycleRun(companyId: string, month: number, year: number, note?: string): Promise<PayrollRun> {
+    return this.withRetry(async () => {
+      const { data, error } = await this.client
+        .from('payroll_runs')
+        .insert([{ company_id: companyId, month, year, run_type: 'off_cycle', status_note: note || null }])
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data as PayrollRun;
+    }, `Create off-cycle run ${companyId}:${month}:${year}`);
+  }
+
+  async getPayrollRows(runId: string): Promise<Payroll[]> {
+    return this.withRetry(async () => {
+      const { data, error } = await this.client
+        .from('payroll')
+        .select('*')
+        .eq('run_id', runId);
+
+      if (error) throw error;
+      return (data || []) as Payroll[];
+    }, `Get payroll rows ${runId}`);
+  }
+
+  async getTransitions(runId: string): Promise<PayrollRunTransitionWithActor[]> {
+    return this.withRetry(async () => {
+      const { data, error } = await this.client
+        .from('payroll_run_transitions')
+        .select('*')
+        .eq('run_id', runId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+
+      const actorIds = [...new Set((data || []).map(t => t.performed_by).filter(Boolean))];
+      const { data: actors, error: actorError } = actorIds.length > 0
+        ? await this.client.from('profiles').select('user_id, first_name, last_name').in('user_id', actorIds)
+        : { data: [], error: null };
+      if (actorError) throw actorError;
+
+      return (data || []).map(t => {
+        const actor = (actors || []).find(a => a.user_id === t.performed_by);
+        return {
+          ...t,
+          performed_by_name: actor ? `${actor.first_name} ${actor.last_name}` : null,
+        };
+      }) as PayrollRunTransitionWithActor[];
+    }, `Get payroll run transitions ${runId}`);
+  }
+
+  /**
+   * Move a run to its next state. The transition is logged by the database with
+   * the acting user; paying a run also marks its rows paid in the same transaction.
+   */
+  async transitionRun(run: PayrollRun, toStatus: PayrollRunStatus, note?: string): Promise<PayrollRun> {
+    if (!PAYROLL_RUN_TRANSITIONS[run.status].includes(toStatus)) {
+      throw new PayrollRunError(`cannot move a ${run.status.replace('_', ' ')} run to ${toStatus.replace('_', ' ')}`);
+    }
+
+    return this.withRetry(async () => {
+      const { data, error } = await this.client
+        .from('payroll_runs')
+        .update({ status: toStatus, status_note: note || null })
+        .eq('id', run.id)
+        .eq('status', run.status)
+        .select()
+        .single();
+
+      if (error) throw error;
+      this.clearCache('payroll:');
+      return data as PayrollRun;
+    }, `Transition payroll run ${run.id} to ${toStatus}`);
+  }
+
+  /**
+   * Create a reversal run that cancels every row of an approved run with
+   * negated amounts. The reversal follows the same lifecycle as any run.
+   */
+  async createReversalRun(run: PayrollRun, note?: string): Promise<PayrollRun> {
+    if (isRunEditable(run)) {
+      throw new PayrollRunError('only approved runs can be reversed; edit the draft instead');
+    }
+    if (run.run_type === 'reversal') {
+      throw new PayrollRunError('a reversal run cannot itself be reversed');
+    }
+
+    const existing = await this.withRetry(async () => {
+      const { data, error } = await this.client
+        .from('payroll_runs')
+        .select('id')
+        .eq('reverses_run_id', run.id)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    }, `Get reversal of payroll run ${run.id}`);
+    if (existing) throw new PayrollRunError('this run has already been reversed');
+
+    return this.withRetry(async () => {
+      // The run, its rows and their adjustments are created in one transaction
+      const { data, error } = await this.client.rpc('create_payroll_reversal_run', {
+        _run_id: run.id,
+        _note: note || undefined,
+      });
+
+      if (error) throw error;
+      this.clearCache('payroll:');
+      return data as PayrollRun;
+    }, `Reverse payroll run ${run.id}`);
+  }
+}
+
+export const payrollRunService = new PayrollRunService();
@@ -0,0 +1,60 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { payrollService } from './payrollService';
+import { attendanceService } from './attendanceService';
+import { supabase } from '@/integrations/supabase/client';
+import { mapDatabaseError } from '@/utils/errorMapper';
+import { PayrollRun } from '@/types/hrms';
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: { from: vi.fn(), rpc: vi.fn() },
+}));
+
+const employee = {
+  user_id: 'user-1',
+  company_id: 'company-1',
+  department_id: null,
+  monthly_salary: 22000,
+  salary_type: 'fixed' as const,
+  salary_structure_id: null,
+  work_state: null,
+};
+
+const run: PayrollRun = {
+  id: 'run-1',
+  company_id: 'company-1',
+  month: 6,
+  year: 2026,
+  run_type: 'regular',
+  status: 'draft',
+  reverses_run_id: null,
+  status_note: null,
+  created_by: null,
+  created_at: '',
+  updated_at: '',
+};
+
+const NOT_CLOSED = 'Attendance close: 2 day(s) this month are not evaluated yet; close out past days in attendance settings first';
+
+describe('payrollService attendance close', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    vi.mocked(supabase.from).mockClear();
+    vi.spyOn(attendanceService, 'countUnevaluatedDays').mockResolvedValue(2);
+  });
+
+  it('tells the caller why a payslip cannot be calculated yet', async () => {
+    const error = await payrollService.calculatePayroll(employee, 6, 2026).catch(e => e);
+
+    expect(error.message).toBe(NOT_CLOSED);
+    expect(mapDatabaseError(error)).toBe(NOT_CLOSED);
+    expect(attendanceService.countUnevaluatedDays).toHaveBeenCalledTimes(1);
+    expect(attendanceService.countUnevaluatedDays).toHaveBeenCalledWith('company-1', '2026-06-01', '2026-06-30');
+  });
+
+  it('stops a bulk run before loading any payroll data', async () => {
+    await expect(payrollService.bulkProcessPayroll(run, ['user-1', 'user-2'])).rejects.toThrow(NOT_CLOSED);
+
+    expect(attendanceService.countUnevaluatedDays).toHaveBeenCalledTimes(1);
+    expect(supabase.from).not.toHaveBeenCalled();
+  });
+});
@@ -1,12 +1,83 @@
 // src/services/payrollService.ts
 import { BaseService, PaginationParams } from './baseService';
-import { Payroll, Profile } from '@/types/hrms';
+import { DEFAULT_COMPANY_SETTINGS, settingsService } from './settingsService';
+import { salaryStructureService, SalaryStructureError } from './salaryStructureService';
+import { taxService } from './taxService';
+import { professionalTaxService } from './professionalTaxService';
+import { leaveTypeService } from './leaveTypeService';
+import { AttendanceCloseError, attendanceService } from './attendanceService';
+import { FINAL_RUN_STATUSES, isRunEditable, PayrollRunLockedError } from './payrollRunService';
+import {
+  Payroll,
+  PayrollAdjustment,
+  PayrollRun,
+  Profile,
+  ProfessionalTaxSlab,
+  SalaryStructure,
+  TaxDeclaration,
+  TaxSlabConfig,
+} from '@/types/hrms';
+import {
+  computePayslip,
+  DEFAULT_PAYROLL_CONFIG,
+  getSalaryStructureIssue,
+  Payslip,
+  PayrollAttendanceRecord,
+  PayrollHoliday,
+  PayrollLeaveRecord,
+  toAdjustmentRecords,
+  toPayrollRecord,
+} from '@/lib/payrollEngine';
+import {
+  DEFAULT_FINANCIAL_YEAR_START,
+  FinancialYear,
+  getFinancialYear,
+  selectTaxSlabConfig,
+} from '@/lib/taxEngine';
+import { officeHoursShift } from '@/lib/attendanceRules';
+import { getShiftMinutes } from '@/lib/shiftRoster';
+
+type PayrollEmployee = Pick<
+  Profile,
+  'user_id' | 'company_id' | 'department_id' | 'monthly_salary' | 'salary_type' | 'salary_structure_id' | 'work_state'
+>;
+
+interface PayrollInputs {
+  config: Awaited<ReturnType<typeof settingsService.getPayrollConfig>>;
+  holidays: PayrollHoliday[];
+  workingWeekdays: string[];
+  standardDayHours: number;
+  structures: SalaryStructure[];
+  professionalTaxSlabs: ProfessionalTaxSlab[];
+  attendanceByUser: Map<string, PayrollAttendanceRecord[]>;
+  leavesByUser: Map<string, PayrollLeaveRecord[]>;
+  financialYear: FinancialYear;
+  taxSlabConfigs: TaxSlabConfig[];
+  declarationsByUser: Map<string, TaxDeclaration>;
+  taxYtdByUser: Map<string, TaxYearToDate>;
+  encashmentByUser: Map<string, number>;
+}
+
+interface UnprocessedPayrollInputs {
+  employees: PayrollEmployee[];
+  /** Null when every employee of the batch already has a row in the run */
+  inputs: PayrollInputs | null;
+}
+
+interface TaxYearToDate {
+  earnings: number;
+  providentFund: number;
+  tds: number;
+}
 
 class PayrollService extends BaseService {
   async getPayroll(filters: PaginationParams = {}): Promise<any> {
     return this.fetchPaginated<Payroll>('payroll', filters);
   }
 
+  /**
+   * An employee's row in the regular run of a month
+   */
   async getPayrollByUserAndMonth(userId: string, month: number, year: number): Promise<Payroll | null> {
     const cacheKey = `payroll:${userId}:${month}:${year}`;
     const cached = this.getCache<Payroll>(cacheKey);
@@ -15,10 +86,11 @@ class PayrollService extends BaseService {
     return this.withRetry(async () => {
       const { data, error } = await this.client
         .from('payroll')
-        .select('*')
+        .select('*, run:payroll_runs!inner(run_type)')
         .eq('user_id', userId)
         .eq('month', month)
         .eq('year', year)
+        .eq('run.run_type', 'regular')
         .maybeSingle();
 
       if (error) throw error;
@@ -27,42 +99,47 @@ class PayrollService extends BaseService {
     }, `Get payroll ${userId}:${month}:${year}`);
   }
 
-  async processPayroll(data: {
-    month: number;
-    year: number;
-    employeeIds: string[];
-    baseSalary?: number;
-    deductions?: number;
-  }): Promise<Payroll[]> {
+  async getPayrollForRun(runId: string): Promise<Payroll[]> {
     return this.withRetry(async () => {
-      const payrolls = data.employeeIds.map(userId => ({
-        user_id: userId,
-        month: data.month,
-        year: data.year,
-        working_days: 22,
-        present_days: 20,
-        paid_leave_days: 1,
-        unpaid_leave_days: 0,
-        base_salary: data.baseSalary || 0,
-        deductions: data.deductions || 0,
-        net_salary: (data.baseSalary || 0) - (data.deductions || 0),
-        status: 'draft' as const,
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString(),
-      }));
+      const { data, error } = await this.client
+        .from('payroll')
+        .select('*')
+        .eq('run_id', runId);
+
+      if (error) throw error;
+      return (data || []) as Payroll[];
+    }, `Get payroll for run ${runId}`);
+  }
 
-      const { data: inserted, error } = await this.client
+  async getRunPayrollForUser(runId: string, userId: string): Promise<Payroll | null> {
+    return this.withRetry(async () => {
+      const { data, error } = await this.client
         .from('payroll')
-        .insert(payrolls)
-        .select();
+        .select('*')
+        .eq('run_id', runId)
+        .eq('user_id', userId)
+        .maybeSingle();
 
       if (error) throw error;
-      this.clearCache('payroll:');
-      return (inserted || []) as Payroll[];
-    }, 'Process payroll');
+      return (data || null) as Payroll | null;
+    }, `Get payroll ${runId}:${userId}`);
+  }
+
+  /**
+   * Compute payroll for the given employees and insert draft rows.
+   * Employees that already have a row in the run are skipped.
+   */
+  async processPayroll(data: {
+    run: PayrollRun;
+    employeeIds: string[];
+  }): Promise<Payroll[]> {
+    return this.bulkProcessPayroll(data.run, data.employeeIds);
   }
 
-  async updatePayrollStatus(payrollId: string, status: 'draft' | 'processed' | 'paid'): Promise<Payroll> {
+  /**
+   * Rows are marked paid by paying their run; see payrollRunService.transitionRun
+   */
+  async updatePayrollStatus(payrollId: string, status: 'draft' | 'processed'): Promise<Payroll> {
     return this.withRetry(async () => {
       const { data, error } = await this.client
         .from('payroll')
@@ -77,53 +154,380 @@ class PayrollService extends BaseService {
     }, `Update payroll ${payrollId}`);
   }
 
-  async calculatePayroll(userId: string, month: number, year: number): Promise<{
-    baseSalary: number;
-    deductions: number;
-    netSalary: number;
-  }> {
+  /**
+   * Run the payroll engine for one employee using live attendance, leave and config
+   */
+  async calculatePayroll(
+    employee: PayrollEmployee,
+    month: number,
+    year: number,
+    adjustments: PayrollAdjustment[] = []
+  ): Promise<Payslip> {
+    await this.assertAttendanceClosed(employee.company_id, month, year);
+
+    const inputs = await this.withRetry(
+      () => this.getPayrollInputs([employee], month, year),
+      `Calculate payroll ${employee.user_id}:${month}:${year}`
+    );
+    return this.buildPayslip(employee, month, year, inputs, adjustments);
+  }
+
+  /**
+   * Manual additions/deductions saved against a payroll row (rule-generated lines excluded)
+   */
+  async getPayrollAdjustments(payrollId: string): Promise<PayrollAdjustment[]> {
     return this.withRetry(async () => {
-      const result = await this.client.rpc('calculate_payroll', {
-        user_id: userId,
-        month,
-        year,
-      });
+      const { data, error } = await this.client
+        .from('payroll_adjustments')
+        .select('*')
+        .eq('payroll_id', payrollId)
+        .is('code', null);
+
+      if (error) throw error;
+      return (data || []).map(a => ({
+        id: a.id,
+        name: a.name,
+        amount: Number(a.amount),
+        type: a.adjustment_type,
+      })) as PayrollAdjustment[];
+    }, `Get payroll adjustments ${payrollId}`);
+  }
+
+  /**
+   * Persist a computed payslip as a processed payroll row of the run with its itemized adjustments
+   */
+  async savePayslip(payslip: Payslip, run: PayrollRun, existingPayrollId?: string): Promise<Payroll> {
+    this.assertRunEditable(run);
+    const companyId = run.company_id;
+
+    return this.withRetry(async () => {
+      const record = {
+        ...toPayrollRecord(payslip, companyId),
+        run_id: run.id,
+        status: 'processed' as const,
+        processed_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      };
+
+      const query = existingPayrollId
+        ? this.client.from('payroll').update(record).eq('id', existingPayrollId)
+        : this.client.from('payroll').insert([record]);
 
-      if (result.error) throw result.error;
-      return result.data;
-    }, `Calculate payroll ${userId}:${month}:${year}`);
+      const { data, error } = await query.select().single();
+      if (error) throw error;
+
+      if (existingPayrollId) {
+        const { error: deleteError } = await this.client
+          .from('payroll_adjustments')
+          .delete()
+          .eq('payroll_id', existingPayrollId);
+        if (deleteError) throw deleteError;
+      }
+
+      const adjustments = toAdjustmentRecords(payslip, data.id, companyId);
+      if (adjustments.length > 0) {
+        const { error: adjError } = await this.client
+          .from('payroll_adjustments')
+          .insert(adjustments);
+        if (adjError) throw adjError;
+      }
+
+      this.clearCache('payroll:');
+      return data as Payroll;
+    }, `Save payroll ${payslip.userId}:${payslip.month}:${payslip.year}`);
   }
 
-  async bulkProcessPayroll(employeeIds: string[], month: number, year: number): Promise<Payroll[]> {
-    return this.batchOperation(
+  async bulkProcessPayroll(run: PayrollRun, employeeIds: string[]): Promise<Payroll[]> {
+    this.assertRunEditable(run);
+    await this.assertAttendanceClosed(run.company_id, run.month, run.year);
+    const loaded = await this.batchOperation(
       employeeIds,
-      async (batch) => {
-        const payrolls = batch.map(userId => ({
-          user_id: userId,
-          month,
-          year,
-          working_days: 22,
-          present_days: 20,
-          paid_leave_days: 1,
-          unpaid_leave_days: 0,
-          base_salary: 0,
-          deductions: 0,
-          net_salary: 0,
-          status: 'draft' as const,
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString(),
-        }));
-
-        const { data, error } = await this.client
-          .from('payroll')
-          .insert(payrolls)
-          .select();
-
-        if (error) throw error;
-        return data || [];
-      },
+      (batch) => this.getUnprocessedPayrollInputs(run, batch),
       100
+    ) as UnprocessedPayrollInputs[];
+
+    // Every salary structure is checked before any row is written
+    const computed = loaded.map(({ employees, inputs }) => inputs
+      ? employees.map(employee => ({ employee, payslip: this.buildPayslip(employee, run.month, run.year, inputs) }))
+      : []
+    );
+
+    const results = await Promise.all(computed.map(batch =>
+      this.withRetry(() => this.insertComputedPayroll(run, batch), `Insert payroll for run ${run.id}`)
+    ));
+    return results.flat();
+  }
+
+  private assertRunEditable(run: PayrollRun): void {
+    if (!isRunEditable(run)) throw new PayrollRunLockedError(run);
+  }
+
+  /**
+   * Overtime is only known once a day is evaluated; computing pay must not write attendance
+   */
+  private async assertAttendanceClosed(companyId: string | null, month: number, year: number): Promise<void> {
+    if (!companyId) return;
+    const startOfMonth = `${year}-${String(month).padStart(2, '0')}-01`;
+    const endOfMonth = `${year}-${String(month).padStart(2, '0')}-${String(new Date(year, month, 0).getDate()).padStart(2, '0')}`;
+
+    const unevaluated = await attendanceService.countUnevaluatedDays(companyId, startOfMonth, endOfMonth);
+    if (unevaluated > 0) {
+      throw new AttendanceCloseError(
+        `${unevaluated} day(s) this month are not evaluated yet; close out past days in attendance settings first`
+      );
+    }
+  }
+
+  private buildPayslip(
+    employee: PayrollEmployee,
+    month: number,
+    year: number,
+    inputs: PayrollInputs,
+    adjustments: PayrollAdjustment[] = []
+  ): Payslip {
+    const structure = salaryStructureService.resolveForEmployee(inputs.structures, employee);
+    if (structure) {
+      // A daily-paid employee's CTC is what they earn in the month, so only the shape is checked
+      const issue = getSalaryStructureIssue(structure.components || [], {
+        ctc: employee.salary_type === 'daily' ? undefined : Number(employee.monthly_salary || 0),
+      });
+      if (issue) throw new SalaryStructureError(`${structure.name}: ${issue}`);
+    }
+    const declaration = inputs.declarationsByUser.get(employee.user_id) || null;
+    const slabConfig = selectTaxSlabConfig(
+      inputs.taxSlabConfigs,
+      inputs.financialYear.label,
+      declaration?.regime || 'new'
+    );
+    const ytd = inputs.taxYtdByUser.get(employee.user_id) || { earnings: 0, providentFund: 0, tds: 0 };
+
+    return computePayslip({
+      employee,
+      month,
+      year,
+      config: inputs.config,
+      attendance: inputs.attendanceByUser.get(employee.user_id) || [],
+      leaves: inputs.leavesByUser.get(employee.user_id) || [],
+      holidays: inputs.holidays,
+      workingWeekdays: inputs.workingWeekdays,
+      standardDayHours: inputs.standardDayHours,
+      salaryComponents: structure?.components,
+      professionalTaxSlabs: employee.work_state
+        ? professionalTaxService.resolveForState(inputs.professionalTaxSlabs, employee.work_state)
+        : null,
+      tax: slabConfig
+        ? {
+            slabConfig,
+            declaration,
+            monthsRemaining: inputs.financialYear.monthsRemaining,
+            ytdEarnings: ytd.earnings,
+            ytdProvidentFund: ytd.providentFund,
+            ytdTds: ytd.tds,
+          }
+        : null,
+      leaveEncashment: inputs.encashmentByUser.get(employee.user_id) || 0,
+      adjustments,
+    });
+  }
+
+  /**
+   * Fetch everything the payroll engine needs for a set of employees in one month
+   */
+  private async getPayrollInputs(employees: PayrollEmployee[], month: number, year: number): Promise<PayrollInputs> {
+    const userIds = employees.map(e => e.user_id);
+    const companyId = employees.find(e => e.company_id)?.company_id;
+    const startOfMonth = `${year}-${String(month).padStart(2, '0')}-01`;
+    const endOfMonth = `${year}-${String(month).padStart(2, '0')}-${String(new Date(year, month, 0).getDate()).padStart(2, '0')}`;
+
+    let holidayQuery = this.client
+      .from('holidays')
+      .select('date, type')
+      .gte('date', startOfMonth)
+      .lte('date', endOfMonth);
+    if (companyId) {
+      holidayQuery = holidayQuery.eq('company_id', companyId);
+    }
+
+    const companySettings = companyId ? await settingsService.getCompanySettings(companyId) : null;
+    const financialYear = getFinancialYear(
+      month,
+      year,
+      companySettings?.financial_year_start || DEFAULT_FINANCIAL_YEAR_START
     );
+
+    const [
+      config,
+      structures,
+      professionalTaxSlabs,
+      leaveTypes,
+      taxSlabConfigs,
+      declarations,
+      holidayResult,
+      attendanceRows,
+      leaveResult,
+      priorPayrollResult,
+      encashmentResult,
+    ] = await Promise.all([
+      companyId ? settingsService.getPayrollConfig(companyId) : Promise.resolve(DEFAULT_PAYROLL_CONFIG),
+      companyId ? salaryStructureService.getStructures(companyId) : Promise.resolve([]),
+      companyId ? professionalTaxService.getSlabs(companyId) : Promise.resolve([]),
+      companyId ? leaveTypeService.getLeaveTypes(companyId) : Promise.resolve([]),
+      taxService.getSlabConfigs(),
+      taxService.getDeclarations(userIds, financialYear.label),
+      holidayQuery,
+      // Work days are dated in each employee's timezone, so a punch just after
+      // midnight on the 1st counts toward the new month. A batch of employees
+      // has more days in a month than one request returns.
+      this.fetchAllPages((from, to) => this.client
+        .from('attendance_daily_summaries')
+        .select('user_id, work_date, status, overtime_hours')
+        .in('user_id', userIds)
+        .gte('work_date', startOfMonth)
+        .lte('work_date', endOfMonth)
+        .order('id', { ascending: true })
+        .range(from, to)
+      ),
+      this.client
+        .from('leave_requests')
+        .select('user_id, leave_type, start_date, end_date, half_day, status')
+        .in('user_id', userIds)
+        .eq('status', 'approved')
+        .lte('start_date', endOfMonth)
+        .gte('end_date', startOfMonth),
+      // Only approved runs of this financial year count towards TDS already deducted
+      this.client
+        .from('payroll')
+        .select('user_id, month, year, gross_salary, total_additions, pf_amount, tds_amount, run:payroll_runs!inner(status)')
+        .in('user_id', userIds)
+        .in('run.status', FINAL_RUN_STATUSES)
+        .or(
+          `and(year.eq.${financialYear.startYear},month.gte.${financialYear.startMonth}),` +
+          `and(year.eq.${financialYear.startYear + 1},month.lt.${financialYear.startMonth})`
+        ),
+      this.client
+        .from('leave_ledger')
+        .select('user_id, amount')
+        .in('user_id', userIds)
+        .eq('entry_type', 'encashment')
+        .gte('effective_date', startOfMonth)
+        .lte('effective_date', endOfMonth),
+    ]);
+
+    if (holidayResult.error) throw holidayResult.error;
+    if (leaveResult.error) throw leaveResult.error;
+    if (priorPayrollResult.error) throw priorPayrollResult.error;
+    if (encashmentResult.error) throw encashmentResult.error;
+
+    const attendanceByUser = new Map<string, PayrollAttendanceRecord[]>();
+    attendanceRows.forEach(record => {
+      const list = attendanceByUser.get(record.user_id) || [];
+      list.push(record);
+      attendanceByUser.set(record.user_id, list);
+    });
+
+    // Loss of pay comes from the leave type's paid flag
+    const unpaidTypes = new Set(leaveTypes.filter(t => !t.is_paid).map(t => t.code));
+    const leavesByUser = new Map<string, PayrollLeaveRecord[]>();
+    (leaveResult.data || []).forEach(leave => {
+      const list = leavesByUser.get(leave.user_id) || [];
+      list.push({ ...leave, is_paid: !unpaidTypes.has(leave.leave_type) });
+      leavesByUser.set(leave.user_id, list);
+    });
+
+    // Payroll already run earlier in the financial year feeds the TDS projection
+    const taxYtdByUser = new Map<string, TaxYearToDate>();
+    (priorPayrollResult.data || [])
+      .filter(p => p.year * 12 + p.month < year * 12 + month)
+      .forEach(p => {
+        const ytd = taxYtdByUser.get(p.user_id) || { earnings: 0, providentFund: 0, tds: 0 };
+        ytd.earnings += Number(p.gross_salary || 0) + Number(p.total_additions || 0);
+        ytd.providentFund += Number(p.pf_amount || 0);
+        ytd.tds += Number(p.tds_amount || 0);
+        taxYtdByUser.set(p.user_id, ytd);
+      });
+
+    const encashmentByUser = new Map<string, number>();
+    (encashmentResult.data || []).forEach(entry => {
+      encashmentByUser.set(entry.user_id, (encashmentByUser.get(entry.user_id) || 0) + Number(entry.amount || 0));
+    });
+
+    return {
+      config,
+      holidays: (holidayResult.data || []) as PayrollHoliday[],
+      workingWeekdays: companySettings?.working_days || DEFAULT_COMPANY_SETTINGS.working_days,
+      // Overtime is paid per hour of the office day
+      standardDayHours: getShiftMinutes(officeHoursShift(companySettings || DEFAULT_COMPANY_SETTINGS)) / 60,
+      structures,
+      professionalTaxSlabs,
+      attendanceByUser,
+      leavesByUser,
+      financialYear,
+      taxSlabConfigs,
+      declarationsByUser: new Map(declarations.map(d => [d.user_id, d])),
+      taxYtdByUser,
+      encashmentByUser,
+    };
+  }
+
+  /**
+   * Employees of the batch without a row in the run yet, with the engine inputs to pay them
+   */
+  private async getUnprocessedPayrollInputs(run: PayrollRun, employeeIds: string[]): Promise<UnprocessedPayrollInputs> {
+    const [profileResult, existingResult] = await Promise.all([
+      this.client
+        .from('profiles')
+        .select('user_id, company_id, department_id, monthly_salary, salary_type, salary_structure_id, work_state')
+        .in('user_id', employeeIds),
+      this.client
+        .from('payroll')
+        .select('user_id')
+        .in('user_id', employeeIds)
+        .eq('run_id', run.id),
+    ]);
+
+    if (profileResult.error) throw profileResult.error;
+    if (existingResult.error) throw existingResult.error;
+
+    const alreadyProcessed = new Set((existingResult.data || []).map(p => p.user_id));
+    const employees = ((profileResult.data || []) as PayrollEmployee[])
+      .filter(e => !alreadyProcessed.has(e.user_id));
+    if (employees.length === 0) return { employees, inputs: null };
+
+    return { employees, inputs: await this.getPayrollInputs(employees, run.month, run.year) };
+  }
+
+  private async insertComputedPayroll(
+    run: PayrollRun,
+    computed: { employee: PayrollEmployee; payslip: Payslip }[]
+  ): Promise<Payroll[]> {
+    if (computed.length === 0) return [];
+
+    const { data: inserted, error } = await this.client
+      .from('payroll')
+      .insert(computed.map(({ employee, payslip }) => ({
+        ...toPayrollRecord(payslip, employee.company_id),
+        run_id: run.id,
+        status: 'draft' as const,
+        created_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      })))
+      .select();
+
+    if (error) throw error;
+
+    const adjustments = (inserted || []).flatMap(row => {
+      const { employee, payslip } = computed.find(c => c.employee.user_id === row.user_id)!;
+      return toAdjustmentRecords(payslip, row.id, employee.company_id);
+    });
+    if (adjustments.length > 0) {
+      const { error: adjError } = await this.client
+        .from('payroll_adjustments')
+        .insert(adjustments);
+      if (adjError) throw adjError;
+    }
+
+    this.clearCache('payroll:');
+    return (inserted || []) as Payroll[];
   }
 }
 
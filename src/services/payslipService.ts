@@ -0,0 +1,177 @@
+// src/services/payslipService.ts
+import JSZip from 'jszip';
+import { BaseService } from './baseService';
+import { settingsService } from './settingsService';
+import { exportService } from './exportService';
+import { FINAL_RUN_STATUSES } from './payrollRunService';
+import { Payroll, PayrollRunType } from '@/types/hrms';
+import {
+  buildPayslipLineItems,
+  getPayslipFilename,
+  PayslipDocument,
+  renderPayslipPdf,
+  StoredPayrollAdjustment,
+} from '@/lib/payslipPdf';
+import { DEFAULT_FINANCIAL_YEAR_START, getFinancialYear, isInFinancialYear } from '@/lib/taxEngine';
+import { getStateName } from '@/lib/indianStates';
+
+export type PayslipRow = Payroll & { run: { run_type: PayrollRunType } | null };
+
+const MONTHS = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+class PayslipService extends BaseService {
+  /**
+   * Payroll rows of approved runs for one employee, newest first
+   */
+  async getMyPayslips(userId: string): Promise<PayslipRow[]> {
+    return this.withRetry(async () => {
+      const { data, error } = await this.client
+        .from('payroll')
+        .select('*, run:payroll_runs!inner(run_type, status)')
+        .eq('user_id', userId)
+        .in('run.status', FINAL_RUN_STATUSES)
+        .order('year', { ascending: false })
+        .order('month', { ascending: false });
+
+      if (error) throw error;
+      return (data || []) as PayslipRow[];
+    }, `Get payslips ${userId}`);
+  }
+
+  async downloadPayslip(payroll: PayslipRow): Promise<void> {
+    const [document] = await this.getPayslipDocuments([payroll]);
+    exportService.downloadFile(renderPayslipPdf(document), getPayslipFilename(document));
+  }
+
+  /**
+   * Zip every payslip of the company's approved runs for one month. Returns the number of payslips.
+   */
+  async downloadMonthlyPayslips(companyId: string, month: number, year: number): Promise<number> {
+    const rows = await this.withRetry(async () => {
+      const { data, error } = await this.client
+        .from('payroll')
+        .select('*, run:payroll_runs!inner(run_type, status)')
+        .eq('company_id', companyId)
+        .eq('month', month)
+        .eq('year', year)
+        .in('run.status', FINAL_RUN_STATUSES);
+
+      if (error) throw error;
+      return (data || []) as PayslipRow[];
+    }, `Get payroll ${companyId}:${month}:${year}`);
+
+    if (rows.length === 0) return 0;
+
+    const documents = await this.getPayslipDocuments(rows);
+    const zip = new JSZip();
+    documents.forEach(document => {
+      zip.file(getPayslipFilename(document), renderPayslipPdf(document));
+    });
+
+    const blob = await zip.generateAsync({ type: 'blob' });
+    exportService.downloadFile(blob, `payslips_${MONTHS[month - 1]}_${year}.zip`);
+    return documents.length;
+  }
+
+  /**
+   * Load everything a payslip shows: employee, itemized adjustments, company
+   * branding and year-to-date totals for the financial year
+   */
+  private async getPayslipDocuments(rows: PayslipRow[]): Promise<PayslipDocument[]> {
+    const userIds = [...new Set(rows.map(r => r.user_id))];
+    const companyId = rows.find(r => r.company_id)?.company_id || null;
+    const settings = companyId ? await settingsService.getCompanySettings(companyId) : null;
+    const fyStart = settings?.financial_year_start || DEFAULT_FINANCIAL_YEAR_START;
+    const years = [...new Set(rows.flatMap(r => [r.year - 1, r.year, r.year + 1]))];
+
+    const [profileResult, adjustmentResult, companyResult, historyResult] = await Promise.all([
+      this.client
+        .from('profiles')
+        .select('user_id, first_name, last_name, employee_id, work_state, bank_account_number, department:departments(name)')
+        .in('user_id', userIds),
+      this.client
+        .from('payroll_adjustments')
+        .select('payroll_id, name, amount, adjustment_type, code')
+        .in('payroll_id', rows.map(r => r.id)),
+      companyId
+        ? this.client.from('companies').select('name, logo_url').eq('id', companyId).maybeSingle()
+        : Promise.resolve({ data: null, error: null }),
+      this.client
+        .from('payroll')
+        .select('user_id, month, year, gross_salary, total_additions, total_deductions, tds_amount, net_salary, run:payroll_runs!inner(status)')
+        .in('user_id', userIds)
+        .in('year', years)
+        .in('run.status', FINAL_RUN_STATUSES),
+    ]);
+
+    if (profileResult.error) throw profileResult.error;
+    if (adjustmentResult.error) throw adjustmentResult.error;
+    if (companyResult.error) throw companyResult.error;
+    if (historyResult.error) throw historyResult.error;
+
+    const logoDataUrl = companyResult.data?.logo_url
+      ? await this.fetchImageAsDataUrl(companyResult.data.logo_url)
+      : null;
+
+    return rows.map(({ run, ...payroll }) => {
+      const profile = (profileResult.data || []).find(p => p.user_id === payroll.user_id);
+      const department = profile?.department as { name: string } | { name: string }[] | null | undefined;
+      const adjustments = (adjustmentResult.data || [])
+        .filter(a => a.payroll_id === payroll.id) as StoredPayrollAdjustment[];
+
+      // YTD covers approved runs of the financial year up to this payslip
+      const fy = getFinancialYear(payroll.month, payroll.year, fyStart);
+      const ytdRows = (historyResult.data || []).filter(h =>
+        h.user_id === payroll.user_id &&
+        isInFinancialYear(h.month, h.year, fy) &&
+        h.year * 12 + h.month <= payroll.year * 12 + payroll.month
+      );
+
+      return {
+        company: {
+          name: companyResult.data?.name || '',
+          logoDataUrl,
+        },
+        employee: {
+          name: profile ? `${profile.first_name} ${profile.last_name}` : payroll.user_id,
+          employeeId: profile?.employee_id || null,
+          department: (Array.isArray(department) ? department[0]?.name : department?.name) || null,
+          workState: getStateName(profile?.work_state) || null,
+          bankAccountNumber: profile?.bank_account_number || null,
+        },
+        payroll,
+        runType: run?.run_type || 'regular',
+        ...buildPayslipLineItems(payroll, adjustments),
+        ytd: {
+          financialYear: fy.label,
+          gross: ytdRows.reduce((sum, h) => sum + Number(h.gross_salary || 0) + Number(h.total_additions || 0), 0),
+          deductions: ytdRows.reduce((sum, h) => sum + Number(h.total_deductions || 0), 0),
+          tds: ytdRows.reduce((sum, h) => sum + Number(h.tds_amount || 0), 0),
+          net: ytdRows.reduce((sum, h) => sum + Number(h.net_salary || 0), 0),
+        },
+      };
+    });
+  }
+
+  private async fetchImageAsDataUrl(url: string): Promise<string | null> {
+    try {
+      const response = await fetch(url);
+      if (!response.ok) return null;
+      const blob = await response.blob();
+      return await new Promise<string | null>((resolve) => {
+        const reader = new FileReader();
+        reader.onloadend = () => resolve(typeof reader.result === 'string' ? reader.result : null);
+        reader.onerror = () => resolve(null);
+        reader.readAsDataURL(blob);
+      });
+    } catch {
+      // Logos on hosts without CORS headers cannot be embedded; render without one
+      return null;
+    }
+  }
+}
+
+export const payslipService = new PayslipService();
@@ -0,0 +1,86 @@
+// src/services/professionalTaxService.ts
+import { BaseService } from './baseService';
+import { ProfessionalTaxSlab } from '@/types/hrms';
+
+export type ProfessionalTaxSlabInput = Pick<
+  ProfessionalTaxSlab,
+  'min_salary' | 'max_salary' | 'amount' | 'february_amount'
+>;
+
+class ProfessionalTaxService extends BaseService {
+  /**
+   * Statutory default slabs plus the company's own overrides
+   */
+  async getSlabs(companyId: string): Promise<ProfessionalTaxSlab[]> {
+    const cacheKey = `pt_slabs:${companyId}`;
+    const cached = this.getCache<ProfessionalTaxSlab[]>(cacheKey);
+    if (cached) return cached;
+
+    return this.withRetry(async () => {
+      const { data, error } = await this.client
+        .from('pt_slabs')
+        .select('*')
+        .or(`company_id.is.null,company_id.eq.${companyId}`)
+        .order('state', { ascending: true })
+        .order('min_salary', { ascending: true });
+
+      if (error) throw error;
+      const slabs = (data || []).map(s => ({
+        ...s,
+        min_salary: Number(s.min_salary),
+        max_salary: s.max_salary === null ? null : Number(s.max_salary),
+        amount: Number(s.amount),
+        february_amount: s.february_amount === null ? null : Number(s.february_amount),
+      })) as ProfessionalTaxSlab[];
+      this.setCache(cacheKey, slabs);
+      return slabs;
+    }, `Get PT slabs ${companyId}`);
+  }
+
+  /**
+   * Slabs that apply in a state: the company override if it has one, else the defaults
+   */
+  resolveForState(slabs: ProfessionalTaxSlab[], state: string | null | undefined): ProfessionalTaxSlab[] {
+    if (!state) return [];
+    const forState = slabs.filter(s => s.state === state);
+    const overrides = forState.filter(s => s.company_id);
+    return overrides.length > 0 ? overrides : forState.filter(s => !s.company_id);
+  }
+
+  /**
+   * Replace the company's override for a state
+   */
+  async saveStateSlabs(companyId: string, state: string, slabs: ProfessionalTaxSlabInput[]): Promise<void> {
+    return this.withRetry(async () => {
+      const { error: deleteError } = await this.client
+        .from('pt_slabs')
+        .delete()
+        .eq('company_id', companyId)
+        .eq('state', state);
+      if (deleteError) throw deleteError;
+
+      if (slabs.length > 0) {
+        const { error } = await this.client
+          .from('pt_slabs')
+          .insert(slabs.map(slab => ({
+            ...slab,
+            company_id: companyId,
+            state,
+            created_at: new Date().toISOString(),
+          })));
+        if (error) throw error;
+      }
+
+      this.clearCache(`pt_slabs:${companyId}`);
+    }, `Save PT slabs ${state}`);
+  }
+
+  /**
+   * Drop the company's override so the statutory defaults apply again
+   */
+  async resetStateSlabs(companyId: string, state: string): Promise<void> {
+    return this.saveStateSlabs(companyId, state, []);
+  }
+}
+
+export const professionalTaxService = new ProfessionalTaxService();
@@ -0,0 +1,167 @@
+// src/services/regularizationService.ts
+import { format } from 'date-fns';
+import { BaseService } from './baseService';
+import { leaveApprovalService } from './leaveApprovalService';
+import { AttendanceRegularization, RegularizationKind } from '@/types/hrms';
+import { DomainError } from '@/lib/domainError';
+
+export interface RegularizationInput {
+  companyId: string;
+  userId: string;
+  attendanceSessionId: string | null;
+  workDate: string;
+  kind: RegularizationKind;
+  signIn: Date;
+  signOut: Date;
+  reason: string;
+}
+
+export class RegularizationError extends DomainError {
+  constructor(reason: string) {
+    super(`Regularization: ${reason}`);
+    this.name = 'RegularizationError';
+  }
+}
+
+class RegularizationService extends BaseService {
+  /**
+   * An employee's requests, most recent day first
+   */
+  async getUserRequests(userId: string): Promise<AttendanceRegularization[]> {
+    return this.withRetry(async () => {
+      const { data, error } = await this.client
+        .from('attendance_regularizations')
+        .select('*')
+        .eq('user_id', userId)
+        .order('work_date', { ascending: false })
+        .limit(50);
+
+      if (error) throw error;
+      return (data || []) as AttendanceRegularization[];
+    }, `Get regularizations ${userId}`);
+  }
+
+  /**
+   * Pending requests the user can decide: their direct reports', or everyone's
+   * for admins and owners. Oldest first, with the employee's profile.
+   */
+  async getPendingRequests(userId: string, companyId: string): Promise<AttendanceRegularization[]> {
+    const actor = await leaveApprovalService.getActor(userId, companyId);
+    const isAdmin = actor.role === 'admin' || actor.role === 'owner';
+    if (!isAdmin && actor.reportIds.length === 0) return [];
+
+    return this.withRetry(async () => {
+      let query = this.client
+        .from('attendance_regularizations')
+        .select('*')
+        .eq('company_id', companyId)
+        .eq('status', 'pending')
+        .neq('user_id', userId)
+        .order('work_date', { ascending: true });
+      if (!isAdmin) query = query.in('user_id', actor.reportIds);
+
+      const { data, error } = await query;
+      if (error) throw error;
+      const requests = (data || []) as AttendanceRegularization[];
+      if (requests.length === 0) return [];
+
+      const { data: profiles, error: profileError } = await this.client
+        .from('profiles')
+        .select('*')
+        .in('user_id', [...new Set(requests.map(r => r.user_id))]);
+      if (profileError) throw profileError;
+
+      const profileMap = new Map((profiles || []).map(p => [p.user_id, p]));
+      return requests.map(r => ({ ...r, profile: profileMap.get(r.user_id) }));
+    }, `Get pending regularizations ${userId}`);
+  }
+
+  async submitRequest(input: RegularizationInput): Promise<AttendanceRegularization> {
+    if (!input.reason.trim()) throw new RegularizationError('give a reason for the correction');
+    if (input.signOut <= input.signIn) throw new RegularizationError('the sign-out must be after the sign-in');
+    if (input.workDate > format(new Date(), 'yyyy-MM-dd') || input.signOut > new Date()) {
+      throw new RegularizationError('only past punches can be corrected');
+    }
+
+    const { data: open, error: openError } = await this.client
+      .from('attendance_regularizations')
+      .select('id')
+      .eq('user_id', input.userId)
+      .eq('work_date', input.workDate)
+      .eq('status', 'pending')
+      .limit(1);
+    if (openError) throw openError;
+    if (open && open.length > 0) {
+      throw new RegularizationError(`a request for ${format(input.signIn, 'MMM d')} is waiting for approval`);
+    }
+
+    return this.withRetry(async () => {
+      const { data, error } = await this.client
+        .from('attendance_regularizations')
+        .insert({
+          company_id: input.companyId,
+          user_id: input.userId,
+          attendance_session_id: input.attendanceSessionId,
+          work_date: input.workDate,
+          kind: input.kind,
+          requested_sign_in: input.signIn.toISOString(),
+          requested_sign_out: input.signOut.toISOString(),
+          reason: input.reason.trim(),
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data as AttendanceRegularization;
+    }, `Submit regularization ${input.userId}`);
+  }
+
+  async cancelRequest(request: AttendanceRegularization): Promise<AttendanceRegularization> {
+    if (request.status !== 'pending') throw new RegularizationError('only a pending request can be cancelled');
+    return this.decide(request.id, { status: 'cancelled' });
+  }
+
+  /**
+   * Approve a pending request; the database corrects the session and keeps
+   * the original punch on the request
+   */
+  async approveRequest(request: AttendanceRegularization, approvedBy: string): Promise<AttendanceRegularization> {
+    this.authorize(request, approvedBy);
+    return this.decide(request.id, { status: 'approved', approved_by: approvedBy });
+  }
+
+  async rejectRequest(request: AttendanceRegularization, rejectedBy: string, reason?: string): Promise<AttendanceRegularization> {
+    this.authorize(request, rejectedBy);
+    return this.decide(request.id, {
+      status: 'rejected',
+      approved_by: rejectedBy,
+      rejection_reason: reason?.trim() || null,
+    });
+  }
+
+  private authorize(request: AttendanceRegularization, userId: string) {
+    if (request.user_id === userId) throw new RegularizationError('you cannot decide your own request');
+    if (request.status !== 'pending') throw new RegularizationError('this request has already been decided');
+  }
+
+  private async decide(id: string, updates: Partial<AttendanceRegularization>): Promise<AttendanceRegularization> {
+    const data = await this.withRetry(async () => {
+      const { data, error } = await this.client
+        .from('attendance_regularizations')
+        .update(updates)
+        .eq('id', id)
+        .eq('status', 'pending')
+        .select()
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    }, `Decide regularization ${id}`);
+
+    // Someone else decided it first
+    if (!data) throw new RegularizationError('this request has already been decided');
+    return data as AttendanceRegularization;
+  }
+}
+
+export const regularizationService = new RegularizationService();
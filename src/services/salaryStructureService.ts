@@ -0,0 +1,165 @@
+// src/services/salaryStructureService.ts
+import { BaseService } from './baseService';
+import { Profile, SalaryComponent, SalaryStructure } from '@/types/hrms';
+import { getSalaryStructureIssue } from '@/lib/payrollEngine';
+import { DomainError } from '@/lib/domainError';
+
+export type SalaryComponentInput = Omit<SalaryComponent, 'id' | 'structure_id' | 'created_at'>;
+
+export class SalaryStructureError extends DomainError {
+  constructor(reason: string) {
+    super(`Salary structure: ${reason}`);
+    this.name = 'SalaryStructureError';
+  }
+}
+
+class SalaryStructureService extends BaseService {
+  async getStructures(companyId: string): Promise<SalaryStructure[]> {
+    const cacheKey = `salary_structures:${companyId}`;
+    const cached = this.getCache<SalaryStructure[]>(cacheKey);
+    if (cached) return cached;
+
+    return this.withRetry(async () => {
+      const { data, error } = await this.client
+        .from('salary_structures')
+        .select('*, components:salary_components(*)')
+        .eq('company_id', companyId)
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+      const structures = (data || []).map(s => ({
+        ...s,
+        components: [...(s.components || [])].sort((a, b) => a.sort_order - b.sort_order),
+      })) as SalaryStructure[];
+      this.setCache(cacheKey, structures);
+      return structures;
+    }, `Get salary structures ${companyId}`);
+  }
+
+  /**
+   * Employee-level assignment wins; otherwise the structure attached to their department
+   */
+  resolveForEmployee(
+    structures: SalaryStructure[],
+    employee: Pick<Profile, 'salary_structure_id' | 'department_id'>
+  ): SalaryStructure | null {
+    if (employee.salary_structure_id) {
+      const assigned = structures.find(s => s.id === employee.salary_structure_id);
+      if (assigned) return assigned;
+    }
+    if (employee.department_id) {
+      return structures.find(s => s.department_id === employee.department_id) || null;
+    }
+    return null;
+  }
+
+  async createStructure(
+    companyId: string,
+    structure: Pick<SalaryStructure, 'name' | 'description' | 'department_id'>
+  ): Promise<SalaryStructure> {
+    return this.withRetry(async () => {
+      const { data, error } = await this.client
+        .from('salary_structures')
+        .insert([{
+          company_id: companyId,
+          ...structure,
+          created_at: new Date().toISOString(),
+          updated_at: new Date().toISOString(),
+        }])
+        .select()
+        .single();
+
+      if (error) throw error;
+      this.clearCache(`salary_structures:${companyId}`);
+      return { ...data, components: [] } as SalaryStructure;
+    }, `Create salary structure ${structure.name}`);
+  }
+
+  async updateStructure(
+    structureId: string,
+    companyId: string,
+    updates: Partial<Pick<SalaryStructure, 'name' | 'description' | 'department_id'>>
+  ): Promise<SalaryStructure> {
+    return this.withRetry(async () => {
+      const { data, error } = await this.client
+        .from('salary_structures')
+        .update({
+          ...updates,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', structureId)
+        .select()
+        .single();
+
+      if (error) throw error;
+      this.clearCache(`salary_structures:${companyId}`);
+      return data as SalaryStructure;
+    }, `Update salary structure ${structureId}`);
+  }
+
+  async deleteStructure(structureId: string, companyId: string): Promise<void> {
+    return this.withRetry(async () => {
+      const { error } = await this.client
+        .from('salary_structures')
+        .delete()
+        .eq('id', structureId);
+
+      if (error) throw error;
+      this.clearCache(`salary_structures:${companyId}`);
+    }, `Delete salary structure ${structureId}`);
+  }
+
+  /**
+   * Add a component, refusing one that would take the structure past CTC.
+   * A structure may lack its balance component while it is being built.
+   */
+  async addComponent(
+    structureId: string,
+    companyId: string,
+    component: SalaryComponentInput
+  ): Promise<SalaryComponent> {
+    const existing = await this.withRetry(async () => {
+      const { data, error } = await this.client
+        .from('salary_components')
+        .select('calculation_type, value')
+        .eq('structure_id', structureId);
+
+      if (error) throw error;
+      return (data || []) as Pick<SalaryComponent, 'calculation_type' | 'value'>[];
+    }, `Get salary components ${structureId}`);
+
+    const issue = getSalaryStructureIssue([...existing, component], { requireBalance: false });
+    if (issue) throw new SalaryStructureError(issue);
+
+    return this.withRetry(async () => {
+      const { data, error } = await this.client
+        .from('salary_components')
+        .insert([{
+          structure_id: structureId,
+          company_id: companyId,
+          ...component,
+          created_at: new Date().toISOString(),
+        }])
+        .select()
+        .single();
+
+      if (error) throw error;
+      this.clearCache(`salary_structures:${companyId}`);
+      return data as SalaryComponent;
+    }, `Add salary component ${component.code}`);
+  }
+
+  async deleteComponent(componentId: string, companyId: string): Promise<void> {
+    return this.withRetry(async () => {
+      const { error } = await this.client
+        .from('salary_components')
+        .delete()
+        .eq('id', componentId);
+
+      if (error) throw error;
+      this.clearCache(`salary_structures:${companyId}`);
+    }, `Delete salary component ${componentId}`);
+  }
+}
+
+export const salaryStructureService = new SalaryStructureService();
@@ -1,34 +1,34 @@
 // src/services/settingsService.ts
 import { BaseService, PaginationParams } from './baseService';
+import { CompanySettings, Holiday, PayrollConfig } from '@/types/hrms';
+import { DEFAULT_PAYROLL_CONFIG } from '@/lib/payrollEngine';
+import { BusinessCalendar, createBusinessCalendar, DEFAULT_WORKING_WEEKDAYS } from '@/lib/businessCalendar';
+import { DEFAULT_FINANCIAL_YEAR_START } from '@/lib/taxEngine';
 
-interface CompanySettings {
-  id: string;
-  company_id: string;
-  timezone?: string;
-  currency?: string;
-  financial_year_start?: string;
-  working_days?: string[];
-  office_hours_start?: string;
-  office_hours_end?: string;
-  geofencing_enabled?: boolean;
-  geofence_radius?: number;
-  email_notifications?: boolean;
-  sms_notifications?: boolean;
-  created_at: string;
-  updated_at: string;
-}
+export const DEFAULT_COMPANY_SETTINGS: CompanySettings = {
+  timezone: 'UTC',
+  currency: 'INR',
+  financial_year_start: DEFAULT_FINANCIAL_YEAR_START,
+  working_days: DEFAULT_WORKING_WEEKDAYS,
+  office_hours_start: '09:00',
+  office_hours_end: '18:00',
+  geofencing_enabled: false,
+  geofence_radius: 500,
+  geofence_policy: 'flag',
+  email_notifications: true,
+  sms_notifications: false,
+  payout_debit_account: '',
+  payout_format: 'neft_csv',
+};
 
-interface Holiday {
-  id: string;
-  company_id: string;
-  name: string;
-  date: string;
-  is_optional?: boolean;
-  created_at: string;
-  updated_at: string;
-}
+const GENERAL_SETTINGS_KEY = 'general';
+const PAYROLL_CONFIG_KEY = 'payroll_config';
 
 class SettingsService extends BaseService {
+  /**
+   * General company settings are stored as one JSON value in `company_settings`,
+   * like the payroll config. Missing keys fall back to the defaults.
+   */
   async getCompanySettings(companyId: string): Promise<CompanySettings> {
     const cacheKey = `company_settings:${companyId}`;
     const cached = this.getCache<CompanySettings>(cacheKey);
@@ -37,66 +37,73 @@ class SettingsService extends BaseService {
     return this.withRetry(async () => {
       const { data, error } = await this.client
         .from('company_settings')
-        .select('*')
+        .select('setting_value')
         .eq('company_id', companyId)
-        .single();
+        .eq('setting_key', GENERAL_SETTINGS_KEY)
+        .maybeSingle();
 
-      if (error && error.code !== 'PGRST116') throw error;
-      
-      if (!data) {
-        return this.createCompanySettings(companyId);
-      }
-
-      this.setCache(cacheKey, data);
-      return data as CompanySettings;
+      if (error) throw error;
+      const settings = { ...DEFAULT_COMPANY_SETTINGS, ...(data?.setting_value || {}) } as CompanySettings;
+      this.setCache(cacheKey, settings);
+      return settings;
     }, `Get company settings ${companyId}`);
   }
 
   async updateCompanySettings(companyId: string, settings: Partial<CompanySettings>): Promise<CompanySettings> {
     return this.withRetry(async () => {
       const existing = await this.getCompanySettings(companyId);
+      const updated = { ...existing, ...settings };
 
-      const { data, error } = await this.client
+      const { error } = await this.client
         .from('company_settings')
-        .update({
-          ...settings,
+        .upsert({
+          company_id: companyId,
+          setting_key: GENERAL_SETTINGS_KEY,
+          setting_value: updated,
           updated_at: new Date().toISOString(),
-        })
-        .eq('id', existing.id)
-        .select()
-        .single();
+        }, { onConflict: 'company_id,setting_key' });
 
       if (error) throw error;
       this.clearCache(`company_settings:${companyId}`);
-      return data as CompanySettings;
+      return updated;
     }, `Update company settings ${companyId}`);
   }
 
-  async createCompanySettings(companyId: string): Promise<CompanySettings> {
+  async getPayrollConfig(companyId: string): Promise<PayrollConfig> {
+    const cacheKey = `payroll_config:${companyId}`;
+    const cached = this.getCache<PayrollConfig>(cacheKey);
+    if (cached) return cached;
+
     return this.withRetry(async () => {
       const { data, error } = await this.client
         .from('company_settings')
-        .insert([{
+        .select('setting_value')
+        .eq('company_id', companyId)
+        .eq('setting_key', PAYROLL_CONFIG_KEY)
+        .maybeSingle();
+
+      if (error) throw error;
+      const config = { ...DEFAULT_PAYROLL_CONFIG, ...(data?.setting_value || {}) } as PayrollConfig;
+      this.setCache(cacheKey, config);
+      return config;
+    }, `Get payroll config ${companyId}`);
+  }
+
+  async updatePayrollConfig(companyId: string, config: PayrollConfig): Promise<PayrollConfig> {
+    return this.withRetry(async () => {
+      const { error } = await this.client
+        .from('company_settings')
+        .upsert({
           company_id: companyId,
-          timezone: 'UTC',
-          currency: 'USD',
-          financial_year_start: '01-01',
-          working_days: ['monday', 'tuesday', 'wednesday', 'thursday', 'friday'],
-          office_hours_start: '09:00',
-          office_hours_end: '18:00',
-          geofencing_enabled: false,
-          geofence_radius: 500,
-          email_notifications: true,
-          sms_notifications: false,
-          created_at: new Date().toISOString(),
+          setting_key: PAYROLL_CONFIG_KEY,
+          setting_value: config,
           updated_at: new Date().toISOString(),
-        }])
-        .select()
-        .single();
+        }, { onConflict: 'company_id,setting_key' });
 
       if (error) throw error;
-      return data as CompanySettings;
-    }, `Create company settings ${companyId}`);
+      this.clearCache(`payroll_config:${companyId}`);
+      return config;
+    }, `Update payroll config ${companyId}`);
   }
 
   async getHolidays(companyId: string): Promise<Holiday[]> {
@@ -117,6 +124,17 @@ class SettingsService extends BaseService {
     }, `Get holidays ${companyId}`);
   }
 
+  /**
+   * Working weekdays and holidays, for counting leave in working days
+   */
+  async getBusinessCalendar(companyId: string): Promise<BusinessCalendar> {
+    const [settings, holidays] = await Promise.all([
+      this.getCompanySettings(companyId),
+      this.getHolidays(companyId),
+    ]);
+    return createBusinessCalendar(settings.working_days, holidays);
+  }
+
   async addHoliday(companyId: string, holiday: Omit<Holiday, 'id' | 'company_id' | 'created_at' | 'updated_at'>): Promise<Holiday> {
     return this.withRetry(async () => {
       const { data, error } = await this.client
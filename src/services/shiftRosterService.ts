@@ -0,0 +1,190 @@
+// src/services/shiftRosterService.ts
+import { BaseService } from './baseService';
+import { ShiftAssignment, ShiftRotation, WorkSession } from '@/types/hrms';
+import { crossesMidnight, getShiftDate, resolveRosterDay, RosterDay } from '@/lib/shiftRoster';
+import { addDaysToDate, getZonedDate } from '@/lib/timezone';
+import { DomainError } from '@/lib/domainError';
+
+export type ShiftAssignmentInput = Pick<
+  ShiftAssignment,
+  'company_id' | 'user_id' | 'start_date' | 'end_date' | 'work_session_id' | 'rotation_id' | 'weekly_offs'
+> & { created_by?: string | null };
+
+export interface RosteredShift {
+  shift: WorkSession;
+  /** Day the shift started, the day before for the tail of an overnight shift */
+  shiftDate: string;
+}
+
+export class ShiftRosterError extends DomainError {
+  constructor(reason: string) {
+    super(`Shift roster: ${reason}`);
+    this.name = 'ShiftRosterError';
+  }
+}
+
+class ShiftRosterService extends BaseService {
+  async getWorkSessions(companyId: string): Promise<WorkSession[]> {
+    const cacheKey = `work_sessions:${companyId}`;
+    const cached = this.getCache<WorkSession[]>(cacheKey);
+    if (cached) return cached;
+
+    return this.withRetry(async () => {
+      const { data, error } = await this.client
+        .from('work_sessions')
+        .select('*')
+        .eq('company_id', companyId)
+        .order('start_time');
+
+      if (error) throw error;
+      const sessions = (data || []) as WorkSession[];
+      this.setCache(cacheKey, sessions);
+      return sessions;
+    }, `Get work sessions ${companyId}`);
+  }
+
+  async getWorkSession(id: string): Promise<WorkSession | null> {
+    return this.withRetry(async () => {
+      const { data, error } = await this.client
+        .from('work_sessions')
+        .select('*')
+        .eq('id', id)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data as WorkSession | null;
+    }, `Get work session ${id}`);
+  }
+
+  async getRotations(companyId: string): Promise<ShiftRotation[]> {
+    const cacheKey = `shift_rotations:${companyId}`;
+    const cached = this.getCache<ShiftRotation[]>(cacheKey);
+    if (cached) return cached;
+
+    return this.withRetry(async () => {
+      const { data, error } = await this.client
+        .from('shift_rotations')
+        .select('*')
+        .eq('company_id', companyId)
+        .order('name');
+
+      if (error) throw error;
+      const rotations = (data || []) as ShiftRotation[];
+      this.setCache(cacheKey, rotations);
+      return rotations;
+    }, `Get shift rotations ${companyId}`);
+  }
+
+  async saveRotation(companyId: string, name: string, pattern: (string | null)[]): Promise<ShiftRotation> {
+    if (!pattern.some(Boolean)) throw new ShiftRosterError('a rotation needs at least one working day');
+
+    return this.withRetry(async () => {
+      const { data, error } = await this.client
+        .from('shift_rotations')
+        .insert({ company_id: companyId, name: name.trim(), pattern })
+        .select()
+        .single();
+
+      if (error) throw error;
+      this.clearCache(`shift_rotations:${companyId}`);
+      return data as ShiftRotation;
+    }, `Save shift rotation ${name}`);
+  }
+
+  async deleteRotation(id: string, companyId: string): Promise<void> {
+    return this.withRetry(async () => {
+      const { error } = await this.client
+        .from('shift_rotations')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+      this.clearCache(`shift_rotations:${companyId}`);
+    }, `Delete shift rotation ${id}`);
+  }
+
+  /**
+   * Assignments overlapping a date range, for the given employees or the whole company
+   */
+  async getAssignments(companyId: string, startDate: string, endDate: string, userIds?: string[]): Promise<ShiftAssignment[]> {
+    return this.withRetry(async () => {
+      let query = this.client
+        .from('shift_assignments')
+        .select('*')
+        .eq('company_id', companyId)
+        .lte('start_date', endDate)
+        .or(`end_date.is.null,end_date.gte.${startDate}`)
+        .order('start_date', { ascending: true });
+      if (userIds) query = query.in('user_id', userIds);
+
+      const { data, error } = await query;
+      if (error) throw error;
+      return (data || []) as ShiftAssignment[];
+    }, `Get shift assignments ${companyId}`);
+  }
+
+  async assignShift(input: ShiftAssignmentInput): Promise<ShiftAssignment> {
+    if (!input.work_session_id === !input.rotation_id) {
+      throw new ShiftRosterError('choose either a shift or a rotation');
+    }
+    if (input.end_date && input.end_date < input.start_date) {
+      throw new ShiftRosterError('the end date must be on or after the start date');
+    }
+
+    return this.withRetry(async () => {
+      const { data, error } = await this.client
+        .from('shift_assignments')
+        .insert(input)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data as ShiftAssignment;
+    }, `Assign shift ${input.user_id}`);
+  }
+
+  async deleteAssignment(id: string): Promise<void> {
+    return this.withRetry(async () => {
+      const { error } = await this.client
+        .from('shift_assignments')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    }, `Delete shift assignment ${id}`);
+  }
+
+  async getRosterDay(userId: string, companyId: string, date: string): Promise<RosterDay | null> {
+    const [assignments, rotations] = await Promise.all([
+      this.getAssignments(companyId, date, date, [userId]),
+      this.getRotations(companyId),
+    ]);
+    return resolveRosterDay(assignments, rotations, userId, date);
+  }
+
+  /**
+   * The rostered shift a sign-in at `at` is for: yesterday's overnight shift
+   * while it is still running, otherwise today's, with days taken in the
+   * employee's timezone. Null on a day off or without a roster.
+   */
+  async getShiftForSignIn(userId: string, companyId: string, at: Date, timeZone: string): Promise<RosteredShift | null> {
+    const today = getZonedDate(at, timeZone);
+    const yesterday = addDaysToDate(today, -1);
+    const [assignments, rotations, sessions] = await Promise.all([
+      this.getAssignments(companyId, yesterday, today, [userId]),
+      this.getRotations(companyId),
+      this.getWorkSessions(companyId),
+    ]);
+    const findShift = (id: string | null) => sessions.find(s => s.id === id) || null;
+
+    const previous = findShift(resolveRosterDay(assignments, rotations, userId, yesterday)?.shiftId ?? null);
+    if (previous && crossesMidnight(previous) && getShiftDate(at, previous, timeZone) === yesterday) {
+      return { shift: previous, shiftDate: yesterday };
+    }
+
+    const current = findShift(resolveRosterDay(assignments, rotations, userId, today)?.shiftId ?? null);
+    return current ? { shift: current, shiftDate: today } : null;
+  }
+}
+
+export const shiftRosterService = new ShiftRosterService();
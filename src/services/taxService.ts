@@ -0,0 +1,93 @@
+// src/services/taxService.ts
+import { BaseService } from './baseService';
+import { TaxDeclaration, TaxSlabConfig } from '@/types/hrms';
+
+export type TaxDeclarationInput = Pick<
+  TaxDeclaration,
+  'regime' | 'section_80c' | 'section_80d' | 'hra_rent_paid' | 'metro_city'
+>;
+
+class TaxService extends BaseService {
+  /**
+   * Statutory default slabs plus any company versions visible to the current user
+   */
+  async getSlabConfigs(): Promise<TaxSlabConfig[]> {
+    const cacheKey = 'tax_slab_configs';
+    const cached = this.getCache<TaxSlabConfig[]>(cacheKey);
+    if (cached) return cached;
+
+    return this.withRetry(async () => {
+      const { data, error } = await this.client
+        .from('tax_slab_configs')
+        .select('*')
+        .order('financial_year', { ascending: false })
+        .order('version', { ascending: false });
+
+      if (error) throw error;
+      const configs = (data || []).map(c => ({
+        ...c,
+        standard_deduction: Number(c.standard_deduction),
+        rebate_limit: Number(c.rebate_limit),
+        rebate_amount: Number(c.rebate_amount),
+        cess_percentage: Number(c.cess_percentage),
+      })) as TaxSlabConfig[];
+      this.setCache(cacheKey, configs);
+      return configs;
+    }, 'Get tax slab configs');
+  }
+
+  async getDeclaration(userId: string, financialYear: string): Promise<TaxDeclaration | null> {
+    return this.withRetry(async () => {
+      const { data, error } = await this.client
+        .from('tax_declarations')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('financial_year', financialYear)
+        .maybeSingle();
+
+      if (error) throw error;
+      return (data || null) as TaxDeclaration | null;
+    }, `Get tax declaration ${userId}:${financialYear}`);
+  }
+
+  async getDeclarations(userIds: string[], financialYear: string): Promise<TaxDeclaration[]> {
+    if (userIds.length === 0) return [];
+
+    return this.withRetry(async () => {
+      const { data, error } = await this.client
+        .from('tax_declarations')
+        .select('*')
+        .in('user_id', userIds)
+        .eq('financial_year', financialYear);
+
+      if (error) throw error;
+      return (data || []) as TaxDeclaration[];
+    }, `Get tax declarations ${financialYear}`);
+  }
+
+  async saveDeclaration(
+    userId: string,
+    companyId: string | null,
+    financialYear: string,
+    declaration: TaxDeclarationInput
+  ): Promise<TaxDeclaration> {
+    return this.withRetry(async () => {
+      const { data, error } = await this.client
+        .from('tax_declarations')
+        .upsert({
+          user_id: userId,
+          company_id: companyId,
+          financial_year: financialYear,
+          ...declaration,
+          updated_at: new Date().toISOString(),
+        }, { onConflict: 'user_id,financial_year' })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data as TaxDeclaration;
+    }, `Save tax declaration ${userId}:${financialYear}`);
+  }
+}
+
+export const taxService = new TaxService();
@@ -0,0 +1,157 @@
+// src/services/teamCalendarService.ts
+import { BaseService } from './baseService';
+import { settingsService } from './settingsService';
+import { DepartmentStaffingRule, LeaveRequest, TeamLeave } from '@/types/hrms';
+import { findStaffingBreaches, StaffingBreach } from '@/lib/teamCalendar';
+
+export interface StaffingCheck {
+  departmentId: string | null;
+  minPresent: number | null;
+  headcount: number;
+  breaches: StaffingBreach[];
+  /** Colleagues in the department with leave booked or pending over the same dates */
+  overlapping: TeamLeave[];
+}
+
+class TeamCalendarService extends BaseService {
+  /**
+   * Approved and pending leave of the given employees overlapping a date range.
+   * Managers see their direct reports' requests; admins see everyone's.
+   */
+  async getTeamLeave(userIds: string[], startDate: string, endDate: string): Promise<TeamLeave[]> {
+    if (userIds.length === 0) return [];
+
+    return this.withRetry(async () => {
+      const { data, error } = await this.client
+        .from('leave_requests')
+        .select('id, user_id, leave_type, start_date, end_date, half_day, status')
+        .in('user_id', userIds)
+        .in('status', ['pending', 'approved', 'cancellation_requested'])
+        .lte('start_date', endDate)
+        .gte('end_date', startDate)
+        .order('start_date', { ascending: true });
+
+      if (error) throw error;
+      return (data || []).map(({ id, ...leave }) => ({ ...leave, leave_request_id: id })) as TeamLeave[];
+    }, 'Get team leave');
+  }
+
+  /**
+   * Leave across a whole department, including members outside the caller's reports
+   */
+  async getDepartmentLeave(departmentId: string, startDate: string, endDate: string): Promise<TeamLeave[]> {
+    return this.withRetry(async () => {
+      const { data, error } = await this.client.rpc('get_department_leave', {
+        _department_id: departmentId,
+        _start_date: startDate,
+        _end_date: endDate,
+      });
+
+      if (error) throw error;
+      return (data || []) as TeamLeave[];
+    }, `Get department leave ${departmentId}`);
+  }
+
+  async getStaffingRules(companyId: string): Promise<DepartmentStaffingRule[]> {
+    const cacheKey = `staffing_rules:${companyId}`;
+    const cached = this.getCache<DepartmentStaffingRule[]>(cacheKey);
+    if (cached) return cached;
+
+    return this.withRetry(async () => {
+      const { data, error } = await this.client
+        .from('department_staffing_rules')
+        .select('*')
+        .eq('company_id', companyId);
+
+      if (error) throw error;
+      const rules = (data || []) as DepartmentStaffingRule[];
+      this.setCache(cacheKey, rules);
+      return rules;
+    }, `Get staffing rules ${companyId}`);
+  }
+
+  async saveStaffingRule(companyId: string, departmentId: string, minPresent: number): Promise<DepartmentStaffingRule> {
+    return this.withRetry(async () => {
+      const { data, error } = await this.client
+        .from('department_staffing_rules')
+        .upsert({
+          company_id: companyId,
+          department_id: departmentId,
+          min_present: minPresent,
+          updated_at: new Date().toISOString(),
+        }, { onConflict: 'department_id' })
+        .select()
+        .single();
+
+      if (error) throw error;
+      this.clearCache(`staffing_rules:${companyId}`);
+      return data as DepartmentStaffingRule;
+    }, `Save staffing rule ${departmentId}`);
+  }
+
+  async deleteStaffingRule(companyId: string, departmentId: string): Promise<void> {
+    return this.withRetry(async () => {
+      const { error } = await this.client
+        .from('department_staffing_rules')
+        .delete()
+        .eq('company_id', companyId)
+        .eq('department_id', departmentId);
+
+      if (error) throw error;
+      this.clearCache(`staffing_rules:${companyId}`);
+    }, `Delete staffing rule ${departmentId}`);
+  }
+
+  /**
+   * Who else in the requester's department is off over the request's dates,
+   * and the days approving it would take the department below its minimum
+   * staffing. A modification is checked without the leave it replaces.
+   */
+  async checkStaffing(request: LeaveRequest, companyId: string): Promise<StaffingCheck> {
+    const { data: profile, error } = await this.client
+      .from('profiles')
+      .select('department_id')
+      .eq('user_id', request.user_id)
+      .maybeSingle();
+    if (error) throw error;
+
+    const departmentId: string | null = profile?.department_id || null;
+    if (!departmentId) {
+      return { departmentId, minPresent: null, headcount: 0, breaches: [], overlapping: [] };
+    }
+
+    const [rules, calendar, leaves, headcountResult] = await Promise.all([
+      this.getStaffingRules(companyId),
+      settingsService.getBusinessCalendar(companyId),
+      this.getDepartmentLeave(departmentId, request.start_date, request.end_date),
+      this.client
+        .from('profiles')
+        .select('id', { count: 'exact', head: true })
+        .eq('company_id', companyId)
+        .eq('department_id', departmentId),
+    ]);
+    if (headcountResult.error) throw headcountResult.error;
+
+    const headcount = headcountResult.count || 0;
+    const minPresent = rules.find(r => r.department_id === departmentId)?.min_present ?? null;
+    const others = leaves.filter(
+      l => l.leave_request_id !== request.id && l.leave_request_id !== request.modifies_request_id
+    );
+
+    return {
+      departmentId,
+      minPresent,
+      headcount,
+      overlapping: others.filter(l => l.user_id !== request.user_id),
+      breaches: minPresent === null ? [] : findStaffingBreaches(
+        calendar,
+        { ...request, leave_request_id: request.id },
+        others,
+        headcount,
+        minPresent
+      ),
+    };
+  }
+}
+
+export const teamCalendarService = new TeamCalendarService();
@@ -0,0 +1,344 @@
+// src/services/timesheetService.ts
+import { BaseService } from './baseService';
+import { attendanceService } from './attendanceService';
+import { leaveApprovalService } from './leaveApprovalService';
+import { analyticsService } from './analyticsService';
+import { formatDay, getWeekStart, OPEN_TIMESHEET_STATUSES } from '@/lib/timesheets';
+import { formatWorkedMinutes } from '@/lib/attendanceBreaks';
+import { Project, ProjectTask, Timesheet, TimesheetEntry } from '@/types/hrms';
+import { DomainError } from '@/lib/domainError';
+
+export type ProjectInput = Pick<Project, 'name' | 'code' | 'client_name' | 'is_billable' | 'is_active'>;
+
+export interface TimesheetEntryInput {
+  companyId: string;
+  userId: string;
+  projectId: string;
+  taskId: string | null;
+  workDate: string;
+  minutes: number;
+  notes: string | null;
+}
+
+export class TimesheetError extends DomainError {
+  constructor(reason: string) {
+    super(`Timesheet: ${reason}`);
+    this.name = 'TimesheetError';
+  }
+}
+
+class TimesheetService extends BaseService {
+  /**
+   * The company's projects with their tasks, by name
+   */
+  async getProjects(companyId: string): Promise<Project[]> {
+    return this.withRetry(async () => {
+      const { data, error } = await this.client
+        .from('projects')
+        .select('*, tasks:project_tasks(*)')
+        .eq('company_id', companyId)
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+      return ((data || []) as Project[]).map(project => ({
+        ...project,
+        tasks: [...(project.tasks || [])].sort((a, b) => a.name.localeCompare(b.name)),
+      }));
+    }, `Get projects ${companyId}`);
+  }
+
+  async createProject(companyId: string, input: ProjectInput, createdBy: string): Promise<Project> {
+    if (!input.name.trim()) throw new TimesheetError('give the project a name');
+
+    return this.withRetry(async () => {
+      const { data, error } = await this.client
+        .from('projects')
+        .insert({
+          company_id: companyId,
+          name: input.name.trim(),
+          code: input.code?.trim() || null,
+          client_name: input.client_name?.trim() || null,
+          is_billable: input.is_billable,
+          is_active: input.is_active,
+          created_by: createdBy,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data as Project;
+    }, `Create project ${input.name}`);
+  }
+
+  /**
+   * Entries already logged keep the billability they were saved with
+   */
+  async updateProject(id: string, input: ProjectInput): Promise<Project> {
+    if (!input.name.trim()) throw new TimesheetError('give the project a name');
+
+    return this.withRetry(async () => {
+      const { data, error } = await this.client
+        .from('projects')
+        .update({
+          name: input.name.trim(),
+          code: input.code?.trim() || null,
+          client_name: input.client_name?.trim() || null,
+          is_billable: input.is_billable,
+          is_active: input.is_active,
+        })
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data as Project;
+    }, `Update project ${id}`);
+  }
+
+  async createTask(project: Project, name: string, isBillable: boolean): Promise<ProjectTask> {
+    if (!name.trim()) throw new TimesheetError('give the task a name');
+
+    return this.withRetry(async () => {
+      const { data, error } = await this.client
+        .from('project_tasks')
+        .insert({
+          project_id: project.id,
+          company_id: project.company_id,
+          name: name.trim(),
+          is_billable: isBillable,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data as ProjectTask;
+    }, `Create task ${project.id}`);
+  }
+
+  async updateTask(id: string, updates: Partial<Pick<ProjectTask, 'name' | 'is_billable' | 'is_active'>>): Promise<ProjectTask> {
+    return this.withRetry(async () => {
+      const { data, error } = await this.client
+        .from('project_tasks')
+        .update(updates)
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data as ProjectTask;
+    }, `Update task ${id}`);
+  }
+
+  /**
+   * The user's timesheet for a week with its entries; null before any hours
+   * are logged that week
+   */
+  async getTimesheet(userId: string, weekStart: string): Promise<Timesheet | null> {
+    return this.withRetry(async () => {
+      const { data, error } = await this.client
+        .from('timesheets')
+        .select('*, entries:timesheet_entries(*)')
+        .eq('user_id', userId)
+        .eq('week_start', weekStart)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data ? this.withSortedEntries(data as Timesheet) : null;
+    }, `Get timesheet ${userId} ${weekStart}`);
+  }
+
+  /**
+   * Log time on a day, or change an entry. The day's entries cannot add up
+   * to more than the hours attended that day; the database checks the same.
+   */
+  async saveEntry(input: TimesheetEntryInput, entryId?: string): Promise<TimesheetEntry> {
+    if (input.minutes <= 0) throw new TimesheetError('log more than zero hours');
+    if (input.workDate > await attendanceService.getLocalToday(input.userId, input.companyId)) {
+      throw new TimesheetError('hours can only be logged for days already worked');
+    }
+
+    const timesheet = await this.getOrCreateTimesheet(input.companyId, input.userId, getWeekStart(input.workDate));
+    if (!OPEN_TIMESHEET_STATUSES.includes(timesheet.status)) {
+      throw new TimesheetError(`the week is ${timesheet.status} and can no longer be changed`);
+    }
+
+    const [summary] = await attendanceService.getDailySummaries(input.userId, input.workDate, input.workDate);
+    const attended = summary?.worked_minutes || 0;
+    const logged = (timesheet.entries || [])
+      .filter(e => e.work_date === input.workDate && e.id !== entryId)
+      .reduce((sum, e) => sum + e.minutes, 0);
+    if (logged + input.minutes > attended) {
+      throw new TimesheetError(attended === 0
+        ? `there is no attendance on ${formatDay(input.workDate, 'MMM d')} to log hours against`
+        : `only ${formatWorkedMinutes(attended - logged)} of ${formatDay(input.workDate, 'MMM d')}'s attended hours are left to log`);
+    }
+
+    return this.withRetry(async () => {
+      const values = {
+        project_id: input.projectId,
+        task_id: input.taskId,
+        work_date: input.workDate,
+        minutes: input.minutes,
+        notes: input.notes?.trim() || null,
+      };
+      const { data, error } = entryId
+        ? await this.client.from('timesheet_entries').update(values).eq('id', entryId).select().single()
+        : await this.client
+            .from('timesheet_entries')
+            .insert({ ...values, timesheet_id: timesheet.id, company_id: input.companyId, user_id: input.userId })
+            .select()
+            .single();
+
+      if (error) throw error;
+      return data as TimesheetEntry;
+    }, `Save timesheet entry ${input.userId} ${input.workDate}`);
+  }
+
+  async deleteEntry(entry: TimesheetEntry): Promise<void> {
+    return this.withRetry(async () => {
+      const { error } = await this.client
+        .from('timesheet_entries')
+        .delete()
+        .eq('id', entry.id);
+
+      if (error) throw error;
+    }, `Delete timesheet entry ${entry.id}`);
+  }
+
+  /**
+   * Send the week to the employee's manager. The database checks every day
+   * against attendance again, which may have been corrected since.
+   */
+  async submitTimesheet(timesheet: Timesheet): Promise<Timesheet> {
+    if (!OPEN_TIMESHEET_STATUSES.includes(timesheet.status)) {
+      throw new TimesheetError('only an open week can be submitted');
+    }
+    if (timesheet.entries && timesheet.entries.length === 0) {
+      throw new TimesheetError('log some hours before submitting the week');
+    }
+    return this.transition(timesheet, OPEN_TIMESHEET_STATUSES, { status: 'submitted' }, 'this week has changed; refresh and try again');
+  }
+
+  /**
+   * Take a submitted week back to change it
+   */
+  async withdrawTimesheet(timesheet: Timesheet): Promise<Timesheet> {
+    if (timesheet.status !== 'submitted') throw new TimesheetError('only a submitted week can be withdrawn');
+    return this.transition(timesheet, ['submitted'], { status: 'draft' }, 'this week has already been decided');
+  }
+
+  /**
+   * Submitted weeks the user can decide: their direct reports', or everyone's
+   * for admins and owners. Oldest first, with the entries and employee's profile.
+   */
+  async getPendingTimesheets(userId: string, companyId: string): Promise<Timesheet[]> {
+    const actor = await leaveApprovalService.getActor(userId, companyId);
+    const isAdmin = actor.role === 'admin' || actor.role === 'owner';
+    if (!isAdmin && actor.reportIds.length === 0) return [];
+
+    return this.withRetry(async () => {
+      let query = this.client
+        .from('timesheets')
+        .select('*, entries:timesheet_entries(*)')
+        .eq('company_id', companyId)
+        .eq('status', 'submitted')
+        .neq('user_id', userId)
+        .order('week_start', { ascending: true });
+      if (!isAdmin) query = query.in('user_id', actor.reportIds);
+
+      const { data, error } = await query;
+      if (error) throw error;
+      const timesheets = (data || []) as Timesheet[];
+      if (timesheets.length === 0) return [];
+
+      const { data: profiles, error: profileError } = await this.client
+        .from('profiles')
+        .select('*')
+        .in('user_id', [...new Set(timesheets.map(t => t.user_id))]);
+      if (profileError) throw profileError;
+
+      const profileMap = new Map((profiles || []).map(p => [p.user_id, p]));
+      return timesheets.map(t => ({ ...this.withSortedEntries(t), profile: profileMap.get(t.user_id) }));
+    }, `Get pending timesheets ${userId}`);
+  }
+
+  async approveTimesheet(timesheet: Timesheet, approvedBy: string): Promise<Timesheet> {
+    this.authorize(timesheet, approvedBy);
+    const approved = await this.transition(timesheet, ['submitted'], { status: 'approved', approved_by: approvedBy }, 'this week has already been decided');
+    // Approved hours count towards utilization
+    await analyticsService.clearAnalyticsCaches(timesheet.company_id);
+    return approved;
+  }
+
+  async rejectTimesheet(timesheet: Timesheet, rejectedBy: string, reason?: string): Promise<Timesheet> {
+    this.authorize(timesheet, rejectedBy);
+    return this.transition(
+      timesheet,
+      ['submitted'],
+      { status: 'rejected', approved_by: rejectedBy, rejection_reason: reason?.trim() || null },
+      'this week has already been decided'
+    );
+  }
+
+  private authorize(timesheet: Timesheet, userId: string) {
+    if (timesheet.user_id === userId) throw new TimesheetError('you cannot decide your own timesheet');
+    if (timesheet.status !== 'submitted') throw new TimesheetError('this week has already been decided');
+  }
+
+  private async getOrCreateTimesheet(companyId: string, userId: string, weekStart: string): Promise<Timesheet> {
+    const existing = await this.getTimesheet(userId, weekStart);
+    if (existing) return existing;
+
+    return this.withRetry(async () => {
+      // Another tab may have started the week first
+      const { error } = await this.client
+        .from('timesheets')
+        .upsert({ company_id: companyId, user_id: userId, week_start: weekStart }, { onConflict: 'user_id,week_start', ignoreDuplicates: true });
+      if (error) throw error;
+
+      const { data, error: fetchError } = await this.client
+        .from('timesheets')
+        .select('*, entries:timesheet_entries(*)')
+        .eq('user_id', userId)
+        .eq('week_start', weekStart)
+        .single();
+      if (fetchError) throw fetchError;
+      return data as Timesheet;
+    }, `Start timesheet ${userId} ${weekStart}`);
+  }
+
+  private async transition(
+    timesheet: Timesheet,
+    from: Timesheet['status'][],
+    updates: Partial<Timesheet>,
+    staleReason: string
+  ): Promise<Timesheet> {
+    const data = await this.withRetry(async () => {
+      const { data, error } = await this.client
+        .from('timesheets')
+        .update(updates)
+        .eq('id', timesheet.id)
+        .in('status', from)
+        .select()
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    }, `Update timesheet ${timesheet.id}`);
+
+    // Someone else moved it first
+    if (!data) throw new TimesheetError(staleReason);
+    return data as Timesheet;
+  }
+
+  private withSortedEntries(timesheet: Timesheet): Timesheet {
+    return {
+      ...timesheet,
+      entries: [...(timesheet.entries || [])].sort((a, b) =>
+        a.work_date.localeCompare(b.work_date) || a.created_at.localeCompare(b.created_at)
+      ),
+    };
+  }
+}
+
+export const timesheetService = new TimesheetService();
@@ -1,6 +1,8 @@
 export type AppRole = 'owner' | 'admin' | 'manager' | 'employee';
-export type LeaveType = 'casual' | 'sick' | 'paid' | 'unpaid';
-export type LeaveStatus = 'pending' | 'approved' | 'rejected';
+/** Code of one of the company's leave types (`LeaveType.code`) */
+export type LeaveTypeCode = string;
+export type Gender = 'female' | 'male' | 'other';
+export type LeaveStatus = 'pending' | 'approved' | 'rejected' | 'cancellation_requested' | 'cancelled';
 export type AttendanceStatus = 'present' | 'absent' | 'half_day' | 'on_leave' | 'late';
 
 export interface Department {
@@ -27,8 +29,18 @@ export interface Profile {
   bank_account_number: string | null;
   bank_ifsc: string | null;
   bank_name: string | null;
+  /** EPFO Universal Account Number (12 digits) */
+  uan: string | null;
+  /** ESIC insurance number (10 digits) */
+  esic_ip_number: string | null;
   monthly_salary: number;
   salary_type: 'fixed' | 'daily';
+  salary_structure_id: string | null;
+  /** State code (e.g. MH, KA) used for professional tax */
+  work_state: string | null;
+  gender: Gender | null;
+  /** IANA timezone for remote employees; null follows the company's */
+  timezone: string | null;
   avatar_url: string | null;
   created_at: string;
   updated_at: string;
@@ -45,27 +57,244 @@ export interface UserRole {
 export interface AttendanceSession {
   id: string;
   user_id: string;
+  company_id: string | null;
   sign_in_time: string;
   sign_out_time: string | null;
+  /** Day the session counts toward, in the employee's timezone */
+  work_date: string;
   status: AttendanceStatus;
   notes: string | null;
+  /** Work session the punch was made against, from the roster */
+  session_id: string | null;
+  /** Minutes after the shift start the employee signed in */
+  late_minutes: number;
+  /** Hours worked beyond the shift, paid through payroll */
+  overtime_hours: number;
+  /** Set once the completed session has been evaluated */
+  evaluated_at: string | null;
+  sign_in_lat: number | null;
+  sign_in_lng: number | null;
+  sign_out_lat: number | null;
+  sign_out_lng: number | null;
+  /** Office whose fence each punch fell within */
+  sign_in_office_id: string | null;
+  sign_out_office_id: string | null;
+  /** Metres to the nearest office, for punches outside every fence */
+  sign_in_distance_m: number | null;
+  sign_out_distance_m: number | null;
+  /** Null when geofencing was off for the session */
+  geofence_status: GeofenceStatus | null;
+  geofence_reviewed_by: string | null;
+  geofence_reviewed_at: string | null;
+  /** Approved regularization that last corrected the session */
+  regularization_id: string | null;
+  /** Break the segment ended for; null when it ended the day or is still open */
+  break_type: BreakType | null;
+  /** Client ids of punches captured offline and synced later */
+  offline_sign_in_id: string | null;
+  offline_sign_out_id: string | null;
   created_at: string;
 }
 
-export interface LeaveBalance {
+export type BreakType = 'lunch' | 'personal' | 'official';
+
+export type OfflinePunchKind = 'sign_in' | 'break' | 'sign_out';
+
+/** Waiting to sync, or refused by the server because it no longer fits the day's record */
+export type OfflinePunchStatus = 'pending' | 'conflict';
+
+/** A punch captured without a connection, kept on the device until it syncs */
+export interface OfflinePunch {
   id: string;
   user_id: string;
-  casual_leave: number;
-  sick_leave: number;
-  paid_leave: number;
+  company_id: string | null;
+  kind: OfflinePunchKind;
+  /** Set for a punch out on a break */
+  break_type: BreakType | null;
+  /** Device time the punch was made */
+  punched_at: string;
+  lat: number | null;
+  lng: number | null;
+  status: OfflinePunchStatus;
+  /** Failed sync attempts so far */
+  attempts: number;
+  /** Why the last sync failed, or why the server refused the punch */
+  error: string | null;
+  queued_at: string;
+}
+
+/** One employee's day, aggregated from its punch segments */
+export interface AttendanceDailySummary {
+  id: string;
+  company_id: string | null;
+  user_id: string;
+  work_date: string;
+  first_sign_in: string | null;
+  /** Null while a segment is still signed in */
+  last_sign_out: string | null;
+  segment_count: number;
+  is_open: boolean;
+  /** Signed-in time plus official breaks */
+  worked_minutes: number;
+  lunch_break_minutes: number;
+  personal_break_minutes: number;
+  official_break_minutes: number;
+  status: AttendanceStatus | null;
+  late_minutes: number;
+  /** Hours worked beyond the shift over the whole day, paid through payroll */
+  overtime_hours: number;
+  /** Set once the day's last segment is signed out and evaluated */
+  evaluated_at: string | null;
+  updated_at: string;
+}
+
+export type GeofenceStatus = 'matched' | 'flagged' | 'approved' | 'rejected';
+
+/** What happens to a punch made outside every office fence */
+export type GeofencePolicy = 'reject' | 'flag';
+
+export interface OfficeLocation {
+  id: string;
+  company_id: string;
+  name: string;
+  latitude: number;
+  longitude: number;
+  radius_meters: number;
+  is_active: boolean;
   created_at: string;
   updated_at: string;
 }
 
+/** One company's end-of-day attendance close for a date */
+export interface AttendanceDayClosure {
+  id: string;
+  company_id: string;
+  work_date: string;
+  absent_count: number;
+  on_leave_count: number;
+  /** Open sessions signed out at their shift's end */
+  closed_count: number;
+  closed_by: string | null;
+  closed_at: string;
+}
+
+export interface AttendanceRules {
+  /** Minutes after the shift start a sign-in still counts as on time; later is late */
+  grace_minutes: number;
+  /** A session shorter than this many hours is a half day */
+  half_day_below_hours: number;
+  /** Time beyond the shift shorter than this is not counted as overtime */
+  overtime_after_minutes: number;
+}
+
+export interface WorkSession {
+  id: string;
+  company_id: string | null;
+  name: string;
+  /** HH:MM:SS; an end at or before the start runs past midnight */
+  start_time: string;
+  end_time: string;
+  is_active: boolean | null;
+}
+
+export interface ShiftRotation {
+  id: string;
+  company_id: string;
+  name: string;
+  /** One entry per day of the cycle: a work session id, or null for a day off */
+  pattern: (string | null)[];
+  created_at: string;
+}
+
+export interface ShiftAssignment {
+  id: string;
+  company_id: string;
+  user_id: string;
+  start_date: string;
+  /** null while open-ended */
+  end_date: string | null;
+  /** Set for a fixed shift; otherwise `rotation_id` is */
+  work_session_id: string | null;
+  /** The rotation's cycle starts on `start_date` */
+  rotation_id: string | null;
+  /** Weekdays off on a fixed shift, lowercase */
+  weekly_offs: string[];
+  created_by: string | null;
+  created_at: string;
+}
+
+export type LeaveAccrualFrequency = 'monthly' | 'annual';
+export type LeaveYearEndAction = 'lapse' | 'encash';
+
+export interface LeavePolicy {
+  id: string;
+  company_id: string;
+  leave_type: LeaveTypeCode;
+  accrual_frequency: LeaveAccrualFrequency;
+  /** Days credited per month (monthly) or per leave year (annual) */
+  accrual_days: number;
+  probation_months: number;
+  /** null for no cap */
+  max_balance: number | null;
+  /** Days kept into the next leave year; null carries everything forward */
+  carry_forward_limit: number | null;
+  /** What happens to days above the carry-forward limit */
+  year_end_action: LeaveYearEndAction;
+  created_at: string;
+  updated_at: string;
+}
+
+export type LeaveLedgerEntryType = 'opening' | 'accrual' | 'consumption' | 'adjustment' | 'lapse' | 'encashment' | 'reversal';
+
+export interface LeaveLedgerEntry {
+  id: string;
+  company_id: string | null;
+  user_id: string;
+  leave_type: LeaveTypeCode;
+  entry_type: LeaveLedgerEntryType;
+  /** Signed; debits are negative */
+  days: number;
+  effective_date: string;
+  /** Accrual month (YYYY-MM) or leave year (YYYY) the entry settles */
+  period: string | null;
+  leave_request_id: string | null;
+  /** Encashment value paid through payroll */
+  amount: number | null;
+  /** Comp-off credit the entry was posted for */
+  comp_off_credit_id: string | null;
+  note: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+export interface LeaveType {
+  id: string;
+  company_id: string;
+  code: LeaveTypeCode;
+  name: string;
+  /** Unpaid leave reduces the days paid in payroll */
+  is_paid: boolean;
+  /** Whether the type has a balance, accrued by a leave policy */
+  tracks_balance: boolean;
+  requires_attachment: boolean;
+  /** null for no limit */
+  max_consecutive_days: number | null;
+  /** null allows every employee */
+  allowed_genders: Gender[] | null;
+  min_tenure_months: number;
+  is_active: boolean;
+  sort_order: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export type LeaveHalf = 'first_half' | 'second_half';
+
 export interface LeaveRequest {
   id: string;
   user_id: string;
-  leave_type: LeaveType;
+  company_id: string | null;
+  leave_type: LeaveTypeCode;
   start_date: string;
   end_date: string;
   reason: string | null;
@@ -73,11 +302,302 @@ export interface LeaveRequest {
   approved_by: string | null;
   approved_at: string | null;
   rejection_reason: string | null;
+  /** Path in the leave-attachments storage bucket */
+  attachment_path: string | null;
+  /** Set for single-day requests covering only half the day */
+  half_day: LeaveHalf | null;
+  /** Working days the request costs; set when submitted and again when approved */
+  days: number | null;
+  cancellation_reason: string | null;
+  /** Approved request this one replaces once approved itself */
+  modifies_request_id: string | null;
+  created_at: string;
+  updated_at: string;
+  profile?: Profile;
+}
+
+/** Who acts on an approval step; HR is anyone with the admin role */
+export type LeaveApproverRole = 'manager' | 'hr' | 'owner';
+
+/** `waiting` steps are later in the chain; exactly one step is `pending` while a request is open */
+export type LeaveApprovalStatus = 'waiting' | 'pending' | 'approved' | 'rejected' | 'escalated' | 'cancelled';
+
+/** Whether a step decides the request itself or a request to cancel it */
+export type LeaveApprovalKind = 'request' | 'cancellation';
+
+export interface LeaveApprovalConfig {
+  manager_approval: boolean;
+  hr_approval: boolean;
+  /** Requests longer than this many working days also need the owner; null never does */
+  owner_approval_above_days: number | null;
+  /** Hours a step may stay untouched before it escalates to the next level */
+  sla_hours: number;
+}
+
+export interface LeaveApproval {
+  id: string;
+  company_id: string;
+  leave_request_id: string;
+  step: number;
+  kind: LeaveApprovalKind;
+  approver_role: LeaveApproverRole;
+  /** Null for HR and owner steps, which any admin or owner can act on */
+  assigned_to: string | null;
+  /** Set when the step was routed to a delegate of the original approver */
+  delegated_from: string | null;
+  status: LeaveApprovalStatus;
+  due_at: string | null;
+  acted_by: string | null;
+  acted_at: string | null;
+  comment: string | null;
+  created_at: string;
+  updated_at: string;
+  leave_request?: LeaveRequest;
+}
+
+export interface LeaveDelegation {
+  id: string;
+  company_id: string;
+  delegator_id: string;
+  delegate_id: string;
+  start_date: string;
+  end_date: string;
+  note: string | null;
+  created_at: string;
+}
+
+/** Fewest members of a department that must be at work on any working day */
+export interface DepartmentStaffingRule {
+  id: string;
+  company_id: string;
+  department_id: string;
+  min_present: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export type CompOffStatus = 'pending' | 'approved' | 'rejected' | 'expired';
+
+export interface CompOffConfig {
+  /** Days after the day worked that an approved credit can still be used */
+  expiry_days: number;
+}
+
+/** A day worked on a holiday or weekly off, detected at sign-in */
+export interface CompOffCredit {
+  id: string;
+  company_id: string;
+  user_id: string;
+  attendance_session_id: string | null;
+  work_date: string;
+  /** Holiday name, or the weekday for a weekly off */
+  reason: string;
+  /** 1, or 0.5 for a session under four hours */
+  days: number;
+  status: CompOffStatus;
+  /** Set when approved */
+  expires_on: string | null;
+  approved_by: string | null;
+  approved_at: string | null;
+  rejection_reason: string | null;
+  created_at: string;
+  updated_at: string;
+  profile?: Profile;
+}
+
+export type RegularizationKind = 'missed_punch' | 'wrong_time' | 'on_duty';
+export type RegularizationStatus = 'pending' | 'approved' | 'rejected' | 'cancelled';
+
+/** An employee's request to correct a day's punches, decided by their manager */
+export interface AttendanceRegularization {
+  id: string;
+  company_id: string;
+  user_id: string;
+  /** Session being corrected; null when there was no punch that day */
+  attendance_session_id: string | null;
+  work_date: string;
+  kind: RegularizationKind;
+  requested_sign_in: string;
+  requested_sign_out: string;
+  reason: string;
+  status: RegularizationStatus;
+  /** The punch before the correction, kept once approved */
+  original_sign_in: string | null;
+  original_sign_out: string | null;
+  original_status: AttendanceStatus | null;
+  approved_by: string | null;
+  approved_at: string | null;
+  rejection_reason: string | null;
+  created_at: string;
+  updated_at: string;
+  profile?: Profile;
+}
+
+export interface Project {
+  id: string;
+  company_id: string;
+  name: string;
+  code: string | null;
+  client_name: string | null;
+  /** Internal projects are never billable, whatever their tasks say */
+  is_billable: boolean;
+  is_active: boolean;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+  tasks?: ProjectTask[];
+}
+
+export interface ProjectTask {
+  id: string;
+  project_id: string;
+  company_id: string;
+  name: string;
+  is_billable: boolean;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export type TimesheetStatus = 'draft' | 'submitted' | 'approved' | 'rejected';
+
+/** An employee's week of logged hours, starting on Monday, approved by their manager */
+export interface Timesheet {
+  id: string;
+  company_id: string;
+  user_id: string;
+  week_start: string;
+  status: TimesheetStatus;
+  submitted_at: string | null;
+  approved_by: string | null;
+  approved_at: string | null;
+  rejection_reason: string | null;
   created_at: string;
   updated_at: string;
+  entries?: TimesheetEntry[];
   profile?: Profile;
 }
 
+/** Time logged against a project on a day; a day's entries stay within its attended hours */
+export interface TimesheetEntry {
+  id: string;
+  timesheet_id: string;
+  company_id: string;
+  user_id: string;
+  project_id: string;
+  task_id: string | null;
+  work_date: string;
+  minutes: number;
+  /** The project's and task's billability when the entry was saved */
+  is_billable: boolean;
+  notes: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type OnboardingOwnerType = 'hr' | 'it' | 'manager' | 'new_hire';
+export type OnboardingDocumentType = 'id_proof' | 'bank_proof' | 'signed_policy' | 'other';
+export type OnboardingDocumentStatus = 'submitted' | 'verified' | 'rejected';
+
+/** A checklist new hires start with; null department or role matches everyone */
+export interface OnboardingTemplate {
+  id: string;
+  company_id: string;
+  name: string;
+  department_id: string | null;
+  role: AppRole | null;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+  tasks?: OnboardingTemplateTask[];
+}
+
+export interface OnboardingTemplateTask {
+  id: string;
+  template_id: string;
+  company_id: string;
+  title: string;
+  description: string | null;
+  owner_type: OnboardingOwnerType;
+  /** For HR and IT tasks, the person doing them; null for every admin */
+  assignee_id: string | null;
+  /** Days after the date of joining, negative for before it */
+  due_offset_days: number;
+  /** New-hire tasks completed by uploading this document */
+  document_type: OnboardingDocumentType | null;
+  sort_order: number;
+  created_at: string;
+}
+
+export interface EmployeeOnboarding {
+  id: string;
+  company_id: string;
+  user_id: string;
+  template_id: string | null;
+  status: 'in_progress' | 'completed';
+  started_by: string | null;
+  completed_at: string | null;
+  created_at: string;
+  updated_at: string;
+  tasks?: OnboardingTask[];
+  documents?: OnboardingDocument[];
+}
+
+/** A template task copied into a new hire's checklist, due relative to their date of joining */
+export interface OnboardingTask {
+  id: string;
+  onboarding_id: string;
+  company_id: string;
+  user_id: string;
+  title: string;
+  description: string | null;
+  owner_type: OnboardingOwnerType;
+  assignee_id: string | null;
+  due_offset_days: number;
+  due_date: string;
+  document_type: OnboardingDocumentType | null;
+  status: 'pending' | 'done';
+  completed_by: string | null;
+  completed_at: string | null;
+  overdue_notified_at: string | null;
+  sort_order: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface OnboardingDocument {
+  id: string;
+  company_id: string;
+  user_id: string;
+  task_id: string | null;
+  document_type: OnboardingDocumentType;
+  file_path: string;
+  file_name: string;
+  status: OnboardingDocumentStatus;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  review_note: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface Notification {
+  id: string;
+  company_id: string | null;
+  user_id: string;
+  title: string;
+  body: string | null;
+  /** App path the notification opens */
+  link: string | null;
+  read_at: string | null;
+  created_at: string;
+}
+
+/** A colleague's booked leave as the team calendar sees it: dates and status only */
+export type TeamLeave = Pick<LeaveRequest, 'user_id' | 'leave_type' | 'start_date' | 'end_date' | 'half_day' | 'status'> & {
+  leave_request_id: string;
+};
+
 export interface Payroll {
   id: string;
   user_id: string;
@@ -88,10 +608,200 @@ export interface Payroll {
   paid_leave_days: number;
   unpaid_leave_days: number;
   base_salary: number;
+  gross_salary: number;
+  /** PF and ESIC wage bases the contributions were computed on */
+  pf_wages: number;
+  esic_wages: number;
+  pf_amount: number;
+  esic_amount: number;
+  /** Employer PF in total; `eps_amount` of it goes to the pension scheme */
+  epf_amount: number;
+  eps_amount: number;
+  employer_esic_amount: number;
+  tds_amount: number;
+  total_additions: number;
+  total_deductions: number;
   deductions: number;
   net_salary: number;
+  company_id: string | null;
+  run_id: string | null;
   status: 'draft' | 'processed' | 'paid';
   processed_at: string | null;
   created_at: string;
   updated_at: string;
 }
+
+export type PayrollRunStatus = 'draft' | 'under_review' | 'approved' | 'locked' | 'paid';
+export type PayrollRunType = 'regular' | 'off_cycle' | 'reversal';
+
+export interface PayrollRun {
+  id: string;
+  company_id: string;
+  month: number;
+  year: number;
+  run_type: PayrollRunType;
+  status: PayrollRunStatus;
+  /** For reversal runs, the run whose rows are being reversed */
+  reverses_run_id: string | null;
+  status_note: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PayrollRunTransition {
+  id: string;
+  run_id: string;
+  from_status: PayrollRunStatus | null;
+  to_status: PayrollRunStatus;
+  performed_by: string | null;
+  note: string | null;
+  created_at: string;
+}
+
+export type PayrollAdjustmentType = 'addition' | 'deduction';
+
+export interface PayrollAdjustment {
+  id?: string;
+  name: string;
+  amount: number;
+  type: PayrollAdjustmentType;
+}
+
+export interface PayrollConfig {
+  pf_enabled: boolean;
+  pf_percentage: number;
+  esic_enabled: boolean;
+  esic_percentage: number;
+  epf_enabled: boolean;
+  epf_percentage: number;
+  /** Share of the employer PF diverted to EPS, on wages up to `pf_wage_ceiling` */
+  eps_percentage: number;
+  pf_wage_ceiling: number;
+  esic_employer_percentage: number;
+  /** ESIC covers employees whose ESIC wages do not exceed this; 0 covers everyone */
+  esic_wage_ceiling: number;
+  pt_enabled: boolean;
+  pt_amount: number;
+  overtime_enabled: boolean;
+  /** Overtime is paid at this multiple of the hourly rate */
+  overtime_rate: number;
+}
+
+export interface Holiday {
+  id: string;
+  company_id: string | null;
+  name: string;
+  date: string;
+  type: string;
+  created_at: string;
+}
+
+export type SalaryComponentCalculation = 'percentage' | 'fixed' | 'balance';
+
+export interface SalaryComponent {
+  id: string;
+  structure_id: string;
+  name: string;
+  code: string;
+  /** percentage: `value`% of monthly CTC; fixed: `value` per month; balance: whatever CTC remains */
+  calculation_type: SalaryComponentCalculation;
+  value: number;
+  is_pf_wage: boolean;
+  is_esic_wage: boolean;
+  sort_order: number;
+  created_at: string;
+}
+
+export interface SalaryStructure {
+  id: string;
+  company_id: string | null;
+  name: string;
+  description: string | null;
+  department_id: string | null;
+  created_at: string;
+  updated_at: string;
+  components?: SalaryComponent[];
+}
+
+export interface CompanySettings {
+  /** IANA timezone attendance days are counted in */
+  timezone: string;
+  currency: string;
+  /** MM-DD; the payroll month containing this date starts the financial year */
+  financial_year_start: string;
+  working_days: string[];
+  office_hours_start: string;
+  office_hours_end: string;
+  geofencing_enabled: boolean;
+  /** Radius in metres new office locations start with */
+  geofence_radius: number;
+  geofence_policy: GeofencePolicy;
+  email_notifications: boolean;
+  sms_notifications: boolean;
+  /** Company account salaries are debited from in bank payout files */
+  payout_debit_account: string;
+  payout_format: BankPayoutFormat;
+}
+
+export type BankPayoutFormat =
+  | 'hdfc_csv'
+  | 'hdfc_fixed'
+  | 'icici_csv'
+  | 'icici_fixed'
+  | 'sbi_csv'
+  | 'sbi_fixed'
+  | 'neft_csv';
+
+export type TaxRegime = 'old' | 'new';
+
+export interface TaxSlab {
+  from: number;
+  /** null for the top slab */
+  to: number | null;
+  rate: number;
+}
+
+export interface TaxSlabConfig {
+  id: string;
+  company_id: string | null;
+  financial_year: string;
+  regime: TaxRegime;
+  version: number;
+  slabs: TaxSlab[];
+  standard_deduction: number;
+  /** Section 87A: taxable income up to this limit gets up to `rebate_amount` off */
+  rebate_limit: number;
+  rebate_amount: number;
+  cess_percentage: number;
+  created_at: string;
+}
+
+export interface TaxDeclaration {
+  id: string;
+  company_id: string | null;
+  user_id: string;
+  financial_year: string;
+  regime: TaxRegime;
+  section_80c: number;
+  section_80d: number;
+  /** Annual rent paid, used for the HRA exemption */
+  hra_rent_paid: number;
+  metro_city: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ProfessionalTaxSlab {
+  id: string;
+  company_id: string | null;
+  /** State code, e.g. MH */
+  state: string;
+  /** Monthly gross range, both ends inclusive; null max for the top slab */
+  min_salary: number;
+  max_salary: number | null;
+  amount: number;
+  /** Amount charged in February instead of `amount`, where the state requires it */
+  february_amount: number | null;
+  created_at: string;
+}
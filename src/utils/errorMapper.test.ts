@@ -0,0 +1,36 @@
+import { describe, expect, it, vi } from 'vitest';
+import { mapDatabaseError } from './errorMapper';
+import { DomainError } from '@/lib/domainError';
+
+describe('mapDatabaseError', () => {
+  it('shows a domain error as it is', () => {
+    expect(mapDatabaseError(new DomainError('Timesheet: log some hours before submitting the week')))
+      .toBe('Timesheet: log some hours before submitting the week');
+  });
+
+  it('finds a domain error behind a wrapper', () => {
+    const wrapped = Object.assign(new Error('Submit timesheet failed after 3 retries'), {
+      cause: new DomainError('Timesheet: only an open week can be submitted'),
+    });
+
+    expect(mapDatabaseError(wrapped)).toBe('Timesheet: only an open week can be submitted');
+  });
+
+  it('shows exceptions raised by the database as they are', () => {
+    const error = { code: 'P0001', message: 'Payroll run is approved; corrections need a reversal or off-cycle run' };
+
+    expect(mapDatabaseError(error)).toBe('Payroll run is approved; corrections need a reversal or off-cycle run');
+  });
+
+  it('does not pass through other errors that mention a feature', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(mapDatabaseError(new Error('payroll run row 42: connection reset')))
+      .toBe('An error occurred. Please try again or contact support.');
+  });
+
+  it('still maps permission errors', () => {
+    expect(mapDatabaseError({ code: '42501', message: 'permission denied for table payroll' }))
+      .toBe('You do not have permission to perform this action.');
+  });
+});
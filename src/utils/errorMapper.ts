@@ -1,8 +1,14 @@
+import { findDomainError } from '@/lib/domainError';
+
 /**
  * Maps database and API errors to user-friendly messages.
  * This prevents exposing sensitive implementation details to end users.
  */
 export function mapDatabaseError(error: unknown): string {
+  // Business rules, checked in the app or by the database, carry their own actionable message
+  const domainError = findDomainError(error);
+  if (domainError) return domainError.message;
+
   const errorObj = error as { message?: string; code?: string };
   const message = errorObj?.message?.toLowerCase() || '';
   const code = errorObj?.code?.toLowerCase() || '';
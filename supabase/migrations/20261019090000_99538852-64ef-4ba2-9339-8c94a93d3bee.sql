@@ -0,0 +1,13 @@
+-- Tag rule-generated payroll adjustments (e.g. professional tax) with the engine line code.
+-- Manual additions/deductions entered by admins keep a NULL code.
+ALTER TABLE public.payroll_adjustments
+ADD COLUMN IF NOT EXISTS code text;
+
+CREATE INDEX IF NOT EXISTS idx_payroll_adjustments_payroll_id ON public.payroll_adjustments(payroll_id);
+
+-- Professional tax used to be saved as a plain adjustment; tag existing rows so they are not re-read as manual entries
+UPDATE public.payroll_adjustments
+SET code = 'pt'
+WHERE code IS NULL
+  AND adjustment_type = 'deduction'
+  AND name = 'Professional Tax';
@@ -0,0 +1,66 @@
+-- Salary structures: named earning components (Basic, HRA, allowances) split out of monthly CTC
+CREATE TABLE public.salary_structures (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  company_id uuid REFERENCES public.companies(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  description text,
+  department_id uuid REFERENCES public.departments(id) ON DELETE SET NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+-- A department can have at most one default structure
+CREATE UNIQUE INDEX IF NOT EXISTS idx_salary_structures_department
+  ON public.salary_structures(department_id)
+  WHERE department_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_salary_structures_company_id ON public.salary_structures(company_id);
+
+CREATE TABLE public.salary_components (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  company_id uuid REFERENCES public.companies(id) ON DELETE CASCADE,
+  structure_id uuid NOT NULL REFERENCES public.salary_structures(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  code text NOT NULL,
+  calculation_type text NOT NULL DEFAULT 'percentage' CHECK (calculation_type IN ('percentage', 'fixed', 'balance')),
+  value numeric NOT NULL DEFAULT 0,
+  is_pf_wage boolean NOT NULL DEFAULT false,
+  is_esic_wage boolean NOT NULL DEFAULT true,
+  sort_order integer NOT NULL DEFAULT 0,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE (structure_id, code)
+);
+
+CREATE INDEX IF NOT EXISTS idx_salary_components_structure_id ON public.salary_components(structure_id);
+
+-- Per-employee assignment; NULL falls back to the department structure
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS salary_structure_id uuid REFERENCES public.salary_structures(id) ON DELETE SET NULL;
+
+-- RLS
+ALTER TABLE public.salary_structures ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view salary structures in their company"
+ON public.salary_structures FOR SELECT
+USING (belongs_to_company(auth.uid(), company_id));
+
+CREATE POLICY "Company admins can manage salary structures"
+ON public.salary_structures FOR ALL
+USING (belongs_to_company(auth.uid(), company_id) AND (has_role(auth.uid(), 'admin') OR has_role(auth.uid(), 'owner')))
+WITH CHECK (belongs_to_company(auth.uid(), company_id) AND (has_role(auth.uid(), 'admin') OR has_role(auth.uid(), 'owner')));
+
+ALTER TABLE public.salary_components ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view salary components in their company"
+ON public.salary_components FOR SELECT
+USING (belongs_to_company(auth.uid(), company_id));
+
+CREATE POLICY "Company admins can manage salary components"
+ON public.salary_components FOR ALL
+USING (belongs_to_company(auth.uid(), company_id) AND (has_role(auth.uid(), 'admin') OR has_role(auth.uid(), 'owner')))
+WITH CHECK (belongs_to_company(auth.uid(), company_id) AND (has_role(auth.uid(), 'admin') OR has_role(auth.uid(), 'owner')));
+
+CREATE TRIGGER update_salary_structures_updated_at
+  BEFORE UPDATE ON public.salary_structures
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
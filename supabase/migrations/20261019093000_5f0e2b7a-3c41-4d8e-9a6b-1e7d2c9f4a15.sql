@@ -0,0 +1,89 @@
+-- Income tax (TDS) withheld each month gets its own payroll column
+ALTER TABLE public.payroll
+ADD COLUMN IF NOT EXISTS tds_amount numeric DEFAULT 0;
+
+-- Settings are stored per company; the original global key constraint prevented
+-- a second company from saving the same setting
+ALTER TABLE public.company_settings DROP CONSTRAINT IF EXISTS company_settings_setting_key_key;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_company_settings_company_key
+  ON public.company_settings(company_id, setting_key);
+
+-- Tax slab tables per financial year and regime. Rows with a NULL company_id are
+-- the statutory defaults; a company can publish its own version to override them.
+CREATE TABLE public.tax_slab_configs (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  company_id uuid REFERENCES public.companies(id) ON DELETE CASCADE,
+  financial_year text NOT NULL,
+  regime text NOT NULL CHECK (regime IN ('old', 'new')),
+  version integer NOT NULL DEFAULT 1,
+  slabs jsonb NOT NULL,
+  standard_deduction numeric NOT NULL DEFAULT 0,
+  rebate_limit numeric NOT NULL DEFAULT 0,
+  rebate_amount numeric NOT NULL DEFAULT 0,
+  cess_percentage numeric NOT NULL DEFAULT 4,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tax_slab_configs_version
+  ON public.tax_slab_configs(COALESCE(company_id, '00000000-0000-0000-0000-000000000000'::uuid), financial_year, regime, version);
+
+INSERT INTO public.tax_slab_configs (company_id, financial_year, regime, version, slabs, standard_deduction, rebate_limit, rebate_amount, cess_percentage)
+VALUES
+  (NULL, '2025-26', 'new', 1,
+   '[{"from":0,"to":400000,"rate":0},{"from":400000,"to":800000,"rate":5},{"from":800000,"to":1200000,"rate":10},{"from":1200000,"to":1600000,"rate":15},{"from":1600000,"to":2000000,"rate":20},{"from":2000000,"to":2400000,"rate":25},{"from":2400000,"to":null,"rate":30}]',
+   75000, 1200000, 60000, 4),
+  (NULL, '2025-26', 'old', 1,
+   '[{"from":0,"to":250000,"rate":0},{"from":250000,"to":500000,"rate":5},{"from":500000,"to":1000000,"rate":20},{"from":1000000,"to":null,"rate":30}]',
+   50000, 500000, 12500, 4),
+  (NULL, '2026-27', 'new', 1,
+   '[{"from":0,"to":400000,"rate":0},{"from":400000,"to":800000,"rate":5},{"from":800000,"to":1200000,"rate":10},{"from":1200000,"to":1600000,"rate":15},{"from":1600000,"to":2000000,"rate":20},{"from":2000000,"to":2400000,"rate":25},{"from":2400000,"to":null,"rate":30}]',
+   75000, 1200000, 60000, 4),
+  (NULL, '2026-27', 'old', 1,
+   '[{"from":0,"to":250000,"rate":0},{"from":250000,"to":500000,"rate":5},{"from":500000,"to":1000000,"rate":20},{"from":1000000,"to":null,"rate":30}]',
+   50000, 500000, 12500, 4);
+
+-- Employee investment declarations, one per financial year
+CREATE TABLE public.tax_declarations (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  company_id uuid REFERENCES public.companies(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  financial_year text NOT NULL,
+  regime text NOT NULL DEFAULT 'new' CHECK (regime IN ('old', 'new')),
+  section_80c numeric NOT NULL DEFAULT 0,
+  section_80d numeric NOT NULL DEFAULT 0,
+  hra_rent_paid numeric NOT NULL DEFAULT 0,
+  metro_city boolean NOT NULL DEFAULT false,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE (user_id, financial_year)
+);
+
+CREATE INDEX IF NOT EXISTS idx_tax_declarations_company_id ON public.tax_declarations(company_id);
+
+-- RLS
+ALTER TABLE public.tax_slab_configs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view default and company tax slabs"
+ON public.tax_slab_configs FOR SELECT
+USING (company_id IS NULL OR belongs_to_company(auth.uid(), company_id));
+
+CREATE POLICY "Company admins can manage tax slabs"
+ON public.tax_slab_configs FOR ALL
+USING (belongs_to_company(auth.uid(), company_id) AND (has_role(auth.uid(), 'admin') OR has_role(auth.uid(), 'owner')))
+WITH CHECK (belongs_to_company(auth.uid(), company_id) AND (has_role(auth.uid(), 'admin') OR has_role(auth.uid(), 'owner')));
+
+ALTER TABLE public.tax_declarations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own tax declarations"
+ON public.tax_declarations FOR ALL
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id AND belongs_to_company(auth.uid(), company_id));
+
+CREATE POLICY "Company admins can view tax declarations"
+ON public.tax_declarations FOR SELECT
+USING (belongs_to_company(auth.uid(), company_id) AND (has_role(auth.uid(), 'admin') OR has_role(auth.uid(), 'owner')));
+
+CREATE TRIGGER update_tax_declarations_updated_at
+  BEFORE UPDATE ON public.tax_declarations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
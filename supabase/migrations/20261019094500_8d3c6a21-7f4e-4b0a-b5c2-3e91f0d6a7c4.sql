@@ -0,0 +1,56 @@
+-- Professional tax slabs by state and monthly gross salary. Rows with a NULL
+-- company_id are the statutory defaults; company rows for a state replace them.
+CREATE TABLE public.pt_slabs (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  company_id uuid REFERENCES public.companies(id) ON DELETE CASCADE,
+  state text NOT NULL,
+  min_salary numeric NOT NULL DEFAULT 0,
+  max_salary numeric,
+  amount numeric NOT NULL DEFAULT 0,
+  -- Some states collect a higher amount in February to reach the annual total
+  february_amount numeric,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_pt_slabs_company_state ON public.pt_slabs(company_id, state);
+
+INSERT INTO public.pt_slabs (company_id, state, min_salary, max_salary, amount, february_amount)
+VALUES
+  (NULL, 'MH', 0, 7500, 0, NULL),
+  (NULL, 'MH', 7501, 10000, 175, NULL),
+  (NULL, 'MH', 10001, NULL, 200, 300),
+  (NULL, 'KA', 0, 24999, 0, NULL),
+  (NULL, 'KA', 25000, NULL, 200, NULL),
+  (NULL, 'WB', 0, 10000, 0, NULL),
+  (NULL, 'WB', 10001, 15000, 110, NULL),
+  (NULL, 'WB', 15001, 25000, 130, NULL),
+  (NULL, 'WB', 25001, 40000, 150, NULL),
+  (NULL, 'WB', 40001, NULL, 200, NULL),
+  (NULL, 'GJ', 0, 11999, 0, NULL),
+  (NULL, 'GJ', 12000, NULL, 200, NULL),
+  (NULL, 'AP', 0, 15000, 0, NULL),
+  (NULL, 'AP', 15001, 20000, 150, NULL),
+  (NULL, 'AP', 20001, NULL, 200, NULL),
+  (NULL, 'TS', 0, 15000, 0, NULL),
+  (NULL, 'TS', 15001, 20000, 150, NULL),
+  (NULL, 'TS', 20001, NULL, 200, NULL),
+  (NULL, 'AS', 0, 10000, 0, NULL),
+  (NULL, 'AS', 10001, 14999, 150, NULL),
+  (NULL, 'AS', 15000, 24999, 180, NULL),
+  (NULL, 'AS', 25000, NULL, 208, NULL);
+
+-- State the employee works in, used to pick PT slabs
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS work_state text;
+
+-- RLS
+ALTER TABLE public.pt_slabs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view default and company PT slabs"
+ON public.pt_slabs FOR SELECT
+USING (company_id IS NULL OR belongs_to_company(auth.uid(), company_id));
+
+CREATE POLICY "Company admins can manage PT slabs"
+ON public.pt_slabs FOR ALL
+USING (belongs_to_company(auth.uid(), company_id) AND (has_role(auth.uid(), 'admin') OR has_role(auth.uid(), 'owner')))
+WITH CHECK (belongs_to_company(auth.uid(), company_id) AND (has_role(auth.uid(), 'admin') OR has_role(auth.uid(), 'owner')));
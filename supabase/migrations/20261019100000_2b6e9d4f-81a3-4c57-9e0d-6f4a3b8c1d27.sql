@@ -0,0 +1,233 @@
+-- Payroll runs: one lifecycle per company/month (plus off-cycle and reversal runs)
+-- draft -> under_review -> approved -> locked -> paid
+CREATE TABLE public.payroll_runs (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  company_id uuid NOT NULL REFERENCES public.companies(id) ON DELETE CASCADE,
+  month integer NOT NULL CHECK (month BETWEEN 1 AND 12),
+  year integer NOT NULL,
+  run_type text NOT NULL DEFAULT 'regular' CHECK (run_type IN ('regular', 'off_cycle', 'reversal')),
+  status text NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'under_review', 'approved', 'locked', 'paid')),
+  reverses_run_id uuid REFERENCES public.payroll_runs(id) ON DELETE RESTRICT,
+  -- Comment for the latest status change; copied into the transition log
+  status_note text,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+-- Exactly one regular run per company and month
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payroll_runs_regular
+  ON public.payroll_runs(company_id, month, year)
+  WHERE run_type = 'regular';
+
+CREATE INDEX IF NOT EXISTS idx_payroll_runs_company_period ON public.payroll_runs(company_id, year, month);
+
+CREATE TABLE public.payroll_run_transitions (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  run_id uuid NOT NULL REFERENCES public.payroll_runs(id) ON DELETE CASCADE,
+  company_id uuid REFERENCES public.companies(id) ON DELETE CASCADE,
+  from_status text,
+  to_status text NOT NULL,
+  performed_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  note text,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_payroll_run_transitions_run_id ON public.payroll_run_transitions(run_id);
+
+-- Attach existing payroll rows to a regular run per company/month
+ALTER TABLE public.payroll
+ADD COLUMN IF NOT EXISTS run_id uuid REFERENCES public.payroll_runs(id) ON DELETE CASCADE;
+
+INSERT INTO public.payroll_runs (company_id, month, year, status)
+SELECT company_id, month, year,
+  CASE WHEN bool_and(status = 'paid') THEN 'paid' ELSE 'draft' END
+FROM public.payroll
+WHERE company_id IS NOT NULL
+GROUP BY company_id, month, year;
+
+UPDATE public.payroll p
+SET run_id = r.id
+FROM public.payroll_runs r
+WHERE r.company_id = p.company_id
+  AND r.month = p.month
+  AND r.year = p.year
+  AND r.run_type = 'regular';
+
+-- An employee can now appear in several runs for the same month
+ALTER TABLE public.payroll DROP CONSTRAINT IF EXISTS payroll_user_id_month_year_key;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payroll_run_user ON public.payroll(run_id, user_id);
+
+-- Only allow the documented transitions
+CREATE OR REPLACE FUNCTION public.validate_payroll_run_transition()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status <> 'draft' THEN
+      RAISE EXCEPTION 'Payroll runs must start as draft';
+    END IF;
+    NEW.created_by := COALESCE(NEW.created_by, auth.uid());
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status AND NOT (
+    (OLD.status = 'draft' AND NEW.status = 'under_review') OR
+    (OLD.status = 'under_review' AND NEW.status IN ('draft', 'approved')) OR
+    (OLD.status = 'approved' AND NEW.status = 'locked') OR
+    (OLD.status = 'locked' AND NEW.status = 'paid')
+  ) THEN
+    RAISE EXCEPTION 'Invalid payroll run transition from % to %', OLD.status, NEW.status;
+  END IF;
+
+  IF (NEW.company_id, NEW.month, NEW.year, NEW.run_type, NEW.reverses_run_id)
+     IS DISTINCT FROM (OLD.company_id, OLD.month, OLD.year, OLD.run_type, OLD.reverses_run_id) THEN
+    RAISE EXCEPTION 'Payroll run period and type cannot be changed';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_payroll_run_transition
+  BEFORE INSERT OR UPDATE ON public.payroll_runs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_payroll_run_transition();
+
+-- Record who moved the run and when; SECURITY DEFINER so the log cannot be skipped
+CREATE OR REPLACE FUNCTION public.log_payroll_run_transition()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO public.payroll_run_transitions (run_id, company_id, from_status, to_status, performed_by, note)
+    VALUES (
+      NEW.id,
+      NEW.company_id,
+      CASE WHEN TG_OP = 'INSERT' THEN NULL ELSE OLD.status END,
+      NEW.status,
+      auth.uid(),
+      NEW.status_note
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER log_payroll_run_transition
+  AFTER INSERT OR UPDATE ON public.payroll_runs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_payroll_run_transition();
+
+CREATE OR REPLACE FUNCTION public.prevent_payroll_run_delete()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.status <> 'draft' THEN
+    RAISE EXCEPTION 'Only draft payroll runs can be deleted';
+  END IF;
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER prevent_payroll_run_delete
+  BEFORE DELETE ON public.payroll_runs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_payroll_run_delete();
+
+-- Payroll rows and their adjustments are frozen once the run is approved.
+-- The one allowed change is flagging rows paid together with their run.
+CREATE OR REPLACE FUNCTION public.is_payroll_run_frozen(_run_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.payroll_runs
+    WHERE id = _run_id AND status IN ('approved', 'locked', 'paid')
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION public.enforce_payroll_row_editable()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE'
+     AND NEW.run_id IS NOT DISTINCT FROM OLD.run_id
+     AND (to_jsonb(NEW) - 'status' - 'updated_at') = (to_jsonb(OLD) - 'status' - 'updated_at') THEN
+    RETURN NEW;
+  END IF;
+
+  IF (TG_OP <> 'INSERT' AND is_payroll_run_frozen(OLD.run_id))
+     OR (TG_OP <> 'DELETE' AND is_payroll_run_frozen(NEW.run_id)) THEN
+    RAISE EXCEPTION 'Payroll run is approved; corrections need a reversal or off-cycle run';
+  END IF;
+
+  RETURN CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+END;
+$$;
+
+CREATE TRIGGER enforce_payroll_row_editable
+  BEFORE INSERT OR UPDATE OR DELETE ON public.payroll
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_payroll_row_editable();
+
+CREATE OR REPLACE FUNCTION public.enforce_payroll_adjustment_editable()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _payroll_id uuid;
+BEGIN
+  _payroll_id := CASE WHEN TG_OP = 'DELETE' THEN OLD.payroll_id ELSE NEW.payroll_id END;
+  IF EXISTS (
+    SELECT 1 FROM public.payroll
+    WHERE id = _payroll_id AND is_payroll_run_frozen(run_id)
+  ) THEN
+    RAISE EXCEPTION 'Payroll run is approved; corrections need a reversal or off-cycle run';
+  END IF;
+
+  RETURN CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+END;
+$$;
+
+CREATE TRIGGER enforce_payroll_adjustment_editable
+  BEFORE INSERT OR UPDATE OR DELETE ON public.payroll_adjustments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_payroll_adjustment_editable();
+
+CREATE TRIGGER update_payroll_runs_updated_at
+  BEFORE UPDATE ON public.payroll_runs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- RLS: employees need to see run status to know which payslips are final
+ALTER TABLE public.payroll_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view payroll runs in their company"
+ON public.payroll_runs FOR SELECT
+USING (belongs_to_company(auth.uid(), company_id));
+
+CREATE POLICY "Company admins can manage payroll runs"
+ON public.payroll_runs FOR ALL
+USING (belongs_to_company(auth.uid(), company_id) AND (has_role(auth.uid(), 'admin') OR has_role(auth.uid(), 'owner')))
+WITH CHECK (belongs_to_company(auth.uid(), company_id) AND (has_role(auth.uid(), 'admin') OR has_role(auth.uid(), 'owner')));
+
+ALTER TABLE public.payroll_run_transitions ENABLE ROW LEVEL SECURITY;
+
+-- Written only by the trigger; admins can read the history
+CREATE POLICY "Company admins can view payroll run transitions"
+ON public.payroll_run_transitions FOR SELECT
+USING (belongs_to_company(auth.uid(), company_id) AND (has_role(auth.uid(), 'admin') OR has_role(auth.uid(), 'owner')));
@@ -0,0 +1,15 @@
+-- Statutory identifiers for PF and ESIC returns
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS uan text,
+ADD COLUMN IF NOT EXISTS esic_ip_number text;
+
+ALTER TABLE public.profiles
+ADD CONSTRAINT profiles_uan_format CHECK (uan IS NULL OR uan ~ '^[0-9]{12}$'),
+ADD CONSTRAINT profiles_esic_ip_number_format CHECK (esic_ip_number IS NULL OR esic_ip_number ~ '^[0-9]{10}$');
+
+-- Wage bases and employer shares reported in the ECR and ESIC returns
+ALTER TABLE public.payroll
+ADD COLUMN IF NOT EXISTS pf_wages numeric NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS esic_wages numeric NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS eps_amount numeric NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS employer_esic_amount numeric NOT NULL DEFAULT 0;
@@ -0,0 +1,111 @@
+-- Company leave policies: how each leave type accrues, is capped and is settled at year end
+CREATE TABLE public.leave_policies (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  company_id uuid NOT NULL REFERENCES public.companies(id) ON DELETE CASCADE,
+  leave_type leave_type NOT NULL CHECK (leave_type <> 'unpaid'),
+  accrual_frequency text NOT NULL DEFAULT 'monthly' CHECK (accrual_frequency IN ('monthly', 'annual')),
+  -- Days credited per month (monthly) or per leave year (annual)
+  accrual_days numeric NOT NULL DEFAULT 1 CHECK (accrual_days >= 0),
+  probation_months integer NOT NULL DEFAULT 0 CHECK (probation_months >= 0),
+  -- NULL means no cap
+  max_balance numeric CHECK (max_balance IS NULL OR max_balance >= 0),
+  -- Days kept into the next leave year; NULL carries everything forward
+  carry_forward_limit numeric CHECK (carry_forward_limit IS NULL OR carry_forward_limit >= 0),
+  year_end_action text NOT NULL DEFAULT 'lapse' CHECK (year_end_action IN ('lapse', 'encash')),
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE (company_id, leave_type)
+);
+
+-- Every change to a leave balance. Balances are the sum of `days`; rows are never edited.
+CREATE TABLE public.leave_ledger (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  company_id uuid REFERENCES public.companies(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  leave_type leave_type NOT NULL,
+  entry_type text NOT NULL CHECK (entry_type IN ('opening', 'accrual', 'consumption', 'adjustment', 'lapse', 'encashment')),
+  -- Signed: credits are positive, consumption, lapse and encashment negative
+  days numeric NOT NULL,
+  effective_date date NOT NULL DEFAULT CURRENT_DATE,
+  -- Accrual month (YYYY-MM) or leave year (YYYY) the entry settles, so jobs can be re-run safely
+  period text,
+  leave_request_id uuid REFERENCES public.leave_requests(id) ON DELETE SET NULL,
+  -- Encashment value paid through payroll in the month of `effective_date`
+  amount numeric,
+  note text,
+  created_by uuid REFERENCES auth.users(id),
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_leave_ledger_user ON public.leave_ledger(user_id, leave_type);
+CREATE INDEX IF NOT EXISTS idx_leave_ledger_company_date ON public.leave_ledger(company_id, effective_date);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_leave_ledger_period
+  ON public.leave_ledger(user_id, leave_type, entry_type, period)
+  WHERE period IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_leave_ledger_consumption
+  ON public.leave_ledger(leave_request_id)
+  WHERE entry_type = 'consumption';
+
+-- Carry the current balances over as opening entries
+INSERT INTO public.leave_ledger (company_id, user_id, leave_type, entry_type, days, note)
+SELECT COALESCE(lb.company_id, public.get_user_company_id(lb.user_id)), lb.user_id, t.leave_type, 'opening', t.days, 'Balance carried over from leave_balances'
+FROM public.leave_balances lb
+CROSS JOIN LATERAL (
+  VALUES
+    ('casual'::leave_type, COALESCE(lb.casual_leave, 0)),
+    ('sick'::leave_type, COALESCE(lb.sick_leave, 0)),
+    ('paid'::leave_type, COALESCE(lb.paid_leave, 0))
+) AS t(leave_type, days)
+WHERE t.days <> 0;
+
+-- Existing companies keep the previous 12 days a year per type, now earned a day a month
+INSERT INTO public.leave_policies (company_id, leave_type, accrual_frequency, accrual_days)
+SELECT c.id, t.leave_type, 'monthly', 1
+FROM public.companies c
+CROSS JOIN (VALUES ('casual'::leave_type), ('sick'::leave_type), ('paid'::leave_type)) AS t(leave_type)
+ON CONFLICT (company_id, leave_type) DO NOTHING;
+
+DROP TABLE public.leave_balances;
+
+-- RLS
+ALTER TABLE public.leave_policies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view leave policies in their company"
+ON public.leave_policies FOR SELECT
+USING (belongs_to_company(auth.uid(), company_id));
+
+CREATE POLICY "Company admins can manage leave policies"
+ON public.leave_policies FOR ALL
+USING (belongs_to_company(auth.uid(), company_id) AND (has_role(auth.uid(), 'admin') OR has_role(auth.uid(), 'owner')))
+WITH CHECK (belongs_to_company(auth.uid(), company_id) AND (has_role(auth.uid(), 'admin') OR has_role(auth.uid(), 'owner')));
+
+ALTER TABLE public.leave_ledger ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view leave ledger entries in their company"
+ON public.leave_ledger FOR SELECT
+USING (
+  belongs_to_company(auth.uid(), company_id)
+  AND (
+    user_id = auth.uid()
+    OR has_role(auth.uid(), 'owner')
+    OR has_role(auth.uid(), 'admin')
+    OR manages_user(auth.uid(), user_id)
+  )
+);
+
+-- Approvers record consumption; only admins post accruals, adjustments and year-end entries
+CREATE POLICY "Approvers can add leave ledger entries"
+ON public.leave_ledger FOR INSERT
+WITH CHECK (
+  belongs_to_company(auth.uid(), company_id)
+  AND (
+    has_role(auth.uid(), 'owner')
+    OR has_role(auth.uid(), 'admin')
+    OR (entry_type = 'consumption' AND manages_user(auth.uid(), user_id))
+  )
+);
+
+CREATE TRIGGER update_leave_policies_updated_at
+  BEFORE UPDATE ON public.leave_policies
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
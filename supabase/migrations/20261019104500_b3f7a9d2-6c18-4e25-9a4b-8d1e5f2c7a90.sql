@@ -0,0 +1,104 @@
+-- Company-defined leave types replace the fixed leave_type enum
+CREATE TABLE public.leave_types (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  company_id uuid NOT NULL REFERENCES public.companies(id) ON DELETE CASCADE,
+  -- Stable key stored on requests, policies and ledger entries
+  code text NOT NULL CHECK (code ~ '^[a-z0-9_]+$'),
+  name text NOT NULL,
+  is_paid boolean NOT NULL DEFAULT true,
+  -- Whether the type has a balance (and so a policy and ledger)
+  tracks_balance boolean NOT NULL DEFAULT true,
+  requires_attachment boolean NOT NULL DEFAULT false,
+  max_consecutive_days numeric CHECK (max_consecutive_days IS NULL OR max_consecutive_days > 0),
+  -- NULL allows every employee
+  allowed_genders text[],
+  min_tenure_months integer NOT NULL DEFAULT 0 CHECK (min_tenure_months >= 0),
+  is_active boolean NOT NULL DEFAULT true,
+  sort_order integer NOT NULL DEFAULT 0,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE (company_id, code)
+);
+
+INSERT INTO public.leave_types (company_id, code, name, is_paid, tracks_balance, sort_order)
+SELECT c.id, t.code, t.name, t.is_paid, t.tracks_balance, t.sort_order
+FROM public.companies c
+CROSS JOIN (
+  VALUES
+    ('casual', 'Casual Leave', true, true, 1),
+    ('sick', 'Sick Leave', true, true, 2),
+    ('paid', 'Paid Leave', true, true, 3),
+    ('unpaid', 'Unpaid Leave', false, false, 4)
+) AS t(code, name, is_paid, tracks_balance, sort_order)
+ON CONFLICT (company_id, code) DO NOTHING;
+
+-- Requests, policies and ledger entries now hold the company's type code
+ALTER TABLE public.leave_requests ALTER COLUMN leave_type TYPE text USING leave_type::text;
+ALTER TABLE public.leave_policies DROP CONSTRAINT IF EXISTS leave_policies_leave_type_check;
+ALTER TABLE public.leave_policies ALTER COLUMN leave_type TYPE text USING leave_type::text;
+ALTER TABLE public.leave_ledger ALTER COLUMN leave_type TYPE text USING leave_type::text;
+DROP TYPE public.leave_type;
+
+ALTER TABLE public.leave_requests
+  ADD CONSTRAINT leave_requests_leave_type_fkey
+  FOREIGN KEY (company_id, leave_type) REFERENCES public.leave_types(company_id, code) ON UPDATE CASCADE;
+ALTER TABLE public.leave_policies
+  ADD CONSTRAINT leave_policies_leave_type_fkey
+  FOREIGN KEY (company_id, leave_type) REFERENCES public.leave_types(company_id, code) ON UPDATE CASCADE ON DELETE CASCADE;
+ALTER TABLE public.leave_ledger
+  ADD CONSTRAINT leave_ledger_leave_type_fkey
+  FOREIGN KEY (company_id, leave_type) REFERENCES public.leave_types(company_id, code) ON UPDATE CASCADE;
+
+-- Supporting documents (e.g. medical certificates) for types that require one
+ALTER TABLE public.leave_requests
+ADD COLUMN IF NOT EXISTS attachment_path text;
+
+-- Used by gender-restricted leave types such as maternity and paternity leave
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS gender text CHECK (gender IS NULL OR gender IN ('female', 'male', 'other'));
+
+-- RLS
+ALTER TABLE public.leave_types ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view leave types in their company"
+ON public.leave_types FOR SELECT
+USING (belongs_to_company(auth.uid(), company_id));
+
+CREATE POLICY "Company admins can manage leave types"
+ON public.leave_types FOR ALL
+USING (belongs_to_company(auth.uid(), company_id) AND (has_role(auth.uid(), 'admin') OR has_role(auth.uid(), 'owner')))
+WITH CHECK (belongs_to_company(auth.uid(), company_id) AND (has_role(auth.uid(), 'admin') OR has_role(auth.uid(), 'owner')));
+
+CREATE TRIGGER update_leave_types_updated_at
+  BEFORE UPDATE ON public.leave_types
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Attachments live under <user_id>/ in a private bucket
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('leave-attachments', 'leave-attachments', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can upload their own leave attachments"
+ON storage.objects FOR INSERT
+WITH CHECK (
+  bucket_id = 'leave-attachments'
+  AND (storage.foldername(name))[1] = auth.uid()::text
+);
+
+CREATE POLICY "Users and approvers can view leave attachments"
+ON storage.objects FOR SELECT
+USING (
+  bucket_id = 'leave-attachments'
+  AND (
+    (storage.foldername(name))[1] = auth.uid()::text
+    OR (
+      belongs_to_company(auth.uid(), get_user_company_id(((storage.foldername(name))[1])::uuid))
+      AND (
+        has_role(auth.uid(), 'owner')
+        OR has_role(auth.uid(), 'admin')
+        OR manages_user(auth.uid(), ((storage.foldername(name))[1])::uuid)
+      )
+    )
+  )
+);
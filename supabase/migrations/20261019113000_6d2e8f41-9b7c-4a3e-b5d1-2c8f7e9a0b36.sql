@@ -0,0 +1,15 @@
+-- Half-day leave and the working-day cost of each request
+ALTER TABLE public.leave_requests
+ADD COLUMN IF NOT EXISTS half_day text CHECK (half_day IS NULL OR half_day IN ('first_half', 'second_half')),
+ADD COLUMN IF NOT EXISTS days numeric CHECK (days IS NULL OR days >= 0);
+
+ALTER TABLE public.leave_requests
+ADD CONSTRAINT leave_requests_half_day_single_date CHECK (half_day IS NULL OR start_date = end_date);
+
+-- Days already debited from the ledger for approved requests
+UPDATE public.leave_requests r
+SET days = -l.days
+FROM public.leave_ledger l
+WHERE l.leave_request_id = r.id
+  AND l.entry_type = 'consumption'
+  AND r.days IS NULL;
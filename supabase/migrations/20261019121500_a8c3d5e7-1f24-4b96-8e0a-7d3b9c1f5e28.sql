@@ -0,0 +1,246 @@
+-- Multi-step leave approval: one row per step of a request's approval chain
+CREATE TABLE public.leave_approvals (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  company_id uuid NOT NULL REFERENCES public.companies(id) ON DELETE CASCADE,
+  leave_request_id uuid NOT NULL REFERENCES public.leave_requests(id) ON DELETE CASCADE,
+  step integer NOT NULL CHECK (step > 0),
+  approver_role text NOT NULL CHECK (approver_role IN ('manager', 'hr', 'owner')),
+  -- NULL for HR and owner steps, which any admin or owner can act on
+  assigned_to uuid,
+  -- Original approver when the step was routed to their delegate
+  delegated_from uuid,
+  status text NOT NULL DEFAULT 'waiting'
+    CHECK (status IN ('waiting', 'pending', 'approved', 'rejected', 'escalated', 'cancelled')),
+  due_at timestamp with time zone,
+  acted_by uuid,
+  acted_at timestamp with time zone,
+  comment text,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_leave_approvals_request ON public.leave_approvals(leave_request_id, step);
+CREATE INDEX idx_leave_approvals_pending ON public.leave_approvals(company_id, status, due_at);
+-- Only one step of a request is open at a time
+CREATE UNIQUE INDEX idx_leave_approvals_one_pending
+  ON public.leave_approvals(leave_request_id) WHERE status = 'pending';
+
+-- Approvers hand their steps to a colleague for a date range
+CREATE TABLE public.leave_delegations (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  company_id uuid NOT NULL REFERENCES public.companies(id) ON DELETE CASCADE,
+  delegator_id uuid NOT NULL,
+  delegate_id uuid NOT NULL,
+  start_date date NOT NULL,
+  end_date date NOT NULL,
+  note text,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  CHECK (end_date >= start_date),
+  CHECK (delegator_id <> delegate_id)
+);
+
+CREATE INDEX idx_leave_delegations_delegate ON public.leave_delegations(delegate_id, start_date, end_date);
+
+-- Whether a user may act on the open step of a request: its assignee or their
+-- delegate, the employee's current manager for a manager step, or HR/owner for
+-- unassigned steps. Never the requester.
+CREATE OR REPLACE FUNCTION public.is_leave_approver(_user_id uuid, _leave_request_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.leave_approvals a
+    JOIN public.leave_requests r ON r.id = a.leave_request_id
+    WHERE a.leave_request_id = _leave_request_id
+      AND a.status = 'pending'
+      AND a.company_id = get_user_company_id(_user_id)
+      AND r.user_id <> _user_id
+      AND (
+        a.assigned_to = _user_id
+        OR (a.approver_role = 'manager' AND manages_user(_user_id, r.user_id))
+        OR EXISTS (
+          SELECT 1 FROM public.leave_delegations d
+          WHERE d.delegator_id = a.assigned_to
+            AND d.delegate_id = _user_id
+            AND current_date BETWEEN d.start_date AND d.end_date
+        )
+        OR (a.assigned_to IS NULL AND a.approver_role = 'hr'
+            AND (has_role(_user_id, 'admin') OR has_role(_user_id, 'owner')))
+        OR (a.assigned_to IS NULL AND a.approver_role = 'owner' AND has_role(_user_id, 'owner'))
+      )
+  )
+$$;
+
+-- A request with a chain is only approved by whoever acts on its last open step,
+-- once every earlier step is done
+CREATE OR REPLACE FUNCTION public.enforce_leave_approval_chain()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'approved' AND OLD.status IS DISTINCT FROM 'approved'
+    AND EXISTS (SELECT 1 FROM public.leave_approvals WHERE leave_request_id = NEW.id)
+    AND (
+      EXISTS (SELECT 1 FROM public.leave_approvals WHERE leave_request_id = NEW.id AND status = 'waiting')
+      OR NOT is_leave_approver(auth.uid(), NEW.id)
+    )
+  THEN
+    RAISE EXCEPTION 'Leave approval: every approval step must be completed first';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_leave_approval_chain
+  BEFORE UPDATE ON public.leave_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_leave_approval_chain();
+
+-- Hand the request on when a step closes: approving or escalating opens the next
+-- waiting step with a fresh SLA, rejecting cancels the rest of the chain. Runs as
+-- definer because the approver loses access to the request once their step closes.
+CREATE OR REPLACE FUNCTION public.advance_leave_approval_chain()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _sla_hours numeric;
+BEGIN
+  IF NEW.status IN ('approved', 'escalated') THEN
+    SELECT COALESCE((setting_value->>'sla_hours')::numeric, 48)
+    INTO _sla_hours
+    FROM public.company_settings
+    WHERE company_id = NEW.company_id AND setting_key = 'leave_approval';
+
+    UPDATE public.leave_approvals
+    SET status = 'pending',
+        due_at = now() + make_interval(hours => COALESCE(_sla_hours, 48)::integer)
+    WHERE id = (
+      SELECT id FROM public.leave_approvals
+      WHERE leave_request_id = NEW.leave_request_id
+        AND status = 'waiting'
+        AND step > NEW.step
+      ORDER BY step
+      LIMIT 1
+    );
+  ELSIF NEW.status = 'rejected' THEN
+    UPDATE public.leave_approvals
+    SET status = 'cancelled'
+    WHERE leave_request_id = NEW.leave_request_id
+      AND status = 'waiting';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER advance_leave_approval_chain
+  AFTER UPDATE OF status ON public.leave_approvals
+  FOR EACH ROW
+  WHEN (OLD.status = 'pending' AND NEW.status <> 'pending')
+  EXECUTE FUNCTION public.advance_leave_approval_chain();
+
+CREATE TRIGGER update_leave_approvals_updated_at
+  BEFORE UPDATE ON public.leave_approvals
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Requests already waiting get a single step: their manager, or HR without one
+INSERT INTO public.leave_approvals (company_id, leave_request_id, step, approver_role, assigned_to, status, due_at)
+SELECT r.company_id,
+       r.id,
+       1,
+       CASE WHEN manager.user_id IS NULL THEN 'hr' ELSE 'manager' END,
+       manager.user_id,
+       'pending',
+       now() + interval '48 hours'
+FROM public.leave_requests r
+LEFT JOIN public.profiles employee ON employee.user_id = r.user_id
+LEFT JOIN public.profiles manager ON manager.id = employee.reporting_manager_id
+WHERE r.status = 'pending'
+  AND r.company_id IS NOT NULL;
+
+-- RLS
+ALTER TABLE public.leave_approvals ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.leave_delegations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Approvers, admins and requesters can view leave approvals"
+ON public.leave_approvals FOR SELECT
+USING (
+  company_id = get_user_company_id(auth.uid())
+  AND (
+    has_role(auth.uid(), 'owner')
+    OR has_role(auth.uid(), 'admin')
+    OR assigned_to = auth.uid()
+    OR delegated_from = auth.uid()
+    OR is_leave_approver(auth.uid(), leave_request_id)
+    OR EXISTS (
+      SELECT 1 FROM public.leave_requests r
+      WHERE r.id = leave_request_id
+        AND (r.user_id = auth.uid() OR manages_user(auth.uid(), r.user_id))
+    )
+  )
+);
+
+CREATE POLICY "Requesters and approvers can add approval steps"
+ON public.leave_approvals FOR INSERT
+WITH CHECK (
+  company_id = get_user_company_id(auth.uid())
+  AND EXISTS (
+    SELECT 1 FROM public.leave_requests r
+    WHERE r.id = leave_request_id
+      AND r.company_id = leave_approvals.company_id
+      AND (
+        -- Requesters only open their own chain
+        (r.user_id = auth.uid() AND leave_approvals.status IN ('waiting', 'pending') AND leave_approvals.acted_by IS NULL)
+        OR is_leave_approver(auth.uid(), r.id)
+        OR has_role(auth.uid(), 'owner')
+        OR has_role(auth.uid(), 'admin')
+      )
+  )
+);
+
+CREATE POLICY "Approvers can act on approval steps"
+ON public.leave_approvals FOR UPDATE
+USING (
+  company_id = get_user_company_id(auth.uid())
+  AND (
+    is_leave_approver(auth.uid(), leave_request_id)
+    OR has_role(auth.uid(), 'owner')
+    OR has_role(auth.uid(), 'admin')
+  )
+);
+
+CREATE POLICY "Users can view delegations in their company"
+ON public.leave_delegations FOR SELECT
+USING (belongs_to_company(auth.uid(), company_id));
+
+CREATE POLICY "Users can manage their own delegations"
+ON public.leave_delegations FOR ALL
+USING (
+  belongs_to_company(auth.uid(), company_id)
+  AND (delegator_id = auth.uid() OR has_role(auth.uid(), 'admin') OR has_role(auth.uid(), 'owner'))
+)
+WITH CHECK (
+  belongs_to_company(auth.uid(), company_id)
+  AND (delegator_id = auth.uid() OR has_role(auth.uid(), 'admin') OR has_role(auth.uid(), 'owner'))
+);
+
+-- Delegates finish the steps they cover, including the final approval
+CREATE POLICY "Leave approvers can update requests they approve"
+ON public.leave_requests FOR UPDATE
+USING (is_leave_approver(auth.uid(), id));
+
+CREATE POLICY "Leave approvers can record consumption"
+ON public.leave_ledger FOR INSERT
+WITH CHECK (
+  entry_type = 'consumption'
+  AND leave_request_id IS NOT NULL
+  AND is_leave_approver(auth.uid(), leave_request_id)
+);
@@ -0,0 +1,4 @@
+-- Leave cancellation: approved leave is cancelled through its approval chain.
+-- New enum values get their own migration so later ones can use them.
+ALTER TYPE public.leave_status ADD VALUE IF NOT EXISTS 'cancellation_requested';
+ALTER TYPE public.leave_status ADD VALUE IF NOT EXISTS 'cancelled';
@@ -0,0 +1,159 @@
+-- Leave cancellation and modification after approval
+ALTER TABLE public.leave_requests
+  ADD COLUMN IF NOT EXISTS cancellation_reason text,
+  -- An approved request this one replaces once it is approved itself
+  ADD COLUMN IF NOT EXISTS modifies_request_id uuid REFERENCES public.leave_requests(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_leave_requests_modifies ON public.leave_requests(modifies_request_id)
+  WHERE modifies_request_id IS NOT NULL;
+
+-- Approval steps either decide the request or a later request to cancel it
+ALTER TABLE public.leave_approvals
+  ADD COLUMN IF NOT EXISTS kind text NOT NULL DEFAULT 'request' CHECK (kind IN ('request', 'cancellation'));
+
+-- Cancelled leave is credited back with a reversal of its consumption
+ALTER TABLE public.leave_ledger DROP CONSTRAINT IF EXISTS leave_ledger_entry_type_check;
+ALTER TABLE public.leave_ledger ADD CONSTRAINT leave_ledger_entry_type_check
+  CHECK (entry_type IN ('opening', 'accrual', 'consumption', 'adjustment', 'lapse', 'encashment', 'reversal'));
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_leave_ledger_reversal
+  ON public.leave_ledger(leave_request_id)
+  WHERE entry_type = 'reversal';
+
+-- Status changes a user may make on a leave request
+CREATE OR REPLACE FUNCTION public.enforce_leave_approval_chain()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _has_chain boolean;
+  _is_hr boolean := has_role(auth.uid(), 'admin') OR has_role(auth.uid(), 'owner');
+BEGIN
+  IF OLD.status <> 'pending' AND NOT _is_hr AND (
+    NEW.start_date IS DISTINCT FROM OLD.start_date
+    OR NEW.end_date IS DISTINCT FROM OLD.end_date
+    OR NEW.half_day IS DISTINCT FROM OLD.half_day
+    OR NEW.leave_type IS DISTINCT FROM OLD.leave_type
+  ) THEN
+    RAISE EXCEPTION 'Leave approval: approved leave is changed through a modification request';
+  END IF;
+
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  _has_chain := EXISTS (SELECT 1 FROM public.leave_approvals WHERE leave_request_id = NEW.id);
+
+  -- Approving leave or its cancellation is done by whoever acts on the last open step
+  IF (OLD.status = 'pending' AND NEW.status = 'approved')
+    OR (OLD.status = 'cancellation_requested' AND NEW.status = 'cancelled')
+  THEN
+    IF _has_chain AND (
+      EXISTS (SELECT 1 FROM public.leave_approvals WHERE leave_request_id = NEW.id AND status = 'waiting')
+      OR NOT is_leave_approver(auth.uid(), NEW.id)
+    ) THEN
+      RAISE EXCEPTION 'Leave approval: every approval step must be completed first';
+    END IF;
+  -- Turning a cancellation down keeps the leave
+  ELSIF OLD.status = 'cancellation_requested' AND NEW.status = 'approved' THEN
+    IF _has_chain AND NOT is_leave_approver(auth.uid(), NEW.id) THEN
+      RAISE EXCEPTION 'Leave approval: only the current approver can turn down a cancellation';
+    END IF;
+  -- Approved leave is cancelled directly only by HR, or when a modification replaces it
+  ELSIF OLD.status = 'approved' AND NEW.status = 'cancelled' THEN
+    IF NOT _is_hr AND NOT EXISTS (
+      SELECT 1 FROM public.leave_requests m
+      WHERE m.modifies_request_id = NEW.id AND m.status = 'approved'
+    ) THEN
+      RAISE EXCEPTION 'Leave approval: approved leave is cancelled through a cancellation request';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Side effects of a status change: cancelled leave closes its chain, is credited
+-- back and stops showing as leave in attendance; an approved modification
+-- cancels the request it replaces. Runs as definer because the employee or
+-- approver triggering it cannot write the ledger or other users' attendance.
+CREATE OR REPLACE FUNCTION public.apply_leave_status_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'cancelled' THEN
+    UPDATE public.leave_approvals
+    SET status = 'cancelled'
+    WHERE leave_request_id = NEW.id
+      AND (status = 'waiting' OR (status = 'pending' AND OLD.status = 'pending'));
+
+    INSERT INTO public.leave_ledger
+      (company_id, user_id, leave_type, entry_type, days, effective_date, leave_request_id, note, created_by)
+    SELECT company_id, user_id, leave_type, 'reversal', -days, effective_date, leave_request_id,
+           'Leave cancelled', auth.uid()
+    FROM public.leave_ledger
+    WHERE leave_request_id = NEW.id AND entry_type = 'consumption'
+    ON CONFLICT (leave_request_id) WHERE entry_type = 'reversal' DO NOTHING;
+
+    -- Days still covered by other approved leave keep their status
+    UPDATE public.attendance_sessions s
+    SET status = 'present'
+    WHERE s.user_id = NEW.user_id
+      AND s.status = 'on_leave'
+      AND s.sign_out_time IS NOT NULL
+      AND s.sign_in_time::date BETWEEN NEW.start_date AND NEW.end_date
+      AND NOT EXISTS (
+        SELECT 1 FROM public.leave_requests o
+        WHERE o.user_id = NEW.user_id
+          AND o.id <> NEW.id
+          AND o.status IN ('approved', 'cancellation_requested')
+          AND s.sign_in_time::date BETWEEN o.start_date AND o.end_date
+      );
+
+    -- Placeholder rows with no session behind them are dropped
+    DELETE FROM public.attendance_sessions s
+    WHERE s.user_id = NEW.user_id
+      AND s.status = 'on_leave'
+      AND s.sign_out_time IS NULL
+      AND s.sign_in_time::date BETWEEN NEW.start_date AND NEW.end_date
+      AND NOT EXISTS (
+        SELECT 1 FROM public.leave_requests o
+        WHERE o.user_id = NEW.user_id
+          AND o.id <> NEW.id
+          AND o.status IN ('approved', 'cancellation_requested')
+          AND s.sign_in_time::date BETWEEN o.start_date AND o.end_date
+      );
+  ELSIF NEW.status = 'approved' AND OLD.status = 'pending' AND NEW.modifies_request_id IS NOT NULL THEN
+    UPDATE public.leave_requests
+    SET status = 'cancelled',
+        cancellation_reason = 'Replaced by a modified request',
+        updated_at = now()
+    WHERE id = NEW.modifies_request_id
+      AND status IN ('approved', 'cancellation_requested');
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER apply_leave_status_change
+  AFTER UPDATE OF status ON public.leave_requests
+  FOR EACH ROW
+  WHEN (OLD.status IS DISTINCT FROM NEW.status)
+  EXECUTE FUNCTION public.apply_leave_status_change();
+
+-- Employees withdraw pending requests and ask to cancel approved ones
+CREATE POLICY "Users can cancel their own leave requests"
+ON public.leave_requests FOR UPDATE
+USING (
+  user_id = auth.uid()
+  AND company_id = get_user_company_id(auth.uid())
+  AND status IN ('pending', 'approved')
+)
+WITH CHECK (
+  user_id = auth.uid()
+  AND status IN ('pending', 'cancelled', 'cancellation_requested')
+);
@@ -0,0 +1,60 @@
+-- Minimum staffing per department: approving leave warns when fewer than
+-- min_present members of the department would be at work on a working day
+CREATE TABLE public.department_staffing_rules (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  company_id uuid NOT NULL REFERENCES public.companies(id) ON DELETE CASCADE,
+  department_id uuid NOT NULL REFERENCES public.departments(id) ON DELETE CASCADE,
+  min_present integer NOT NULL CHECK (min_present > 0),
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE (department_id)
+);
+
+CREATE INDEX idx_department_staffing_rules_company ON public.department_staffing_rules(company_id);
+
+ALTER TABLE public.department_staffing_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view staffing rules in their company"
+ON public.department_staffing_rules FOR SELECT
+USING (belongs_to_company(auth.uid(), company_id));
+
+CREATE POLICY "Company admins can manage staffing rules"
+ON public.department_staffing_rules FOR ALL
+USING (belongs_to_company(auth.uid(), company_id) AND (has_role(auth.uid(), 'admin') OR has_role(auth.uid(), 'owner')))
+WITH CHECK (belongs_to_company(auth.uid(), company_id) AND (has_role(auth.uid(), 'admin') OR has_role(auth.uid(), 'owner')));
+
+CREATE TRIGGER update_department_staffing_rules_updated_at
+  BEFORE UPDATE ON public.department_staffing_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Leave booked by a department's members over a date range, for the team
+-- calendar and staffing checks. Managers only see their direct reports'
+-- requests, so this exposes dates and status across the department, never
+-- reasons or attachments.
+CREATE OR REPLACE FUNCTION public.get_department_leave(_department_id uuid, _start_date date, _end_date date)
+RETURNS TABLE (
+  leave_request_id uuid,
+  user_id uuid,
+  leave_type text,
+  start_date date,
+  end_date date,
+  half_day text,
+  status leave_status
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT r.id, r.user_id, r.leave_type, r.start_date, r.end_date, r.half_day, r.status
+  FROM public.leave_requests r
+  JOIN public.profiles p ON p.user_id = r.user_id
+  JOIN public.departments d ON d.id = p.department_id
+  WHERE d.id = _department_id
+    AND d.company_id = get_user_company_id(auth.uid())
+    AND r.status IN ('pending', 'approved', 'cancellation_requested')
+    AND r.start_date <= _end_date
+    AND r.end_date >= _start_date
+  ORDER BY r.start_date
+$$;
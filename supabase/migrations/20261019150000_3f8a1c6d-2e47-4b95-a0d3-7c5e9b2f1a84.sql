@@ -0,0 +1,250 @@
+-- Compensatory off: a day worked on a holiday or weekly off earns a day of
+-- 'comp_off' leave once the employee's manager approves it, usable until it expires
+CREATE TABLE public.comp_off_credits (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  company_id uuid NOT NULL REFERENCES public.companies(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL,
+  attendance_session_id uuid REFERENCES public.attendance_sessions(id) ON DELETE SET NULL,
+  work_date date NOT NULL,
+  -- Holiday name, or the weekday for a weekly off
+  reason text NOT NULL,
+  -- A full day, or half when the session was shorter than four hours
+  days numeric NOT NULL DEFAULT 1 CHECK (days > 0),
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected', 'expired')),
+  -- Set on approval from the company's expiry window
+  expires_on date,
+  approved_by uuid,
+  approved_at timestamp with time zone,
+  rejection_reason text,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE (user_id, work_date)
+);
+
+CREATE INDEX idx_comp_off_credits_company ON public.comp_off_credits(company_id, status);
+CREATE INDEX idx_comp_off_credits_expiry ON public.comp_off_credits(status, expires_on);
+
+-- Ledger entries a credit posted: its accrual and, if unused in time, its lapse
+ALTER TABLE public.leave_ledger
+ADD COLUMN IF NOT EXISTS comp_off_credit_id uuid REFERENCES public.comp_off_credits(id) ON DELETE SET NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_leave_ledger_comp_off
+  ON public.leave_ledger(comp_off_credit_id, entry_type)
+  WHERE comp_off_credit_id IS NOT NULL;
+
+INSERT INTO public.leave_types (company_id, code, name, is_paid, tracks_balance, sort_order)
+SELECT c.id, 'comp_off', 'Compensatory Off', true, true, 5
+FROM public.companies c
+ON CONFLICT (company_id, code) DO NOTHING;
+
+-- Signing in on a holiday or outside the company's working weekdays opens a
+-- credit for the manager to approve. Optional holidays are working days.
+CREATE OR REPLACE FUNCTION public.detect_comp_off_work()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _company_id uuid := COALESCE(NEW.company_id, get_user_company_id(NEW.user_id));
+  _work_date date := NEW.sign_in_time::date;
+  _weekday text := lower(trim(to_char(NEW.sign_in_time::date, 'Day')));
+  _working_days jsonb;
+  _reason text;
+BEGIN
+  IF _company_id IS NULL OR NEW.status IN ('on_leave', 'absent') THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT name INTO _reason
+  FROM public.holidays
+  WHERE company_id = _company_id
+    AND date = _work_date
+    AND COALESCE(type, '') <> 'optional'
+  LIMIT 1;
+
+  IF _reason IS NULL THEN
+    SELECT setting_value->'working_days' INTO _working_days
+    FROM public.company_settings
+    WHERE company_id = _company_id AND setting_key = 'general';
+
+    IF _working_days IS NULL OR jsonb_typeof(_working_days) <> 'array' OR jsonb_array_length(_working_days) = 0 THEN
+      _working_days := '["monday", "tuesday", "wednesday", "thursday", "friday"]'::jsonb;
+    END IF;
+
+    IF NOT EXISTS (
+      SELECT 1 FROM jsonb_array_elements_text(_working_days) d WHERE lower(d) = _weekday
+    ) THEN
+      _reason := initcap(_weekday);
+    END IF;
+  END IF;
+
+  IF _reason IS NOT NULL THEN
+    INSERT INTO public.comp_off_credits (company_id, user_id, attendance_session_id, work_date, reason)
+    VALUES (_company_id, NEW.user_id, NEW.id, _work_date, _reason)
+    ON CONFLICT (user_id, work_date) DO NOTHING;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER detect_comp_off_work
+  AFTER INSERT ON public.attendance_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.detect_comp_off_work();
+
+-- A short session earns half a day, using the same four hours as the half-day status
+CREATE OR REPLACE FUNCTION public.size_comp_off_credit()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.comp_off_credits
+  SET days = CASE WHEN NEW.sign_out_time - NEW.sign_in_time < interval '4 hours' THEN 0.5 ELSE 1 END
+  WHERE attendance_session_id = NEW.id
+    AND status = 'pending';
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER size_comp_off_credit
+  AFTER UPDATE OF sign_out_time ON public.attendance_sessions
+  FOR EACH ROW
+  WHEN (NEW.sign_out_time IS NOT NULL)
+  EXECUTE FUNCTION public.size_comp_off_credit();
+
+-- Approving a credit stamps its expiry and credits the comp-off balance.
+-- Runs as definer because managers may not post accruals themselves.
+CREATE OR REPLACE FUNCTION public.apply_comp_off_decision()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _expiry_days integer;
+BEGIN
+  IF NEW.status = OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF OLD.status = 'pending' AND NEW.status IN ('approved', 'rejected') THEN
+    IF auth.uid() IS NOT NULL AND NEW.user_id = auth.uid() THEN
+      RAISE EXCEPTION 'Comp-off: you cannot decide your own comp-off';
+    END IF;
+    NEW.approved_by := COALESCE(NEW.approved_by, auth.uid());
+    NEW.approved_at := now();
+  END IF;
+
+  IF OLD.status = 'pending' AND NEW.status = 'approved' THEN
+    SELECT COALESCE((setting_value->>'expiry_days')::integer, 90)
+    INTO _expiry_days
+    FROM public.company_settings
+    WHERE company_id = NEW.company_id AND setting_key = 'comp_off';
+
+    NEW.expires_on := NEW.work_date + COALESCE(_expiry_days, 90);
+
+    INSERT INTO public.leave_ledger (company_id, user_id, leave_type, entry_type, days, effective_date, comp_off_credit_id, note, created_by)
+    VALUES (
+      NEW.company_id, NEW.user_id, 'comp_off', 'accrual', NEW.days, NEW.work_date, NEW.id,
+      'Worked on ' || NEW.reason || ', ' || to_char(NEW.work_date, 'Mon DD, YYYY'),
+      NEW.approved_by
+    )
+    ON CONFLICT DO NOTHING;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER apply_comp_off_decision
+  BEFORE UPDATE ON public.comp_off_credits
+  FOR EACH ROW
+  EXECUTE FUNCTION public.apply_comp_off_decision();
+
+CREATE TRIGGER update_comp_off_credits_updated_at
+  BEFORE UPDATE ON public.comp_off_credits
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Lapse what is left of credits past their expiry. Comp-off leave is taken from
+-- the credit expiring first, so a credit keeps only the part of the balance its
+-- later-expiring credits cannot hold. Safe to repeat; anyone in the company can
+-- run it so balances are current before leave is checked against them.
+CREATE OR REPLACE FUNCTION public.expire_comp_off_credits(_company_id uuid, _user_id uuid DEFAULT NULL)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _credit record;
+  _balance numeric;
+  _later numeric;
+  _lapse numeric;
+  _expired integer := 0;
+BEGIN
+  IF NOT belongs_to_company(auth.uid(), _company_id) THEN
+    RETURN 0;
+  END IF;
+
+  FOR _credit IN
+    SELECT * FROM public.comp_off_credits
+    WHERE company_id = _company_id
+      AND (_user_id IS NULL OR user_id = _user_id)
+      AND status = 'approved'
+      AND expires_on < current_date
+    ORDER BY user_id, expires_on, created_at
+  LOOP
+    SELECT COALESCE(sum(days), 0) INTO _balance
+    FROM public.leave_ledger
+    WHERE user_id = _credit.user_id AND leave_type = 'comp_off';
+
+    SELECT COALESCE(sum(days), 0) INTO _later
+    FROM public.comp_off_credits
+    WHERE user_id = _credit.user_id AND status = 'approved' AND id <> _credit.id;
+
+    _lapse := greatest(0, least(_credit.days, _balance - _later));
+    IF _lapse > 0 THEN
+      INSERT INTO public.leave_ledger (company_id, user_id, leave_type, entry_type, days, effective_date, comp_off_credit_id, note)
+      VALUES (
+        _credit.company_id, _credit.user_id, 'comp_off', 'lapse', -_lapse, _credit.expires_on, _credit.id,
+        'Comp-off for ' || to_char(_credit.work_date, 'Mon DD, YYYY') || ' expired'
+      )
+      ON CONFLICT DO NOTHING;
+    END IF;
+
+    UPDATE public.comp_off_credits SET status = 'expired' WHERE id = _credit.id;
+    _expired := _expired + 1;
+  END LOOP;
+
+  RETURN _expired;
+END;
+$$;
+
+-- RLS
+ALTER TABLE public.comp_off_credits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Employees, managers and admins can view comp-off credits"
+ON public.comp_off_credits FOR SELECT
+USING (
+  belongs_to_company(auth.uid(), company_id)
+  AND (
+    user_id = auth.uid()
+    OR has_role(auth.uid(), 'owner')
+    OR has_role(auth.uid(), 'admin')
+    OR manages_user(auth.uid(), user_id)
+  )
+);
+
+-- Credits are only created by sign-in; approvers decide pending ones
+CREATE POLICY "Managers and admins can decide comp-off credits"
+ON public.comp_off_credits FOR UPDATE
+USING (
+  belongs_to_company(auth.uid(), company_id)
+  AND status = 'pending'
+  AND user_id <> auth.uid()
+  AND (has_role(auth.uid(), 'owner') OR has_role(auth.uid(), 'admin') OR manages_user(auth.uid(), user_id))
+)
+WITH CHECK (status IN ('approved', 'rejected'));
@@ -0,0 +1,172 @@
+-- Shift roster: employees are assigned a work session, either fixed with its
+-- own weekly offs or following a rotation, for a date range
+CREATE TABLE public.shift_rotations (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  company_id uuid NOT NULL REFERENCES public.companies(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  -- One entry per day of the cycle: a work_sessions id, or null for a day off
+  pattern jsonb NOT NULL CHECK (jsonb_typeof(pattern) = 'array' AND jsonb_array_length(pattern) > 0),
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE (company_id, name)
+);
+
+CREATE TABLE public.shift_assignments (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  company_id uuid NOT NULL REFERENCES public.companies(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL,
+  start_date date NOT NULL,
+  -- Open-ended when null
+  end_date date,
+  work_session_id uuid REFERENCES public.work_sessions(id),
+  -- A rotation starts its cycle on start_date
+  rotation_id uuid REFERENCES public.shift_rotations(id),
+  -- Weekdays off for a fixed shift, e.g. {saturday,sunday}
+  weekly_offs text[] NOT NULL DEFAULT '{}',
+  created_by uuid,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  CHECK ((work_session_id IS NULL) <> (rotation_id IS NULL)),
+  CHECK (end_date IS NULL OR end_date >= start_date)
+);
+
+CREATE INDEX idx_shift_assignments_user ON public.shift_assignments(user_id, start_date);
+CREATE INDEX idx_shift_assignments_company ON public.shift_assignments(company_id, start_date);
+
+CREATE TRIGGER update_shift_rotations_updated_at
+  BEFORE UPDATE ON public.shift_rotations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_shift_assignments_updated_at
+  BEFORE UPDATE ON public.shift_assignments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- The shift rostered for an employee on a date. Where assignments overlap the
+-- one starting latest wins, so a short-term change can sit inside a standing
+-- assignment. No row when the employee has no roster for the date.
+CREATE OR REPLACE FUNCTION public.get_rostered_shift(_user_id uuid, _date date)
+RETURNS TABLE (work_session_id uuid, is_off boolean)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _assignment public.shift_assignments;
+  _pattern jsonb;
+  _entry jsonb;
+BEGIN
+  SELECT * INTO _assignment
+  FROM public.shift_assignments a
+  WHERE a.user_id = _user_id
+    AND a.start_date <= _date
+    AND (a.end_date IS NULL OR a.end_date >= _date)
+  ORDER BY a.start_date DESC, a.created_at DESC
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  IF _assignment.rotation_id IS NOT NULL THEN
+    SELECT pattern INTO _pattern FROM public.shift_rotations WHERE id = _assignment.rotation_id;
+    _entry := _pattern -> ((_date - _assignment.start_date) % jsonb_array_length(_pattern));
+    IF _entry IS NULL OR jsonb_typeof(_entry) = 'null' THEN
+      RETURN QUERY SELECT NULL::uuid, true;
+    ELSE
+      RETURN QUERY SELECT (_entry #>> '{}')::uuid, false;
+    END IF;
+    RETURN;
+  END IF;
+
+  IF lower(trim(to_char(_date, 'Day'))) = ANY (_assignment.weekly_offs) THEN
+    RETURN QUERY SELECT NULL::uuid, true;
+  ELSE
+    RETURN QUERY SELECT _assignment.work_session_id, false;
+  END IF;
+END;
+$$;
+
+-- Weekly offs come from the roster for rostered employees, and from the
+-- company's working days for everyone else
+CREATE OR REPLACE FUNCTION public.detect_comp_off_work()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _company_id uuid := COALESCE(NEW.company_id, get_user_company_id(NEW.user_id));
+  _work_date date := NEW.sign_in_time::date;
+  _weekday text := lower(trim(to_char(NEW.sign_in_time::date, 'Day')));
+  _working_days jsonb;
+  _rostered record;
+  _reason text;
+BEGIN
+  IF _company_id IS NULL OR NEW.status IN ('on_leave', 'absent') THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT name INTO _reason
+  FROM public.holidays
+  WHERE company_id = _company_id
+    AND date = _work_date
+    AND COALESCE(type, '') <> 'optional'
+  LIMIT 1;
+
+  IF _reason IS NULL THEN
+    SELECT * INTO _rostered FROM public.get_rostered_shift(NEW.user_id, _work_date);
+
+    IF FOUND THEN
+      IF _rostered.is_off THEN
+        _reason := initcap(_weekday);
+      END IF;
+    ELSE
+      SELECT setting_value->'working_days' INTO _working_days
+      FROM public.company_settings
+      WHERE company_id = _company_id AND setting_key = 'general';
+
+      IF _working_days IS NULL OR jsonb_typeof(_working_days) <> 'array' OR jsonb_array_length(_working_days) = 0 THEN
+        _working_days := '["monday", "tuesday", "wednesday", "thursday", "friday"]'::jsonb;
+      END IF;
+
+      IF NOT EXISTS (
+        SELECT 1 FROM jsonb_array_elements_text(_working_days) d WHERE lower(d) = _weekday
+      ) THEN
+        _reason := initcap(_weekday);
+      END IF;
+    END IF;
+  END IF;
+
+  IF _reason IS NOT NULL THEN
+    INSERT INTO public.comp_off_credits (company_id, user_id, attendance_session_id, work_date, reason)
+    VALUES (_company_id, NEW.user_id, NEW.id, _work_date, _reason)
+    ON CONFLICT (user_id, work_date) DO NOTHING;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- RLS: everyone in the company can see the roster; admins maintain it
+ALTER TABLE public.shift_rotations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.shift_assignments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view shift rotations in their company"
+ON public.shift_rotations FOR SELECT
+USING (belongs_to_company(auth.uid(), company_id));
+
+CREATE POLICY "Company admins can manage shift rotations"
+ON public.shift_rotations FOR ALL
+USING (belongs_to_company(auth.uid(), company_id) AND (has_role(auth.uid(), 'admin') OR has_role(auth.uid(), 'owner')))
+WITH CHECK (belongs_to_company(auth.uid(), company_id) AND (has_role(auth.uid(), 'admin') OR has_role(auth.uid(), 'owner')));
+
+CREATE POLICY "Users can view shift assignments in their company"
+ON public.shift_assignments FOR SELECT
+USING (belongs_to_company(auth.uid(), company_id));
+
+CREATE POLICY "Company admins can manage shift assignments"
+ON public.shift_assignments FOR ALL
+USING (belongs_to_company(auth.uid(), company_id) AND (has_role(auth.uid(), 'admin') OR has_role(auth.uid(), 'owner')))
+WITH CHECK (belongs_to_company(auth.uid(), company_id) AND (has_role(auth.uid(), 'admin') OR has_role(auth.uid(), 'owner')));
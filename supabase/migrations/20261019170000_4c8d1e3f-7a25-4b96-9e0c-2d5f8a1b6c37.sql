@@ -0,0 +1,12 @@
+-- Attendance evaluation: how late a sign-in was against the shift, and the
+-- overtime worked beyond it. Set on sign-out and by the close-out of past days.
+ALTER TABLE public.attendance_sessions
+ADD COLUMN IF NOT EXISTS late_minutes integer NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS overtime_hours numeric NOT NULL DEFAULT 0 CHECK (overtime_hours >= 0),
+-- Null until the completed session has been evaluated
+ADD COLUMN IF NOT EXISTS evaluated_at timestamp with time zone;
+
+-- Completed sessions still waiting for the close-out
+CREATE INDEX IF NOT EXISTS idx_attendance_sessions_unevaluated
+  ON public.attendance_sessions(company_id, sign_in_time)
+  WHERE evaluated_at IS NULL AND sign_out_time IS NOT NULL;
@@ -0,0 +1,103 @@
+-- Geofenced attendance: punches are checked against the company's office
+-- locations. Depending on the company's policy an out-of-fence punch is
+-- refused or recorded and flagged for an admin to review.
+CREATE TABLE public.office_locations (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  company_id uuid NOT NULL REFERENCES public.companies(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  latitude double precision NOT NULL CHECK (latitude BETWEEN -90 AND 90),
+  longitude double precision NOT NULL CHECK (longitude BETWEEN -180 AND 180),
+  -- Metres from the coordinates a punch may be made
+  radius_meters integer NOT NULL DEFAULT 500 CHECK (radius_meters > 0),
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE (company_id, name)
+);
+
+CREATE INDEX idx_office_locations_company ON public.office_locations(company_id);
+
+CREATE TRIGGER update_office_locations_updated_at
+  BEFORE UPDATE ON public.office_locations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.office_locations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view office locations in their company"
+ON public.office_locations
+FOR SELECT
+USING (belongs_to_company(auth.uid(), company_id));
+
+CREATE POLICY "Company admins can manage office locations"
+ON public.office_locations
+FOR ALL
+USING (belongs_to_company(auth.uid(), company_id) AND (has_role(auth.uid(), 'admin') OR has_role(auth.uid(), 'owner')))
+WITH CHECK (belongs_to_company(auth.uid(), company_id) AND (has_role(auth.uid(), 'admin') OR has_role(auth.uid(), 'owner')));
+
+-- Where each punch was made, the office it fell within, and the distance to
+-- the nearest office for punches outside every fence
+ALTER TABLE public.attendance_sessions
+ADD COLUMN IF NOT EXISTS sign_in_lat double precision,
+ADD COLUMN IF NOT EXISTS sign_in_lng double precision,
+ADD COLUMN IF NOT EXISTS sign_out_lat double precision,
+ADD COLUMN IF NOT EXISTS sign_out_lng double precision,
+ADD COLUMN IF NOT EXISTS sign_in_office_id uuid REFERENCES public.office_locations(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS sign_out_office_id uuid REFERENCES public.office_locations(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS sign_in_distance_m numeric,
+ADD COLUMN IF NOT EXISTS sign_out_distance_m numeric,
+-- Null when geofencing was off for the session
+ADD COLUMN IF NOT EXISTS geofence_status text CHECK (geofence_status IN ('matched', 'flagged', 'approved', 'rejected')),
+ADD COLUMN IF NOT EXISTS geofence_reviewed_by uuid,
+ADD COLUMN IF NOT EXISTS geofence_reviewed_at timestamp with time zone;
+
+CREATE INDEX IF NOT EXISTS idx_attendance_sessions_flagged
+  ON public.attendance_sessions(company_id, sign_in_time)
+  WHERE geofence_status = 'flagged';
+
+-- Admins review flagged punches and close out past days
+CREATE POLICY "Company admins can update attendance"
+ON public.attendance_sessions
+FOR UPDATE
+USING (
+  company_id = get_user_company_id(auth.uid())
+  AND (has_role(auth.uid(), 'owner') OR has_role(auth.uid(), 'admin'))
+);
+
+-- Only an admin decides a flagged punch, never their own. A rejected punch
+-- does not count as a day worked.
+CREATE OR REPLACE FUNCTION public.apply_geofence_review()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.geofence_status IS NOT DISTINCT FROM OLD.geofence_status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.geofence_status IN ('approved', 'rejected') OR OLD.geofence_status IN ('approved', 'rejected') THEN
+    IF auth.uid() IS NOT NULL THEN
+      IF NOT (has_role(auth.uid(), 'owner') OR has_role(auth.uid(), 'admin')) THEN
+        RAISE EXCEPTION 'Geofence: only an admin can review flagged punches';
+      END IF;
+      IF NEW.user_id = auth.uid() THEN
+        RAISE EXCEPTION 'Geofence: you cannot review your own punch';
+      END IF;
+    END IF;
+    NEW.geofence_reviewed_by := auth.uid();
+    NEW.geofence_reviewed_at := now();
+  END IF;
+
+  IF NEW.geofence_status = 'rejected' THEN
+    NEW.status := 'absent';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER apply_geofence_review
+  BEFORE UPDATE ON public.attendance_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.apply_geofence_review();
@@ -0,0 +1,137 @@
+-- Attendance regularization: an employee asks to correct a day's punches, or
+-- to record a day spent on duty away from the office. Once their manager
+-- approves, the session is corrected and the request keeps the original punch.
+CREATE TABLE public.attendance_regularizations (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  company_id uuid NOT NULL REFERENCES public.companies(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL,
+  -- The session being corrected; null when there was no punch that day
+  attendance_session_id uuid REFERENCES public.attendance_sessions(id) ON DELETE SET NULL,
+  work_date date NOT NULL,
+  kind text NOT NULL CHECK (kind IN ('missed_punch', 'wrong_time', 'on_duty')),
+  requested_sign_in timestamp with time zone NOT NULL,
+  requested_sign_out timestamp with time zone NOT NULL,
+  reason text NOT NULL CHECK (length(trim(reason)) > 0),
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected', 'cancelled')),
+  -- The punch as it was before the correction, set on approval
+  original_sign_in timestamp with time zone,
+  original_sign_out timestamp with time zone,
+  original_status public.attendance_status,
+  approved_by uuid,
+  approved_at timestamp with time zone,
+  rejection_reason text,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  CHECK (requested_sign_out > requested_sign_in)
+);
+
+CREATE INDEX idx_attendance_regularizations_user ON public.attendance_regularizations(user_id, work_date);
+CREATE INDEX idx_attendance_regularizations_company ON public.attendance_regularizations(company_id, status);
+
+-- One open request per employee and day
+CREATE UNIQUE INDEX idx_attendance_regularizations_pending
+  ON public.attendance_regularizations(user_id, work_date)
+  WHERE status = 'pending';
+
+CREATE TRIGGER update_attendance_regularizations_updated_at
+  BEFORE UPDATE ON public.attendance_regularizations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- The approved request a session was last corrected by
+ALTER TABLE public.attendance_sessions
+ADD COLUMN IF NOT EXISTS regularization_id uuid REFERENCES public.attendance_regularizations(id) ON DELETE SET NULL;
+
+-- Approving corrects the session, or creates one when there was no punch, and
+-- snapshots the original punch on the request. The corrected session is
+-- evaluated again by the close-out of past days.
+CREATE OR REPLACE FUNCTION public.apply_regularization_decision()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _session public.attendance_sessions;
+BEGIN
+  IF NEW.status = OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF OLD.status = 'pending' AND NEW.status IN ('approved', 'rejected') THEN
+    IF auth.uid() IS NOT NULL AND NEW.user_id = auth.uid() THEN
+      RAISE EXCEPTION 'Regularization: you cannot decide your own request';
+    END IF;
+    NEW.approved_by := COALESCE(NEW.approved_by, auth.uid());
+    NEW.approved_at := now();
+  END IF;
+
+  IF OLD.status = 'pending' AND NEW.status = 'approved' THEN
+    IF NEW.attendance_session_id IS NOT NULL THEN
+      SELECT * INTO _session FROM public.attendance_sessions WHERE id = NEW.attendance_session_id;
+    END IF;
+
+    IF _session.id IS NOT NULL THEN
+      NEW.original_sign_in := _session.sign_in_time;
+      NEW.original_sign_out := _session.sign_out_time;
+      NEW.original_status := _session.status;
+
+      UPDATE public.attendance_sessions
+      SET sign_in_time = NEW.requested_sign_in,
+          sign_out_time = NEW.requested_sign_out,
+          status = 'present',
+          evaluated_at = NULL,
+          regularization_id = NEW.id
+      WHERE id = _session.id;
+    ELSE
+      INSERT INTO public.attendance_sessions (user_id, company_id, sign_in_time, sign_out_time, status, regularization_id)
+      VALUES (NEW.user_id, NEW.company_id, NEW.requested_sign_in, NEW.requested_sign_out, 'present', NEW.id)
+      RETURNING id INTO NEW.attendance_session_id;
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER apply_regularization_decision
+  BEFORE UPDATE ON public.attendance_regularizations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.apply_regularization_decision();
+
+-- RLS
+ALTER TABLE public.attendance_regularizations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Employees, managers and admins can view regularizations"
+ON public.attendance_regularizations FOR SELECT
+USING (
+  belongs_to_company(auth.uid(), company_id)
+  AND (
+    user_id = auth.uid()
+    OR has_role(auth.uid(), 'owner')
+    OR has_role(auth.uid(), 'admin')
+    OR manages_user(auth.uid(), user_id)
+  )
+);
+
+CREATE POLICY "Employees can request regularization"
+ON public.attendance_regularizations FOR INSERT
+WITH CHECK (
+  user_id = auth.uid()
+  AND belongs_to_company(auth.uid(), company_id)
+  AND status = 'pending'
+);
+
+CREATE POLICY "Employees can cancel their pending regularizations"
+ON public.attendance_regularizations FOR UPDATE
+USING (user_id = auth.uid() AND status = 'pending')
+WITH CHECK (status = 'cancelled');
+
+CREATE POLICY "Managers and admins can decide regularizations"
+ON public.attendance_regularizations FOR UPDATE
+USING (
+  belongs_to_company(auth.uid(), company_id)
+  AND status = 'pending'
+  AND user_id <> auth.uid()
+  AND (has_role(auth.uid(), 'owner') OR has_role(auth.uid(), 'admin') OR manages_user(auth.uid(), user_id))
+)
+WITH CHECK (status IN ('approved', 'rejected'));
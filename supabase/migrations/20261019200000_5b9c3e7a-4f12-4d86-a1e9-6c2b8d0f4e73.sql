@@ -0,0 +1,164 @@
+-- End-of-day attendance close: open sessions are signed out at their shift's
+-- end, and employees with no punch on a working day are marked absent, or on
+-- leave when they had approved leave. One closure row per company and date
+-- records each run; running a day again adds nothing already there.
+CREATE TABLE public.attendance_day_closures (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  company_id uuid NOT NULL REFERENCES public.companies(id) ON DELETE CASCADE,
+  work_date date NOT NULL,
+  absent_count integer NOT NULL DEFAULT 0,
+  on_leave_count integer NOT NULL DEFAULT 0,
+  -- Open sessions signed out at their shift's end
+  closed_count integer NOT NULL DEFAULT 0,
+  closed_by uuid,
+  closed_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE (company_id, work_date)
+);
+
+ALTER TABLE public.attendance_day_closures ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Company admins can view attendance day closures"
+ON public.attendance_day_closures FOR SELECT
+USING (belongs_to_company(auth.uid(), company_id) AND (has_role(auth.uid(), 'admin') OR has_role(auth.uid(), 'owner')));
+
+-- Whether an employee was due at work on a date: not a holiday, and not a
+-- weekly off on their roster or, without one, outside the company's working days
+CREATE OR REPLACE FUNCTION public.is_working_day(_user_id uuid, _company_id uuid, _date date)
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _rostered record;
+  _working_days jsonb;
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM public.holidays
+    WHERE company_id = _company_id AND date = _date AND COALESCE(type, '') <> 'optional'
+  ) THEN
+    RETURN false;
+  END IF;
+
+  SELECT * INTO _rostered FROM public.get_rostered_shift(_user_id, _date);
+  IF FOUND THEN
+    RETURN NOT _rostered.is_off;
+  END IF;
+
+  SELECT setting_value->'working_days' INTO _working_days
+  FROM public.company_settings
+  WHERE company_id = _company_id AND setting_key = 'general';
+
+  IF _working_days IS NULL OR jsonb_typeof(_working_days) <> 'array' OR jsonb_array_length(_working_days) = 0 THEN
+    _working_days := '["monday", "tuesday", "wednesday", "thursday", "friday"]'::jsonb;
+  END IF;
+
+  RETURN EXISTS (
+    SELECT 1 FROM jsonb_array_elements_text(_working_days) d
+    WHERE lower(d) = lower(trim(to_char(_date, 'Day')))
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.close_attendance_day(_company_id uuid, _date date)
+RETURNS public.attendance_day_closures
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _office_end time;
+  _session record;
+  _sign_out timestamp with time zone;
+  _employee record;
+  _absent integer := 0;
+  _on_leave integer := 0;
+  _closed integer := 0;
+  _closure public.attendance_day_closures;
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT (
+    belongs_to_company(auth.uid(), _company_id)
+    AND (has_role(auth.uid(), 'admin') OR has_role(auth.uid(), 'owner'))
+  ) THEN
+    RAISE EXCEPTION 'Attendance close: only an admin can close the day';
+  END IF;
+  IF _date >= current_date THEN
+    RAISE EXCEPTION 'Attendance close: % has not ended yet', _date;
+  END IF;
+
+  -- Runs for the same company and date wait for each other
+  PERFORM pg_advisory_xact_lock(hashtext(_company_id::text || _date::text));
+
+  SELECT COALESCE((setting_value->>'office_hours_end')::time, '18:00')
+  INTO _office_end
+  FROM public.company_settings
+  WHERE company_id = _company_id AND setting_key = 'general';
+  _office_end := COALESCE(_office_end, '18:00');
+
+  -- Sign out sessions left open up to the date at the end of their shift,
+  -- once that has passed; a shift still running is left for the next run
+  FOR _session IN
+    SELECT s.id, s.sign_in_time, w.start_time, w.end_time
+    FROM public.attendance_sessions s
+    LEFT JOIN public.work_sessions w ON w.id = s.session_id
+    WHERE s.company_id = _company_id
+      AND s.sign_out_time IS NULL
+      AND s.sign_in_time::date <= _date
+      AND COALESCE(s.status::text, '') NOT IN ('absent', 'on_leave')
+  LOOP
+    _sign_out := _session.sign_in_time::date + COALESCE(_session.end_time, _office_end);
+    IF _session.end_time IS NOT NULL AND _session.end_time <= _session.start_time THEN
+      _sign_out := _sign_out + interval '1 day';
+    END IF;
+    _sign_out := greatest(_sign_out, _session.sign_in_time);
+
+    IF _sign_out <= now() THEN
+      UPDATE public.attendance_sessions
+      SET sign_out_time = _sign_out,
+          notes = concat_ws(E'\n', notes, 'Signed out automatically at the end of the shift')
+      WHERE id = _session.id;
+      _closed := _closed + 1;
+    END IF;
+  END LOOP;
+
+  -- Employees who had joined by the date and have no session on it
+  FOR _employee IN
+    SELECT p.user_id
+    FROM public.profiles p
+    WHERE p.company_id = _company_id
+      AND (p.date_of_joining IS NULL OR p.date_of_joining <= _date)
+      AND NOT EXISTS (
+        SELECT 1 FROM public.attendance_sessions s
+        WHERE s.user_id = p.user_id AND s.sign_in_time::date = _date
+      )
+  LOOP
+    IF EXISTS (
+      SELECT 1 FROM public.leave_requests l
+      WHERE l.user_id = _employee.user_id
+        AND l.status = 'approved'
+        AND l.start_date <= _date AND l.end_date >= _date
+    ) THEN
+      INSERT INTO public.attendance_sessions (user_id, company_id, sign_in_time, status, notes, evaluated_at)
+      VALUES (_employee.user_id, _company_id, _date::timestamp with time zone, 'on_leave', 'Approved leave', now());
+      _on_leave := _on_leave + 1;
+    ELSIF public.is_working_day(_employee.user_id, _company_id, _date) THEN
+      INSERT INTO public.attendance_sessions (user_id, company_id, sign_in_time, status, notes, evaluated_at)
+      VALUES (_employee.user_id, _company_id, _date::timestamp with time zone, 'absent', 'No punch on a working day', now());
+      _absent := _absent + 1;
+    END IF;
+  END LOOP;
+
+  INSERT INTO public.attendance_day_closures (company_id, work_date, absent_count, on_leave_count, closed_count, closed_by)
+  VALUES (_company_id, _date, _absent, _on_leave, _closed, auth.uid())
+  ON CONFLICT (company_id, work_date) DO UPDATE
+  SET absent_count = attendance_day_closures.absent_count + EXCLUDED.absent_count,
+      on_leave_count = attendance_day_closures.on_leave_count + EXCLUDED.on_leave_count,
+      closed_count = attendance_day_closures.closed_count + EXCLUDED.closed_count,
+      closed_by = EXCLUDED.closed_by,
+      closed_at = now()
+  RETURNING * INTO _closure;
+
+  RETURN _closure;
+END;
+$$;
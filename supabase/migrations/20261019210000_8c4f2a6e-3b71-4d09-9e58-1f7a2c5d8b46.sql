@@ -0,0 +1,277 @@
+-- Several punch segments per day. A segment that ends for a break records the
+-- break's type; the segment that ends the day has none. Official breaks, such
+-- as a client visit, count as worked time; lunch and personal breaks do not.
+ALTER TABLE public.attendance_sessions
+ADD COLUMN IF NOT EXISTS break_type text CHECK (break_type IN ('lunch', 'personal', 'official'));
+
+-- One row per employee and day, kept in step with the day's segments. Status,
+-- late minutes and overtime are evaluated over the whole day by the app once
+-- the last segment is signed out, or at the close-out of the day.
+CREATE TABLE public.attendance_daily_summaries (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  company_id uuid REFERENCES public.companies(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL,
+  work_date date NOT NULL,
+  first_sign_in timestamp with time zone,
+  last_sign_out timestamp with time zone,
+  segment_count integer NOT NULL DEFAULT 0,
+  -- A segment is still signed in
+  is_open boolean NOT NULL DEFAULT false,
+  -- Signed-in time plus official breaks
+  worked_minutes integer NOT NULL DEFAULT 0,
+  lunch_break_minutes integer NOT NULL DEFAULT 0,
+  personal_break_minutes integer NOT NULL DEFAULT 0,
+  official_break_minutes integer NOT NULL DEFAULT 0,
+  status public.attendance_status,
+  late_minutes integer NOT NULL DEFAULT 0,
+  overtime_hours numeric NOT NULL DEFAULT 0 CHECK (overtime_hours >= 0),
+  evaluated_at timestamp with time zone,
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE (user_id, work_date)
+);
+
+CREATE INDEX idx_attendance_daily_summaries_company ON public.attendance_daily_summaries(company_id, work_date);
+CREATE INDEX idx_attendance_daily_summaries_unevaluated ON public.attendance_daily_summaries(company_id)
+  WHERE evaluated_at IS NULL;
+
+ALTER TABLE public.attendance_daily_summaries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view daily attendance in their company"
+ON public.attendance_daily_summaries FOR SELECT
+USING (
+  company_id = get_user_company_id(auth.uid())
+  AND (
+    user_id = auth.uid()
+    OR has_role(auth.uid(), 'owner')
+    OR has_role(auth.uid(), 'admin')
+    OR manages_user(auth.uid(), user_id)
+  )
+);
+
+-- The evaluation is written by the employee's own sign-out, or by an admin's close-out
+CREATE POLICY "Users and admins can evaluate daily attendance"
+ON public.attendance_daily_summaries FOR UPDATE
+USING (
+  company_id = get_user_company_id(auth.uid())
+  AND (user_id = auth.uid() OR has_role(auth.uid(), 'owner') OR has_role(auth.uid(), 'admin'))
+);
+
+CREATE TRIGGER update_attendance_daily_summaries_updated_at
+  BEFORE UPDATE ON public.attendance_daily_summaries
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Rebuild one day's summary from its segments. Absent and on-leave rows are
+-- not worked segments; a day with nothing else takes their status. An
+-- evaluation is kept while the worked time it was made on is unchanged.
+CREATE OR REPLACE FUNCTION public.refresh_attendance_summary(_user_id uuid, _date date)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _day record;
+  _existing public.attendance_daily_summaries;
+  _marker public.attendance_status;
+  _worked integer;
+  _status public.attendance_status;
+  _late integer;
+  _overtime numeric;
+  _evaluated_at timestamp with time zone;
+BEGIN
+  WITH segments AS (
+    SELECT s.*,
+           lead(s.sign_in_time) OVER (ORDER BY s.sign_in_time) AS next_sign_in
+    FROM public.attendance_sessions s
+    WHERE s.user_id = _user_id
+      AND s.sign_in_time::date = _date
+      AND COALESCE(s.status::text, '') NOT IN ('absent', 'on_leave')
+  ),
+  breaks AS (
+    SELECT break_type,
+           extract(epoch FROM next_sign_in - sign_out_time) / 60 AS minutes
+    FROM segments
+    WHERE break_type IS NOT NULL AND sign_out_time IS NOT NULL AND next_sign_in IS NOT NULL
+  )
+  SELECT
+    (SELECT count(*) FROM segments) AS segment_count,
+    (SELECT min(company_id::text)::uuid FROM segments) AS company_id,
+    (SELECT min(sign_in_time) FROM segments) AS first_sign_in,
+    (SELECT max(sign_out_time) FROM segments) AS last_sign_out,
+    (SELECT COALESCE(bool_or(sign_out_time IS NULL), false) FROM segments) AS is_open,
+    (SELECT COALESCE(sum(extract(epoch FROM sign_out_time - sign_in_time) / 60), 0)
+       FROM segments WHERE sign_out_time IS NOT NULL) AS signed_in_minutes,
+    (SELECT COALESCE(sum(minutes) FILTER (WHERE break_type = 'lunch'), 0) FROM breaks) AS lunch_minutes,
+    (SELECT COALESCE(sum(minutes) FILTER (WHERE break_type = 'personal'), 0) FROM breaks) AS personal_minutes,
+    (SELECT COALESCE(sum(minutes) FILTER (WHERE break_type = 'official'), 0) FROM breaks) AS official_minutes
+  INTO _day;
+
+  IF _day.segment_count = 0 THEN
+    SELECT CASE WHEN bool_or(s.status = 'on_leave') THEN 'on_leave' ELSE 'absent' END::public.attendance_status
+    INTO _marker
+    FROM public.attendance_sessions s
+    WHERE s.user_id = _user_id AND s.sign_in_time::date = _date
+    HAVING count(*) > 0;
+
+    IF _marker IS NULL THEN
+      DELETE FROM public.attendance_daily_summaries WHERE user_id = _user_id AND work_date = _date;
+      RETURN;
+    END IF;
+
+    INSERT INTO public.attendance_daily_summaries AS d (
+      company_id, user_id, work_date, first_sign_in, last_sign_out, segment_count, is_open,
+      worked_minutes, lunch_break_minutes, personal_break_minutes, official_break_minutes,
+      status, late_minutes, overtime_hours, evaluated_at
+    )
+    SELECT min(s.company_id::text)::uuid, _user_id, _date, NULL, NULL, 0, false, 0, 0, 0, 0, _marker, 0, 0, now()
+    FROM public.attendance_sessions s
+    WHERE s.user_id = _user_id AND s.sign_in_time::date = _date
+    ON CONFLICT (user_id, work_date) DO UPDATE
+    SET company_id = EXCLUDED.company_id,
+        first_sign_in = NULL,
+        last_sign_out = NULL,
+        segment_count = 0,
+        is_open = false,
+        worked_minutes = 0,
+        lunch_break_minutes = 0,
+        personal_break_minutes = 0,
+        official_break_minutes = 0,
+        status = EXCLUDED.status,
+        late_minutes = 0,
+        overtime_hours = 0,
+        evaluated_at = CASE WHEN d.status = EXCLUDED.status THEN d.evaluated_at ELSE now() END;
+    RETURN;
+  END IF;
+
+  _worked := round(_day.signed_in_minutes + _day.official_minutes);
+  SELECT * INTO _existing
+  FROM public.attendance_daily_summaries
+  WHERE user_id = _user_id AND work_date = _date;
+
+  IF _existing.evaluated_at IS NOT NULL
+    AND _existing.segment_count > 0
+    AND (_existing.first_sign_in, _existing.worked_minutes, _existing.is_open)
+      IS NOT DISTINCT FROM (_day.first_sign_in, _worked, _day.is_open)
+  THEN
+    _status := _existing.status;
+    _late := _existing.late_minutes;
+    _overtime := _existing.overtime_hours;
+    _evaluated_at := _existing.evaluated_at;
+  ELSE
+    -- Until the day is evaluated it carries the status set at the first sign-in
+    SELECT s.status, s.late_minutes INTO _status, _late
+    FROM public.attendance_sessions s
+    WHERE s.user_id = _user_id
+      AND s.sign_in_time = _day.first_sign_in
+      AND COALESCE(s.status::text, '') NOT IN ('absent', 'on_leave')
+    LIMIT 1;
+    _status := COALESCE(_status, 'present');
+    _late := COALESCE(_late, 0);
+    _overtime := 0;
+    _evaluated_at := NULL;
+  END IF;
+
+  INSERT INTO public.attendance_daily_summaries (
+    company_id, user_id, work_date, first_sign_in, last_sign_out, segment_count, is_open,
+    worked_minutes, lunch_break_minutes, personal_break_minutes, official_break_minutes,
+    status, late_minutes, overtime_hours, evaluated_at
+  )
+  VALUES (
+    _day.company_id, _user_id, _date, _day.first_sign_in,
+    CASE WHEN _day.is_open THEN NULL ELSE _day.last_sign_out END,
+    _day.segment_count, _day.is_open, _worked,
+    round(_day.lunch_minutes), round(_day.personal_minutes), round(_day.official_minutes),
+    _status, _late, _overtime, _evaluated_at
+  )
+  ON CONFLICT (user_id, work_date) DO UPDATE
+  SET company_id = EXCLUDED.company_id,
+      first_sign_in = EXCLUDED.first_sign_in,
+      last_sign_out = EXCLUDED.last_sign_out,
+      segment_count = EXCLUDED.segment_count,
+      is_open = EXCLUDED.is_open,
+      worked_minutes = EXCLUDED.worked_minutes,
+      lunch_break_minutes = EXCLUDED.lunch_break_minutes,
+      personal_break_minutes = EXCLUDED.personal_break_minutes,
+      official_break_minutes = EXCLUDED.official_break_minutes,
+      status = EXCLUDED.status,
+      late_minutes = EXCLUDED.late_minutes,
+      overtime_hours = EXCLUDED.overtime_hours,
+      evaluated_at = EXCLUDED.evaluated_at;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.sync_attendance_summary()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM public.refresh_attendance_summary(OLD.user_id, OLD.sign_in_time::date);
+  END IF;
+  IF TG_OP IN ('INSERT', 'UPDATE') AND (
+    TG_OP = 'INSERT' OR NEW.user_id <> OLD.user_id OR NEW.sign_in_time::date <> OLD.sign_in_time::date
+  ) THEN
+    PERFORM public.refresh_attendance_summary(NEW.user_id, NEW.sign_in_time::date);
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER sync_attendance_summary
+  AFTER INSERT OR DELETE OR UPDATE OF user_id, sign_in_time, sign_out_time, status, break_type
+  ON public.attendance_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_attendance_summary();
+
+-- A comp-off is sized on the whole day's work rather than its first segment
+CREATE OR REPLACE FUNCTION public.size_comp_off_credit()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.comp_off_credits
+  SET days = CASE WHEN (
+    SELECT COALESCE(sum(s.sign_out_time - s.sign_in_time), interval '0')
+    FROM public.attendance_sessions s
+    WHERE s.user_id = NEW.user_id
+      AND s.sign_in_time::date = NEW.sign_in_time::date
+      AND s.sign_out_time IS NOT NULL
+      AND COALESCE(s.status::text, '') NOT IN ('absent', 'on_leave')
+  ) < interval '4 hours' THEN 0.5 ELSE 1 END
+  WHERE user_id = NEW.user_id
+    AND work_date = NEW.sign_in_time::date
+    AND status = 'pending';
+  RETURN NEW;
+END;
+$$;
+
+-- Summaries for attendance recorded so far. Days worked in one evaluated
+-- session keep that evaluation.
+DO $$
+DECLARE
+  _day record;
+BEGIN
+  FOR _day IN
+    SELECT DISTINCT user_id, sign_in_time::date AS work_date FROM public.attendance_sessions
+  LOOP
+    PERFORM public.refresh_attendance_summary(_day.user_id, _day.work_date);
+  END LOOP;
+END;
+$$;
+
+UPDATE public.attendance_daily_summaries d
+SET status = s.status,
+    late_minutes = s.late_minutes,
+    overtime_hours = s.overtime_hours,
+    evaluated_at = s.evaluated_at
+FROM public.attendance_sessions s
+WHERE d.segment_count = 1
+  AND NOT d.is_open
+  AND s.user_id = d.user_id
+  AND s.sign_in_time = d.first_sign_in
+  AND s.evaluated_at IS NOT NULL;
@@ -0,0 +1,544 @@
+-- Work days follow the company's timezone rather than UTC, so an early-morning
+-- punch in an IST office lands on the day it was made. Remote employees can
+-- carry their own timezone, which takes precedence over the company's.
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS timezone text;
+
+-- Only an admin sets an employee's timezone; it moves their day boundaries
+CREATE OR REPLACE FUNCTION public.validate_profile_timezone()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.timezone := NULLIF(trim(NEW.timezone), '');
+  IF TG_OP = 'UPDATE' AND NEW.timezone IS NOT DISTINCT FROM OLD.timezone THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND auth.uid() IS NOT NULL
+    AND NOT (has_role(auth.uid(), 'owner') OR has_role(auth.uid(), 'admin')) THEN
+    RAISE EXCEPTION 'Timezone: only an admin can change an employee''s timezone';
+  END IF;
+
+  IF NEW.timezone IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM pg_timezone_names WHERE name = NEW.timezone
+  ) THEN
+    RAISE EXCEPTION 'Timezone: % is not a recognised timezone', NEW.timezone;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_profile_timezone
+  BEFORE INSERT OR UPDATE OF timezone ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_profile_timezone();
+
+-- The timezone an employee's days are counted in: their own, else the
+-- company's, else UTC. Without a user, the company's.
+CREATE OR REPLACE FUNCTION public.attendance_timezone(_user_id uuid, _company_id uuid)
+RETURNS text
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _timezone text;
+BEGIN
+  IF _user_id IS NOT NULL THEN
+    SELECT NULLIF(timezone, '') INTO _timezone FROM public.profiles WHERE user_id = _user_id;
+  END IF;
+
+  IF _timezone IS NULL THEN
+    SELECT NULLIF(setting_value->>'timezone', '') INTO _timezone
+    FROM public.company_settings
+    WHERE company_id = COALESCE(_company_id, get_user_company_id(_user_id))
+      AND setting_key = 'general';
+  END IF;
+
+  -- A company setting that is not a known timezone counts as UTC
+  BEGIN
+    PERFORM now() AT TIME ZONE COALESCE(_timezone, 'UTC');
+  EXCEPTION WHEN invalid_parameter_value THEN
+    _timezone := NULL;
+  END;
+  RETURN COALESCE(_timezone, 'UTC');
+END;
+$$;
+
+-- The work day a session belongs to. Punches take the date of their sign-in
+-- in the employee's timezone; absent and on-leave markers carry the date they
+-- were recorded for. Recorded days keep their date if the timezone changes later.
+ALTER TABLE public.attendance_sessions
+ADD COLUMN IF NOT EXISTS work_date date;
+
+UPDATE public.attendance_sessions
+SET work_date = CASE
+  WHEN status IN ('absent', 'on_leave') THEN sign_in_time::date
+  ELSE (sign_in_time AT TIME ZONE public.attendance_timezone(user_id, company_id))::date
+END;
+
+ALTER TABLE public.attendance_sessions
+ALTER COLUMN work_date SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_attendance_sessions_user_work_date
+  ON public.attendance_sessions(user_id, work_date);
+CREATE INDEX IF NOT EXISTS idx_attendance_sessions_company_work_date
+  ON public.attendance_sessions(company_id, work_date);
+
+CREATE OR REPLACE FUNCTION public.set_attendance_work_date()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IN ('absent', 'on_leave') AND NEW.work_date IS NOT NULL
+    AND (TG_OP = 'INSERT' OR NEW.sign_in_time IS NOT DISTINCT FROM OLD.sign_in_time) THEN
+    RETURN NEW;
+  END IF;
+  NEW.work_date := (NEW.sign_in_time AT TIME ZONE public.attendance_timezone(NEW.user_id, NEW.company_id))::date;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_attendance_work_date
+  BEFORE INSERT OR UPDATE OF user_id, sign_in_time, work_date ON public.attendance_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_attendance_work_date();
+
+-- Daily summaries, comp-off and close-out now go by the session's work day
+CREATE OR REPLACE FUNCTION public.refresh_attendance_summary(_user_id uuid, _date date)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _day record;
+  _existing public.attendance_daily_summaries;
+  _marker public.attendance_status;
+  _worked integer;
+  _status public.attendance_status;
+  _late integer;
+  _overtime numeric;
+  _evaluated_at timestamp with time zone;
+BEGIN
+  WITH segments AS (
+    SELECT s.*,
+           lead(s.sign_in_time) OVER (ORDER BY s.sign_in_time) AS next_sign_in
+    FROM public.attendance_sessions s
+    WHERE s.user_id = _user_id
+      AND s.work_date = _date
+      AND COALESCE(s.status::text, '') NOT IN ('absent', 'on_leave')
+  ),
+  breaks AS (
+    SELECT break_type,
+           extract(epoch FROM next_sign_in - sign_out_time) / 60 AS minutes
+    FROM segments
+    WHERE break_type IS NOT NULL AND sign_out_time IS NOT NULL AND next_sign_in IS NOT NULL
+  )
+  SELECT
+    (SELECT count(*) FROM segments) AS segment_count,
+    (SELECT min(company_id::text)::uuid FROM segments) AS company_id,
+    (SELECT min(sign_in_time) FROM segments) AS first_sign_in,
+    (SELECT max(sign_out_time) FROM segments) AS last_sign_out,
+    (SELECT COALESCE(bool_or(sign_out_time IS NULL), false) FROM segments) AS is_open,
+    (SELECT COALESCE(sum(extract(epoch FROM sign_out_time - sign_in_time) / 60), 0)
+       FROM segments WHERE sign_out_time IS NOT NULL) AS signed_in_minutes,
+    (SELECT COALESCE(sum(minutes) FILTER (WHERE break_type = 'lunch'), 0) FROM breaks) AS lunch_minutes,
+    (SELECT COALESCE(sum(minutes) FILTER (WHERE break_type = 'personal'), 0) FROM breaks) AS personal_minutes,
+    (SELECT COALESCE(sum(minutes) FILTER (WHERE break_type = 'official'), 0) FROM breaks) AS official_minutes
+  INTO _day;
+
+  IF _day.segment_count = 0 THEN
+    SELECT CASE WHEN bool_or(s.status = 'on_leave') THEN 'on_leave' ELSE 'absent' END::public.attendance_status
+    INTO _marker
+    FROM public.attendance_sessions s
+    WHERE s.user_id = _user_id AND s.work_date = _date
+    HAVING count(*) > 0;
+
+    IF _marker IS NULL THEN
+      DELETE FROM public.attendance_daily_summaries WHERE user_id = _user_id AND work_date = _date;
+      RETURN;
+    END IF;
+
+    INSERT INTO public.attendance_daily_summaries AS d (
+      company_id, user_id, work_date, first_sign_in, last_sign_out, segment_count, is_open,
+      worked_minutes, lunch_break_minutes, personal_break_minutes, official_break_minutes,
+      status, late_minutes, overtime_hours, evaluated_at
+    )
+    SELECT min(s.company_id::text)::uuid, _user_id, _date, NULL, NULL, 0, false, 0, 0, 0, 0, _marker, 0, 0, now()
+    FROM public.attendance_sessions s
+    WHERE s.user_id = _user_id AND s.work_date = _date
+    ON CONFLICT (user_id, work_date) DO UPDATE
+    SET company_id = EXCLUDED.company_id,
+        first_sign_in = NULL,
+        last_sign_out = NULL,
+        segment_count = 0,
+        is_open = false,
+        worked_minutes = 0,
+        lunch_break_minutes = 0,
+        personal_break_minutes = 0,
+        official_break_minutes = 0,
+        status = EXCLUDED.status,
+        late_minutes = 0,
+        overtime_hours = 0,
+        evaluated_at = CASE WHEN d.status = EXCLUDED.status THEN d.evaluated_at ELSE now() END;
+    RETURN;
+  END IF;
+
+  _worked := round(_day.signed_in_minutes + _day.official_minutes);
+  SELECT * INTO _existing
+  FROM public.attendance_daily_summaries
+  WHERE user_id = _user_id AND work_date = _date;
+
+  IF _existing.evaluated_at IS NOT NULL
+    AND _existing.segment_count > 0
+    AND (_existing.first_sign_in, _existing.worked_minutes, _existing.is_open)
+      IS NOT DISTINCT FROM (_day.first_sign_in, _worked, _day.is_open)
+  THEN
+    _status := _existing.status;
+    _late := _existing.late_minutes;
+    _overtime := _existing.overtime_hours;
+    _evaluated_at := _existing.evaluated_at;
+  ELSE
+    -- Until the day is evaluated it carries the status set at the first sign-in
+    SELECT s.status, s.late_minutes INTO _status, _late
+    FROM public.attendance_sessions s
+    WHERE s.user_id = _user_id
+      AND s.sign_in_time = _day.first_sign_in
+      AND COALESCE(s.status::text, '') NOT IN ('absent', 'on_leave')
+    LIMIT 1;
+    _status := COALESCE(_status, 'present');
+    _late := COALESCE(_late, 0);
+    _overtime := 0;
+    _evaluated_at := NULL;
+  END IF;
+
+  INSERT INTO public.attendance_daily_summaries (
+    company_id, user_id, work_date, first_sign_in, last_sign_out, segment_count, is_open,
+    worked_minutes, lunch_break_minutes, personal_break_minutes, official_break_minutes,
+    status, late_minutes, overtime_hours, evaluated_at
+  )
+  VALUES (
+    _day.company_id, _user_id, _date, _day.first_sign_in,
+    CASE WHEN _day.is_open THEN NULL ELSE _day.last_sign_out END,
+    _day.segment_count, _day.is_open, _worked,
+    round(_day.lunch_minutes), round(_day.personal_minutes), round(_day.official_minutes),
+    _status, _late, _overtime, _evaluated_at
+  )
+  ON CONFLICT (user_id, work_date) DO UPDATE
+  SET company_id = EXCLUDED.company_id,
+      first_sign_in = EXCLUDED.first_sign_in,
+      last_sign_out = EXCLUDED.last_sign_out,
+      segment_count = EXCLUDED.segment_count,
+      is_open = EXCLUDED.is_open,
+      worked_minutes = EXCLUDED.worked_minutes,
+      lunch_break_minutes = EXCLUDED.lunch_break_minutes,
+      personal_break_minutes = EXCLUDED.personal_break_minutes,
+      official_break_minutes = EXCLUDED.official_break_minutes,
+      status = EXCLUDED.status,
+      late_minutes = EXCLUDED.late_minutes,
+      overtime_hours = EXCLUDED.overtime_hours,
+      evaluated_at = EXCLUDED.evaluated_at;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.sync_attendance_summary()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM public.refresh_attendance_summary(OLD.user_id, OLD.work_date);
+  END IF;
+  IF TG_OP IN ('INSERT', 'UPDATE') AND (
+    TG_OP = 'INSERT' OR NEW.user_id <> OLD.user_id OR NEW.work_date <> OLD.work_date
+  ) THEN
+    PERFORM public.refresh_attendance_summary(NEW.user_id, NEW.work_date);
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_attendance_summary ON public.attendance_sessions;
+CREATE TRIGGER sync_attendance_summary
+  AFTER INSERT OR DELETE OR UPDATE OF user_id, sign_in_time, sign_out_time, status, break_type, work_date
+  ON public.attendance_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_attendance_summary();
+
+CREATE OR REPLACE FUNCTION public.size_comp_off_credit()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.comp_off_credits
+  SET days = CASE WHEN (
+    SELECT COALESCE(sum(s.sign_out_time - s.sign_in_time), interval '0')
+    FROM public.attendance_sessions s
+    WHERE s.user_id = NEW.user_id
+      AND s.work_date = NEW.work_date
+      AND s.sign_out_time IS NOT NULL
+      AND COALESCE(s.status::text, '') NOT IN ('absent', 'on_leave')
+  ) < interval '4 hours' THEN 0.5 ELSE 1 END
+  WHERE user_id = NEW.user_id
+    AND work_date = NEW.work_date
+    AND status = 'pending';
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.detect_comp_off_work()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _company_id uuid := COALESCE(NEW.company_id, get_user_company_id(NEW.user_id));
+  _work_date date := NEW.work_date;
+  _weekday text := lower(trim(to_char(NEW.work_date, 'Day')));
+  _working_days jsonb;
+  _rostered record;
+  _reason text;
+BEGIN
+  IF _company_id IS NULL OR NEW.status IN ('on_leave', 'absent') THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT name INTO _reason
+  FROM public.holidays
+  WHERE company_id = _company_id
+    AND date = _work_date
+    AND COALESCE(type, '') <> 'optional'
+  LIMIT 1;
+
+  IF _reason IS NULL THEN
+    SELECT * INTO _rostered FROM public.get_rostered_shift(NEW.user_id, _work_date);
+
+    IF FOUND THEN
+      IF _rostered.is_off THEN
+        _reason := initcap(_weekday);
+      END IF;
+    ELSE
+      SELECT setting_value->'working_days' INTO _working_days
+      FROM public.company_settings
+      WHERE company_id = _company_id AND setting_key = 'general';
+
+      IF _working_days IS NULL OR jsonb_typeof(_working_days) <> 'array' OR jsonb_array_length(_working_days) = 0 THEN
+        _working_days := '["monday", "tuesday", "wednesday", "thursday", "friday"]'::jsonb;
+      END IF;
+
+      IF NOT EXISTS (
+        SELECT 1 FROM jsonb_array_elements_text(_working_days) d WHERE lower(d) = _weekday
+      ) THEN
+        _reason := initcap(_weekday);
+      END IF;
+    END IF;
+  END IF;
+
+  IF _reason IS NOT NULL THEN
+    INSERT INTO public.comp_off_credits (company_id, user_id, attendance_session_id, work_date, reason)
+    VALUES (_company_id, NEW.user_id, NEW.id, _work_date, _reason)
+    ON CONFLICT (user_id, work_date) DO NOTHING;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.apply_leave_status_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'cancelled' THEN
+    UPDATE public.leave_approvals
+    SET status = 'cancelled'
+    WHERE leave_request_id = NEW.id
+      AND (status = 'waiting' OR (status = 'pending' AND OLD.status = 'pending'));
+
+    INSERT INTO public.leave_ledger
+      (company_id, user_id, leave_type, entry_type, days, effective_date, leave_request_id, note, created_by)
+    SELECT company_id, user_id, leave_type, 'reversal', -days, effective_date, leave_request_id,
+           'Leave cancelled', auth.uid()
+    FROM public.leave_ledger
+    WHERE leave_request_id = NEW.id AND entry_type = 'consumption'
+    ON CONFLICT (leave_request_id) WHERE entry_type = 'reversal' DO NOTHING;
+
+    -- Days still covered by other approved leave keep their status
+    UPDATE public.attendance_sessions s
+    SET status = 'present'
+    WHERE s.user_id = NEW.user_id
+      AND s.status = 'on_leave'
+      AND s.sign_out_time IS NOT NULL
+      AND s.work_date BETWEEN NEW.start_date AND NEW.end_date
+      AND NOT EXISTS (
+        SELECT 1 FROM public.leave_requests o
+        WHERE o.user_id = NEW.user_id
+          AND o.id <> NEW.id
+          AND o.status IN ('approved', 'cancellation_requested')
+          AND s.work_date BETWEEN o.start_date AND o.end_date
+      );
+
+    -- Placeholder rows with no session behind them are dropped
+    DELETE FROM public.attendance_sessions s
+    WHERE s.user_id = NEW.user_id
+      AND s.status = 'on_leave'
+      AND s.sign_out_time IS NULL
+      AND s.work_date BETWEEN NEW.start_date AND NEW.end_date
+      AND NOT EXISTS (
+        SELECT 1 FROM public.leave_requests o
+        WHERE o.user_id = NEW.user_id
+          AND o.id <> NEW.id
+          AND o.status IN ('approved', 'cancellation_requested')
+          AND s.work_date BETWEEN o.start_date AND o.end_date
+      );
+  ELSIF NEW.status = 'approved' AND OLD.status = 'pending' AND NEW.modifies_request_id IS NOT NULL THEN
+    UPDATE public.leave_requests
+    SET status = 'cancelled',
+        cancellation_reason = 'Replaced by a modified request',
+        updated_at = now()
+    WHERE id = NEW.modifies_request_id
+      AND status IN ('approved', 'cancellation_requested');
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- A day is closed once it has ended in the company's timezone. Open sessions
+-- are signed out at their shift's end in the employee's timezone, and an
+-- employee whose own day has not ended yet is left for the next run.
+CREATE OR REPLACE FUNCTION public.close_attendance_day(_company_id uuid, _date date)
+RETURNS public.attendance_day_closures
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _office_end time;
+  _session record;
+  _sign_out timestamp with time zone;
+  _employee record;
+  _absent integer := 0;
+  _on_leave integer := 0;
+  _closed integer := 0;
+  _closure public.attendance_day_closures;
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT (
+    belongs_to_company(auth.uid(), _company_id)
+    AND (has_role(auth.uid(), 'admin') OR has_role(auth.uid(), 'owner'))
+  ) THEN
+    RAISE EXCEPTION 'Attendance close: only an admin can close the day';
+  END IF;
+  IF _date >= (now() AT TIME ZONE public.attendance_timezone(NULL, _company_id))::date THEN
+    RAISE EXCEPTION 'Attendance close: % has not ended yet', _date;
+  END IF;
+
+  -- Runs for the same company and date wait for each other
+  PERFORM pg_advisory_xact_lock(hashtext(_company_id::text || _date::text));
+
+  SELECT COALESCE((setting_value->>'office_hours_end')::time, '18:00')
+  INTO _office_end
+  FROM public.company_settings
+  WHERE company_id = _company_id AND setting_key = 'general';
+  _office_end := COALESCE(_office_end, '18:00');
+
+  -- Sign out sessions left open up to the date at the end of their shift,
+  -- once that has passed; a shift still running is left for the next run
+  FOR _session IN
+    SELECT s.id, s.sign_in_time, s.work_date, w.start_time, w.end_time,
+           public.attendance_timezone(s.user_id, _company_id) AS timezone
+    FROM public.attendance_sessions s
+    LEFT JOIN public.work_sessions w ON w.id = s.session_id
+    WHERE s.company_id = _company_id
+      AND s.sign_out_time IS NULL
+      AND s.work_date <= _date
+      AND COALESCE(s.status::text, '') NOT IN ('absent', 'on_leave')
+  LOOP
+    _sign_out := (_session.work_date + COALESCE(_session.end_time, _office_end)) AT TIME ZONE _session.timezone;
+    IF _session.end_time IS NOT NULL AND _session.end_time <= _session.start_time THEN
+      _sign_out := _sign_out + interval '1 day';
+    END IF;
+    _sign_out := greatest(_sign_out, _session.sign_in_time);
+
+    IF _sign_out <= now() THEN
+      UPDATE public.attendance_sessions
+      SET sign_out_time = _sign_out,
+          notes = concat_ws(E'\n', notes, 'Signed out automatically at the end of the shift')
+      WHERE id = _session.id;
+      _closed := _closed + 1;
+    END IF;
+  END LOOP;
+
+  -- Employees who had joined by the date, whose day has ended, and have no session on it
+  FOR _employee IN
+    SELECT p.user_id, public.attendance_timezone(p.user_id, _company_id) AS timezone
+    FROM public.profiles p
+    WHERE p.company_id = _company_id
+      AND (p.date_of_joining IS NULL OR p.date_of_joining <= _date)
+      AND NOT EXISTS (
+        SELECT 1 FROM public.attendance_sessions s
+        WHERE s.user_id = p.user_id AND s.work_date = _date
+      )
+  LOOP
+    IF (now() AT TIME ZONE _employee.timezone)::date <= _date THEN
+      CONTINUE;
+    END IF;
+
+    IF EXISTS (
+      SELECT 1 FROM public.leave_requests l
+      WHERE l.user_id = _employee.user_id
+        AND l.status = 'approved'
+        AND l.start_date <= _date AND l.end_date >= _date
+    ) THEN
+      INSERT INTO public.attendance_sessions (user_id, company_id, work_date, sign_in_time, status, notes, evaluated_at)
+      VALUES (_employee.user_id, _company_id, _date, _date::timestamp AT TIME ZONE _employee.timezone,
+              'on_leave', 'Approved leave', now());
+      _on_leave := _on_leave + 1;
+    ELSIF public.is_working_day(_employee.user_id, _company_id, _date) THEN
+      INSERT INTO public.attendance_sessions (user_id, company_id, work_date, sign_in_time, status, notes, evaluated_at)
+      VALUES (_employee.user_id, _company_id, _date, _date::timestamp AT TIME ZONE _employee.timezone,
+              'absent', 'No punch on a working day', now());
+      _absent := _absent + 1;
+    END IF;
+  END LOOP;
+
+  INSERT INTO public.attendance_day_closures (company_id, work_date, absent_count, on_leave_count, closed_count, closed_by)
+  VALUES (_company_id, _date, _absent, _on_leave, _closed, auth.uid())
+  ON CONFLICT (company_id, work_date) DO UPDATE
+  SET absent_count = attendance_day_closures.absent_count + EXCLUDED.absent_count,
+      on_leave_count = attendance_day_closures.on_leave_count + EXCLUDED.on_leave_count,
+      closed_count = attendance_day_closures.closed_count + EXCLUDED.closed_count,
+      closed_by = EXCLUDED.closed_by,
+      closed_at = now()
+  RETURNING * INTO _closure;
+
+  RETURN _closure;
+END;
+$$;
+
+-- Rebuild summaries on the new work days. Days whose segments are unchanged
+-- keep their evaluation; the rest are evaluated again at the next close-out.
+DO $$
+DECLARE
+  _day record;
+BEGIN
+  FOR _day IN
+    SELECT user_id, work_date FROM public.attendance_sessions
+    UNION
+    SELECT user_id, work_date FROM public.attendance_daily_summaries
+  LOOP
+    PERFORM public.refresh_attendance_summary(_day.user_id, _day.work_date);
+  END LOOP;
+END;
+$$;
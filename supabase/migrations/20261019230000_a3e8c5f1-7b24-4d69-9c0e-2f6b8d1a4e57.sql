@@ -0,0 +1,15 @@
+-- Punches captured offline are kept on the device and replayed when it
+-- reconnects, at the time they were made. Each carries a client id, recorded
+-- on the session it opened or closed, so a replay whose response was lost is
+-- not applied twice. A session with either id was punched offline.
+ALTER TABLE public.attendance_sessions
+ADD COLUMN IF NOT EXISTS offline_sign_in_id uuid,
+ADD COLUMN IF NOT EXISTS offline_sign_out_id uuid;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_attendance_sessions_offline_sign_in
+  ON public.attendance_sessions(offline_sign_in_id)
+  WHERE offline_sign_in_id IS NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_attendance_sessions_offline_sign_out
+  ON public.attendance_sessions(offline_sign_out_id)
+  WHERE offline_sign_out_id IS NOT NULL;
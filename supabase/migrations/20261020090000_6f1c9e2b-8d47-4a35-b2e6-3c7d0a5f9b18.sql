@@ -0,0 +1,334 @@
+-- Timesheets: employees log their attended hours against the company's
+-- projects and tasks, a week at a time, and their manager approves the week.
+-- Approved billable hours are what clients are billed for.
+CREATE TABLE public.projects (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  company_id uuid NOT NULL REFERENCES public.companies(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  code text,
+  client_name text,
+  -- Internal projects are never billable, whatever their tasks say
+  is_billable boolean NOT NULL DEFAULT true,
+  is_active boolean NOT NULL DEFAULT true,
+  created_by uuid,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE (company_id, name)
+);
+
+CREATE TABLE public.project_tasks (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  project_id uuid NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  company_id uuid NOT NULL REFERENCES public.companies(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  is_billable boolean NOT NULL DEFAULT true,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE (project_id, name)
+);
+
+-- One timesheet per employee and week, starting on Monday
+CREATE TABLE public.timesheets (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  company_id uuid NOT NULL REFERENCES public.companies(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL,
+  week_start date NOT NULL CHECK (extract(isodow FROM week_start) = 1),
+  status text NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'submitted', 'approved', 'rejected')),
+  submitted_at timestamp with time zone,
+  approved_by uuid,
+  approved_at timestamp with time zone,
+  rejection_reason text,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE (user_id, week_start)
+);
+
+CREATE TABLE public.timesheet_entries (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  timesheet_id uuid NOT NULL REFERENCES public.timesheets(id) ON DELETE CASCADE,
+  company_id uuid NOT NULL REFERENCES public.companies(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL,
+  project_id uuid NOT NULL REFERENCES public.projects(id) ON DELETE RESTRICT,
+  task_id uuid REFERENCES public.project_tasks(id) ON DELETE RESTRICT,
+  work_date date NOT NULL,
+  minutes integer NOT NULL CHECK (minutes > 0 AND minutes <= 1440),
+  -- Taken from the project and task when the entry is saved, so reports
+  -- do not shift when a project is later made internal
+  is_billable boolean NOT NULL DEFAULT true,
+  notes text,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_projects_company ON public.projects(company_id, is_active);
+CREATE INDEX idx_project_tasks_project ON public.project_tasks(project_id);
+CREATE INDEX idx_timesheets_company ON public.timesheets(company_id, status);
+CREATE INDEX idx_timesheet_entries_timesheet ON public.timesheet_entries(timesheet_id);
+CREATE INDEX idx_timesheet_entries_user_date ON public.timesheet_entries(user_id, work_date);
+CREATE INDEX idx_timesheet_entries_company_date ON public.timesheet_entries(company_id, work_date);
+
+CREATE TRIGGER update_projects_updated_at
+  BEFORE UPDATE ON public.projects
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_project_tasks_updated_at
+  BEFORE UPDATE ON public.project_tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_timesheets_updated_at
+  BEFORE UPDATE ON public.timesheets
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_timesheet_entries_updated_at
+  BEFORE UPDATE ON public.timesheet_entries
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Hours logged on a day cannot exceed the hours attended that day
+CREATE OR REPLACE FUNCTION public.check_timesheet_day(_user_id uuid, _work_date date)
+RETURNS void
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _logged integer;
+  _attended integer;
+BEGIN
+  SELECT COALESCE(sum(minutes), 0) INTO _logged
+  FROM public.timesheet_entries
+  WHERE user_id = _user_id AND work_date = _work_date;
+
+  SELECT COALESCE(sum(worked_minutes), 0) INTO _attended
+  FROM public.attendance_daily_summaries
+  WHERE user_id = _user_id AND work_date = _work_date;
+
+  IF _logged > _attended THEN
+    RAISE EXCEPTION 'Timesheet: % has % of hours logged but only % attended',
+      to_char(_work_date, 'Mon DD'),
+      to_char(make_interval(mins => _logged), 'HH24:MI'),
+      to_char(make_interval(mins => _attended), 'HH24:MI');
+  END IF;
+END;
+$$;
+
+-- Entries belong to the week of their timesheet, to an active project and
+-- task of the company, and can only change while the week is open
+CREATE OR REPLACE FUNCTION public.validate_timesheet_entry()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _sheet public.timesheets;
+  _project public.projects;
+  _task public.project_tasks;
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    SELECT * INTO _sheet FROM public.timesheets WHERE id = OLD.timesheet_id;
+    IF _sheet.status NOT IN ('draft', 'rejected') THEN
+      RAISE EXCEPTION 'Timesheet: the week is % and can no longer be changed', _sheet.status;
+    END IF;
+    IF TG_OP = 'DELETE' THEN
+      RETURN OLD;
+    END IF;
+  END IF;
+
+  SELECT * INTO _sheet FROM public.timesheets WHERE id = NEW.timesheet_id;
+  IF _sheet.status NOT IN ('draft', 'rejected') THEN
+    RAISE EXCEPTION 'Timesheet: the week is % and can no longer be changed', _sheet.status;
+  END IF;
+  IF NEW.work_date < _sheet.week_start OR NEW.work_date > _sheet.week_start + 6 THEN
+    RAISE EXCEPTION 'Timesheet: the entry is outside the week of its timesheet';
+  END IF;
+  NEW.user_id := _sheet.user_id;
+  NEW.company_id := _sheet.company_id;
+
+  SELECT * INTO _project FROM public.projects WHERE id = NEW.project_id;
+  IF _project.id IS NULL OR _project.company_id <> NEW.company_id THEN
+    RAISE EXCEPTION 'Timesheet: the project was not found';
+  END IF;
+  IF NOT _project.is_active AND (TG_OP = 'INSERT' OR NEW.project_id IS DISTINCT FROM OLD.project_id) THEN
+    RAISE EXCEPTION 'Timesheet: % is archived', _project.name;
+  END IF;
+
+  IF NEW.task_id IS NOT NULL THEN
+    SELECT * INTO _task FROM public.project_tasks WHERE id = NEW.task_id;
+    IF _task.id IS NULL OR _task.project_id <> NEW.project_id THEN
+      RAISE EXCEPTION 'Timesheet: the task is not part of %', _project.name;
+    END IF;
+    IF NOT _task.is_active AND (TG_OP = 'INSERT' OR NEW.task_id IS DISTINCT FROM OLD.task_id) THEN
+      RAISE EXCEPTION 'Timesheet: % is archived', _task.name;
+    END IF;
+  END IF;
+
+  NEW.is_billable := _project.is_billable AND COALESCE(_task.is_billable, true);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_timesheet_entry
+  BEFORE INSERT OR UPDATE OR DELETE ON public.timesheet_entries
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_timesheet_entry();
+
+CREATE OR REPLACE FUNCTION public.check_timesheet_entry_hours()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.check_timesheet_day(NEW.user_id, NEW.work_date);
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER check_timesheet_entry_hours
+  AFTER INSERT OR UPDATE OF work_date, minutes ON public.timesheet_entries
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_timesheet_entry_hours();
+
+-- Submitting checks every day again, since attendance may have been corrected
+-- since the hours were logged. Deciding stamps the approver.
+CREATE OR REPLACE FUNCTION public.apply_timesheet_status_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _day date;
+BEGIN
+  IF NEW.status = OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = 'submitted' THEN
+    IF OLD.status NOT IN ('draft', 'rejected') THEN
+      RAISE EXCEPTION 'Timesheet: only an open week can be submitted';
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM public.timesheet_entries WHERE timesheet_id = NEW.id) THEN
+      RAISE EXCEPTION 'Timesheet: log some hours before submitting the week';
+    END IF;
+    FOR _day IN SELECT DISTINCT work_date FROM public.timesheet_entries WHERE timesheet_id = NEW.id LOOP
+      PERFORM public.check_timesheet_day(NEW.user_id, _day);
+    END LOOP;
+    NEW.submitted_at := now();
+    NEW.approved_by := NULL;
+    NEW.approved_at := NULL;
+    NEW.rejection_reason := NULL;
+  ELSIF NEW.status IN ('approved', 'rejected') THEN
+    IF OLD.status <> 'submitted' THEN
+      RAISE EXCEPTION 'Timesheet: only a submitted week can be decided';
+    END IF;
+    IF auth.uid() IS NOT NULL AND NEW.user_id = auth.uid() THEN
+      RAISE EXCEPTION 'Timesheet: you cannot decide your own timesheet';
+    END IF;
+    NEW.approved_by := COALESCE(NEW.approved_by, auth.uid());
+    NEW.approved_at := now();
+  ELSIF NEW.status = 'draft' AND OLD.status <> 'submitted' THEN
+    RAISE EXCEPTION 'Timesheet: only a submitted week can be withdrawn';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER apply_timesheet_status_change
+  BEFORE UPDATE ON public.timesheets
+  FOR EACH ROW
+  EXECUTE FUNCTION public.apply_timesheet_status_change();
+
+-- RLS
+ALTER TABLE public.projects ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.project_tasks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.timesheets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.timesheet_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Company members can view projects"
+ON public.projects FOR SELECT
+USING (belongs_to_company(auth.uid(), company_id));
+
+CREATE POLICY "Admins can manage projects"
+ON public.projects FOR ALL
+USING (
+  belongs_to_company(auth.uid(), company_id)
+  AND (has_role(auth.uid(), 'owner') OR has_role(auth.uid(), 'admin'))
+)
+WITH CHECK (
+  belongs_to_company(auth.uid(), company_id)
+  AND (has_role(auth.uid(), 'owner') OR has_role(auth.uid(), 'admin'))
+);
+
+CREATE POLICY "Company members can view project tasks"
+ON public.project_tasks FOR SELECT
+USING (belongs_to_company(auth.uid(), company_id));
+
+CREATE POLICY "Admins can manage project tasks"
+ON public.project_tasks FOR ALL
+USING (
+  belongs_to_company(auth.uid(), company_id)
+  AND (has_role(auth.uid(), 'owner') OR has_role(auth.uid(), 'admin'))
+)
+WITH CHECK (
+  belongs_to_company(auth.uid(), company_id)
+  AND (has_role(auth.uid(), 'owner') OR has_role(auth.uid(), 'admin'))
+);
+
+CREATE POLICY "Employees, managers and admins can view timesheets"
+ON public.timesheets FOR SELECT
+USING (
+  belongs_to_company(auth.uid(), company_id)
+  AND (
+    user_id = auth.uid()
+    OR has_role(auth.uid(), 'owner')
+    OR has_role(auth.uid(), 'admin')
+    OR manages_user(auth.uid(), user_id)
+  )
+);
+
+CREATE POLICY "Employees can start their timesheets"
+ON public.timesheets FOR INSERT
+WITH CHECK (
+  user_id = auth.uid()
+  AND belongs_to_company(auth.uid(), company_id)
+  AND status = 'draft'
+);
+
+CREATE POLICY "Employees can submit and withdraw their timesheets"
+ON public.timesheets FOR UPDATE
+USING (user_id = auth.uid() AND status IN ('draft', 'submitted', 'rejected'))
+WITH CHECK (user_id = auth.uid() AND status IN ('draft', 'submitted'));
+
+CREATE POLICY "Managers and admins can decide timesheets"
+ON public.timesheets FOR UPDATE
+USING (
+  belongs_to_company(auth.uid(), company_id)
+  AND status = 'submitted'
+  AND user_id <> auth.uid()
+  AND (has_role(auth.uid(), 'owner') OR has_role(auth.uid(), 'admin') OR manages_user(auth.uid(), user_id))
+)
+WITH CHECK (status IN ('approved', 'rejected'));
+
+CREATE POLICY "Employees, managers and admins can view timesheet entries"
+ON public.timesheet_entries FOR SELECT
+USING (
+  belongs_to_company(auth.uid(), company_id)
+  AND (
+    user_id = auth.uid()
+    OR has_role(auth.uid(), 'owner')
+    OR has_role(auth.uid(), 'admin')
+    OR manages_user(auth.uid(), user_id)
+  )
+);
+
+CREATE POLICY "Employees can log their own hours"
+ON public.timesheet_entries FOR ALL
+USING (user_id = auth.uid())
+WITH CHECK (user_id = auth.uid() AND belongs_to_company(auth.uid(), company_id));
@@ -0,0 +1,522 @@
+-- Onboarding: a template per department or role lists what has to happen for
+-- a new hire - by HR, IT, their manager or the new hire themselves - with due
+-- dates counted from their date of joining. Starting onboarding copies the
+-- template into the employee's own checklist. The new hire uploads their ID
+-- proof, bank proof and signed policies to a private bucket, and overdue
+-- tasks raise in-app notifications.
+
+CREATE TABLE public.onboarding_templates (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  company_id uuid NOT NULL REFERENCES public.companies(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  -- Null matches every department or role; the most specific template wins
+  department_id uuid REFERENCES public.departments(id) ON DELETE SET NULL,
+  role public.app_role,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.onboarding_template_tasks (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  template_id uuid NOT NULL REFERENCES public.onboarding_templates(id) ON DELETE CASCADE,
+  company_id uuid NOT NULL REFERENCES public.companies(id) ON DELETE CASCADE,
+  title text NOT NULL CHECK (length(trim(title)) > 0),
+  description text,
+  owner_type text NOT NULL CHECK (owner_type IN ('hr', 'it', 'manager', 'new_hire')),
+  -- HR and IT tasks go to every admin unless a person is named
+  assignee_id uuid,
+  -- Days after the date of joining; negative for before the first day
+  due_offset_days integer NOT NULL DEFAULT 0,
+  -- Set on new-hire tasks completed by uploading a document
+  document_type text CHECK (document_type IN ('id_proof', 'bank_proof', 'signed_policy', 'other')),
+  sort_order integer NOT NULL DEFAULT 0,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  CHECK (document_type IS NULL OR owner_type = 'new_hire')
+);
+
+CREATE TABLE public.employee_onboardings (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  company_id uuid NOT NULL REFERENCES public.companies(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL UNIQUE,
+  template_id uuid REFERENCES public.onboarding_templates(id) ON DELETE SET NULL,
+  status text NOT NULL DEFAULT 'in_progress' CHECK (status IN ('in_progress', 'completed')),
+  started_by uuid,
+  completed_at timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+-- The new hire's copy of each template task
+CREATE TABLE public.onboarding_tasks (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  onboarding_id uuid NOT NULL REFERENCES public.employee_onboardings(id) ON DELETE CASCADE,
+  company_id uuid NOT NULL REFERENCES public.companies(id) ON DELETE CASCADE,
+  -- The new hire
+  user_id uuid NOT NULL,
+  title text NOT NULL,
+  description text,
+  owner_type text NOT NULL CHECK (owner_type IN ('hr', 'it', 'manager', 'new_hire')),
+  -- Who does it: the manager, the new hire, or a named person; null for every admin
+  assignee_id uuid,
+  due_offset_days integer NOT NULL DEFAULT 0,
+  due_date date NOT NULL,
+  document_type text CHECK (document_type IN ('id_proof', 'bank_proof', 'signed_policy', 'other')),
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'done')),
+  completed_by uuid,
+  completed_at timestamp with time zone,
+  overdue_notified_at timestamp with time zone,
+  sort_order integer NOT NULL DEFAULT 0,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.onboarding_documents (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  company_id uuid NOT NULL REFERENCES public.companies(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL,
+  task_id uuid REFERENCES public.onboarding_tasks(id) ON DELETE SET NULL,
+  document_type text NOT NULL CHECK (document_type IN ('id_proof', 'bank_proof', 'signed_policy', 'other')),
+  file_path text NOT NULL,
+  file_name text NOT NULL,
+  status text NOT NULL DEFAULT 'submitted' CHECK (status IN ('submitted', 'verified', 'rejected')),
+  reviewed_by uuid,
+  reviewed_at timestamp with time zone,
+  review_note text,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+-- In-app notifications, written by the database
+CREATE TABLE public.notifications (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  company_id uuid REFERENCES public.companies(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL,
+  title text NOT NULL,
+  body text,
+  -- App path to open, such as /onboarding
+  link text,
+  read_at timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_onboarding_templates_company ON public.onboarding_templates(company_id, is_active);
+CREATE INDEX idx_onboarding_template_tasks_template ON public.onboarding_template_tasks(template_id, sort_order);
+CREATE INDEX idx_employee_onboardings_company ON public.employee_onboardings(company_id, status);
+CREATE INDEX idx_onboarding_tasks_onboarding ON public.onboarding_tasks(onboarding_id, sort_order);
+CREATE INDEX idx_onboarding_tasks_due ON public.onboarding_tasks(company_id, status, due_date);
+CREATE INDEX idx_onboarding_tasks_assignee ON public.onboarding_tasks(assignee_id) WHERE status = 'pending';
+CREATE INDEX idx_onboarding_documents_user ON public.onboarding_documents(user_id);
+CREATE INDEX idx_notifications_user ON public.notifications(user_id, created_at DESC);
+
+CREATE TRIGGER update_onboarding_templates_updated_at
+  BEFORE UPDATE ON public.onboarding_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_employee_onboardings_updated_at
+  BEFORE UPDATE ON public.employee_onboardings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_onboarding_tasks_updated_at
+  BEFORE UPDATE ON public.onboarding_tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_onboarding_documents_updated_at
+  BEFORE UPDATE ON public.onboarding_documents
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION public.is_company_admin(_user_id uuid, _company_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT belongs_to_company(_user_id, _company_id)
+    AND (has_role(_user_id, 'owner') OR has_role(_user_id, 'admin'))
+$$;
+
+-- Copy the template that fits the employee best into their checklist: one
+-- for their department and role over one for either, over a catch-all. With
+-- no template given and none matching, nothing is started and null returned.
+CREATE OR REPLACE FUNCTION public.start_onboarding(_user_id uuid, _template_id uuid DEFAULT NULL)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _profile public.profiles;
+  _role public.app_role;
+  _manager_id uuid;
+  _template public.onboarding_templates;
+  _joining date;
+  _onboarding_id uuid;
+BEGIN
+  SELECT * INTO _profile FROM public.profiles WHERE user_id = _user_id;
+  IF _profile.id IS NULL THEN
+    RAISE EXCEPTION 'Onboarding: the employee was not found';
+  END IF;
+  IF auth.uid() IS NOT NULL AND NOT public.is_company_admin(auth.uid(), _profile.company_id) THEN
+    RAISE EXCEPTION 'Onboarding: only admins can start onboarding';
+  END IF;
+  IF EXISTS (SELECT 1 FROM public.employee_onboardings WHERE user_id = _user_id) THEN
+    RAISE EXCEPTION 'Onboarding: % % already has an onboarding checklist', _profile.first_name, _profile.last_name;
+  END IF;
+
+  SELECT role INTO _role FROM public.user_roles WHERE user_id = _user_id ORDER BY role LIMIT 1;
+
+  IF _template_id IS NOT NULL THEN
+    SELECT * INTO _template FROM public.onboarding_templates
+    WHERE id = _template_id AND company_id = _profile.company_id;
+    IF _template.id IS NULL THEN
+      RAISE EXCEPTION 'Onboarding: the template was not found';
+    END IF;
+  ELSE
+    SELECT * INTO _template FROM public.onboarding_templates t
+    WHERE t.company_id = _profile.company_id
+      AND t.is_active
+      AND (t.department_id IS NULL OR t.department_id = _profile.department_id)
+      AND (t.role IS NULL OR t.role = _role)
+    ORDER BY (t.department_id IS NOT NULL)::int + (t.role IS NOT NULL)::int DESC, t.created_at
+    LIMIT 1;
+    IF _template.id IS NULL THEN
+      RETURN NULL;
+    END IF;
+  END IF;
+
+  SELECT m.user_id INTO _manager_id FROM public.profiles m WHERE m.id = _profile.reporting_manager_id;
+  _joining := COALESCE(_profile.date_of_joining, (now() AT TIME ZONE public.attendance_timezone(_user_id, _profile.company_id))::date);
+
+  INSERT INTO public.employee_onboardings (company_id, user_id, template_id, started_by)
+  VALUES (_profile.company_id, _user_id, _template.id, auth.uid())
+  RETURNING id INTO _onboarding_id;
+
+  INSERT INTO public.onboarding_tasks (
+    onboarding_id, company_id, user_id, title, description, owner_type, assignee_id,
+    due_offset_days, due_date, document_type, sort_order
+  )
+  SELECT _onboarding_id, _profile.company_id, _user_id, tt.title, tt.description, tt.owner_type,
+    CASE tt.owner_type
+      WHEN 'new_hire' THEN _user_id
+      WHEN 'manager' THEN _manager_id
+      ELSE tt.assignee_id
+    END,
+    tt.due_offset_days, _joining + tt.due_offset_days, tt.document_type, tt.sort_order
+  FROM public.onboarding_template_tasks tt
+  WHERE tt.template_id = _template.id;
+
+  -- A template without tasks leaves nothing to do
+  IF NOT FOUND THEN
+    UPDATE public.employee_onboardings SET status = 'completed', completed_at = now() WHERE id = _onboarding_id;
+  END IF;
+
+  INSERT INTO public.notifications (company_id, user_id, title, body, link)
+  VALUES (
+    _profile.company_id, _user_id, 'Welcome aboard',
+    'Your onboarding checklist is ready. Upload your documents to get started.', '/onboarding'
+  );
+  RETURN _onboarding_id;
+END;
+$$;
+
+-- Assignees can only tick their task off; admins can also move the due date.
+-- Document tasks are done by uploading. The onboarding completes with its
+-- last task.
+CREATE OR REPLACE FUNCTION public.apply_onboarding_task_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT public.is_company_admin(auth.uid(), OLD.company_id) THEN
+    IF (NEW.title, NEW.description, NEW.owner_type, NEW.assignee_id, NEW.due_date, NEW.document_type, NEW.user_id, NEW.onboarding_id)
+       IS DISTINCT FROM
+       (OLD.title, OLD.description, OLD.owner_type, OLD.assignee_id, OLD.due_date, OLD.document_type, OLD.user_id, OLD.onboarding_id) THEN
+      RAISE EXCEPTION 'Onboarding: only admins can change a task';
+    END IF;
+    IF NEW.document_type IS NOT NULL AND NEW.status IS DISTINCT FROM OLD.status
+       AND current_setting('onboarding.document_upload', true) IS DISTINCT FROM 'on' THEN
+      RAISE EXCEPTION 'Onboarding: upload the document to complete this task';
+    END IF;
+  END IF;
+
+  IF NEW.status = 'done' AND OLD.status = 'pending' THEN
+    NEW.completed_by := auth.uid();
+    NEW.completed_at := now();
+  ELSIF NEW.status = 'pending' THEN
+    NEW.completed_by := NULL;
+    NEW.completed_at := NULL;
+  END IF;
+  IF NEW.due_date IS DISTINCT FROM OLD.due_date THEN
+    NEW.overdue_notified_at := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER apply_onboarding_task_change
+  BEFORE UPDATE ON public.onboarding_tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.apply_onboarding_task_change();
+
+CREATE OR REPLACE FUNCTION public.sync_onboarding_status()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _open boolean;
+BEGIN
+  SELECT EXISTS (
+    SELECT 1 FROM public.onboarding_tasks WHERE onboarding_id = NEW.onboarding_id AND status = 'pending'
+  ) INTO _open;
+
+  UPDATE public.employee_onboardings
+  SET status = CASE WHEN _open THEN 'in_progress' ELSE 'completed' END,
+      completed_at = CASE WHEN _open THEN NULL ELSE COALESCE(completed_at, now()) END
+  WHERE id = NEW.onboarding_id
+    AND status <> CASE WHEN _open THEN 'in_progress' ELSE 'completed' END;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER sync_onboarding_status
+  AFTER INSERT OR UPDATE OF status ON public.onboarding_tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_onboarding_status();
+
+-- Uploading a document completes its task; rejecting it reopens the task
+-- and tells the new hire
+CREATE OR REPLACE FUNCTION public.apply_onboarding_document_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM set_config('onboarding.document_upload', 'on', true);
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.task_id IS NOT NULL THEN
+      UPDATE public.onboarding_tasks
+      SET status = 'done'
+      WHERE id = NEW.task_id AND user_id = NEW.user_id AND status = 'pending';
+    END IF;
+  ELSIF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF auth.uid() IS NOT NULL AND NOT public.is_company_admin(auth.uid(), NEW.company_id) THEN
+      RAISE EXCEPTION 'Onboarding: only admins can review documents';
+    END IF;
+    NEW.reviewed_by := auth.uid();
+    NEW.reviewed_at := now();
+
+    IF NEW.status = 'rejected' THEN
+      IF NEW.task_id IS NOT NULL THEN
+        UPDATE public.onboarding_tasks SET status = 'pending' WHERE id = NEW.task_id;
+      END IF;
+      INSERT INTO public.notifications (company_id, user_id, title, body, link)
+      VALUES (
+        NEW.company_id, NEW.user_id, 'Document needs another upload',
+        NEW.file_name || ' was not accepted' || COALESCE(': ' || NEW.review_note, '') || '.', '/onboarding'
+      );
+    END IF;
+  END IF;
+
+  PERFORM set_config('onboarding.document_upload', 'off', true);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER apply_onboarding_document_insert
+  AFTER INSERT ON public.onboarding_documents
+  FOR EACH ROW
+  EXECUTE FUNCTION public.apply_onboarding_document_change();
+
+CREATE TRIGGER apply_onboarding_document_review
+  BEFORE UPDATE ON public.onboarding_documents
+  FOR EACH ROW
+  EXECUTE FUNCTION public.apply_onboarding_document_change();
+
+-- Moving the date of joining moves the open tasks with it
+CREATE OR REPLACE FUNCTION public.shift_onboarding_due_dates()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.date_of_joining IS DISTINCT FROM OLD.date_of_joining AND NEW.date_of_joining IS NOT NULL THEN
+    UPDATE public.onboarding_tasks
+    SET due_date = NEW.date_of_joining + due_offset_days
+    WHERE user_id = NEW.user_id AND status = 'pending';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER shift_onboarding_due_dates
+  AFTER UPDATE OF date_of_joining ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.shift_onboarding_due_dates();
+
+-- Notify whoever owns each task that went overdue since the last run: the
+-- assignee, or every admin for HR and IT tasks without one. Each task is
+-- notified once per due date. Returns the number of tasks notified.
+CREATE OR REPLACE FUNCTION public.notify_overdue_onboarding_tasks(_company_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _today date := (now() AT TIME ZONE public.attendance_timezone(NULL, _company_id))::date;
+  _task record;
+  _count integer := 0;
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT public.is_company_admin(auth.uid(), _company_id) THEN
+    RAISE EXCEPTION 'Onboarding: only admins can send overdue reminders';
+  END IF;
+
+  FOR _task IN
+    SELECT t.*, p.first_name, p.last_name, p.id AS profile_id
+    FROM public.onboarding_tasks t
+    JOIN public.profiles p ON p.user_id = t.user_id
+    WHERE t.company_id = _company_id
+      AND t.status = 'pending'
+      AND t.due_date < _today
+      AND t.overdue_notified_at IS NULL
+    FOR UPDATE OF t SKIP LOCKED
+  LOOP
+    INSERT INTO public.notifications (company_id, user_id, title, body, link)
+    SELECT _company_id, recipient,
+      'Onboarding task overdue',
+      CASE WHEN recipient = _task.user_id
+        THEN _task.title || ' was due ' || to_char(_task.due_date, 'Mon DD') || '.'
+        ELSE _task.title || ' for ' || _task.first_name || ' ' || _task.last_name || ' was due ' || to_char(_task.due_date, 'Mon DD') || '.'
+      END,
+      CASE WHEN recipient = _task.user_id THEN '/onboarding' ELSE '/employees/' || _task.profile_id END
+    FROM (
+      SELECT _task.assignee_id AS recipient WHERE _task.assignee_id IS NOT NULL
+      UNION
+      SELECT ur.user_id FROM public.user_roles ur
+      JOIN public.profiles ap ON ap.user_id = ur.user_id
+      WHERE _task.assignee_id IS NULL
+        AND ap.company_id = _company_id
+        AND ur.role IN ('owner', 'admin')
+    ) recipients;
+
+    UPDATE public.onboarding_tasks SET overdue_notified_at = now() WHERE id = _task.id;
+    _count := _count + 1;
+  END LOOP;
+  RETURN _count;
+END;
+$$;
+
+-- Documents live under <user_id>/ in a private bucket
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('onboarding-documents', 'onboarding-documents', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can upload their own onboarding documents"
+ON storage.objects FOR INSERT
+WITH CHECK (
+  bucket_id = 'onboarding-documents'
+  AND (storage.foldername(name))[1] = auth.uid()::text
+);
+
+CREATE POLICY "Users and admins can view onboarding documents"
+ON storage.objects FOR SELECT
+USING (
+  bucket_id = 'onboarding-documents'
+  AND (
+    (storage.foldername(name))[1] = auth.uid()::text
+    OR public.is_company_admin(auth.uid(), get_user_company_id(((storage.foldername(name))[1])::uuid))
+  )
+);
+
+-- RLS
+ALTER TABLE public.onboarding_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.onboarding_template_tasks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.employee_onboardings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.onboarding_tasks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.onboarding_documents ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage onboarding templates"
+ON public.onboarding_templates FOR ALL
+USING (public.is_company_admin(auth.uid(), company_id))
+WITH CHECK (public.is_company_admin(auth.uid(), company_id));
+
+CREATE POLICY "Admins can manage onboarding template tasks"
+ON public.onboarding_template_tasks FOR ALL
+USING (public.is_company_admin(auth.uid(), company_id))
+WITH CHECK (public.is_company_admin(auth.uid(), company_id));
+
+CREATE POLICY "New hires, managers and admins can view onboardings"
+ON public.employee_onboardings FOR SELECT
+USING (
+  belongs_to_company(auth.uid(), company_id)
+  AND (
+    user_id = auth.uid()
+    OR public.is_company_admin(auth.uid(), company_id)
+    OR manages_user(auth.uid(), user_id)
+  )
+);
+
+CREATE POLICY "Admins can remove onboardings"
+ON public.employee_onboardings FOR DELETE
+USING (public.is_company_admin(auth.uid(), company_id));
+
+CREATE POLICY "New hires, assignees, managers and admins can view onboarding tasks"
+ON public.onboarding_tasks FOR SELECT
+USING (
+  belongs_to_company(auth.uid(), company_id)
+  AND (
+    user_id = auth.uid()
+    OR assignee_id = auth.uid()
+    OR public.is_company_admin(auth.uid(), company_id)
+    OR manages_user(auth.uid(), user_id)
+  )
+);
+
+CREATE POLICY "Assignees and admins can update onboarding tasks"
+ON public.onboarding_tasks FOR UPDATE
+USING (
+  belongs_to_company(auth.uid(), company_id)
+  AND (assignee_id = auth.uid() OR public.is_company_admin(auth.uid(), company_id))
+);
+
+CREATE POLICY "New hires and admins can view onboarding documents"
+ON public.onboarding_documents FOR SELECT
+USING (
+  belongs_to_company(auth.uid(), company_id)
+  AND (user_id = auth.uid() OR public.is_company_admin(auth.uid(), company_id))
+);
+
+CREATE POLICY "New hires can upload onboarding documents"
+ON public.onboarding_documents FOR INSERT
+WITH CHECK (
+  user_id = auth.uid()
+  AND belongs_to_company(auth.uid(), company_id)
+  AND status = 'submitted'
+);
+
+CREATE POLICY "Admins can review onboarding documents"
+ON public.onboarding_documents FOR UPDATE
+USING (public.is_company_admin(auth.uid(), company_id))
+WITH CHECK (status IN ('verified', 'rejected'));
+
+CREATE POLICY "Users can view their notifications"
+ON public.notifications FOR SELECT
+USING (user_id = auth.uid());
+
+CREATE POLICY "Users can mark their notifications read"
+ON public.notifications FOR UPDATE
+USING (user_id = auth.uid())
+WITH CHECK (user_id = auth.uid());
@@ -0,0 +1,95 @@
+-- Employees could set their approved leave back to pending and then withdraw
+-- it, skipping the cancellation approval while still being credited back.
+-- Only HR reopens decided leave, and an employee's own updates are limited to
+-- withdrawing a pending request or asking to cancel an approved one.
+
+-- Status changes a user may make on a leave request
+CREATE OR REPLACE FUNCTION public.enforce_leave_approval_chain()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _has_chain boolean;
+  _is_hr boolean := has_role(auth.uid(), 'admin') OR has_role(auth.uid(), 'owner');
+BEGIN
+  IF OLD.status <> 'pending' AND NOT _is_hr AND (
+    NEW.start_date IS DISTINCT FROM OLD.start_date
+    OR NEW.end_date IS DISTINCT FROM OLD.end_date
+    OR NEW.half_day IS DISTINCT FROM OLD.half_day
+    OR NEW.leave_type IS DISTINCT FROM OLD.leave_type
+  ) THEN
+    RAISE EXCEPTION 'Leave approval: approved leave is changed through a modification request';
+  END IF;
+
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  _has_chain := EXISTS (SELECT 1 FROM public.leave_approvals WHERE leave_request_id = NEW.id);
+
+  -- Approving leave or its cancellation is done by whoever acts on the last open step
+  IF (OLD.status = 'pending' AND NEW.status = 'approved')
+    OR (OLD.status = 'cancellation_requested' AND NEW.status = 'cancelled')
+  THEN
+    IF _has_chain AND (
+      EXISTS (SELECT 1 FROM public.leave_approvals WHERE leave_request_id = NEW.id AND status = 'waiting')
+      OR NOT is_leave_approver(auth.uid(), NEW.id)
+    ) THEN
+      RAISE EXCEPTION 'Leave approval: every approval step must be completed first';
+    END IF;
+  -- Turning a cancellation down keeps the leave
+  ELSIF OLD.status = 'cancellation_requested' AND NEW.status = 'approved' THEN
+    IF _has_chain AND NOT is_leave_approver(auth.uid(), NEW.id) THEN
+      RAISE EXCEPTION 'Leave approval: only the current approver can turn down a cancellation';
+    END IF;
+  -- Decided leave goes back to pending only through HR; otherwise an employee
+  -- could reopen approved leave and withdraw it without a cancellation request
+  ELSIF NEW.status = 'pending' THEN
+    IF NOT _is_hr THEN
+      RAISE EXCEPTION 'Leave approval: % leave cannot be reopened', replace(OLD.status::text, '_', ' ');
+    END IF;
+  ELSIF NEW.status = 'cancellation_requested' AND OLD.status <> 'approved' THEN
+    RAISE EXCEPTION 'Leave approval: only approved leave needs a cancellation request';
+  -- Approved leave is cancelled directly only by HR, or when a modification replaces it
+  ELSIF OLD.status = 'approved' AND NEW.status = 'cancelled' THEN
+    IF NOT _is_hr AND NOT EXISTS (
+      SELECT 1 FROM public.leave_requests m
+      WHERE m.modifies_request_id = NEW.id AND m.status = 'approved'
+    ) THEN
+      RAISE EXCEPTION 'Leave approval: approved leave is cancelled through a cancellation request';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Status of a request before the update being checked; policies cannot see OLD
+CREATE OR REPLACE FUNCTION public.leave_request_status(_request_id uuid)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT status::text FROM public.leave_requests WHERE id = _request_id
+$$;
+
+DROP POLICY IF EXISTS "Users can cancel their own leave requests" ON public.leave_requests;
+
+-- Employees withdraw pending requests and ask to cancel approved ones
+CREATE POLICY "Users can cancel their own leave requests"
+ON public.leave_requests FOR UPDATE
+USING (
+  user_id = auth.uid()
+  AND company_id = get_user_company_id(auth.uid())
+  AND status IN ('pending', 'approved')
+)
+WITH CHECK (
+  user_id = auth.uid()
+  AND (
+    (status = 'cancelled' AND leave_request_status(id) = 'pending')
+    OR (status = 'cancellation_requested' AND leave_request_status(id) = 'approved')
+  )
+);
@@ -0,0 +1,118 @@
+-- Reversing a run inserted the reversal run, its rows and their adjustments in
+-- separate requests, so a failure part way left a half-built reversal behind.
+-- It is now one function call and so one transaction.
+--
+-- Rows of an approved run also accepted status-only updates at any time. The
+-- one status change the lifecycle needs is rows turning paid with their run,
+-- which the database now does itself when a run goes from locked to paid.
+
+CREATE OR REPLACE FUNCTION public.payroll_run_status(_run_id uuid)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT status FROM public.payroll_runs WHERE id = _run_id
+$$;
+
+CREATE OR REPLACE FUNCTION public.enforce_payroll_row_editable()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  -- Rows of a paid run may be flagged paid, and nothing else
+  IF TG_OP = 'UPDATE'
+     AND NEW.run_id IS NOT DISTINCT FROM OLD.run_id
+     AND NEW.status = 'paid'
+     AND payroll_run_status(NEW.run_id) = 'paid'
+     AND (to_jsonb(NEW) - 'status' - 'updated_at') = (to_jsonb(OLD) - 'status' - 'updated_at') THEN
+    RETURN NEW;
+  END IF;
+
+  IF (TG_OP <> 'INSERT' AND is_payroll_run_frozen(OLD.run_id))
+     OR (TG_OP <> 'DELETE' AND is_payroll_run_frozen(NEW.run_id)) THEN
+    RAISE EXCEPTION 'Payroll run is approved; corrections need a reversal or off-cycle run';
+  END IF;
+
+  RETURN CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+END;
+$$;
+
+-- Paying a run pays its rows in the same statement
+CREATE OR REPLACE FUNCTION public.mark_payroll_rows_paid()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.payroll
+  SET status = 'paid', updated_at = now()
+  WHERE run_id = NEW.id AND status IS DISTINCT FROM 'paid';
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER mark_payroll_rows_paid
+  AFTER UPDATE OF status ON public.payroll_runs
+  FOR EACH ROW
+  WHEN (OLD.status = 'locked' AND NEW.status = 'paid')
+  EXECUTE FUNCTION public.mark_payroll_rows_paid();
+
+-- A reversal run cancelling every row of an approved run with negated amounts.
+-- Runs as the caller, so the payroll policies decide who may reverse.
+CREATE OR REPLACE FUNCTION public.create_payroll_reversal_run(_run_id uuid, _note text DEFAULT NULL)
+RETURNS public.payroll_runs
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _run public.payroll_runs;
+  _reversal public.payroll_runs;
+BEGIN
+  -- Concurrent reversals of the same run wait here, so only one gets through
+  SELECT * INTO _run FROM public.payroll_runs WHERE id = _run_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payroll run: run not found';
+  END IF;
+  IF _run.status NOT IN ('approved', 'locked', 'paid') THEN
+    RAISE EXCEPTION 'Payroll run: only approved runs can be reversed; edit the draft instead';
+  END IF;
+  IF _run.run_type = 'reversal' THEN
+    RAISE EXCEPTION 'Payroll run: a reversal run cannot itself be reversed';
+  END IF;
+  IF EXISTS (SELECT 1 FROM public.payroll_runs WHERE reverses_run_id = _run_id) THEN
+    RAISE EXCEPTION 'Payroll run: this run has already been reversed';
+  END IF;
+
+  INSERT INTO public.payroll_runs (company_id, month, year, run_type, reverses_run_id, status_note)
+  VALUES (_run.company_id, _run.month, _run.year, 'reversal', _run.id, _note)
+  RETURNING * INTO _reversal;
+
+  INSERT INTO public.payroll (
+    run_id, user_id, company_id, month, year, status, processed_at,
+    working_days, present_days, paid_leave_days, unpaid_leave_days,
+    base_salary, gross_salary, pf_wages, esic_wages, pf_amount, esic_amount, epf_amount,
+    eps_amount, employer_esic_amount, tds_amount, total_additions, total_deductions, deductions, net_salary
+  )
+  SELECT
+    _reversal.id, user_id, company_id, month, year, 'processed', now(),
+    working_days, present_days, paid_leave_days, unpaid_leave_days,
+    -COALESCE(base_salary, 0), -COALESCE(gross_salary, 0), -pf_wages, -esic_wages,
+    -COALESCE(pf_amount, 0), -COALESCE(esic_amount, 0), -COALESCE(epf_amount, 0),
+    -eps_amount, -employer_esic_amount, -COALESCE(tds_amount, 0),
+    -COALESCE(total_additions, 0), -COALESCE(total_deductions, 0), -COALESCE(deductions, 0), -COALESCE(net_salary, 0)
+  FROM public.payroll
+  WHERE run_id = _run_id;
+
+  INSERT INTO public.payroll_adjustments (payroll_id, company_id, name, amount, adjustment_type, code)
+  SELECT reversed.id, _run.company_id, a.name, -a.amount, a.adjustment_type, a.code
+  FROM public.payroll_adjustments a
+  JOIN public.payroll original ON original.id = a.payroll_id
+  JOIN public.payroll reversed ON reversed.run_id = _reversal.id AND reversed.user_id = original.user_id
+  WHERE original.run_id = _run_id;
+
+  RETURN _reversal;
+END;
+$$;